@@ -45,6 +45,7 @@ import { WeatherProvider } from './context/WeatherContext';
 import SettingsScreen from './screens/SettingsScreen';
 import PolicyScreen from './screens/PolicyScreen';
 import PaymentHistoryScreen from './screens/PaymentHistoryScreen';
+import WalletScreen from './screens/WalletScreen';
 import BookingHistoryScreen from './screens/BookingHistoryScreen';
 const AdminView = React.lazy(() => import('./screens/AdminView'));
 const FounderView = React.lazy(() => import('./screens/FounderView'));
@@ -57,10 +58,13 @@ import ChangePasswordScreen from './screens/ChangePasswordScreen';
 import EditDetailsScreen from './screens/EditDetailsScreen';
 import ConversationsScreen from './screens/ConversationsScreen';
 import CommunityScreen from './screens/CommunityScreen';
+import MyFieldsScreen from './screens/MyFieldsScreen';
 import PaymentScreen from './screens/PaymentScreen';
 import CropCalendarScreen from './screens/CropCalendarScreen';
 import AdminAlertsScreen from './screens/AdminAlertsScreen';
 import EarningsDetailsScreen from './screens/EarningsDetailsScreen';
+import VerifiedAccountManagerScreen from './screens/VerifiedAccountManagerScreen';
+import WARBreakdownScreen from './screens/WARBreakdownScreen';
 import PWAInstallPrompt from './components/PWAInstallPrompt';
 
 
@@ -252,7 +256,7 @@ const AppContent: React.FC = () => {
             case 'SUPPORT':
                 return <RoleLayout><SupportScreen navigate={navigate} goBack={goBack} /></RoleLayout>;
             case 'TRACKING':
-                return <RoleLayout><TrackingScreen item={currentView.item as Item} navigate={navigate} goBack={goBack} /></RoleLayout>;
+                return <RoleLayout><TrackingScreen item={currentView.item as Item} booking={currentView.booking as Booking | undefined} navigate={navigate} goBack={goBack} /></RoleLayout>;
             case 'REPORT_DAMAGE':
                 return <RoleLayout><ReportDamageScreen booking={currentView.booking as Booking} navigate={navigate} goBack={goBack} /></RoleLayout>;
             case 'AI_ASSISTANT':
@@ -263,12 +267,16 @@ const AppContent: React.FC = () => {
                 return <RoleLayout><AiScanScreen navigate={navigate} goBack={goBack} /></RoleLayout>;
             case 'CROP_CALENDAR':
                 return <RoleLayout><CropCalendarScreen navigate={navigate} goBack={goBack} /></RoleLayout>;
+            case 'MY_FIELDS':
+                return <RoleLayout><MyFieldsScreen navigate={navigate} goBack={goBack} /></RoleLayout>;
             case 'SETTINGS':
                 return <RoleLayout><SettingsScreen navigate={navigate} goBack={goBack} /></RoleLayout>;
             case 'POLICY':
                 return <RoleLayout><PolicyScreen navigate={navigate} goBack={goBack} /></RoleLayout>;
             case 'PAYMENT_HISTORY':
                 return <RoleLayout><PaymentHistoryScreen navigate={navigate} goBack={goBack} /></RoleLayout>;
+            case 'WALLET':
+                return <RoleLayout><WalletScreen navigate={navigate} goBack={goBack} /></RoleLayout>;
             case 'BOOKING_HISTORY':
                 return <RoleLayout><BookingHistoryScreen navigate={navigate} goBack={goBack} /></RoleLayout>;
             case 'MY_ACCOUNT':
@@ -300,6 +308,10 @@ const AppContent: React.FC = () => {
                 return <RoleLayout />;
             case 'EARNINGS_DETAILS':
                 return <RoleLayout><EarningsDetailsScreen navigate={navigate} goBack={goBack} /></RoleLayout>;
+            case 'VERIFIED_ACCOUNT_MANAGER':
+                return <RoleLayout><VerifiedAccountManagerScreen navigate={navigate} goBack={goBack} /></RoleLayout>;
+            case 'WAR_BREAKDOWN':
+                return <RoleLayout><WARBreakdownScreen navigate={navigate} goBack={goBack} /></RoleLayout>;
             case 'HOME':
             default:
                 return <RoleLayout />;
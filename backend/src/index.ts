@@ -1,6 +1,53 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
+import path from 'path';
+import helmet from 'helmet';
+import rateLimit from 'express-rate-limit';
+import NodeCache from 'node-cache';
+import { FieldValue } from 'firebase-admin/firestore';
+import {
+    UserService, ItemService, BookingService, PostService, KYCService, NotificationService, ChatService, ReviewService, SupportService, DamageReportService,
+    UserNotificationService, BroadcastService, SearchService, BookingEventService, TrackingService, FieldService, PaymentOrderService, RefundService, SettlementService, CouponService,
+    db, Updates
+} from './services/firestore';
+import agentRoutes from './routes/agent';
+import { sendWelcomeNotification, sendKYCStatusNotification } from './services/smartNotifications';
+import { User, UserRole, Item, ChatMessage, ForumPost, Booking, BookingStatusChange, Invoice, Coupon, Notification, CalendarFeed, VerificationHistoryEntry } from './types';
+import cloudinary from './cloudinary';
+import { auth as firebaseAuth } from './firebase';
+import { requestLogger, logAudit, logError } from './services/logger';
+import { verifyToken, requireRole, requireSelfOrAdmin, optionalAuth } from './middleware/authMiddleware';
+import { checkBookingTimeouts, checkExpiredBookings, getSearchDurationHours } from './services/bookingTimeout';
+import { buyPlanFromWallet, getSubscriptionStatus, getSupplierOrThrow, setAutoRenew, VerifiedSubscriptionError } from './services/verifiedSubscriptions';
+import { createSubscriptionOrder, createPaymentOrder, handlePaymentWebhook, reconcilePayments, PaymentError, createTopUpOrder, payBookingFromWallet, recordCashPayment, isPaidByAdvance } from './services/payments';
+import { calculateWAR, updateSupplierWAR, recalculateAllSuppliersWAR, simulateWAR, WAR_CONSTANTS } from './services/warRating';
+import { dispatchBooking, acceptDispatchOffer, declineDispatchOffer, DispatchOfferError } from './services/dispatcher';
+import { validatePurposes } from './services/unitPricing';
+import { quoteBooking, validateSeasonalPrices, QuoteError } from './services/quotes';
+import { validateAvailability, assertItemAvailable, releaseHold, AvailabilityError, getItemDayAvailability, saveItemAvailability, placeHold } from './services/availability';
+import { transitionBooking, BookingTransitionError, isSplitParent } from './services/bookingStateMachine';
+import { applyStreakPenalty, registerBookingTransitionHooks } from './services/bookingTransitionHooks';
+import { recordBookingEvent, getChangedFields } from './services/bookingEvents';
+import { redeemCoupon, quoteCoupon, validateCoupon, normalizeCouponCode, CouponError } from './services/coupons';
+import { createBookingSeries, cancelSeries, rescheduleSeries, acceptSeries, BookingSeriesError } from './services/bookingSeries';
+import { acceptShare, cancelSplitBooking, prepareSplitBooking, SplitShareError } from './services/splitFulfilment';
+import { acceptBooking, BookingAcceptanceError } from './services/bookingAcceptance';
+import { canViewTracking, recordLocation, TrackingError, validateLocation } from './services/tracking';
+import { ArrivalError, overrideArrival } from './services/arrival';
+import { submitMeasuredAcres, reviewMeasuredAcres, hasPendingMeasurement, MeasurementError } from './services/measuredAcres';
+import { createField, updateField, deleteField, canManageFields, FieldError } from './services/fields';
+import { getMaintenanceSummary, saveServicePlan, logMaintenance, deleteMaintenanceRecord, MaintenanceError } from './services/maintenance';
+import { getCalendarFeed, rotateCalendarFeed, revokeCalendarFeed, renderCalendarFeed, CalendarFeedError } from './services/calendarFeed';
+import { getSurgeSettings, saveSurgeSettings, validateSurgeSettings, buildSurgeSnapshot, runSurgeCycle, reviewSurgeProposal, getSurgeAudit, SurgeError } from './services/surgePricing';
+import { getPaymentProvider, FakePaymentProvider, isFakePaymentProviderEnabled } from './services/paymentProvider';
+import { creditWallet, getWalletWithHistory, MAX_ADMIN_CREDIT, WalletError } from './services/wallet';
+import { getCancellationPolicy, saveCancellationPolicy, validateCancellationPolicy, quoteCancellation } from './services/cancellationPolicy';
+import { postRefundPaid, getSupplierLedger, getFinanceSettings, saveFinanceSettings } from './services/ledger';
+import { runWeeklySettlements, updateSettlementStatus, SettlementError } from './services/settlements';
+import { getOrIssueInvoice, regenerateInvoice, renderInvoicePdf, InvoiceError } from './services/invoices';
+import { buyGuard, getStreakHistory, recordStreakEvents, streakEvent, toDateKey, StreakError } from './services/streaks';
+import { getSuspensionPolicy, saveSuspensionPolicy, validateSuspensionPolicy, getSuspensionStatus, submitAppeal, decideAppeal, SuspensionError } from './services/suspensionPolicy';
 
 dotenv.config();
 
@@ -18,59 +65,10 @@ function getCategorySubject(category?: string): string {
     };
     return subjects[category as string] || '🌾 AgriRent Notification';
 }
-import path from 'path';
-import {
-    UserService, ItemService, BookingService, PostService, KYCService, NotificationService, ChatService, ReviewService, SupportService, DamageReportService,
-    UserNotificationService, BroadcastService, SearchService,
-    db
-} from './services/firestore';
-import agentRoutes from './routes/agent';
-import { sendWelcomeNotification, sendKYCStatusNotification } from './services/smartNotifications';
-import { User, UserRole, Item, ChatMessage, ForumPost, Booking, Notification } from './types';
-import cloudinary from './cloudinary';
-import { auth as firebaseAuth } from './firebase';
-
-dotenv.config();
-
-// Maximum daily working hours per equipment category
-const MAX_DAILY_WORKING_HOURS: Record<string, number> = {
-    'Tractors': 12,
-    'Drones': 12,
-    'Harvesters': 16,
-    'Borewell': 16,
-    'Workers': 13, // 6 AM to 7 PM
-    'JCB': 12,
-    'Sprayers': 12,
-    'Drivers': 12,
-    'default': 12
-};
-
-// Helper to calculate already booked hours for a supplier/item on a specific date
-async function getBookedHoursForSupplierOnDate(
-    supplierId: string,
-    itemId: number,
-    date: string
-): Promise<number> {
-    const bookings = await BookingService.getAll();
-    const activeStatuses = ['Confirmed', 'In Process', 'Arrived', 'Pending Payment'];
-    const relevantBookings = bookings.filter(b =>
-        b.supplierId === supplierId &&
-        b.itemId === itemId &&
-        b.date === date &&
-        activeStatuses.includes(b.status)
-    );
-
-    return relevantBookings.reduce((total, b) => {
-        return total + (b.estimatedDuration || 3); // Default 3 hours if not specified
-    }, 0);
-}
 
 const app = express();
 const port = process.env.PORT || 3001;
 
-// Middleware
-import helmet from 'helmet';
-
 // --- SECURITY HEADERS (Helmet.js) ---
 // Protects against XSS, clickjacking, MIME sniffing, and other attacks
 app.use(helmet({
@@ -109,17 +107,24 @@ app.use(cors({
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key'],
+    exposedHeaders: ['Content-Disposition'], // Invoice PDF file names
 }));
 
-app.use(express.json({ limit: '50mb' })); // Increased limit for image uploads
+app.use(express.json({
+    limit: '50mb', // Increased limit for image uploads
+    // Payment webhooks are signed over the exact bytes received
+    verify: (req, _res, buf) => {
+        if ((req as Request).originalUrl?.startsWith('/api/payments/webhook')) {
+            (req as Request & { rawBody?: string }).rawBody = buf.toString('utf8');
+        }
+    }
+}));
 
 // --- REQUEST LOGGING ---
-import { requestLogger, logAudit, logError } from './services/logger';
 app.use(requestLogger);
 
 // --- RATE LIMITING ---
-import rateLimit from 'express-rate-limit';
 
 // General API rate limiter: 100 requests per minute
 const generalLimiter = rateLimit({
@@ -152,7 +157,6 @@ const otpLimiter = rateLimit({
 app.use('/api', generalLimiter);
 
 // --- SERVER-SIDE CACHING ---
-import NodeCache from 'node-cache';
 
 // Cache with different TTLs
 const cache = new NodeCache({ stdTTL: 300, checkperiod: 60 }); // Default 5 min TTL
@@ -176,9 +180,6 @@ app.get('/', (req: Request, res: Response) => {
     res.send('Backend server is running with Firebase & Cloudinary!');
 });
 
-// --- AUTH MIDDLEWARE ---
-import { verifyToken, requireRole, requireSelfOrAdmin, optionalAuth } from './middleware/authMiddleware';
-
 // --- Upload endpoint ---
 app.post('/api/upload', async (req: Request, res: Response) => {
     try {
@@ -203,12 +204,10 @@ app.post('/api/upload', async (req: Request, res: Response) => {
     }
 });
 
-// --- BOOKING TIMEOUT & TRUSTED SUPPLIER ENDPOINTS ---
-import { checkBookingTimeouts, checkExpiredBookings, getSearchDurationHours } from './services/bookingTimeout';
-
 // --- VERIFIED ACCOUNT ENDPOINTS ---
 
-// Toggle verified account status (Admin only)
+// Toggle verified account status (Admin only). Grants are complimentary and are recorded
+// in the history against the admin; paid plans go through /api/verified-subscription.
 app.post('/api/admin/suppliers/:id/toggle-verified', verifyToken, requireRole(UserRole.Admin), async (req: Request, res: Response) => {
     try {
         const supplierId = req.params.id;
@@ -226,11 +225,13 @@ app.post('/api/admin/suppliers/:id/toggle-verified', verifyToken, requireRole(Us
         expiryDate.setDate(expiryDate.getDate() + 30); // 30 days validity
 
         // Build history entry if granting verification
-        const historyEntry = isNowVerified ? {
+        const historyEntry: VerificationHistoryEntry | null = isNowVerified ? {
             purchaseDate: now.toISOString(),
             expiryDate: expiryDate.toISOString(),
-            plan: '30-Day Verified',
-            amount: 999
+            plan: '30-Day Verified (admin grant)',
+            amount: 0,
+            source: 'admin',
+            paymentReference: `admin:${req.user!.id}`
         } : null;
 
         const existingHistory = user.verificationHistory || [];
@@ -239,7 +240,9 @@ app.post('/api/admin/suppliers/:id/toggle-verified', verifyToken, requireRole(Us
             isVerifiedAccount: isNowVerified,
             verifiedAccountPurchaseDate: isNowVerified ? now.toISOString() : undefined,
             verifiedAccountExpiryDate: isNowVerified ? expiryDate.toISOString() : undefined,
-            verificationHistory: historyEntry ? [...existingHistory, historyEntry] : existingHistory
+            verificationHistory: historyEntry ? [...existingHistory, historyEntry] : existingHistory,
+            verifiedGraceUntil: FieldValue.delete(),
+            ...(isNowVerified ? {} : { verifiedAutoRenew: false })
         });
 
         console.log(`Supplier ${supplierId} verified status toggled to:`, isNowVerified);
@@ -287,36 +290,53 @@ app.get('/api/admin/verified-suppliers', verifyToken, requireRole(UserRole.Admin
     }
 });
 
-// Supplier: Request verified account purchase
-app.post('/api/suppliers/:id/request-verified', async (req: Request, res: Response) => {
+const sendSubscriptionError = (res: Response, e: unknown, action: string) => {
+    if (e instanceof VerifiedSubscriptionError || e instanceof PaymentError) {
+        return res.status(e.statusCode).json({ message: e.message });
+    }
+    console.error(`[API] Error ${action}:`, e);
+    res.status(500).json({ error: (e as Error).message });
+};
+
+// Supplier: own verified-account plan, history and the plans on offer
+app.get('/api/verified-subscription', verifyToken, async (req: Request, res: Response) => {
     try {
-        const supplierId = req.params.id;
-        const user = await UserService.getById(supplierId);
+        const user = await getSupplierOrThrow(String(req.user!.id));
+        res.json(getSubscriptionStatus(user));
+    } catch (e) {
+        sendSubscriptionError(res, e, 'fetching verified subscription');
+    }
+});
 
-        if (!user || user.role !== UserRole.Supplier) {
-            return res.status(404).json({ message: 'Supplier not found' });
-        }
+// Supplier: buy a plan. Online returns a checkout (the webhook activates the plan);
+// wallet pays from the cash balance and returns the new status.
+app.post('/api/verified-subscription', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const { planId, method } = req.body;
+        const userId = String(req.user!.id);
+        const requestKey = req.header('Idempotency-Key') || String(Date.now());
 
-        if (user.isVerifiedAccount) {
-            return res.status(400).json({ message: 'Already a verified account' });
+        if (method === 'wallet') {
+            const user = await buyPlanFromWallet(userId, planId, requestKey);
+            return res.json(getSubscriptionStatus(user));
         }
+        if (method !== 'online') return res.status(400).json({ message: 'method must be online or wallet' });
 
-        // In production, this would integrate with payment gateway
-        // For now, we mark it as pending for admin approval
-        const updated = await UserService.update(supplierId, {
-            isVerifiedAccount: true,
-            verifiedAccountPurchaseDate: new Date().toISOString()
-        });
+        res.status(201).json(await createSubscriptionOrder(userId, planId, `verified:${userId}:${requestKey}`));
+    } catch (e) {
+        sendSubscriptionError(res, e, 'buying verified plan');
+    }
+});
 
-        console.log(`Supplier ${supplierId} purchased verified account`);
-        res.json({
-            success: true,
-            message: 'Verified account activated successfully!',
-            user: updated
-        });
+// Supplier: turn wallet auto-renewal on or off
+app.put('/api/verified-subscription/auto-renew', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const { enabled, planId } = req.body;
+        if (typeof enabled !== 'boolean') return res.status(400).json({ message: 'enabled must be true or false' });
+        const user = await setAutoRenew(String(req.user!.id), enabled, planId);
+        res.json(getSubscriptionStatus(user));
     } catch (e) {
-        console.error('Error processing verified account request:', e);
-        res.status(500).json({ error: (e as Error).message });
+        sendSubscriptionError(res, e, 'updating auto-renewal');
     }
 });
 
@@ -343,7 +363,45 @@ app.post('/api/admin/suppliers/:id/toggle-trusted', verifyToken, requireRole(Use
 });
 
 // --- WAR (Weighted Average Rating) Endpoints ---
-import { calculateWAR, updateSupplierWAR, recalculateAllSuppliersWAR } from './services/warRating';
+
+// Supplier: step-by-step breakdown of their own rating
+app.get('/api/war/breakdown', verifyToken, async (req: Request, res: Response) => {
+    try {
+        if (req.user!.role !== UserRole.Supplier) return res.status(403).json({ message: 'Only suppliers have a WAR rating' });
+        const supplierId = String(req.user!.id);
+        const user = await UserService.getById(supplierId);
+
+        res.json({
+            ...(await calculateWAR(supplierId)),
+            ...(user?.avgRating !== undefined ? { currentDisplayedRating: user.avgRating } : {}),
+            ...(user?.warLastCalculated ? { lastCalculated: user.warLastCalculated } : {}),
+            constants: WAR_CONSTANTS
+        });
+    } catch (e) {
+        console.error('[API] Error fetching WAR breakdown:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Supplier: what-if simulator, e.g. ?target=4.5&stars=5&onTime=true&jobs=10
+app.get('/api/war/simulate', verifyToken, async (req: Request, res: Response) => {
+    try {
+        if (req.user!.role !== UserRole.Supplier) return res.status(403).json({ message: 'Only suppliers have a WAR rating' });
+        const target = req.query.target !== undefined ? Number(req.query.target) : 4.5;
+        const stars = req.query.stars !== undefined ? Number(req.query.stars) : 5;
+        const jobs = req.query.jobs !== undefined ? Number(req.query.jobs) : 10;
+        const onTime = req.query.onTime !== 'false';
+
+        if (!(target > 0 && target <= 5)) return res.status(400).json({ message: 'target must be between 0 and 5' });
+        if (!Number.isInteger(stars) || stars < 1 || stars > 5) return res.status(400).json({ message: 'stars must be a whole number from 1 to 5' });
+        if (!Number.isInteger(jobs) || jobs < 0 || jobs > 500) return res.status(400).json({ message: 'jobs must be a whole number from 0 to 500' });
+
+        res.json(await simulateWAR(String(req.user!.id), { target, stars, onTime, jobs }));
+    } catch (e) {
+        console.error('[API] Error simulating WAR:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
 
 // Get detailed WAR breakdown for a supplier (Admin only)
 app.get('/api/admin/suppliers/:id/war-details', verifyToken, requireRole(UserRole.Admin), async (req: Request, res: Response) => {
@@ -443,11 +501,27 @@ app.post('/api/admin/bookings/:bookingId/allot/:supplierId', async (req: Request
             i.status === 'approved'
         );
 
-        const updated = await BookingService.update(bookingId, {
-            status: 'Pending Confirmation',
-            supplierId: supplier.id,
-            itemId: supplierItem?.id,
-            manuallyAllottedBy: adminId
+        let allotment: Updates<Booking>;
+        try {
+            ({ updates: allotment } = await transitionBooking(booking, 'Pending Confirmation', {
+                supplierId: supplier.id,
+                itemId: supplierItem?.id,
+                manuallyAllottedBy: adminId
+            }, { id: String(adminId || 'admin'), role: UserRole.Admin }));
+        } catch (err) {
+            if (err instanceof BookingTransitionError) {
+                return res.status(409).json({ message: err.message, from: err.from, to: err.to });
+            }
+            throw err;
+        }
+        const updated = await BookingService.update(bookingId, allotment);
+        await recordBookingEvent(bookingId, 'allotted', {
+            actorId: String(adminId || 'admin'),
+            actorRole: UserRole.Admin,
+            fromStatus: booking.status,
+            toStatus: 'Pending Confirmation',
+            changedFields: getChangedFields(booking, allotment),
+            note: `Allotted to supplier ${supplier.id}`
         });
 
         // Send notification to supplier
@@ -484,7 +558,7 @@ app.post('/api/admin/bookings/:bookingId/allot/:supplierId', async (req: Request
 
 // Expand search radius for a booking
 // Expand search radius for a booking
-app.post('/api/bookings/:id/expand-radius', async (req: Request, res: Response) => {
+app.post('/api/bookings/:id/expand-radius', optionalAuth, async (req: Request, res: Response) => {
     try {
         const bookingId = req.params.id;
         const { newRadius } = req.body;
@@ -502,6 +576,13 @@ app.post('/api/bookings/:id/expand-radius', async (req: Request, res: Response)
             expandedSearchRadius: newRadius
         });
 
+        await recordBookingEvent(bookingId, 'radius_expanded', {
+            actorId: req.user ? String(req.user.id) : 'anonymous',
+            actorRole: req.user?.role,
+            changedFields: ['searchRadiusExpanded', 'originalSearchRadius', 'expandedSearchRadius'],
+            note: `Search radius ${originalRadius} km -> ${newRadius} km`
+        });
+
         console.log(`Booking ${bookingId} search radius expanded to ${newRadius} km`);
         res.json(updated);
     } catch (e) {
@@ -510,6 +591,64 @@ app.post('/api/bookings/:id/expand-radius', async (req: Request, res: Response)
     }
 });
 
+// --- AUTOMATIC DISPATCH OFFERS ---
+
+// Supplier accepts a job offered to them by the dispatcher
+app.post('/api/bookings/:id/offers/accept', [verifyToken, requireRole(UserRole.Supplier, UserRole.Agent, UserRole.AgentPro)], async (req: Request, res: Response) => {
+    try {
+        const updated = await acceptDispatchOffer(req.params.id, String(req.user!.id), req.user!.role);
+        res.json(updated);
+    } catch (e) {
+        if (e instanceof DispatchOfferError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        if (e instanceof BookingTransitionError) {
+            return res.status(409).json({ message: 'This job has already been taken by another supplier.', from: e.from, to: e.to });
+        }
+        console.error('Error accepting dispatch offer:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Supplier takes a booking from the job list, confirms a direct request, or a driver takes the operator job
+app.post('/api/bookings/:id/accept', [verifyToken, requireRole(UserRole.Supplier, UserRole.Agent, UserRole.AgentPro)], async (req: Request, res: Response) => {
+    try {
+        const { itemId, operateSelf } = req.body;
+        if (!itemId) {
+            return res.status(400).json({ message: 'itemId is required' });
+        }
+
+        const updated = await acceptBooking(req.params.id, String(req.user!.id), Number(itemId), {
+            ...(typeof operateSelf === 'boolean' ? { operateSelf } : {}),
+            actorRole: req.user!.role
+        });
+        res.json(updated);
+    } catch (e) {
+        if (e instanceof BookingAcceptanceError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        if (e instanceof BookingTransitionError) {
+            return res.status(409).json({ message: 'This job has already been taken by another supplier.', from: e.from, to: e.to });
+        }
+        console.error('Error accepting booking:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Supplier declines a job offered to them by the dispatcher
+app.post('/api/bookings/:id/offers/decline', [verifyToken, requireRole(UserRole.Supplier, UserRole.Agent, UserRole.AgentPro)], async (req: Request, res: Response) => {
+    try {
+        await declineDispatchOffer(req.params.id, String(req.user!.id));
+        res.json({ success: true });
+    } catch (e) {
+        if (e instanceof DispatchOfferError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('Error declining dispatch offer:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
 // --- FAILED SEARCHES LOGGING ---
 
 app.post('/api/failed-searches', async (req: Request, res: Response) => {
@@ -962,625 +1101,1491 @@ app.get('/api/suppliers/utilization', async (req: Request, res: Response) => {
             };
         });
 
-        res.json(supplierUtilization);
+        res.json(supplierUtilization);
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/items', async (req: Request, res: Response) => {
+    try {
+        const purposeError = validatePurposes(req.body.purposes || [])
+            || (req.body.seasonalPrices ? validateSeasonalPrices(req.body.seasonalPrices) : null)
+            || (req.body.availability ? validateAvailability(req.body.availability) : null);
+        if (purposeError) return res.status(400).json({ message: purposeError });
+        const newItem: Item = { id: Date.now(), ...req.body, status: 'pending' };
+        await ItemService.create(newItem);
+        res.status(201).json(newItem);
+    } catch (e) { res.status(500).json({ error: (e as Error).message }); }
+});
+
+app.put('/api/items/:id', async (req: Request, res: Response) => {
+    try {
+        const itemId = parseInt(req.params.id);
+        const purposeError = (req.body.purposes ? validatePurposes(req.body.purposes) : null)
+            || (req.body.seasonalPrices ? validateSeasonalPrices(req.body.seasonalPrices) : null)
+            || (req.body.availability ? validateAvailability(req.body.availability) : null);
+        if (purposeError) return res.status(400).json({ message: purposeError });
+        const updated = await ItemService.update(itemId, req.body);
+        if (updated) res.json(updated);
+        else res.status(404).json({ message: 'Item not found' });
+    } catch (e) { res.status(500).json({ error: (e as Error).message }); }
+});
+
+app.delete('/api/items/:id', async (req: Request, res: Response) => {
+    try {
+        const itemId = parseInt(req.params.id);
+        await ItemService.delete(itemId);
+        res.status(204).send();
+    } catch (e) { res.status(500).json({ error: (e as Error).message }); }
+});
+
+// --- BOOKINGS ---
+
+registerBookingTransitionHooks();
+
+// Booking fields only the server writes: the lifecycle audit trail, dispatch state, search alerts and split totals
+const SERVER_BOOKING_FIELDS: (keyof Booking)[] = [
+    'statusHistory', 'refundId', 'dispatchWave', 'dispatchRadiusKm', 'dispatchOffers', 'dispatchExhausted',
+    'searchTimeoutNotified', 'adminAlertCount', 'lastAdminAlertTime', 'manuallyAllottedBy', 'splitAllocated'
+];
+
+const withoutServerFields = <T extends Partial<Booking>>(data: T): T => {
+    const clientFields = { ...data };
+    for (const field of SERVER_BOOKING_FIELDS) delete clientFields[field];
+    return clientFields;
+};
+
+app.post('/api/bookings', verifyToken, async (req: Request, res: Response) => {
+    try {
+        console.log('[API] POST /api/bookings received:', JSON.stringify(req.body));
+
+        const bookingsData = Array.isArray(req.body) ? req.body : [req.body];
+        const createdBookings = [];
+
+        // Everything is checked before anything is written, so a rejected list creates nothing
+        const requesterId = String(req.user!.id);
+        const isStaff = req.user!.role === UserRole.Admin || req.user!.role === UserRole.Founder;
+        for (const bookingData of bookingsData) {
+            if (!isStaff && requesterId !== String(bookingData.farmerId) && requesterId !== String(bookingData.bookedByAgentId)) {
+                return res.status(403).json({ message: 'Access denied' });
+            }
+            // A new booking is a broadcast or a direct request; suppliers take it through the accept endpoints
+            const isBroadcast = bookingData.status === 'Searching' && !bookingData.supplierId;
+            const isDirectRequest = bookingData.status === 'Pending Confirmation' && bookingData.supplierId && bookingData.itemId;
+            if (!isBroadcast && !isDirectRequest) {
+                return res.status(400).json({ message: 'A booking can only be created as a new request' });
+            }
+        }
+
+        for (const bookingData of bookingsData) {
+            // Ids and the lifecycle fields are the server's; the client's copies are dropped
+            const { holdId, id: _id, ...requestFields } = bookingData;
+            const bookingFields = withoutServerFields(requestFields);
+
+            // A booking tied to an item must fit that item's calendar (a farmer's own hold doesn't block them)
+            if (bookingFields.status === 'Pending Confirmation') {
+                await assertItemAvailable(Number(bookingFields.itemId), {
+                    date: bookingFields.date || new Date().toISOString().split('T')[0],
+                    startTime: bookingFields.startTime,
+                    durationHours: bookingFields.estimatedDuration || 3,
+                    farmerId: String(bookingFields.farmerId)
+                });
+            }
+
+            const id = `AGB-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+            const newBooking = prepareSplitBooking({ ...bookingFields, id });
+
+            // New requests are priced by the quote service; the form's figures were only a preview
+            if (['Searching', 'Pending Confirmation'].includes(newBooking.status) && newBooking.workPurpose && newBooking.estimatedDuration) {
+                try {
+                    const quote = await quoteBooking({
+                        farmerId: newBooking.farmerId,
+                        itemCategory: newBooking.itemCategory,
+                        workPurpose: newBooking.workPurpose,
+                        ...(newBooking.supplierId && newBooking.itemId ? { itemId: newBooking.itemId } : {}),
+                        date: newBooking.date,
+                        estimatedDuration: newBooking.estimatedDuration,
+                        acres: newBooking.acres,
+                        quantity: newBooking.quantity,
+                        operatorRequired: newBooking.operatorRequired,
+                        locationCoords: newBooking.locationCoords
+                    });
+                    delete newBooking.distanceCharge;
+                    Object.assign(newBooking, {
+                        estimatedPrice: quote.subtotal.max,
+                        ...(quote.distance.max > 0 ? { distanceCharge: quote.distance.max } : {}),
+                        ...(newBooking.paymentDetails ? {
+                            paymentDetails: {
+                                ...newBooking.paymentDetails,
+                                farmerAmount: quote.subtotal.max,
+                                supplierAmount: quote.machine.max + quote.operator.max,
+                                totalAmount: quote.subtotal.max
+                            }
+                        } : {})
+                    });
+                } catch (quoteError) {
+                    if (!(quoteError instanceof QuoteError)) throw quoteError;
+                    console.warn(`[API] Could not quote booking ${id}, keeping the submitted estimate: ${quoteError.message}`);
+                }
+            }
+
+            // Coupons are checked and counted here; the client's discount figures are never trusted
+            delete newBooking.discountAmount;
+            if (bookingData.couponCode) {
+                const redemption = await redeemCoupon(bookingData.couponCode, newBooking);
+                const discountedPrice = Math.max(0, (newBooking.estimatedPrice || 0) - redemption.discountAmount);
+                Object.assign(newBooking, {
+                    couponCode: redemption.code,
+                    discountAmount: redemption.discountAmount,
+                    estimatedPrice: discountedPrice,
+                    ...(newBooking.paymentDetails ? {
+                        paymentDetails: { ...newBooking.paymentDetails, farmerAmount: discountedPrice, totalAmount: discountedPrice }
+                    } : {})
+                });
+            }
+            await BookingService.create(newBooking);
+            createdBookings.push(newBooking);
+            console.log('[API] Booking created successfully:', id);
+            if (holdId) {
+                await releaseHold(String(holdId), String(newBooking.farmerId))
+                    .catch(err => console.warn(`[API] Could not release hold ${holdId} for ${id}: ${(err as Error).message}`));
+            }
+
+            // Open broadcasts are offered to the best-ranked suppliers in the background
+            if (newBooking.status === 'Searching' && !newBooking.supplierId) {
+                dispatchBooking(id);
+            }
+        }
+
+        // Return array if input was array, else single object (for backward compatibility)
+        if (Array.isArray(req.body)) {
+            res.status(201).json(createdBookings);
+        } else {
+            res.status(201).json(createdBookings[0]);
+        }
+    } catch (e) {
+        if (e instanceof CouponError || e instanceof AvailabilityError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error creating booking:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// --- BOOKING SERIES ---
+// One request expanded into a booking per date, linked by recurrenceId
+app.post('/api/booking-series', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const { booking, recurrence } = req.body || {};
+        if (!booking || !recurrence) {
+            return res.status(400).json({ message: 'booking and recurrence are required' });
+        }
+
+        const requesterId = String(req.user!.id);
+        const isStaff = req.user!.role === UserRole.Admin || req.user!.role === UserRole.Founder;
+        if (!isStaff && requesterId !== String(booking.farmerId) && requesterId !== String(booking.bookedByAgentId)) {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+
+        const created = await createBookingSeries(booking, recurrence);
+        res.status(201).json(created);
+    } catch (e) {
+        if (e instanceof BookingSeriesError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error creating booking series:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/booking-series/:id/cancel', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const isStaff = req.user!.role === UserRole.Admin || req.user!.role === UserRole.Founder;
+        const cancelled = await cancelSeries(
+            req.params.id,
+            { id: String(req.user!.id), role: req.user!.role },
+            { fromDate: req.body?.fromDate, isStaff }
+        );
+        res.json(cancelled);
+    } catch (e) {
+        if (e instanceof BookingSeriesError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error cancelling booking series:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/booking-series/:id/reschedule', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const isStaff = req.user!.role === UserRole.Admin || req.user!.role === UserRole.Founder;
+        const { startTime, shiftDays } = req.body || {};
+        const rescheduled = await rescheduleSeries(
+            req.params.id,
+            { id: String(req.user!.id), role: req.user!.role },
+            { startTime, shiftDays: shiftDays !== undefined ? Number(shiftDays) : undefined },
+            isStaff
+        );
+        res.json(rescheduled);
+    } catch (e) {
+        if (e instanceof BookingSeriesError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error rescheduling booking series:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Supplier takes every open occurrence (or the listed ones); dates that don't fit come back as skipped
+app.post('/api/booking-series/:id/accept', [verifyToken, requireRole(UserRole.Supplier, UserRole.Agent, UserRole.AgentPro)], async (req: Request, res: Response) => {
+    try {
+        const { itemId, bookingIds } = req.body || {};
+        if (!itemId) {
+            return res.status(400).json({ message: 'itemId is required' });
+        }
+        const result = await acceptSeries(req.params.id, String(req.user!.id), Number(itemId), {
+            bookingIds: Array.isArray(bookingIds) ? bookingIds.map(String) : undefined,
+            actorRole: req.user!.role
+        });
+        res.json(result);
+    } catch (e) {
+        if (e instanceof BookingSeriesError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error accepting booking series:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// --- SPLIT FULFILMENT ---
+// A supplier takes part of a booking shared between several suppliers
+app.post('/api/bookings/:id/shares', [verifyToken, requireRole(UserRole.Supplier, UserRole.Agent, UserRole.AgentPro)], async (req: Request, res: Response) => {
+    try {
+        const { itemId, amount } = req.body;
+        if (!itemId || !(Number(amount) > 0)) {
+            return res.status(400).json({ message: 'itemId and amount are required' });
+        }
+
+        const share = await acceptShare(req.params.id, String(req.user!.id), Number(itemId), Number(amount), req.user!.role);
+        const parent = await BookingService.getById(req.params.id);
+        res.status(201).json({ share, parent });
+    } catch (e) {
+        if (e instanceof SplitShareError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error accepting booking share:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Farmer cancels the not-started shares; the parent closes or keeps the shares under way
+app.post('/api/bookings/:id/split/cancel', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const isStaff = req.user!.role === UserRole.Admin || req.user!.role === UserRole.Founder;
+        const parent = await cancelSplitBooking(req.params.id, { id: String(req.user!.id), role: req.user!.role }, isStaff);
+        const shares = await BookingService.getShares(req.params.id);
+        res.json({ parent, shares });
+    } catch (e) {
+        if (e instanceof SplitShareError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        if (e instanceof BookingTransitionError) {
+            return res.status(409).json({ message: e.message });
+        }
+        console.error('[API] Error cancelling split booking:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Booking timeline: parties to the booking and admins only
+app.get('/api/bookings/:id/events', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const bookingId = req.params.id;
+        const booking = await BookingService.getById(bookingId);
+        if (!booking) {
+            return res.status(404).json({ message: 'Booking not found' });
+        }
+
+        const requesterId = String(req.user!.id);
+        const isStaff = req.user!.role === UserRole.Admin || req.user!.role === UserRole.Founder;
+        const parties = [booking.farmerId, booking.supplierId, booking.operatorId, booking.bookedByAgentId]
+            .filter(Boolean)
+            .map(String);
+        if (!isStaff && !parties.includes(requesterId)) {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+
+        const events = await BookingEventService.getForBooking(bookingId);
+        res.json(events);
+    } catch (e) {
+        console.error('[API] Error fetching booking events:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// --- LIVE TRACKING ---
+
+// Supplier / operator device posts its position while the booking is under way
+app.post('/api/bookings/:id/location', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const { lat, lng, accuracy, speed, heading } = req.body;
+        const error = validateLocation({ lat, lng, accuracy, speed, heading });
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+
+        const tracking = await recordLocation(req.params.id, String(req.user!.id), { lat, lng, accuracy, speed, heading });
+        res.json(tracking);
+    } catch (e) {
+        if (e instanceof TrackingError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error recording location:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Live position and breadcrumb trail (later fixes arrive over the booking_tracking listener)
+app.get('/api/bookings/:id/tracking', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const booking = await BookingService.getById(req.params.id);
+        if (!booking) {
+            return res.status(404).json({ message: 'Booking not found' });
+        }
+
+        const isStaff = req.user!.role === UserRole.Admin || req.user!.role === UserRole.Founder;
+        if (!isStaff && !canViewTracking(booking, String(req.user!.id))) {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+
+        const [tracking, points] = await Promise.all([TrackingService.get(booking.id), TrackingService.getPoints(booking.id)]);
+        res.json({ tracking, points });
+    } catch (e) {
+        console.error('[API] Error fetching tracking:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Admin corrects a booking's arrival time when the geofence missed it (GPS off, bad fix)
+
+app.post('/api/admin/bookings/:id/arrival', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        const { arrivedAt, reason } = req.body;
+        if (!arrivedAt || !reason) {
+            return res.status(400).json({ message: 'arrivedAt and reason are required' });
+        }
+
+        const booking = await overrideArrival(req.params.id, { id: String(req.user!.id), role: req.user!.role }, arrivedAt, reason);
+        res.json(booking);
+    } catch (e) {
+        if (e instanceof ArrivalError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error overriding arrival:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// --- MEASURED ACRES ---
+
+// Supplier reports the acres actually worked on a per-acre job ({ acres } or a walked GPS { boundary })
+app.post('/api/bookings/:id/measured-acres', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const { acres, boundary } = req.body;
+        if (boundary === undefined && typeof acres !== 'number') {
+            return res.status(400).json({ message: 'acres or boundary is required' });
+        }
+        const booking = await submitMeasuredAcres(req.params.id, { id: String(req.user!.id), role: req.user!.role }, { acres, boundary });
+        res.json(booking);
+    } catch (e) {
+        if (e instanceof MeasurementError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error recording measured acres:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Farmer approves (finalPrice follows the measurement) or rejects (booked price stands)
+app.post('/api/bookings/:id/measured-acres/review', verifyToken, async (req: Request, res: Response) => {
+    try {
+        if (typeof req.body.approve !== 'boolean') {
+            return res.status(400).json({ message: 'approve must be true or false' });
+        }
+        const booking = await reviewMeasuredAcres(req.params.id, { id: String(req.user!.id), role: req.user!.role }, req.body.approve);
+        res.json(booking);
+    } catch (e) {
+        if (e instanceof MeasurementError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error reviewing measured acres:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.put('/api/bookings/:id', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const bookingId = req.params.id;
+        let updates: Partial<Booking> = req.body;
+        console.log(`[API] PUT /api/bookings/${bookingId} received`, updates);
+
+        const existing = await BookingService.getById(bookingId);
+        if (!existing) {
+            console.warn('[API] Booking not found for update:', bookingId);
+            return res.status(404).json({ message: 'Booking not found' });
+        }
+
+        const actor = { id: String(req.user!.id), role: req.user!.role };
+        const isStaff = actor.role === UserRole.Admin || actor.role === UserRole.Founder;
+        const parties = [existing.farmerId, existing.supplierId, existing.operatorId, existing.bookedByAgentId]
+            .filter(Boolean)
+            .map(String);
+        if (!isStaff && !parties.includes(actor.id)) {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+
+        // Arrival times are stamped by the server (geofence, arrival hook or admin override) only
+        const { arrivedAt, arrivalSource, arrivalDistanceM, arrivalOverrideReason, arrivalOverriddenBy, ...clientUpdates } = updates;
+        updates = clientUpdates;
+        // Who the booking belongs to, its status history and dispatch state are the server's
+        const { id, farmerId, bookedByAgentId, parentBookingId, ...ownUpdates } = withoutServerFields(updates);
+        updates = ownUpdates;
+        // Measured acres go through their own endpoints; an approved measurement fixes the price
+        const { measuredAcres, acreMeasurementSource, acreMeasurementStatus, proposedFinalPrice, measuredAt, ...unmeasuredUpdates } = updates;
+        updates = unmeasuredUpdates;
+        if (existing.acreMeasurementStatus === 'approved') {
+            delete updates.finalPrice;
+        }
+        // The price is set on the server when a supplier accepts; after that only staff change it
+        const priceFields: (keyof Booking)[] = ['finalPrice', 'unitPrice', 'minimumCharge', 'pricingUnit'];
+        if (!isStaff && priceFields.some(f => updates[f] !== undefined && updates[f] !== existing[f])) {
+            return res.status(403).json({ message: 'The price is fixed when the booking is accepted; measured acres change it through the farmer\'s approval' });
+        }
+        // Payments are recorded by the payment webhook, wallet and cash endpoints; the split by the completion hook
+        const { paymentMethod, finalPaymentId, advancePaymentId, paymentDetails, farmerPaymentAmount, supplierPaymentAmount, adminCommission, ...unpaidUpdates } = updates;
+        updates = unpaidUpdates;
+
+        let transition: BookingStatusChange | null = null;
+
+        // Confirming a booking, or moving a confirmed one, must fit the item's calendar
+        const nextStatus = updates.status || existing.status;
+        const itemId = updates.itemId ?? existing.itemId;
+        const scheduleFields: (keyof Booking)[] = ['date', 'startTime', 'estimatedDuration', 'itemId'];
+        const isMoved = scheduleFields.some(f => updates[f] !== undefined && updates[f] !== existing[f]);
+        if (itemId && nextStatus === 'Confirmed' && (existing.status !== 'Confirmed' || isMoved)) {
+            try {
+                await assertItemAvailable(itemId, {
+                    date: updates.date ?? existing.date,
+                    startTime: updates.startTime ?? existing.startTime,
+                    durationHours: updates.estimatedDuration ?? existing.estimatedDuration ?? 3,
+                    excludeBookingId: bookingId,
+                    farmerId: String(existing.farmerId)
+                });
+            } catch (err) {
+                if (err instanceof AvailabilityError) return res.status(err.statusCode).json({ message: err.message });
+                throw err;
+            }
+        }
+
+        // --- LIFECYCLE TRANSITION ---
+        // Status changes go through the state machine, which rejects illegal moves
+        // and runs rating / streak / availability side effects as transition hooks.
+        // What is written is the caller's updates plus whatever the hooks set or delete.
+        let writes: Updates<Booking> = updates;
+        if (updates.status && updates.status !== existing.status) {
+            // Once suppliers hold shares the parent's status follows them (see splitFulfilment)
+            if (isSplitParent(existing) && (existing.splitAllocated || updates.status !== 'Cancelled')) {
+                return res.status(409).json({ message: 'This booking is shared between suppliers and is managed through its shares' });
+            }
+            if ((updates.status === 'Pending Payment' || updates.status === 'Completed') && hasPendingMeasurement(existing)) {
+                return res.status(409).json({ message: 'Approve or reject the measured acres before completing this booking' });
+            }
+            if (existing.status === 'Pending Payment') {
+                return res.status(409).json({ message: 'This booking is completed by its final payment (online, wallet or cash received by the supplier)' });
+            }
+            // Skipping 'Pending Payment' is only for work the advance already paid for in full
+            if (updates.status === 'Completed') {
+                if (!isPaidByAdvance({ ...existing, ...updates })) {
+                    return res.status(409).json({ message: 'Move the booking to Pending Payment; it completes once the balance is paid' });
+                }
+                updates.finalPaymentId = existing.advancePaymentId;
+            }
+            try {
+                const result = await transitionBooking(existing, updates.status, updates, actor);
+                writes = result.updates;
+                transition = result.transition;
+            } catch (err) {
+                if (err instanceof BookingTransitionError) {
+                    console.warn(`[API] Rejected transition for ${bookingId}: ${err.message}`);
+                    return res.status(409).json({ message: err.message, from: err.from, to: err.to });
+                }
+                throw err;
+            }
+        }
+
+        // --- STREAK PENALTY (Dispute / Damage) ---
+        if (updates.disputeRaised === true && existing.supplierId) {
+            await applyStreakPenalty(existing.supplierId, 'Dispute Raised');
+        }
+        if (updates.damageReported === true && existing.supplierId) {
+            await applyStreakPenalty(existing.supplierId, 'Damage Reported');
+        }
+
+        const changedFields = getChangedFields(existing, writes);
+        const updated = await BookingService.update(bookingId, writes);
+        console.log('[API] Booking updated:', bookingId);
+
+        if (transition) {
+            await recordBookingEvent(bookingId, 'status_changed', {
+                actorId: actor.id,
+                actorRole: actor.role,
+                fromStatus: transition.from,
+                toStatus: transition.to,
+                changedFields,
+                note: transition.reason
+            });
+        } else if (changedFields.length > 0) {
+            await recordBookingEvent(bookingId, 'updated', {
+                actorId: actor.id,
+                actorRole: actor.role,
+                changedFields
+            });
+        }
+
+        res.json(updated);
+    } catch (e) {
+        console.error('[API] Error updating booking:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// --- FIELDS ---
+
+// A farmer's saved fields; agents pass ?farmerId= for the farmer they are booking for
+app.get('/api/fields', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const actor = { id: String(req.user!.id), role: req.user!.role };
+        const farmerId = (req.query.farmerId as string) || actor.id;
+        if (!canManageFields(actor, farmerId)) {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+        res.json(await FieldService.getByFarmer(farmerId));
+    } catch (e) {
+        console.error('[API] Error fetching fields:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/fields', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const actor = { id: String(req.user!.id), role: req.user!.role };
+        const { farmerId, name, boundary, center, location, acres, soilType, currentCrop } = req.body;
+        const field = await createField(actor, farmerId || actor.id, { name, boundary, center, location, acres, soilType, currentCrop });
+        res.status(201).json(field);
+    } catch (e) {
+        if (e instanceof FieldError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error creating field:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.put('/api/fields/:id', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const actor = { id: String(req.user!.id), role: req.user!.role };
+        const { name, boundary, center, location, acres, soilType, currentCrop } = req.body;
+        const field = await updateField(actor, req.params.id, { name, boundary, center, location, acres, soilType, currentCrop });
+        res.json(field);
+    } catch (e) {
+        if (e instanceof FieldError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error updating field:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.delete('/api/fields/:id', verifyToken, async (req: Request, res: Response) => {
+    try {
+        await deleteField({ id: String(req.user!.id), role: req.user!.role }, req.params.id);
+        res.json({ success: true });
+    } catch (e) {
+        if (e instanceof FieldError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error deleting field:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// --- QUOTES ---
+// Itemised price for a booking request; the booking form shows it and POST /api/bookings re-runs it
+app.post('/api/quotes', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const { itemCategory, workPurpose, itemId, date, estimatedDuration, acres, quantity, operatorRequired, locationCoords, couponCode } = req.body;
+        const quote = await quoteBooking({
+            farmerId: String(req.user!.id),
+            itemCategory,
+            workPurpose,
+            ...(itemId ? { itemId: Number(itemId) } : {}),
+            ...(date ? { date } : {}),
+            estimatedDuration: Number(estimatedDuration),
+            ...(acres !== undefined ? { acres: Number(acres) } : {}),
+            ...(quantity !== undefined ? { quantity: Number(quantity) } : {}),
+            operatorRequired: !!operatorRequired,
+            ...(locationCoords ? { locationCoords } : {}),
+            ...(couponCode ? { couponCode } : {})
+        });
+        res.json(quote);
+    } catch (e) {
+        if (e instanceof QuoteError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error quoting booking:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// --- ITEM AVAILABILITY ---
+
+// An item's day in hourly slots; with startTime (and duration) it also says whether that request fits
+app.get('/api/items/:id/availability', optionalAuth, async (req: Request, res: Response) => {
+    try {
+        const { date, startTime, duration, excludeBookingId } = req.query as Record<string, string | undefined>;
+        const day = await getItemDayAvailability(parseInt(req.params.id), date || new Date().toISOString().split('T')[0], {
+            ...(req.user ? { farmerId: String(req.user.id) } : {}),
+            ...(startTime ? {
+                request: { startTime, durationHours: duration ? Number(duration) : 3, ...(excludeBookingId ? { excludeBookingId } : {}) }
+            } : {})
+        });
+        res.json(day);
+    } catch (e) {
+        if (e instanceof AvailabilityError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error loading item availability:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.put('/api/items/:id/availability', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const item = await saveItemAvailability(parseInt(req.params.id), String(req.user!.id), req.body);
+        res.json(item);
+    } catch (e) {
+        if (e instanceof AvailabilityError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error saving item availability:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Keep a slot for a few minutes while the farmer finishes a direct request
+app.post('/api/availability/holds', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const { itemId, date, startTime, durationHours } = req.body || {};
+        const hold = await placeHold(Number(itemId), String(req.user!.id), { date, startTime, durationHours: Number(durationHours) });
+        res.status(201).json(hold);
+    } catch (e) {
+        if (e instanceof AvailabilityError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error placing hold:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.delete('/api/availability/holds/:id', verifyToken, async (req: Request, res: Response) => {
+    try {
+        await releaseHold(req.params.id, String(req.user!.id));
+        res.status(204).send();
+    } catch (e) {
+        if (e instanceof AvailabilityError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error releasing hold:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// --- ITEM MAINTENANCE ---
+
+// Owners and staff: engine hours, service reminder and the maintenance history
+app.get('/api/items/:id/maintenance', verifyToken, async (req: Request, res: Response) => {
+    try {
+        res.json(await getMaintenanceSummary(parseInt(req.params.id), { id: String(req.user!.id), role: req.user!.role }));
+    } catch (e) {
+        if (e instanceof MaintenanceError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error loading maintenance log:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.put('/api/items/:id/maintenance/plan', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const { initialEngineHours, serviceIntervalHours } = req.body || {};
+        res.json(await saveServicePlan(parseInt(req.params.id), String(req.user!.id), { initialEngineHours, serviceIntervalHours }));
+    } catch (e) {
+        if (e instanceof MaintenanceError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error saving service plan:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/items/:id/maintenance', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const result = await logMaintenance(parseInt(req.params.id), String(req.user!.id), req.body || {});
+        res.status(201).json(result);
+    } catch (e) {
+        if (e instanceof MaintenanceError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error logging maintenance:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.delete('/api/items/:id/maintenance/:recordId', verifyToken, async (req: Request, res: Response) => {
+    try {
+        res.json(await deleteMaintenanceRecord(parseInt(req.params.id), req.params.recordId, String(req.user!.id)));
+    } catch (e) {
+        if (e instanceof MaintenanceError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error deleting maintenance record:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// --- CALENDAR FEED ---
+
+const calendarFeedResponse = (req: Request, feed: CalendarFeed | null) => {
+    if (!feed) return { url: null };
+    const base = process.env.PUBLIC_API_URL || `${req.protocol}://${req.get('host')}/api`;
+    return { url: `${base}/calendar/${feed.token}.ics`, createdAt: feed.createdAt };
+};
+
+app.get('/api/calendar-feed', verifyToken, async (req: Request, res: Response) => {
+    try {
+        res.json(calendarFeedResponse(req, await getCalendarFeed(String(req.user!.id))));
+    } catch (e) {
+        console.error('[API] Error loading calendar feed:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Creates the feed, or replaces its link so the old one stops working
+app.post('/api/calendar-feed', verifyToken, async (req: Request, res: Response) => {
+    try {
+        res.json(calendarFeedResponse(req, await rotateCalendarFeed(String(req.user!.id))));
+    } catch (e) {
+        console.error('[API] Error creating calendar feed:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.delete('/api/calendar-feed', verifyToken, async (req: Request, res: Response) => {
+    try {
+        await revokeCalendarFeed(String(req.user!.id));
+        res.status(204).send();
+    } catch (e) {
+        console.error('[API] Error revoking calendar feed:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Public: calendar apps can't sign in, so the token in the link is the credential
+app.get('/api/calendar/:file', async (req: Request, res: Response) => {
+    try {
+        const ics = await renderCalendarFeed(req.params.file.replace(/\.ics$/, ''));
+        res.set('Content-Type', 'text/calendar; charset=utf-8');
+        res.set('Cache-Control', 'no-cache');
+        res.send(ics);
+    } catch (e) {
+        if (e instanceof CalendarFeedError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error rendering calendar feed:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// --- SURGE PRICING ---
+
+app.get('/api/admin/surge/settings', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        res.json(await getSurgeSettings());
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.put('/api/admin/surge/settings', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        const error = validateSurgeSettings(req.body);
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+
+        const previous = await getSurgeSettings();
+        const saved = await saveSurgeSettings(req.body, String(req.user!.id));
+        logAudit('SURGE_SETTINGS_UPDATED', {
+            performedBy: req.user!.id,
+            oldValue: previous,
+            newValue: saved
+        });
+        // Switching modes takes effect now rather than at the next scheduled run
+        if (saved.mode !== previous.mode) await runSurgeCycle(String(req.user!.id));
+        res.json(saved);
+    } catch (e) {
+        console.error('[API] Error saving surge settings:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Demand vs supply per mandal and category, with the multiplier each would get (nothing is changed)
+app.get('/api/admin/surge/snapshot', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        const areas = await buildSurgeSnapshot(await getSurgeSettings());
+        res.json(areas.sort((a, b) => b.ratio - a.ratio));
+    } catch (e) {
+        console.error('[API] Error building surge snapshot:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/admin/surge/run', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        const changes = await runSurgeCycle(String(req.user!.id));
+        res.json({ changes: changes.length });
+    } catch (e) {
+        console.error('[API] Error running surge cycle:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Approve or dismiss a proposed multiplier (propose mode)
+app.post('/api/admin/surge/rules/:id/review', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        if (typeof req.body.approve !== 'boolean') {
+            return res.status(400).json({ message: 'approve (boolean) is required' });
+        }
+        res.json(await reviewSurgeProposal(req.params.id, req.body.approve, String(req.user!.id)));
+    } catch (e) {
+        if (e instanceof SurgeError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error reviewing surge proposal:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.get('/api/admin/surge/audit', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        res.json(await getSurgeAudit(Math.min(500, parseInt(req.query.limit as string) || 100)));
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// --- COUPONS ---
+// Preview a code on the booking form (the booking itself re-checks and redeems it)
+app.post('/api/coupons/quote', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const { code, bookingId, itemCategory, estimatedPrice, locationCoords } = req.body;
+        if (!code || !itemCategory) {
+            return res.status(400).json({ message: 'code and itemCategory are required' });
+        }
+
+        const { coupon, discountAmount } = await quoteCoupon(code, {
+            id: bookingId || '',
+            farmerId: String(req.user!.id),
+            itemCategory,
+            estimatedPrice: Number(estimatedPrice) || 0,
+            locationCoords
+        });
+        res.json({ code: coupon.code, description: coupon.description, discountAmount });
+    } catch (e) {
+        if (e instanceof CouponError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error quoting coupon:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.get('/api/admin/coupons', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        res.json(await CouponService.getAll());
+    } catch (e) {
+        console.error('[API] Error fetching coupons:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/admin/coupons', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        const now = new Date().toISOString();
+        const coupon: Coupon = {
+            ...req.body,
+            code: normalizeCouponCode(req.body.code),
+            district: req.body.district || 'ALL',
+            mandal: req.body.mandal || 'ALL',
+            firstBookingOnly: !!req.body.firstBookingOnly,
+            isActive: req.body.isActive !== false,
+            usedCount: 0,
+            createdBy: String(req.user!.id),
+            createdAt: now,
+            updatedAt: now
+        };
+        const error = validateCoupon(coupon);
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+
+        if (!(await CouponService.create(coupon))) {
+            return res.status(409).json({ message: `Coupon ${coupon.code} already exists` });
+        }
+        logAudit('COUPON_CREATED', {
+            performedBy: req.user!.id,
+            targetResource: `coupon ${coupon.code}`,
+            newValue: coupon
+        });
+        res.status(201).json(coupon);
+    } catch (e) {
+        console.error('[API] Error creating coupon:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Edit rules or (de)activate. Code, usage count and creation fields can't change.
+app.put('/api/admin/coupons/:code', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        const existing = await CouponService.getByCode(req.params.code);
+        if (!existing) {
+            return res.status(404).json({ message: 'Coupon not found' });
+        }
+
+        const { code, usedCount, createdBy, createdAt, ...changes } = req.body;
+        const error = validateCoupon({ ...existing, ...changes });
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+
+        const updated = await CouponService.update(existing.code, { ...changes, updatedAt: new Date().toISOString() });
+        logAudit('COUPON_UPDATED', {
+            performedBy: req.user!.id,
+            targetResource: `coupon ${existing.code}`,
+            oldValue: existing,
+            newValue: updated
+        });
+        res.json(updated);
+    } catch (e) {
+        console.error('[API] Error updating coupon:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// --- PAYMENTS ---
+
+// Create a provider order for a booking's advance or final amount
+app.post('/api/payments/orders', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const { bookingId, purpose } = req.body;
+        if (!bookingId || (purpose !== 'advance' && purpose !== 'final')) {
+            return res.status(400).json({ message: 'bookingId and purpose (advance | final) are required' });
+        }
+
+        const booking = await BookingService.getById(bookingId);
+        if (!booking) return res.status(404).json({ message: 'Booking not found' });
+
+        const requesterId = String(req.user!.id);
+        const isStaff = req.user!.role === UserRole.Admin || req.user!.role === UserRole.Founder;
+        if (!isStaff && requesterId !== booking.farmerId && requesterId !== booking.bookedByAgentId) {
+            return res.status(403).json({ message: 'Only the farmer who booked can pay for this booking' });
+        }
+
+        const idempotencyKey = req.header('Idempotency-Key') || undefined;
+        const result = await createPaymentOrder(booking, purpose, requesterId, idempotencyKey);
+        res.status(201).json(result);
+    } catch (e) {
+        if (e instanceof PaymentError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[Payments] Error creating order:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Provider webhook (unauthenticated, verified by signature)
+app.post('/api/payments/webhook', async (req: Request, res: Response) => {
+    try {
+        const rawBody = (req as Request & { rawBody?: string }).rawBody || JSON.stringify(req.body);
+        const signature = req.header('X-Razorpay-Signature') || req.header('X-Payment-Signature') || '';
+        const eventId = req.header('X-Razorpay-Event-Id') || undefined;
+
+        const result = await handlePaymentWebhook(rawBody, signature, eventId);
+        res.json({ status: result });
+    } catch (e) {
+        if (e instanceof PaymentError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[Payments] Error handling webhook:', e);
+        // Non-2xx makes the provider retry the delivery
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Local development only: simulate the customer paying one of their own fake-provider orders.
+// Not mounted at all unless PAYMENT_PROVIDER=fake outside production.
+if (isFakePaymentProviderEnabled()) {
+    app.post('/api/payments/fake/:orderId/capture', verifyToken, async (req: Request, res: Response) => {
+        try {
+            const provider = getPaymentProvider();
+            const order = await PaymentOrderService.getById(req.params.orderId);
+            if (!(provider instanceof FakePaymentProvider) || !order || order.createdBy !== String(req.user!.id)) {
+                return res.status(404).json({ message: 'Order not found' });
+            }
+
+            const { rawBody, signature, eventId } = provider.capture(order.providerOrderId);
+            const result = await handlePaymentWebhook(rawBody, signature, eventId);
+            res.json({ status: result });
+        } catch (e) {
+            console.error('[Payments] Error simulating capture:', e);
+            res.status(500).json({ error: (e as Error).message });
+        }
+    });
+}
+
+// Admin: run reconciliation now and return flagged orders
+app.post('/api/admin/payments/reconcile', [verifyToken, requireRole(UserRole.Admin)], async (req: Request, res: Response) => {
+    try {
+        const mismatches = await reconcilePayments();
+        logAudit('PAYMENT_RECONCILE', {
+            performedBy: req.user!.id,
+            details: `${mismatches.length} mismatched order(s)`
+        });
+        res.json({ mismatches });
+    } catch (e) {
+        console.error('[Payments] Error reconciling payments:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Admin: orders currently flagged by reconciliation
+app.get('/api/admin/payments/mismatches', [verifyToken, requireRole(UserRole.Admin)], async (req: Request, res: Response) => {
+    try {
+        const orders = await PaymentOrderService.getAll();
+        res.json(orders.filter(o => o.reconciliationStatus === 'mismatch'));
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// --- WALLET ---
+
+// Own wallet balance and history
+app.get('/api/wallet', verifyToken, async (req: Request, res: Response) => {
+    try {
+        res.json(await getWalletWithHistory(String(req.user!.id)));
+    } catch (e) {
+        console.error('[API] Error fetching wallet:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Admin: any user's wallet (e.g. while handling a support ticket)
+app.get('/api/admin/wallets/:userId', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        res.json(await getWalletWithHistory(req.params.userId));
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Start a top-up through the payment provider; the wallet is credited by the webhook
+app.post('/api/wallet/top-ups', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const amount = Number(req.body.amount);
+        const userId = String(req.user!.id);
+        const idempotencyKey = `wallet:${userId}:${req.header('Idempotency-Key') || Date.now()}`;
+        res.status(201).json(await createTopUpOrder(userId, amount, idempotencyKey));
+    } catch (e) {
+        if (e instanceof PaymentError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error creating top-up:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Pay a booking's advance or final amount from the farmer's wallet
+app.post('/api/wallet/pay', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const { bookingId, purpose } = req.body;
+        if (!bookingId || (purpose !== 'advance' && purpose !== 'final')) {
+            return res.status(400).json({ message: 'bookingId and purpose (advance | final) are required' });
+        }
+
+        const booking = await BookingService.getById(bookingId);
+        if (!booking) return res.status(404).json({ message: 'Booking not found' });
+
+        const requesterId = String(req.user!.id);
+        if (requesterId !== booking.farmerId && requesterId !== booking.bookedByAgentId) {
+            return res.status(403).json({ message: 'Only the farmer who booked can pay for this booking' });
+        }
+
+        const transaction = await payBookingFromWallet(booking, purpose, requesterId);
+        res.json(transaction);
+    } catch (e) {
+        if (e instanceof PaymentError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error paying from wallet:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// The supplier (or their operator) confirms the farmer paid the final amount in cash
+app.post('/api/bookings/:id/cash-payment', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const booking = await BookingService.getById(req.params.id);
+        if (!booking) return res.status(404).json({ message: 'Booking not found' });
+
+        const requesterId = String(req.user!.id);
+        const isStaff = req.user!.role === UserRole.Admin || req.user!.role === UserRole.Founder;
+        if (!isStaff && requesterId !== booking.supplierId && requesterId !== booking.operatorId) {
+            return res.status(403).json({ message: 'Only the supplier who received the cash can record it' });
+        }
+
+        await recordCashPayment(booking, requesterId);
+        res.json(await BookingService.getById(booking.id));
+    } catch (e) {
+        if (e instanceof PaymentError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error recording cash payment:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Admin: goodwill or promotional credit (promo balance, spendable on bookings only)
+app.post('/api/admin/wallets/:userId/credits', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        const { type, note, ticketId } = req.body;
+        const amount = Number(req.body.amount);
+        if (type !== 'goodwill_credit' && type !== 'promo_credit') {
+            return res.status(400).json({ message: 'type must be goodwill_credit or promo_credit' });
+        }
+        if (!(amount > 0 && amount <= MAX_ADMIN_CREDIT)) {
+            return res.status(400).json({ message: `amount must be between 1 and ${MAX_ADMIN_CREDIT}` });
+        }
+
+        const user = await UserService.getById(req.params.userId);
+        if (!user) return res.status(404).json({ message: 'User not found' });
+
+        const transaction = await creditWallet(req.params.userId, type, amount, {
+            note: note ? String(note) : undefined,
+            ticketId: ticketId ? String(ticketId) : undefined,
+            createdBy: String(req.user!.id)
+        });
+        logAudit('WALLET_CREDIT_ISSUED', {
+            performedBy: req.user!.id,
+            targetUser: req.params.userId,
+            ...(ticketId ? { targetResource: `ticket ${ticketId}` } : {}),
+            details: `${type} of ₹${amount}${note ? `: ${note}` : ''}`
+        });
+        res.status(201).json(transaction);
+    } catch (e) {
+        if (e instanceof WalletError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error issuing wallet credit:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// --- CANCELLATIONS & REFUNDS ---
+
+// Expected refund / fee if the requester cancelled this booking now (shown before confirming)
+app.get('/api/bookings/:id/cancellation-quote', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const booking = await BookingService.getById(req.params.id);
+        if (!booking) {
+            return res.status(404).json({ message: 'Booking not found' });
+        }
+
+        const requesterId = String(req.user!.id);
+        const isFarmerSide = [booking.farmerId, booking.bookedByAgentId].filter(Boolean).map(String).includes(requesterId);
+        const isSupplierSide = [booking.supplierId, booking.operatorId].filter(Boolean).map(String).includes(requesterId);
+        if (!isFarmerSide && !isSupplierSide) {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+        if (['Completed', 'Cancelled', 'Expired', 'In Process', 'Pending Payment'].includes(booking.status)) {
+            return res.status(409).json({ message: `A ${booking.status} booking cannot be cancelled` });
+        }
+
+        const policy = await getCancellationPolicy();
+        res.json(quoteCancellation(booking, isFarmerSide ? 'farmer' : 'supplier', policy));
     } catch (e) {
+        console.error('[API] Error quoting cancellation:', e);
         res.status(500).json({ error: (e as Error).message });
     }
 });
 
-app.post('/api/items', async (req: Request, res: Response) => {
+app.get('/api/admin/cancellation-policy', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
     try {
-        const newItem: Item = { id: Date.now(), ...req.body, status: 'pending' };
-        await ItemService.create(newItem);
-        res.status(201).json(newItem);
-    } catch (e) { res.status(500).json({ error: (e as Error).message }); }
+        res.json(await getCancellationPolicy());
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
 });
 
-app.put('/api/items/:id', async (req: Request, res: Response) => {
+app.put('/api/admin/cancellation-policy', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
     try {
-        const itemId = parseInt(req.params.id);
-        const updated = await ItemService.update(itemId, req.body);
-        if (updated) res.json(updated);
-        else res.status(404).json({ message: 'Item not found' });
-    } catch (e) { res.status(500).json({ error: (e as Error).message }); }
+        const error = validateCancellationPolicy(req.body);
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+
+        const previous = await getCancellationPolicy();
+        const saved = await saveCancellationPolicy(req.body, String(req.user!.id));
+        logAudit('CANCELLATION_POLICY_UPDATED', {
+            performedBy: req.user!.id,
+            oldValue: previous,
+            newValue: saved
+        });
+        res.json(saved);
+    } catch (e) {
+        console.error('[API] Error saving cancellation policy:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
 });
 
-app.delete('/api/items/:id', async (req: Request, res: Response) => {
+// Admin: refund records, optionally filtered by status (?status=pending)
+app.get('/api/admin/refunds', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
     try {
-        const itemId = parseInt(req.params.id);
-        await ItemService.delete(itemId);
-        res.status(204).send();
-    } catch (e) { res.status(500).json({ error: (e as Error).message }); }
+        const refunds = await RefundService.getAll();
+        const status = req.query.status as string | undefined;
+        res.json(status ? refunds.filter(r => r.status === status) : refunds);
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
 });
 
-// Helper to apply streak penalty
-async function applyStreakPenalty(userId: string, reason: string) {
-    const user = await UserService.getById(parseInt(userId));
-    if (!user || user.role !== 'Supplier') return;
-
-    const streak = user.streak || { currentCount: 0, lastLoginDate: '', guards: 0, maxGuards: 5, points: 0 };
-    let points = streak.points || 0;
-    let count = streak.currentCount;
+// Admin: mark a pending refund as paid out (reference = gateway refund id / UPI reference)
+app.post('/api/admin/refunds/:id/process', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        const refund = await RefundService.getById(req.params.id);
+        if (!refund) {
+            return res.status(404).json({ message: 'Refund not found' });
+        }
+        if (refund.status !== 'pending') {
+            return res.status(409).json({ message: `Refund is already ${refund.status}` });
+        }
 
-    // Deduct 50 points
-    points -= 50;
+        const { reference: manualReference, toWallet } = req.body as { reference?: string; toWallet?: boolean };
+        // A wallet refund settles immediately; its wallet transaction is the reference
+        const walletCredit = toWallet
+            ? await creditWallet(refund.farmerId, 'refund', refund.refundAmount, {
+                id: `WT-${refund.id}`,
+                refundId: refund.id,
+                bookingId: refund.bookingId,
+                createdBy: String(req.user!.id)
+            })
+            : null;
+        const reference = walletCredit?.id || manualReference;
+
+        const updated = await RefundService.update(refund.id, {
+            status: 'processed',
+            processedAt: new Date().toISOString(),
+            processedBy: String(req.user!.id),
+            ...(reference ? { processingReference: reference } : {})
+        });
+        await postRefundPaid(updated!);
+        logAudit('REFUND_PROCESSED', {
+            performedBy: req.user!.id,
+            targetResource: refund.bookingId,
+            details: `Refund ${refund.id} of ₹${refund.refundAmount}${walletCredit ? ' to wallet' : ''}${reference ? ` (ref ${reference})` : ''}`
+        });
 
-    // Borrow from Streak Count if negative
-    if (points < 0) {
-        if (count > 0) {
-            count -= 1;
-            points += 100;
-            // e.g., 20 pts - 50 = -30. Need 30 more. Borrow 1 streak (100). Points become 70.
-        } else {
-            points = 0; // Floor at 0 if no streak to borrow
+        // Wallet credits send their own notification
+        if (!walletCredit) {
+            await NotificationService.create({
+                id: Date.now(),
+                userId: refund.farmerId,
+                message: `Your refund of ₹${refund.refundAmount} for booking ${refund.bookingId} has been processed.`,
+                type: 'booking',
+                category: 'booking',
+                priority: 'medium',
+                read: false,
+                timestamp: new Date().toISOString()
+            });
         }
-    }
 
-    await UserService.update(parseInt(userId), {
-        streak: { ...streak, currentCount: count, points }
-    });
+        res.json(updated);
+    } catch (e) {
+        console.error('[API] Error processing refund:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
 
-    console.log(`[Penalty] Applied -50 pts to Supplier ${userId} for ${reason}. New: ${count} / ${points} pts`);
-
-    // Notify Supplier
-    await NotificationService.create({
-        id: Date.now() + Math.random(),
-        userId: userId,
-        message: `Penalty applied: -50 Streak Points due to ${reason}. Current Score: ${points}/100.`,
-        type: 'system',
-        category: 'performance',
-        priority: 'high',
-        read: false,
-        timestamp: new Date().toISOString()
-    });
-}
+// --- LEDGER & SETTLEMENTS ---
 
-// --- BOOKINGS ---
-app.post('/api/bookings', async (req: Request, res: Response) => {
+// Supplier statement from the ledger (earnings screen and admin finance)
+app.get('/api/suppliers/:id/ledger', verifyToken, async (req: Request, res: Response) => {
     try {
-        console.log('[API] POST /api/bookings received:', JSON.stringify(req.body));
-
-        const bookingsData = Array.isArray(req.body) ? req.body : [req.body];
-        const createdBookings = [];
-
-        for (const bookingData of bookingsData) {
-            // Validate daily working hours limits for Confirmed bookings
-            // Skip for Agent/AgentPro suppliers (managed by founder, no limits)
-            if (bookingData.status === 'Confirmed' && bookingData.supplierId && bookingData.itemId) {
-                const item = await ItemService.getById(bookingData.itemId);
-                if (item) {
-                    // Check supplier role
-                    const supplier = await UserService.getById(parseInt(item.ownerId));
-                    const isAgentSupplier = supplier && (supplier.role === 'Agent' || supplier.role === 'AgentPro');
-
-                    if (!isAgentSupplier) {
-                        const bookingDate = bookingData.date || new Date().toISOString().split('T')[0];
-                        const alreadyBookedHours = await getBookedHoursForSupplierOnDate(
-                            bookingData.supplierId,
-                            bookingData.itemId,
-                            bookingDate
-                        );
-                        const maxHours = MAX_DAILY_WORKING_HOURS[item.category] || MAX_DAILY_WORKING_HOURS['default'];
-                        const requestedHours = bookingData.estimatedDuration || 3;
-                        const remainingHours = maxHours - alreadyBookedHours;
-
-                        if (requestedHours > remainingHours) {
-                            console.log(`[API] Rejected booking: Exceeds daily ${maxHours}h limit for ${item.category}`);
-                            return res.status(400).json({
-                                error: `Cannot accept booking: This ${item.category} has ${remainingHours.toFixed(1)}h remaining out of ${maxHours}h daily limit on ${bookingDate}.`
-                            });
-                        }
-                    }
-                }
-            }
-
-            // Use ID from frontend if available, otherwise generate one
-            const id = bookingData.id || `AGB-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-            const newBooking = { ...bookingData, id };
-            await BookingService.create(newBooking);
-            createdBookings.push(newBooking);
-            console.log('[API] Booking created successfully:', id);
+        const supplierId = req.params.id;
+        const isStaff = req.user!.role === UserRole.Admin || req.user!.role === UserRole.Founder;
+        if (!isStaff && String(req.user!.id) !== supplierId) {
+            return res.status(403).json({ message: 'Access denied' });
         }
 
-        // Return array if input was array, else single object (for backward compatibility)
-        if (Array.isArray(req.body)) {
-            res.status(201).json(createdBookings);
-        } else {
-            res.status(201).json(createdBookings[0]);
-        }
+        res.json(await getSupplierLedger(supplierId));
     } catch (e) {
-        console.error('[API] Error creating booking:', e);
+        console.error('[API] Error fetching supplier ledger:', e);
         res.status(500).json({ error: (e as Error).message });
     }
 });
 
-app.get('/api/bookings', async (req: Request, res: Response) => {
+app.get('/api/admin/settlements', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
     try {
-        console.log('[API] GET /api/bookings called');
-        const bookings = await BookingService.getAll();
-        console.log(`[API] Returning ${bookings.length} bookings`);
-        res.json(bookings);
+        const settlements = await SettlementService.getAll();
+        const status = req.query.status as string | undefined;
+        res.json(status ? settlements.filter(s => s.status === status) : settlements);
     } catch (e) {
-        console.error('[API] Error fetching bookings:', e);
         res.status(500).json({ error: (e as Error).message });
     }
 });
 
-app.put('/api/bookings/:id', async (req: Request, res: Response) => {
+// Admin: create this week's batches now instead of waiting for the scheduler
+app.post('/api/admin/settlements/run', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
     try {
-        const bookingId = req.params.id;
-        const updates = req.body;
-        console.log(`[API] PUT /api/bookings/${bookingId} received`, updates);
-
-        // --- RE-BROADCAST & RATING & AVAILABILITY LOGIC START ---
-        if (updates.status === 'Cancelled') {
-            const existingBooking = await BookingService.getById(bookingId);
-
-            // Case A: Supplier Cancellation
-            if (existingBooking && existingBooking.supplierId && (existingBooking.status === 'Confirmed' || existingBooking.status === 'Pending Confirmation')) {
-                console.log(`[API] Intercepting Cancellation for Booking ${bookingId}: Re-broadcasting to pool.`);
-
-                // 1. Reset status to Searching (Re-broadcast)
-                updates.status = 'Searching';
-
-                // 2. Clear assignment fields
-                updates.supplierId = null;
-                updates.itemId = null;
-                updates.otpCode = null;
-                updates.otpVerified = false;
-                updates.operatorId = null;
-                updates.isRebroadcast = true;
-
-                // 3. Notify Farmer
-                await NotificationService.create({
-                    id: Date.now(),
-                    userId: existingBooking.farmerId,
-                    message: `⚠️ Your supplier had to cancel. We are automatically looking for a new supplier for your ${existingBooking.itemCategory} booking.`,
-                    type: 'booking',
-                    category: 'booking',
-                    priority: 'high',
-                    read: false,
-                    timestamp: new Date().toISOString()
-                });
-
-                // 4. Penalize Supplier Rating (8% decrease)
-                if (existingBooking.supplierId) {
-                    const supplier = await UserService.getById(parseInt(existingBooking.supplierId));
-                    if (supplier) {
-                        const currentRating = supplier.avgRating || 5.0;
-                        // Decrease by 8% (multiply by 0.92)
-                        const newRating = Math.max(1.0, parseFloat((currentRating * 0.92).toFixed(2)));
-                        await UserService.update(parseInt(existingBooking.supplierId), { avgRating: newRating });
-                        console.log(`[API] Penalized Supplier ${existingBooking.supplierId} rating: ${currentRating} -> ${newRating}`);
-
-                        // Notify Supplier about penalty
-                        await NotificationService.create({
-                            id: Date.now() + 1,
-                            userId: existingBooking.supplierId,
-                            message: `You cancelled a confirmed booking. Your rating has been decreased by 8% to ${newRating}.`,
-                            type: 'system',
-                            category: 'performance',
-                            priority: 'high',
-                            read: false,
-                            timestamp: new Date().toISOString()
-                        });
-
-                        // Realtime WAR Update
-                        await updateSupplierWAR(existingBooking.supplierId);
-
-                        // 5. Handle Sequential Cancellations & Suspension/Blocking
-                        const currentStreak = (supplier.cancelledStreak || 0) + 1;
-
-                        // --- STREAK PENALTY (Cancellation) ---
-                        // Deduct 50 points for cancellation
-                        await applyStreakPenalty(existingBooking.supplierId, 'Cancellation');
-
-                        const blockThreshold = 5;
-                        const suspendThreshold = 3;
-                        let userUpdates: Partial<User> = { cancelledStreak: currentStreak };
-
-                        if (currentStreak >= blockThreshold) {
-                            const blockUntil = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
-                            userUpdates = {
-                                ...userUpdates,
-                                userStatus: 'blocked',
-                                suspendedUntil: blockUntil, // Reuse suspendedUntil field or create blockedUntil? suspendedUntil is fine if semantic implies "halted".
-                                cancelledStreak: 0
-                            };
-                            console.log(`[API] BLOCKING Supplier ${existingBooking.supplierId} until ${blockUntil}`);
-
-                            // Notify Admin - High Alert
-                            await NotificationService.create({
-                                id: Date.now() + 2,
-                                userId: '0',
-                                message: `CRITICAL: Supplier #${existingBooking.supplierId} BLOCKED for 7 DAYS due to 5 sequential cancellations.`,
-                                type: 'admin',
-                                category: 'alert',
-                                priority: 'critical',
-                                read: false,
-                                timestamp: new Date().toISOString()
-                            });
-
-                            // Notify Supplier
-                            await NotificationService.create({
-                                id: Date.now() + 3,
-                                userId: existingBooking.supplierId,
-                                message: `ACCOUNT BLOCKED: You have cancelled 5 confirmed bookings in a row. Your account is blocked for 7 days. Please contact Admin to raise a complaint if you believe this is an error.`,
-                                type: 'system',
-                                category: 'alert',
-                                priority: 'critical',
-                                read: false,
-                                timestamp: new Date().toISOString()
-                            });
-
-                        } else if (currentStreak >= suspendThreshold) {
-                            const suspendUntil = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
-                            userUpdates = {
-                                ...userUpdates,
-                                userStatus: 'suspended',
-                                suspendedUntil: suspendUntil,
-                                cancelledStreak: 0
-                            };
-                            console.log(`[API] SUSPENDING Supplier ${existingBooking.supplierId} until ${suspendUntil}`);
-
-                            // Notify Admin
-                            await NotificationService.create({
-                                id: Date.now() + 2,
-                                userId: '0',
-                                message: `Supplier #${existingBooking.supplierId} suspended for 24h due to 3 sequential cancellations.`,
-                                type: 'admin',
-                                category: 'alert',
-                                priority: 'high',
-                                read: false,
-                                timestamp: new Date().toISOString()
-                            });
-
-                            // Notify Supplier
-                            await NotificationService.create({
-                                id: Date.now() + 3,
-                                userId: existingBooking.supplierId,
-                                message: `ACCOUNT SUSPENDED: You have cancelled ${suspendThreshold} confirmed bookings in a row. Your account is suspended for 24 hours.`,
-                                type: 'system',
-                                category: 'alert',
-                                priority: 'critical',
-                                read: false,
-                                timestamp: new Date().toISOString()
-                            });
-                        }
-
-                        await UserService.update(parseInt(existingBooking.supplierId), userUpdates);
-                    }
-                }
-            } else if (existingBooking && !existingBooking.supplierId && (existingBooking.status === 'Searching' || existingBooking.status === 'Pending Confirmation')) {
-                // Case B: Farmer Cancellation
-                // Logic: If Farmer cancels 3 sequentially (implied: without completing one?), suspend.
-                // We need to track Farmer's cancellations here. 
-                // Note: 'Searching' cancel is also a cancel. 
-
-                const farmer = await UserService.getById(parseInt(existingBooking.farmerId));
-                if (farmer) {
-                    const currentStreak = (farmer.cancelledStreak || 0) + 1;
-                    const blockThreshold = 5;
-                    const suspendThreshold = 3;
-                    let userUpdates: Partial<User> = { cancelledStreak: currentStreak };
-
-                    if (currentStreak >= blockThreshold) {
-                        const blockUntil = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
-                        userUpdates = {
-                            ...userUpdates,
-                            userStatus: 'blocked',
-                            suspendedUntil: blockUntil,
-                            cancelledStreak: 0
-                        };
-                        console.log(`[API] BLOCKING Farmer ${existingBooking.farmerId} until ${blockUntil}`);
-
-                        // Notify Admin
-                        await NotificationService.create({
-                            id: Date.now(),
-                            userId: '0',
-                            message: `CRITICAL: Farmer #${existingBooking.farmerId} BLOCKED for 7 DAYS due to 5 sequential cancellations.`,
-                            type: 'admin',
-                            category: 'alert',
-                            priority: 'critical',
-                            read: false,
-                            timestamp: new Date().toISOString()
-                        });
-
-                        // Notify Farmer
-                        await NotificationService.create({
-                            id: Date.now() + 1,
-                            userId: existingBooking.farmerId,
-                            message: `ACCOUNT BLOCKED: You have cancelled 5 confirmed bookings in a row. Your account is blocked for 7 days. Please contact Admin to raise a complaint.`,
-                            type: 'system',
-                            category: 'alert',
-                            priority: 'critical',
-                            read: false,
-                            timestamp: new Date().toISOString()
-                        });
-
-                    } else if (currentStreak >= suspendThreshold) {
-                        const suspendUntil = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
-                        userUpdates = {
-                            ...userUpdates,
-                            userStatus: 'suspended',
-                            suspendedUntil: suspendUntil,
-                            cancelledStreak: 0
-                        };
-                        console.log(`[API] SUSPENDING Farmer ${existingBooking.farmerId} until ${suspendUntil}`);
-
-                        // Notify Admin
-                        await NotificationService.create({
-                            id: Date.now(),
-                            userId: '0',
-                            message: `Farmer #${existingBooking.farmerId} suspended for 24h due to 3 sequential cancellations.`,
-                            type: 'admin',
-                            category: 'alert',
-                            priority: 'high',
-                            read: false,
-                            timestamp: new Date().toISOString()
-                        });
-
-                        // Notify Farmer
-                        await NotificationService.create({
-                            id: Date.now() + 1,
-                            userId: existingBooking.farmerId,
-                            message: `ACCOUNT SUSPENDED: You have cancelled ${suspendThreshold} bookings in a row. Your account is suspended for 24 hours.`,
-                            type: 'system',
-                            category: 'alert',
-                            priority: 'critical',
-                            read: false,
-                            timestamp: new Date().toISOString()
-                        });
-                    }
-                    await UserService.update(parseInt(existingBooking.farmerId), userUpdates);
-                }
-            }
-
-            // Global Case: If a booking had an Item ID, ensure that Item is marked available again
-            // (Unless it's the supplier cancellation case above where we just detached it - actually we detached it in updates object, 
-            //  so the original item needs to be freed).
-            // Logic: If 'updates' says Cancelled, OR (updates says Searching AND we detached an item), we should free the item.
-
-            const itemIDToFree = existingBooking?.itemId; // The item that WAS locked
-            if (itemIDToFree) {
-                const item = await ItemService.getById(itemIDToFree);
-                if (item) {
-                    // If quantity based, increment. If boolean, set available=true.
-                    // The requirement says "immediately show to all farmer available".
-                    // We simplified availability model to boolean 'available' for now in most places, or quantity.
-                    const updateData: Partial<Item> = { available: true };
-                    if (existingBooking.quantity && item.quantityAvailable !== undefined) {
-                        const currentQty = item.quantityAvailable || 0;
-                        // We don't know max quantity easily without fetching original, but assume adding back is safe.
-                        // Actually, we should be careful not to exceed stock if it wasn't decremented? 
-                        // Yes it was decremented on Confirm. 
-                        // Check status: Only Confirm decrements. Pending Confirmation might not have?
-                        // In frontend AcceptJobModal: "availableItems" are filtered.
-                        // Let's just set available: true for now as a safe "show to all" signal.
-                        updateData.quantityAvailable = currentQty + (existingBooking.quantity || 0);
-                    }
-
-                    await ItemService.update(itemIDToFree, updateData);
-                    console.log(`[API] Restored availability for Item ${itemIDToFree}`);
-                }
-            }
+        const created = await runWeeklySettlements();
+        res.json({ created });
+    } catch (e) {
+        console.error('[API] Error running settlements:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
 
+// Admin: record a payout result { status: 'paid', reference } or { status: 'failed', reason }
+app.put('/api/admin/settlements/:id', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        const { status, reference, reason } = req.body as { status?: string; reference?: string; reason?: string };
+        if (status !== 'paid' && status !== 'failed') {
+            return res.status(400).json({ message: "status must be 'paid' or 'failed'" });
         }
 
-        // --- WORK COMPLETION - RATING BONUS ---
-        if (updates.status === 'Completed') {
-            const existingBooking = await BookingService.getById(bookingId);
-            if (existingBooking && existingBooking.supplierId) {
-                const supplier = await UserService.getById(parseInt(existingBooking.supplierId));
-                if (supplier) {
-                    const currentRating = supplier.avgRating || 0;
-                    const base = currentRating > 0 ? currentRating : 4.0;
-                    const newRating = Math.min(5.0, parseFloat((base * 1.04).toFixed(2)));
-
-                    // --- STREAK & POINTS LOGIC START ---
-                    const dailyWorkStreakUpdate: Partial<User> = {
-                        avgRating: newRating,
-                        cancelledStreak: 0
-                    };
-
-                    // Only apply if NO disputes and NO damage
-                    if (!existingBooking.disputeRaised && !existingBooking.damageReported) {
-                        const today = new Date().toISOString().split('T')[0];
-                        const currentStreak = supplier.streak || {
-                            currentCount: 0,
-                            lastLoginDate: '',
-                            guards: 0,
-                            maxGuards: 5,
-                            points: 0,
-                            lastWorkDate: ''
-                        };
-
-                        let newCount = currentStreak.currentCount;
-                        let newPoints = currentStreak.points || 0;
-                        let pointsAdded = 0;
-
-                        // 1. Daily Work Streak Calculation
-                        const lastWork = currentStreak.lastWorkDate ? new Date(currentStreak.lastWorkDate) : null;
-                        const currDate = new Date(today);
-
-                        // Normalize to midnight for accurate day difference
-                        if (lastWork) lastWork.setHours(0, 0, 0, 0);
-                        currDate.setHours(0, 0, 0, 0);
-
-                        let shouldIncrementStreak = false;
-                        let isStreakBroken = false;
-
-                        if (!lastWork) {
-                            shouldIncrementStreak = true; // First ever job
-                        } else {
-                            const diffTime = Math.abs(currDate.getTime() - lastWork.getTime());
-                            const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-                            if (diffDays === 0) {
-                                shouldIncrementStreak = false; // Already worked today
-                            } else if (diffDays === 1) {
-                                shouldIncrementStreak = true; // Consecutive day
-                            } else {
-                                // Diff > 1: Potential Break. Check for "In-Progress" protection.
-                                // Logic: If workStartTime was on a valid day (diff <= 1 from last work), we bridge the gap.
-                                let protectedByWorkStart = false;
-                                if (existingBooking.workStartTime) {
-                                    const jobStart = new Date(existingBooking.workStartTime);
-                                    jobStart.setHours(0, 0, 0, 0);
-                                    const startDiffTime = Math.abs(jobStart.getTime() - lastWork.getTime());
-                                    const startDiffDays = Math.ceil(startDiffTime / (1000 * 60 * 60 * 24));
-
-                                    if (startDiffDays <= 1) {
-                                        protectedByWorkStart = true;
-                                        console.log(`[API] Streak Saved! Job started ${startDiffDays} days after last work (within Valid Window)`);
-                                    }
-                                }
-
-                                if (protectedByWorkStart) {
-                                    shouldIncrementStreak = true;
-                                    // Note: We don't "fill" the missing days in DB, but we keep the streak count alive and accumulating.
-                                    // Effectively: 10 -> [Gap] -> 11.
-                                } else {
-                                    isStreakBroken = true;
-                                }
-                            }
-                        }
-
-                        if (isStreakBroken) {
-                            newCount = 1; // Reset to 1 (Today is the new start)
-                            // TODO: Add Guard consumption logic here if desired in future
-                        } else if (shouldIncrementStreak) {
-                            newCount += 1;
-                        }
-
-                        // 2. Performance Points (5 points per hour)
-                        // Calculate hours
-                        let durationHours = existingBooking.estimatedDuration || 3; // Fallback
-                        if (existingBooking.workStartTime && existingBooking.workEndTime) {
-                            const start = new Date(existingBooking.workStartTime).getTime();
-                            const end = new Date(existingBooking.workEndTime).getTime();
-                            durationHours = (end - start) / (1000 * 60 * 60);
-                        } else if (existingBooking.startTime && existingBooking.endTime) {
-                            // Try scheduled times if actuals not available (fallback for testing/manual completion)
-                            const [startH, startM] = existingBooking.startTime.split(':').map(Number);
-                            const [endH, endM] = existingBooking.endTime.split(':').map(Number);
-                            durationHours = (endH + endM / 60) - (startH + startM / 60);
-                        }
-
-                        // Rounding logic? User said "for every hour add 5 points".
-                        // Let's Floor or Round? "completed work... no delay".
-                        // Assuming fractional hours count proportionally? Or just floor?
-                        // "for every hour" implies discrete, but usually points are better granular.
-                        // Let's use Math.floor(durationHours) * 5? Or duration * 5?
-                        // Let's do proportional to be fair: Math.round(duration * 5)
-                        pointsAdded = Math.round(durationHours * 5);
-                        if (pointsAdded < 0) pointsAdded = 0;
-
-                        newPoints += pointsAdded;
-
-                        // 3. Bonus Streak (Every 100 points)
-                        // "if points reach 100, add one more streak... points carry back if not 100"
-                        while (newPoints >= 100) {
-                            newCount += 1;
-                            newPoints -= 100;
-                        }
-
-                        // Construct updated Streak object
-                        dailyWorkStreakUpdate.streak = {
-                            ...currentStreak,
-                            currentCount: newCount,
-                            points: newPoints,
-                            lastWorkDate: today // Mark worked today
-                        };
-
-                        console.log(`[API] Supplier ${existingBooking.supplierId} Streak: Count ${currentStreak.currentCount}->${newCount}, Points ${currentStreak.points}->${newPoints} (+${pointsAdded})`);
-                    }
-
-                    await UserService.update(parseInt(existingBooking.supplierId), dailyWorkStreakUpdate);
-                    // --- STREAK & POINTS LOGIC END ---
+        const settlement = await updateSettlementStatus(req.params.id, status, { reference, reason, updatedBy: String(req.user!.id) });
+        logAudit('SETTLEMENT_UPDATED', {
+            performedBy: req.user!.id,
+            targetUser: settlement.supplierId,
+            targetResource: settlement.id,
+            details: `${status}${reference ? ` (ref ${reference})` : ''}${reason ? `: ${reason}` : ''}`
+        });
+        res.json(settlement);
+    } catch (e) {
+        if (e instanceof SettlementError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error updating settlement:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
 
-                    console.log(`[API] Rewarded Supplier ${existingBooking.supplierId} rating: ${currentRating} -> ${newRating}`);
+app.get('/api/admin/finance/settings', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        res.json(await getFinanceSettings());
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
 
-                    // Also reset Farmer streak? 
-                    // Logic: "Cancelled 3 sequentially". A success breaks the sequence.
-                    await UserService.update(parseInt(existingBooking.farmerId), { cancelledStreak: 0 });
+app.put('/api/admin/finance/settings', [verifyToken, requireRole(UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        const { commissionPercent } = req.body as { commissionPercent?: number };
+        if (typeof commissionPercent !== 'number' || commissionPercent < 0 || commissionPercent > 50) {
+            return res.status(400).json({ message: 'commissionPercent must be between 0 and 50' });
+        }
 
+        const previous = await getFinanceSettings();
+        const saved = await saveFinanceSettings(commissionPercent, String(req.user!.id));
+        logAudit('FINANCE_SETTINGS_UPDATED', {
+            performedBy: req.user!.id,
+            oldValue: previous.commissionPercent,
+            newValue: saved.commissionPercent
+        });
+        res.json(saved);
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
 
-                    // Notify Supplier about bonus
-                    await NotificationService.create({
-                        id: Date.now(),
-                        userId: existingBooking.supplierId,
-                        message: `Great job! Job completed flawlessly. Rating +4%. Points earned: 5/hr. Leaderboard updated!`,
-                        type: 'system',
-                        category: 'performance',
-                        priority: 'medium',
-                        read: false,
-                        showTo: [existingBooking.supplierId],
-                        timestamp: new Date().toISOString()
-                    });
+// --- INVOICES ---
 
-                    // Realtime WAR Update
-                    await updateSupplierWAR(existingBooking.supplierId);
-                }
-            }
+const sendInvoicePdf = async (res: Response, invoice: Invoice) => {
+    const pdf = await renderInvoicePdf(invoice);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber.replace(/\//g, '-')}.pdf"`);
+    res.send(Buffer.from(pdf));
+};
 
-            // Restore Item Availability on Completion
-            if (existingBooking && existingBooking.itemId) {
-                const item = await ItemService.getById(existingBooking.itemId);
-                if (item) {
-                    const updateData: Partial<Item> = { available: true };
-                    if (existingBooking.quantity && item.quantityAvailable !== undefined) {
-                        const currentQty = item.quantityAvailable || 0;
-                        updateData.quantityAvailable = currentQty + (existingBooking.quantity || 0);
-                    }
-                    await ItemService.update(existingBooking.itemId, updateData);
-                    console.log(`[API] Restored availability for Completed Item ${existingBooking.itemId}`);
-                }
-            }
+app.get('/api/bookings/:id/invoice', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const booking = await BookingService.getById(req.params.id);
+        if (!booking) {
+            return res.status(404).json({ message: 'Booking not found' });
         }
 
-
-
-        // --- STREAK PENALTY (Dispute / Damage) ---
-        if (updates.disputeRaised === true) {
-            const existing = await BookingService.getById(bookingId);
-            if (existing && existing.supplierId) {
-                await applyStreakPenalty(existing.supplierId, 'Dispute Raised');
-            }
-        }
-        if (updates.damageReported === true) {
-            const existing = await BookingService.getById(bookingId);
-            if (existing && existing.supplierId) {
-                await applyStreakPenalty(existing.supplierId, 'Damage Reported');
-            }
+        const requesterId = String(req.user!.id);
+        const isParty = [booking.farmerId, booking.bookedByAgentId, booking.supplierId].filter(Boolean).map(String).includes(requesterId);
+        const isAdmin = req.user!.role === UserRole.Admin || req.user!.role === UserRole.Founder;
+        if (!isParty && !isAdmin) {
+            return res.status(403).json({ message: 'Access denied' });
         }
 
-        // --- RE-BROADCAST & RATING & AVAILABILITY LOGIC END ---
-
-        const updated = await BookingService.update(bookingId, updates);
-
-        if (updated) {
-            console.log('[API] Booking updated:', bookingId);
-            res.json(updated);
-        }
-        else {
-            console.warn('[API] Booking not found for update:', bookingId);
-            res.status(404).json({ message: 'Booking not found' });
-        }
+        await sendInvoicePdf(res, await getOrIssueInvoice(booking));
     } catch (e) {
-        console.error('[API] Error updating booking:', e);
+        if (e instanceof InvoiceError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error generating invoice:', e);
         res.status(500).json({ error: (e as Error).message });
     }
 });
 
-// --- POSTS ---
-app.get('/api/posts', async (req: Request, res: Response) => {
+app.post('/api/admin/invoices/:bookingId/regenerate', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
     try {
-        const posts = await PostService.getAll();
-        res.json(posts);
-    } catch (e) { res.status(500).json({ error: (e as Error).message }); }
+        const booking = await BookingService.getById(req.params.bookingId);
+        if (!booking) {
+            return res.status(404).json({ message: 'Booking not found' });
+        }
+
+        const invoice = await regenerateInvoice(booking, String(req.user!.id));
+        logAudit('INVOICE_REGENERATED', {
+            performedBy: req.user!.id,
+            targetResource: booking.id,
+            details: `${invoice.invoiceNumber} revision ${invoice.revision}`
+        });
+        await sendInvoicePdf(res, invoice);
+    } catch (e) {
+        if (e instanceof InvoiceError) {
+            return res.status(e.statusCode).json({ message: e.message });
+        }
+        console.error('[API] Error regenerating invoice:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
 });
 
+// --- POSTS ---
 app.post('/api/posts', async (req: Request, res: Response) => {
     try {
         const newPost = { id: Date.now(), replies: [], ...req.body };
@@ -1647,7 +2652,7 @@ app.delete('/api/posts/:postId/replies/:replyId', verifyToken, requireRole(UserR
 // --- KYC ---
 app.post('/api/kyc', async (req: Request, res: Response) => {
     try {
-        const { userId, aadhaarUrl, photoUrl, aadhaarNumber, panUrl, panNumber, address, location, phone, fullName, docs } = req.body;
+        const { userId, aadhaarUrl, photoUrl, aadhaarNumber, panUrl, panNumber, gstNumber, address, location, phone, fullName, docs } = req.body;
 
         console.log('===== KYC SUBMISSION DEBUG =====');
         console.log('Full request body:', JSON.stringify(req.body, null, 2));
@@ -1687,6 +2692,14 @@ app.post('/api/kyc', async (req: Request, res: Response) => {
                     status: 'Pending'
                 });
             }
+            if (gstNumber) {
+                // GSTIN is printed on the supplier's invoices
+                kycDocs.push({
+                    type: 'GST',
+                    number: String(gstNumber).trim().toUpperCase(),
+                    status: 'Pending'
+                });
+            }
         }
 
         const kycData: any = {
@@ -1797,39 +2810,6 @@ app.post('/api/admin/kyc/:id/verify', async (req: Request, res: Response) => {
     }
 });
 
-// --- USER CHECK ENDPOINTS ---
-app.get('/api/users/phone', async (req: Request, res: Response) => {
-    try {
-        const phone = req.query.phone as string;
-        if (!phone) return res.status(400).json({ message: 'Phone number required' });
-
-        const user = await UserService.getByPhone(phone);
-        if (user) {
-            res.json({ exists: true, email: user.email, name: user.name });
-        } else {
-            res.status(404).json({ exists: false, message: 'User not found' });
-        }
-    } catch (e) {
-        res.status(500).json({ error: (e as Error).message });
-    }
-});
-
-app.get('/api/users/profile', async (req: Request, res: Response) => {
-    try {
-        const email = req.query.email as string;
-        if (!email) return res.status(400).json({ message: 'Email required' });
-
-        const user = await UserService.getByEmail(email);
-        if (user) {
-            res.json({ exists: true, user });
-        } else {
-            res.status(404).json({ exists: false });
-        }
-    } catch (e) {
-        res.status(500).json({ error: (e as Error).message });
-    }
-});
-
 // --- NOTIFICATIONS ---
 app.get('/api/admin/notifications/history', async (req: Request, res: Response) => {
     try {
@@ -2404,9 +3384,9 @@ app.post('/api/reviews', async (req: Request, res: Response) => {
                         points -= 100;
                     }
 
-                    await UserService.update(parseInt(userId), {
-                        streak: { ...user.streak, currentCount, points }
-                    });
+                    const adjusted = { ...user.streak, currentCount, points };
+                    await UserService.update(parseInt(userId), { streak: adjusted });
+                    await recordStreakEvents([streakEvent(String(userId), 'penalty', toDateKey(new Date()), adjusted, `${adjustment} pts: rated ${rating}/5`)]);
 
                     console.log(`[Review] Adjusted Streak for User ${userId}. Rating ${rating}/5. Adjustment: ${adjustment} pts. New: ${currentCount}/${points}`);
                 }
@@ -2523,6 +3503,112 @@ app.delete('/api/founder/users/:id', verifyToken, requireRole(UserRole.Founder),
     } catch (e) { res.status(500).json({ error: (e as Error).message }); }
 });
 
+// --- STREAKS ---
+
+// The signed-in supplier's streak history and guard rules
+app.get('/api/streak/history', verifyToken, async (req: Request, res: Response) => {
+    try {
+        res.json(await getStreakHistory(String(req.user!.id)));
+    } catch (e) {
+        if (e instanceof StreakError) return res.status(e.statusCode).json({ message: e.message });
+        console.error('[API] Error loading streak history:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Trade streak points for a guard
+app.post('/api/streak/guards', [verifyToken, requireRole(UserRole.Supplier)], async (req: Request, res: Response) => {
+    try {
+        res.status(201).json(await buyGuard(String(req.user!.id)));
+    } catch (e) {
+        if (e instanceof StreakError) return res.status(e.statusCode).json({ message: e.message });
+        console.error('[API] Error buying streak guard:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// --- SUSPENSION POLICY & APPEALS ---
+
+// The signed-in user's suspension and their appeal against it (reachable while suspended)
+app.get('/api/suspension', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const { user, appeal } = await getSuspensionStatus(String(req.user!.id));
+        res.json({
+            userStatus: user.userStatus,
+            ...(user.suspendedUntil ? { suspendedUntil: user.suspendedUntil } : {}),
+            ...(user.suspensionReason ? { reason: user.suspensionReason } : {}),
+            appeal
+        });
+    } catch (e) {
+        if (e instanceof SuspensionError) return res.status(e.statusCode).json({ message: e.message });
+        console.error('[API] Error loading suspension:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/suspension/appeal', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const message = typeof req.body?.message === 'string' ? req.body.message : '';
+        const ticket = await submitAppeal(String(req.user!.id), message);
+        res.status(201).json(ticket);
+    } catch (e) {
+        if (e instanceof SuspensionError) return res.status(e.statusCode).json({ message: e.message });
+        console.error('[API] Error submitting suspension appeal:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/admin/suspension-appeals/:ticketId/decision', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        const { decision, note } = req.body || {};
+        if (decision !== 'lifted' && decision !== 'upheld') {
+            return res.status(400).json({ message: "decision must be 'lifted' or 'upheld'" });
+        }
+
+        const ticket = await decideAppeal(parseInt(req.params.ticketId), decision, typeof note === 'string' ? note.trim() : '', String(req.user!.id));
+        logAudit('SUSPENSION_APPEAL_DECIDED', {
+            performedBy: req.user!.id,
+            targetUser: ticket.userId,
+            targetResource: `ticket:${ticket.id}`,
+            details: decision
+        });
+        res.json(ticket);
+    } catch (e) {
+        if (e instanceof SuspensionError) return res.status(e.statusCode).json({ message: e.message });
+        console.error('[API] Error deciding suspension appeal:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.get('/api/founder/suspension-policy', [verifyToken, requireRole(UserRole.Admin, UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        res.json(await getSuspensionPolicy());
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.put('/api/founder/suspension-policy', [verifyToken, requireRole(UserRole.Founder)], async (req: Request, res: Response) => {
+    try {
+        const error = validateSuspensionPolicy(req.body || {});
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+
+        const previous = await getSuspensionPolicy();
+        const saved = await saveSuspensionPolicy(req.body, String(req.user!.id));
+        logAudit('SUSPENSION_POLICY_UPDATED', {
+            performedBy: req.user!.id,
+            oldValue: previous,
+            newValue: saved
+        });
+        res.json(saved);
+    } catch (e) {
+        console.error('[API] Error saving suspension policy:', e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
 // ========== ADMIN ITEM APPROVAL ENDPOINTS ========== (Upload endpoint consolidated at top of file)
 
 // Admin: Get all items for review
@@ -2650,9 +3736,38 @@ app.use('/api/agent', verifyToken, requireRole(UserRole.AgentPro), agentRoutes);
     const { initWARScheduler } = await import('./services/warRating');
     initWARScheduler();
 
+    // Start automatic supplier dispatch (offer waves, deadlines, radius widening)
+    const { initDispatchScheduler } = await import('./services/dispatcher');
+    initDispatchScheduler();
+
+    // Start payment reconciliation against the provider's records
+    const { initPaymentReconciliationScheduler } = await import('./services/payments');
+    initPaymentReconciliationScheduler();
+
+    // Start weekly supplier settlement batches
+    const { initSettlementScheduler } = await import('./services/settlements');
+    initSettlementScheduler();
+
+    // Start automatic surge pricing (does nothing while its mode is 'off')
+    const { initSurgeScheduler } = await import('./services/surgePricing');
+    initSurgeScheduler();
+
+    // Start verified-account expiry, grace and auto-renewal processing
+    const { initVerifiedSubscriptionScheduler } = await import('./services/verifiedSubscriptions');
+    initVerifiedSubscriptionScheduler();
+
+    const { initSuspensionScheduler } = await import('./services/suspensionPolicy');
+    initSuspensionScheduler();
+
+    const { initStreakScheduler } = await import('./services/streaks');
+    initStreakScheduler();
+
     console.log('[Server] All notification services initialized');
 })();
 
+// Refuse to start without a fully configured payment provider
+getPaymentProvider();
+
 app.listen(port, () => {
     console.log(`Backend server listening on http://localhost:${port}`);
 });
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { auth as firebaseAuth } from '../firebase';
 import { UserService } from '../services/firestore';
 import { UserRole } from '../types';
+import { reactivateIfExpired } from '../services/suspensionPolicy';
 import { logAuthAttempt, logSecurityEvent, trackFailedAttempt, clearFailedAttempts } from '../services/logger';
 
 // Extend Express Request to include user info
@@ -51,11 +52,16 @@ export const verifyToken = async (req: Request, res: Response, next: NextFunctio
             });
         }
 
-        // Check if user is suspended
-        if (user.userStatus === 'suspended') {
+        // A suspension that has run out ends here if the scheduler hasn't lifted it yet
+        const current = await reactivateIfExpired(user);
+
+        // Check if user is suspended or blocked (they can still see and appeal the suspension)
+        if ((current.userStatus === 'suspended' || current.userStatus === 'blocked') && !req.originalUrl.startsWith('/api/suspension')) {
             return res.status(403).json({
-                error: 'Account Suspended',
-                message: 'Your account has been suspended. Please contact support.'
+                error: current.userStatus === 'blocked' ? 'Account Blocked' : 'Account Suspended',
+                message: current.userStatus === 'blocked'
+                    ? 'Your account has been blocked. Please contact support.'
+                    : 'Your account has been suspended. Please contact support.'
             });
         }
 
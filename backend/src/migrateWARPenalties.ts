@@ -0,0 +1,91 @@
+/**
+ * WAR Penalty Events Migration
+ * Re-derives cancellation, late-arrival and no-show penalty events from booking history
+ * and recalculates every supplier's rating from them. Ratings lowered by the old
+ * "8% per cancellation" (and raised by the old "+4% per job") are replaced by the WAR.
+ *
+ * Safe to run more than once: event ids are deterministic per booking, type and supplier.
+ *
+ * npm run migrate:war-penalties            (writes)
+ * npm run migrate:war-penalties -- --dry-run
+ */
+
+import { UserRole } from './types';
+import { BookingService, UserService } from './services/firestore';
+import { getScheduledStart } from './services/arrival';
+import { cancellingSupplierId } from './services/bookingStateMachine';
+import { findNoShows, getMinutesLate, recordPenaltyEvent, syncLateArrivalPenalty, updateSupplierWAR, WAR_CONSTANTS } from './services/warRating';
+
+async function migrateWARPenalties(dryRun: boolean) {
+    console.log(`[Migration] Re-deriving WAR penalty events${dryRun ? ' (dry run)' : ''}...`);
+
+    const [bookings, users] = await Promise.all([BookingService.getAll(), UserService.getAll()]);
+    const suppliers = users.filter(u => u.role === UserRole.Supplier);
+    const supplierIds = new Set(suppliers.map(u => String(u.id)));
+    const counts = { cancellation: 0, late_arrival: 0, no_show: 0, unattributed: 0 };
+
+    for (const booking of bookings) {
+        // Supplier cancellations, blamed on whoever made them as the live hook does. Older history
+        // has cancellations staff made on a supplier's behalf; those can't be attributed.
+        for (const change of booking.statusHistory || []) {
+            if (change.reason !== 'supplier_cancellation') continue;
+            const cancelledBy = cancellingSupplierId(change);
+            const supplierId = cancelledBy && supplierIds.has(cancelledBy) ? cancelledBy : null;
+            if (!supplierId) {
+                counts.unattributed++;
+                continue;
+            }
+            if (!dryRun) await recordPenaltyEvent(supplierId, 'cancellation', booking.id, change.changedAt, { source: 'migration' });
+            counts.cancellation++;
+        }
+
+        // Late arrivals
+        if (booking.supplierId && booking.arrivedAt) {
+            const minutesLate = getMinutesLate(booking);
+            if (minutesLate !== null && minutesLate > WAR_CONSTANTS.lateArrivalPenaltyMinutes) counts.late_arrival++;
+            if (!dryRun) await syncLateArrivalPenalty(booking, 'migration');
+        }
+    }
+
+    // No-shows still open today (older ones were never tracked), dated like the live check dates them
+    for (const booking of findNoShows(bookings, new Date())) {
+        const occurredAt = new Date(getScheduledStart(booking)!.getTime() + WAR_CONSTANTS.noShowAfterMinutes * 60000).toISOString();
+        if (!dryRun) await recordPenaltyEvent(booking.supplierId!, 'no_show', booking.id, occurredAt, { source: 'migration' });
+        counts.no_show++;
+    }
+
+    console.log(`[Migration] Events: ${counts.cancellation} cancellation(s), ${counts.late_arrival} late arrival(s), ${counts.no_show} no-show(s)`);
+    if (counts.unattributed > 0) {
+        console.log(`[Migration] ${counts.unattributed} supplier cancellation(s) were made by staff and not attributed to a supplier`);
+    }
+    if (dryRun) return;
+
+    console.log(`[Migration] Recalculating WAR for ${suppliers.length} supplier(s)...`);
+    let changed = 0;
+    for (const supplier of suppliers) {
+        const before = supplier.avgRating;
+        await updateSupplierWAR(String(supplier.id));
+        const after = (await UserService.getById(String(supplier.id)))?.avgRating;
+        if (before !== after) {
+            changed++;
+            console.log(`  - ${supplier.name} (${supplier.id}): ${before ?? 'none'} -> ${after}`);
+        }
+    }
+
+    console.log(`[Migration] ✅ Done. ${changed} rating(s) changed`);
+}
+
+// Run migration
+if (require.main === module) {
+    migrateWARPenalties(process.argv.includes('--dry-run'))
+        .then(() => {
+            console.log('\n[Migration] Migration completed successfully!');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('\n[Migration] Migration failed:', error);
+            process.exit(1);
+        });
+}
+
+export { migrateWARPenalties };
@@ -0,0 +1,167 @@
+import { Booking, BookingStatus, LocationPoint } from '../types';
+import { BookingService, NotificationService } from './firestore';
+import { calculateDistance } from './geocoding';
+import { recordBookingEvent, SYSTEM_ACTOR } from './bookingEvents';
+import { transitionBooking, BookingTransitionError, TransitionActor } from './bookingStateMachine';
+import { syncLateArrivalPenalty, updateSupplierWAR } from './warRating';
+
+/**
+ * Geofenced Arrival
+ *
+ * Location fixes posted for a Confirmed booking are checked against a circle of
+ * ARRIVAL_GEOFENCE_METERS around the field. The first accurate fix inside it during the
+ * job window marks the booking Arrived with that fix's time, issues the start OTP and
+ * tells the farmer. WAR on-time scoring only trusts these verified arrival times; when
+ * GPS fails an admin can record the real arrival time with a reason.
+ */
+
+export const ARRIVAL_GEOFENCE_METERS = 150;
+// Fixes vaguer than this can't prove the machine is in the field
+export const MAX_FIX_ACCURACY_METERS = 100;
+// The geofence is armed from this long before the scheduled start until the job's end
+const ARRIVAL_WINDOW_BEFORE_MINUTES = 120;
+const DEFAULT_JOB_HOURS = 3;
+
+// Statuses a booking can be in once the machine has reached the field
+const ARRIVED_STATUSES: BookingStatus[] = ['Arrived', 'In Process', 'Pending Payment', 'Completed'];
+
+export class ArrivalError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'ArrivalError';
+    }
+}
+
+const generateOtp = (): string => Math.floor(100000 + Math.random() * 900000).toString(); // 6-digit
+
+/**
+ * Scheduled start of a booking (date and HH:MM in server local time)
+ */
+export function getScheduledStart(booking: Pick<Booking, 'date' | 'startTime'>): Date | null {
+    if (!booking.date || !booking.startTime) return null;
+    const [hours, minutes] = booking.startTime.split(':').map(Number);
+    const start = new Date(booking.date);
+    if (isNaN(start.getTime()) || isNaN(hours)) return null;
+    start.setHours(hours, minutes || 0, 0, 0);
+    return start;
+}
+
+/**
+ * Whether a fix is close and accurate enough to count as being in the field. Pure.
+ */
+export function isInsideGeofence(point: LocationPoint, field: { lat: number; lng: number }): { inside: boolean; distanceM: number } {
+    const distanceM = Math.round(calculateDistance(point.lat, point.lng, field.lat, field.lng) * 1000);
+    const accurate = point.accuracy === undefined || point.accuracy <= MAX_FIX_ACCURACY_METERS;
+    return { inside: accurate && distanceM <= ARRIVAL_GEOFENCE_METERS, distanceM };
+}
+
+/**
+ * Whether the geofence is armed at `at`: from ARRIVAL_WINDOW_BEFORE_MINUTES before the start to the job's end. Pure.
+ */
+export function isWithinArrivalWindow(booking: Booking, at: Date): boolean {
+    const start = getScheduledStart(booking);
+    if (!start) return false;
+    const opens = start.getTime() - ARRIVAL_WINDOW_BEFORE_MINUTES * 60000;
+    const closes = start.getTime() + (booking.estimatedDuration || DEFAULT_JOB_HOURS) * 3600000;
+    return at.getTime() >= opens && at.getTime() <= closes;
+}
+
+/**
+ * Called for every stored fix: marks a Confirmed booking Arrived when the fix is inside the geofence.
+ * Returns the updated booking, or null when nothing changed.
+ */
+export async function checkGeofenceArrival(booking: Booking, point: LocationPoint): Promise<Booking | null> {
+    if (booking.status !== 'Confirmed' || !booking.locationCoords) return null;
+    if (!isWithinArrivalWindow(booking, new Date(point.recordedAt))) return null;
+
+    const { inside, distanceM } = isInsideGeofence(point, booking.locationCoords);
+    if (!inside) return null;
+
+    const otp = generateOtp();
+    let result;
+    try {
+        result = await transitionBooking(booking, 'Arrived', {
+            arrivedAt: point.recordedAt,
+            arrivalSource: 'geofence',
+            arrivalDistanceM: distanceM,
+            otpCode: otp,
+            otpVerified: false
+        }, { id: SYSTEM_ACTOR });
+    } catch (err) {
+        // Someone moved the booking on in the meantime
+        if (err instanceof BookingTransitionError) return null;
+        throw err;
+    }
+
+    const updated = await BookingService.update(booking.id, result.updates);
+    await recordBookingEvent(booking.id, 'status_changed', {
+        actorId: SYSTEM_ACTOR,
+        fromStatus: result.transition.from,
+        toStatus: result.transition.to,
+        changedFields: ['status', 'arrivedAt', 'arrivalSource', 'arrivalDistanceM', 'otpCode', 'otpVerified'],
+        note: `Geofence: ${distanceM}m from the field`
+    });
+
+    await NotificationService.create({
+        id: Date.now() + Math.random(),
+        userId: booking.farmerId,
+        message: `Your service has arrived. Share this OTP with the supplier to start work: ${otp}`,
+        type: 'booking',
+        category: 'booking',
+        priority: 'high',
+        read: false,
+        timestamp: new Date().toISOString()
+    });
+    if (booking.supplierId) {
+        await NotificationService.create({
+            id: Date.now() + Math.random(),
+            userId: booking.supplierId,
+            message: `You've reached the field for booking #${booking.id.substring(0, 8)}. Ask the farmer for the OTP to start work.`,
+            type: 'booking',
+            category: 'booking',
+            priority: 'medium',
+            read: false,
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    console.log(`[Arrival] ${booking.id} arrived by geofence at ${point.recordedAt} (${distanceM}m)`);
+    return updated;
+}
+
+/**
+ * Admin records the real arrival time when GPS failed or was wrong. Refreshes the supplier's WAR.
+ */
+export async function overrideArrival(bookingId: string, actor: TransitionActor, arrivedAt: string, reason: string): Promise<Booking> {
+    const booking = await BookingService.getById(bookingId);
+    if (!booking) throw new ArrivalError('Booking not found', 404);
+    if (!ARRIVED_STATUSES.includes(booking.status)) {
+        throw new ArrivalError(`Arrival can only be corrected once the booking is ${ARRIVED_STATUSES.join(', ')}`, 409);
+    }
+    if (!reason || !reason.trim()) throw new ArrivalError('A reason is required');
+    const at = new Date(arrivedAt);
+    if (isNaN(at.getTime())) throw new ArrivalError('arrivedAt must be a date');
+    if (at.getTime() > Date.now()) throw new ArrivalError('arrivedAt cannot be in the future');
+
+    const updates: Partial<Booking> = {
+        arrivedAt: at.toISOString(),
+        arrivalSource: 'admin',
+        arrivalOverrideReason: reason.trim(),
+        arrivalOverriddenBy: actor.id
+    };
+    const updated = await BookingService.update(bookingId, updates);
+    if (!updated) throw new ArrivalError('Booking not found', 404);
+    await recordBookingEvent(bookingId, 'arrival_overridden', {
+        actorId: actor.id,
+        actorRole: actor.role,
+        changedFields: Object.keys(updates),
+        note: `${booking.arrivedAt ? `${booking.arrivedAt} (${booking.arrivalSource})` : 'none'} -> ${updates.arrivedAt}: ${updates.arrivalOverrideReason}`
+    });
+
+    if (booking.supplierId) {
+        await syncLateArrivalPenalty({ ...booking, ...updates } as Booking);
+        await updateSupplierWAR(booking.supplierId);
+    }
+    console.log(`[Arrival] ${actor.id} set arrival of ${bookingId} to ${updates.arrivedAt}`);
+    return updated;
+}
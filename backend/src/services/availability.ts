@@ -0,0 +1,321 @@
+import { AvailabilityHold, AvailabilitySlot, Booking, Item, ItemAvailability, ItemDayAvailability, MaintenanceWindow, User, UserRole } from '../types';
+import { AvailabilityHoldService, BookingService, ItemService, UserService } from './firestore';
+import { ACTIVE_STATUSES, MAX_DAILY_WORKING_HOURS, sumBookedHours } from './capacity';
+
+/**
+ * Item Availability Calendar
+ *
+ * Each item keeps its own working hours, weekly off-days and dated maintenance windows
+ * (Item.availability); the supplier's rest days (User.blockedDates) still close every item
+ * for the day. A request fits an item when:
+ *   - the day is open (no rest day, off-day or all-day maintenance),
+ *   - it starts and ends inside working hours and misses every maintenance window,
+ *   - it doesn't overlap an active booking or another farmer's live hold on the item,
+ *   - the item's daily hour limit (capacity.ts) isn't exceeded; Agent/AgentPro suppliers
+ *     are managed by the founder and have no limit.
+ * Items that come in several units (quantityAvailable > 1) can run overlapping jobs, so
+ * only the calendar and the daily limit apply to them.
+ *
+ * A hold keeps a slot for HOLD_MINUTES while a farmer finishes a direct request; the
+ * booking that uses it releases it.
+ */
+
+export const HOLD_MINUTES = 15;
+const SLOT_MINUTES = 60;
+const DEFAULT_JOB_HOURS = 3;
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Items without a calendar can work any hour, every day (the daily limit still applies)
+export const DEFAULT_AVAILABILITY: ItemAvailability = {
+    workingHours: { start: '00:00', end: '24:00' },
+    weeklyOffDays: [],
+    maintenance: []
+};
+
+export class AvailabilityError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'AvailabilityError';
+    }
+}
+
+export interface AvailabilityContext {
+    item: Item;
+    supplier?: User | null;
+    bookings: Booking[];
+    holds: AvailabilityHold[];
+}
+
+export interface SlotRequest {
+    date: string;                    // YYYY-MM-DD
+    startTime: string;               // HH:MM
+    durationHours: number;
+    excludeBookingId?: string;       // The booking being confirmed or moved
+    farmerId?: string;               // This farmer's own holds don't block them
+}
+
+interface BusyRange {
+    start: number;
+    end: number;
+    status: 'booked' | 'held' | 'maintenance';
+    label: string;
+    bookingId?: string;
+}
+
+const isTime = (value: unknown, allowMidnightEnd = false): boolean =>
+    typeof value === 'string' && (/^([01]\d|2[0-3]):[0-5]\d$/.test(value) || (allowMidnightEnd && value === '24:00'));
+const isDate = (value: unknown): boolean => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const toMinutes = (time: string): number => {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+};
+const toTime = (minutes: number): string => `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+const weekday = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+export const isHoldLive = (hold: AvailabilityHold, now: number = Date.now()): boolean => new Date(hold.expiresAt).getTime() > now;
+
+const calendarOf = (item: Item): ItemAvailability => item.availability || DEFAULT_AVAILABILITY;
+const isMultiUnit = (item: Item): boolean => (item.quantityAvailable ?? 1) > 1;
+const hasDailyLimit = (supplier?: User | null): boolean => !supplier || (supplier.role !== UserRole.Agent && supplier.role !== UserRole.AgentPro);
+
+/**
+ * Validate a calendar sent by a supplier. Returns an error message or null.
+ */
+export function validateAvailability(availability: Partial<ItemAvailability>): string | null {
+    const { workingHours, weeklyOffDays, maintenance } = availability;
+    if (!workingHours || !isTime(workingHours.start) || !isTime(workingHours.end, true)) return 'workingHours needs a start and end as HH:MM';
+    if (toMinutes(workingHours.start) >= toMinutes(workingHours.end)) return 'Working hours must end after they start';
+    if (!Array.isArray(weeklyOffDays) || weeklyOffDays.some(d => !Number.isInteger(d) || d < 0 || d > 6)) return 'weeklyOffDays must be days 0 (Sunday) to 6 (Saturday)';
+    if (weeklyOffDays.length === 7) return 'At least one day of the week must be a working day';
+    if (!Array.isArray(maintenance)) return 'maintenance must be a list';
+    for (const window of maintenance) {
+        if (!window.id || !isDate(window.date)) return 'Every maintenance window needs an id and a YYYY-MM-DD date';
+        if (!!window.startTime !== !!window.endTime) return `Maintenance on ${window.date}: give both times or neither`;
+        if (window.startTime && (!isTime(window.startTime) || !isTime(window.endTime, true) || toMinutes(window.startTime) >= toMinutes(window.endTime!))) {
+            return `Maintenance on ${window.date}: times must be HH:MM and end after they start`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Why the whole date is closed for an item, or null when it's open. Pure.
+ */
+export function getDayOffReason(ctx: Pick<AvailabilityContext, 'item' | 'supplier'>, date: string): string | null {
+    if (ctx.supplier?.blockedDates?.includes(date)) return 'The supplier is taking a rest day';
+    const calendar = calendarOf(ctx.item);
+    if (calendar.weeklyOffDays.includes(weekday(date))) return `${ctx.item.name} doesn't work on ${DAY_NAMES[weekday(date)]}s`;
+    const allDay = calendar.maintenance.find(w => w.date === date && !w.startTime);
+    if (allDay) return `${ctx.item.name} is in maintenance all day${allDay.reason ? ` (${allDay.reason})` : ''}`;
+    return null;
+}
+
+const maintenanceLabel = (window: MaintenanceWindow) =>
+    `Maintenance ${window.startTime}–${window.endTime}${window.reason ? ` (${window.reason})` : ''}`;
+
+/**
+ * Time already taken on a date: partial maintenance, active bookings and other farmers' live holds.
+ */
+function getBusyRanges(ctx: AvailabilityContext, date: string, request: Pick<SlotRequest, 'excludeBookingId' | 'farmerId'>, now: number): BusyRange[] {
+    const ranges: BusyRange[] = calendarOf(ctx.item).maintenance
+        .filter(w => w.date === date && w.startTime && w.endTime)
+        .map(w => ({ start: toMinutes(w.startTime!), end: toMinutes(w.endTime!), status: 'maintenance' as const, label: maintenanceLabel(w) }));
+    if (isMultiUnit(ctx.item)) return ranges;
+
+    for (const booking of ctx.bookings) {
+        if (booking.itemId !== ctx.item.id || booking.date !== date || booking.id === request.excludeBookingId) continue;
+        if (!ACTIVE_STATUSES.includes(booking.status) || !isTime(booking.startTime)) continue;
+        const start = toMinutes(booking.startTime);
+        const end = start + (booking.estimatedDuration || DEFAULT_JOB_HOURS) * 60;
+        ranges.push({ start, end, status: 'booked', label: `Booked from ${booking.startTime} to ${toTime(Math.min(end, 24 * 60))}`, bookingId: booking.id });
+    }
+    for (const hold of ctx.holds) {
+        if (hold.itemId !== ctx.item.id || hold.date !== date || !isHoldLive(hold, now) || hold.farmerId === request.farmerId) continue;
+        const start = toMinutes(hold.startTime);
+        ranges.push({ start, end: start + hold.durationHours * 60, status: 'held', label: `Held for another farmer from ${hold.startTime}` });
+    }
+    return ranges;
+}
+
+/**
+ * Active bookings a maintenance window would run into. Pure.
+ */
+export function findBookingsInWindow(ctx: AvailabilityContext, window: MaintenanceWindow): Booking[] {
+    const start = window.startTime ? toMinutes(window.startTime) : 0;
+    const end = window.endTime ? toMinutes(window.endTime) : 24 * 60;
+    return ctx.bookings.filter(booking => {
+        if (booking.itemId !== ctx.item.id || booking.date !== window.date || !ACTIVE_STATUSES.includes(booking.status)) return false;
+        if (!isTime(booking.startTime)) return true;
+        const bookingStart = toMinutes(booking.startTime);
+        return bookingStart < end && bookingStart + (booking.estimatedDuration || DEFAULT_JOB_HOURS) * 60 > start;
+    });
+}
+
+const bookedHoursOn = (ctx: AvailabilityContext, date: string, excludeBookingId?: string): number =>
+    sumBookedHours(ctx.bookings.filter(b => b.id !== excludeBookingId), String(ctx.item.ownerId), ctx.item.id, date);
+
+/**
+ * Why an item can't take a request, or null when it fits. Pure: works on preloaded bookings and holds.
+ */
+export function findUnavailableReason(ctx: AvailabilityContext, request: SlotRequest, now: number = Date.now()): string | null {
+    if (!isDate(request.date) || !isTime(request.startTime)) return 'A date and start time are needed';
+    const offReason = getDayOffReason(ctx, request.date);
+    if (offReason) return offReason;
+
+    const { workingHours } = calendarOf(ctx.item);
+    const hours = request.durationHours || DEFAULT_JOB_HOURS;
+    const start = toMinutes(request.startTime);
+    const end = start + hours * 60;
+    if (start < toMinutes(workingHours.start) || end > toMinutes(workingHours.end)) {
+        return `${ctx.item.name} works ${workingHours.start}–${workingHours.end}`;
+    }
+
+    const clash = getBusyRanges(ctx, request.date, request, now).find(r => start < r.end && end > r.start);
+    if (clash) return clash.label;
+
+    if (hasDailyLimit(ctx.supplier)) {
+        const maxHours = MAX_DAILY_WORKING_HOURS[ctx.item.category] || MAX_DAILY_WORKING_HOURS['default'];
+        const remaining = maxHours - bookedHoursOn(ctx, request.date, request.excludeBookingId);
+        if (hours > remaining) return `${ctx.item.name} has ${Math.max(0, remaining).toFixed(1)}h left of its ${maxHours}h daily limit on ${request.date}`;
+    }
+    return null;
+}
+
+/**
+ * Hour-by-hour view of an item's day within its working hours. Pure.
+ */
+export function buildDayAvailability(ctx: AvailabilityContext, date: string, farmerId?: string, now: number = Date.now()): ItemDayAvailability {
+    const { workingHours } = calendarOf(ctx.item);
+    const offReason = getDayOffReason(ctx, date);
+    const busy = offReason ? [] : getBusyRanges(ctx, date, { farmerId }, now);
+    const slots: AvailabilitySlot[] = [];
+
+    for (let start = toMinutes(workingHours.start); start < toMinutes(workingHours.end); start += SLOT_MINUTES) {
+        const end = Math.min(start + SLOT_MINUTES, toMinutes(workingHours.end));
+        const range = busy.find(r => start < r.end && end > r.start);
+        slots.push({
+            start: toTime(start),
+            end: toTime(end),
+            status: offReason ? 'off' : range ? range.status : 'free',
+            ...(range?.bookingId ? { bookingId: range.bookingId } : {})
+        });
+    }
+
+    return {
+        itemId: ctx.item.id,
+        date,
+        workingHours,
+        ...(offReason ? { offReason } : {}),
+        slots,
+        bookedHours: bookedHoursOn(ctx, date),
+        maxDailyHours: hasDailyLimit(ctx.supplier) ? (MAX_DAILY_WORKING_HOURS[ctx.item.category] || MAX_DAILY_WORKING_HOURS['default']) : 24
+    };
+}
+
+/**
+ * Load what an availability check needs for one item. Expired holds are dropped on the way.
+ */
+export async function loadAvailabilityContext(item: Item): Promise<AvailabilityContext> {
+    const [supplier, bookings, holds] = await Promise.all([
+        UserService.getById(item.ownerId),
+        BookingService.getAll(),
+        AvailabilityHoldService.getByItem(item.id)
+    ]);
+    const now = Date.now();
+    holds.filter(h => !isHoldLive(h, now)).forEach(h => AvailabilityHoldService.delete(h.id).catch(() => undefined));
+    return { item, supplier, bookings: bookings.filter(b => b.itemId === item.id), holds: holds.filter(h => isHoldLive(h, now)) };
+}
+
+const getItemOrThrow = async (itemId: number): Promise<Item> => {
+    const item = await ItemService.getById(itemId);
+    if (!item) throw new AvailabilityError('Item not found', 404);
+    return item;
+};
+
+/**
+ * An item's day as a farmer sees it (their own holds don't count against them), with the
+ * result for a specific request when one is given
+ */
+export async function getItemDayAvailability(
+    itemId: number,
+    date: string,
+    options: { farmerId?: string; request?: Omit<SlotRequest, 'date' | 'farmerId'> } = {}
+): Promise<ItemDayAvailability> {
+    if (!isDate(date)) throw new AvailabilityError('date must be YYYY-MM-DD');
+    const ctx = await loadAvailabilityContext(await getItemOrThrow(itemId));
+    const day = buildDayAvailability(ctx, date, options.farmerId);
+    if (options.request) {
+        const reason = findUnavailableReason(ctx, { ...options.request, date, farmerId: options.farmerId });
+        day.check = reason ? { available: false, reason } : { available: true };
+    }
+    return day;
+}
+
+/**
+ * Throw a 409 AvailabilityError when the item can't take the request
+ */
+export async function assertItemAvailable(itemId: number, request: SlotRequest): Promise<void> {
+    const ctx = await loadAvailabilityContext(await getItemOrThrow(itemId));
+    const reason = findUnavailableReason(ctx, request);
+    if (reason) throw new AvailabilityError(reason, 409);
+}
+
+/**
+ * Save a supplier's calendar for one of their items
+ */
+export async function saveItemAvailability(itemId: number, supplierId: string, availability: ItemAvailability): Promise<Item> {
+    const item = await getItemOrThrow(itemId);
+    if (String(item.ownerId) !== supplierId) throw new AvailabilityError('You can only edit the calendar of your own items', 403);
+    const error = validateAvailability(availability);
+    if (error) throw new AvailabilityError(error);
+
+    const calendar: ItemAvailability = {
+        workingHours: { start: availability.workingHours.start, end: availability.workingHours.end },
+        weeklyOffDays: Array.from(new Set(availability.weeklyOffDays)).sort(),
+        maintenance: availability.maintenance.map(w => ({
+            id: w.id,
+            date: w.date,
+            ...(w.startTime ? { startTime: w.startTime, endTime: w.endTime } : {}),
+            ...(w.reason ? { reason: w.reason } : {}),
+            ...(w.recordId ? { recordId: w.recordId } : {})
+        })),
+        updatedAt: new Date().toISOString()
+    };
+    return (await ItemService.update(itemId, { availability: calendar }))!;
+}
+
+/**
+ * Hold a slot on an item for a farmer. Their earlier holds on the item are replaced.
+ */
+export async function placeHold(itemId: number, farmerId: string, request: Omit<SlotRequest, 'farmerId' | 'excludeBookingId'>): Promise<AvailabilityHold> {
+    if (!(request.durationHours > 0)) throw new AvailabilityError('durationHours must be greater than 0');
+    const ctx = await loadAvailabilityContext(await getItemOrThrow(itemId));
+    const reason = findUnavailableReason(ctx, { ...request, farmerId });
+    if (reason) throw new AvailabilityError(reason, 409);
+
+    await Promise.all(ctx.holds.filter(h => h.farmerId === farmerId).map(h => AvailabilityHoldService.delete(h.id)));
+    const now = new Date();
+    const hold: AvailabilityHold = {
+        id: `HOLD-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+        itemId,
+        farmerId,
+        date: request.date,
+        startTime: request.startTime,
+        durationHours: request.durationHours,
+        expiresAt: new Date(now.getTime() + HOLD_MINUTES * 60 * 1000).toISOString(),
+        createdAt: now.toISOString()
+    };
+    await AvailabilityHoldService.create(hold);
+    return hold;
+}
+
+/**
+ * Release a hold. Only the farmer who placed it can release it; unknown holds are ignored.
+ */
+export async function releaseHold(holdId: string, farmerId: string): Promise<void> {
+    const hold = await AvailabilityHoldService.getById(holdId);
+    if (!hold) return;
+    if (hold.farmerId !== farmerId) throw new AvailabilityError('This hold belongs to someone else', 403);
+    await AvailabilityHoldService.delete(holdId);
+}
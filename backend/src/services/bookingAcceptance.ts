@@ -0,0 +1,211 @@
+import { Booking, BookingStatus, BookingStatusChange, Item, ItemCategory } from '../types';
+import { BookingService, ItemService, NotificationService } from './firestore';
+import { findUnavailableReason, loadAvailabilityContext } from './availability';
+import { recordBookingEvent } from './bookingEvents';
+import { isSplitParent, transitionBooking } from './bookingStateMachine';
+import { quoteBooking, QuoteError } from './quotes';
+import { calculatePurposeCharge } from './unitPricing';
+
+/**
+ * Booking Acceptance
+ *
+ * A supplier taking a booking from the app: a broadcast picked from the job list, a direct
+ * request addressed to them, or the driver's seat of a machine booked without its owner
+ * operating it. The price is worked out on the server for the accepting item (quotes.ts),
+ * and the booking is re-checked and assigned in one transaction through the state machine,
+ * so of two suppliers accepting at once only the first gets it.
+ *
+ * Dispatch offers are accepted through dispatcher.ts and split bookings are taken in
+ * shares (splitFulfilment.ts).
+ */
+
+const DEFAULT_JOB_HOURS = 3;
+
+// Machines booked with an operator: the owner drives, or the job waits for a driver
+const OPERATED_CATEGORIES: ItemCategory[] = [ItemCategory.Tractors, ItemCategory.Harvesters, ItemCategory.JCB, ItemCategory.Borewell];
+
+export class BookingAcceptanceError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'BookingAcceptanceError';
+    }
+}
+
+export interface AcceptBookingOptions {
+    operateSelf?: boolean;           // false: the owner of a machine booked with an operator leaves the driving to a driver
+    actorRole?: string;
+}
+
+/**
+ * Whether the supplier can still take the booking
+ */
+const isOpenTo = (booking: Booking, supplierId: string): boolean => {
+    if (booking.status === 'Searching') return !booking.supplierId;
+    if (booking.status === 'Pending Confirmation') return booking.supplierId === supplierId;
+    if (booking.status === 'Awaiting Operator') return !booking.operatorId;
+    return false;
+};
+
+/**
+ * The status the booking moves to and the assignment and price that go with it
+ */
+async function buildAcceptance(
+    booking: Booking,
+    item: Item,
+    supplierId: string,
+    operateSelf?: boolean
+): Promise<{ status: BookingStatus; updates: Partial<Booking> }> {
+    const hours = Math.max(1, booking.estimatedDuration || DEFAULT_JOB_HOURS);
+
+    // A driver adds their hours to the price the machine was confirmed at
+    if (booking.status === 'Awaiting Operator') {
+        if (item.category !== ItemCategory.Drivers) throw new BookingAcceptanceError('This booking is waiting for a driver');
+        const driverCharge = item.purposes[0] ? calculatePurposeCharge(item.purposes[0], { hours }) : 0;
+        return { status: 'Confirmed', updates: { operatorId: supplierId, finalPrice: (booking.finalPrice || 0) + driverCharge } };
+    }
+
+    const purpose = item.purposes.find(p => p.name === booking.workPurpose);
+    if (!purpose) throw new BookingAcceptanceError('This item does not support the requested work purpose');
+
+    const needsOperator = !!booking.operatorRequired && OPERATED_CATEGORIES.includes(item.category);
+    const waitsForDriver = needsOperator && booking.status === 'Searching' && operateSelf === false;
+
+    let quote;
+    try {
+        quote = await quoteBooking({
+            farmerId: String(booking.farmerId),
+            itemCategory: booking.itemCategory,
+            workPurpose: purpose.name,
+            itemId: item.id,
+            date: booking.date,
+            estimatedDuration: hours,
+            acres: booking.acres,
+            quantity: booking.quantity,
+            operatorRequired: !!booking.operatorRequired && !waitsForDriver,
+            locationCoords: booking.locationCoords
+        });
+    } catch (e) {
+        if (e instanceof QuoteError) throw new BookingAcceptanceError(e.message, e.statusCode);
+        throw e;
+    }
+    const itemQuote = quote.items[0];
+
+    return {
+        status: waitsForDriver ? 'Awaiting Operator' : 'Confirmed',
+        updates: {
+            supplierId,
+            itemId: item.id,
+            // A coupon discount fixed at booking time comes off the accepted price
+            finalPrice: Math.max(0, itemQuote.total - (booking.discountAmount || 0)),
+            pricingUnit: itemQuote.pricingUnit,
+            unitPrice: itemQuote.unitPrice,
+            ...(itemQuote.minimumCharge ? { minimumCharge: itemQuote.minimumCharge } : {}),
+            ...(needsOperator && operateSelf === true ? { operatorId: supplierId } : {})
+        }
+    };
+}
+
+const acceptanceMessage = (booking: Booking, item: Item, status: BookingStatus): string => {
+    if (booking.status === 'Awaiting Operator') return `A driver has been found for your ${booking.itemCategory} booking on ${booking.date}!`;
+    if (status === 'Awaiting Operator') return `${item.name} is confirmed for your booking on ${booking.date}. We are now finding a driver.`;
+    return `Your request for ${item.name} on ${booking.date} has been confirmed!`;
+};
+
+/**
+ * Supplier (or driver) accepts a booking with one of their items. Returns the updated booking.
+ */
+export async function acceptBooking(
+    bookingId: string,
+    supplierId: string,
+    itemId: number,
+    options: AcceptBookingOptions = {}
+): Promise<Booking> {
+    const booking = await BookingService.getById(bookingId);
+    if (!booking) throw new BookingAcceptanceError('Booking not found', 404);
+    if (isSplitParent(booking)) throw new BookingAcceptanceError('This booking is shared between suppliers; take a share of it instead', 409);
+    if (String(booking.farmerId) === supplierId) throw new BookingAcceptanceError('You cannot accept your own booking');
+    if (!isOpenTo(booking, supplierId)) throw new BookingAcceptanceError('This job has already been taken by another supplier.', 409);
+
+    const item = await ItemService.getById(itemId);
+    if (!item || String(item.ownerId) !== supplierId) throw new BookingAcceptanceError('Item not found', 404);
+    if (item.status !== 'approved' || item.available === false) throw new BookingAcceptanceError('This item is not available', 409);
+    if (booking.status !== 'Awaiting Operator') {
+        if (item.category !== booking.itemCategory) throw new BookingAcceptanceError(`This booking needs a ${booking.itemCategory} item`);
+        if (booking.quantity && item.quantityAvailable !== undefined && item.quantityAvailable < booking.quantity) {
+            throw new BookingAcceptanceError(`You only have ${item.quantityAvailable} available`, 409);
+        }
+    }
+
+    // The item's calendar and daily working-hours limit, as for any accepted job
+    const unavailable = findUnavailableReason(await loadAvailabilityContext(item), {
+        date: booking.date,
+        startTime: booking.startTime,
+        durationHours: booking.estimatedDuration || DEFAULT_JOB_HOURS,
+        excludeBookingId: booking.id,
+        farmerId: String(booking.farmerId)
+    });
+    if (unavailable) throw new BookingAcceptanceError(unavailable, 409);
+
+    const acceptance = await buildAcceptance(booking, item, supplierId, options.operateSelf);
+
+    // Re-checked on a fresh read; pending dispatch offers lapse, the same as when an offer is accepted
+    let transition: BookingStatusChange | undefined;
+    const updated = await BookingService.updateInTransaction(bookingId, async current => {
+        if (!current || !isOpenTo(current, supplierId)) {
+            throw new BookingAcceptanceError('This job has already been taken by another supplier.', 409);
+        }
+        const settledOffers = (current.dispatchOffers || []).map(o => {
+            if (o.status !== 'pending') return o;
+            return { ...o, status: o.supplierId === supplierId ? 'accepted' as const : 'superseded' as const };
+        });
+
+        const result = await transitionBooking(current, acceptance.status, {
+            ...acceptance.updates,
+            ...(current.dispatchOffers ? { dispatchOffers: settledOffers } : {})
+        }, { id: supplierId, ...(options.actorRole ? { role: options.actorRole } : {}) });
+        transition = result.transition;
+        return result.updates;
+    });
+
+    const itemUpdates: Partial<Item> = { available: false };
+    if (booking.status !== 'Awaiting Operator' && booking.quantity && item.quantityAvailable !== undefined) {
+        itemUpdates.quantityAvailable = Math.max(0, item.quantityAvailable - booking.quantity);
+        itemUpdates.available = itemUpdates.quantityAvailable > 0;
+    }
+    await ItemService.update(item.id, itemUpdates);
+
+    await recordBookingEvent(bookingId, 'status_changed', {
+        actorId: supplierId,
+        actorRole: options.actorRole,
+        fromStatus: transition!.from,
+        toStatus: transition!.to,
+        changedFields: ['status', ...Object.keys(acceptance.updates), ...(booking.dispatchOffers ? ['dispatchOffers'] : [])],
+        note: booking.status === 'Awaiting Operator' ? 'Accepted as driver' : `Accepted with ${item.name}`
+    });
+
+    await NotificationService.create({
+        id: Date.now(),
+        userId: booking.farmerId,
+        message: acceptanceMessage(booking, item, acceptance.status),
+        type: 'booking',
+        category: 'booking',
+        priority: 'high',
+        read: false,
+        timestamp: new Date().toISOString()
+    });
+    if (booking.status === 'Awaiting Operator' && booking.supplierId) {
+        await NotificationService.create({
+            id: Date.now() + 1,
+            userId: booking.supplierId,
+            message: `A driver has accepted the operator job for booking ${booking.id}.`,
+            type: 'booking',
+            category: 'booking',
+            priority: 'medium',
+            read: false,
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    console.log(`[BookingAcceptance] Booking ${bookingId} accepted by ${supplierId} (${transition!.from} -> ${transition!.to})`);
+    return updated;
+}
@@ -0,0 +1,63 @@
+import { BookingEventService, Updates } from './firestore';
+import { Booking, BookingEvent, BookingEventType, BookingStatus } from '../types';
+
+/**
+ * Booking Event Log
+ *
+ * Every change to a booking is appended to the booking_events collection so
+ * support staff can reconstruct who did what and when. Recording is best-effort:
+ * a failed write is logged but never blocks the booking change itself.
+ */
+
+export interface BookingEventDetails {
+    actorId: string;
+    actorRole?: string;
+    fromStatus?: BookingStatus;
+    toStatus?: BookingStatus;
+    changedFields?: string[];
+    note?: string;
+}
+
+export const SYSTEM_ACTOR = 'system';
+
+/**
+ * Append an event for a booking
+ */
+export async function recordBookingEvent(
+    bookingId: string,
+    type: BookingEventType,
+    details: BookingEventDetails
+): Promise<BookingEvent | null> {
+    const event: BookingEvent = {
+        id: `${bookingId}-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+        bookingId,
+        type,
+        actorId: details.actorId,
+        timestamp: new Date().toISOString()
+    };
+
+    // Firestore rejects undefined values, so only copy what is set
+    if (details.actorRole) event.actorRole = details.actorRole;
+    if (details.fromStatus) event.fromStatus = details.fromStatus;
+    if (details.toStatus) event.toStatus = details.toStatus;
+    if (details.changedFields && details.changedFields.length > 0) event.changedFields = details.changedFields;
+    if (details.note) event.note = details.note;
+
+    try {
+        await BookingEventService.create(event);
+        return event;
+    } catch (error) {
+        console.error(`[BookingEvents] Failed to record ${type} for booking ${bookingId}:`, error);
+        return null;
+    }
+}
+
+/**
+ * List the booking fields an update actually changes (statusHistory is bookkeeping and skipped)
+ */
+export function getChangedFields(before: Booking, updates: Updates<Booking>): string[] {
+    return (Object.keys(updates) as (keyof Booking)[]).filter(key => {
+        if (key === 'statusHistory') return false;
+        return JSON.stringify(before[key] ?? null) !== JSON.stringify(updates[key] ?? null);
+    });
+}
@@ -0,0 +1,398 @@
+import { Booking, BookingStatus, RecurrenceRule } from '../types';
+import { AvailabilityHoldService, BookingService, ItemService, UserService, NotificationService } from './firestore';
+import { findUnavailableReason, isHoldLive } from './availability';
+import { recordBookingEvent } from './bookingEvents';
+import { transitionBooking, BookingTransitionError, TransitionActor } from './bookingStateMachine';
+import { dispatchBooking } from './dispatcher';
+
+/**
+ * Recurring Booking Series
+ *
+ * Seasonal jobs (daily spraying, weekly weeding, a set of harvest dates) are booked
+ * once and expanded into one ordinary booking per date. The occurrences share a
+ * recurrenceId and otherwise go through the normal lifecycle on their own: each one
+ * is dispatched, confirmed, started and paid separately.
+ *
+ * Series-level actions apply to every occurrence still ahead of the field work:
+ * the farmer can cancel or move the rest of the series, and a supplier can accept
+ * all open occurrences in one go (each date is still checked against their daily
+ * capacity, and dates that don't fit are skipped rather than failing the lot).
+ */
+
+export const MAX_SERIES_OCCURRENCES = 30;
+const MAX_SERIES_SPAN_DAYS = 366;
+const DEFAULT_JOB_HOURS = 3;
+
+// Occurrences a series action can still change; anything later has work under way
+const UPCOMING_STATUSES: BookingStatus[] = ['Searching', 'Pending Confirmation', 'Confirmed'];
+
+export class BookingSeriesError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'BookingSeriesError';
+    }
+}
+
+export interface SeriesAcceptResult {
+    accepted: Booking[];
+    skipped: { bookingId: string; date: string; reason: string }[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value: string): boolean => DATE_PATTERN.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+const addDays = (date: string, days: number): string => {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0];
+};
+
+const today = (): string => new Date().toISOString().split('T')[0];
+
+/**
+ * Dates a recurrence rule produces, earliest first. Throws BookingSeriesError on an invalid rule. Pure apart from "today".
+ */
+export function expandRecurrence(rule: RecurrenceRule): string[] {
+    if (!rule || !['daily', 'weekly', 'custom'].includes(rule.frequency)) {
+        throw new BookingSeriesError('frequency must be daily, weekly or custom');
+    }
+
+    let dates: string[];
+    if (rule.frequency === 'custom') {
+        if (!Array.isArray(rule.dates) || rule.dates.some(d => !isValidDate(d))) {
+            throw new BookingSeriesError('dates must be a list of YYYY-MM-DD dates');
+        }
+        dates = Array.from(new Set(rule.dates)).sort();
+    } else {
+        if (!isValidDate(rule.startDate)) throw new BookingSeriesError('startDate must be a YYYY-MM-DD date');
+        if (rule.endDate !== undefined && (!isValidDate(rule.endDate) || rule.endDate < rule.startDate)) {
+            throw new BookingSeriesError('endDate must be a date on or after startDate');
+        }
+        if (!rule.occurrences && !rule.endDate) throw new BookingSeriesError('Give either occurrences or endDate');
+
+        const weekdays = rule.frequency === 'weekly'
+            ? (rule.daysOfWeek && rule.daysOfWeek.length > 0 ? rule.daysOfWeek : [new Date(`${rule.startDate}T00:00:00Z`).getUTCDay()])
+            : [0, 1, 2, 3, 4, 5, 6];
+        if (weekdays.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+            throw new BookingSeriesError('daysOfWeek must be numbers from 0 (Sunday) to 6 (Saturday)');
+        }
+
+        const limit = rule.occurrences || MAX_SERIES_OCCURRENCES + 1;
+        dates = [];
+        for (let offset = 0; offset < MAX_SERIES_SPAN_DAYS && dates.length < limit; offset++) {
+            const date = addDays(rule.startDate, offset);
+            if (rule.endDate && date > rule.endDate) break;
+            if (weekdays.includes(new Date(`${date}T00:00:00Z`).getUTCDay())) dates.push(date);
+        }
+    }
+
+    if (dates.length < 2) throw new BookingSeriesError('A series needs at least two dates');
+    if (dates.length > MAX_SERIES_OCCURRENCES) {
+        throw new BookingSeriesError(`A series can have at most ${MAX_SERIES_OCCURRENCES} dates`);
+    }
+    if (dates[0] < today()) throw new BookingSeriesError('Series dates cannot be in the past');
+    return dates;
+}
+
+/**
+ * Create one booking per date of the rule from a booking template. Returns the created occurrences.
+ */
+export async function createBookingSeries(template: Partial<Booking>, rule: RecurrenceRule): Promise<Booking[]> {
+    if (template.status !== 'Searching' && template.status !== 'Pending Confirmation') {
+        throw new BookingSeriesError('A series can only be created as a new request');
+    }
+    if (template.couponCode) throw new BookingSeriesError('Coupons cannot be applied to a booking series');
+
+    const dates = expandRecurrence(rule);
+    const recurrenceId = `RS-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+    const createdAt = new Date().toISOString();
+
+    // Client-side ids and discounts are not carried over to the occurrences
+    const { id: _id, discountAmount: _discount, couponCode: _coupon, ...base } = template;
+
+    const created: Booking[] = [];
+    for (const date of dates) {
+        const booking = {
+            ...base,
+            id: `AGB-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            date,
+            recurrenceId,
+            createdAt: base.createdAt || createdAt
+        } as Booking;
+        await BookingService.create(booking);
+        created.push(booking);
+
+        if (booking.status === 'Searching' && !booking.supplierId) {
+            dispatchBooking(booking.id);
+        }
+    }
+
+    if (template.status === 'Pending Confirmation' && template.supplierId) {
+        await NotificationService.create({
+            id: Date.now() + Math.random(),
+            userId: template.supplierId,
+            message: `New ${template.itemCategory} series request: ${dates.length} dates from ${dates[0]} to ${dates[dates.length - 1]}.`,
+            type: 'booking',
+            category: 'booking',
+            priority: 'high',
+            read: false,
+            timestamp: createdAt
+        });
+    }
+
+    console.log(`[BookingSeries] Created ${recurrenceId} with ${created.length} occurrences`);
+    return created;
+}
+
+/**
+ * Occurrences of a series, checking the caller may act on it as the farmer
+ */
+async function getSeriesForFarmer(recurrenceId: string, actor: TransitionActor, isStaff: boolean): Promise<Booking[]> {
+    const occurrences = await BookingService.getByRecurrenceId(recurrenceId);
+    if (occurrences.length === 0) throw new BookingSeriesError('Series not found', 404);
+
+    const first = occurrences[0];
+    const isOwner = actor.id === String(first.farmerId) || actor.id === String(first.bookedByAgentId);
+    if (!isOwner && !isStaff) throw new BookingSeriesError('Access denied', 403);
+    return occurrences;
+}
+
+const isUpcoming = (booking: Booking, fromDate: string): boolean =>
+    UPCOMING_STATUSES.includes(booking.status) && booking.date >= fromDate;
+
+/**
+ * Cancel every upcoming occurrence of a series (optionally only from a date onwards).
+ * Each cancellation runs through the state machine, so fees and refunds apply per occurrence.
+ */
+export async function cancelSeries(
+    recurrenceId: string,
+    actor: TransitionActor,
+    options: { fromDate?: string; isStaff?: boolean } = {}
+): Promise<Booking[]> {
+    const occurrences = await getSeriesForFarmer(recurrenceId, actor, !!options.isStaff);
+    const fromDate = options.fromDate && isValidDate(options.fromDate) ? options.fromDate : today();
+
+    // Staff cancel on the farmer's behalf, so the occurrence closes instead of being re-broadcast
+    const cancelActor: TransitionActor = options.isStaff && actor.id !== String(occurrences[0].farmerId)
+        ? { id: String(occurrences[0].farmerId), role: actor.role }
+        : actor;
+
+    const cancelled: Booking[] = [];
+    for (const booking of occurrences.filter(b => isUpcoming(b, fromDate))) {
+        try {
+            const { transition, updates } = await transitionBooking(booking, 'Cancelled', {}, cancelActor);
+            const updated = await BookingService.update(booking.id, updates);
+            await recordBookingEvent(booking.id, 'status_changed', {
+                actorId: actor.id,
+                actorRole: actor.role,
+                fromStatus: transition.from,
+                toStatus: transition.to,
+                changedFields: ['status'],
+                note: `Series ${recurrenceId} cancelled`
+            });
+            if (updated) cancelled.push(updated);
+
+            if (booking.supplierId && booking.status === 'Confirmed') {
+                await NotificationService.create({
+                    id: Date.now() + Math.random(),
+                    userId: booking.supplierId,
+                    message: `The ${booking.itemCategory} booking on ${booking.date} was cancelled by the farmer (series cancelled).`,
+                    type: 'booking',
+                    category: 'booking',
+                    priority: 'high',
+                    read: false,
+                    timestamp: new Date().toISOString()
+                });
+            }
+        } catch (err) {
+            // An occurrence that moved on in the meantime is left as it is
+            if (!(err instanceof BookingTransitionError)) throw err;
+            console.warn(`[BookingSeries] Skipped cancelling ${booking.id}: ${err.message}`);
+        }
+    }
+
+    console.log(`[BookingSeries] Cancelled ${cancelled.length} occurrences of ${recurrenceId}`);
+    return cancelled;
+}
+
+/**
+ * Move every upcoming occurrence of a series to a new start time and/or shift it by whole days.
+ * Occurrences that already have a supplier keep them, provided the supplier still has capacity on the new date.
+ */
+export async function rescheduleSeries(
+    recurrenceId: string,
+    actor: TransitionActor,
+    changes: { startTime?: string; shiftDays?: number },
+    isStaff: boolean = false
+): Promise<Booking[]> {
+    const { startTime, shiftDays = 0 } = changes;
+    if (startTime !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(startTime)) {
+        throw new BookingSeriesError('startTime must be HH:MM');
+    }
+    if (!Number.isInteger(shiftDays) || Math.abs(shiftDays) > 60) {
+        throw new BookingSeriesError('shiftDays must be a whole number of days (up to 60)');
+    }
+    if (!startTime && !shiftDays) throw new BookingSeriesError('Nothing to change');
+
+    const occurrences = await getSeriesForFarmer(recurrenceId, actor, isStaff);
+    const upcoming = occurrences.filter(b => isUpcoming(b, today()));
+    if (upcoming.length === 0) throw new BookingSeriesError('No upcoming occurrences to reschedule', 409);
+
+    const moves = upcoming.map(b => ({ booking: b, date: addDays(b.date, shiftDays) }));
+    if (moves.some(m => m.date < today())) throw new BookingSeriesError('Rescheduled dates cannot be in the past');
+
+    // Assigned items must be free on the new dates and times (the moved occurrences themselves don't count)
+    const movingIds = new Set(upcoming.map(b => b.id));
+    const others = (await BookingService.getAll()).filter(b => !movingIds.has(b.id));
+    for (const { booking, date } of moves) {
+        if (!booking.supplierId || !booking.itemId || booking.status !== 'Confirmed') continue;
+        const item = await ItemService.getById(booking.itemId);
+        if (!item) continue;
+        const [supplier, holds] = await Promise.all([UserService.getById(item.ownerId), AvailabilityHoldService.getByItem(item.id)]);
+        const reason = findUnavailableReason({ item, supplier, bookings: others, holds: holds.filter(h => isHoldLive(h)) }, {
+            date,
+            startTime: startTime || booking.startTime,
+            durationHours: booking.estimatedDuration || DEFAULT_JOB_HOURS,
+            farmerId: String(booking.farmerId)
+        });
+        if (reason) {
+            throw new BookingSeriesError(`Can't move the ${booking.date} occurrence to ${date}: ${reason}. Cancel that occurrence or pick another shift`, 409);
+        }
+    }
+
+    const rescheduled: Booking[] = [];
+    for (const { booking, date } of moves) {
+        const updates: Partial<Booking> = {
+            ...(shiftDays ? { date } : {}),
+            ...(startTime ? { startTime } : {})
+        };
+        const updated = await BookingService.update(booking.id, updates);
+        await recordBookingEvent(booking.id, 'updated', {
+            actorId: actor.id,
+            actorRole: actor.role,
+            changedFields: Object.keys(updates),
+            note: `Series ${recurrenceId} rescheduled`
+        });
+        if (updated) rescheduled.push(updated);
+
+        if (booking.supplierId && booking.status !== 'Searching') {
+            await NotificationService.create({
+                id: Date.now() + Math.random(),
+                userId: booking.supplierId,
+                message: `The ${booking.itemCategory} booking on ${booking.date} has moved to ${date} at ${startTime || booking.startTime}.`,
+                type: 'booking',
+                category: 'booking',
+                priority: 'high',
+                read: false,
+                timestamp: new Date().toISOString()
+            });
+        }
+    }
+
+    console.log(`[BookingSeries] Rescheduled ${rescheduled.length} occurrences of ${recurrenceId}`);
+    return rescheduled;
+}
+
+/**
+ * Supplier accepts the open occurrences of a series (all of them, or the ids given) with one of their items.
+ * Dates the item can't take are skipped and reported back.
+ */
+export async function acceptSeries(
+    recurrenceId: string,
+    supplierId: string,
+    itemId: number,
+    options: { bookingIds?: string[]; actorRole?: string } = {}
+): Promise<SeriesAcceptResult> {
+    const occurrences = await BookingService.getByRecurrenceId(recurrenceId);
+    if (occurrences.length === 0) throw new BookingSeriesError('Series not found', 404);
+
+    const item = await ItemService.getById(itemId);
+    if (!item || String(item.ownerId) !== supplierId) throw new BookingSeriesError('Item not found', 404);
+    if (item.status !== 'approved') throw new BookingSeriesError('This item is not approved yet', 409);
+    if (item.category !== occurrences[0].itemCategory) {
+        throw new BookingSeriesError(`This series needs a ${occurrences[0].itemCategory} item`);
+    }
+    if (occurrences[0].workPurpose && !item.purposes.some(p => p.name === occurrences[0].workPurpose)) {
+        throw new BookingSeriesError('This item does not support the requested work purpose');
+    }
+
+    const [supplier, holds] = await Promise.all([UserService.getById(parseInt(supplierId)), AvailabilityHoldService.getByItem(itemId)]);
+    const liveHolds = holds.filter(h => isHoldLive(h));
+
+    // Open to this supplier: broadcasts, or direct requests addressed to them
+    const candidates = occurrences.filter(b =>
+        (!options.bookingIds || options.bookingIds.includes(b.id)) &&
+        b.date >= today() &&
+        (b.status === 'Searching' || (b.status === 'Pending Confirmation' && b.supplierId === supplierId))
+    );
+    if (candidates.length === 0) throw new BookingSeriesError('No open occurrences left in this series', 409);
+
+    // Accepted occurrences are added as we go so later dates see the hours already taken
+    let bookings = await BookingService.getAll();
+    const result: SeriesAcceptResult = { accepted: [], skipped: [] };
+
+    for (const booking of candidates) {
+        const skip = (reason: string) => result.skipped.push({ bookingId: booking.id, date: booking.date, reason });
+
+        if (String(booking.farmerId) === supplierId) { skip('You cannot accept your own booking'); continue; }
+        if (booking.quantity && item.quantityAvailable !== undefined && item.quantityAvailable < booking.quantity) {
+            skip('Not enough quantity available'); continue;
+        }
+        const unavailable = findUnavailableReason({ item, supplier, bookings, holds: liveHolds }, {
+            date: booking.date,
+            startTime: booking.startTime,
+            durationHours: booking.estimatedDuration || DEFAULT_JOB_HOURS,
+            excludeBookingId: booking.id,
+            farmerId: String(booking.farmerId)
+        });
+        if (unavailable) { skip(unavailable); continue; }
+
+        // Pending dispatch offers lapse, the same as when a single offer is accepted
+        const settledOffers = (booking.dispatchOffers || []).map(o => {
+            if (o.status !== 'pending') return o;
+            return { ...o, status: o.supplierId === supplierId ? 'accepted' as const : 'expired' as const };
+        });
+
+        try {
+            const { transition, updates } = await transitionBooking(booking, 'Confirmed', {
+                supplierId,
+                itemId,
+                ...(booking.dispatchOffers ? { dispatchOffers: settledOffers } : {})
+            }, { id: supplierId, ...(options.actorRole ? { role: options.actorRole } : {}) });
+
+            const updated = await BookingService.update(booking.id, updates);
+            await recordBookingEvent(booking.id, 'status_changed', {
+                actorId: supplierId,
+                actorRole: options.actorRole,
+                fromStatus: transition.from,
+                toStatus: transition.to,
+                changedFields: Object.keys(updates).filter(k => k !== 'statusHistory'),
+                note: `Accepted as part of series ${recurrenceId}`
+            });
+            if (updated) {
+                result.accepted.push(updated);
+                bookings = bookings.map(b => (b.id === updated.id ? updated : b));
+            }
+        } catch (err) {
+            if (!(err instanceof BookingTransitionError)) throw err;
+            skip('Already taken');
+        }
+    }
+
+    if (result.accepted.length > 0) {
+        await NotificationService.create({
+            id: Date.now() + Math.random(),
+            userId: occurrences[0].farmerId,
+            message: `${item.name}'s owner confirmed ${result.accepted.length} of your ${item.category} series bookings (${result.accepted.map(b => b.date).join(', ')}).`,
+            type: 'booking',
+            category: 'booking',
+            priority: 'high',
+            read: false,
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    console.log(`[BookingSeries] Supplier ${supplierId} accepted ${result.accepted.length}, skipped ${result.skipped.length} of ${recurrenceId}`);
+    return result;
+}
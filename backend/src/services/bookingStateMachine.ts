@@ -0,0 +1,161 @@
+import { Booking, BookingStatus, BookingStatusChange, BookingTransitionReason, UserRole } from '../types';
+import type { Updates } from './firestore';
+
+/**
+ * Booking Lifecycle State Machine
+ *
+ * Declares which status changes are legal for a Booking and runs the
+ * registered side effects (hooks) for each transition. This module has no
+ * Firestore dependency so the lifecycle can be exercised in isolation;
+ * persistence is left to the caller.
+ */
+
+// Allowed transitions: from -> [to]
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+    'Searching': ['Pending Confirmation', 'Awaiting Operator', 'Confirmed', 'Cancelled', 'Expired'],
+    'Pending Confirmation': ['Confirmed', 'Searching', 'Cancelled', 'Expired'],
+    'Awaiting Operator': ['Confirmed', 'Searching', 'Cancelled'],
+    'Confirmed': ['Arrived', 'Searching', 'Cancelled'],
+    'Arrived': ['In Process', 'Cancelled'],
+    'In Process': ['Pending Payment', 'Completed'],
+    'Pending Payment': ['Completed'],
+    'Completed': [],
+    'Cancelled': [],
+    'Expired': [],
+};
+
+// Extra moves for a split booking's parent: it does no field work itself and is
+// closed by the server once every share has finished
+export const SPLIT_PARENT_TRANSITIONS: Partial<Record<BookingStatus, BookingStatus[]>> = {
+    'Confirmed': ['Completed'],
+};
+
+export const isSplitParent = (booking: Booking): boolean => !!booking.allowMultipleSuppliers && booking.splitTotal !== undefined;
+
+export interface TransitionActor {
+    id: string;
+    role?: string;
+}
+
+export interface TransitionContext {
+    booking: Booking; // Booking as it was before the transition
+    transition: BookingStatusChange;
+    updates: Updates<Booking>; // Mutable - hooks may add (or FieldValue.delete()) fields to persist
+}
+
+export type TransitionHook = (ctx: TransitionContext) => Promise<void>;
+
+interface HookRegistration {
+    name: string;
+    from?: BookingStatus[]; // Any source status if omitted
+    to: BookingStatus[];
+    reason?: BookingTransitionReason; // Only run for transitions with this reason
+    run: TransitionHook;
+}
+
+const hooks: HookRegistration[] = [];
+
+/**
+ * Thrown when a requested status change is not allowed from the current status
+ */
+export class BookingTransitionError extends Error {
+    constructor(public readonly from: BookingStatus, public readonly to: BookingStatus) {
+        super(`Cannot move booking from '${from}' to '${to}'`);
+        this.name = 'BookingTransitionError';
+    }
+}
+
+/**
+ * Register a side effect to run when a matching transition happens.
+ * Hooks run sequentially in registration order.
+ */
+export const registerTransitionHook = (registration: HookRegistration): void => {
+    hooks.push(registration);
+};
+
+export const canTransition = (from: BookingStatus, to: BookingStatus): boolean => {
+    return (BOOKING_TRANSITIONS[from] || []).includes(to);
+};
+
+/**
+ * Map the status a client asked for onto the status the booking actually moves to.
+ * A cancellation by the farmer (or the agent who booked for them) closes the booking.
+ * A cancellation by the assigned supplier or operator of a Confirmed / Pending Confirmation
+ * booking is a supplier cancellation: the booking is re-broadcast to the pool instead of closed.
+ * A split share is closed instead; its acres go back to the parent, which is re-broadcast.
+ * Staff close the booking without a penalty for either side.
+ */
+export const resolveRequestedStatus = (
+    booking: Booking,
+    requested: BookingStatus,
+    actor?: TransitionActor
+): { status: BookingStatus; reason?: BookingTransitionReason } => {
+    if (requested !== 'Cancelled') return { status: requested };
+
+    if (actor && (actor.id === String(booking.farmerId) || actor.id === String(booking.bookedByAgentId))) {
+        return { status: 'Cancelled', reason: 'farmer_cancellation' };
+    }
+    const isAssigned = actor && (actor.id === booking.supplierId || actor.id === booking.operatorId);
+    if (isAssigned && booking.supplierId && (booking.status === 'Confirmed' || booking.status === 'Pending Confirmation')) {
+        return { status: booking.parentBookingId ? 'Cancelled' : 'Searching', reason: 'supplier_cancellation' };
+    }
+    if (actor && (actor.role === UserRole.Admin || actor.role === UserRole.Founder)) {
+        return { status: 'Cancelled', reason: 'admin_cancellation' };
+    }
+    return { status: requested };
+};
+
+/**
+ * The supplier a supplier cancellation counts against: whoever made it (the booking's supplier or
+ * its operator). Used both live and when penalty events are re-derived from the status history.
+ */
+export const cancellingSupplierId = (change: BookingStatusChange): string | null =>
+    change.reason === 'supplier_cancellation' ? change.changedBy : null;
+
+const hookMatches = (hook: HookRegistration, transition: BookingStatusChange): boolean => {
+    if (hook.from && !hook.from.includes(transition.from)) return false;
+    if (!hook.to.includes(transition.to)) return false;
+    if (hook.reason && hook.reason !== transition.reason) return false;
+    return true;
+};
+
+/**
+ * Validate and apply a status change.
+ * Returns the full set of updates to persist (caller's updates + hook output + history entry).
+ * Throws BookingTransitionError if the change is illegal.
+ */
+export const transitionBooking = async (
+    booking: Booking,
+    requested: BookingStatus,
+    updates: Updates<Booking>,
+    actor: TransitionActor
+): Promise<{ transition: BookingStatusChange; updates: Updates<Booking> }> => {
+    const { status: to, reason } = resolveRequestedStatus(booking, requested, actor);
+
+    const splitParentMove = isSplitParent(booking) && (SPLIT_PARENT_TRANSITIONS[booking.status] || []).includes(to);
+    if (!canTransition(booking.status, to) && !splitParentMove) {
+        throw new BookingTransitionError(booking.status, to);
+    }
+
+    // Firestore rejects undefined values, so optional fields are only set when present
+    const transition: BookingStatusChange = {
+        from: booking.status,
+        to,
+        changedBy: actor.id,
+        changedAt: new Date().toISOString(),
+        ...(actor.role ? { changedByRole: actor.role } : {}),
+        ...(reason ? { reason } : {}),
+    };
+
+    const nextUpdates: Updates<Booking> = { ...updates, status: to };
+
+    for (const hook of hooks) {
+        if (!hookMatches(hook, transition)) continue;
+        console.log(`[BookingStateMachine] Running hook '${hook.name}' for ${booking.id} (${transition.from} -> ${transition.to})`);
+        await hook.run({ booking, transition, updates: nextUpdates });
+    }
+
+    nextUpdates.statusHistory = [...(booking.statusHistory || []), transition];
+
+    return { transition, updates: nextUpdates };
+};
@@ -1,5 +1,11 @@
 import { BookingService, UserService, NotificationService } from './firestore';
-import { Booking, Notification } from '../types';
+import { Booking, BookingStatus, BookingStatusChange, Notification } from '../types';
+import { getChangedFields, recordBookingEvent, SYSTEM_ACTOR } from './bookingEvents';
+import { createCancellationRefund } from './cancellationPolicy';
+import { isSplitParent, transitionBooking } from './bookingStateMachine';
+import { closeOpenCapacity } from './splitFulfilment';
+import { isPaidByAdvance } from './payments';
+import { hasPendingMeasurement } from './measuredAcres';
 
 /**
  * Check for bookings that have been in "Searching" status for more than 6 hours
@@ -35,6 +41,11 @@ export async function checkBookingTimeouts(): Promise<void> {
 
             // Mark as notified
             await BookingService.update(booking.id, { searchTimeoutNotified: true });
+            await recordBookingEvent(booking.id, 'search_timeout', {
+                actorId: SYSTEM_ACTOR,
+                changedFields: ['searchTimeoutNotified'],
+                note: 'Still searching after 6 hours; farmer and admins notified'
+            });
             console.log(`[Timeout Checker] Processed booking ${booking.id}`);
         }
 
@@ -118,6 +129,14 @@ export async function checkExpiredBookings(): Promise<void> {
             const timeUntilStart = bookingDateTime.getTime() - now.getTime();
             const hoursUntilStart = timeUntilStart / (1000 * 60 * 60);
 
+            // A split booking that some suppliers already took goes ahead with what is covered
+            if (isSplitParent(booking) && (booking.splitAllocated || 0) > 0) {
+                if (hoursUntilStart <= 0) {
+                    await closeOpenCapacity(booking.id, 'Start time reached; going ahead with the suppliers already assigned');
+                }
+                continue;
+            }
+
             const alertCount = booking.adminAlertCount || 0;
             const lastAlertTime = booking.lastAdminAlertTime ? new Date(booking.lastAdminAlertTime) : null;
 
@@ -193,6 +212,12 @@ async function sendAdminUrgentAlert(booking: Booking, alertNumber: number, timeI
         await NotificationService.create(notification);
     }
 
+    await recordBookingEvent(booking.id, 'admin_alert', {
+        actorId: SYSTEM_ACTOR,
+        changedFields: ['adminAlertCount', 'lastAdminAlertTime'],
+        note: `Admin alert ${alertNumber}/3 (starts in ${timeInfo})`
+    });
+
     console.log(`[Expiry Checker] Sent admin alert ${alertNumber}/3 for booking ${booking.id}`);
 }
 
@@ -200,8 +225,22 @@ async function sendAdminUrgentAlert(booking: Booking, alertNumber: number, timeI
  * Auto-cancel a booking and notify farmer/agent
  */
 async function autoCancelBooking(booking: Booking): Promise<void> {
+    // A paid advance is refunded in full - the farmer did nothing wrong
+    const refundId = await createCancellationRefund(booking, 'system', SYSTEM_ACTOR);
+
     // Update booking status to Cancelled
-    await BookingService.update(booking.id, { status: 'Cancelled' });
+    await BookingService.update(booking.id, {
+        status: 'Cancelled',
+        statusHistory: appendSystemStatusChange(booking, 'Cancelled'),
+        ...(refundId ? { refundId } : {})
+    });
+    await recordBookingEvent(booking.id, 'auto_cancelled', {
+        actorId: SYSTEM_ACTOR,
+        fromStatus: booking.status,
+        toStatus: 'Cancelled',
+        changedFields: ['status'],
+        note: 'No supplier accepted before the start time'
+    });
 
     // Notify farmer
     const farmerNotification: Notification = {
@@ -235,8 +274,23 @@ async function autoCancelBooking(booking: Booking): Promise<void> {
 }
 
 /**
- * Check for bookings that are past their end time + 24 hours and mark them as Completed
- * This ensures items become "Available" again
+ * The auto-cancel bypasses the state machine hooks (it refunds the advance itself) but is
+ * still added to the booking's statusHistory
+ */
+function appendSystemStatusChange(booking: Booking, to: BookingStatus): BookingStatusChange[] {
+    return [...(booking.statusHistory || []), {
+        from: booking.status,
+        to,
+        changedBy: SYSTEM_ACTOR,
+        changedAt: new Date().toISOString()
+    }];
+}
+
+/**
+ * Check for bookings that are past their end time + 24 hours and close them through the state machine.
+ * Finished work moves on to Pending Payment, or to Completed when the advance already paid for it, so
+ * the ledger only records money that was paid. Work that never started is cancelled, which refunds
+ * any advance and frees the item.
  */
 export async function checkAutoCompleteBookings(): Promise<void> {
     try {
@@ -244,65 +298,24 @@ export async function checkAutoCompleteBookings(): Promise<void> {
         const now = new Date();
         const allBookings = await BookingService.getAll();
 
-        // Filter for active bookings
+        // A split parent follows its shares (see splitFulfilment)
         const activeBookings = allBookings.filter(b =>
-            ['Confirmed', 'Arrived', 'In Process'].includes(b.status)
+            ['Confirmed', 'Arrived', 'In Process'].includes(b.status) && !isSplitParent(b)
         );
 
         for (const booking of activeBookings) {
-            // Determine end time
-            let endTime: Date | null = null;
-
-            if (booking.endTime && booking.date) {
-                // Parse date + endTime
-                try {
-                    const [h, m] = booking.endTime.split(':').map(Number);
-                    endTime = new Date(booking.date);
-                    endTime.setHours(h, m, 0, 0);
-                } catch (e) { console.error('Error parsing end time', e); }
-            } else if (booking.startTime && booking.estimatedDuration && booking.date) {
-                // Calculate from start + duration
-                try {
-                    const [h, m] = booking.startTime.split(':').map(Number);
-                    endTime = new Date(booking.date);
-                    endTime.setHours(h + booking.estimatedDuration, m, 0, 0);
-                } catch (e) { console.error('Error calculating end time', e); }
-            }
-
+            const endTime = getScheduledEnd(booking);
             if (!endTime) continue;
 
             // Check if 24 hours have passed since end time
             const hoursSinceEnd = (now.getTime() - endTime.getTime()) / (1000 * 60 * 60);
+            if (hoursSinceEnd < 24) continue;
 
-            if (hoursSinceEnd >= 24) {
-                await BookingService.update(booking.id, { status: 'Completed' });
-
-                // Notify
-                await NotificationService.create({
-                    id: Date.now() + Math.random(),
-                    userId: booking.farmerId,
-                    message: `Your booking for ${booking.itemCategory} has been auto-completed after 24 hours.`,
-                    type: 'booking',
-                    category: 'booking',
-                    priority: 'medium',
-                    read: false,
-                    timestamp: new Date().toISOString()
-                });
-
-                if (booking.supplierId) {
-                    await NotificationService.create({
-                        id: Date.now() + Math.random() + 1,
-                        userId: booking.supplierId,
-                        message: `Booking for ${booking.itemCategory} has been auto-completed after 24 hours. payment should be settled.`,
-                        type: 'booking',
-                        category: 'booking',
-                        priority: 'medium',
-                        read: false,
-                        timestamp: new Date().toISOString()
-                    });
-                }
-
-                console.log(`[Auto Complete] Auto-completed booking ${booking.id}`);
+            // One booking failing doesn't hold up the others
+            try {
+                await autoCloseBooking(booking);
+            } catch (error) {
+                console.error(`[Auto Complete] Could not close booking ${booking.id}:`, error);
             }
         }
     } catch (error) {
@@ -310,3 +323,86 @@ export async function checkAutoCompleteBookings(): Promise<void> {
     }
 }
 
+/**
+ * Scheduled end of a booking: its end time, or its start time plus the estimated duration
+ */
+function getScheduledEnd(booking: Booking): Date | null {
+    let endTime: Date | null = null;
+
+    if (booking.endTime && booking.date) {
+        // Parse date + endTime
+        try {
+            const [h, m] = booking.endTime.split(':').map(Number);
+            endTime = new Date(booking.date);
+            endTime.setHours(h, m, 0, 0);
+        } catch (e) { console.error('Error parsing end time', e); }
+    } else if (booking.startTime && booking.estimatedDuration && booking.date) {
+        // Calculate from start + duration
+        try {
+            const [h, m] = booking.startTime.split(':').map(Number);
+            endTime = new Date(booking.date);
+            endTime.setHours(h + booking.estimatedDuration, m, 0, 0);
+        } catch (e) { console.error('Error calculating end time', e); }
+    }
+    return endTime;
+}
+
+async function autoCloseBooking(booking: Booking): Promise<void> {
+    const started = booking.status === 'In Process';
+    if (started && hasPendingMeasurement(booking)) {
+        console.log(`[Auto Complete] Booking ${booking.id} is waiting for the farmer to review the measured acres`);
+        return;
+    }
+
+    const target: BookingStatus = !started ? 'Cancelled' : isPaidByAdvance(booking) ? 'Completed' : 'Pending Payment';
+    const { transition, updates } = await transitionBooking(
+        booking,
+        target,
+        target === 'Completed' ? { finalPaymentId: booking.advancePaymentId } : {},
+        { id: SYSTEM_ACTOR }
+    );
+    await BookingService.update(booking.id, updates);
+    await recordBookingEvent(booking.id, started ? 'auto_completed' : 'auto_cancelled', {
+        actorId: SYSTEM_ACTOR,
+        fromStatus: transition.from,
+        toStatus: transition.to,
+        changedFields: getChangedFields(booking, updates),
+        note: started ? '24 hours past scheduled end time' : 'Work never started; 24 hours past scheduled end time'
+    });
+
+    const farmerMessage = !started
+        ? `Your booking for ${booking.itemCategory} on ${booking.date} was closed because the work never started. Any advance paid is refunded.`
+        : target === 'Completed'
+            ? `Your booking for ${booking.itemCategory} has been auto-completed after 24 hours.`
+            : `Your booking for ${booking.itemCategory} has been marked as finished after 24 hours. Please pay the balance.`;
+    await NotificationService.create({
+        id: Date.now() + Math.random(),
+        userId: booking.farmerId,
+        message: farmerMessage,
+        type: 'booking',
+        category: 'booking',
+        priority: 'medium',
+        read: false,
+        timestamp: new Date().toISOString()
+    });
+
+    if (booking.supplierId) {
+        const supplierMessage = !started
+            ? `Booking for ${booking.itemCategory} on ${booking.date} was closed because the work never started.`
+            : target === 'Completed'
+                ? `Booking for ${booking.itemCategory} has been auto-completed after 24 hours.`
+                : `Booking for ${booking.itemCategory} has been marked as finished after 24 hours and is awaiting the farmer's payment.`;
+        await NotificationService.create({
+            id: Date.now() + Math.random() + 1,
+            userId: booking.supplierId,
+            message: supplierMessage,
+            type: 'booking',
+            category: 'booking',
+            priority: 'medium',
+            read: false,
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    console.log(`[Auto Complete] Booking ${booking.id}: ${transition.from} -> ${transition.to}`);
+}
@@ -0,0 +1,413 @@
+import { Booking, Item, StreakEvent, User } from '../types';
+import { FieldValue } from 'firebase-admin/firestore';
+import { UserService, ItemService, NotificationService, withUpdates } from './firestore';
+import { recordPenaltyEvent, syncLateArrivalPenalty, updateSupplierWAR } from './warRating';
+import { cancellingSupplierId, isSplitParent, registerTransitionHook, TransitionContext } from './bookingStateMachine';
+import { createCancellationRefund } from './cancellationPolicy';
+import { calculateBookingSplit, getFinanceSettings, isCashPayment, postBookingCompletion } from './ledger';
+import { syncSplitParent } from './splitFulfilment';
+import { remindServiceAfterCompletion } from './maintenance';
+import { applyCancellationPolicy } from './suspensionPolicy';
+import { awardMilestoneGuards, daysBetween, emptyStreak, recordStreakEvents, settleMissedDays, streakEvent, toDateKey } from './streaks';
+
+/**
+ * Booking Transition Side Effects
+ *
+ * WAR penalty events, streaks, suspensions, refunds, ledger postings, notifications, item availability
+ * and service reminders
+ * that used to live inline in PUT /api/bookings/:id. Each is registered with
+ * the booking state machine and runs only for the transition it belongs to.
+ */
+
+/**
+ * Deduct 50 streak points from a supplier, borrowing one streak day if points go negative
+ */
+export async function applyStreakPenalty(userId: string, reason: string) {
+    // In a transaction with the other streak writers (completion, guard purchase, daily settling)
+    const updated = await UserService.updateInTransaction(userId, user => {
+        if (!user || user.role !== 'Supplier') return null;
+
+        const streak = user.streak || emptyStreak();
+        let points = streak.points || 0;
+        let count = streak.currentCount;
+
+        // Deduct 50 points
+        points -= 50;
+
+        // Borrow from Streak Count if negative
+        if (points < 0) {
+            if (count > 0) {
+                count -= 1;
+                points += 100;
+                // e.g., 20 pts - 50 = -30. Need 30 more. Borrow 1 streak (100). Points become 70.
+            } else {
+                points = 0; // Floor at 0 if no streak to borrow
+            }
+        }
+
+        return { streak: { ...streak, currentCount: count, points } };
+    });
+    if (!updated) return;
+
+    const penalized = updated.streak!;
+    const { currentCount: count, points } = penalized;
+    await recordStreakEvents([streakEvent(userId, 'penalty', toDateKey(new Date()), penalized, `-50 pts: ${reason}`)]);
+
+    console.log(`[Penalty] Applied -50 pts to Supplier ${userId} for ${reason}. New: ${count} / ${points} pts`);
+
+    // Notify Supplier
+    await NotificationService.create({
+        id: Date.now() + Math.random(),
+        userId: userId,
+        message: `Penalty applied: -50 Streak Points due to ${reason}. Current Score: ${points}/100.`,
+        type: 'system',
+        category: 'performance',
+        priority: 'high',
+        read: false,
+        timestamp: new Date().toISOString()
+    });
+}
+
+/**
+ * Mark the item locked by a booking as available again and restore its quantity
+ */
+async function releaseBookingItem(booking: Booking): Promise<void> {
+    if (!booking.itemId) return;
+
+    const item = await ItemService.getById(booking.itemId);
+    if (!item) return;
+
+    const updateData: Partial<Item> = { available: true };
+    if (booking.quantity && item.quantityAvailable !== undefined) {
+        const currentQty = item.quantityAvailable || 0;
+        updateData.quantityAvailable = currentQty + (booking.quantity || 0);
+    }
+
+    await ItemService.update(booking.itemId, updateData);
+    console.log(`[BookingHooks] Restored availability for Item ${booking.itemId} (booking ${booking.id} -> ${booking.status})`);
+}
+
+/**
+ * Supplier cancelled a Confirmed / Pending Confirmation booking: re-broadcast it and penalize the supplier.
+ * A split share keeps its assignment; split-share-sync re-opens its acres on the parent.
+ */
+async function onSupplierCancellation({ booking, transition, updates }: TransitionContext): Promise<void> {
+    console.log(`[BookingHooks] Supplier cancellation on ${booking.id}: re-broadcasting to pool.`);
+
+    // Clear the assignment so the booking goes back to the pool
+    if (!booking.parentBookingId) {
+        Object.assign(updates, {
+            supplierId: FieldValue.delete(),
+            itemId: FieldValue.delete(),
+            otpCode: FieldValue.delete(),
+            otpVerified: false,
+            operatorId: FieldValue.delete(),
+            isRebroadcast: true
+        });
+    }
+
+    await NotificationService.create({
+        id: Date.now(),
+        userId: booking.farmerId,
+        message: booking.parentBookingId
+            ? `⚠️ A supplier dropped their share of your ${booking.itemCategory} booking. We are re-opening it to other suppliers.`
+            : `⚠️ Your supplier had to cancel. We are automatically looking for a new supplier for your ${booking.itemCategory} booking.`,
+        type: 'booking',
+        category: 'booking',
+        priority: 'high',
+        read: false,
+        timestamp: new Date().toISOString()
+    });
+
+    const supplierId = cancellingSupplierId(transition)!;
+    const supplier = await UserService.getById(supplierId);
+    if (!supplier) return;
+
+    // The cancellation counts against the WAR as a dated penalty event
+    await recordPenaltyEvent(supplierId, 'cancellation', booking.id, new Date().toISOString());
+    await updateSupplierWAR(supplierId);
+    const rated = await UserService.getById(supplierId);
+    console.log(`[BookingHooks] Cancellation penalty for Supplier ${supplierId}: rating ${supplier.avgRating} -> ${rated?.avgRating}`);
+
+    await NotificationService.create({
+        id: Date.now() + 1,
+        userId: supplierId,
+        message: `You cancelled a confirmed booking. This counts against your rating for 180 days (in full for the first 90); your rating is now ${rated?.avgRating ?? supplier.avgRating}.`,
+        type: 'system',
+        category: 'performance',
+        priority: 'high',
+        read: false,
+        timestamp: new Date().toISOString()
+    });
+
+    // Deduct 50 streak points for cancellation
+    await applyStreakPenalty(supplierId, 'Cancellation');
+
+    await applyCancellationPolicy(supplier, supplierId, 'supplier');
+}
+
+/**
+ * Farmer cancelled a booking that has no supplier yet
+ */
+async function onFarmerCancellation({ booking }: TransitionContext): Promise<void> {
+    if (booking.supplierId) return;
+
+    const farmer = await UserService.getById(parseInt(booking.farmerId));
+    if (farmer) {
+        await applyCancellationPolicy(farmer, booking.farmerId, 'farmer');
+    }
+}
+
+/**
+ * Work completed: daily work streak and performance points, WAR refresh
+ */
+async function onCompletion({ booking }: TransitionContext): Promise<void> {
+    if (!booking.supplierId) return;
+    const supplierId = booking.supplierId;
+
+    // --- STREAK & POINTS LOGIC START ---
+    // Read and written in one transaction, so a guard bought or a day settled meanwhile isn't lost
+    let streakEvents: StreakEvent[] = [];
+    const supplier = await UserService.updateInTransaction(supplierId, supplier => {
+        if (!supplier) return null;
+        streakEvents = [];
+        const dailyWorkStreakUpdate: Partial<User> = {
+            cancelledStreak: 0,
+            cancellationRun: []
+        };
+
+        // Only apply if NO disputes and NO damage
+        if (!booking.disputeRaised && !booking.damageReported) {
+            const today = toDateKey(new Date());
+            const currentStreak = supplier.streak || emptyStreak();
+
+            // 1. Daily Work Streak: days without work since the last job use up guards, and the
+            // streak starts again at the first one without a guard. A job that started within a
+            // day of the last one (multi-day work) bridges the gap.
+            const workStartDay = booking.workStartTime ? toDateKey(new Date(booking.workStartTime)) : null;
+            const bridged = !!currentStreak.lastWorkDate && !!workStartDay && daysBetween(currentStreak.lastWorkDate, workStartDay) <= 1;
+            const settled = bridged
+                ? { streak: currentStreak, events: [] }
+                : settleMissedDays(supplierId, currentStreak, today, supplier.blockedDates || []);
+            if (bridged && daysBetween(currentStreak.lastWorkDate!, today) > 1) {
+                console.log(`[BookingHooks] Streak Saved! Job started on ${workStartDay}, within a day of the last work`);
+            }
+
+            let newCount = settled.streak.currentCount;
+            let newPoints = settled.streak.points || 0;
+            let pointsAdded = 0;
+
+            if (currentStreak.lastWorkDate !== today) {
+                newCount += 1; // First job today (a streak that just ended starts again at 1)
+            }
+
+            // 2. Performance Points (5 points per hour, proportional)
+            let durationHours = booking.estimatedDuration || 3; // Fallback
+            if (booking.workStartTime && booking.workEndTime) {
+                const start = new Date(booking.workStartTime).getTime();
+                const end = new Date(booking.workEndTime).getTime();
+                durationHours = (end - start) / (1000 * 60 * 60);
+            } else if (booking.startTime && booking.endTime) {
+                // Try scheduled times if actuals not available (fallback for testing/manual completion)
+                const [startH, startM] = booking.startTime.split(':').map(Number);
+                const [endH, endM] = booking.endTime.split(':').map(Number);
+                durationHours = (endH + endM / 60) - (startH + startM / 60);
+            }
+
+            pointsAdded = Math.round(durationHours * 5);
+            if (pointsAdded < 0) pointsAdded = 0;
+
+            newPoints += pointsAdded;
+
+            // 3. Bonus Streak (Every 100 points)
+            // "if points reach 100, add one more streak... points carry back if not 100"
+            let bonusDays = 0;
+            while (newPoints >= 100) {
+                newCount += 1;
+                newPoints -= 100;
+                bonusDays += 1;
+            }
+
+            const countBefore = settled.streak.currentCount;
+            const worked = {
+                ...settled.streak,
+                currentCount: newCount,
+                points: newPoints,
+                lastWorkDate: today // Mark worked today
+            };
+            const withGuards = awardMilestoneGuards(supplierId, worked, countBefore, today);
+            dailyWorkStreakUpdate.streak = withGuards.streak;
+            streakEvents = [
+                ...settled.events,
+                streakEvent(supplierId, 'work', today, withGuards.streak, `Booking ${booking.id}: +${pointsAdded} pts`),
+                ...(bonusDays > 0 ? [streakEvent(supplierId, 'bonus', today, withGuards.streak, `+${bonusDays} day(s) from 100 points`)] : []),
+                ...withGuards.events
+            ];
+
+            console.log(`[BookingHooks] Supplier ${supplierId} Streak: Count ${currentStreak.currentCount}->${newCount}, Points ${currentStreak.points}->${newPoints} (+${pointsAdded})`);
+        }
+
+        return dailyWorkStreakUpdate;
+    });
+    if (!supplier) return;
+    await recordStreakEvents(streakEvents);
+    // --- STREAK & POINTS LOGIC END ---
+
+    // A successful job breaks the farmer's sequential-cancellation run too
+    await UserService.update(parseInt(booking.farmerId), { cancelledStreak: 0, cancellationRun: [] });
+
+    await NotificationService.create({
+        id: Date.now(),
+        userId: booking.supplierId,
+        message: `Great job! Job completed flawlessly. Points earned: 5/hr. Leaderboard updated!`,
+        type: 'system',
+        category: 'performance',
+        priority: 'medium',
+        read: false,
+        showTo: [booking.supplierId],
+        timestamp: new Date().toISOString()
+    });
+
+    // Realtime WAR Update
+    await updateSupplierWAR(booking.supplierId);
+}
+
+/**
+ * Any cancellation that involves money (paid advance or supplier penalty) gets a refund record
+ */
+async function onCancellationRefund({ booking, transition, updates }: TransitionContext): Promise<void> {
+    // Cancellations by anyone else (admin, operator after arrival) refund the farmer in full
+    const cancelledBy = transition.reason === 'supplier_cancellation' ? 'supplier'
+        : transition.reason === 'farmer_cancellation' ? 'farmer'
+            : 'system';
+    const refundId = await createCancellationRefund(booking, cancelledBy, transition.changedBy);
+    if (refundId) updates.refundId = refundId;
+}
+
+/**
+ * Work paid and completed: the server decides the commission split and posts it to the ledger
+ */
+async function onCompletionLedger({ booking, updates }: TransitionContext): Promise<void> {
+    // A split parent carries no money of its own; each share was posted when it completed
+    if (isSplitParent(booking)) return;
+
+    const completed = withUpdates(booking, updates);
+    const { commissionPercent } = await getFinanceSettings();
+    const split = calculateBookingSplit(completed, commissionPercent);
+
+    Object.assign(updates, {
+        farmerPaymentAmount: split.farmerAmount,
+        supplierPaymentAmount: split.supplierAmount,
+        adminCommission: split.commission,
+        paymentDetails: {
+            farmerAmount: split.farmerAmount,
+            supplierAmount: split.supplierAmount,
+            commission: split.commission,
+            totalAmount: split.farmerAmount,
+            paymentDate: completed.paymentDetails?.paymentDate || new Date().toISOString(),
+            method: isCashPayment(completed) ? 'Cash' : completed.paymentMethod === 'Wallet' ? 'Wallet' : 'Online'
+        }
+    });
+
+    await postBookingCompletion(withUpdates(booking, updates), split);
+}
+
+let registered = false;
+
+/**
+ * Register the default booking lifecycle hooks with the state machine (idempotent)
+ */
+export function registerBookingTransitionHooks(): void {
+    if (registered) return;
+    registered = true;
+
+    // Registered first so a failure to record the money side aborts before other side effects run
+    registerTransitionHook({
+        name: 'cancellation-refund',
+        to: ['Cancelled', 'Searching'],
+        run: async (ctx) => {
+            if (ctx.transition.to === 'Searching' && ctx.transition.reason !== 'supplier_cancellation') return;
+            await onCancellationRefund(ctx);
+        }
+    });
+
+    registerTransitionHook({
+        name: 'supplier-cancellation-rebroadcast',
+        from: ['Confirmed', 'Pending Confirmation'],
+        to: ['Searching', 'Cancelled'],
+        reason: 'supplier_cancellation',
+        run: onSupplierCancellation
+    });
+
+    registerTransitionHook({
+        name: 'farmer-cancellation-streak',
+        from: ['Searching', 'Pending Confirmation'],
+        to: ['Cancelled'],
+        run: onFarmerCancellation
+    });
+
+    registerTransitionHook({
+        name: 'release-item-on-cancel',
+        to: ['Cancelled', 'Searching'],
+        run: async ({ booking, transition }) => {
+            // Plain Searching transitions (e.g. a rejected allotment) keep the item untouched
+            if (transition.to === 'Searching' && transition.reason !== 'supplier_cancellation') return;
+            await releaseBookingItem(booking);
+        }
+    });
+
+    // The supplier's own "Arrived" button: time it, but leave it unverified for on-time scoring
+    registerTransitionHook({
+        name: 'arrival-stamp',
+        to: ['Arrived'],
+        run: async ({ transition, updates }) => {
+            if (updates.arrivalSource) return;
+            Object.assign(updates, { arrivedAt: transition.changedAt, arrivalSource: 'manual' });
+        }
+    });
+
+    // Late arrivals (and arrivals after a no-show was recorded) update the WAR penalty events
+    registerTransitionHook({
+        name: 'arrival-penalty',
+        to: ['Arrived'],
+        run: async ({ booking, updates }) => {
+            if (await syncLateArrivalPenalty(withUpdates(booking, updates))) {
+                await updateSupplierWAR(booking.supplierId!);
+            }
+        }
+    });
+
+    registerTransitionHook({
+        name: 'completion-ledger',
+        to: ['Completed'],
+        run: onCompletionLedger
+    });
+
+    registerTransitionHook({
+        name: 'completion-rewards',
+        to: ['Completed'],
+        run: onCompletion
+    });
+
+    registerTransitionHook({
+        name: 'service-reminder',
+        to: ['Completed'],
+        run: async ({ booking, updates }) => remindServiceAfterCompletion(withUpdates(booking, updates))
+    });
+
+    registerTransitionHook({
+        name: 'release-item-on-completion',
+        to: ['Completed'],
+        run: async ({ booking }) => releaseBookingItem(booking)
+    });
+
+    // A share finishing or dropping out moves its parent (re-open, confirm or complete)
+    registerTransitionHook({
+        name: 'split-share-sync',
+        to: ['Cancelled', 'Expired', 'Completed'],
+        run: async ({ booking, updates }) => {
+            if (!booking.parentBookingId) return;
+            await syncSplitParent(booking.parentBookingId, withUpdates(booking, updates));
+        }
+    });
+}
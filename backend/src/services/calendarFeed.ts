@@ -0,0 +1,252 @@
+import crypto from 'crypto';
+import { Booking, CalendarFeed, Item, User } from '../types';
+import { BookingService, CalendarFeedService, ItemService, UserService } from './firestore';
+import { isSplitParent } from './bookingStateMachine';
+
+/**
+ * iCalendar Schedule Feeds
+ *
+ * Each user can publish their schedule to a phone calendar through a secret .ics link.
+ * The feed is built on every fetch, so calendar apps pick up changes on their next refresh:
+ *   - suppliers and operators get the jobs they have confirmed, with the farmer's contact,
+ *   - farmers get their confirmed bookings, with the supplier's contact,
+ *   - suppliers also get their rest days and their items' maintenance windows.
+ * A confirmed booking that is later cancelled stays in the feed as CANCELLED so calendars
+ * remove it. Booking times are wall-clock times in India, published with TZID Asia/Kolkata.
+ *
+ * Rotating the link replaces the token; revoking deletes it. Either way the old link stops working.
+ */
+
+const PRODID = '-//AgriRent//Schedule Feed//EN';
+const UID_DOMAIN = 'agrirent';
+const TIMEZONE = 'Asia/Kolkata';
+const DEFAULT_JOB_HOURS = 3;
+const HISTORY_DAYS = 60;           // Older bookings are left out to keep feeds small
+const FEED_STATUSES = ['Confirmed', 'Arrived', 'In Process', 'Pending Payment', 'Completed'];
+
+export class CalendarFeedError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'CalendarFeedError';
+    }
+}
+
+const escapeText = (value: string): string => value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Content lines longer than 75 octets are folded with CRLF + space (RFC 5545 §3.1)
+const foldLine = (line: string): string => {
+    const bytes = Buffer.from(line, 'utf8');
+    if (bytes.length <= 75) return line;
+    const parts: string[] = [];
+    let current = '';
+    for (const char of line) {
+        const limit = parts.length === 0 ? 75 : 74;
+        if (Buffer.byteLength(current + char, 'utf8') > limit) {
+            parts.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const compactDate = (date: string): string => date.replace(/-/g, '');
+
+// YYYY-MM-DD + HH:MM + minutes -> YYYYMMDDTHHMMSS (local wall-clock time, so no zone maths)
+const localDateTime = (date: string, time: string, addMinutes: number = 0): string => {
+    const [y, m, d] = date.split('-').map(Number);
+    const [h, min] = time.split(':').map(Number);
+    const t = new Date(Date.UTC(y, m - 1, d, h, min || 0) + addMinutes * 60 * 1000);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${t.getUTCFullYear()}${pad(t.getUTCMonth() + 1)}${pad(t.getUTCDate())}T${pad(t.getUTCHours())}${pad(t.getUTCMinutes())}00`;
+};
+
+const toMinutes = (time: string): number => {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+};
+
+const nextDay = (date: string): string => localDateTime(date, '00:00', 24 * 60).substring(0, 8);
+
+const utcStamp = (iso: string): string => iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const VTIMEZONE = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${TIMEZONE}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    'TZOFFSETFROM:+0530',
+    'TZOFFSETTO:+0530',
+    'TZNAME:IST',
+    'END:STANDARD',
+    'END:VTIMEZONE'
+];
+
+const contactLine = (label: string, user?: User | null): string | null =>
+    user ? `${label}: ${user.name}${user.phone ? ` (${user.phone})` : ''}` : null;
+
+/**
+ * The booking's event, or null when it doesn't belong in the viewer's feed. Pure.
+ */
+export function bookingEvent(booking: Booking, viewerId: string, context: { usersById: Map<string, User>; itemsById: Map<number, Item> }, stamp: string): string[] | null {
+    const isSupplierSide = String(booking.supplierId) === viewerId || String(booking.operatorId) === viewerId;
+    const isFarmerSide = String(booking.farmerId) === viewerId;
+    if (!isSupplierSide && !isFarmerSide) return null;
+    // Suppliers work shares, farmers follow the booking they made
+    if (isSupplierSide && isSplitParent(booking)) return null;
+    if (!isSupplierSide && booking.parentBookingId) return null;
+
+    const wasConfirmed = (booking.statusHistory || []).some(c => c.to === 'Confirmed');
+    const isCancelled = booking.status === 'Cancelled' && wasConfirmed;
+    if (!FEED_STATUSES.includes(booking.status) && !isCancelled) return null;
+    if (!booking.date || !/^\d{1,2}:\d{2}$/.test(booking.startTime || '')) return null;
+
+    const item = booking.itemId ? context.itemsById.get(booking.itemId) : undefined;
+    const farmer = context.usersById.get(String(booking.farmerId));
+    const supplier = booking.supplierId ? context.usersById.get(String(booking.supplierId)) : undefined;
+    const purpose = booking.workPurpose || booking.itemCategory;
+    const summary = isSupplierSide
+        ? `${purpose} for ${farmer?.name || 'farmer'}${item ? ` (${item.name})` : ''}`
+        : `${purpose}: ${item?.name || booking.itemCategory}`;
+
+    const description = [
+        `Work: ${purpose}${booking.acres ? `, ${booking.acres} acres` : ''}${booking.quantity ? `, ${booking.quantity} units` : ''}`,
+        `Status: ${booking.status}`,
+        isSupplierSide ? contactLine('Farmer', farmer) : contactLine('Supplier', supplier),
+        booking.additionalInstructions ? `Notes: ${booking.additionalInstructions}` : null,
+        `Booking: ${booking.id}`
+    ].filter((line): line is string => !!line).join('\n');
+
+    const durationMinutes = Math.round((booking.estimatedDuration || DEFAULT_JOB_HOURS) * 60);
+    return [
+        'BEGIN:VEVENT',
+        `UID:${booking.id}@${UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+        `SEQUENCE:${(booking.statusHistory || []).length}`,
+        `DTSTART;TZID=${TIMEZONE}:${localDateTime(booking.date, booking.startTime)}`,
+        `DTEND;TZID=${TIMEZONE}:${localDateTime(booking.date, booking.startTime, durationMinutes)}`,
+        `SUMMARY:${escapeText(isCancelled ? `Cancelled: ${summary}` : summary)}`,
+        ...(booking.location ? [`LOCATION:${escapeText(booking.location)}`] : []),
+        ...(booking.locationCoords ? [`GEO:${booking.locationCoords.lat};${booking.locationCoords.lng}`] : []),
+        `DESCRIPTION:${escapeText(description)}`,
+        `STATUS:${isCancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+        'END:VEVENT'
+    ];
+}
+
+const allDayEvent = (uid: string, date: string, summary: string, stamp: string): string[] => [
+    'BEGIN:VEVENT',
+    `UID:${uid}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${compactDate(date)}`,
+    `DTEND;VALUE=DATE:${nextDay(date)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT'
+];
+
+/**
+ * A user's schedule as an iCalendar document. Pure: works on preloaded bookings, users and items.
+ */
+export function buildCalendar(viewer: User, bookings: Booking[], users: User[], items: Item[], now: Date = new Date()): string {
+    const viewerId = String(viewer.id);
+    const stamp = utcStamp(now.toISOString());
+    const since = new Date(now.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const context = {
+        usersById: new Map(users.map(u => [String(u.id), u])),
+        itemsById: new Map(items.map(i => [i.id, i]))
+    };
+
+    const events: string[][] = [];
+    for (const booking of bookings) {
+        if (!booking.date || booking.date < since) continue;
+        const event = bookingEvent(booking, viewerId, context, stamp);
+        if (event) events.push(event);
+    }
+    for (const date of viewer.blockedDates || []) {
+        if (date >= since) events.push(allDayEvent(`rest-${viewerId}-${date}`, date, 'Rest day (not taking bookings)', stamp));
+    }
+    for (const item of items) {
+        if (String(item.ownerId) !== viewerId) continue;
+        for (const window of item.availability?.maintenance || []) {
+            if (window.date < since) continue;
+            const summary = `Maintenance: ${item.name}${window.reason ? ` (${window.reason})` : ''}`;
+            const uid = `maintenance-${item.id}-${window.id}`;
+            events.push(window.startTime && window.endTime
+                ? [
+                    'BEGIN:VEVENT',
+                    `UID:${uid}@${UID_DOMAIN}`,
+                    `DTSTAMP:${stamp}`,
+                    `DTSTART;TZID=${TIMEZONE}:${localDateTime(window.date, window.startTime)}`,
+                    `DTEND;TZID=${TIMEZONE}:${localDateTime(window.date, '00:00', window.endTime === '24:00' ? 24 * 60 : toMinutes(window.endTime))}`,
+                    `SUMMARY:${escapeText(summary)}`,
+                    'END:VEVENT'
+                ]
+                : allDayEvent(uid, window.date, summary, stamp));
+        }
+    }
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(`AgriRent – ${viewer.name}`)}`,
+        `X-WR-TIMEZONE:${TIMEZONE}`,
+        ...VTIMEZONE,
+        ...events.flat(),
+        'END:VCALENDAR'
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * The user's current feed, if they have one
+ */
+export async function getCalendarFeed(userId: string): Promise<CalendarFeed | null> {
+    return CalendarFeedService.getByUser(userId);
+}
+
+/**
+ * Create the user's feed, or replace its token so the old link stops working
+ */
+export async function rotateCalendarFeed(userId: string): Promise<CalendarFeed> {
+    const feed: CalendarFeed = {
+        id: userId,
+        userId,
+        token: crypto.randomBytes(24).toString('hex'),
+        createdAt: new Date().toISOString()
+    };
+    await CalendarFeedService.save(feed);
+    console.log(`[CalendarFeed] Issued a new feed link for ${userId}`);
+    return feed;
+}
+
+export async function revokeCalendarFeed(userId: string): Promise<void> {
+    await CalendarFeedService.delete(userId);
+    console.log(`[CalendarFeed] Revoked the feed link for ${userId}`);
+}
+
+/**
+ * The .ics document behind a feed token
+ */
+export async function renderCalendarFeed(token: string): Promise<string> {
+    if (!/^[0-9a-f]{48}$/.test(token)) throw new CalendarFeedError('Calendar feed not found', 404);
+    const feed = await CalendarFeedService.getByToken(token);
+    if (!feed) throw new CalendarFeedError('Calendar feed not found', 404);
+
+    const [viewer, bookings, users, items] = await Promise.all([
+        UserService.getById(feed.userId),
+        BookingService.getAll(),
+        UserService.getAll(),
+        ItemService.getAll()
+    ]);
+    if (!viewer) throw new CalendarFeedError('Calendar feed not found', 404);
+    return buildCalendar(viewer, bookings, users, items);
+}
@@ -0,0 +1,212 @@
+import { Booking, CancellationPolicy, CancellationQuote, CancellationWindow, ItemCategory, Refund } from '../types';
+import { RefundService, SettingsService, NotificationService } from './firestore';
+import { recordBookingEvent } from './bookingEvents';
+import { postCancellation } from './ledger';
+
+/**
+ * Cancellation Policy Engine
+ *
+ * Works out what happens to the money when a booking is cancelled:
+ * - Farmer cancels: a fee is kept from the paid advance depending on how long
+ *   before the start time they cancel (per-category windows); the rest is refunded.
+ *   No fee is charged while no supplier has been assigned yet.
+ * - Supplier cancels (booking is re-broadcast): the farmer's advance stays on the
+ *   booking for the next supplier and the supplier owes a penalty.
+ * - System cancels (timeouts): the full advance is refunded.
+ *
+ * The policy is stored in settings/cancellation_policy and falls back to the defaults below.
+ */
+
+const POLICY_KEY = 'cancellation_policy';
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+    windows: [
+        { minHoursBeforeStart: 24, feePercent: 0 },
+        { minHoursBeforeStart: 6, feePercent: 10 },
+        { minHoursBeforeStart: 2, feePercent: 25 },
+        { minHoursBeforeStart: 0, feePercent: 50 },
+    ],
+    categoryWindows: {},
+    minimumFee: {},
+    supplierPenaltyPercent: 10,
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Current policy (stored settings merged over the defaults)
+ */
+export async function getCancellationPolicy(): Promise<CancellationPolicy> {
+    const stored = await SettingsService.get<Partial<CancellationPolicy>>(POLICY_KEY);
+    return { ...DEFAULT_CANCELLATION_POLICY, ...(stored || {}) };
+}
+
+const validateWindows = (windows: unknown, label: string): string | null => {
+    if (!Array.isArray(windows) || windows.length === 0) return `${label} must be a non-empty list`;
+    for (const w of windows as CancellationWindow[]) {
+        if (typeof w?.minHoursBeforeStart !== 'number' || w.minHoursBeforeStart < 0) {
+            return `${label}: minHoursBeforeStart must be a number >= 0`;
+        }
+        if (typeof w.feePercent !== 'number' || w.feePercent < 0 || w.feePercent > 100) {
+            return `${label}: feePercent must be between 0 and 100`;
+        }
+    }
+    return null;
+};
+
+/**
+ * Validate an admin-submitted policy. Returns an error message or null.
+ */
+export function validateCancellationPolicy(policy: Partial<CancellationPolicy>): string | null {
+    const windowsError = validateWindows(policy.windows, 'windows');
+    if (windowsError) return windowsError;
+
+    for (const [category, windows] of Object.entries(policy.categoryWindows || {})) {
+        if (!Object.values(ItemCategory).includes(category as ItemCategory)) return `Unknown category '${category}'`;
+        const error = validateWindows(windows, `categoryWindows.${category}`);
+        if (error) return error;
+    }
+
+    for (const [category, fee] of Object.entries(policy.minimumFee || {})) {
+        if (!Object.values(ItemCategory).includes(category as ItemCategory)) return `Unknown category '${category}'`;
+        if (typeof fee !== 'number' || fee < 0) return `minimumFee.${category} must be a number >= 0`;
+    }
+
+    const penalty = policy.supplierPenaltyPercent;
+    if (typeof penalty !== 'number' || penalty < 0 || penalty > 100) {
+        return 'supplierPenaltyPercent must be between 0 and 100';
+    }
+    return null;
+}
+
+export async function saveCancellationPolicy(policy: CancellationPolicy, updatedBy: string): Promise<CancellationPolicy> {
+    const toStore: CancellationPolicy = {
+        windows: policy.windows,
+        categoryWindows: policy.categoryWindows || {},
+        minimumFee: policy.minimumFee || {},
+        supplierPenaltyPercent: policy.supplierPenaltyPercent,
+        updatedAt: new Date().toISOString(),
+        updatedBy,
+    };
+    return SettingsService.set(POLICY_KEY, toStore);
+}
+
+/**
+ * Hours from `now` until the booking's scheduled start (negative once it has started)
+ */
+export function getHoursBeforeStart(booking: Booking, now: Date = new Date()): number {
+    const start = new Date(booking.date);
+    const [hours, minutes] = (booking.startTime || '00:00').split(':').map(Number);
+    start.setHours(hours || 0, minutes || 0, 0, 0);
+    return (start.getTime() - now.getTime()) / (1000 * 60 * 60);
+}
+
+/**
+ * Fee percentage for a farmer cancellation `hoursBeforeStart` hours ahead of the start.
+ * Cancelling later than the strictest window (or after the start) uses the strictest window.
+ */
+export function getFeePercent(policy: CancellationPolicy, category: ItemCategory, hoursBeforeStart: number): number {
+    const windows = [...(policy.categoryWindows?.[category] || policy.windows)]
+        .sort((a, b) => b.minHoursBeforeStart - a.minHoursBeforeStart);
+    if (windows.length === 0) return 0;
+    const match = windows.find(w => hoursBeforeStart >= w.minHoursBeforeStart);
+    return (match || windows[windows.length - 1]).feePercent;
+}
+
+/**
+ * Work out fee, refund and penalty for cancelling a booking. Pure - nothing is persisted.
+ */
+export function quoteCancellation(
+    booking: Booking,
+    cancelledBy: CancellationQuote['cancelledBy'],
+    policy: CancellationPolicy,
+    now: Date = new Date()
+): CancellationQuote {
+    const bookingValue = booking.finalPrice ?? booking.estimatedPrice ?? 0;
+    const amountPaid = booking.advancePaymentId ? (booking.advanceAmount || 0) : 0;
+    const hoursBeforeStart = round2(getHoursBeforeStart(booking, now));
+
+    const quote: CancellationQuote = {
+        cancelledBy,
+        hoursBeforeStart,
+        feePercent: 0,
+        bookingValue,
+        amountPaid,
+        cancellationFee: 0,
+        refundAmount: amountPaid,
+        supplierPenalty: 0,
+    };
+
+    if (cancelledBy === 'supplier') {
+        // The advance stays on the re-broadcast booking for the next supplier
+        quote.refundAmount = 0;
+        quote.supplierPenalty = round2(bookingValue * policy.supplierPenaltyPercent / 100);
+        return quote;
+    }
+
+    if (cancelledBy === 'farmer' && booking.supplierId) {
+        const feePercent = getFeePercent(policy, booking.itemCategory, hoursBeforeStart);
+        let fee = bookingValue * feePercent / 100;
+        if (feePercent > 0) fee = Math.max(fee, policy.minimumFee?.[booking.itemCategory] || 0);
+
+        // The fee can only be kept from what was actually paid
+        quote.feePercent = feePercent;
+        quote.cancellationFee = round2(Math.min(fee, amountPaid));
+        quote.refundAmount = round2(amountPaid - quote.cancellationFee);
+    }
+
+    return quote;
+}
+
+/**
+ * Persist the refund / penalty record for a cancellation and notify the farmer.
+ * Returns the refund id, or null when there is no money involved.
+ */
+export async function createCancellationRefund(
+    booking: Booking,
+    cancelledBy: CancellationQuote['cancelledBy'],
+    actorId: string
+): Promise<string | null> {
+    const policy = await getCancellationPolicy();
+    const quote = quoteCancellation(booking, cancelledBy, policy);
+    if (quote.amountPaid <= 0 && quote.supplierPenalty <= 0) return null;
+
+    // Firestore rejects undefined values, so optional fields are only set when present
+    const refund: Refund = {
+        ...quote,
+        id: `RF-${booking.id}-${Date.now()}`,
+        bookingId: booking.id,
+        farmerId: booking.farmerId,
+        ...(booking.supplierId ? { supplierId: booking.supplierId } : {}),
+        ...(booking.advancePaymentId ? { advancePaymentId: booking.advancePaymentId } : {}),
+        status: quote.refundAmount > 0 ? 'pending' : 'not_required',
+        createdBy: actorId,
+        createdAt: new Date().toISOString(),
+    };
+
+    await RefundService.create(refund);
+    await postCancellation(refund);
+    console.log(`[Cancellation] ${refund.id}: ${cancelledBy} cancellation, refund ₹${refund.refundAmount}, fee ₹${refund.cancellationFee}, penalty ₹${refund.supplierPenalty}`);
+
+    await recordBookingEvent(booking.id, 'refund_created', {
+        actorId,
+        note: `Refund ₹${refund.refundAmount}, fee ₹${refund.cancellationFee}${refund.supplierPenalty ? `, supplier penalty ₹${refund.supplierPenalty}` : ''}`
+    });
+
+    if (refund.refundAmount > 0) {
+        await NotificationService.create({
+            id: Date.now() + Math.random(),
+            userId: booking.farmerId,
+            message: refund.cancellationFee > 0
+                ? `Your booking was cancelled. ₹${refund.refundAmount} of your ₹${refund.amountPaid} advance will be refunded (cancellation fee ₹${refund.cancellationFee}).`
+                : `Your booking was cancelled. Your advance of ₹${refund.refundAmount} will be refunded in full.`,
+            type: 'booking',
+            category: 'booking',
+            priority: 'high',
+            read: false,
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    return refund.id;
+}
@@ -0,0 +1,30 @@
+import { Booking } from '../types';
+
+// Maximum daily working hours per equipment category
+export const MAX_DAILY_WORKING_HOURS: Record<string, number> = {
+    'Tractors': 12,
+    'Drones': 12,
+    'Harvesters': 16,
+    'Borewell': 16,
+    'Workers': 13, // 6 AM to 7 PM
+    'JCB': 12,
+    'Sprayers': 12,
+    'Drivers': 12,
+    'default': 12
+};
+
+export const ACTIVE_STATUSES = ['Confirmed', 'In Process', 'Arrived', 'Pending Payment'];
+
+/**
+ * Sum the hours already booked for a supplier's item on a date from a preloaded booking list
+ */
+export function sumBookedHours(bookings: Booking[], supplierId: string, itemId: number, date: string): number {
+    return bookings
+        .filter(b =>
+            b.supplierId === supplierId &&
+            b.itemId === itemId &&
+            b.date === date &&
+            ACTIVE_STATUSES.includes(b.status)
+        )
+        .reduce((total, b) => total + (b.estimatedDuration || 3), 0); // Default 3 hours if not specified
+}
@@ -0,0 +1,168 @@
+import { Booking, Coupon, CouponDiscountType, CouponRedemption, ItemCategory } from '../types';
+import { BookingService, CouponService, NotificationService } from './firestore';
+import { getLocationFromCoords, LocationInfo, normalizeLocationName } from './geocoding';
+
+/**
+ * Coupon Engine
+ *
+ * Admins define promotion codes (percentage or flat, optional cap and minimum order)
+ * targeted by category and by district/mandal the same way pricing rules are:
+ * an exact mandal, a whole district (mandal 'ALL') or everywhere ('ALL'/'ALL').
+ * Codes can be limited to a farmer's first booking, capped in total and per user,
+ * and bounded by validFrom / expiresAt.
+ *
+ * A coupon is checked when the booking is created (POST /api/bookings); the usage
+ * count is bumped in the same transaction as the redemption record so caps hold under
+ * concurrent bookings. The discount is platform-funded and stored on the booking as
+ * discountAmount, which the ledger books as discount expense.
+ */
+
+export class CouponError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'CouponError';
+    }
+}
+
+export interface CouponContext {
+    farmerId: string;
+    itemCategory: ItemCategory;
+    orderValue: number;
+    location: LocationInfo | null;
+    isFirstBooking: boolean;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export const normalizeCouponCode = (code: string): string => String(code || '').trim().toUpperCase();
+
+/**
+ * Same ladder as pricing rules: 'ALL'/'ALL' matches anywhere, district + 'ALL' the whole district
+ */
+export function couponMatchesLocation(coupon: Pick<Coupon, 'district' | 'mandal'>, location: LocationInfo | null): boolean {
+    if (coupon.district === 'ALL') return true;
+    if (!location) return false;
+    if (normalizeLocationName(coupon.district) !== normalizeLocationName(location.district)) return false;
+    return coupon.mandal === 'ALL' || normalizeLocationName(coupon.mandal) === normalizeLocationName(location.mandal);
+}
+
+/**
+ * Discount a coupon gives on an order, or a CouponError saying why it doesn't apply. Pure.
+ */
+export function evaluateCoupon(coupon: Coupon, context: CouponContext, userRedemptions: number, now: Date = new Date()): number {
+    if (!coupon.isActive) throw new CouponError('This coupon is no longer active');
+    if (coupon.validFrom && now < new Date(coupon.validFrom)) throw new CouponError('This coupon is not valid yet');
+    if (coupon.expiresAt && now > new Date(coupon.expiresAt)) throw new CouponError('This coupon has expired');
+    if (coupon.usageLimit !== undefined && coupon.usedCount >= coupon.usageLimit) {
+        throw new CouponError('This coupon has been fully redeemed', 409);
+    }
+    if (coupon.perUserLimit !== undefined && userRedemptions >= coupon.perUserLimit) {
+        throw new CouponError('You have already used this coupon', 409);
+    }
+    if (coupon.firstBookingOnly && !context.isFirstBooking) throw new CouponError('This coupon is only valid on your first booking');
+    if (coupon.category && coupon.category !== context.itemCategory) {
+        throw new CouponError(`This coupon is only valid for ${coupon.category} bookings`);
+    }
+    if (!couponMatchesLocation(coupon, context.location)) throw new CouponError('This coupon is not valid in your area');
+    if (coupon.minOrderValue && context.orderValue < coupon.minOrderValue) {
+        throw new CouponError(`This coupon needs a minimum booking value of ₹${coupon.minOrderValue}`);
+    }
+
+    const raw = coupon.discountType === 'percent' ? context.orderValue * coupon.value / 100 : coupon.value;
+    const capped = coupon.maxDiscount ? Math.min(raw, coupon.maxDiscount) : raw;
+    return round2(Math.min(capped, context.orderValue));
+}
+
+/**
+ * Validate an admin-submitted coupon. Returns an error message or null.
+ */
+export function validateCoupon(coupon: Partial<Coupon>): string | null {
+    if (!/^[A-Z0-9_-]{3,20}$/.test(coupon.code || '')) return 'code must be 3-20 letters, digits, - or _';
+    const types: CouponDiscountType[] = ['percent', 'flat'];
+    if (!types.includes(coupon.discountType as CouponDiscountType)) return 'discountType must be percent or flat';
+    if (typeof coupon.value !== 'number' || coupon.value <= 0) return 'value must be greater than zero';
+    if (coupon.discountType === 'percent' && coupon.value > 100) return 'A percentage discount cannot exceed 100';
+    for (const field of ['maxDiscount', 'minOrderValue', 'usageLimit', 'perUserLimit'] as const) {
+        const value = coupon[field];
+        if (value !== undefined && (typeof value !== 'number' || value < 0)) return `${field} must be a number >= 0`;
+    }
+    if (coupon.category && !Object.values(ItemCategory).includes(coupon.category)) return `Unknown category '${coupon.category}'`;
+    if (!coupon.district || !coupon.mandal) return 'district and mandal are required (use ALL for any)';
+    if (coupon.district === 'ALL' && coupon.mandal !== 'ALL') return 'A mandal can only be targeted within a district';
+    for (const field of ['validFrom', 'expiresAt'] as const) {
+        const value = coupon[field];
+        if (value !== undefined && isNaN(new Date(value).getTime())) return `${field} must be a date`;
+    }
+    if (coupon.validFrom && coupon.expiresAt && coupon.validFrom > coupon.expiresAt) return 'expiresAt must be after validFrom';
+    return null;
+}
+
+/**
+ * Booking facts the coupon rules need: resolved location and whether it's the farmer's first booking
+ */
+async function buildContext(booking: Pick<Booking, 'id' | 'farmerId' | 'itemCategory' | 'estimatedPrice' | 'locationCoords'>): Promise<CouponContext> {
+    const [location, previous] = await Promise.all([
+        booking.locationCoords ? getLocationFromCoords(booking.locationCoords.lat, booking.locationCoords.lng) : Promise.resolve(null),
+        BookingService.getForFarmer(booking.farmerId)
+    ]);
+    return {
+        farmerId: booking.farmerId,
+        itemCategory: booking.itemCategory,
+        orderValue: booking.estimatedPrice || 0,
+        location,
+        isFirstBooking: !previous.some(b => b.id !== booking.id && !['Cancelled', 'Expired'].includes(b.status))
+    };
+}
+
+/**
+ * Preview the discount a code would give on a booking being filled in (nothing is recorded)
+ */
+export async function quoteCoupon(
+    code: string,
+    booking: Pick<Booking, 'id' | 'farmerId' | 'itemCategory' | 'estimatedPrice' | 'locationCoords'>
+): Promise<{ coupon: Coupon; discountAmount: number }> {
+    const normalized = normalizeCouponCode(code);
+    const [coupon, context, userRedemptions] = await Promise.all([
+        CouponService.getByCode(normalized),
+        buildContext(booking),
+        CouponService.getRedemptionCount(normalized, booking.farmerId)
+    ]);
+    if (!coupon) throw new CouponError('Invalid coupon code', 404);
+    return { coupon, discountAmount: evaluateCoupon(coupon, context, userRedemptions) };
+}
+
+/**
+ * Redeem a code on a booking that is being created. Returns the redemption (with the discount).
+ */
+export async function redeemCoupon(
+    code: string,
+    booking: Pick<Booking, 'id' | 'farmerId' | 'itemCategory' | 'estimatedPrice' | 'locationCoords'>
+): Promise<CouponRedemption> {
+    const normalized = normalizeCouponCode(code);
+    const context = await buildContext(booking);
+
+    const redemption = await CouponService.redeem(normalized, booking.id, booking.farmerId, (coupon, userRedemptions) => {
+        if (!coupon) throw new CouponError('Invalid coupon code', 404);
+        return {
+            id: `${normalized}-${booking.id}`,
+            code: normalized,
+            bookingId: booking.id,
+            userId: booking.farmerId,
+            discountAmount: evaluateCoupon(coupon, context, userRedemptions),
+            createdAt: new Date().toISOString()
+        };
+    });
+
+    await NotificationService.create({
+        id: Date.now() + Math.random(),
+        userId: booking.farmerId,
+        message: `Coupon ${normalized} applied: you saved ₹${redemption.discountAmount.toLocaleString()} on booking #${booking.id.substring(0, 8)}.`,
+        type: 'coupon',
+        category: 'booking',
+        priority: 'low',
+        read: false,
+        timestamp: new Date().toISOString()
+    });
+    console.log(`[Coupons] ${normalized} redeemed on ${booking.id} for ₹${redemption.discountAmount}`);
+    return redemption;
+}
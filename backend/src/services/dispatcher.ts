@@ -0,0 +1,437 @@
+import { AvailabilityHold, Booking, BookingStatusChange, DispatchOffer, Item, User, UserRole } from '../types';
+import { AvailabilityHoldService, BookingService, ItemService, UserService, NotificationService } from './firestore';
+import { MAX_DAILY_WORKING_HOURS, sumBookedHours } from './capacity';
+import { calculateDistance, locationMatches } from './geocoding';
+import { recordBookingEvent, SYSTEM_ACTOR } from './bookingEvents';
+import { transitionBooking } from './bookingStateMachine';
+import { findUnavailableReason, isHoldLive, loadAvailabilityContext } from './availability';
+
+/**
+ * Automatic Supplier Dispatch
+ *
+ * Ranks eligible suppliers for a Searching booking and offers the job to the
+ * top few in waves. Each offer has an acceptance deadline; when a wave expires
+ * or is fully declined the next best suppliers are offered the job, and once
+ * nobody is left within the current radius it is widened step by step. All
+ * steps fit well inside the 6-hour window of checkBookingTimeouts, which stays
+ * as the admin fallback.
+ *
+ * Score = 0.35 × proximity + 0.35 × (WAR / 5) + 0.10 × spare capacity
+ *       + 0.12 × verified account + 0.08 × trusted supplier
+ */
+
+export const DISPATCH_WAVE_SIZE = 3;
+export const OFFER_DEADLINE_MINUTES = 15;
+export const DISPATCH_RADIUS_STEPS_KM = [10, 20, 35, 50];
+const DISPATCH_INTERVAL_MS = 60 * 1000;
+
+const WEIGHTS = {
+    PROXIMITY: 0.35,
+    RATING: 0.35,
+    CAPACITY: 0.10,
+    VERIFIED: 0.12,
+    TRUSTED: 0.08,
+};
+const DEFAULT_RATING = 3.0;
+const DEFAULT_JOB_HOURS = 3;
+
+export interface SupplierCandidate {
+    supplier: User;
+    item: Item;
+    distanceKm: number | null; // null when only a text location match was possible
+    remainingHours: number;
+    score: number;
+}
+
+export class DispatchOfferError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'DispatchOfferError';
+    }
+}
+
+/**
+ * Rank suppliers able to take a booking within a radius.
+ * Pure: works on preloaded items, users, bookings and holds. Returns one entry per supplier (their best item).
+ * An item must fit the job in its availability calendar (see availability.ts).
+ */
+export function rankCandidates(
+    booking: Booking,
+    items: Item[],
+    users: User[],
+    bookings: Booking[],
+    radiusKm: number,
+    excludeSupplierIds: string[] = [],
+    holds: AvailabilityHold[] = []
+): SupplierCandidate[] {
+    const usersById = new Map(users.map(u => [String(u.id), u]));
+    const jobHours = booking.estimatedDuration || DEFAULT_JOB_HOURS;
+    const best = new Map<string, SupplierCandidate>();
+
+    for (const item of items) {
+        if (item.status !== 'approved' || item.category !== booking.itemCategory || item.available === false) continue;
+        if (booking.workPurpose && !item.purposes.some(p => p.name === booking.workPurpose)) continue;
+        if (booking.quantity && item.quantityAvailable !== undefined && item.quantityAvailable < booking.quantity) continue;
+
+        const supplierId = String(item.ownerId);
+        if (supplierId === String(booking.farmerId) || excludeSupplierIds.includes(supplierId)) continue;
+
+        const supplier = usersById.get(supplierId);
+        if (!supplier || supplier.userStatus !== 'approved') continue;
+
+        // Distance: item coordinates first, then the supplier's own location
+        let distanceKm: number | null = null;
+        const itemCoords = item.locationCoords || supplier.locationCoords;
+        if (booking.locationCoords) {
+            if (!itemCoords) continue;
+            distanceKm = calculateDistance(booking.locationCoords.lat, booking.locationCoords.lng, itemCoords.lat, itemCoords.lng);
+            if (distanceKm > radiusKm) continue;
+        } else if (!locationMatches(item.location, booking.location)) {
+            continue;
+        }
+
+        // Calendar, overlaps and daily capacity
+        if (findUnavailableReason({ item, supplier, bookings, holds }, { date: booking.date, startTime: booking.startTime, durationHours: jobHours, farmerId: String(booking.farmerId) })) continue;
+
+        // Spare capacity for scoring (Agent/AgentPro suppliers are managed by the founder and have no limit)
+        const maxHours = MAX_DAILY_WORKING_HOURS[item.category] || MAX_DAILY_WORKING_HOURS['default'];
+        const isAgentSupplier = supplier.role === UserRole.Agent || supplier.role === UserRole.AgentPro;
+        const remainingHours = isAgentSupplier
+            ? maxHours
+            : maxHours - sumBookedHours(bookings, supplierId, item.id, booking.date);
+
+        const proximity = distanceKm === null ? 0.5 : Math.max(0, 1 - distanceKm / radiusKm);
+        const rating = supplier.warFinalRating ?? supplier.avgRating ?? DEFAULT_RATING;
+        const score =
+            WEIGHTS.PROXIMITY * proximity +
+            WEIGHTS.RATING * (rating / 5) +
+            WEIGHTS.CAPACITY * (remainingHours / maxHours) +
+            WEIGHTS.VERIFIED * (supplier.isVerifiedAccount ? 1 : 0) +
+            WEIGHTS.TRUSTED * (supplier.isTrustedSupplier ? 1 : 0);
+
+        const existing = best.get(supplierId);
+        if (!existing || score > existing.score) {
+            best.set(supplierId, {
+                supplier,
+                item,
+                distanceKm,
+                remainingHours,
+                score: parseFloat(score.toFixed(4))
+            });
+        }
+    }
+
+    return Array.from(best.values()).sort((a, b) => b.score - a.score);
+}
+
+interface DispatchData {
+    items: Item[];
+    users: User[];
+    bookings: Booking[];
+    holds: AvailabilityHold[];
+}
+
+const loadDispatchData = async (): Promise<DispatchData> => {
+    const [items, users, bookings, holds] = await Promise.all([
+        ItemService.getAll(),
+        UserService.getAll(),
+        BookingService.getAll(),
+        AvailabilityHoldService.getAll()
+    ]);
+    return { items, users, bookings, holds: holds.filter(h => isHoldLive(h)) };
+};
+
+/**
+ * A booking is dispatched automatically only while it is an open broadcast
+ */
+const isDispatchable = (booking: Booking): boolean =>
+    booking.status === 'Searching' &&
+    !booking.supplierId &&
+    !booking.allowMultipleSuppliers &&
+    !booking.dispatchExhausted;
+
+interface WavePlan {
+    wave: number;
+    radiusKm: number;                         // Radius of the new wave, or the widest one when nobody is left
+    newOffers: DispatchOffer[];               // Empty when nobody is left at any radius
+    widened: { from: number; to: number }[];  // Radius steps that had nobody left
+}
+
+/**
+ * The next wave of offers for a booking, widening the radius if nobody is left. Pure apart from the clock.
+ */
+function planNextWave(booking: Booking, data: DispatchData, offers: DispatchOffer[]): WavePlan {
+    const alreadyOffered = offers.map(o => o.supplierId);
+    const widened: WavePlan['widened'] = [];
+
+    // A farmer-expanded radius is added as an extra (outermost) step for this booking
+    const radiusSteps = booking.expandedSearchRadius
+        ? Array.from(new Set([...DISPATCH_RADIUS_STEPS_KM, booking.expandedSearchRadius])).sort((a, b) => a - b)
+        : DISPATCH_RADIUS_STEPS_KM;
+    let radiusIndex = Math.max(0, radiusSteps.indexOf(booking.dispatchRadiusKm ?? radiusSteps[0]));
+
+    while (radiusIndex < radiusSteps.length) {
+        const radiusKm = radiusSteps[radiusIndex];
+        const candidates = rankCandidates(booking, data.items, data.users, data.bookings, radiusKm, alreadyOffered, data.holds);
+
+        if (candidates.length > 0) {
+            const wave = (booking.dispatchWave || 0) + 1;
+            const now = new Date();
+            const expiresAt = new Date(now.getTime() + OFFER_DEADLINE_MINUTES * 60 * 1000).toISOString();
+            const newOffers: DispatchOffer[] = candidates.slice(0, DISPATCH_WAVE_SIZE).map(c => ({
+                supplierId: String(c.supplier.id),
+                itemId: c.item.id,
+                wave,
+                score: c.score,
+                ...(c.distanceKm !== null ? { distanceKm: parseFloat(c.distanceKm.toFixed(1)) } : {}),
+                offeredAt: now.toISOString(),
+                expiresAt,
+                status: 'pending' as const
+            }));
+            return { wave, radiusKm, newOffers, widened };
+        }
+
+        if (radiusIndex + 1 < radiusSteps.length) {
+            widened.push({ from: radiusKm, to: radiusSteps[radiusIndex + 1] });
+        }
+        radiusIndex++;
+    }
+
+    return { wave: booking.dispatchWave || 0, radiusKm: radiusSteps[radiusSteps.length - 1], newOffers: [], widened };
+}
+
+/**
+ * Notify the suppliers of a wave that was saved, and log it on the booking
+ */
+async function announceWave(booking: Booking, plan: WavePlan): Promise<void> {
+    for (const step of plan.widened) {
+        await recordBookingEvent(booking.id, 'dispatch_radius_widened', {
+            actorId: SYSTEM_ACTOR,
+            changedFields: ['dispatchRadiusKm'],
+            note: `No eligible suppliers within ${step.from} km, widening to ${step.to} km`
+        });
+        console.log(`[Dispatcher] Booking ${booking.id}: widening radius ${step.from} -> ${step.to} km`);
+    }
+
+    if (plan.newOffers.length === 0) {
+        await recordBookingEvent(booking.id, 'dispatch_exhausted', {
+            actorId: SYSTEM_ACTOR,
+            changedFields: ['dispatchExhausted'],
+            note: `No eligible suppliers left within ${plan.radiusKm} km; waiting for manual allotment`
+        });
+        console.log(`[Dispatcher] Booking ${booking.id}: no candidates left, handing over to admin`);
+        return;
+    }
+
+    for (const offer of plan.newOffers) {
+        await NotificationService.create({
+            id: Date.now() + Math.random(),
+            userId: offer.supplierId,
+            message: `New job offer: ${booking.itemCategory} at ${booking.location} on ${booking.date} ${booking.startTime}. Accept within ${OFFER_DEADLINE_MINUTES} minutes before it goes to other suppliers.`,
+            type: 'booking',
+            category: 'booking',
+            priority: 'high',
+            read: false,
+            timestamp: offer.offeredAt
+        });
+    }
+
+    await recordBookingEvent(booking.id, 'dispatch_wave', {
+        actorId: SYSTEM_ACTOR,
+        changedFields: ['dispatchWave', 'dispatchRadiusKm', 'dispatchOffers'],
+        note: `Wave ${plan.wave} offered to ${plan.newOffers.length} supplier(s) within ${plan.radiusKm} km`
+    });
+    console.log(`[Dispatcher] Booking ${booking.id}: wave ${plan.wave} -> ${plan.newOffers.map(o => o.supplierId).join(', ')} (${plan.radiusKm} km)`);
+}
+
+/**
+ * Expire overdue offers and send a new wave when none are pending. The booking is re-read in a
+ * transaction, so an offer accepted or declined since `data` was loaded is kept, and a booking
+ * that is no longer an open broadcast is left alone. `firstWave` only starts a booking not yet dispatched.
+ */
+async function advanceBooking(bookingId: string, data: DispatchData, firstWave: boolean = false): Promise<void> {
+    let plan = null as WavePlan | null;
+    const booking = await BookingService.updateInTransaction(bookingId, async current => {
+        plan = null;
+        if (!current || !isDispatchable(current) || (firstWave && current.dispatchWave)) return null;
+
+        const now = Date.now();
+        let expired = 0;
+        const offers = (current.dispatchOffers || []).map(o => {
+            if (o.status === 'pending' && new Date(o.expiresAt).getTime() <= now) {
+                expired++;
+                return { ...o, status: 'expired' as const };
+            }
+            return o;
+        });
+        if (offers.some(o => o.status === 'pending')) {
+            return expired > 0 ? { dispatchOffers: offers } : null;
+        }
+
+        plan = planNextWave(current, data, offers);
+        return plan.newOffers.length > 0
+            ? { dispatchWave: plan.wave, dispatchRadiusKm: plan.radiusKm, dispatchOffers: [...offers, ...plan.newOffers] }
+            : { dispatchExhausted: true, dispatchRadiusKm: plan.radiusKm, dispatchOffers: offers };
+    });
+
+    if (plan) await announceWave(booking, plan);
+}
+
+/**
+ * Start dispatching a newly created booking (first wave goes out immediately)
+ */
+export async function dispatchBooking(bookingId: string): Promise<void> {
+    try {
+        await advanceBooking(bookingId, await loadDispatchData(), true);
+    } catch (error) {
+        console.error(`[Dispatcher] Error dispatching booking ${bookingId}:`, error);
+    }
+}
+
+/**
+ * One pass over all open bookings
+ */
+export async function runDispatchCycle(): Promise<void> {
+    try {
+        const data = await loadDispatchData();
+        const open = data.bookings.filter(isDispatchable);
+
+        for (const booking of open) {
+            try {
+                await advanceBooking(booking.id, data);
+            } catch (error) {
+                console.error(`[Dispatcher] Error advancing booking ${booking.id}:`, error);
+            }
+        }
+    } catch (error) {
+        console.error('[Dispatcher] Error running dispatch cycle:', error);
+    }
+}
+
+/**
+ * The supplier's offer if it can still be accepted
+ */
+const findOpenOffer = (booking: Booking, supplierId: string): DispatchOffer => {
+    const offer = (booking.dispatchOffers || []).find(o => o.supplierId === supplierId && o.status === 'pending');
+    if (!offer) throw new DispatchOfferError('No open offer for this supplier', 404);
+    if (new Date(offer.expiresAt).getTime() <= Date.now()) {
+        throw new DispatchOfferError('This offer has expired', 410);
+    }
+    return offer;
+};
+
+/**
+ * Supplier accepts a pending offer: the booking is confirmed to them through the state machine
+ */
+export async function acceptDispatchOffer(bookingId: string, supplierId: string, actorRole?: string): Promise<Booking> {
+    const booking = await BookingService.getById(bookingId);
+    if (!booking) throw new DispatchOfferError('Booking not found', 404);
+    const offer = findOpenOffer(booking, supplierId);
+
+    const item = await ItemService.getById(offer.itemId);
+    if (!item || item.available === false) {
+        throw new DispatchOfferError('The offered item is no longer available', 409);
+    }
+    // The supplier may have changed the item's calendar since the offer went out
+    const unavailable = findUnavailableReason(await loadAvailabilityContext(item), {
+        date: booking.date,
+        startTime: booking.startTime,
+        durationHours: booking.estimatedDuration || DEFAULT_JOB_HOURS,
+        excludeBookingId: booking.id,
+        farmerId: String(booking.farmerId)
+    });
+    if (unavailable) throw new DispatchOfferError(unavailable, 409);
+
+    // Check the offer again and assign the booking in one transaction, so of two suppliers
+    // accepting at once only the first gets it; the other pending offers are superseded
+    let transition: BookingStatusChange | undefined;
+    const updated = await BookingService.updateInTransaction(bookingId, async current => {
+        if (!current) throw new DispatchOfferError('Booking not found', 404);
+        if (current.status !== 'Searching' || current.supplierId) {
+            throw new DispatchOfferError('This booking has already been taken', 409);
+        }
+        const accepted = findOpenOffer(current, supplierId);
+        const settledOffers = (current.dispatchOffers || []).map(o => {
+            if (o === accepted) return { ...o, status: 'accepted' as const };
+            if (o.status === 'pending') return { ...o, status: 'superseded' as const };
+            return o;
+        });
+
+        const result = await transitionBooking(current, 'Confirmed', {
+            supplierId,
+            itemId: accepted.itemId,
+            dispatchOffers: settledOffers
+        }, { id: supplierId, ...(actorRole ? { role: actorRole } : {}) });
+        transition = result.transition;
+        return result.updates;
+    });
+
+    const itemUpdates: Partial<Item> = { available: false };
+    if (booking.quantity && item.quantityAvailable !== undefined) {
+        itemUpdates.quantityAvailable = Math.max(0, item.quantityAvailable - booking.quantity);
+        itemUpdates.available = itemUpdates.quantityAvailable > 0;
+    }
+    await ItemService.update(item.id, itemUpdates);
+
+    await recordBookingEvent(bookingId, 'status_changed', {
+        actorId: supplierId,
+        actorRole,
+        fromStatus: transition!.from,
+        toStatus: transition!.to,
+        changedFields: ['status', 'supplierId', 'itemId', 'dispatchOffers'],
+        note: `Accepted dispatch offer (wave ${offer.wave})`
+    });
+
+    await NotificationService.create({
+        id: Date.now(),
+        userId: booking.farmerId,
+        message: `Your ${booking.itemCategory} booking on ${booking.date} has been confirmed by ${item.name}'s owner.`,
+        type: 'booking',
+        category: 'booking',
+        priority: 'high',
+        read: false,
+        timestamp: new Date().toISOString()
+    });
+
+    console.log(`[Dispatcher] Booking ${bookingId} accepted by supplier ${supplierId}`);
+    return updated;
+}
+
+/**
+ * Supplier declines a pending offer; if the whole wave has now declined, the next wave goes out at once
+ */
+export async function declineDispatchOffer(bookingId: string, supplierId: string): Promise<void> {
+    // In a transaction so a decline can't overwrite an acceptance that landed in between
+    let wave = 0;
+    const updated = await BookingService.updateInTransaction(bookingId, async current => {
+        if (!current) throw new DispatchOfferError('Booking not found', 404);
+
+        const offers = current.dispatchOffers || [];
+        const offer = offers.find(o => o.supplierId === supplierId && o.status === 'pending');
+        if (!offer) throw new DispatchOfferError('No open offer for this supplier', 404);
+
+        wave = offer.wave;
+        return { dispatchOffers: offers.map(o => (o === offer ? { ...o, status: 'declined' as const } : o)) };
+    });
+    await recordBookingEvent(bookingId, 'offer_declined', {
+        actorId: supplierId,
+        changedFields: ['dispatchOffers'],
+        note: `Supplier declined wave ${wave} offer`
+    });
+
+    const offers = updated.dispatchOffers || [];
+    if (isDispatchable(updated) && !offers.some(o => o.status === 'pending')) {
+        await advanceBooking(bookingId, await loadDispatchData());
+    }
+}
+
+/**
+ * Initialize the dispatch loop (offer deadlines are checked every minute)
+ */
+export const initDispatchScheduler = (): void => {
+    setInterval(() => {
+        runDispatchCycle();
+    }, DISPATCH_INTERVAL_MS);
+
+    console.log(`[Dispatcher] Scheduler initialized - checking offers every ${DISPATCH_INTERVAL_MS / 1000}s`);
+};
@@ -0,0 +1,187 @@
+import { Field, SoilType, UserRole } from '../types';
+import { FieldValue } from 'firebase-admin/firestore';
+import { FieldService, UserService, Updates } from './firestore';
+
+/**
+ * Field Registry
+ *
+ * Farmers (or the agents who book for them) save their plots once - drawn as a polygon
+ * or just pinned - with the area, soil and what is growing. The booking form then fills
+ * location, acres and crop from the picked field instead of having them typed in again.
+ *
+ * When a boundary is drawn its centroid becomes the field's pin and, unless the farmer
+ * gives a surveyed figure, its area becomes the field's acres.
+ */
+
+export const SOIL_TYPES: SoilType[] = ['Black', 'Red', 'Alluvial', 'Sandy', 'Loamy', 'Clay', 'Laterite', 'Other'];
+
+const SQ_METERS_PER_ACRE = 4046.86;
+const EARTH_RADIUS_M = 6371000;
+const MAX_BOUNDARY_POINTS = 200;
+const MAX_FIELD_ACRES = 1000;
+
+export class FieldError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'FieldError';
+    }
+}
+
+export interface FieldInput {
+    name?: string;
+    boundary?: { lat: number; lng: number }[];
+    center?: { lat: number; lng: number };
+    location?: string;
+    acres?: number;
+    soilType?: SoilType;
+    currentCrop?: string;
+}
+
+type LatLng = { lat: number; lng: number };
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const isLatLng = (point: unknown): point is LatLng => {
+    if (typeof point !== 'object' || point === null) return false;
+    const { lat, lng } = point as Record<string, unknown>;
+    return typeof lat === 'number' && typeof lng === 'number' && lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
+};
+
+/**
+ * Mean of the polygon's corners. Plots are small enough that this sits inside them. Pure.
+ */
+export function polygonCentroid(boundary: LatLng[]): LatLng {
+    const sum = boundary.reduce((acc, p) => ({ lat: acc.lat + p.lat, lng: acc.lng + p.lng }), { lat: 0, lng: 0 });
+    return { lat: sum.lat / boundary.length, lng: sum.lng / boundary.length };
+}
+
+/**
+ * Area of a plot in acres: corners projected flat around the centroid, then the shoelace formula. Pure.
+ */
+export function polygonAreaAcres(boundary: LatLng[]): number {
+    if (boundary.length < 3) return 0;
+    const origin = polygonCentroid(boundary);
+    const toRad = (deg: number) => deg * Math.PI / 180;
+    const projected = boundary.map(p => ({
+        x: toRad(p.lng - origin.lng) * EARTH_RADIUS_M * Math.cos(toRad(origin.lat)),
+        y: toRad(p.lat - origin.lat) * EARTH_RADIUS_M
+    }));
+    let twiceArea = 0;
+    projected.forEach((p, i) => {
+        const next = projected[(i + 1) % projected.length];
+        twiceArea += p.x * next.y - next.x * p.y;
+    });
+    return round2(Math.abs(twiceArea) / 2 / SQ_METERS_PER_ACRE);
+}
+
+/**
+ * Validate a create (every required field) or an update (only what was sent). Returns an error message or null.
+ */
+export function validateFieldInput(input: FieldInput, isUpdate = false): string | null {
+    if (!isUpdate || input.name !== undefined) {
+        if (typeof input.name !== 'string' || !input.name.trim()) return 'name is required';
+        if (input.name.trim().length > 60) return 'name must be 60 characters or fewer';
+    }
+    if (input.boundary !== undefined) {
+        if (!Array.isArray(input.boundary) || input.boundary.length < 3) return 'boundary needs at least 3 points';
+        if (input.boundary.length > MAX_BOUNDARY_POINTS) return `boundary can have at most ${MAX_BOUNDARY_POINTS} points`;
+        if (!input.boundary.every(isLatLng)) return 'boundary points must be { lat, lng } coordinates';
+    }
+    if (input.center !== undefined && !isLatLng(input.center)) return 'center must be { lat, lng } coordinates';
+    if (!isUpdate && !input.boundary && !input.center) return 'Draw the field boundary or drop a pin';
+    if (input.acres !== undefined && (typeof input.acres !== 'number' || input.acres <= 0 || input.acres > MAX_FIELD_ACRES)) {
+        return `acres must be a number between 0 and ${MAX_FIELD_ACRES}`;
+    }
+    if (!isUpdate && input.acres === undefined && !input.boundary) return 'acres is required for a pinned field';
+    if (input.soilType !== undefined && !SOIL_TYPES.includes(input.soilType)) return `soilType must be one of ${SOIL_TYPES.join(', ')}`;
+    if (input.currentCrop !== undefined && typeof input.currentCrop !== 'string') return 'currentCrop must be text';
+    if (input.location !== undefined && typeof input.location !== 'string') return 'location must be text';
+    return null;
+}
+
+/**
+ * Farmers manage their own fields; agents map fields for the farmers they book for; staff can do either.
+ */
+export const canManageFields = (actor: { id: string; role: string }, farmerId: string): boolean =>
+    actor.id === farmerId || [UserRole.Agent, UserRole.AgentPro, UserRole.Admin, UserRole.Founder].includes(actor.role as UserRole);
+
+/**
+ * Geometry for whatever of boundary / center / acres was sent. A new boundary moves the pin
+ * to its centroid and, unless acres were given too, resets acres to the mapped area.
+ */
+const resolveGeometry = (input: FieldInput): Partial<Field> => {
+    if (input.boundary) {
+        const area = polygonAreaAcres(input.boundary);
+        return {
+            boundary: input.boundary.map(p => ({ lat: p.lat, lng: p.lng })),
+            center: polygonCentroid(input.boundary),
+            acres: input.acres ?? area
+        };
+    }
+    return {
+        ...(input.center ? { center: { lat: input.center.lat, lng: input.center.lng } } : {}),
+        ...(input.acres !== undefined ? { acres: input.acres } : {})
+    };
+};
+
+export async function createField(actor: { id: string; role: string }, farmerId: string, input: FieldInput): Promise<Field> {
+    if (!canManageFields(actor, farmerId)) throw new FieldError('You can only add fields for yourself', 403);
+    const error = validateFieldInput(input);
+    if (error) throw new FieldError(error);
+    if (actor.id !== farmerId) {
+        const farmer = await UserService.getById(farmerId);
+        if (!farmer || farmer.role !== UserRole.Farmer) throw new FieldError('Farmer not found', 404);
+    }
+
+    const now = new Date().toISOString();
+    const geometry = resolveGeometry(input);
+    // Firestore rejects undefined values, so optional details are only set when present
+    const field: Field = {
+        id: `FLD-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+        farmerId,
+        name: input.name!.trim(),
+        center: geometry.center!,
+        acres: geometry.acres!,
+        ...(geometry.boundary ? { boundary: geometry.boundary } : {}),
+        ...(input.location?.trim() ? { location: input.location.trim() } : {}),
+        ...(input.soilType ? { soilType: input.soilType } : {}),
+        ...(input.currentCrop?.trim() ? { currentCrop: input.currentCrop.trim() } : {}),
+        createdBy: actor.id,
+        createdAt: now,
+        updatedAt: now
+    };
+    if (!(field.acres > 0)) throw new FieldError('The drawn boundary has no area');
+
+    await FieldService.create(field);
+    console.log(`[Fields] ${actor.id} added field ${field.id} (${field.acres} acres) for ${farmerId}`);
+    return field;
+}
+
+export async function updateField(actor: { id: string; role: string }, fieldId: string, input: FieldInput): Promise<Field> {
+    const field = await FieldService.getById(fieldId);
+    if (!field) throw new FieldError('Field not found', 404);
+    if (!canManageFields(actor, field.farmerId)) throw new FieldError('Not your field', 403);
+    const error = validateFieldInput(input, true);
+    if (error) throw new FieldError(error);
+
+    const geometry = resolveGeometry(input);
+    if (geometry.acres !== undefined && !(geometry.acres > 0)) throw new FieldError('The drawn boundary has no area');
+    const updates: Updates<Field> = {
+        ...geometry,
+        // Re-pinning a mapped field drops its old boundary
+        ...(input.center && !input.boundary && field.boundary ? { boundary: FieldValue.delete() } : {}),
+        ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+        ...(input.location !== undefined ? { location: input.location.trim() } : {}),
+        ...(input.soilType !== undefined ? { soilType: input.soilType } : {}),
+        ...(input.currentCrop !== undefined ? { currentCrop: input.currentCrop.trim() } : {}),
+        updatedAt: new Date().toISOString()
+    };
+    return (await FieldService.update(fieldId, updates))!;
+}
+
+export async function deleteField(actor: { id: string; role: string }, fieldId: string): Promise<void> {
+    const field = await FieldService.getById(fieldId);
+    if (!field) throw new FieldError('Field not found', 404);
+    if (!canManageFields(actor, field.farmerId)) throw new FieldError('Not your field', 403);
+    await FieldService.delete(fieldId);
+}
@@ -1,11 +1,34 @@
+import { FieldValue } from 'firebase-admin/firestore';
 import { db } from '../firebase';
 export { db }; // Export db for use in index.ts
-import { User, Item, Booking, Review, ChatMessage, ForumPost, SupportTicket, DamageReport, Notification } from '../types';
+import { User, Item, Booking, BookingEvent, BookingTracking, LocationPoint, Field, PaymentOrder, Refund, LedgerEntry, Settlement, Invoice, Wallet, WalletTransaction, Coupon, CouponRedemption, PricingRule, SurgeAuditEntry, AvailabilityHold, MaintenanceRecord, CalendarFeed, WARPenaltyEvent, StreakEvent, Review, ChatMessage, ForumPost, SupportTicket, KycSubmission, DamageReport, Notification } from '../types';
 
 const COLLECTIONS = {
     USERS: 'users',
     ITEMS: 'items',
     BOOKINGS: 'bookings',
+    BOOKING_EVENTS: 'booking_events',
+    BOOKING_TRACKING: 'booking_tracking',
+    FIELDS: 'fields',
+    PAYMENT_ORDERS: 'payment_orders',
+    PAYMENT_WEBHOOK_EVENTS: 'payment_webhook_events',
+    REFUNDS: 'refunds',
+    LEDGER_ENTRIES: 'ledger_entries',
+    SETTLEMENTS: 'settlements',
+    INVOICES: 'invoices',
+    WALLETS: 'wallets',
+    WALLET_TRANSACTIONS: 'wallet_transactions',
+    COUPONS: 'coupons',
+    COUPON_REDEMPTIONS: 'coupon_redemptions',
+    PRICING_RULES: 'pricing_rules',
+    SURGE_AUDIT: 'surge_audit',
+    AVAILABILITY_HOLDS: 'availability_holds',
+    MAINTENANCE_RECORDS: 'maintenance_records',
+    CALENDAR_FEEDS: 'calendar_feeds',
+    WAR_PENALTY_EVENTS: 'war_penalty_events',
+    STREAK_EVENTS: 'streak_events',
+    COUNTERS: 'counters',
+    SETTINGS: 'settings',
     REVIEWS: 'reviews',
     CHATS: 'chats',
     POSTS: 'posts',
@@ -51,7 +74,19 @@ const create = async <T>(collection: string, data: T & { id: string | number }):
     }
 };
 
-const update = async <T>(collection: string, id: string | number, data: Partial<T>): Promise<T | null> => {
+// A partial update; a field set to FieldValue.delete() is removed from the document
+export type Updates<T> = { [K in keyof T]?: T[K] | FieldValue };
+
+// The record as it reads once `updates` are written, without the fields they delete
+export const withUpdates = <T>(record: T, updates: Updates<T>): T => {
+    const merged: Record<string, unknown> = { ...record, ...updates };
+    for (const [key, value] of Object.entries(updates)) {
+        if (value instanceof FieldValue) delete merged[key];
+    }
+    return merged as T;
+};
+
+const update = async <T>(collection: string, id: string | number, data: Updates<T>): Promise<T | null> => {
     const docRef = db.collection(collection).doc(String(id));
     await docRef.update(data);
     const updated = await docRef.get();
@@ -104,15 +139,32 @@ export const UserService = {
     },
 
     create: (user: User) => create<User>(COLLECTIONS.USERS, user),
-    update: (id: number | string, data: Partial<User>) => update<User>(COLLECTIONS.USERS, id, data),
+    update: (id: number | string, data: Updates<User>) => update<User>(COLLECTIONS.USERS, id, data),
     delete: (id: number | string) => remove(COLLECTIONS.USERS, id),
+    /**
+     * Read a user and write the updates `build` derives from it in one transaction (e.g. the
+     * streak, which several jobs and requests change). `build` returns null to write nothing and
+     * may throw to refuse; it can run more than once, so it must not have side effects of its own.
+     */
+    updateInTransaction: (
+        id: number | string,
+        build: (user: User | null) => Partial<User> | null
+    ): Promise<User | null> => db.runTransaction(async tx => {
+        const userRef = db.collection(COLLECTIONS.USERS).doc(String(id));
+        const userDoc = await tx.get(userRef);
+        const user = userDoc.exists ? ({ id: userDoc.id, ...userDoc.data() } as unknown as User) : null;
+        const updates = build(user);
+        if (!updates) return null;
+        tx.update(userRef, updates);
+        return { ...user, ...updates } as User;
+    }),
 };
 
 export const ItemService = {
     getAll: () => getAll<Item>(COLLECTIONS.ITEMS),
     getById: (id: number) => getById<Item>(COLLECTIONS.ITEMS, id),
     create: (item: Item) => create<Item>(COLLECTIONS.ITEMS, item),
-    update: (id: number, data: Partial<Item>) => update<Item>(COLLECTIONS.ITEMS, id, data),
+    update: (id: number, data: Updates<Item>) => update<Item>(COLLECTIONS.ITEMS, id, data),
     delete: (id: number) => remove(COLLECTIONS.ITEMS, id),
 };
 
@@ -120,7 +172,431 @@ export const BookingService = {
     getAll: () => getAll<Booking>(COLLECTIONS.BOOKINGS),
     getById: (id: string) => getById<Booking>(COLLECTIONS.BOOKINGS, id),
     create: (booking: Booking) => create<Booking>(COLLECTIONS.BOOKINGS, booking),
-    update: (id: string, data: Partial<Booking>) => update<Booking>(COLLECTIONS.BOOKINGS, id, data),
+    update: (id: string, data: Updates<Booking>) => update<Booking>(COLLECTIONS.BOOKINGS, id, data),
+    getForFarmer: async (farmerId: string): Promise<Booking[]> => {
+        const snapshot = await db.collection(COLLECTIONS.BOOKINGS).where('farmerId', '==', farmerId).get();
+        return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as unknown as Booking));
+    },
+    // Occurrences of a recurring series, earliest first
+    getByRecurrenceId: async (recurrenceId: string): Promise<Booking[]> => {
+        const snapshot = await db.collection(COLLECTIONS.BOOKINGS).where('recurrenceId', '==', recurrenceId).get();
+        return snapshot.docs
+            .map(doc => ({ id: doc.id, ...doc.data() } as unknown as Booking))
+            .sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`));
+    },
+    getForItem: async (itemId: number): Promise<Booking[]> => {
+        const snapshot = await db.collection(COLLECTIONS.BOOKINGS).where('itemId', '==', itemId).get();
+        return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as unknown as Booking));
+    },
+    // Shares of a split booking
+    getShares: async (parentBookingId: string): Promise<Booking[]> => {
+        const snapshot = await db.collection(COLLECTIONS.BOOKINGS).where('parentBookingId', '==', parentBookingId).get();
+        return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as unknown as Booking));
+    },
+    /**
+     * Create a share of a split booking in one transaction with a read of the parent and its
+     * existing shares, so two suppliers can't take the same open acres. `build` may throw to refuse.
+     */
+    createShare: (
+        parentBookingId: string,
+        build: (parent: Booking | null, shares: Booking[]) => Booking
+    ): Promise<Booking> => db.runTransaction(async tx => {
+        const parentRef = db.collection(COLLECTIONS.BOOKINGS).doc(parentBookingId);
+        const sharesQuery = db.collection(COLLECTIONS.BOOKINGS).where('parentBookingId', '==', parentBookingId);
+        const [parentDoc, sharesSnap] = await Promise.all([tx.get(parentRef), tx.get(sharesQuery)]);
+
+        const parent = parentDoc.exists ? ({ id: parentDoc.id, ...parentDoc.data() } as unknown as Booking) : null;
+        const shares = sharesSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as unknown as Booking));
+        const share = build(parent, shares);
+        tx.set(db.collection(COLLECTIONS.BOOKINGS).doc(share.id), share);
+        return share;
+    }),
+    /**
+     * Read a booking and write the updates `build` derives from it in one transaction, so nothing
+     * can change the booking between the check and the write. `build` returns null to write nothing
+     * and may throw to refuse; it can run more than once when transactions collide, so it must not
+     * have side effects of its own.
+     */
+    updateInTransaction: (
+        id: string,
+        build: (booking: Booking | null) => Promise<Updates<Booking> | null>
+    ): Promise<Booking> => db.runTransaction(async tx => {
+        const bookingRef = db.collection(COLLECTIONS.BOOKINGS).doc(id);
+        const bookingDoc = await tx.get(bookingRef);
+        const booking = bookingDoc.exists ? ({ id: bookingDoc.id, ...bookingDoc.data() } as unknown as Booking) : null;
+        const updates = await build(booking);
+        if (!updates) return booking as Booking;
+        tx.update(bookingRef, updates);
+        return withUpdates(booking as Booking, updates);
+    }),
+};
+
+// Append-only: events are never updated or deleted
+export const BookingEventService = {
+    create: (event: BookingEvent) => create<BookingEvent>(COLLECTIONS.BOOKING_EVENTS, event),
+    getForBooking: async (bookingId: string): Promise<BookingEvent[]> => {
+        const snapshot = await db.collection(COLLECTIONS.BOOKING_EVENTS).where('bookingId', '==', bookingId).get();
+        return snapshot.docs
+            .map(doc => ({ id: doc.id, ...doc.data() } as unknown as BookingEvent))
+            .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    },
+};
+
+// Live machine position per booking; clients subscribe to the booking_tracking doc for updates
+export const TrackingService = {
+    get: async (bookingId: string): Promise<BookingTracking | null> => {
+        const doc = await db.collection(COLLECTIONS.BOOKING_TRACKING).doc(bookingId).get();
+        return doc.exists ? (doc.data() as BookingTracking) : null;
+    },
+    // Breadcrumb trail, oldest first
+    getPoints: async (bookingId: string): Promise<LocationPoint[]> => {
+        const snapshot = await db.collection(COLLECTIONS.BOOKING_TRACKING).doc(bookingId).collection('points').orderBy('recordedAt').get();
+        return snapshot.docs.map(doc => doc.data() as LocationPoint);
+    },
+    /**
+     * Append a breadcrumb and move the live position in one batch
+     */
+    record: async (tracking: BookingTracking, point: LocationPoint): Promise<void> => {
+        const trackingRef = db.collection(COLLECTIONS.BOOKING_TRACKING).doc(tracking.bookingId);
+        const batch = db.batch();
+        batch.set(trackingRef, tracking);
+        batch.set(trackingRef.collection('points').doc(), point);
+        await batch.commit();
+    },
+};
+
+export const FieldService = {
+    getById: (id: string) => getById<Field>(COLLECTIONS.FIELDS, id),
+    getByFarmer: async (farmerId: string): Promise<Field[]> => {
+        const snapshot = await db.collection(COLLECTIONS.FIELDS).where('farmerId', '==', farmerId).get();
+        return snapshot.docs
+            .map(doc => ({ id: doc.id, ...doc.data() } as Field))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    },
+    create: (field: Field) => create<Field>(COLLECTIONS.FIELDS, field),
+    update: (id: string, data: Updates<Field>) => update<Field>(COLLECTIONS.FIELDS, id, data),
+    delete: (id: string) => remove(COLLECTIONS.FIELDS, id),
+};
+
+export const PaymentOrderService = {
+    getAll: () => getAll<PaymentOrder>(COLLECTIONS.PAYMENT_ORDERS),
+    getById: (id: string) => getById<PaymentOrder>(COLLECTIONS.PAYMENT_ORDERS, id),
+    create: (order: PaymentOrder) => create<PaymentOrder>(COLLECTIONS.PAYMENT_ORDERS, order),
+    update: (id: string, data: Partial<PaymentOrder>) => update<PaymentOrder>(COLLECTIONS.PAYMENT_ORDERS, id, data),
+    getByIdempotencyKey: async (key: string): Promise<PaymentOrder | null> => {
+        const snapshot = await db.collection(COLLECTIONS.PAYMENT_ORDERS).where('idempotencyKey', '==', key).limit(1).get();
+        if (snapshot.empty) return null;
+        return { id: snapshot.docs[0].id, ...snapshot.docs[0].data() } as unknown as PaymentOrder;
+    },
+    getForBooking: async (bookingId: string): Promise<PaymentOrder[]> => {
+        const snapshot = await db.collection(COLLECTIONS.PAYMENT_ORDERS).where('bookingId', '==', bookingId).get();
+        return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as unknown as PaymentOrder));
+    },
+};
+
+// Webhook deliveries already handled, keyed by provider event id
+export const PaymentWebhookEventService = {
+    /**
+     * Atomically claim an event id. Returns false if it was already claimed (duplicate delivery).
+     */
+    claim: async (eventId: string, data: Record<string, unknown>): Promise<boolean> => {
+        try {
+            await db.collection(COLLECTIONS.PAYMENT_WEBHOOK_EVENTS).doc(eventId).create({ ...data, receivedAt: new Date().toISOString() });
+            return true;
+        } catch (error: any) {
+            if (error?.code === 6) return false; // ALREADY_EXISTS
+            throw error;
+        }
+    },
+    release: (eventId: string) => remove(COLLECTIONS.PAYMENT_WEBHOOK_EVENTS, eventId),
+};
+
+export const RefundService = {
+    getAll: async (): Promise<Refund[]> => {
+        const refunds = await getAll<Refund>(COLLECTIONS.REFUNDS);
+        return refunds.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+    getById: (id: string) => getById<Refund>(COLLECTIONS.REFUNDS, id),
+    create: (refund: Refund) => create<Refund>(COLLECTIONS.REFUNDS, refund),
+    update: (id: string, data: Partial<Refund>) => update<Refund>(COLLECTIONS.REFUNDS, id, data),
+};
+
+export const LedgerService = {
+    /**
+     * Post an entry once. Returns false if an entry with the same id was already posted.
+     */
+    post: async (entry: LedgerEntry): Promise<boolean> => {
+        try {
+            await db.collection(COLLECTIONS.LEDGER_ENTRIES).doc(entry.id).create(entry);
+            return true;
+        } catch (error: any) {
+            if (error?.code === 6) return false; // ALREADY_EXISTS
+            throw error;
+        }
+    },
+    getForSupplier: async (supplierId: string): Promise<LedgerEntry[]> => {
+        const snapshot = await db.collection(COLLECTIONS.LEDGER_ENTRIES).where('supplierIds', 'array-contains', supplierId).get();
+        return snapshot.docs
+            .map(doc => ({ id: doc.id, ...doc.data() } as unknown as LedgerEntry))
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+    getForBooking: async (bookingId: string): Promise<LedgerEntry[]> => {
+        const snapshot = await db.collection(COLLECTIONS.LEDGER_ENTRIES).where('bookingId', '==', bookingId).get();
+        return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as unknown as LedgerEntry));
+    },
+    getUnsettled: async (): Promise<LedgerEntry[]> => {
+        const snapshot = await db.collection(COLLECTIONS.LEDGER_ENTRIES).where('settlementId', '==', null).get();
+        return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as unknown as LedgerEntry));
+    },
+    setSettlement: async (entryIds: string[], settlementId: string | null): Promise<void> => {
+        // Firestore batches are limited to 500 writes
+        for (let i = 0; i < entryIds.length; i += 500) {
+            const batch = db.batch();
+            entryIds.slice(i, i + 500).forEach(id => batch.update(db.collection(COLLECTIONS.LEDGER_ENTRIES).doc(id), { settlementId }));
+            await batch.commit();
+        }
+    },
+};
+
+export const SettlementService = {
+    getAll: async (): Promise<Settlement[]> => {
+        const settlements = await getAll<Settlement>(COLLECTIONS.SETTLEMENTS);
+        return settlements.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+    getById: (id: string) => getById<Settlement>(COLLECTIONS.SETTLEMENTS, id),
+    getForSupplier: async (supplierId: string): Promise<Settlement[]> => {
+        const snapshot = await db.collection(COLLECTIONS.SETTLEMENTS).where('supplierId', '==', supplierId).get();
+        return snapshot.docs
+            .map(doc => ({ id: doc.id, ...doc.data() } as unknown as Settlement))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+    create: (settlement: Settlement) => create<Settlement>(COLLECTIONS.SETTLEMENTS, settlement),
+    update: (id: string, data: Partial<Settlement>) => update<Settlement>(COLLECTIONS.SETTLEMENTS, id, data),
+};
+
+export const InvoiceService = {
+    getById: (bookingId: string) => getById<Invoice>(COLLECTIONS.INVOICES, bookingId),
+    /**
+     * Store an invoice under the next number of its counter. The counter and the invoice
+     * are written in one transaction so numbers are unique and have no gaps.
+     * Returns the existing invoice if the booking already has one.
+     */
+    createNumbered: (
+        bookingId: string,
+        counterKey: string,
+        build: (sequence: number) => Invoice
+    ): Promise<Invoice> => db.runTransaction(async tx => {
+        const invoiceRef = db.collection(COLLECTIONS.INVOICES).doc(bookingId);
+        const counterRef = db.collection(COLLECTIONS.COUNTERS).doc(counterKey);
+        const [existing, counter] = await Promise.all([tx.get(invoiceRef), tx.get(counterRef)]);
+        if (existing.exists) return existing.data() as Invoice;
+
+        const sequence = ((counter.data()?.value as number) || 0) + 1;
+        const invoice = build(sequence);
+        tx.set(counterRef, { value: sequence, updatedAt: new Date().toISOString() });
+        tx.set(invoiceRef, invoice);
+        return invoice;
+    }),
+    // Full overwrite so fields dropped on regeneration don't linger
+    replace: async (invoice: Invoice): Promise<Invoice> => {
+        await db.collection(COLLECTIONS.INVOICES).doc(invoice.id).set(invoice);
+        return invoice;
+    },
+};
+
+const emptyWallet = (userId: string): Wallet => ({ userId, balance: 0, promoBalance: 0, updatedAt: new Date().toISOString() });
+
+export const WalletService = {
+    get: async (userId: string): Promise<Wallet> => {
+        const doc = await db.collection(COLLECTIONS.WALLETS).doc(userId).get();
+        return doc.exists ? (doc.data() as Wallet) : emptyWallet(userId);
+    },
+    getTransactions: async (userId: string): Promise<WalletTransaction[]> => {
+        const snapshot = await db.collection(COLLECTIONS.WALLET_TRANSACTIONS).where('userId', '==', userId).get();
+        return snapshot.docs
+            .map(doc => doc.data() as WalletTransaction)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+    /**
+     * Change a wallet balance and record the transaction atomically.
+     * `build` gets the current wallet and returns the signed change, or null to refuse it
+     * (e.g. insufficient balance). A transaction id that was already applied returns the
+     * stored record with created = false instead of applying it again.
+     */
+    applyTransaction: (
+        id: string,
+        userId: string,
+        build: (wallet: Wallet) => Omit<WalletTransaction, 'balanceAfter' | 'promoBalanceAfter'> | null
+    ): Promise<{ transaction: WalletTransaction; created: boolean } | null> => db.runTransaction(async tx => {
+        const walletRef = db.collection(COLLECTIONS.WALLETS).doc(userId);
+        const transactionRef = db.collection(COLLECTIONS.WALLET_TRANSACTIONS).doc(id);
+        const [walletDoc, existing] = await Promise.all([tx.get(walletRef), tx.get(transactionRef)]);
+        if (existing.exists) return { transaction: existing.data() as WalletTransaction, created: false };
+
+        const wallet = walletDoc.exists ? (walletDoc.data() as Wallet) : emptyWallet(userId);
+        const change = build(wallet);
+        if (!change) return null;
+
+        const balance = Math.round((wallet.balance + change.amount) * 100) / 100;
+        const promoBalance = Math.round((wallet.promoBalance + change.promoAmount) * 100) / 100;
+        if (balance < 0 || promoBalance < 0) return null;
+
+        const transaction: WalletTransaction = { ...change, balanceAfter: balance, promoBalanceAfter: promoBalance };
+        tx.set(walletRef, { userId, balance, promoBalance, updatedAt: transaction.createdAt });
+        tx.set(transactionRef, transaction);
+        return { transaction, created: true };
+    }),
+};
+
+export const CouponService = {
+    getAll: async (): Promise<Coupon[]> => {
+        const snapshot = await db.collection(COLLECTIONS.COUPONS).get();
+        return snapshot.docs
+            .map(doc => doc.data() as Coupon)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+    getByCode: async (code: string): Promise<Coupon | null> => {
+        const doc = await db.collection(COLLECTIONS.COUPONS).doc(code).get();
+        return doc.exists ? (doc.data() as Coupon) : null;
+    },
+    /**
+     * Create a coupon. Returns false if the code is already taken.
+     */
+    create: async (coupon: Coupon): Promise<boolean> => {
+        try {
+            await db.collection(COLLECTIONS.COUPONS).doc(coupon.code).create(coupon);
+            return true;
+        } catch (error: any) {
+            if (error?.code === 6) return false; // ALREADY_EXISTS
+            throw error;
+        }
+    },
+    update: async (code: string, data: Partial<Coupon>): Promise<Coupon> => {
+        const docRef = db.collection(COLLECTIONS.COUPONS).doc(code);
+        await docRef.update(data);
+        return (await docRef.get()).data() as Coupon;
+    },
+    getRedemptionCount: async (code: string, userId: string): Promise<number> => {
+        const snapshot = await db.collection(COLLECTIONS.COUPON_REDEMPTIONS)
+            .where('code', '==', code)
+            .where('userId', '==', userId)
+            .get();
+        return snapshot.size;
+    },
+    /**
+     * Record a redemption and bump the coupon's usage count atomically.
+     * `build` gets the current coupon and the user's redemption count and returns the
+     * redemption, or throws to refuse it. Redeeming the same coupon on the same booking
+     * again returns the stored redemption.
+     */
+    redeem: (
+        code: string,
+        bookingId: string,
+        userId: string,
+        build: (coupon: Coupon | null, userRedemptions: number) => CouponRedemption
+    ): Promise<CouponRedemption> => db.runTransaction(async tx => {
+        const couponRef = db.collection(COLLECTIONS.COUPONS).doc(code);
+        const redemptionRef = db.collection(COLLECTIONS.COUPON_REDEMPTIONS).doc(`${code}-${bookingId}`);
+        const userQuery = db.collection(COLLECTIONS.COUPON_REDEMPTIONS).where('code', '==', code).where('userId', '==', userId);
+        const [couponDoc, existing, userRedemptions] = await Promise.all([tx.get(couponRef), tx.get(redemptionRef), tx.get(userQuery)]);
+        if (existing.exists) return existing.data() as CouponRedemption;
+
+        const coupon = couponDoc.exists ? (couponDoc.data() as Coupon) : null;
+        const redemption = build(coupon, userRedemptions.size);
+        tx.update(couponRef, { usedCount: (coupon?.usedCount || 0) + 1, updatedAt: redemption.createdAt });
+        tx.set(redemptionRef, redemption);
+        return redemption;
+    }),
+};
+
+// Admin regional multipliers, maintained from the Demand Control screen (and by the surge scheduler)
+export const PricingRuleService = {
+    getAll: () => getAll<PricingRule>(COLLECTIONS.PRICING_RULES),
+    getActive: async (): Promise<PricingRule[]> => {
+        const snapshot = await db.collection(COLLECTIONS.PRICING_RULES).where('isActive', '==', true).get();
+        return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PricingRule));
+    },
+    getById: (id: string) => getById<PricingRule>(COLLECTIONS.PRICING_RULES, id),
+    // Create or overwrite a rule under a known id
+    save: (rule: PricingRule) => create<PricingRule>(COLLECTIONS.PRICING_RULES, rule),
+    update: (id: string, data: Partial<PricingRule>) => update<PricingRule>(COLLECTIONS.PRICING_RULES, id, data),
+};
+
+// Append-only log of automatic surge changes
+export const SurgeAuditService = {
+    create: (entry: SurgeAuditEntry) => create<SurgeAuditEntry>(COLLECTIONS.SURGE_AUDIT, entry),
+    getRecent: async (limit: number): Promise<SurgeAuditEntry[]> => {
+        const snapshot = await db.collection(COLLECTIONS.SURGE_AUDIT).orderBy('createdAt', 'desc').limit(limit).get();
+        return snapshot.docs.map(doc => doc.data() as SurgeAuditEntry);
+    },
+};
+
+// Short-lived slot reservations; expired holds are ignored by readers and removed when seen
+export const AvailabilityHoldService = {
+    getById: (id: string) => getById<AvailabilityHold>(COLLECTIONS.AVAILABILITY_HOLDS, id),
+    getAll: () => getAll<AvailabilityHold>(COLLECTIONS.AVAILABILITY_HOLDS),
+    getByItem: async (itemId: number): Promise<AvailabilityHold[]> => {
+        const snapshot = await db.collection(COLLECTIONS.AVAILABILITY_HOLDS).where('itemId', '==', itemId).get();
+        return snapshot.docs.map(doc => doc.data() as AvailabilityHold);
+    },
+    create: (hold: AvailabilityHold) => create<AvailabilityHold>(COLLECTIONS.AVAILABILITY_HOLDS, hold),
+    delete: (id: string) => remove(COLLECTIONS.AVAILABILITY_HOLDS, id),
+};
+
+export const MaintenanceRecordService = {
+    getById: (id: string) => getById<MaintenanceRecord>(COLLECTIONS.MAINTENANCE_RECORDS, id),
+    // Newest first
+    getByItem: async (itemId: number): Promise<MaintenanceRecord[]> => {
+        const snapshot = await db.collection(COLLECTIONS.MAINTENANCE_RECORDS).where('itemId', '==', itemId).get();
+        return snapshot.docs
+            .map(doc => doc.data() as MaintenanceRecord)
+            .sort((a, b) => `${b.date} ${b.createdAt}`.localeCompare(`${a.date} ${a.createdAt}`));
+    },
+    create: (record: MaintenanceRecord) => create<MaintenanceRecord>(COLLECTIONS.MAINTENANCE_RECORDS, record),
+    delete: (id: string) => remove(COLLECTIONS.MAINTENANCE_RECORDS, id),
+};
+
+export const CalendarFeedService = {
+    getByUser: (userId: string) => getById<CalendarFeed>(COLLECTIONS.CALENDAR_FEEDS, userId),
+    getByToken: async (token: string): Promise<CalendarFeed | null> => {
+        const snapshot = await db.collection(COLLECTIONS.CALENDAR_FEEDS).where('token', '==', token).limit(1).get();
+        return snapshot.empty ? null : (snapshot.docs[0].data() as CalendarFeed);
+    },
+    // One feed per user; saving replaces (and so revokes) the previous link
+    save: (feed: CalendarFeed) => create<CalendarFeed>(COLLECTIONS.CALENDAR_FEEDS, feed),
+    delete: (userId: string) => remove(COLLECTIONS.CALENDAR_FEEDS, userId),
+};
+
+export const WARPenaltyEventService = {
+    getBySupplier: async (supplierId: string): Promise<WARPenaltyEvent[]> => {
+        const snapshot = await db.collection(COLLECTIONS.WAR_PENALTY_EVENTS).where('supplierId', '==', supplierId).get();
+        return snapshot.docs.map(doc => doc.data() as WARPenaltyEvent);
+    },
+    getById: (id: string) => getById<WARPenaltyEvent>(COLLECTIONS.WAR_PENALTY_EVENTS, id),
+    // Ids are deterministic per booking, type and supplier, so saving twice keeps one event
+    save: (event: WARPenaltyEvent) => create<WARPenaltyEvent>(COLLECTIONS.WAR_PENALTY_EVENTS, event),
+    delete: (id: string) => remove(COLLECTIONS.WAR_PENALTY_EVENTS, id),
+};
+
+export const StreakEventService = {
+    getByUser: async (userId: string): Promise<StreakEvent[]> => {
+        const snapshot = await db.collection(COLLECTIONS.STREAK_EVENTS).where('userId', '==', userId).get();
+        return snapshot.docs.map(doc => doc.data() as StreakEvent);
+    },
+    // Daily outcomes have deterministic ids, so a re-run of the streak job keeps one event per day
+    save: (event: StreakEvent) => create<StreakEvent>(COLLECTIONS.STREAK_EVENTS, event),
+};
+
+// Server-side configuration documents (one doc per setting key)
+export const SettingsService = {
+    get: async <T>(key: string): Promise<T | null> => {
+        const doc = await db.collection(COLLECTIONS.SETTINGS).doc(key).get();
+        return doc.exists ? (doc.data() as T) : null;
+    },
+    set: async <T extends object>(key: string, value: T): Promise<T> => {
+        await db.collection(COLLECTIONS.SETTINGS).doc(key).set(value);
+        return value;
+    },
 };
 
 export const PostService = {
@@ -145,10 +621,10 @@ export const PostService = {
 export const KYCService = {
     getAll: () => getAll<any>('kycsubmissions'), // Use specific type if available
     getById: (id: string) => getById<any>('kycsubmissions', id),
-    getByUserId: async (userId: number) => {
+    getByUserId: async (userId: number | string): Promise<KycSubmission | null> => {
         const snapshot = await db.collection('kycsubmissions').where('userId', '==', userId).limit(1).get();
         if (snapshot.empty) return null;
-        return { id: snapshot.docs[0].id, ...snapshot.docs[0].data() };
+        return { id: snapshot.docs[0].id, ...snapshot.docs[0].data() } as KycSubmission;
     },
     create: (data: any) => create<any>('kycsubmissions', data),
     update: (id: string, data: any) => update<any>('kycsubmissions', id, data),
@@ -0,0 +1,304 @@
+import { PDFDocument, PDFFont, StandardFonts, rgb } from 'pdf-lib';
+import { Booking, Invoice, InvoiceLineItem, InvoiceParty, User } from '../types';
+import { InvoiceService, KYCService, UserService } from './firestore';
+
+/**
+ * Booking Invoices
+ *
+ * One invoice per completed booking, issued by the supplier to the farmer through
+ * the platform. Numbers are sequential per Indian financial year (April - March),
+ * e.g. AR/2025-26/000042, and never change once issued.
+ *
+ * Booking prices are tax-inclusive. Suppliers with a GSTIN on their KYC (GST document)
+ * get a tax invoice with the CGST/SGST split backed out of the total; suppliers without
+ * one can't charge GST, so they get a bill of supply.
+ *
+ * The invoice is stored as a snapshot; the PDF is rendered from it on every download.
+ * Admins can regenerate the snapshot (same number, new revision) after fixing data.
+ */
+
+const INVOICE_PREFIX = 'AR';
+const GST_PERCENT = 18;
+const SAC_CODE = '9986'; // Support services to agriculture
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export class InvoiceError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'InvoiceError';
+    }
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Financial year label for a date, e.g. 2025-26 for anything from 1 Apr 2025 to 31 Mar 2026
+ */
+export function getFinancialYear(date: Date): string {
+    const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Hours actually worked from the work timer, else the booking's estimate
+ */
+export const getWorkedHours = (booking: Booking): number | undefined => {
+    if (booking.workStartTime && booking.workEndTime) {
+        const hours = (new Date(booking.workEndTime).getTime() - new Date(booking.workStartTime).getTime()) / (1000 * 60 * 60);
+        if (hours > 0) return round2(hours);
+    }
+    return booking.estimatedDuration || undefined;
+};
+
+/**
+ * Supplier GSTIN from their KYC GST document, if one was submitted and not rejected
+ */
+async function getSupplierGstin(supplierId: string): Promise<string | undefined> {
+    const kyc = await KYCService.getByUserId(supplierId);
+    const doc = (kyc?.docs || []).find(d => d.type === 'GST' && d.status !== 'Rejected');
+    const gstin = String(doc?.number || '').trim().toUpperCase();
+    return GSTIN_PATTERN.test(gstin) ? gstin : undefined;
+}
+
+const toParty = (user: User | null, fallbackName: string, gstin?: string): InvoiceParty => ({
+    name: user?.name || fallbackName,
+    ...(user?.phone ? { phone: user.phone } : {}),
+    ...(user?.address || user?.location ? { address: user.address || user.location } : {}),
+    ...(gstin ? { gstin } : {}),
+});
+
+/**
+ * Invoice contents for a booking, without the numbering fields
+ */
+async function buildInvoiceBody(booking: Booking): Promise<Omit<Invoice, 'invoiceNumber' | 'sequence' | 'financialYear' | 'issuedAt' | 'revision'>> {
+    if (booking.status !== 'Completed') throw new InvoiceError('Invoices are only available for completed bookings', 409);
+    if (!booking.supplierId) throw new InvoiceError('Booking has no supplier', 409);
+
+    const [farmer, supplier, gstin] = await Promise.all([
+        UserService.getById(booking.farmerId),
+        UserService.getById(booking.supplierId),
+        getSupplierGstin(booking.supplierId)
+    ]);
+
+    const total = round2(booking.farmerPaymentAmount ?? booking.finalPrice ?? booking.estimatedPrice ?? 0);
+    const distanceCharge = round2(booking.distanceCharge || 0);
+    const discountAmount = round2(booking.discountAmount || 0);
+    const serviceValue = round2(total + discountAmount - distanceCharge);
+    const hours = getWorkedHours(booking);
+
+    const lines: InvoiceLineItem[] = [{
+        description: `${booking.itemCategory} hire${booking.workPurpose ? ` - ${booking.workPurpose}` : ''}`,
+        quantity: hours || 1,
+        unit: hours ? 'hr' : 'job',
+        rate: round2(serviceValue / (hours || 1)),
+        amount: serviceValue
+    }];
+    if (distanceCharge > 0) {
+        lines.push({ description: 'Distance charge', quantity: 1, unit: 'trip', rate: distanceCharge, amount: distanceCharge });
+    }
+
+    const gstPercent = gstin ? GST_PERCENT : 0;
+    const taxableValue = round2(total / (1 + gstPercent / 100));
+    const tax = round2(total - taxableValue);
+    const cgst = round2(tax / 2);
+
+    const advancePaid = booking.advancePaymentId ? Math.min(booking.advanceAmount || 0, total) : 0;
+
+    return {
+        id: booking.id,
+        documentType: gstin ? 'tax_invoice' : 'bill_of_supply',
+        bookingId: booking.id,
+        farmerId: booking.farmerId,
+        supplierId: booking.supplierId,
+        supplier: toParty(supplier, 'Supplier', gstin),
+        customer: toParty(farmer, 'Farmer'),
+        serviceDate: booking.date,
+        location: booking.location,
+        ...(booking.workPurpose ? { workPurpose: booking.workPurpose } : {}),
+        ...(hours ? { hours } : {}),
+        sacCode: SAC_CODE,
+        lines,
+        distanceCharge,
+        discountAmount,
+        taxableValue,
+        gstPercent,
+        cgst,
+        sgst: round2(tax - cgst),
+        total,
+        advancePaid,
+        balancePaid: round2(total - advancePaid),
+        paymentMethod: booking.paymentDetails?.method || booking.paymentMethod || 'Cash',
+        paymentReferences: [booking.advancePaymentId, booking.finalPaymentId].filter((id): id is string => !!id)
+    };
+}
+
+/**
+ * The booking's invoice, issuing it under the next number on first request
+ */
+export async function getOrIssueInvoice(booking: Booking): Promise<Invoice> {
+    const existing = await InvoiceService.getById(booking.id);
+    if (existing) return existing;
+
+    const body = await buildInvoiceBody(booking);
+    const issuedAt = new Date();
+    const financialYear = getFinancialYear(issuedAt);
+
+    const invoice = await InvoiceService.createNumbered(booking.id, `invoices-${financialYear}`, sequence => ({
+        ...body,
+        invoiceNumber: `${INVOICE_PREFIX}/${financialYear}/${String(sequence).padStart(6, '0')}`,
+        sequence,
+        financialYear,
+        issuedAt: issuedAt.toISOString(),
+        revision: 1
+    }));
+    console.log(`[Invoices] Issued ${invoice.invoiceNumber} for booking ${booking.id}`);
+    return invoice;
+}
+
+/**
+ * Rebuild an issued invoice from the current booking, user and KYC data.
+ * The number and issue date are kept; the revision goes up.
+ */
+export async function regenerateInvoice(booking: Booking, adminId: string): Promise<Invoice> {
+    const existing = await InvoiceService.getById(booking.id);
+    if (!existing) return getOrIssueInvoice(booking);
+
+    const body = await buildInvoiceBody(booking);
+    const regenerated: Invoice = {
+        ...body,
+        invoiceNumber: existing.invoiceNumber,
+        sequence: existing.sequence,
+        financialYear: existing.financialYear,
+        issuedAt: existing.issuedAt,
+        revision: (existing.revision || 1) + 1,
+        regeneratedAt: new Date().toISOString(),
+        regeneratedBy: adminId
+    };
+    await InvoiceService.replace(regenerated);
+    console.log(`[Invoices] Regenerated ${regenerated.invoiceNumber} (revision ${regenerated.revision})`);
+    return regenerated;
+}
+
+// Standard PDF fonts can't encode the rupee sign
+const money = (value: number): string =>
+    `Rs. ${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Render an invoice (with its payment receipt) as an A4 PDF
+ */
+export async function renderInvoicePdf(invoice: Invoice): Promise<Uint8Array> {
+    const doc = await PDFDocument.create();
+    const page = doc.addPage([595, 842]);
+    const font = await doc.embedFont(StandardFonts.Helvetica);
+    const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+    const margin = 40;
+    const right = 595 - margin;
+    let y = 800;
+
+    const text = (value: string, x: number, options: { size?: number; font?: PDFFont; alignRight?: boolean } = {}) => {
+        const size = options.size || 10;
+        const f = options.font || font;
+        const drawX = options.alignRight ? x - f.widthOfTextAtSize(value, size) : x;
+        page.drawText(value, { x: drawX, y, size, font: f, color: rgb(0.1, 0.1, 0.1) });
+    };
+    const rule = () => {
+        page.drawLine({ start: { x: margin, y }, end: { x: right, y }, thickness: 1, color: rgb(0.8, 0.8, 0.8) });
+    };
+
+    text(invoice.documentType === 'tax_invoice' ? 'TAX INVOICE' : 'BILL OF SUPPLY', margin, { size: 18, font: bold });
+    text(`Invoice No: ${invoice.invoiceNumber}`, right, { font: bold, alignRight: true });
+    y -= 16;
+    text(`Date: ${new Date(invoice.issuedAt).toLocaleDateString('en-IN')}`, right, { alignRight: true });
+    y -= 14;
+    text(`Booking: ${invoice.bookingId}`, right, { alignRight: true });
+    if (invoice.revision > 1) {
+        y -= 14;
+        text(`Revision ${invoice.revision}`, right, { size: 9, alignRight: true });
+    }
+    y -= 24;
+    rule();
+    y -= 18;
+
+    // Parties
+    const partyTop = y;
+    const drawParty = (label: string, party: InvoiceParty, x: number) => {
+        y = partyTop;
+        text(label, x, { size: 9, font: bold });
+        y -= 14;
+        text(party.name, x, { size: 11, font: bold });
+        for (const line of [party.address, party.phone && `Phone: ${party.phone}`, party.gstin && `GSTIN: ${party.gstin}`]) {
+            if (!line) continue;
+            y -= 13;
+            text(line.slice(0, 45), x);
+        }
+    };
+    drawParty('SUPPLIER', invoice.supplier, margin);
+    const supplierBottom = y;
+    drawParty('BILL TO', invoice.customer, 320);
+    y = Math.min(y, supplierBottom) - 24;
+
+    text(`Service date: ${invoice.serviceDate}`, margin);
+    text(`SAC: ${invoice.sacCode}`, right, { alignRight: true });
+    y -= 13;
+    text(`Location: ${invoice.location.slice(0, 80)}`, margin);
+    if (invoice.workPurpose) {
+        y -= 13;
+        text(`Work: ${invoice.workPurpose}`, margin);
+    }
+    y -= 22;
+
+    // Line items
+    rule();
+    y -= 14;
+    text('Description', margin, { font: bold });
+    text('Qty', 330, { font: bold, alignRight: true });
+    text('Rate', 440, { font: bold, alignRight: true });
+    text('Amount', right, { font: bold, alignRight: true });
+    y -= 8;
+    rule();
+    for (const line of invoice.lines) {
+        y -= 16;
+        text(line.description.slice(0, 45), margin);
+        text(`${line.quantity} ${line.unit}`, 330, { alignRight: true });
+        text(money(line.rate), 440, { alignRight: true });
+        text(money(line.amount), right, { alignRight: true });
+    }
+    y -= 10;
+    rule();
+
+    // Totals
+    const totalRow = (label: string, value: string, f: PDFFont = font) => {
+        y -= 16;
+        text(label, 440, { font: f, alignRight: true });
+        text(value, right, { font: f, alignRight: true });
+    };
+    if (invoice.discountAmount > 0) totalRow('Discount', `- ${money(invoice.discountAmount)}`);
+    if (invoice.documentType === 'tax_invoice') {
+        totalRow('Taxable value', money(invoice.taxableValue));
+        totalRow(`CGST @ ${invoice.gstPercent / 2}%`, money(invoice.cgst));
+        totalRow(`SGST @ ${invoice.gstPercent / 2}%`, money(invoice.sgst));
+    }
+    totalRow('Total', money(invoice.total), bold);
+    if (invoice.documentType === 'bill_of_supply') {
+        y -= 14;
+        text('Supplier is not registered under GST. No tax has been charged.', margin, { size: 8 });
+    }
+    y -= 28;
+
+    // Receipt
+    text('PAYMENT RECEIPT', margin, { size: 11, font: bold });
+    y -= 8;
+    rule();
+    totalRow('Advance paid online', money(invoice.advancePaid));
+    totalRow(`Balance paid (${invoice.paymentMethod})`, money(invoice.balancePaid));
+    totalRow('Amount received', money(invoice.total), bold);
+    if (invoice.paymentReferences.length > 0) {
+        y -= 16;
+        text(`Payment reference(s): ${invoice.paymentReferences.join(', ')}`, margin, { size: 9 });
+    }
+
+    y = 50;
+    text('Issued through AgriRent on behalf of the supplier. This is a computer-generated document.', margin, { size: 8 });
+
+    return doc.save();
+}
@@ -0,0 +1,324 @@
+import { Booking, LedgerEntry, LedgerLine, Refund, Settlement, SupplierLedger, SupplierLedgerLine, WalletTransaction } from '../types';
+import { LedgerService, SettlementService, SettingsService } from './firestore';
+
+/**
+ * Supplier Payout Ledger
+ *
+ * Double-entry journal of the money that moves through a booking. Every entry
+ * balances (debits == credits) and is posted once per event via a
+ * deterministic id, so retries and duplicate hooks cannot double count.
+ *
+ * Supplier balances live on the supplier_payable account: credits are what the
+ * platform owes the supplier (job earnings, distance charges), debits are cash
+ * they collected directly from the farmer, penalties and payouts.
+ *
+ * Wallets behave like a payment source: money paid in (top-ups, refunds) moves
+ * from gateway_clearing to wallet_balances, and wallet payments move it back so
+ * the usual advance / completion postings apply unchanged. Admin credits are a
+ * platform expense.
+ *
+ * Commission is configured in settings/finance (commissionPercent).
+ */
+
+const FINANCE_SETTINGS_KEY = 'finance';
+export const DEFAULT_COMMISSION_PERCENT = 10;
+
+export interface FinanceSettings {
+    commissionPercent: number;
+    updatedAt?: string;
+    updatedBy?: string;
+}
+
+export interface BookingSplit {
+    farmerAmount: number;            // Total the farmer pays
+    advancePaid: number;             // Part of it already held as an online advance
+    discount: number;                // Platform-funded discount
+    distanceCharge: number;          // Passed through to the supplier without commission
+    commission: number;
+    supplierAmount: number;          // Job earning after commission + distance charge
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const debit = (account: LedgerLine['account'], kind: LedgerLine['kind'], amount: number, supplierId?: string): LedgerLine =>
+    ({ account, kind, debit: round2(amount), credit: 0, ...(supplierId ? { supplierId } : {}) });
+
+const credit = (account: LedgerLine['account'], kind: LedgerLine['kind'], amount: number, supplierId?: string): LedgerLine =>
+    ({ account, kind, debit: 0, credit: round2(amount), ...(supplierId ? { supplierId } : {}) });
+
+export async function getFinanceSettings(): Promise<FinanceSettings> {
+    const stored = await SettingsService.get<FinanceSettings>(FINANCE_SETTINGS_KEY);
+    return { commissionPercent: DEFAULT_COMMISSION_PERCENT, ...(stored || {}) };
+}
+
+export async function saveFinanceSettings(commissionPercent: number, updatedBy: string): Promise<FinanceSettings> {
+    return SettingsService.set<FinanceSettings>(FINANCE_SETTINGS_KEY, {
+        commissionPercent,
+        updatedAt: new Date().toISOString(),
+        updatedBy
+    });
+}
+
+/**
+ * Split what the farmer pays into commission and supplier share. Pure.
+ */
+export function calculateBookingSplit(booking: Booking, commissionPercent: number): BookingSplit {
+    const farmerAmount = booking.farmerPaymentAmount ?? booking.finalPrice ?? booking.estimatedPrice ?? 0;
+    const advancePaid = booking.advancePaymentId ? Math.min(booking.advanceAmount || 0, farmerAmount) : 0;
+    const discount = booking.discountAmount || 0;
+    const distanceCharge = Math.min(booking.distanceCharge || 0, farmerAmount + discount);
+
+    const jobValue = farmerAmount + discount - distanceCharge;
+    const commission = round2(jobValue * commissionPercent / 100);
+
+    return {
+        farmerAmount,
+        advancePaid,
+        discount,
+        distanceCharge,
+        commission,
+        supplierAmount: round2(jobValue - commission + distanceCharge)
+    };
+}
+
+/**
+ * Bookings without a payment method are settled in cash with the supplier (the app default)
+ */
+export const isCashPayment = (booking: Booking): boolean => (booking.paymentMethod || 'Cash') === 'Cash';
+
+const assertBalanced = (entry: LedgerEntry): void => {
+    const debits = round2(entry.lines.reduce((sum, l) => sum + l.debit, 0));
+    const credits = round2(entry.lines.reduce((sum, l) => sum + l.credit, 0));
+    if (debits !== credits) {
+        throw new Error(`Ledger entry ${entry.id} is unbalanced: debits ${debits} != credits ${credits}`);
+    }
+};
+
+async function postEntry(entry: Omit<LedgerEntry, 'supplierIds' | 'settlementId' | 'createdAt'> & { settlementId?: string }): Promise<boolean> {
+    const lines = entry.lines.filter(l => l.debit > 0 || l.credit > 0);
+    if (lines.length === 0) return false;
+
+    const full: LedgerEntry = {
+        ...entry,
+        lines,
+        supplierIds: Array.from(new Set(lines.filter(l => l.supplierId).map(l => l.supplierId!))),
+        settlementId: entry.settlementId || null,
+        createdAt: new Date().toISOString()
+    };
+    if (!full.memo) delete full.memo; // Firestore rejects undefined values
+    assertBalanced(full);
+
+    const posted = await LedgerService.post(full);
+    if (posted) console.log(`[Ledger] Posted ${full.id} (${full.type})`);
+    return posted;
+}
+
+/**
+ * Online advance captured: the platform holds it against the booking
+ */
+export async function postAdvanceReceived(bookingId: string, amount: number, paymentId: string): Promise<void> {
+    await postEntry({
+        id: `LE-${bookingId}-advance`,
+        type: 'advance_received',
+        bookingId,
+        memo: `Advance ${paymentId}`,
+        lines: [
+            debit('gateway_clearing', 'advance', amount),
+            credit('farmer_advances', 'advance', amount)
+        ]
+    });
+}
+
+/**
+ * Booking completed and paid: farmer payment, discount, commission, distance charge and supplier share
+ */
+export async function postBookingCompletion(booking: Booking, split: BookingSplit): Promise<void> {
+    if (!booking.supplierId) return;
+    const supplierId = booking.supplierId;
+    const remainder = split.farmerAmount - split.advancePaid;
+    const paidInCash = isCashPayment(booking);
+
+    await postEntry({
+        id: `LE-${booking.id}-completion`,
+        type: 'booking_completed',
+        bookingId: booking.id,
+        memo: `${booking.itemCategory} on ${booking.date} (${paidInCash ? 'cash' : 'online'})`,
+        lines: [
+            debit('farmer_advances', 'advance', split.advancePaid),
+            paidInCash
+                ? debit('supplier_payable', 'cash_collected', remainder, supplierId)
+                : debit('gateway_clearing', 'farmer_payment', remainder),
+            debit('discount_expense', 'discount', split.discount),
+            credit('commission_revenue', 'commission', split.commission),
+            credit('supplier_payable', 'supplier_earning', split.supplierAmount - split.distanceCharge, supplierId),
+            credit('supplier_payable', 'distance_charge', split.distanceCharge, supplierId)
+        ]
+    });
+}
+
+/**
+ * Cancellation: advance split into refund and fee, and/or a supplier penalty
+ */
+export async function postCancellation(refund: Refund): Promise<void> {
+    const lines: LedgerLine[] = [];
+
+    if (refund.cancelledBy !== 'supplier' && refund.amountPaid > 0) {
+        lines.push(
+            debit('farmer_advances', 'advance', refund.amountPaid),
+            credit('refunds_payable', 'refund', refund.refundAmount),
+            credit('cancellation_fee_revenue', 'cancellation_fee', refund.cancellationFee)
+        );
+    }
+    if (refund.supplierPenalty > 0 && refund.supplierId) {
+        lines.push(
+            debit('supplier_payable', 'supplier_penalty', refund.supplierPenalty, refund.supplierId),
+            credit('penalty_revenue', 'supplier_penalty', refund.supplierPenalty)
+        );
+    }
+
+    await postEntry({
+        id: `LE-${refund.id}`,
+        type: 'cancellation',
+        bookingId: refund.bookingId,
+        memo: `${refund.cancelledBy} cancellation`,
+        lines
+    });
+}
+
+/**
+ * Refund paid out to the farmer
+ */
+export async function postRefundPaid(refund: Refund): Promise<void> {
+    await postEntry({
+        id: `LE-${refund.id}-paid`,
+        type: 'refund_paid',
+        bookingId: refund.bookingId,
+        memo: refund.processingReference,
+        lines: [
+            debit('refunds_payable', 'refund', refund.refundAmount),
+            credit('gateway_clearing', 'refund', refund.refundAmount)
+        ]
+    });
+}
+
+/**
+ * Settlement paid to the supplier's bank account
+ */
+export async function postSupplierPayout(settlement: Settlement): Promise<void> {
+    await postEntry({
+        id: `LE-${settlement.id}-payout`,
+        type: 'supplier_payout',
+        settlementId: settlement.id,
+        memo: settlement.payoutReference,
+        lines: [
+            debit('supplier_payable', 'payout', settlement.netPayable, settlement.supplierId),
+            credit('gateway_clearing', 'payout', settlement.netPayable)
+        ]
+    });
+}
+
+/**
+ * Wallet balance change: top-up, refund or admin credit paid in, or a booking or verified plan paid from it
+ */
+export async function postWalletTransaction(transaction: WalletTransaction): Promise<void> {
+    const amount = Math.abs(transaction.amount + transaction.promoAmount);
+    const lines: LedgerLine[] = transaction.type === 'booking_payment'
+        ? [debit('wallet_balances', 'wallet_payment', amount), credit('gateway_clearing', 'wallet_payment', amount)]
+        : transaction.type === 'subscription_payment'
+            ? [debit('wallet_balances', 'subscription', amount), credit('subscription_revenue', 'subscription', amount)]
+            : transaction.type === 'goodwill_credit' || transaction.type === 'promo_credit'
+                ? [debit('discount_expense', 'wallet_credit', amount), credit('wallet_balances', 'wallet_credit', amount)]
+                : [
+                    debit('gateway_clearing', transaction.type === 'refund' ? 'refund' : 'wallet_top_up', amount),
+                    credit('wallet_balances', transaction.type === 'refund' ? 'refund' : 'wallet_top_up', amount)
+                ];
+
+    await postEntry({
+        id: `LE-${transaction.id}`,
+        type: 'wallet_transaction',
+        ...(transaction.bookingId ? { bookingId: transaction.bookingId } : {}),
+        memo: `Wallet ${transaction.type.replace('_', ' ')} (${transaction.userId})`,
+        lines
+    });
+}
+
+/**
+ * Verified-account plan paid online: platform revenue held in the gateway
+ */
+export async function postSubscriptionPayment(paymentId: string, amount: number, supplierId: string): Promise<void> {
+    await postEntry({
+        id: `LE-SUB-${paymentId}`,
+        type: 'subscription_payment',
+        memo: `Verified plan (${supplierId})`,
+        lines: [debit('gateway_clearing', 'subscription', amount), credit('subscription_revenue', 'subscription', amount)]
+    });
+}
+
+/**
+ * Net amount on a supplier's payable lines in the given entries (positive = owed to them)
+ */
+export function getSupplierNet(entries: LedgerEntry[], supplierId: string): number {
+    let net = 0;
+    for (const entry of entries) {
+        for (const line of entry.lines) {
+            if (line.account === 'supplier_payable' && line.supplierId === supplierId) {
+                net += line.credit - line.debit;
+            }
+        }
+    }
+    return round2(net);
+}
+
+/**
+ * Supplier statement: balance, totals by kind, per-line history and settlements
+ */
+export async function getSupplierLedger(supplierId: string): Promise<SupplierLedger> {
+    const [entries, settlements] = await Promise.all([
+        LedgerService.getForSupplier(supplierId),
+        SettlementService.getForSupplier(supplierId)
+    ]);
+
+    const summary = { earnings: 0, distanceCharges: 0, commission: 0, cashCollected: 0, penalties: 0, paidOut: 0 };
+    const lines: SupplierLedgerLine[] = [];
+
+    for (const entry of entries) {
+        for (const line of entry.lines) {
+            // Commission is platform revenue, but it is taken from this supplier's job
+            if (line.kind === 'commission') summary.commission += line.credit;
+            if (line.account !== 'supplier_payable' || line.supplierId !== supplierId) continue;
+
+            const amount = round2(line.credit - line.debit);
+            if (line.kind === 'supplier_earning') summary.earnings += amount;
+            if (line.kind === 'distance_charge') summary.distanceCharges += amount;
+            if (line.kind === 'cash_collected') summary.cashCollected -= amount;
+            if (line.kind === 'supplier_penalty') summary.penalties -= amount;
+            if (line.kind === 'payout') summary.paidOut -= amount;
+
+            lines.push({
+                entryId: entry.id,
+                type: entry.type,
+                kind: line.kind,
+                ...(entry.bookingId ? { bookingId: entry.bookingId } : {}),
+                amount,
+                settlementId: entry.settlementId,
+                createdAt: entry.createdAt
+            });
+        }
+    }
+
+    return {
+        supplierId,
+        balance: getSupplierNet(entries, supplierId),
+        unsettledBalance: getSupplierNet(entries.filter(e => !e.settlementId), supplierId),
+        summary: {
+            earnings: round2(summary.earnings),
+            distanceCharges: round2(summary.distanceCharges),
+            commission: round2(summary.commission),
+            cashCollected: round2(summary.cashCollected),
+            penalties: round2(summary.penalties),
+            paidOut: round2(summary.paidOut)
+        },
+        lines: lines.reverse(),
+        settlements
+    };
+}
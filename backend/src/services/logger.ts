@@ -175,7 +175,20 @@ type AuditAction =
     | 'KYC_APPROVED'
     | 'KYC_REJECTED'
     | 'PASSWORD_CHANGED'
-    | 'ROLE_CHANGED';
+    | 'ROLE_CHANGED'
+    | 'PAYMENT_RECONCILE'
+    | 'CANCELLATION_POLICY_UPDATED'
+    | 'REFUND_PROCESSED'
+    | 'SETTLEMENT_UPDATED'
+    | 'FINANCE_SETTINGS_UPDATED'
+    | 'INVOICE_REGENERATED'
+    | 'WALLET_CREDIT_ISSUED'
+    | 'COUPON_CREATED'
+    | 'COUPON_UPDATED'
+    | 'SURGE_SETTINGS_UPDATED'
+    | 'SURGE_RULE_UPDATED'
+    | 'SUSPENSION_POLICY_UPDATED'
+    | 'SUSPENSION_APPEAL_DECIDED';
 
 export const logAudit = (action: AuditAction, data: {
     performedBy: string | number;
@@ -0,0 +1,258 @@
+import { Booking, Item, MaintenancePart, MaintenanceRecord, MaintenanceRecordType, MaintenanceSummary, MaintenanceWindow, ServiceReminderStatus, UserRole } from '../types';
+import { FieldValue } from 'firebase-admin/firestore';
+import { BookingService, ItemService, MaintenanceRecordService, NotificationService, Updates } from './firestore';
+import { isSplitParent } from './bookingStateMachine';
+import { getWorkedHours } from './invoices';
+import { DEFAULT_AVAILABILITY, findBookingsInWindow, loadAvailabilityContext, validateAvailability } from './availability';
+
+/**
+ * Equipment Maintenance Log
+ *
+ * Suppliers log services, repairs and parts (with costs) against each item. Engine hours are
+ * the item's starting hour-meter reading plus the hours of every completed booking (the work
+ * timer when it ran, else the booking's estimate). With a service interval set, the item is
+ * due a service once that many hours have run since the last logged service; the supplier is
+ * notified when a completed job takes it into the due-soon band and again when it goes overdue.
+ *
+ * A record can also block downtime: the item gets a maintenance window on its calendar
+ * (availability.ts) for the record's date, which is refused while active bookings sit in it
+ * and removed again with the record. Admins and founders can read any item's log for
+ * re-verification and damage disputes.
+ */
+
+const RECORD_TYPES: MaintenanceRecordType[] = ['service', 'repair', 'parts'];
+const DUE_SOON_FRACTION = 0.1;     // Remind once less than 10% of the service interval is left
+
+const RECORD_TYPE_LABELS: Record<MaintenanceRecordType, string> = {
+    service: 'Service',
+    repair: 'Repair',
+    parts: 'Parts'
+};
+
+export class MaintenanceError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'MaintenanceError';
+    }
+}
+
+export interface MaintenanceInput {
+    type: MaintenanceRecordType;
+    date: string;
+    description: string;
+    parts?: MaintenancePart[];
+    labourCost?: number;
+    downtime?: { startTime?: string; endTime?: string }; // Block the item's calendar on the record's date
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const today = () => new Date().toISOString().split('T')[0];
+
+const countsTowardEngineHours = (booking: Booking, itemId: number): boolean =>
+    booking.itemId === itemId && booking.status === 'Completed' && !isSplitParent(booking);
+
+/**
+ * Hour-meter reading: starting hours plus completed booking hours. Pure.
+ */
+export function getEngineHours(item: Item, bookings: Booking[]): number {
+    const worked = bookings
+        .filter(b => countsTowardEngineHours(b, item.id))
+        .reduce((sum, b) => sum + (getWorkedHours(b) || 0), 0);
+    return round1((item.initialEngineHours || 0) + worked);
+}
+
+const getServiceStatus = (hoursUntilService: number | undefined, intervalHours?: number): ServiceReminderStatus => {
+    if (!intervalHours || hoursUntilService === undefined) return 'not_tracked';
+    if (hoursUntilService <= 0) return 'overdue';
+    if (hoursUntilService <= intervalHours * DUE_SOON_FRACTION) return 'due_soon';
+    return 'ok';
+};
+
+// Reading at the last service that has happened; planned services don't reset the reminder yet
+const getLastServiceHours = (item: Item, records: MaintenanceRecord[]): number => records
+    .filter(r => r.type === 'service' && r.date <= today())
+    .reduce((latest, r) => Math.max(latest, r.engineHours), item.initialEngineHours || 0);
+
+/**
+ * Engine hours, service reminder and totals for an item. Pure.
+ */
+export function summarizeMaintenance(item: Item, bookings: Booking[], records: MaintenanceRecord[]): MaintenanceSummary {
+    const engineHours = getEngineHours(item, bookings);
+    const lastServiceHours = getLastServiceHours(item, records);
+    const hoursUntilService = item.serviceIntervalHours ? round1(lastServiceHours + item.serviceIntervalHours - engineHours) : undefined;
+    return {
+        itemId: item.id,
+        engineHours,
+        ...(item.serviceIntervalHours ? { serviceIntervalHours: item.serviceIntervalHours } : {}),
+        lastServiceHours,
+        ...(hoursUntilService !== undefined ? { hoursUntilService } : {}),
+        serviceStatus: getServiceStatus(hoursUntilService, item.serviceIntervalHours),
+        totalCost: records.reduce((sum, r) => sum + r.totalCost, 0),
+        records
+    };
+}
+
+const getItemOrThrow = async (itemId: number): Promise<Item> => {
+    const item = await ItemService.getById(itemId);
+    if (!item) throw new MaintenanceError('Item not found', 404);
+    return item;
+};
+
+const assertOwner = (item: Item, supplierId: string) => {
+    if (String(item.ownerId) !== supplierId) throw new MaintenanceError('You can only manage maintenance for your own items', 403);
+};
+
+/**
+ * An item's maintenance summary for its owner or staff
+ */
+export async function getMaintenanceSummary(itemId: number, viewer: { id: string; role: string }): Promise<MaintenanceSummary> {
+    const item = await getItemOrThrow(itemId);
+    const isStaff = viewer.role === UserRole.Admin || viewer.role === UserRole.Founder;
+    if (!isStaff) assertOwner(item, viewer.id);
+    const [bookings, records] = await Promise.all([BookingService.getForItem(itemId), MaintenanceRecordService.getByItem(itemId)]);
+    return summarizeMaintenance(item, bookings, records);
+}
+
+/**
+ * Set the hour-meter reading at listing and the service interval. Either may be cleared with null.
+ */
+export async function saveServicePlan(
+    itemId: number,
+    supplierId: string,
+    plan: { initialEngineHours?: number | null; serviceIntervalHours?: number | null }
+): Promise<Item> {
+    const item = await getItemOrThrow(itemId);
+    assertOwner(item, supplierId);
+    const { initialEngineHours, serviceIntervalHours } = plan;
+    if (initialEngineHours != null && !(Number(initialEngineHours) >= 0)) throw new MaintenanceError('initialEngineHours must be 0 or more');
+    if (serviceIntervalHours != null && !(Number(serviceIntervalHours) > 0)) throw new MaintenanceError('serviceIntervalHours must be greater than 0');
+
+    // Cleared fields are removed from the item
+    const updates: Updates<Item> = {
+        initialEngineHours: initialEngineHours != null ? Number(initialEngineHours) : FieldValue.delete(),
+        serviceIntervalHours: serviceIntervalHours != null ? Number(serviceIntervalHours) : FieldValue.delete()
+    };
+    return (await ItemService.update(itemId, updates))!;
+}
+
+const validateInput = (input: MaintenanceInput): string | null => {
+    if (!RECORD_TYPES.includes(input.type)) return `type must be one of ${RECORD_TYPES.join(', ')}`;
+    if (typeof input.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(input.date)) return 'date must be YYYY-MM-DD';
+    if (typeof input.description !== 'string' || !input.description.trim()) return 'A description is needed';
+    if (input.labourCost !== undefined && !(Number(input.labourCost) >= 0)) return 'labourCost must be 0 or more';
+    if (input.parts !== undefined && (!Array.isArray(input.parts) || input.parts.some(p => !p || typeof p.name !== 'string' || !p.name.trim() || !(Number(p.cost) >= 0)))) {
+        return 'Every part needs a name and a cost of 0 or more';
+    }
+    if (input.downtime && input.date < today()) return 'Downtime can only be scheduled from today onwards';
+    return null;
+};
+
+/**
+ * Put the record's downtime on the item's calendar, refusing it while active bookings sit in the window
+ */
+async function blockDowntime(item: Item, record: MaintenanceRecord, downtime: NonNullable<MaintenanceInput['downtime']>): Promise<Item> {
+    const window: MaintenanceWindow = {
+        id: `MW-${record.id}`,
+        date: record.date,
+        ...(downtime.startTime && downtime.endTime ? { startTime: downtime.startTime, endTime: downtime.endTime } : {}),
+        reason: `${RECORD_TYPE_LABELS[record.type]}: ${record.description}`,
+        recordId: record.id
+    };
+    const calendar = item.availability || DEFAULT_AVAILABILITY;
+    const next = { ...calendar, maintenance: [...calendar.maintenance, window], updatedAt: new Date().toISOString() };
+    const error = validateAvailability(next);
+    if (error) throw new MaintenanceError(error);
+
+    const clashes = findBookingsInWindow(await loadAvailabilityContext(item), window);
+    if (clashes.length > 0) {
+        const first = clashes[0];
+        throw new MaintenanceError(
+            `${clashes.length} active booking${clashes.length > 1 ? 's' : ''} on ${record.date} overlap${clashes.length > 1 ? '' : 's'} this downtime (first at ${first.startTime}). Move or cancel ${clashes.length > 1 ? 'them' : 'it'} first.`,
+            409
+        );
+    }
+    record.downtimeWindowId = window.id;
+    return (await ItemService.update(item.id, { availability: next }))!;
+}
+
+/**
+ * Log a service, repair or parts replacement, optionally blocking downtime on the item's calendar.
+ * Returns the record and the item as it now stands.
+ */
+export async function logMaintenance(itemId: number, supplierId: string, input: MaintenanceInput): Promise<{ record: MaintenanceRecord; item: Item }> {
+    let item = await getItemOrThrow(itemId);
+    assertOwner(item, supplierId);
+    const error = validateInput(input);
+    if (error) throw new MaintenanceError(error);
+
+    const parts = (input.parts || []).map(p => ({ name: p.name.trim(), cost: Number(p.cost) }));
+    const labourCost = Number(input.labourCost || 0);
+    const record: MaintenanceRecord = {
+        id: `MNT-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+        itemId,
+        supplierId,
+        type: input.type,
+        date: input.date,
+        description: input.description.trim(),
+        parts,
+        labourCost,
+        totalCost: labourCost + parts.reduce((sum, p) => sum + p.cost, 0),
+        engineHours: getEngineHours(item, await BookingService.getForItem(itemId)),
+        createdAt: new Date().toISOString()
+    };
+
+    if (input.downtime) item = await blockDowntime(item, record, input.downtime);
+    await MaintenanceRecordService.create(record);
+    console.log(`[Maintenance] ${record.type} logged for item ${itemId} at ${record.engineHours}h${record.downtimeWindowId ? ' with downtime' : ''}`);
+    return { record, item };
+}
+
+/**
+ * Delete a record and the downtime it put on the calendar. Returns the item as it now stands.
+ */
+export async function deleteMaintenanceRecord(itemId: number, recordId: string, supplierId: string): Promise<Item> {
+    let item = await getItemOrThrow(itemId);
+    assertOwner(item, supplierId);
+    const record = await MaintenanceRecordService.getById(recordId);
+    if (!record || record.itemId !== itemId) throw new MaintenanceError('Maintenance record not found', 404);
+
+    if (item.availability?.maintenance.some(w => w.recordId === recordId)) {
+        item = (await ItemService.update(itemId, {
+            availability: {
+                ...item.availability,
+                maintenance: item.availability.maintenance.filter(w => w.recordId !== recordId),
+                updatedAt: new Date().toISOString()
+            }
+        }))!;
+    }
+    await MaintenanceRecordService.delete(recordId);
+    return item;
+}
+
+/**
+ * After a job completes, tell the supplier when it took the item into the due-soon band or past its service
+ */
+export async function remindServiceAfterCompletion(booking: Booking): Promise<void> {
+    if (!booking.itemId || isSplitParent(booking)) return;
+    const item = await ItemService.getById(booking.itemId);
+    if (!item?.serviceIntervalHours) return;
+
+    const [bookings, records] = await Promise.all([BookingService.getForItem(item.id), MaintenanceRecordService.getByItem(item.id)]);
+    const before = summarizeMaintenance(item, bookings.filter(b => b.id !== booking.id), records);
+    const after = summarizeMaintenance(item, [...bookings.filter(b => b.id !== booking.id), { ...booking, status: 'Completed' }], records);
+    if (after.serviceStatus === before.serviceStatus || (after.serviceStatus !== 'due_soon' && after.serviceStatus !== 'overdue')) return;
+
+    const message = after.serviceStatus === 'overdue'
+        ? `${item.name} is overdue for a service: ${after.engineHours}h on the meter, ${Math.abs(after.hoursUntilService!)}h past its ${item.serviceIntervalHours}h interval.`
+        : `${item.name} is due a service in ${after.hoursUntilService}h (${after.engineHours}h on the meter). Plan some downtime from your schedule.`;
+    await NotificationService.create({
+        id: Date.now() + Math.random(),
+        userId: String(item.ownerId),
+        message,
+        type: 'system',
+        category: 'alert',
+        priority: after.serviceStatus === 'overdue' ? 'high' : 'medium',
+        read: false,
+        timestamp: new Date().toISOString()
+    });
+}
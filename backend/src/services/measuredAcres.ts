@@ -0,0 +1,169 @@
+import { Booking } from '../types';
+import { BookingService, ItemService, NotificationService } from './firestore';
+import { recordBookingEvent } from './bookingEvents';
+import { TransitionActor } from './bookingStateMachine';
+import { calculatePurposeCharge } from './unitPricing';
+import { polygonAreaAcres } from './fields';
+
+/**
+ * Measured-Area Billing
+ *
+ * Per-acre jobs are quoted on the acres the farmer booked, but fields are rarely the size
+ * people think. While the work is In Process the supplier enters the acres actually
+ * covered, or walks the boundary with GPS. The machine charge is recomputed at the
+ * booking's unit price (minimum charge included) and the difference applied to
+ * finalPrice - but only once the farmer approves. A rejected measurement leaves the
+ * booked price in place.
+ */
+
+export const MEASURABLE_STATUSES = ['In Process'];
+const MAX_MEASURED_ACRES = 1000;
+
+export class MeasurementError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'MeasurementError';
+    }
+}
+
+const machineCharge = (booking: Booking, acres: number): number =>
+    calculatePurposeCharge(
+        { price: booking.unitPrice || 0, unit: 'acre', minimumCharge: booking.minimumCharge },
+        { hours: booking.estimatedDuration || 0, acres, quantity: booking.quantity }
+    );
+
+/**
+ * finalPrice with the machine charge for the booked acres swapped for the measured ones. Pure.
+ */
+export function recomputeFinalPrice(booking: Booking, measuredAcres: number): number {
+    const current = booking.finalPrice ?? booking.estimatedPrice ?? 0;
+    const delta = machineCharge(booking, measuredAcres) - machineCharge(booking, booking.acres || 0);
+    return Math.max(0, Math.round(current + delta));
+}
+
+/**
+ * Bookings accepted on the server (dispatch offers, series, shares) don't carry unit terms;
+ * fall back to the item's purpose at list price.
+ */
+async function withUnitTerms(booking: Booking): Promise<Booking> {
+    if (booking.pricingUnit || !booking.itemId) return booking;
+    const item = await ItemService.getById(booking.itemId);
+    const purpose = item?.purposes.find(p => p.name === booking.workPurpose);
+    if (!purpose) return booking;
+    return {
+        ...booking,
+        pricingUnit: purpose.unit || 'hour',
+        unitPrice: purpose.price,
+        ...(purpose.minimumCharge ? { minimumCharge: purpose.minimumCharge } : {})
+    };
+}
+
+export const hasPendingMeasurement = (booking: Booking): boolean => booking.acreMeasurementStatus === 'pending';
+
+/**
+ * Supplier / operator reports the acres worked, typed in or from a walked GPS boundary.
+ */
+export async function submitMeasuredAcres(
+    bookingId: string,
+    actor: TransitionActor,
+    input: { acres?: number; boundary?: { lat: number; lng: number }[] }
+): Promise<Booking> {
+    const stored = await BookingService.getById(bookingId);
+    if (!stored) throw new MeasurementError('Booking not found', 404);
+    const booking = await withUnitTerms(stored);
+    if (actor.id !== String(booking.supplierId) && actor.id !== String(booking.operatorId)) {
+        throw new MeasurementError('Only the assigned supplier or operator can report acres', 403);
+    }
+    if (booking.pricingUnit !== 'acre' || !booking.unitPrice) throw new MeasurementError('This booking is not billed per acre', 409);
+    if (!MEASURABLE_STATUSES.includes(booking.status)) throw new MeasurementError('Acres can only be reported while the work is In Process', 409);
+
+    let acres: number;
+    let source: 'manual' | 'gps';
+    if (input.boundary) {
+        if (!Array.isArray(input.boundary) || input.boundary.length < 3) throw new MeasurementError('The walked boundary needs at least 3 points');
+        acres = polygonAreaAcres(input.boundary);
+        source = 'gps';
+    } else {
+        acres = Math.round((input.acres || 0) * 100) / 100;
+        source = 'manual';
+    }
+    if (!(acres > 0) || acres > MAX_MEASURED_ACRES) throw new MeasurementError(`Measured acres must be between 0 and ${MAX_MEASURED_ACRES}`);
+
+    const proposedFinalPrice = recomputeFinalPrice(booking, acres);
+    const currentPrice = booking.finalPrice ?? booking.estimatedPrice ?? 0;
+    // Nothing for the farmer to approve when the price doesn't move
+    const status = proposedFinalPrice === currentPrice ? 'approved' : 'pending';
+    const updates: Partial<Booking> = {
+        ...(stored.pricingUnit ? {} : { pricingUnit: booking.pricingUnit, unitPrice: booking.unitPrice, ...(booking.minimumCharge ? { minimumCharge: booking.minimumCharge } : {}) }),
+        measuredAcres: acres,
+        acreMeasurementSource: source,
+        acreMeasurementStatus: status,
+        proposedFinalPrice,
+        measuredAt: new Date().toISOString(),
+        ...(status === 'approved' ? { acres } : {})
+    };
+    const updated = await BookingService.update(bookingId, updates);
+    await recordBookingEvent(bookingId, 'acres_measured', {
+        actorId: actor.id,
+        actorRole: actor.role,
+        changedFields: Object.keys(updates),
+        note: `${booking.acres ?? '?'} -> ${acres} acres (${source}), ₹${currentPrice} -> ₹${proposedFinalPrice}`
+    });
+
+    if (status === 'pending') {
+        await NotificationService.create({
+            id: Date.now() + Math.random(),
+            userId: booking.bookedByAgentId || booking.farmerId,
+            message: `The supplier measured ${acres} acres for booking #${bookingId.substring(0, 8)} (booked ${booking.acres ?? '?'}). New total ₹${proposedFinalPrice} instead of ₹${currentPrice} - please approve or reject.`,
+            type: 'booking',
+            category: 'booking',
+            priority: 'high',
+            read: false,
+            timestamp: new Date().toISOString()
+        });
+    }
+    console.log(`[MeasuredAcres] ${actor.id} reported ${acres} acres (${source}) for ${bookingId}`);
+    return updated as Booking;
+}
+
+/**
+ * Farmer (or their agent) approves or rejects a pending measurement.
+ */
+export async function reviewMeasuredAcres(bookingId: string, actor: TransitionActor, approve: boolean): Promise<Booking> {
+    const booking = await BookingService.getById(bookingId);
+    if (!booking) throw new MeasurementError('Booking not found', 404);
+    if (actor.id !== String(booking.farmerId) && actor.id !== String(booking.bookedByAgentId)) {
+        throw new MeasurementError('Only the farmer can approve measured acres', 403);
+    }
+    if (!hasPendingMeasurement(booking)) throw new MeasurementError('There is no measurement waiting for approval', 409);
+
+    const previousPrice = booking.finalPrice ?? booking.estimatedPrice ?? 0;
+    const updates: Partial<Booking> = approve
+        ? { acreMeasurementStatus: 'approved', acres: booking.measuredAcres, finalPrice: booking.proposedFinalPrice }
+        : { acreMeasurementStatus: 'rejected' };
+    const updated = await BookingService.update(bookingId, updates);
+    await recordBookingEvent(bookingId, 'acres_reviewed', {
+        actorId: actor.id,
+        actorRole: actor.role,
+        changedFields: Object.keys(updates),
+        note: approve
+            ? `Approved ${booking.measuredAcres} acres, ₹${previousPrice} -> ₹${booking.proposedFinalPrice}`
+            : `Rejected ${booking.measuredAcres} acres, price stays ₹${previousPrice}`
+    });
+
+    if (booking.supplierId) {
+        await NotificationService.create({
+            id: Date.now() + Math.random(),
+            userId: booking.supplierId,
+            message: approve
+                ? `The farmer approved ${booking.measuredAcres} acres for booking #${bookingId.substring(0, 8)}. Final price ₹${booking.proposedFinalPrice}.`
+                : `The farmer rejected the measured ${booking.measuredAcres} acres for booking #${bookingId.substring(0, 8)}. The booked price of ₹${previousPrice} stands; contact support if you disagree.`,
+            type: 'booking',
+            category: 'booking',
+            priority: 'medium',
+            read: false,
+            timestamp: new Date().toISOString()
+        });
+    }
+    return updated as Booking;
+}
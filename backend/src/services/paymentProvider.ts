@@ -0,0 +1,243 @@
+import crypto from 'crypto';
+import axios from 'axios';
+
+/**
+ * Payment Provider Abstraction
+ *
+ * The rest of the backend talks to payment gateways only through this interface.
+ * The active provider is picked from PAYMENT_PROVIDER ('razorpay' | 'fake'):
+ * - razorpay (default): needs RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET
+ * - fake: in-memory gateway for local development and tests. Only when set explicitly,
+ *   never with NODE_ENV=production, and it needs FAKE_PAYMENT_WEBHOOK_SECRET.
+ * A missing or incomplete configuration fails at startup (the server resolves the provider
+ * before it starts listening).
+ *
+ * Amounts passed to and from providers are in paise.
+ */
+
+export interface ProviderOrder {
+    id: string;
+    amount: number; // paise
+    currency: string;
+    receipt: string;
+}
+
+export interface ProviderPayment {
+    id: string;
+    orderId: string;
+    amount: number; // paise
+    status: 'captured' | 'failed' | 'pending';
+}
+
+export interface ProviderWebhookEvent {
+    eventId: string;
+    type: 'payment.captured' | 'payment.failed';
+    payment: ProviderPayment;
+}
+
+export interface PaymentProvider {
+    readonly name: string;
+    createOrder(amountPaise: number, receipt: string, notes?: Record<string, string>): Promise<ProviderOrder>;
+    verifyWebhookSignature(rawBody: string, signature: string): boolean;
+    parseWebhook(rawBody: string, eventIdHeader?: string): ProviderWebhookEvent | null;
+    fetchOrderPayments(orderId: string): Promise<ProviderPayment[]>;
+    checkoutConfig(): { keyId?: string };
+}
+
+const hmacSha256 = (secret: string, payload: string): string =>
+    crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+const safeEqual = (a: string, b: string): boolean => {
+    const bufA = Buffer.from(a);
+    const bufB = Buffer.from(b);
+    return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+};
+
+const toPaymentStatus = (status: string): ProviderPayment['status'] => {
+    if (status === 'captured') return 'captured';
+    if (status === 'failed') return 'failed';
+    return 'pending';
+};
+
+// The fields we read from a Razorpay payment entity
+interface RazorpayPayment {
+    id: string;
+    order_id: string;
+    amount: number; // paise
+    status: string;
+}
+
+/**
+ * Razorpay (Orders API + webhooks signed with HMAC-SHA256 of the raw body)
+ */
+export class RazorpayProvider implements PaymentProvider {
+    readonly name = 'razorpay';
+    private readonly baseUrl = 'https://api.razorpay.com/v1';
+
+    constructor(
+        private readonly keyId: string,
+        private readonly keySecret: string,
+        private readonly webhookSecret: string
+    ) { }
+
+    private get auth() {
+        return { username: this.keyId, password: this.keySecret };
+    }
+
+    async createOrder(amountPaise: number, receipt: string, notes: Record<string, string> = {}): Promise<ProviderOrder> {
+        const { data } = await axios.post(`${this.baseUrl}/orders`, {
+            amount: amountPaise,
+            currency: 'INR',
+            receipt,
+            notes
+        }, { auth: this.auth, timeout: 15000 });
+        return { id: data.id, amount: data.amount, currency: data.currency, receipt: data.receipt };
+    }
+
+    verifyWebhookSignature(rawBody: string, signature: string): boolean {
+        if (!signature) return false;
+        return safeEqual(hmacSha256(this.webhookSecret, rawBody), signature);
+    }
+
+    parseWebhook(rawBody: string, eventIdHeader?: string): ProviderWebhookEvent | null {
+        const body = JSON.parse(rawBody);
+        if (body.event !== 'payment.captured' && body.event !== 'payment.failed') return null;
+
+        const entity = body.payload?.payment?.entity;
+        if (!entity?.id || !entity?.order_id) return null;
+
+        return {
+            // Razorpay sends a unique id per delivery attempt group in x-razorpay-event-id
+            eventId: eventIdHeader || `${body.event}:${entity.id}`,
+            type: body.event,
+            payment: {
+                id: entity.id,
+                orderId: entity.order_id,
+                amount: entity.amount,
+                status: toPaymentStatus(entity.status)
+            }
+        };
+    }
+
+    async fetchOrderPayments(orderId: string): Promise<ProviderPayment[]> {
+        const { data } = await axios.get<{ items?: RazorpayPayment[] }>(`${this.baseUrl}/orders/${orderId}/payments`, { auth: this.auth, timeout: 15000 });
+        return (data.items || []).map(p => ({
+            id: p.id,
+            orderId: p.order_id,
+            amount: p.amount,
+            status: toPaymentStatus(p.status)
+        }));
+    }
+
+    checkoutConfig() {
+        return { keyId: this.keyId };
+    }
+}
+
+/**
+ * In-memory gateway. Orders and payments live for the lifetime of the process;
+ * capture() produces a correctly signed webhook body so the real webhook path is exercised.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+    readonly name = 'fake';
+    private readonly orders = new Map<string, ProviderOrder>();
+    private readonly payments = new Map<string, ProviderPayment[]>();
+
+    constructor(private readonly webhookSecret: string) { }
+
+    async createOrder(amountPaise: number, receipt: string): Promise<ProviderOrder> {
+        const order: ProviderOrder = {
+            id: `order_fake_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+            amount: amountPaise,
+            currency: 'INR',
+            receipt
+        };
+        this.orders.set(order.id, order);
+        return order;
+    }
+
+    verifyWebhookSignature(rawBody: string, signature: string): boolean {
+        if (!signature) return false;
+        return safeEqual(hmacSha256(this.webhookSecret, rawBody), signature);
+    }
+
+    parseWebhook(rawBody: string, eventIdHeader?: string): ProviderWebhookEvent | null {
+        const body = JSON.parse(rawBody);
+        if (body.event !== 'payment.captured' && body.event !== 'payment.failed') return null;
+
+        // Only payments this process produced in capture() are real; the body's copy is not trusted
+        const payment = (this.payments.get(body.payment?.orderId) || []).find(p => p.id === body.payment?.id);
+        if (!payment) return null;
+
+        return {
+            eventId: eventIdHeader || body.id,
+            type: body.event,
+            payment
+        };
+    }
+
+    async fetchOrderPayments(orderId: string): Promise<ProviderPayment[]> {
+        return this.payments.get(orderId) || [];
+    }
+
+    checkoutConfig() {
+        return {};
+    }
+
+    /**
+     * Simulate the customer paying an order. Returns the webhook the gateway would send.
+     */
+    capture(orderId: string, amountPaise?: number): { rawBody: string; signature: string; eventId: string } {
+        const order = this.orders.get(orderId);
+        if (!order) throw new Error(`Unknown fake order ${orderId}`);
+
+        const payment: ProviderPayment = {
+            id: `pay_fake_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+            orderId,
+            amount: amountPaise ?? order.amount,
+            status: 'captured'
+        };
+        this.payments.set(orderId, [...(this.payments.get(orderId) || []), payment]);
+
+        const eventId = `evt_fake_${payment.id}`;
+        const rawBody = JSON.stringify({ id: eventId, event: 'payment.captured', payment });
+        return { rawBody, signature: hmacSha256(this.webhookSecret, rawBody), eventId };
+    }
+}
+
+let activeProvider: PaymentProvider | null = null;
+
+/**
+ * The fake gateway (and its capture endpoint) is only available when chosen explicitly outside production
+ */
+export const isFakePaymentProviderEnabled = (): boolean =>
+    process.env.PAYMENT_PROVIDER === 'fake' && process.env.NODE_ENV !== 'production';
+
+/**
+ * The configured payment provider (created once per process)
+ */
+export const getPaymentProvider = (): PaymentProvider => {
+    if (activeProvider) return activeProvider;
+
+    const { PAYMENT_PROVIDER, RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET, FAKE_PAYMENT_WEBHOOK_SECRET } = process.env;
+
+    if (PAYMENT_PROVIDER === 'fake') {
+        if (!isFakePaymentProviderEnabled()) {
+            throw new Error('The fake payment provider cannot be used with NODE_ENV=production');
+        }
+        if (!FAKE_PAYMENT_WEBHOOK_SECRET) {
+            throw new Error('PAYMENT_PROVIDER=fake needs FAKE_PAYMENT_WEBHOOK_SECRET');
+        }
+        activeProvider = new FakePaymentProvider(FAKE_PAYMENT_WEBHOOK_SECRET);
+    } else if (!PAYMENT_PROVIDER || PAYMENT_PROVIDER === 'razorpay') {
+        if (!RAZORPAY_KEY_ID || !RAZORPAY_KEY_SECRET || !RAZORPAY_WEBHOOK_SECRET) {
+            throw new Error('RAZORPAY_KEY_ID / RAZORPAY_KEY_SECRET / RAZORPAY_WEBHOOK_SECRET are not all set (set PAYMENT_PROVIDER=fake for local development)');
+        }
+        activeProvider = new RazorpayProvider(RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET);
+    } else {
+        throw new Error(`Unknown PAYMENT_PROVIDER '${PAYMENT_PROVIDER}'`);
+    }
+
+    console.log(`[Payments] Using ${activeProvider.name} payment provider`);
+    return activeProvider;
+};
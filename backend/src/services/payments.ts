@@ -0,0 +1,527 @@
+import { Booking, PaymentOrder, PaymentPurpose, VerifiedPlanId, WalletTransaction } from '../types';
+import { BookingService, PaymentOrderService, PaymentWebhookEventService, NotificationService, UserService, WalletService } from './firestore';
+import { getPaymentProvider, ProviderPayment, ProviderWebhookEvent } from './paymentProvider';
+import { transitionBooking } from './bookingStateMachine';
+import { recordBookingEvent } from './bookingEvents';
+import { postAdvanceReceived, postSubscriptionPayment } from './ledger';
+import { creditWallet, debitWalletForBooking, MAX_TOP_UP, MIN_TOP_UP, WalletError } from './wallet';
+import { activateVerifiedPlan, getSupplierOrThrow, getVerifiedPlan } from './verifiedSubscriptions';
+
+/**
+ * Online Payments
+ *
+ * - Orders are created server-side for the advance or the final amount, so the
+ *   amount charged always comes from the booking and never from the client.
+ * - The provider's signed webhook is the only thing that marks an order paid and
+ *   moves a booking out of 'Pending Payment'.
+ * - Order creation is idempotent per Idempotency-Key (default: booking + purpose)
+ *   and webhook deliveries are deduplicated by provider event id.
+ * - A reconciliation job compares our orders and booking paymentDetails with the
+ *   provider's records and flags mismatches for admins.
+ * - Wallet top-ups go through the same orders and webhook; booking payments from
+ *   the wallet skip the provider and are applied to the booking the same way.
+ * - A final amount paid in cash is recorded by the supplier who received it.
+ * - Verified-account plans bought online are orders too; the webhook activates the
+ *   plan with the provider's payment id as its reference.
+ */
+
+const PAYMENT_ACTOR = 'payment-gateway';
+const RECONCILE_WINDOW_DAYS = 7;
+const RECONCILE_INTERVAL_MS = 6 * 60 * 60 * 1000; // Every 6 hours
+
+export class PaymentError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'PaymentError';
+    }
+}
+
+const toPaise = (rupees: number): number => Math.round(rupees * 100);
+
+type CheckoutInfo = { provider: string; keyId?: string; orderId: string; amount: number; currency: string };
+
+const checkoutFor = (order: PaymentOrder): CheckoutInfo => ({
+    provider: order.provider,
+    ...getPaymentProvider().checkoutConfig(),
+    orderId: order.providerOrderId,
+    amount: toPaise(order.amount),
+    currency: order.currency
+});
+
+/**
+ * Amount due (in rupees) for a booking and purpose, or a PaymentError explaining why nothing can be charged
+ */
+/**
+ * Whether the paid advance already covers the booking's price, so it can skip Pending Payment
+ */
+export const isPaidByAdvance = (booking: Booking): boolean =>
+    !!booking.advancePaymentId && (booking.advanceAmount || 0) >= (booking.finalPrice ?? booking.estimatedPrice ?? 0);
+
+export function getAmountDue(booking: Booking, purpose: PaymentPurpose): number {
+    if (purpose === 'advance') {
+        if (booking.advancePaymentId) throw new PaymentError('Advance has already been paid', 409);
+        if (['Completed', 'Cancelled', 'Expired', 'Pending Payment'].includes(booking.status)) {
+            throw new PaymentError(`Cannot pay an advance for a booking that is ${booking.status}`, 409);
+        }
+        if (!booking.advanceAmount || booking.advanceAmount <= 0) {
+            throw new PaymentError('This booking has no advance amount');
+        }
+        return booking.advanceAmount;
+    }
+
+    if (booking.status !== 'Pending Payment') {
+        throw new PaymentError('Final payment is only possible once work is finished (Pending Payment)', 409);
+    }
+    const total = booking.finalPrice ?? booking.estimatedPrice ?? 0;
+    const alreadyPaid = booking.advancePaymentId ? (booking.advanceAmount || 0) : 0;
+    const due = total - alreadyPaid;
+    if (due <= 0) throw new PaymentError('Nothing left to pay for this booking', 409);
+    return due;
+}
+
+/**
+ * Create (or return the existing) provider order for a booking payment
+ */
+export async function createPaymentOrder(
+    booking: Booking,
+    purpose: PaymentPurpose,
+    createdBy: string,
+    idempotencyKey?: string
+): Promise<{ order: PaymentOrder; checkout: CheckoutInfo }> {
+    const provider = getPaymentProvider();
+    const key = idempotencyKey || `${booking.id}:${purpose}`;
+
+    // Retries with the same key get the same order back
+    const existing = await PaymentOrderService.getByIdempotencyKey(key);
+    if (existing && existing.status !== 'failed') {
+        if (existing.status === 'paid') throw new PaymentError('This payment has already been completed', 409);
+        return { order: existing, checkout: checkoutFor(existing) };
+    }
+
+    const amount = getAmountDue(booking, purpose);
+    const providerOrder = await provider.createOrder(toPaise(amount), `${booking.id}-${purpose}`.slice(0, 40), {
+        bookingId: booking.id,
+        purpose
+    });
+
+    const order: PaymentOrder = {
+        id: providerOrder.id,
+        bookingId: booking.id,
+        purpose,
+        amount,
+        currency: 'INR',
+        provider: provider.name,
+        providerOrderId: providerOrder.id,
+        status: 'created',
+        // A failed order frees its key, so the retry gets a fresh one
+        idempotencyKey: existing ? `${key}:${Date.now()}` : key,
+        createdBy,
+        createdAt: new Date().toISOString()
+    };
+    await PaymentOrderService.create(order);
+    console.log(`[Payments] Created ${purpose} order ${order.id} for booking ${booking.id}: ₹${amount}`);
+
+    return { order, checkout: checkoutFor(order) };
+}
+
+/**
+ * Create (or return the existing) provider order for a wallet top-up
+ */
+export async function createTopUpOrder(
+    userId: string,
+    amount: number,
+    idempotencyKey: string
+): Promise<{ order: PaymentOrder; checkout: CheckoutInfo }> {
+    if (!(amount >= MIN_TOP_UP && amount <= MAX_TOP_UP)) {
+        throw new PaymentError(`Top-up amount must be between ₹${MIN_TOP_UP} and ₹${MAX_TOP_UP}`);
+    }
+
+    const provider = getPaymentProvider();
+    const existing = await PaymentOrderService.getByIdempotencyKey(idempotencyKey);
+    if (existing && existing.status !== 'failed') {
+        if (existing.status === 'paid') throw new PaymentError('This top-up has already been completed', 409);
+        return { order: existing, checkout: checkoutFor(existing) };
+    }
+
+    const rounded = Math.round(amount * 100) / 100;
+    const providerOrder = await provider.createOrder(toPaise(rounded), `wallet-${Date.now()}`, { walletUserId: userId, purpose: 'wallet_top_up' });
+    const order: PaymentOrder = {
+        id: providerOrder.id,
+        walletUserId: userId,
+        purpose: 'wallet_top_up',
+        amount: rounded,
+        currency: 'INR',
+        provider: provider.name,
+        providerOrderId: providerOrder.id,
+        status: 'created',
+        idempotencyKey: existing ? `${idempotencyKey}:${Date.now()}` : idempotencyKey,
+        createdBy: userId,
+        createdAt: new Date().toISOString()
+    };
+    await PaymentOrderService.create(order);
+    console.log(`[Payments] Created wallet top-up order ${order.id} for ${userId}: ₹${rounded}`);
+
+    return { order, checkout: checkoutFor(order) };
+}
+
+/**
+ * Create (or return the existing) provider order for a verified-account plan
+ */
+export async function createSubscriptionOrder(
+    userId: string,
+    planId: VerifiedPlanId,
+    idempotencyKey: string
+): Promise<{ order: PaymentOrder; checkout: CheckoutInfo }> {
+    const plan = getVerifiedPlan(planId);
+    await getSupplierOrThrow(userId);
+
+    const provider = getPaymentProvider();
+    const existing = await PaymentOrderService.getByIdempotencyKey(idempotencyKey);
+    if (existing && existing.status !== 'failed') {
+        if (existing.status === 'paid') throw new PaymentError('This plan purchase has already been completed', 409);
+        return { order: existing, checkout: checkoutFor(existing) };
+    }
+
+    const providerOrder = await provider.createOrder(toPaise(plan.price), `verified-${plan.id}-${Date.now()}`, { subscriberId: userId, purpose: 'verified_subscription' });
+    const order: PaymentOrder = {
+        id: providerOrder.id,
+        subscriberId: userId,
+        planId: plan.id,
+        purpose: 'verified_subscription',
+        amount: plan.price,
+        currency: 'INR',
+        provider: provider.name,
+        providerOrderId: providerOrder.id,
+        status: 'created',
+        idempotencyKey: existing ? `${idempotencyKey}:${Date.now()}` : idempotencyKey,
+        createdBy: userId,
+        createdAt: new Date().toISOString()
+    };
+    await PaymentOrderService.create(order);
+    console.log(`[Payments] Created ${plan.id} verified plan order ${order.id} for ${userId}: ₹${plan.price}`);
+
+    return { order, checkout: checkoutFor(order) };
+}
+
+const describeOrderTarget = (order: PaymentOrder): string => {
+    if (order.bookingId) return `booking ${order.bookingId}`;
+    if (order.purpose === 'verified_subscription') return `verified plan of ${order.subscriberId}`;
+    return `wallet top-up of ${order.walletUserId}`;
+};
+
+const notifyAdminOfPaymentIssue = async (message: string): Promise<void> => {
+    await NotificationService.create({
+        id: Date.now() + Math.random(),
+        userId: '0',
+        message,
+        type: 'admin',
+        category: 'alert',
+        priority: 'high',
+        read: false,
+        timestamp: new Date().toISOString()
+    });
+};
+
+/**
+ * Record a successful advance or final payment on the booking.
+ * A final payment completes the booking (commission split and paymentDetails
+ * are filled in by the completion-ledger hook).
+ */
+async function applyBookingPayment(
+    booking: Booking,
+    purpose: PaymentPurpose,
+    amount: number,
+    paymentId: string,
+    method: 'Online' | 'Wallet' | 'Cash',
+    actorId: string
+): Promise<void> {
+    await recordBookingEvent(booking.id, 'payment_received', {
+        actorId,
+        changedFields: [purpose === 'advance' ? 'advancePaymentId' : 'finalPaymentId'],
+        note: `${method} ${purpose} payment ${paymentId} of ₹${amount}`
+    });
+
+    if (purpose === 'advance') {
+        await BookingService.update(booking.id, { advancePaymentId: paymentId });
+        await postAdvanceReceived(booking.id, amount, paymentId);
+        return;
+    }
+
+    const total = booking.finalPrice ?? booking.estimatedPrice ?? 0;
+    const { transition, updates } = await transitionBooking(booking, 'Completed', {
+        finalPaymentId: paymentId,
+        paymentMethod: method,
+        farmerPaymentAmount: total
+    }, { id: actorId });
+    await BookingService.update(booking.id, updates);
+
+    await recordBookingEvent(booking.id, 'status_changed', {
+        actorId,
+        fromStatus: transition.from,
+        toStatus: transition.to,
+        changedFields: ['status', 'finalPaymentId', 'paymentMethod', 'paymentDetails'],
+        note: `Completed by ${method.toLowerCase()} payment ${paymentId}`
+    });
+
+    if (booking.supplierId) {
+        await NotificationService.create({
+            id: Date.now(),
+            userId: booking.supplierId,
+            message: `${method} payment received for booking #${booking.id.substring(0, 5)}. Supplier payout: ₹${total}.`,
+            type: 'booking',
+            category: 'booking',
+            priority: 'medium',
+            read: false,
+            timestamp: new Date().toISOString()
+        });
+    }
+}
+
+/**
+ * Apply a captured payment to its order and booking (or wallet, for top-ups; or plan, for subscriptions)
+ */
+async function applyCapturedPayment(order: PaymentOrder, payment: ProviderPayment): Promise<void> {
+    if (order.status === 'paid') {
+        console.log(`[Payments] Order ${order.id} already paid, ignoring capture ${payment.id}`);
+        return;
+    }
+
+    const target = describeOrderTarget(order);
+    if (payment.amount !== toPaise(order.amount)) {
+        await PaymentOrderService.update(order.id, {
+            providerPaymentId: payment.id,
+            reconciliationStatus: 'mismatch',
+            reconciliationNote: `Captured ${payment.amount} paise but order was for ${toPaise(order.amount)} paise`
+        });
+        await notifyAdminOfPaymentIssue(`Payment ${payment.id} for ${target} captured a different amount than ordered. Please review.`);
+        return;
+    }
+
+    const paidAt = new Date().toISOString();
+    await PaymentOrderService.update(order.id, { status: 'paid', providerPaymentId: payment.id, paidAt });
+
+    if (order.purpose === 'wallet_top_up') {
+        await creditWallet(order.walletUserId!, 'top_up', order.amount, {
+            id: `WT-${order.id}`,
+            paymentOrderId: order.id,
+            note: `Payment ${payment.id}`,
+            createdBy: PAYMENT_ACTOR
+        });
+        return;
+    }
+
+    if (order.purpose === 'verified_subscription') {
+        await activateVerifiedPlan(order.subscriberId!, order.planId!, { method: 'Online', reference: payment.id, amount: order.amount, source: 'purchase' });
+        await postSubscriptionPayment(payment.id, order.amount, order.subscriberId!);
+        return;
+    }
+
+    const booking = order.bookingId ? await BookingService.getById(order.bookingId) : null;
+    if (!booking) {
+        await notifyAdminOfPaymentIssue(`Payment ${payment.id} captured for missing booking ${order.bookingId}.`);
+        return;
+    }
+
+    if (order.purpose === 'final' && booking.status !== 'Pending Payment') {
+        // e.g. cash was recorded while the farmer was also paying online
+        await recordBookingEvent(booking.id, 'payment_received', {
+            actorId: PAYMENT_ACTOR,
+            changedFields: [],
+            note: `Online final payment ${payment.id} of ₹${order.amount} via ${order.provider}`
+        });
+        await PaymentOrderService.update(order.id, {
+            reconciliationStatus: 'mismatch',
+            reconciliationNote: `Final payment captured while booking was ${booking.status}`
+        });
+        await notifyAdminOfPaymentIssue(`Final payment ${payment.id} captured for booking ${booking.id} which is already ${booking.status}. Possible double payment.`);
+        return;
+    }
+
+    await applyBookingPayment(booking, order.purpose, order.amount, payment.id, 'Online', PAYMENT_ACTOR);
+}
+
+/**
+ * Pay a booking's advance or final amount from the farmer's wallet
+ */
+export async function payBookingFromWallet(booking: Booking, purpose: PaymentPurpose, payerId: string): Promise<WalletTransaction> {
+    const amount = getAmountDue(booking, purpose);
+    try {
+        const transaction = await debitWalletForBooking(booking.farmerId, amount, booking.id, purpose, payerId);
+        await applyBookingPayment(booking, purpose, amount, transaction.id, 'Wallet', payerId);
+        return transaction;
+    } catch (error) {
+        if (error instanceof WalletError) throw new PaymentError(error.message, error.statusCode);
+        throw error;
+    }
+}
+
+/**
+ * Record the final amount as handed over in cash (confirmed by whoever received it)
+ */
+export async function recordCashPayment(booking: Booking, receivedBy: string): Promise<void> {
+    const amount = getAmountDue(booking, 'final');
+    await applyBookingPayment(booking, 'final', amount, `cash_${Date.now()}`, 'Cash', receivedBy);
+}
+
+/**
+ * Verify and process a webhook delivery.
+ * Returns 'duplicate' for an event already handled, 'ignored' for events we don't act on.
+ */
+export async function handlePaymentWebhook(
+    rawBody: string,
+    signature: string,
+    eventIdHeader?: string
+): Promise<'processed' | 'duplicate' | 'ignored'> {
+    const provider = getPaymentProvider();
+    if (!provider.verifyWebhookSignature(rawBody, signature)) {
+        throw new PaymentError('Invalid webhook signature', 401);
+    }
+
+    let event: ProviderWebhookEvent | null;
+    try {
+        event = provider.parseWebhook(rawBody, eventIdHeader);
+    } catch {
+        throw new PaymentError('Malformed webhook body');
+    }
+    if (!event) return 'ignored';
+
+    const claimed = await PaymentWebhookEventService.claim(event.eventId, {
+        type: event.type,
+        orderId: event.payment.orderId,
+        paymentId: event.payment.id
+    });
+    if (!claimed) return 'duplicate';
+
+    try {
+        const order = await PaymentOrderService.getById(event.payment.orderId);
+        if (!order) {
+            console.warn(`[Payments] Webhook for unknown order ${event.payment.orderId}`);
+            return 'ignored';
+        }
+
+        if (event.type === 'payment.captured') {
+            await applyCapturedPayment(order, event.payment);
+        } else if (order.status === 'created') {
+            await PaymentOrderService.update(order.id, { status: 'failed', providerPaymentId: event.payment.id });
+            console.log(`[Payments] Order ${order.id} failed (payment ${event.payment.id})`);
+        }
+        return 'processed';
+    } catch (error) {
+        // Let the provider's retry reach us again
+        await PaymentWebhookEventService.release(event.eventId);
+        throw error;
+    }
+}
+
+/**
+ * Compare one order (and its booking) against the provider's payment records
+ */
+async function reconcileOrder(order: PaymentOrder): Promise<string[]> {
+    const provider = getPaymentProvider();
+    const payments = await provider.fetchOrderPayments(order.providerOrderId);
+    const captured = payments.filter(p => p.status === 'captured');
+    const issues: string[] = [];
+
+    if (captured.length > 1) {
+        issues.push(`Provider captured ${captured.length} payments for one order`);
+    }
+    if (order.status === 'paid' && captured.length === 0) {
+        issues.push('Order is marked paid but the provider has no captured payment');
+    }
+    if (order.status !== 'paid' && captured.length > 0) {
+        issues.push(`Provider captured ${captured[0].id} but the order is ${order.status} (missed webhook?)`);
+    }
+    for (const payment of captured) {
+        if (payment.amount !== toPaise(order.amount)) {
+            issues.push(`Payment ${payment.id} is ${payment.amount} paise, order is ${toPaise(order.amount)} paise`);
+        }
+    }
+
+    if (order.status === 'paid' && order.purpose === 'wallet_top_up') {
+        const credited = (await WalletService.getTransactions(order.walletUserId!)).some(t => t.paymentOrderId === order.id);
+        if (!credited) issues.push(`Top-up was paid but never credited to the wallet of ${order.walletUserId}`);
+    } else if (order.status === 'paid' && order.purpose === 'verified_subscription') {
+        const subscriber = await UserService.getById(order.subscriberId!);
+        const applied = (subscriber?.verificationHistory || []).some(h => h.paymentReference === order.providerPaymentId);
+        if (!applied) issues.push(`Plan was paid but never added to the verification history of ${order.subscriberId}`);
+    } else if (order.status === 'paid') {
+        const booking = await BookingService.getById(order.bookingId!);
+        if (!booking) {
+            issues.push('Booking no longer exists');
+        } else if (order.purpose === 'advance') {
+            if (booking.advancePaymentId !== order.providerPaymentId) {
+                issues.push(`Booking advancePaymentId (${booking.advancePaymentId || 'none'}) does not match ${order.providerPaymentId}`);
+            }
+        } else {
+            const details = booking.paymentDetails;
+            if (!details) {
+                issues.push('Booking has no paymentDetails for a paid final order');
+            } else {
+                if (details.method !== 'Online') issues.push(`paymentDetails.method is ${details.method || 'unset'}, expected Online`);
+                const expectedTotal = order.amount + (booking.advancePaymentId ? (booking.advanceAmount || 0) : 0);
+                if (details.totalAmount !== expectedTotal) {
+                    issues.push(`paymentDetails.totalAmount ₹${details.totalAmount} differs from paid ₹${expectedTotal}`);
+                }
+            }
+            if (booking.finalPaymentId !== order.providerPaymentId) {
+                issues.push(`Booking finalPaymentId (${booking.finalPaymentId || 'none'}) does not match ${order.providerPaymentId}`);
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Reconcile recent orders of the active provider. Returns the orders flagged as mismatched.
+ */
+export async function reconcilePayments(): Promise<PaymentOrder[]> {
+    const provider = getPaymentProvider();
+    const since = Date.now() - RECONCILE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    const orders = (await PaymentOrderService.getAll()).filter(o =>
+        o.provider === provider.name && new Date(o.createdAt).getTime() >= since
+    );
+    const mismatched: PaymentOrder[] = [];
+
+    console.log(`[Payments] Reconciling ${orders.length} ${provider.name} orders...`);
+
+    for (const order of orders) {
+        try {
+            const issues = await reconcileOrder(order);
+            const now = new Date().toISOString();
+
+            if (issues.length === 0) {
+                await PaymentOrderService.update(order.id, { reconciliationStatus: 'matched', reconciliationNote: '', lastReconciledAt: now });
+                continue;
+            }
+
+            const note = issues.join('; ');
+            const updated = await PaymentOrderService.update(order.id, { reconciliationStatus: 'mismatch', reconciliationNote: note, lastReconciledAt: now });
+            if (updated) mismatched.push(updated);
+
+            // Only alert the first time an order is flagged, or when the problem changes
+            if (order.reconciliationStatus !== 'mismatch' || order.reconciliationNote !== note) {
+                if (order.bookingId) {
+                    await recordBookingEvent(order.bookingId, 'payment_mismatch', { actorId: PAYMENT_ACTOR, note: `Order ${order.id}: ${note}` });
+                }
+                await notifyAdminOfPaymentIssue(`Payment mismatch on ${describeOrderTarget(order)} (order ${order.id}): ${note}`);
+            }
+        } catch (error) {
+            console.error(`[Payments] Failed to reconcile order ${order.id}:`, error);
+        }
+    }
+
+    console.log(`[Payments] Reconciliation complete: ${mismatched.length} mismatch(es)`);
+    return mismatched;
+}
+
+/**
+ * Initialize the payment reconciliation scheduler
+ */
+export const initPaymentReconciliationScheduler = (): void => {
+    setInterval(() => {
+        reconcilePayments().catch(error => console.error('[Payments] Reconciliation run failed:', error));
+    }, RECONCILE_INTERVAL_MS);
+
+    console.log('[Payments] Reconciliation scheduler initialized - will run every 6 hours');
+};
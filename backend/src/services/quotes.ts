@@ -0,0 +1,210 @@
+import { BookingQuote, Item, ItemCategory, ItemQuote, PricingRule, SeasonalPrice, WorkPurpose } from '../types';
+import { ItemService, PricingRuleService } from './firestore';
+import { calculateDistance, getLocationFromCoords, LocationInfo, normalizeLocationName } from './geocoding';
+import { calculatePurposeCharge } from './unitPricing';
+import { quoteCoupon, CouponError } from './coupons';
+
+/**
+ * Booking Quotes
+ *
+ * The one place a booking request is priced. Each machine that could take the job is
+ * quoted from its purpose's list price, then:
+ *   1. the supplier's seasonal price for the booking date (MM-DD ranges, discounts included),
+ *   2. the admin pricing rule for the area (mandal -> district -> 'ALL'), only for items
+ *      whose supplier opted in to auto price optimisation,
+ *   3. the purpose's unit and minimum charge (see unitPricing.ts),
+ * plus the operator's hourly charge and a travel charge beyond the supplier's service radius.
+ * A broadcast is quoted across every candidate and shown as a range; the booking is created
+ * at the top of the range. A coupon comes off last.
+ *
+ * The booking form shows this quote and POST /api/bookings re-runs it, so the price a
+ * booking is stored at never comes from the client.
+ */
+
+export class QuoteError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'QuoteError';
+    }
+}
+
+export interface QuoteRequest {
+    farmerId: string;
+    itemCategory: ItemCategory;
+    workPurpose: WorkPurpose;
+    itemId?: number;                 // Direct request; otherwise every matching item is a candidate
+    date?: string;                   // YYYY-MM-DD, today when omitted
+    estimatedDuration: number;       // Hours
+    acres?: number;
+    quantity?: number;
+    operatorRequired?: boolean;
+    locationCoords?: { lat: number; lng: number };
+    couponCode?: string;
+}
+
+const MAX_SEASONAL_MODIFIER = 3;
+const DISTANCE_CHARGE_PER_KM = 10;
+const DEFAULT_SERVICE_RADIUS_KM = 3;
+const SERVICE_RADIUS_KM: Partial<Record<ItemCategory, number>> = {
+    [ItemCategory.Borewell]: 15,
+    [ItemCategory.Harvesters]: 10,
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+const range = (values: number[]) => ({ min: Math.min(...values), max: Math.max(...values) });
+
+const isMonthDay = (value: unknown): boolean => typeof value === 'string' && /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/.test(value);
+
+/**
+ * Seasonal price in force on a date. Ranges may wrap the new year (11-15 to 02-15); the
+ * first matching entry wins. Pure.
+ */
+export function findSeasonalPrice(seasonalPrices: SeasonalPrice[] | undefined, date: string): SeasonalPrice | null {
+    const monthDay = date.substring(5, 10);
+    return (seasonalPrices || []).find(season => season.startDate <= season.endDate
+        ? monthDay >= season.startDate && monthDay <= season.endDate
+        : monthDay >= season.startDate || monthDay <= season.endDate) || null;
+}
+
+/**
+ * Validate an item's seasonal prices. Returns an error message or null.
+ */
+export function validateSeasonalPrices(seasonalPrices: Partial<SeasonalPrice>[]): string | null {
+    if (!Array.isArray(seasonalPrices)) return 'seasonalPrices must be a list';
+    for (const season of seasonalPrices) {
+        if (!season.name || !String(season.name).trim()) return 'Every seasonal price needs a name';
+        if (!isMonthDay(season.startDate) || !isMonthDay(season.endDate)) return `${season.name}: dates must be MM-DD`;
+        if (typeof season.priceModifier !== 'number' || season.priceModifier <= 0 || season.priceModifier > MAX_SEASONAL_MODIFIER) {
+            return `${season.name}: priceModifier must be between 0 and ${MAX_SEASONAL_MODIFIER}`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Most specific active rule for an item's category in an area: exact mandal, then the
+ * district ('ALL' mandal), then everywhere. Pure.
+ */
+export function matchPricingRule(rules: PricingRule[], category: ItemCategory, location: LocationInfo | null): PricingRule | null {
+    const applies = (rule: PricingRule) => rule.isActive && rule.multiplier > 0 && (!rule.category || rule.category === category);
+    const inDistrict = (rule: PricingRule) => !!location && normalizeLocationName(rule.district) === normalizeLocationName(location.district);
+    const candidates = rules.filter(applies);
+    return candidates.find(r => inDistrict(r) && r.mandal !== 'ALL' && normalizeLocationName(r.mandal) === normalizeLocationName(location!.mandal))
+        || candidates.find(r => inDistrict(r) && r.mandal === 'ALL')
+        || candidates.find(r => r.district === 'ALL' && r.mandal === 'ALL')
+        || null;
+}
+
+/**
+ * ₹10 a km beyond the supplier's service radius. Pure.
+ */
+export function calculateDistanceCharge(item: Pick<Item, 'category' | 'locationCoords'>, coords?: { lat: number; lng: number }): number {
+    if (!item.locationCoords || !coords) return 0;
+    const distance = calculateDistance(coords.lat, coords.lng, item.locationCoords.lat, item.locationCoords.lng);
+    const radius = SERVICE_RADIUS_KM[item.category] ?? DEFAULT_SERVICE_RADIUS_KM;
+    return distance > radius ? Math.round((distance - radius) * DISTANCE_CHARGE_PER_KM) : 0;
+}
+
+/**
+ * Quote one item for a request, or null if it doesn't offer the purpose. Pure.
+ */
+export function quoteItem(item: Item, request: QuoteRequest, rules: PricingRule[], location: LocationInfo | null): ItemQuote | null {
+    const purpose = item.purposes.find(p => p.name === request.workPurpose);
+    if (!purpose) return null;
+
+    const hours = Math.max(1, request.estimatedDuration || 0);
+    const season = findSeasonalPrice(item.seasonalPrices, request.date || new Date().toISOString().split('T')[0]);
+    const rule = item.autoPriceOptimization ? matchPricingRule(rules, item.category, location) : null;
+    const seasonalModifier = season?.priceModifier ?? 1;
+    const regionalMultiplier = rule?.multiplier ?? 1;
+    const unitPrice = round2(purpose.price * seasonalModifier * regionalMultiplier);
+    const minimumCharge = purpose.minimumCharge ? round2(purpose.minimumCharge * seasonalModifier * regionalMultiplier) : undefined;
+
+    const machineCharge = calculatePurposeCharge(
+        { price: purpose.price, unit: purpose.unit, minimumCharge },
+        { hours, acres: request.acres, quantity: request.quantity },
+        unitPrice
+    );
+    const operatorCharge = request.operatorRequired ? Math.round((item.operatorCharge || 0) * hours) : 0;
+    const distanceCharge = calculateDistanceCharge(item, request.locationCoords);
+
+    return {
+        itemId: item.id,
+        pricingUnit: purpose.unit || 'hour',
+        basePrice: purpose.price,
+        seasonalModifier,
+        ...(season ? { seasonName: season.name } : {}),
+        regionalMultiplier,
+        ...(rule?.seasonName ? { regionalRuleName: rule.seasonName } : {}),
+        unitPrice,
+        ...(minimumCharge ? { minimumCharge } : {}),
+        machineCharge,
+        operatorCharge,
+        distanceCharge,
+        total: machineCharge + operatorCharge + distanceCharge
+    };
+}
+
+/**
+ * Validate a quote request. Returns an error message or null.
+ */
+export function validateQuoteRequest(request: Partial<QuoteRequest>): string | null {
+    if (!request.itemCategory || !request.workPurpose) return 'itemCategory and workPurpose are required';
+    if (typeof request.estimatedDuration !== 'number' || request.estimatedDuration <= 0) return 'estimatedDuration must be greater than 0';
+    if (request.acres !== undefined && (typeof request.acres !== 'number' || request.acres < 0)) return 'acres must be a number >= 0';
+    if (request.quantity !== undefined && (!Number.isInteger(request.quantity) || request.quantity < 1)) return 'quantity must be a whole number of at least 1';
+    if (request.date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(request.date)) return 'date must be YYYY-MM-DD';
+    return null;
+}
+
+/**
+ * Quote a booking request across its candidate items. A coupon that doesn't apply is
+ * reported in couponError rather than failing the quote.
+ */
+export async function quoteBooking(request: QuoteRequest): Promise<BookingQuote> {
+    const error = validateQuoteRequest(request);
+    if (error) throw new QuoteError(error);
+
+    const [candidates, rules, location] = await Promise.all([
+        request.itemId
+            ? ItemService.getById(request.itemId).then(item => item ? [item] : [])
+            : ItemService.getAll().then(items => items.filter(i => i.category === request.itemCategory && i.status === 'approved' && i.available)),
+        PricingRuleService.getActive(),
+        request.locationCoords ? getLocationFromCoords(request.locationCoords.lat, request.locationCoords.lng) : Promise.resolve(null)
+    ]);
+    if (request.itemId && candidates.length === 0) throw new QuoteError('Item not found', 404);
+
+    const items = candidates
+        .map(item => quoteItem(item, request, rules, location))
+        .filter((quote): quote is ItemQuote => quote !== null);
+    if (items.length === 0) throw new QuoteError(`No ${request.itemCategory} available for ${request.workPurpose}`, 404);
+
+    const subtotal = range(items.map(q => q.total));
+    const quote: BookingQuote = {
+        items,
+        machine: range(items.map(q => q.machineCharge)),
+        operator: range(items.map(q => q.operatorCharge)),
+        distance: range(items.map(q => q.distanceCharge)),
+        subtotal,
+        total: subtotal.max,
+        quotedAt: new Date().toISOString()
+    };
+
+    if (request.couponCode) {
+        try {
+            const { coupon, discountAmount } = await quoteCoupon(request.couponCode, {
+                id: '',
+                farmerId: request.farmerId,
+                itemCategory: request.itemCategory,
+                estimatedPrice: subtotal.max,
+                locationCoords: request.locationCoords
+            });
+            quote.coupon = { code: coupon.code, ...(coupon.description ? { description: coupon.description } : {}), discountAmount };
+            quote.total = Math.max(0, subtotal.max - discountAmount);
+        } catch (e) {
+            if (!(e instanceof CouponError)) throw e;
+            quote.couponError = e.message;
+        }
+    }
+    return quote;
+}
@@ -0,0 +1,188 @@
+import { LedgerEntry, Settlement } from '../types';
+import { LedgerService, SettlementService, NotificationService } from './firestore';
+import { getSupplierNet, postSupplierPayout } from './ledger';
+
+/**
+ * Weekly Supplier Settlements
+ *
+ * Once a week (Monday 00:00 server time) every supplier's unsettled ledger
+ * entries from before that Monday are grouped into one settlement batch.
+ * Suppliers whose net balance is zero or negative (e.g. cash jobs where
+ * they owe commission) are carried forward to the next week.
+ *
+ * Payout status: pending -> paid (payout posted to the ledger) or failed
+ * (entries are released and roll into the next batch).
+ */
+
+const SETTLEMENT_CHECK_INTERVAL_MS = 60 * 60 * 1000; // Hourly; batches are idempotent per week
+
+export class SettlementError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'SettlementError';
+    }
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const toDateKey = (date: Date): string => {
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+};
+
+/**
+ * Monday 00:00 of the week containing `date`
+ */
+export function getWeekStart(date: Date): Date {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    const daysSinceMonday = (start.getDay() + 6) % 7;
+    start.setDate(start.getDate() - daysSinceMonday);
+    return start;
+}
+
+const sumKind = (entries: LedgerEntry[], supplierId: string, kinds: string[]): number => {
+    let total = 0;
+    for (const entry of entries) {
+        for (const line of entry.lines) {
+            if (line.account === 'supplier_payable' && line.supplierId === supplierId && kinds.includes(line.kind)) {
+                total += line.debit + line.credit;
+            }
+        }
+    }
+    return round2(total);
+};
+
+/**
+ * Create settlement batches for everything posted before the start of the current week.
+ * Safe to run repeatedly: one batch per supplier per week.
+ */
+export async function runWeeklySettlements(now: Date = new Date()): Promise<Settlement[]> {
+    const periodEndDate = getWeekStart(now);
+    const periodStartDate = new Date(periodEndDate);
+    periodStartDate.setDate(periodStartDate.getDate() - 7);
+    const periodEnd = toDateKey(periodEndDate);
+    const cutoff = periodEndDate.toISOString();
+
+    const unsettled = (await LedgerService.getUnsettled()).filter(e => e.createdAt < cutoff);
+    const bySupplier = new Map<string, LedgerEntry[]>();
+    for (const entry of unsettled) {
+        for (const supplierId of entry.supplierIds || []) {
+            bySupplier.set(supplierId, [...(bySupplier.get(supplierId) || []), entry]);
+        }
+    }
+
+    const created: Settlement[] = [];
+    for (const [supplierId, entries] of bySupplier) {
+        const id = `ST-${supplierId}-${periodEnd}`;
+        if (await SettlementService.getById(id)) continue;
+
+        const netPayable = getSupplierNet(entries, supplierId);
+        if (netPayable <= 0) {
+            console.log(`[Settlements] Carrying forward ${supplierId}: net ₹${netPayable}`);
+            continue;
+        }
+
+        const settlement: Settlement = {
+            id,
+            supplierId,
+            periodStart: toDateKey(periodStartDate),
+            periodEnd,
+            entryIds: entries.map(e => e.id),
+            earnings: sumKind(entries, supplierId, ['supplier_earning', 'distance_charge']),
+            cashCollected: sumKind(entries, supplierId, ['cash_collected']),
+            penalties: sumKind(entries, supplierId, ['supplier_penalty']),
+            netPayable,
+            status: 'pending',
+            createdAt: new Date().toISOString()
+        };
+
+        await SettlementService.create(settlement);
+        await LedgerService.setSettlement(settlement.entryIds, settlement.id);
+        created.push(settlement);
+
+        await NotificationService.create({
+            id: Date.now() + Math.random(),
+            userId: supplierId,
+            message: `Your weekly settlement of ₹${netPayable.toLocaleString()} (up to ${periodEnd}) is being processed.`,
+            type: 'system',
+            category: 'system',
+            priority: 'medium',
+            read: false,
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    if (created.length > 0) console.log(`[Settlements] Created ${created.length} settlement batch(es) for week ending ${periodEnd}`);
+    return created;
+}
+
+/**
+ * Record the outcome of a payout
+ */
+export async function updateSettlementStatus(
+    id: string,
+    status: 'paid' | 'failed',
+    details: { reference?: string; reason?: string; updatedBy: string }
+): Promise<Settlement> {
+    const settlement = await SettlementService.getById(id);
+    if (!settlement) throw new SettlementError('Settlement not found', 404);
+    if (settlement.status !== 'pending') throw new SettlementError(`Settlement is already ${settlement.status}`, 409);
+
+    if (status === 'paid') {
+        if (!details.reference) throw new SettlementError('A payout reference is required');
+        const paid: Settlement = {
+            ...settlement,
+            status: 'paid',
+            payoutReference: details.reference,
+            paidAt: new Date().toISOString(),
+            updatedBy: details.updatedBy
+        };
+        await postSupplierPayout(paid);
+        await SettlementService.update(id, {
+            status: 'paid',
+            payoutReference: paid.payoutReference,
+            paidAt: paid.paidAt,
+            updatedBy: details.updatedBy
+        });
+
+        await NotificationService.create({
+            id: Date.now(),
+            userId: settlement.supplierId,
+            message: `₹${settlement.netPayable.toLocaleString()} has been paid to your account (ref ${details.reference}).`,
+            type: 'system',
+            category: 'system',
+            priority: 'high',
+            read: false,
+            timestamp: new Date().toISOString()
+        });
+        return paid;
+    }
+
+    // Failed payout: release the entries so they are included in the next batch
+    await LedgerService.setSettlement(settlement.entryIds, null);
+    const failed = await SettlementService.update(id, {
+        status: 'failed',
+        failureReason: details.reason || 'Payout failed',
+        updatedBy: details.updatedBy
+    });
+    return failed!;
+}
+
+let lastSettledWeek = '';
+
+export const initSettlementScheduler = (): void => {
+    const check = () => {
+        const week = toDateKey(getWeekStart(new Date()));
+        if (week === lastSettledWeek) return;
+        runWeeklySettlements()
+            .then(() => { lastSettledWeek = week; })
+            .catch(error => console.error('[Settlements] Weekly run failed:', error));
+    };
+
+    check();
+    setInterval(check, SETTLEMENT_CHECK_INTERVAL_MS);
+    console.log('[Settlements] Scheduler initialized - weekly batches, checked hourly');
+};
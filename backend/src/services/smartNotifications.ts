@@ -348,6 +348,77 @@ export async function sendKYCStatusNotification(
     }
 }
 
+const VERIFIED_REMINDER_DAYS = [7, 3, 1];
+
+const formatDay = (iso: string) => new Date(iso).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * Verified-account renewal reminders, 7, 3 and 1 day(s) before the plan expires.
+ * Each reminder is sent once per expiry date.
+ */
+export async function sendVerifiedRenewalReminders(): Promise<void> {
+    try {
+        const users = await UserService.getAll();
+        const now = Date.now();
+
+        for (const user of users) {
+            if (user.role !== 'Supplier' || !user.isVerifiedAccount || !user.verifiedAccountExpiryDate) continue;
+
+            const daysLeft = (new Date(user.verifiedAccountExpiryDate).getTime() - now) / (24 * 60 * 60 * 1000);
+            if (daysLeft <= 0) continue;
+            // Smallest threshold we are inside, so a late run still sends the closest reminder only
+            const threshold = VERIFIED_REMINDER_DAYS.filter(d => daysLeft <= d).pop();
+            if (!threshold) continue;
+
+            const when = threshold === 1 ? 'tomorrow' : `in ${threshold} days`;
+            const message = user.verifiedAutoRenew
+                ? `🔁 Your verified account renews automatically from your wallet ${when} (${formatDay(user.verifiedAccountExpiryDate)}). Keep enough balance so the badge isn't interrupted.`
+                : `⭐ Your verified account expires ${when} (${formatDay(user.verifiedAccountExpiryDate)}). Renew now to keep your badge and priority listing.`;
+            await createNotification(
+                user.id,
+                message,
+                'performance',
+                threshold === 1 ? 'urgent' : 'high',
+                { type: 'verified_renewal', expiryDate: user.verifiedAccountExpiryDate, daysLeft: threshold },
+                `verified_renewal_${user.verifiedAccountExpiryDate}_${threshold}d`,
+                24 * 365 // Once per expiry date
+            );
+        }
+
+        console.log('[SmartNotifications] Verified renewal reminders processed');
+    } catch (error) {
+        console.error('[SmartNotifications] Error sending verified renewal reminders:', error);
+    }
+}
+
+/**
+ * Verified-account plan changes (sent by the subscription service)
+ */
+export async function sendVerifiedPlanNotification(
+    userId: string,
+    event: 'activated' | 'renewed' | 'renewal_failed' | 'grace' | 'lapsed',
+    details: { planName?: string; expiryDate: string; amount?: number }
+): Promise<void> {
+    const date = formatDay(details.expiryDate);
+    switch (event) {
+        case 'activated':
+            await createNotification(userId, `✅ ${details.planName} is active. Your verified badge runs until ${date}.`, 'performance', 'high', { type: 'verified_activated', expiryDate: details.expiryDate, amount: details.amount });
+            break;
+        case 'renewed':
+            await createNotification(userId, `🔁 Your verified account was renewed for ₹${details.amount} from your wallet. Next renewal on ${date}.`, 'performance', 'medium', { type: 'verified_renewed', expiryDate: details.expiryDate, amount: details.amount });
+            break;
+        case 'renewal_failed':
+            await createNotification(userId, `⚠️ We couldn't renew your verified account: your wallet balance is too low. Top up or buy a plan before ${date} to keep your badge.`, 'performance', 'urgent', { type: 'verified_renewal_failed', graceUntil: details.expiryDate });
+            break;
+        case 'grace':
+            await createNotification(userId, `⚠️ Your verified account has expired. Your badge stays until ${date} — renew before then to keep it.`, 'performance', 'urgent', { type: 'verified_grace', graceUntil: details.expiryDate });
+            break;
+        case 'lapsed':
+            await createNotification(userId, `Your verified account has ended and the badge was removed. Buy a plan any time to get it back.`, 'performance', 'high', { type: 'verified_lapsed', expiredAt: details.expiryDate });
+            break;
+    }
+}
+
 /**
  * Performance alerts for low ratings or pending KYC
  */
@@ -404,5 +475,8 @@ export function startSmartNotifications(): void {
     // Check performance alerts once per day (at midnight-ish)
     setInterval(checkPerformanceAlerts, 24 * 60 * 60 * 1000);
 
+    // Verified-account renewal reminders every 6 hours (deduplicated per expiry)
+    setInterval(sendVerifiedRenewalReminders, 6 * 60 * 60 * 1000);
+
     console.log('[SmartNotifications] All smart notification services started');
 }
@@ -0,0 +1,336 @@
+import { Booking, BookingStatus, Item } from '../types';
+import { BookingService, ItemService, NotificationService } from './firestore';
+import { findUnavailableReason, loadAvailabilityContext } from './availability';
+import { recordBookingEvent, SYSTEM_ACTOR } from './bookingEvents';
+import { isSplitParent, transitionBooking, TransitionActor } from './bookingStateMachine';
+
+/**
+ * Multi-Supplier Split Fulfilment
+ *
+ * A large job (a 40-acre harvest, a gang of 30 workers) can be shared between
+ * several suppliers. The farmer's booking becomes the parent: it records the
+ * total acres or units asked for and is never worked on directly. Each supplier
+ * takes a share, which is an ordinary booking with parentBookingId set, so OTP
+ * start, completion, payment and rating all run per share through the normal
+ * lifecycle. A share is priced pro rata from the parent's estimate.
+ *
+ * The parent follows its shares: Searching while acres are still open, Confirmed
+ * once they are all taken (back to Searching if a share is cancelled), and
+ * Completed when every share has finished. Money is only booked on the shares.
+ */
+
+const DEFAULT_JOB_HOURS = 3;
+
+// Shares that no longer hold any of the parent's acres / units
+const RELEASED_STATUSES: BookingStatus[] = ['Cancelled', 'Expired'];
+// Shares the farmer can still call off (no work has started)
+const CANCELLABLE_STATUSES: BookingStatus[] = ['Searching', 'Pending Confirmation', 'Confirmed'];
+
+// Parent fields every share carries over
+const INHERITED_FIELDS: (keyof Booking)[] = [
+    'farmerId', 'itemCategory', 'date', 'startTime', 'endTime', 'estimatedDuration', 'location', 'locationCoords',
+    'workPurpose', 'preferredModel', 'operatorRequired', 'additionalInstructions', 'bookedByAgentId', 'bookedForFarmerId', 'isAgentBooking'
+];
+
+export class SplitShareError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'SplitShareError';
+    }
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export const isActiveShare = (share: Booking): boolean => !RELEASED_STATUSES.includes(share.status);
+
+export const unitLabel = (booking: Booking): string => (booking.splitUnit === 'units' ? 'units' : 'acres');
+
+/**
+ * Acres / units of a parent taken by its active shares
+ */
+export function allocatedAmount(shares: Booking[]): number {
+    return round2(shares.filter(isActiveShare).reduce((sum, s) => sum + (s.shareAmount || 0), 0));
+}
+
+export function openAmount(parent: Booking, shares: Booking[]): number {
+    return Math.max(0, round2((parent.splitTotal || 0) - allocatedAmount(shares)));
+}
+
+/**
+ * Turn a new booking that allows several suppliers into a split parent (units when a quantity
+ * was asked for, otherwise acres). Bookings with nothing to divide stay single-supplier.
+ */
+export function prepareSplitBooking<T extends Partial<Booking>>(booking: T): T {
+    if (!booking.allowMultipleSuppliers || booking.supplierId) return booking;
+
+    const splitUnit = booking.quantity !== undefined ? 'units' : 'acres';
+    const splitTotal = splitUnit === 'units' ? booking.quantity : booking.acres;
+    if (!splitTotal || splitTotal <= 1) return { ...booking, allowMultipleSuppliers: false };
+
+    return { ...booking, splitUnit, splitTotal, splitAllocated: 0 };
+}
+
+/**
+ * The share a supplier takes: parent details plus a pro-rata cut of its price
+ */
+function buildShare(parent: Booking, existingShares: number, supplierId: string, itemId: number, amount: number, actorRole?: string): Booking {
+    const ratio = amount / (parent.splitTotal || amount);
+    const now = new Date().toISOString();
+    const price = round2((parent.estimatedPrice || 0) * ratio);
+
+    // Firestore rejects undefined values, so only copy what the parent has
+    const inherited = INHERITED_FIELDS.reduce((acc, key) => (
+        parent[key] !== undefined ? { ...acc, [key]: parent[key] } : acc
+    ), {} as Partial<Booking>);
+
+    return {
+        ...inherited,
+        id: `${parent.id}-S${existingShares + 1}`,
+        parentBookingId: parent.id,
+        supplierId,
+        itemId,
+        shareAmount: amount,
+        ...(parent.splitUnit === 'units' ? { quantity: amount } : { acres: amount }),
+        status: 'Confirmed',
+        estimatedPrice: price,
+        finalPrice: price,
+        ...(parent.discountAmount ? { discountAmount: round2(parent.discountAmount * ratio) } : {}),
+        createdAt: now,
+        statusHistory: [{
+            from: 'Searching',
+            to: 'Confirmed',
+            changedBy: supplierId,
+            changedAt: now,
+            ...(actorRole ? { changedByRole: actorRole } : {})
+        }]
+    } as Booking;
+}
+
+/**
+ * Supplier takes part of a split booking with one of their items. Returns the new share.
+ */
+export async function acceptShare(
+    parentId: string,
+    supplierId: string,
+    itemId: number,
+    requestedAmount: number,
+    actorRole?: string
+): Promise<Booking> {
+    const parent = await BookingService.getById(parentId);
+    if (!parent || !isSplitParent(parent)) throw new SplitShareError('Split booking not found', 404);
+
+    const amount = parent.splitUnit === 'units' ? Math.floor(requestedAmount) : Math.round(requestedAmount * 10) / 10;
+    if (!(amount > 0)) throw new SplitShareError(`Enter how many ${unitLabel(parent)} you can take`);
+
+    const item = await ItemService.getById(itemId);
+    if (!item || String(item.ownerId) !== supplierId) throw new SplitShareError('Item not found', 404);
+    if (item.status !== 'approved' || item.available === false) throw new SplitShareError('This item is not available', 409);
+    if (item.category !== parent.itemCategory) throw new SplitShareError(`This booking needs a ${parent.itemCategory} item`);
+    if (parent.workPurpose && !item.purposes.some(p => p.name === parent.workPurpose)) {
+        throw new SplitShareError('This item does not support the requested work purpose');
+    }
+    if (parent.splitUnit === 'units' && item.quantityAvailable !== undefined && item.quantityAvailable < amount) {
+        throw new SplitShareError(`You only have ${item.quantityAvailable} available`, 409);
+    }
+
+    // The item's calendar and daily working-hours limit, as for any accepted job
+    const unavailable = findUnavailableReason(await loadAvailabilityContext(item), {
+        date: parent.date,
+        startTime: parent.startTime,
+        durationHours: parent.estimatedDuration || DEFAULT_JOB_HOURS,
+        farmerId: String(parent.farmerId)
+    });
+    if (unavailable) throw new SplitShareError(unavailable, 409);
+
+    const share = await BookingService.createShare(parentId, (current, shares) => {
+        if (!current || current.status !== 'Searching') throw new SplitShareError('This booking is no longer taking suppliers', 409);
+        if (String(current.farmerId) === supplierId) throw new SplitShareError('You cannot accept your own booking');
+        if (shares.some(s => isActiveShare(s) && s.supplierId === supplierId)) {
+            throw new SplitShareError('You already have a share of this booking', 409);
+        }
+        const open = openAmount(current, shares);
+        if (amount > open) throw new SplitShareError(`Only ${open} ${unitLabel(current)} are still open`, 409);
+        return buildShare(current, shares.length, supplierId, itemId, amount, actorRole);
+    });
+
+    const itemUpdates: Partial<Item> = { available: false };
+    if (parent.splitUnit === 'units' && item.quantityAvailable !== undefined) {
+        itemUpdates.quantityAvailable = Math.max(0, item.quantityAvailable - amount);
+        itemUpdates.available = itemUpdates.quantityAvailable > 0;
+    }
+    await ItemService.update(item.id, itemUpdates);
+
+    await recordBookingEvent(parentId, 'share_accepted', {
+        actorId: supplierId,
+        actorRole,
+        note: `Share ${share.id}: ${amount} ${unitLabel(parent)} with ${item.name}`
+    });
+    await recordBookingEvent(share.id, 'status_changed', {
+        actorId: supplierId,
+        actorRole,
+        fromStatus: 'Searching',
+        toStatus: 'Confirmed',
+        changedFields: ['status', 'supplierId', 'itemId'],
+        note: `Share of split booking ${parentId}`
+    });
+
+    await NotificationService.create({
+        id: Date.now() + Math.random(),
+        userId: parent.farmerId,
+        message: `${item.name}'s owner will cover ${amount} ${unitLabel(parent)} of your ${parent.itemCategory} booking on ${parent.date}.`,
+        type: 'booking',
+        category: 'booking',
+        priority: 'high',
+        read: false,
+        timestamp: new Date().toISOString()
+    });
+
+    await syncSplitParent(parentId);
+    console.log(`[SplitFulfilment] ${supplierId} took ${amount} ${unitLabel(parent)} of ${parentId} (${share.id})`);
+    return share;
+}
+
+/**
+ * Bring a parent's status in line with its shares. `changedShare` is a share whose new
+ * state isn't saved yet (when called from a transition hook).
+ */
+export async function syncSplitParent(parentId: string, changedShare?: Booking): Promise<Booking | null> {
+    const [parent, stored] = await Promise.all([BookingService.getById(parentId), BookingService.getShares(parentId)]);
+    if (!parent || !isSplitParent(parent) || ['Cancelled', 'Expired', 'Completed'].includes(parent.status)) return parent;
+
+    const shares = changedShare ? stored.map(s => (s.id === changedShare.id ? changedShare : s)) : stored;
+    const active = shares.filter(isActiveShare);
+    const allocated = allocatedAmount(shares);
+    const total = parent.splitTotal || 0;
+
+    let target: BookingStatus | null = null;
+    if (parent.status === 'Searching' && allocated >= total) target = 'Confirmed';
+    else if (parent.status === 'Confirmed' && allocated < total) target = 'Searching';
+    else if (parent.status === 'Confirmed' && active.length > 0 && active.every(s => s.status === 'Completed')) target = 'Completed';
+
+    const updates: Partial<Booking> = {
+        splitAllocated: allocated,
+        ...(target === 'Completed' ? { finalPrice: round2(active.reduce((sum, s) => sum + (s.finalPrice || 0), 0)) } : {})
+    };
+    if (!target) {
+        return allocated === parent.splitAllocated ? parent : BookingService.update(parentId, updates);
+    }
+
+    const { transition, updates: finalUpdates } = await transitionBooking(parent, target, updates, { id: SYSTEM_ACTOR });
+    const updated = await BookingService.update(parentId, finalUpdates);
+    await recordBookingEvent(parentId, 'status_changed', {
+        actorId: SYSTEM_ACTOR,
+        fromStatus: transition.from,
+        toStatus: transition.to,
+        changedFields: Object.keys(finalUpdates).filter(k => k !== 'statusHistory'),
+        note: target === 'Confirmed' ? `All ${total} ${unitLabel(parent)} taken by ${active.length} suppliers`
+            : target === 'Searching' ? `${round2(total - allocated)} ${unitLabel(parent)} open again after a share was released`
+                : 'Every share has finished'
+    });
+
+    if (target !== 'Searching') {
+        await NotificationService.create({
+            id: Date.now() + Math.random(),
+            userId: parent.farmerId,
+            message: target === 'Confirmed'
+                ? `All ${total} ${unitLabel(parent)} of your ${parent.itemCategory} booking on ${parent.date} are covered by ${active.length} suppliers.`
+                : `All suppliers have finished your ${parent.itemCategory} booking on ${parent.date}.`,
+            type: 'booking',
+            category: 'booking',
+            priority: 'medium',
+            read: false,
+            timestamp: new Date().toISOString()
+        });
+    }
+    return updated;
+}
+
+/**
+ * Stop looking for more suppliers: the parent shrinks to what its shares already cover.
+ * Returns null when no share is active (the caller cancels the parent instead).
+ */
+export async function closeOpenCapacity(parentId: string, note: string): Promise<Booking | null> {
+    const [parent, shares] = await Promise.all([BookingService.getById(parentId), BookingService.getShares(parentId)]);
+    if (!parent || !isSplitParent(parent)) return null;
+
+    const allocated = allocatedAmount(shares);
+    if (allocated <= 0) return null;
+
+    const updates: Partial<Booking> = { splitTotal: allocated, splitAllocated: allocated };
+    if (parent.status !== 'Searching') {
+        await BookingService.update(parentId, updates);
+    } else {
+        const { transition, updates: finalUpdates } = await transitionBooking(parent, 'Confirmed', updates, { id: SYSTEM_ACTOR });
+        await BookingService.update(parentId, finalUpdates);
+        await recordBookingEvent(parentId, 'status_changed', {
+            actorId: SYSTEM_ACTOR,
+            fromStatus: transition.from,
+            toStatus: transition.to,
+            changedFields: ['status', 'splitTotal', 'splitAllocated'],
+            note
+        });
+    }
+    console.log(`[SplitFulfilment] Closed open capacity on ${parentId} at ${allocated} ${unitLabel(parent)}`);
+
+    // Shares may all be done already
+    return syncSplitParent(parentId);
+}
+
+/**
+ * Farmer cancels a split booking: every share not yet started is cancelled, then the parent
+ * is cancelled, or trimmed to the shares already under way.
+ */
+export async function cancelSplitBooking(parentId: string, actor: TransitionActor, isStaff: boolean = false): Promise<Booking | null> {
+    const parent = await BookingService.getById(parentId);
+    if (!parent || !isSplitParent(parent)) throw new SplitShareError('Split booking not found', 404);
+    if (!isStaff && actor.id !== String(parent.farmerId) && actor.id !== String(parent.bookedByAgentId)) {
+        throw new SplitShareError('Access denied', 403);
+    }
+
+    // Staff cancel on the farmer's behalf, so shares close instead of being re-broadcast
+    const farmerActor: TransitionActor = actor.id === String(parent.farmerId) || actor.id === String(parent.bookedByAgentId)
+        ? actor
+        : { id: String(parent.farmerId), role: actor.role };
+
+    for (const share of await BookingService.getShares(parentId)) {
+        if (!CANCELLABLE_STATUSES.includes(share.status)) continue;
+        const { transition, updates } = await transitionBooking(share, 'Cancelled', {}, farmerActor);
+        await BookingService.update(share.id, updates);
+        await recordBookingEvent(share.id, 'status_changed', {
+            actorId: actor.id,
+            actorRole: actor.role,
+            fromStatus: transition.from,
+            toStatus: transition.to,
+            changedFields: ['status'],
+            note: `Split booking ${parentId} cancelled`
+        });
+        if (share.supplierId) {
+            await NotificationService.create({
+                id: Date.now() + Math.random(),
+                userId: share.supplierId,
+                message: `The farmer cancelled the ${share.itemCategory} booking on ${share.date}; your share of ${share.shareAmount} ${unitLabel(parent)} is cancelled.`,
+                type: 'booking',
+                category: 'booking',
+                priority: 'high',
+                read: false,
+                timestamp: new Date().toISOString()
+            });
+        }
+    }
+
+    const trimmed = await closeOpenCapacity(parentId, 'Farmer cancelled the rest of the booking');
+    if (trimmed) return trimmed;
+
+    const latest = await BookingService.getById(parentId);
+    if (!latest || ['Cancelled', 'Expired', 'Completed'].includes(latest.status)) return latest;
+    const { transition, updates } = await transitionBooking(latest, 'Cancelled', {}, farmerActor);
+    const cancelled = await BookingService.update(parentId, updates);
+    await recordBookingEvent(parentId, 'status_changed', {
+        actorId: actor.id,
+        actorRole: actor.role,
+        fromStatus: transition.from,
+        toStatus: transition.to,
+        changedFields: ['status']
+    });
+    return cancelled;
+}
@@ -0,0 +1,224 @@
+import { StreakEvent, StreakEventType, User, UserRole } from '../types';
+import { NotificationService, StreakEventService, UserService } from './firestore';
+
+/**
+ * Work Streaks & Guards
+ *
+ * A supplier's streak grows by one for each day they complete a job (bookingTransitionHooks).
+ * Every day without a completed job since the last one costs a guard; with no guard left the
+ * streak ends. Days the supplier marked off in advance (User.blockedDates) cost nothing.
+ *
+ * Guards are earned every GUARD_MILESTONE_DAYS streak days, or bought with GUARD_POINT_COST
+ * streak points, up to MAX_GUARDS. The hourly job settles each finished day once
+ * (streak.evaluatedThrough), so streaks are kept up to date without the supplier logging in.
+ * Every change is written to the streak_events collection as the supplier's history.
+ */
+
+type Streak = NonNullable<User['streak']>;
+
+export const MAX_GUARDS = 5;
+export const GUARD_MILESTONE_DAYS = 7;
+export const GUARD_POINT_COST = 50;
+const EVALUATE_INTERVAL_MS = 60 * 60 * 1000; // Every hour; each day is settled once
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_LIMIT = 50;
+
+export class StreakError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'StreakError';
+    }
+}
+
+// Streak dates are UTC days, as written by the completion hook
+export const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+const addDays = (dateKey: string, days: number): string => toDateKey(new Date(Date.parse(dateKey) + days * DAY_MS));
+export const daysBetween = (from: string, to: string): number => Math.round(Math.abs(Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+export const emptyStreak = (): Streak => ({
+    currentCount: 0,
+    lastLoginDate: '',
+    guards: 0,
+    maxGuards: MAX_GUARDS,
+    points: 0,
+    lastWorkDate: ''
+});
+
+/**
+ * A history entry for the streak as it stands after the change. Daily outcomes (guard used,
+ * reset) get a fixed id per day so settling the same day twice keeps one entry.
+ */
+export function streakEvent(userId: string, type: StreakEventType, date: string, streak: Streak, note?: string): StreakEvent {
+    const daily = type === 'guard_used' || type === 'reset';
+    return {
+        id: daily ? `SE-${userId}-${type}-${date}` : `SE-${userId}-${type}-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+        userId,
+        type,
+        date,
+        countAfter: streak.currentCount,
+        guardsAfter: streak.guards || 0,
+        pointsAfter: streak.points || 0,
+        ...(note ? { note } : {}),
+        createdAt: new Date().toISOString()
+    };
+}
+
+/**
+ * Settle the days without work between the last settled day and `today` (exclusive): each one
+ * uses a guard, and the streak ends at the first one without a guard. Pure.
+ */
+export function settleMissedDays(userId: string, streak: Streak, today: string, daysOff: string[] = []): { streak: Streak; events: StreakEvent[] } {
+    const yesterday = addDays(today, -1);
+    if (!streak.currentCount || !streak.lastWorkDate) {
+        return { streak: { ...streak, evaluatedThrough: yesterday }, events: [] };
+    }
+
+    const settledThrough = streak.evaluatedThrough && streak.evaluatedThrough > streak.lastWorkDate ? streak.evaluatedThrough : streak.lastWorkDate;
+    const next: Streak = { ...streak };
+    const events: StreakEvent[] = [];
+    const offDays = new Set(daysOff);
+
+    for (let day = addDays(settledThrough, 1); day < today; day = addDays(day, 1)) {
+        if (offDays.has(day)) continue;
+        if ((next.guards || 0) > 0) {
+            next.guards -= 1;
+            events.push(streakEvent(userId, 'guard_used', day, next, `No work on ${day}`));
+        } else {
+            next.currentCount = 0;
+            events.push(streakEvent(userId, 'reset', day, next, `No work on ${day} and no guards left`));
+            break;
+        }
+    }
+
+    next.evaluatedThrough = settledThrough > yesterday ? settledThrough : yesterday;
+    return { streak: next, events };
+}
+
+/**
+ * One guard for every GUARD_MILESTONE_DAYS the streak passed since `countBefore`, up to the cap. Pure.
+ */
+export function awardMilestoneGuards(userId: string, streak: Streak, countBefore: number, date: string): { streak: Streak; events: StreakEvent[] } {
+    const milestones = Math.floor(streak.currentCount / GUARD_MILESTONE_DAYS) - Math.floor(countBefore / GUARD_MILESTONE_DAYS);
+    const maxGuards = streak.maxGuards || MAX_GUARDS;
+    const earned = Math.min(Math.max(milestones, 0), maxGuards - (streak.guards || 0));
+    if (earned <= 0) return { streak, events: [] };
+
+    const next: Streak = { ...streak, guards: (streak.guards || 0) + earned };
+    return {
+        streak: next,
+        events: [streakEvent(userId, 'guard_earned', date, next, `${Math.floor(next.currentCount / GUARD_MILESTONE_DAYS) * GUARD_MILESTONE_DAYS}-day milestone`)]
+    };
+}
+
+export async function recordStreakEvents(events: StreakEvent[]): Promise<void> {
+    for (const event of events) {
+        await StreakEventService.save(event);
+    }
+}
+
+const notifyStreakOutcome = async (userId: string, events: StreakEvent[]): Promise<void> => {
+    const used = events.filter(e => e.type === 'guard_used');
+    const reset = events.find(e => e.type === 'reset');
+    if (used.length === 0 && !reset) return;
+
+    const message = reset
+        ? `Your work streak has ended: no job on ${reset.date} and no guards left${used.length ? ` (${used.length} guard(s) used first)` : ''}. Complete a job to start again.`
+        : `${used.length} streak guard${used.length === 1 ? '' : 's'} covered your day(s) without work. ${used[used.length - 1].guardsAfter} guard(s) left.`;
+    await NotificationService.create({
+        id: Date.now() + Math.random(),
+        userId,
+        message,
+        type: 'system',
+        category: 'performance',
+        priority: reset ? 'high' : 'medium',
+        read: false,
+        timestamp: new Date().toISOString()
+    });
+};
+
+/**
+ * Settle every supplier's finished days. Safe to run repeatedly.
+ */
+export async function evaluateStreaks(now: Date = new Date()): Promise<{ guardsUsed: number; reset: number }> {
+    const today = toDateKey(now);
+    const result = { guardsUsed: 0, reset: 0 };
+    const suppliers = (await UserService.getAll()).filter(u =>
+        u.role === UserRole.Supplier && u.streak && u.streak.currentCount > 0 && u.streak.evaluatedThrough !== addDays(today, -1)
+    );
+
+    for (const supplier of suppliers) {
+        const userId = String(supplier.id);
+        try {
+            // Settled on a fresh read inside the transaction, so a job completed or a guard bought since the scan isn't lost
+            let events: StreakEvent[] = [];
+            await UserService.updateInTransaction(userId, current => {
+                if (!current?.streak) return null;
+                const settled = settleMissedDays(userId, current.streak, today, current.blockedDates || []);
+                events = settled.events;
+                return { streak: settled.streak };
+            });
+            await recordStreakEvents(events);
+            await notifyStreakOutcome(userId, events);
+            result.guardsUsed += events.filter(e => e.type === 'guard_used').length;
+            result.reset += events.some(e => e.type === 'reset') ? 1 : 0;
+        } catch (error) {
+            console.error(`[Streaks] Failed to evaluate the streak of ${userId}:`, error);
+        }
+    }
+
+    if (result.guardsUsed || result.reset) {
+        console.log(`[Streaks] Guards used: ${result.guardsUsed}, streaks ended: ${result.reset}`);
+    }
+    return result;
+}
+
+/**
+ * Trade GUARD_POINT_COST streak points for a guard. The check and the write are one transaction,
+ * so two purchases (or a purchase and a completed job) can't both spend the same points.
+ */
+export async function buyGuard(userId: string): Promise<Streak> {
+    const updated = await UserService.updateInTransaction(userId, user => {
+        if (!user) throw new StreakError('User not found', 404);
+        if (user.role !== UserRole.Supplier) throw new StreakError('Streak guards are for suppliers', 403);
+
+        const streak = user.streak || emptyStreak();
+        const maxGuards = streak.maxGuards || MAX_GUARDS;
+        if ((streak.guards || 0) >= maxGuards) throw new StreakError(`You already have the maximum of ${maxGuards} guards`, 409);
+        if ((streak.points || 0) < GUARD_POINT_COST) throw new StreakError(`A guard costs ${GUARD_POINT_COST} points; you have ${streak.points || 0}`, 409);
+
+        return { streak: { ...streak, guards: (streak.guards || 0) + 1, points: (streak.points || 0) - GUARD_POINT_COST } };
+    });
+
+    const next = updated!.streak!;
+    await recordStreakEvents([streakEvent(userId, 'guard_bought', toDateKey(new Date()), next, `-${GUARD_POINT_COST} pts`)]);
+    console.log(`[Streaks] ${userId} bought a guard (${next.guards}/${next.maxGuards || MAX_GUARDS}, ${next.points} pts left)`);
+    return next;
+}
+
+/**
+ * The supplier's streak, most recent history first, and the guard rules
+ */
+export async function getStreakHistory(userId: string) {
+    const user = await UserService.getById(userId);
+    if (!user) throw new StreakError('User not found', 404);
+
+    const events = (await StreakEventService.getByUser(userId))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, HISTORY_LIMIT);
+    return {
+        streak: user.streak || emptyStreak(),
+        events,
+        rules: { maxGuards: MAX_GUARDS, milestoneDays: GUARD_MILESTONE_DAYS, guardPointCost: GUARD_POINT_COST }
+    };
+}
+
+/**
+ * Initialize the streak evaluation scheduler
+ */
+export const initStreakScheduler = (): void => {
+    setInterval(() => {
+        evaluateStreaks().catch(error => console.error('[Streaks] Evaluation run failed:', error));
+    }, EVALUATE_INTERVAL_MS);
+
+    console.log('[Streaks] Scheduler initialized - settles finished days every hour');
+};
@@ -0,0 +1,325 @@
+import { ItemCategory, PricingRule, SurgeArea, SurgeAuditEntry, SurgeMode, SurgeSettings } from '../types';
+import { BookingService, ItemService, PricingRuleService, SearchService, SettingsService, SurgeAuditService } from './firestore';
+import { getLocationFromCoords, LocationInfo, normalizeLocationName } from './geocoding';
+import { logAudit } from './logger';
+
+/**
+ * Automatic Surge Pricing
+ *
+ * Every run counts, per mandal and category, the demand over a sliding window (bookings
+ * still Searching plus failed searches) against the approved items available there. The
+ * ratio turns into a multiplier: 1x at the target ratio, rising by `sensitivity` per unit
+ * above it, bounded by the floor and cap and moved at most `maxStepPerRun` at a time.
+ *
+ * The result lives in pricing_rules as an 'auto' rule per area, so quotes pick it up like
+ * any admin rule - and, like admin rules, it only reaches items whose supplier turned on
+ * Auto Price Optimization. Areas with no opted-in item, or already covered by an admin's
+ * own rule for that mandal, are left alone. In 'propose' mode the change waits on the rule
+ * for an admin to approve. Every change is written to surge_audit.
+ */
+
+const SETTINGS_KEY = 'surge_pricing';
+const SURGE_INTERVAL_MS = 15 * 60 * 1000;
+const SURGE_HARD_CAP = 3;
+const MULTIPLIER_STEP = 0.05;
+
+export const DEFAULT_SURGE_SETTINGS: SurgeSettings = {
+    mode: 'off',
+    windowHours: 24,
+    minDemand: 3,
+    targetRatio: 1,
+    sensitivity: 0.1,
+    minMultiplier: 1,
+    maxMultiplier: 1.5,
+    maxStepPerRun: 0.1,
+};
+
+export class SurgeError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'SurgeError';
+    }
+}
+
+const roundToStep = (value: number): number => Math.round(Math.round(value / MULTIPLIER_STEP) * MULTIPLIER_STEP * 100) / 100;
+
+const slug = (value: string): string => normalizeLocationName(value).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export const autoRuleId = (district: string, mandal: string, category: ItemCategory): string =>
+    `auto-${slug(district)}-${slug(mandal)}-${slug(category)}`;
+
+/**
+ * Multiplier an area's demand and supply call for, before the per-run step limit. Pure.
+ */
+export function computeSurgeMultiplier(demand: number, supply: number, settings: SurgeSettings): number {
+    if (demand < settings.minDemand) return Math.max(1, settings.minMultiplier);
+    const ratio = demand / Math.max(1, supply);
+    const raw = 1 + settings.sensitivity * (ratio - settings.targetRatio);
+    return roundToStep(Math.min(settings.maxMultiplier, Math.max(settings.minMultiplier, raw)));
+}
+
+/**
+ * Move from the current multiplier towards the target by at most maxStepPerRun. Pure.
+ */
+export function stepTowards(current: number, target: number, maxStep: number): number {
+    const delta = Math.max(-maxStep, Math.min(maxStep, target - current));
+    return roundToStep(current + delta);
+}
+
+/**
+ * Validate admin-submitted settings. Returns an error message or null.
+ */
+export function validateSurgeSettings(settings: Partial<SurgeSettings>): string | null {
+    const modes: SurgeMode[] = ['off', 'propose', 'auto'];
+    if (!modes.includes(settings.mode as SurgeMode)) return `mode must be one of ${modes.join(', ')}`;
+    const positive = ['windowHours', 'targetRatio', 'sensitivity', 'minMultiplier', 'maxMultiplier', 'maxStepPerRun'] as const;
+    for (const field of positive) {
+        const value = settings[field];
+        if (typeof value !== 'number' || !(value > 0)) return `${field} must be a number greater than 0`;
+    }
+    if (typeof settings.minDemand !== 'number' || settings.minDemand < 0) return 'minDemand must be a number >= 0';
+    if (settings.windowHours! > 24 * 14) return 'windowHours can be at most two weeks';
+    if (settings.minMultiplier! > 1) return 'minMultiplier cannot be above 1';
+    if (settings.maxMultiplier! < 1 || settings.maxMultiplier! > SURGE_HARD_CAP) return `maxMultiplier must be between 1 and ${SURGE_HARD_CAP}`;
+    return null;
+}
+
+export async function getSurgeSettings(): Promise<SurgeSettings> {
+    const stored = await SettingsService.get<Partial<SurgeSettings>>(SETTINGS_KEY);
+    return { ...DEFAULT_SURGE_SETTINGS, ...(stored || {}) };
+}
+
+export async function saveSurgeSettings(settings: SurgeSettings, updatedBy: string): Promise<SurgeSettings> {
+    const toStore: SurgeSettings = {
+        mode: settings.mode,
+        windowHours: settings.windowHours,
+        minDemand: settings.minDemand,
+        targetRatio: settings.targetRatio,
+        sensitivity: settings.sensitivity,
+        minMultiplier: settings.minMultiplier,
+        maxMultiplier: settings.maxMultiplier,
+        maxStepPerRun: settings.maxStepPerRun,
+        updatedAt: new Date().toISOString(),
+        updatedBy,
+    };
+    return SettingsService.set(SETTINGS_KEY, toStore);
+}
+
+const currentMultiplier = (rule: PricingRule | undefined): number => rule && rule.isActive ? rule.multiplier : 1;
+
+/**
+ * Demand and supply per mandal and category over the window, with the multiplier each
+ * area calls for. Read-only; runSurgeCycle acts on it.
+ */
+export async function buildSurgeSnapshot(settings: SurgeSettings, now: Date = new Date()): Promise<SurgeArea[]> {
+    const since = new Date(now.getTime() - settings.windowHours * 60 * 60 * 1000).toISOString();
+    const [bookings, failedSearches, items, rules] = await Promise.all([
+        BookingService.getAll(),
+        SearchService.getAll(),
+        ItemService.getAll(),
+        PricingRuleService.getAll()
+    ]);
+
+    const areas = new Map<string, SurgeArea>();
+    const areaFor = async (coords: { lat: number; lng: number } | null | undefined, category: ItemCategory): Promise<SurgeArea | null> => {
+        if (!coords || typeof coords.lat !== 'number' || typeof coords.lng !== 'number') return null;
+        const location: LocationInfo = await getLocationFromCoords(coords.lat, coords.lng);
+        const key = autoRuleId(location.district, location.mandal, category);
+        if (!areas.has(key)) {
+            areas.set(key, {
+                district: location.district,
+                mandal: location.mandal,
+                category,
+                searchingBookings: 0,
+                failedSearches: 0,
+                availableItems: 0,
+                optedInItems: 0,
+                ratio: 0,
+                suggestedMultiplier: 1,
+                currentMultiplier: 1,
+                manualRule: false
+            });
+        }
+        return areas.get(key)!;
+    };
+
+    // Geocoding is cached, so walking these one at a time stays cheap after the first run
+    for (const booking of bookings) {
+        if (booking.status !== 'Searching' || (booking.createdAt && booking.createdAt < since)) continue;
+        const area = await areaFor(booking.locationCoords, booking.itemCategory);
+        if (area) area.searchingBookings++;
+    }
+    for (const search of failedSearches) {
+        if (!search.timestamp || search.timestamp < since || !Object.values(ItemCategory).includes(search.selectedCategory)) continue;
+        const area = await areaFor(search.userLocation, search.selectedCategory);
+        if (area) area.failedSearches++;
+    }
+    for (const item of items) {
+        if (item.status !== 'approved' || !item.available) continue;
+        const area = await areaFor(item.locationCoords, item.category);
+        if (!area) continue;
+        area.availableItems++;
+        if (item.autoPriceOptimization) area.optedInItems++;
+    }
+
+    const rulesById = new Map<string, PricingRule>();
+    rules.forEach(rule => rulesById.set(rule.id, rule));
+    const manualRules = rules.filter(r => r.source !== 'auto' && r.isActive && r.mandal !== 'ALL');
+
+    return Array.from(areas.entries()).map(([id, area]) => {
+        const demand = area.searchingBookings + area.failedSearches;
+        return {
+            ...area,
+            ratio: Math.round(demand / Math.max(1, area.availableItems) * 100) / 100,
+            suggestedMultiplier: computeSurgeMultiplier(demand, area.availableItems, settings),
+            currentMultiplier: currentMultiplier(rulesById.get(id)),
+            manualRule: manualRules.some(r =>
+                normalizeLocationName(r.district) === normalizeLocationName(area.district)
+                && normalizeLocationName(r.mandal) === normalizeLocationName(area.mandal)
+                && (!r.category || r.category === area.category))
+        };
+    });
+}
+
+async function recordChange(
+    rule: Pick<PricingRule, 'id' | 'district' | 'mandal' | 'category'>,
+    action: SurgeAuditEntry['action'],
+    fromMultiplier: number,
+    toMultiplier: number,
+    performedBy: string,
+    area?: SurgeArea
+): Promise<void> {
+    const entry: SurgeAuditEntry = {
+        id: `SRG-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+        ruleId: rule.id,
+        district: rule.district,
+        mandal: rule.mandal,
+        category: rule.category!,
+        action,
+        fromMultiplier,
+        toMultiplier,
+        searchingBookings: area?.searchingBookings ?? 0,
+        failedSearches: area?.failedSearches ?? 0,
+        availableItems: area?.availableItems ?? 0,
+        performedBy,
+        createdAt: new Date().toISOString()
+    };
+    await SurgeAuditService.create(entry);
+    logAudit('SURGE_RULE_UPDATED', {
+        performedBy,
+        targetResource: `pricing rule ${rule.id}`,
+        details: action,
+        oldValue: { multiplier: fromMultiplier },
+        newValue: { multiplier: toMultiplier }
+    });
+}
+
+/**
+ * One pass of the scheduler: apply (or propose) the stepped multiplier for every area,
+ * and wind automatic rules back to 1x when surge is switched off. Returns the changes made.
+ */
+export async function runSurgeCycle(performedBy: string = 'system'): Promise<SurgeAuditEntry['action'][]> {
+    const settings = await getSurgeSettings();
+    const changes: SurgeAuditEntry['action'][] = [];
+
+    if (settings.mode === 'off') {
+        const active = (await PricingRuleService.getAll()).filter(r => r.source === 'auto' && (r.isActive || r.proposedMultiplier !== undefined));
+        for (const rule of active) {
+            await PricingRuleService.save({ ...stripProposal(rule), isActive: false, multiplier: 1, updatedAt: new Date().toISOString() });
+            if (currentMultiplier(rule) === 1) continue;
+            await recordChange(rule, 'applied', currentMultiplier(rule), 1, performedBy);
+            changes.push('applied');
+        }
+        return changes;
+    }
+
+    const [snapshot, rules] = await Promise.all([buildSurgeSnapshot(settings), PricingRuleService.getAll()]);
+    const autoRules = new Map<string, PricingRule>();
+    rules.filter(r => r.source === 'auto').forEach(rule => autoRules.set(rule.id, rule));
+
+    // Areas that dropped out of the snapshot entirely ease back towards 1x
+    const seen = new Set(snapshot.map(area => autoRuleId(area.district, area.mandal, area.category)));
+    const stale: SurgeArea[] = Array.from(autoRules.values())
+        .filter(rule => !seen.has(rule.id) && rule.isActive)
+        .map(rule => ({
+            district: rule.district, mandal: rule.mandal, category: rule.category!,
+            searchingBookings: 0, failedSearches: 0, availableItems: 0, optedInItems: 0, ratio: 0,
+            suggestedMultiplier: 1, currentMultiplier: rule.multiplier, manualRule: false
+        }));
+
+    for (const area of [...snapshot, ...stale]) {
+        const id = autoRuleId(area.district, area.mandal, area.category);
+        const existing = autoRules.get(id);
+        // An admin's rule or no opted-in supplier: only an existing automatic rule needs winding back
+        const windDown = area.manualRule || area.optedInItems === 0;
+        if (windDown && !existing?.isActive && existing?.proposedMultiplier === undefined) continue;
+
+        const from = currentMultiplier(existing);
+        const target = windDown ? 1 : area.suggestedMultiplier;
+        const next = stepTowards(from, target, settings.maxStepPerRun);
+        const base: PricingRule = existing || {
+            id,
+            district: area.district,
+            mandal: area.mandal,
+            category: area.category,
+            multiplier: 1,
+            seasonName: 'High Demand',
+            isActive: false,
+            source: 'auto'
+        };
+
+        if (settings.mode === 'auto') {
+            if (next === from && existing?.proposedMultiplier === undefined) continue;
+            await PricingRuleService.save({ ...stripProposal(base), multiplier: next, isActive: next !== 1, updatedAt: new Date().toISOString() });
+            if (next !== from) {
+                await recordChange(base, 'applied', from, next, performedBy, area);
+                changes.push('applied');
+            }
+        } else {
+            const proposed = next === from ? undefined : next;
+            if (proposed === existing?.proposedMultiplier) continue;
+            await PricingRuleService.save({ ...stripProposal(base), ...(proposed !== undefined ? { proposedMultiplier: proposed } : {}), updatedAt: new Date().toISOString() });
+            if (proposed !== undefined) {
+                await recordChange(base, 'proposed', from, proposed, performedBy, area);
+                changes.push('proposed');
+            }
+        }
+    }
+    if (changes.length > 0) console.log(`[Surge] ${changes.length} rule change(s) in ${settings.mode} mode`);
+    return changes;
+}
+
+function stripProposal(rule: PricingRule): PricingRule {
+    const { proposedMultiplier: _proposed, ...rest } = rule;
+    return rest;
+}
+
+/**
+ * Admin decision on a proposed multiplier
+ */
+export async function reviewSurgeProposal(ruleId: string, approve: boolean, adminId: string): Promise<PricingRule> {
+    const rule = await PricingRuleService.getById(ruleId);
+    if (!rule || rule.source !== 'auto') throw new SurgeError('Automatic rule not found', 404);
+    if (rule.proposedMultiplier === undefined) throw new SurgeError('This rule has no pending proposal', 409);
+
+    const from = currentMultiplier(rule);
+    const updated: PricingRule = approve
+        ? { ...stripProposal(rule), multiplier: rule.proposedMultiplier, isActive: rule.proposedMultiplier !== 1, updatedAt: new Date().toISOString() }
+        : { ...stripProposal(rule), updatedAt: new Date().toISOString() };
+    await PricingRuleService.save(updated);
+    await recordChange(rule, approve ? 'approved' : 'dismissed', from, approve ? rule.proposedMultiplier : from, adminId);
+    return updated;
+}
+
+export const getSurgeAudit = (limit = 100): Promise<SurgeAuditEntry[]> => SurgeAuditService.getRecent(limit);
+
+/**
+ * Initialize the surge loop (every 15 minutes)
+ */
+export const initSurgeScheduler = (): void => {
+    setInterval(() => {
+        runSurgeCycle().catch(error => console.error('[Surge] Run failed:', error));
+    }, SURGE_INTERVAL_MS);
+
+    console.log(`[Surge] Scheduler initialized - recomputing every ${SURGE_INTERVAL_MS / 60000} minutes`);
+};
@@ -0,0 +1,306 @@
+import { SupportTicket, SuspensionPolicy, SuspensionRolePolicy, User } from '../types';
+import { FieldValue } from 'firebase-admin/firestore';
+import { NotificationService, SettingsService, SupportService, UserService, Updates } from './firestore';
+
+/**
+ * Suspension Policy Engine
+ *
+ * Counts a user's run of cancellations (reset by a completed job) and suspends or blocks
+ * the account when the run reaches the policy thresholds for their role. Cancellations
+ * older than the role's window drop out of the run. The run keeps counting through a
+ * suspension, so repeated cancellations after it escalate to a block.
+ *
+ * Suspensions and blocks end by themselves once suspendedUntil passes (scheduler below,
+ * and at sign-in via authMiddleware). A suspended or blocked user can appeal once per
+ * suspension; the appeal is a support ticket that staff lift or uphold.
+ *
+ * The policy is stored in settings/suspension_policy and falls back to the defaults below.
+ */
+
+const POLICY_KEY = 'suspension_policy';
+const REACTIVATION_INTERVAL_MS = 15 * 60 * 1000; // Every 15 minutes
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type SuspensionRole = 'supplier' | 'farmer';
+
+export const DEFAULT_SUSPENSION_POLICY: SuspensionPolicy = {
+    supplier: { enabled: true, windowDays: 30, suspendAfter: 3, suspendHours: 24, blockAfter: 5, blockDays: 7 },
+    farmer: { enabled: true, windowDays: 30, suspendAfter: 3, suspendHours: 24, blockAfter: 5, blockDays: 7 },
+    exemptTrustedSuppliers: true,
+};
+
+export class SuspensionError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'SuspensionError';
+    }
+}
+
+/**
+ * Current policy (stored settings merged over the defaults)
+ */
+export async function getSuspensionPolicy(): Promise<SuspensionPolicy> {
+    const stored = await SettingsService.get<Partial<SuspensionPolicy>>(POLICY_KEY);
+    return {
+        ...DEFAULT_SUSPENSION_POLICY,
+        ...(stored || {}),
+        supplier: { ...DEFAULT_SUSPENSION_POLICY.supplier, ...(stored?.supplier || {}) },
+        farmer: { ...DEFAULT_SUSPENSION_POLICY.farmer, ...(stored?.farmer || {}) },
+    };
+}
+
+const validateRolePolicy = (policy: Partial<SuspensionRolePolicy> | undefined, role: SuspensionRole): string | null => {
+    if (!policy) return `${role} policy is required`;
+    if (typeof policy.enabled !== 'boolean') return `${role}.enabled must be true or false`;
+    for (const field of ['suspendAfter', 'blockAfter', 'suspendHours', 'blockDays'] as const) {
+        const value = policy[field];
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) return `${role}.${field} must be a whole number >= 1`;
+    }
+    if (typeof policy.windowDays !== 'number' || !Number.isInteger(policy.windowDays) || policy.windowDays < 0) {
+        return `${role}.windowDays must be a whole number >= 0`;
+    }
+    if (policy.blockAfter! <= policy.suspendAfter!) return `${role}.blockAfter must be higher than suspendAfter`;
+    return null;
+};
+
+/**
+ * Validate a Founder-submitted policy. Returns an error message or null.
+ */
+export function validateSuspensionPolicy(policy: Partial<SuspensionPolicy>): string | null {
+    return validateRolePolicy(policy.supplier, 'supplier')
+        || validateRolePolicy(policy.farmer, 'farmer')
+        || (typeof policy.exemptTrustedSuppliers !== 'boolean' ? 'exemptTrustedSuppliers must be true or false' : null);
+}
+
+const pickRolePolicy = (policy: SuspensionRolePolicy): SuspensionRolePolicy => ({
+    enabled: policy.enabled,
+    windowDays: policy.windowDays,
+    suspendAfter: policy.suspendAfter,
+    suspendHours: policy.suspendHours,
+    blockAfter: policy.blockAfter,
+    blockDays: policy.blockDays,
+});
+
+export async function saveSuspensionPolicy(policy: SuspensionPolicy, updatedBy: string): Promise<SuspensionPolicy> {
+    const toStore: SuspensionPolicy = {
+        supplier: pickRolePolicy(policy.supplier),
+        farmer: pickRolePolicy(policy.farmer),
+        exemptTrustedSuppliers: policy.exemptTrustedSuppliers,
+        updatedAt: new Date().toISOString(),
+        updatedBy,
+    };
+    return SettingsService.set(POLICY_KEY, toStore);
+}
+
+/**
+ * The user's cancellation run after dropping entries older than the window. Pure.
+ */
+export function getCancellationRun(user: User, rolePolicy: SuspensionRolePolicy, now: Date = new Date()): string[] {
+    const run = user.cancellationRun || [];
+    if (rolePolicy.windowDays <= 0) return run;
+    const since = now.getTime() - rolePolicy.windowDays * DAY_MS;
+    return run.filter(at => new Date(at).getTime() >= since);
+}
+
+const formatDuration = (hours: number): string =>
+    hours % 24 === 0 ? `${hours / 24} day${hours === 24 ? '' : 's'}` : `${hours} hour${hours === 1 ? '' : 's'}`;
+
+const notify = (userId: string, message: string, priority: 'high' | 'critical', type: 'system' | 'admin' = 'system') =>
+    NotificationService.create({
+        id: Date.now() + Math.random(),
+        userId,
+        message,
+        type,
+        category: 'alert',
+        priority,
+        read: false,
+        timestamp: new Date().toISOString()
+    });
+
+/**
+ * Record a cancellation against the user and suspend or block the account when the run
+ * reaches the policy thresholds for their role
+ */
+export async function applyCancellationPolicy(user: User, userId: string, role: SuspensionRole): Promise<void> {
+    const policy = await getSuspensionPolicy();
+    const rolePolicy = policy[role];
+    const now = new Date();
+    const run = [...getCancellationRun(user, rolePolicy, now), now.toISOString()];
+    const label = role === 'supplier' ? 'Supplier' : 'Farmer';
+    const within = rolePolicy.windowDays > 0 ? ` within ${rolePolicy.windowDays} days` : ' in a row';
+    let userUpdates: Updates<User> = { cancellationRun: run, cancelledStreak: run.length };
+
+    const reachesThreshold = rolePolicy.enabled && run.length >= rolePolicy.suspendAfter;
+    if (reachesThreshold && role === 'supplier' && user.isTrustedSupplier && policy.exemptTrustedSuppliers) {
+        console.log(`[Suspension] Trusted Supplier ${userId} exempt at ${run.length} cancellation(s)`);
+        await notify('0', `Trusted Supplier #${userId} has cancelled ${run.length} bookings${within} (exempt from suspension).`, 'high', 'admin');
+        await notify(userId, `You have cancelled ${run.length} confirmed bookings${within}. Please complete your upcoming bookings to keep your trusted status.`, 'high');
+    } else if (rolePolicy.enabled && run.length >= rolePolicy.blockAfter) {
+        const blockUntil = new Date(now.getTime() + rolePolicy.blockDays * DAY_MS).toISOString();
+        const reason = `${run.length} cancellations${within}`;
+        userUpdates = {
+            ...userUpdates,
+            userStatus: 'blocked',
+            suspendedUntil: blockUntil,
+            suspensionReason: reason,
+            suspensionAppealTicketId: FieldValue.delete(),
+            cancellationRun: [],
+            cancelledStreak: 0
+        };
+        console.log(`[Suspension] BLOCKING ${label} ${userId} until ${blockUntil}`);
+
+        await notify('0', `CRITICAL: ${label} #${userId} BLOCKED for ${formatDuration(rolePolicy.blockDays * 24)} due to ${reason}.`, 'critical', 'admin');
+        await notify(userId, `ACCOUNT BLOCKED: You have cancelled ${run.length} bookings${within}. Your account is blocked for ${formatDuration(rolePolicy.blockDays * 24)}. You can appeal from the banner on your home screen if you believe this is an error.`, 'critical');
+    } else if (reachesThreshold) {
+        const suspendUntil = new Date(now.getTime() + rolePolicy.suspendHours * HOUR_MS).toISOString();
+        const reason = `${run.length} cancellations${within}`;
+        userUpdates = {
+            ...userUpdates,
+            userStatus: 'suspended',
+            suspendedUntil: suspendUntil,
+            suspensionReason: reason,
+            suspensionAppealTicketId: FieldValue.delete()
+        };
+        console.log(`[Suspension] SUSPENDING ${label} ${userId} until ${suspendUntil}`);
+
+        await notify('0', `${label} #${userId} suspended for ${formatDuration(rolePolicy.suspendHours)} due to ${reason}.`, 'high', 'admin');
+        await notify(userId, `ACCOUNT SUSPENDED: You have cancelled ${run.length} bookings${within}. Your account is suspended for ${formatDuration(rolePolicy.suspendHours)}. ${rolePolicy.blockAfter - run.length} more will block it for ${formatDuration(rolePolicy.blockDays * 24)}.`, 'critical');
+    }
+
+    await UserService.update(userId, userUpdates);
+}
+
+/**
+ * Lift a suspension or block (its end date and reason are removed from the user)
+ */
+async function reactivateUser(userId: string, message: string): Promise<User | null> {
+    const updated = await UserService.update(userId, {
+        userStatus: 'approved',
+        suspendedUntil: FieldValue.delete(),
+        suspensionReason: FieldValue.delete()
+    });
+    await notify(userId, message, 'high');
+    return updated;
+}
+
+/**
+ * Reactivate the user if their suspension or block has run out. Returns the user as it now stands.
+ */
+export async function reactivateIfExpired(user: User, now: Date = new Date()): Promise<User> {
+    if (user.userStatus !== 'suspended' && user.userStatus !== 'blocked') return user;
+    // Manual suspensions without an end date stay until staff lift them
+    if (!user.suspendedUntil || new Date(user.suspendedUntil) > now) return user;
+
+    console.log(`[Suspension] Reactivating ${user.id}: ${user.userStatus} until ${user.suspendedUntil} has passed`);
+    const updated = await reactivateUser(String(user.id), 'Your account is active again. Thank you for your patience.');
+    return updated || { ...user, userStatus: 'approved' };
+}
+
+export async function reactivateExpiredSuspensions(now: Date = new Date()): Promise<number> {
+    const users = (await UserService.getAll()).filter(u =>
+        (u.userStatus === 'suspended' || u.userStatus === 'blocked') && u.suspendedUntil && new Date(u.suspendedUntil) <= now
+    );
+
+    let reactivated = 0;
+    for (const user of users) {
+        try {
+            await reactivateIfExpired(user, now);
+            reactivated++;
+        } catch (error) {
+            console.error(`[Suspension] Failed to reactivate ${user.id}:`, error);
+        }
+    }
+    return reactivated;
+}
+
+/**
+ * Initialize the automatic reactivation scheduler
+ */
+export const initSuspensionScheduler = (): void => {
+    setInterval(() => {
+        reactivateExpiredSuspensions()
+            .then(count => { if (count > 0) console.log(`[Suspension] Reactivated ${count} account(s)`); })
+            .catch(error => console.error('[Suspension] Reactivation run failed:', error));
+    }, REACTIVATION_INTERVAL_MS);
+
+    console.log('[Suspension] Reactivation scheduler initialized - will run every 15 minutes');
+};
+
+/**
+ * The user's current suspension and the ticket of their appeal against it, if any
+ */
+export async function getSuspensionStatus(userId: string): Promise<{ user: User; appeal: SupportTicket | null }> {
+    const user = await UserService.getById(userId);
+    if (!user) throw new SuspensionError('User not found', 404);
+    const appeal = user.suspensionAppealTicketId ? await SupportService.getById(user.suspensionAppealTicketId) : null;
+    return { user, appeal };
+}
+
+/**
+ * Open a support ticket appealing the user's current suspension or block. One appeal per suspension.
+ */
+export async function submitAppeal(userId: string, message: string): Promise<SupportTicket> {
+    const { user, appeal: existing } = await getSuspensionStatus(userId);
+    if (user.userStatus !== 'suspended' && user.userStatus !== 'blocked') {
+        throw new SuspensionError('Your account is not suspended', 409);
+    }
+    if (existing) throw new SuspensionError('You have already appealed this suspension', 409);
+    if (!message.trim()) throw new SuspensionError('Tell us why the suspension should be lifted');
+
+    const ticket: SupportTicket = {
+        id: Date.now(),
+        userId,
+        name: user.name,
+        email: user.email,
+        message: message.trim(),
+        status: 'open',
+        timestamp: new Date().toISOString(),
+        replies: [],
+        appeal: {
+            userStatus: user.userStatus,
+            ...(user.suspendedUntil ? { suspendedUntil: user.suspendedUntil } : {}),
+            ...(user.suspensionReason ? { reason: user.suspensionReason } : {})
+        }
+    };
+    await SupportService.create(ticket);
+    await UserService.update(userId, { suspensionAppealTicketId: ticket.id });
+
+    console.log(`[Suspension] ${userId} appealed their ${user.userStatus} account (ticket ${ticket.id})`);
+    await notify('0', `${user.name} (#${userId}) appealed their ${user.userStatus} account. See support ticket ${ticket.id}.`, 'high', 'admin');
+    return ticket;
+}
+
+/**
+ * Staff decision on an appeal: lift reactivates the account now, uphold leaves it to run out.
+ * Either way the ticket is answered and closed.
+ */
+export async function decideAppeal(ticketId: number, decision: 'lifted' | 'upheld', note: string, decidedBy: string): Promise<SupportTicket> {
+    const ticket = await SupportService.getById(ticketId);
+    if (!ticket || !ticket.appeal) throw new SuspensionError('Appeal not found', 404);
+    if (ticket.appeal.decision) throw new SuspensionError(`This appeal was already ${ticket.appeal.decision}`, 409);
+    const userId = String(ticket.userId);
+
+    const text = decision === 'lifted'
+        ? `Your appeal was accepted and your account is active again.${note ? ` ${note}` : ''}`
+        : `Your appeal was reviewed and the ${ticket.appeal.userStatus === 'blocked' ? 'block' : 'suspension'} stays in place${ticket.appeal.suspendedUntil ? ` until ${new Date(ticket.appeal.suspendedUntil).toLocaleString('en-IN')}` : ''}.${note ? ` ${note}` : ''}`;
+
+    const user = await UserService.getById(userId);
+    const stillSuspended = !!user && user.suspensionAppealTicketId === ticketId && (user.userStatus === 'suspended' || user.userStatus === 'blocked');
+    if (decision === 'lifted' && stillSuspended) {
+        await UserService.update(userId, { cancellationRun: [], cancelledStreak: 0 });
+        await reactivateUser(userId, text);
+    } else {
+        await notify(userId, text, 'high');
+    }
+
+    const now = new Date().toISOString();
+    const updated = await SupportService.update(ticketId, {
+        status: 'closed',
+        replies: [...(ticket.replies || []), { id: Date.now(), authorId: decidedBy, text, timestamp: now }],
+        appeal: { ...ticket.appeal, decision, decidedBy, decidedAt: now }
+    });
+
+    console.log(`[Suspension] Appeal ${ticketId} of ${userId} ${decision} by ${decidedBy}`);
+    return updated || ticket;
+}
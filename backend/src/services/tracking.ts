@@ -0,0 +1,138 @@
+import { Booking, BookingStatus, BookingTracking, LocationPoint } from '../types';
+import { BookingService, ItemService, TrackingService } from './firestore';
+import { calculateDistance } from './geocoding';
+import { checkGeofenceArrival } from './arrival';
+
+/**
+ * Live GPS Tracking
+ *
+ * While a booking is Confirmed (machine on its way), Arrived or In Process the supplier's
+ * device (or the operator's) posts its position here. Each fix is appended to the booking's
+ * breadcrumb trail and written to booking_tracking/{bookingId}, which the farmer's app
+ * listens to in realtime. The item's currentLocation is kept in step for the item map.
+ *
+ * The ETA is a rough road estimate: straight-line distance stretched by ROAD_FACTOR at the
+ * device's reported speed, or AVERAGE_SPEED_KMH when it is standing still or doesn't say.
+ */
+
+export const TRACKABLE_STATUSES: BookingStatus[] = ['Confirmed', 'Arrived', 'In Process'];
+
+// Fixes closer together than this are dropped so a chatty device doesn't flood the trail
+export const MIN_PING_INTERVAL_MS = 5000;
+const ROAD_FACTOR = 1.3;
+const AVERAGE_SPEED_KMH = 25;
+const MIN_MOVING_SPEED_KMH = 5;
+const MAX_SPEED_KMH = 80;
+
+export class TrackingError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'TrackingError';
+    }
+}
+
+export interface LocationInput {
+    lat: number;
+    lng: number;
+    accuracy?: number;
+    speed?: number;
+    heading?: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Distance left and minutes to arrival from a position to the field. Pure.
+ */
+export function estimateEta(
+    from: { lat: number; lng: number },
+    to: { lat: number; lng: number },
+    speedKmh?: number
+): { distanceKm: number; etaMinutes: number } {
+    const distanceKm = calculateDistance(from.lat, from.lng, to.lat, to.lng);
+    const speed = speedKmh && speedKmh >= MIN_MOVING_SPEED_KMH ? Math.min(speedKmh, MAX_SPEED_KMH) : AVERAGE_SPEED_KMH;
+    return {
+        distanceKm: round2(distanceKm),
+        etaMinutes: Math.ceil((distanceKm * ROAD_FACTOR / speed) * 60)
+    };
+}
+
+/**
+ * Validate a posted fix. Returns an error message or null.
+ */
+export function validateLocation(input: Partial<LocationInput>): string | null {
+    if (typeof input.lat !== 'number' || input.lat < -90 || input.lat > 90) return 'lat must be a number between -90 and 90';
+    if (typeof input.lng !== 'number' || input.lng < -180 || input.lng > 180) return 'lng must be a number between -180 and 180';
+    for (const field of ['accuracy', 'speed', 'heading'] as const) {
+        const value = input[field];
+        if (value !== undefined && value !== null && (typeof value !== 'number' || value < 0)) return `${field} must be a number >= 0`;
+    }
+    return null;
+}
+
+/**
+ * Parties who may see a booking's live position
+ */
+export const canViewTracking = (booking: Booking, userId: string): boolean =>
+    [booking.farmerId, booking.supplierId, booking.operatorId, booking.bookedByAgentId].filter(Boolean).map(String).includes(userId);
+
+/**
+ * Record a fix from the supplier / operator of a booking. Returns the updated live position
+ * (unchanged when the fix came in too soon after the last one).
+ */
+export async function recordLocation(bookingId: string, userId: string, input: LocationInput): Promise<BookingTracking> {
+    const booking = await BookingService.getById(bookingId);
+    if (!booking) throw new TrackingError('Booking not found', 404);
+    if (userId !== String(booking.supplierId) && userId !== String(booking.operatorId)) {
+        throw new TrackingError('Only the assigned supplier or operator can share location for this booking', 403);
+    }
+    if (!TRACKABLE_STATUSES.includes(booking.status)) {
+        throw new TrackingError(`Location is only shared while a booking is ${TRACKABLE_STATUSES.join(', ')}`, 409);
+    }
+
+    const previous = await TrackingService.get(bookingId);
+    const now = new Date();
+    if (previous && now.getTime() - new Date(previous.updatedAt).getTime() < MIN_PING_INTERVAL_MS) {
+        return previous;
+    }
+
+    // Firestore rejects undefined values, so optional readings are only set when present
+    const point: LocationPoint = {
+        lat: input.lat,
+        lng: input.lng,
+        ...(typeof input.accuracy === 'number' ? { accuracy: input.accuracy } : {}),
+        ...(typeof input.speed === 'number' ? { speed: input.speed } : {}),
+        ...(typeof input.heading === 'number' ? { heading: input.heading } : {}),
+        recordedAt: now.toISOString()
+    };
+
+    // Entering the field's geofence marks the booking Arrived
+    const arrived = await checkGeofenceArrival(booking, point);
+    const status = arrived ? arrived.status : booking.status;
+
+    // ETA only matters while the machine is on its way to the field
+    let eta: Partial<BookingTracking> = {};
+    if (booking.locationCoords) {
+        const { distanceKm, etaMinutes } = estimateEta(point, booking.locationCoords, point.speed);
+        eta = status === 'Confirmed'
+            ? { distanceKm, etaMinutes, etaAt: new Date(now.getTime() + etaMinutes * 60000).toISOString() }
+            : { distanceKm };
+    }
+
+    const tracking: BookingTracking = {
+        bookingId,
+        farmerId: booking.farmerId,
+        supplierId: String(booking.supplierId),
+        ...(booking.itemId ? { itemId: booking.itemId } : {}),
+        lastLocation: point,
+        pointCount: (previous?.pointCount || 0) + 1,
+        ...eta,
+        updatedAt: point.recordedAt
+    };
+
+    await TrackingService.record(tracking, point);
+    if (booking.itemId) {
+        await ItemService.update(booking.itemId, { currentLocation: { lat: point.lat, lng: point.lng } });
+    }
+    return tracking;
+}
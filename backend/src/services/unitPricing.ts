@@ -0,0 +1,50 @@
+import { ItemPurpose, PricingUnit } from '../types';
+
+/**
+ * Unit Pricing
+ *
+ * Suppliers price each purpose per hour, per acre or per trip, optionally with a minimum
+ * charge per machine. Hours and trips count per machine; acres are the whole job, shared
+ * between however many machines work it. Quotes (quotes.ts) price with this, including the
+ * price a supplier accepts a booking at (bookingAcceptance.ts); the app shows the same maths
+ * from utils/pricing.ts.
+ */
+
+export const PRICING_UNITS: PricingUnit[] = ['hour', 'acre', 'trip'];
+
+export interface JobSize {
+    hours: number;
+    acres?: number;
+    quantity?: number;
+}
+
+/**
+ * Machine charge for a purpose at `rate` (the purpose's price unless surge changed it). Pure.
+ */
+export function calculatePurposeCharge(
+    purpose: Pick<ItemPurpose, 'price' | 'unit' | 'minimumCharge'>,
+    job: JobSize,
+    rate: number = purpose.price
+): number {
+    const quantity = job.quantity || 1;
+    const unit = purpose.unit || 'hour';
+    const charge = unit === 'acre' ? rate * (job.acres || 0)
+        : unit === 'trip' ? rate * quantity
+            : rate * job.hours * quantity;
+    return Math.round(Math.max(charge, (purpose.minimumCharge || 0) * quantity));
+}
+
+/**
+ * Validate an item's purposes. Returns an error message or null.
+ */
+export function validatePurposes(purposes: Partial<ItemPurpose>[]): string | null {
+    if (!Array.isArray(purposes)) return 'purposes must be a list';
+    for (const purpose of purposes) {
+        if (typeof purpose.price !== 'number' || purpose.price <= 0) return `${purpose.name || 'Purpose'}: price must be greater than 0`;
+        if (purpose.unit !== undefined && !PRICING_UNITS.includes(purpose.unit)) return `${purpose.name}: unit must be one of ${PRICING_UNITS.join(', ')}`;
+        if (purpose.minimumCharge !== undefined && (typeof purpose.minimumCharge !== 'number' || purpose.minimumCharge < 0)) {
+            return `${purpose.name}: minimumCharge must be a number >= 0`;
+        }
+    }
+    return null;
+}
@@ -0,0 +1,233 @@
+import { User, UserRole, VerificationHistoryEntry, VerifiedPlan, VerifiedPlanId, VerifiedSubscriptionStatus } from '../types';
+import { FieldValue } from 'firebase-admin/firestore';
+import { UserService } from './firestore';
+import { debitWalletForSubscription, WalletError } from './wallet';
+import { sendVerifiedPlanNotification } from './smartNotifications';
+
+/**
+ * Verified-Account Subscriptions
+ *
+ * Suppliers buy a monthly, quarterly or yearly plan online (payments.ts, applied by the
+ * provider's webhook) or from their wallet's cash balance. A purchase while still verified
+ * extends the current period instead of overlapping it. Every paid period is appended to
+ * User.verificationHistory with its payment reference, which also makes a repeated webhook
+ * or retry a no-op.
+ *
+ * The hourly job handles the end of a period:
+ *   1. auto-renewal from the wallet when the supplier turned it on,
+ *   2. otherwise (or when the wallet is short) GRACE_DAYS of grace with the badge kept,
+ *   3. then the downgrade: isVerifiedAccount goes false and auto-renewal is switched off.
+ * Renewal reminders before expiry are sent by smartNotifications.
+ */
+
+export const VERIFIED_PLANS: VerifiedPlan[] = [
+    { id: 'monthly', name: 'Verified Monthly', months: 1, price: 999 },
+    { id: 'quarterly', name: 'Verified Quarterly', months: 3, price: 2699 },
+    { id: 'yearly', name: 'Verified Yearly', months: 12, price: 9999 }
+];
+
+export const GRACE_DAYS = 3;
+const PROCESS_INTERVAL_MS = 60 * 60 * 1000; // Every hour
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SUBSCRIPTION_ACTOR = 'verified-subscriptions';
+
+export class VerifiedSubscriptionError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'VerifiedSubscriptionError';
+    }
+}
+
+export const getVerifiedPlan = (planId: string): VerifiedPlan => {
+    const plan = VERIFIED_PLANS.find(p => p.id === planId);
+    if (!plan) throw new VerifiedSubscriptionError(`planId must be one of ${VERIFIED_PLANS.map(p => p.id).join(', ')}`);
+    return plan;
+};
+
+const addMonths = (from: Date, months: number): Date => {
+    const next = new Date(from);
+    next.setMonth(next.getMonth() + months);
+    return next;
+};
+
+/**
+ * Where a supplier's verified account stands. Pure.
+ */
+export function getSubscriptionStatus(user: User, now: Date = new Date()): VerifiedSubscriptionStatus {
+    const expiry = user.verifiedAccountExpiryDate ? new Date(user.verifiedAccountExpiryDate) : null;
+    const history = user.verificationHistory || [];
+    const status: VerifiedSubscriptionStatus['status'] = user.isVerifiedAccount
+        ? (!expiry || expiry > now ? 'active' : 'grace')
+        : history.length > 0 ? 'lapsed' : 'none';
+
+    return {
+        status,
+        ...(user.verifiedPlanId ? { planId: user.verifiedPlanId } : {}),
+        autoRenew: !!user.verifiedAutoRenew,
+        ...(user.verifiedAccountPurchaseDate ? { purchaseDate: user.verifiedAccountPurchaseDate } : {}),
+        ...(user.verifiedAccountExpiryDate ? { expiryDate: user.verifiedAccountExpiryDate } : {}),
+        ...(status === 'grace' ? { graceUntil: user.verifiedGraceUntil || new Date(expiry!.getTime() + GRACE_DAYS * DAY_MS).toISOString() } : {}),
+        history,
+        plans: VERIFIED_PLANS
+    };
+}
+
+export async function getSupplierOrThrow(userId: string): Promise<User> {
+    const user = await UserService.getById(userId);
+    if (!user) throw new VerifiedSubscriptionError('User not found', 404);
+    if (user.role !== UserRole.Supplier) throw new VerifiedSubscriptionError('Verified accounts are for suppliers', 403);
+    return user;
+}
+
+/**
+ * Start or extend a verified period for a paid plan. A payment reference already in the
+ * history is ignored, so webhook redeliveries and retries don't add time twice.
+ */
+export async function activateVerifiedPlan(
+    userId: string,
+    planId: VerifiedPlanId,
+    payment: { method: 'Online' | 'Wallet'; reference: string; amount: number; source: 'purchase' | 'auto_renewal' }
+): Promise<User> {
+    const user = await getSupplierOrThrow(userId);
+    const history = user.verificationHistory || [];
+    if (history.some(h => h.paymentReference === payment.reference)) return user;
+
+    const plan = getVerifiedPlan(planId);
+    const now = new Date();
+    const currentExpiry = user.isVerifiedAccount && user.verifiedAccountExpiryDate ? new Date(user.verifiedAccountExpiryDate) : null;
+    const start = currentExpiry && currentExpiry > now ? currentExpiry : now;
+    const expiry = addMonths(start, plan.months);
+
+    const entry: VerificationHistoryEntry = {
+        purchaseDate: now.toISOString(),
+        expiryDate: expiry.toISOString(),
+        plan: plan.name,
+        amount: payment.amount,
+        planId: plan.id,
+        source: payment.source,
+        paymentMethod: payment.method,
+        paymentReference: payment.reference
+    };
+    // A renewal inside the grace period ends it
+    const updated = await UserService.update(userId, {
+        isVerifiedAccount: true,
+        verifiedAccountPurchaseDate: now.toISOString(),
+        verifiedAccountExpiryDate: expiry.toISOString(),
+        verifiedPlanId: plan.id,
+        verifiedGraceUntil: FieldValue.delete(),
+        verificationHistory: [...history, entry]
+    });
+
+    console.log(`[Verified] ${plan.id} plan for ${userId} until ${entry.expiryDate} (${payment.method} ${payment.reference})`);
+    await sendVerifiedPlanNotification(userId, payment.source === 'auto_renewal' ? 'renewed' : 'activated', { planName: plan.name, expiryDate: entry.expiryDate, amount: payment.amount });
+    return updated || user;
+}
+
+/**
+ * Pay for a plan from the supplier's wallet. `requestKey` identifies one purchase so a double
+ * tap can't pay twice.
+ */
+export async function buyPlanFromWallet(userId: string, planId: VerifiedPlanId, requestKey: string): Promise<User> {
+    const plan = getVerifiedPlan(planId);
+    await getSupplierOrThrow(userId);
+    try {
+        const transaction = await debitWalletForSubscription(userId, plan.price, {
+            id: `WT-SUB-${userId}-${requestKey}`,
+            note: `${plan.name} plan`,
+            createdBy: userId
+        });
+        return activateVerifiedPlan(userId, plan.id, { method: 'Wallet', reference: transaction.id, amount: plan.price, source: 'purchase' });
+    } catch (error) {
+        if (error instanceof WalletError) throw new VerifiedSubscriptionError(error.message, error.statusCode);
+        throw error;
+    }
+}
+
+/**
+ * Turn wallet auto-renewal on (for a plan) or off
+ */
+export async function setAutoRenew(userId: string, enabled: boolean, planId?: VerifiedPlanId): Promise<User> {
+    const user = await getSupplierOrThrow(userId);
+    const renewPlan = planId || user.verifiedPlanId;
+    if (enabled && !renewPlan) throw new VerifiedSubscriptionError('Choose a plan to renew');
+    if (renewPlan) getVerifiedPlan(renewPlan);
+
+    const updated = await UserService.update(userId, {
+        verifiedAutoRenew: enabled,
+        ...(renewPlan ? { verifiedPlanId: renewPlan } : {})
+    });
+    return updated || user;
+}
+
+/**
+ * Renew from the wallet at the end of a period. The transaction id is fixed per period, so a
+ * second run for the same expiry can't charge again. Returns false when the wallet is short.
+ */
+async function tryAutoRenew(user: User): Promise<boolean> {
+    const plan = getVerifiedPlan(user.verifiedPlanId!);
+    const userId = String(user.id);
+    try {
+        const transaction = await debitWalletForSubscription(userId, plan.price, {
+            id: `WT-SUB-${userId}-auto-${user.verifiedAccountExpiryDate}`,
+            note: `${plan.name} plan auto-renewal`,
+            createdBy: SUBSCRIPTION_ACTOR
+        });
+        await activateVerifiedPlan(userId, plan.id, { method: 'Wallet', reference: transaction.id, amount: plan.price, source: 'auto_renewal' });
+        return true;
+    } catch (error) {
+        if (error instanceof WalletError) return false;
+        throw error;
+    }
+}
+
+/**
+ * End-of-period processing for every verified supplier: auto-renew, start grace, or downgrade
+ */
+export async function processVerifiedSubscriptions(now: Date = new Date()): Promise<{ renewed: number; inGrace: number; lapsed: number }> {
+    const result = { renewed: 0, inGrace: 0, lapsed: 0 };
+    const suppliers = (await UserService.getAll()).filter(u =>
+        u.role === UserRole.Supplier && u.isVerifiedAccount && u.verifiedAccountExpiryDate && new Date(u.verifiedAccountExpiryDate) <= now
+    );
+
+    for (const user of suppliers) {
+        const userId = String(user.id);
+        try {
+            if (user.verifiedAutoRenew && user.verifiedPlanId) {
+                if (await tryAutoRenew(user)) {
+                    result.renewed++;
+                    continue;
+                }
+            }
+
+            const graceUntil = new Date(new Date(user.verifiedAccountExpiryDate!).getTime() + GRACE_DAYS * DAY_MS);
+            if (now >= graceUntil) {
+                await UserService.update(userId, { isVerifiedAccount: false, verifiedAutoRenew: false, verifiedGraceUntil: FieldValue.delete() });
+                await sendVerifiedPlanNotification(userId, 'lapsed', { expiryDate: user.verifiedAccountExpiryDate! });
+                console.log(`[Verified] ${userId} downgraded after the grace period`);
+                result.lapsed++;
+            } else if (!user.verifiedGraceUntil) {
+                await UserService.update(userId, { verifiedGraceUntil: graceUntil.toISOString() });
+                await sendVerifiedPlanNotification(userId, user.verifiedAutoRenew ? 'renewal_failed' : 'grace', { expiryDate: graceUntil.toISOString() });
+                result.inGrace++;
+            }
+        } catch (error) {
+            console.error(`[Verified] Failed to process the subscription of ${userId}:`, error);
+        }
+    }
+
+    if (result.renewed || result.inGrace || result.lapsed) {
+        console.log(`[Verified] Renewed ${result.renewed}, grace started ${result.inGrace}, lapsed ${result.lapsed}`);
+    }
+    return result;
+}
+
+/**
+ * Initialize the verified-account expiry scheduler
+ */
+export const initVerifiedSubscriptionScheduler = (): void => {
+    setInterval(() => {
+        processVerifiedSubscriptions().catch(error => console.error('[Verified] Subscription run failed:', error));
+    }, PROCESS_INTERVAL_MS);
+
+    console.log('[Verified] Subscription scheduler initialized - will run every hour');
+};
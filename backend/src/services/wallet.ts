@@ -0,0 +1,164 @@
+import { PaymentPurpose, WalletTransaction, WalletTransactionType } from '../types';
+import { WalletService, NotificationService } from './firestore';
+import { postWalletTransaction } from './ledger';
+
+/**
+ * Farmer Wallet
+ *
+ * Each user has a cash balance (top-ups and refunds) and a promo balance
+ * (admin goodwill / promotional credits). Both can pay for bookings; promo
+ * balance is spent first and can't be withdrawn.
+ *
+ * Every change is a WalletTransaction written in the same Firestore transaction
+ * as the balance, with a deterministic id where a retry could repeat it (one per
+ * top-up order, refund and booking payment). Each one is also posted to the ledger.
+ */
+
+export const MIN_TOP_UP = 10;
+export const MAX_TOP_UP = 50000;
+export const MAX_ADMIN_CREDIT = 5000;
+
+export class WalletError extends Error {
+    constructor(message: string, public readonly statusCode: number = 400) {
+        super(message);
+        this.name = 'WalletError';
+    }
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+type CreditType = Exclude<WalletTransactionType, 'booking_payment' | 'subscription_payment'>;
+
+const CREDIT_MESSAGES: Record<CreditType, string> = {
+    top_up: 'was added to your wallet',
+    refund: 'was refunded to your wallet',
+    goodwill_credit: 'goodwill credit was added to your wallet',
+    promo_credit: 'promotional credit was added to your wallet',
+};
+
+/**
+ * Add money to a wallet. Admin credits go to the promo balance, everything else to cash.
+ * Returns the transaction (the existing one if `id` was already applied).
+ */
+export async function creditWallet(
+    userId: string,
+    type: CreditType,
+    amount: number,
+    details: { id?: string; createdBy: string; note?: string; bookingId?: string; refundId?: string; ticketId?: string; paymentOrderId?: string }
+): Promise<WalletTransaction> {
+    if (!(amount > 0)) throw new WalletError('Amount must be greater than zero');
+
+    const isPromo = type === 'goodwill_credit' || type === 'promo_credit';
+    const id = details.id || `WT-${userId}-${type}-${Date.now()}`;
+
+    // Firestore rejects undefined values, so optional links are only set when present
+    const result = await WalletService.applyTransaction(id, userId, () => ({
+        id,
+        userId,
+        type,
+        amount: isPromo ? 0 : round2(amount),
+        promoAmount: isPromo ? round2(amount) : 0,
+        ...(details.bookingId ? { bookingId: details.bookingId } : {}),
+        ...(details.refundId ? { refundId: details.refundId } : {}),
+        ...(details.ticketId ? { ticketId: details.ticketId } : {}),
+        ...(details.paymentOrderId ? { paymentOrderId: details.paymentOrderId } : {}),
+        ...(details.note ? { note: details.note } : {}),
+        createdBy: details.createdBy,
+        createdAt: new Date().toISOString()
+    }));
+    if (!result) throw new WalletError('Could not update the wallet', 500);
+
+    if (result.created) {
+        await postWalletTransaction(result.transaction);
+        await NotificationService.create({
+            id: Date.now() + Math.random(),
+            userId,
+            message: `₹${round2(amount).toLocaleString()} ${CREDIT_MESSAGES[type]}.${details.note ? ` ${details.note}` : ''}`,
+            type: 'system',
+            category: 'system',
+            priority: 'medium',
+            read: false,
+            timestamp: new Date().toISOString()
+        });
+        console.log(`[Wallet] ${type} of ₹${amount} to ${userId} (${id})`);
+    }
+    return result.transaction;
+}
+
+/**
+ * Take a booking payment from the farmer's wallet, promo balance first.
+ * One debit per booking and purpose: a retry returns the earlier transaction.
+ */
+export async function debitWalletForBooking(
+    userId: string,
+    amount: number,
+    bookingId: string,
+    purpose: PaymentPurpose,
+    createdBy: string
+): Promise<WalletTransaction> {
+    const id = `WT-${bookingId}-${purpose}`;
+    const result = await WalletService.applyTransaction(id, userId, wallet => {
+        if (wallet.balance + wallet.promoBalance < amount) return null;
+        const fromPromo = Math.min(wallet.promoBalance, amount);
+        return {
+            id,
+            userId,
+            type: 'booking_payment',
+            amount: -round2(amount - fromPromo),
+            promoAmount: -round2(fromPromo),
+            bookingId,
+            note: `${purpose === 'advance' ? 'Advance' : 'Final payment'} for booking #${bookingId.substring(0, 8)}`,
+            createdBy,
+            createdAt: new Date().toISOString()
+        };
+    });
+    if (!result) throw new WalletError('Insufficient wallet balance', 409);
+
+    if (result.created) {
+        await postWalletTransaction(result.transaction);
+        console.log(`[Wallet] ${userId} paid ₹${amount} ${purpose} for booking ${bookingId}`);
+    }
+    return result.transaction;
+}
+
+/**
+ * Pay for a verified-account plan from the cash balance (promo balance is for bookings only).
+ * `id` makes the debit idempotent: a retry returns the earlier transaction.
+ */
+export async function debitWalletForSubscription(
+    userId: string,
+    amount: number,
+    details: { id: string; note: string; createdBy: string }
+): Promise<WalletTransaction> {
+    const result = await WalletService.applyTransaction(details.id, userId, wallet => {
+        if (wallet.balance < amount) return null;
+        return {
+            id: details.id,
+            userId,
+            type: 'subscription_payment',
+            amount: -round2(amount),
+            promoAmount: 0,
+            note: details.note,
+            createdBy: details.createdBy,
+            createdAt: new Date().toISOString()
+        };
+    });
+    if (!result) throw new WalletError('Insufficient wallet balance', 409);
+
+    if (result.created) {
+        await postWalletTransaction(result.transaction);
+        console.log(`[Wallet] ${userId} paid ₹${amount} for a verified plan (${details.id})`);
+    }
+    return result.transaction;
+}
+
+/**
+ * Balances plus full history, newest first
+ */
+export async function getWalletWithHistory(userId: string) {
+    const [wallet, transactions] = await Promise.all([
+        WalletService.get(userId),
+        WalletService.getTransactions(userId)
+    ]);
+    return { wallet, transactions };
+}
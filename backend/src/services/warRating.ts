@@ -1,16 +1,24 @@
-import { User, UserRole } from '../types';
-import { UserService, BookingService, ReviewService } from './firestore';
+import { Booking, User, UserRole, WARCalculationResult, WARConstants, WARPenaltyEvent, WARPenaltyType, WARSimulation } from '../types';
+import { UserService, BookingService, ReviewService, NotificationService, WARPenaltyEventService } from './firestore';
+import { getScheduledStart } from './arrival';
 
 /**
  * Weighted Average Rating (WAR) System
  * 
  * Formula:
  * 1. Base Score = (0.60 × Star Rating Mean) + (0.40 × On-Time Rate × 5)
- * 2. Penalties = (Disputes × 0.5) + (Cancellations × 0.75)
+ * 2. Penalties = (Disputes × 0.5) + (Cancellations × 0.75) + (Late arrivals × 0.25) + (No-shows × 1.0)
  * 3. Volume Weighted (Bayesian) = ((N × R_current) + (M × R_default)) / (N + M)
  * 4. Recency Decay: 100% for last 90 days, 50% for 91-180 days, 0% for older
+ *    (reviews, and the cancellation / late-arrival / no-show penalty events)
  * 
  * Final Rating = Volume Weighted Score (after penalties and recency)
+ *
+ * The inputs are gathered once (gatherWARInputs) and the score is computed from them by a
+ * pure function (computeWAR), so the what-if simulator runs the exact same formula.
+ *
+ * Cancellations, late arrivals and no-shows are stored as dated WARPenaltyEvents when they
+ * happen and nothing else touches avgRating: updateSupplierWAR is its only writer.
  */
 
 // Constants
@@ -18,30 +26,75 @@ const STAR_RATING_WEIGHT = 0.60;
 const ON_TIME_WEIGHT = 0.40;
 const DISPUTE_PENALTY = 0.5;
 const CANCELLATION_PENALTY = 0.75;
+const LATE_ARRIVAL_PENALTY = 0.25;
+const NO_SHOW_PENALTY = 1.0;
+const ON_TIME_GRACE_MINUTES = 30;
+const LATE_ARRIVAL_PENALTY_MINUTES = 60; // Later than this past the start is a penalty; less only lowers the on-time rate
+const NO_SHOW_AFTER_MINUTES = 120; // Still Confirmed with no arrival this long after the start
+const NO_SHOW_CHECK_INTERVAL_MS = 60 * 60 * 1000; // Every hour
 const CREDIBILITY_FACTOR = 5; // M: minimum "default" ratings for stability
 const DEFAULT_RATING = 3.0; // New suppliers start as if they have 5 jobs at 3.0
+const RECENT_DAYS = 90;
+const DECAY_DAYS = 180;
+const DECAY_WEIGHT = 0.5;
+const PENALTY_WINDOW_MONTHS = 6;
+const MAX_SIMULATED_JOBS = 500;
+const SIMULATION_STEPS = [1, 5, 10, 25, 50, 100];
+
+export const WAR_CONSTANTS: WARConstants = {
+    starRatingWeight: STAR_RATING_WEIGHT,
+    onTimeWeight: ON_TIME_WEIGHT,
+    disputePenalty: DISPUTE_PENALTY,
+    cancellationPenalty: CANCELLATION_PENALTY,
+    lateArrivalPenalty: LATE_ARRIVAL_PENALTY,
+    noShowPenalty: NO_SHOW_PENALTY,
+    onTimeGraceMinutes: ON_TIME_GRACE_MINUTES,
+    lateArrivalPenaltyMinutes: LATE_ARRIVAL_PENALTY_MINUTES,
+    noShowAfterMinutes: NO_SHOW_AFTER_MINUTES,
+    credibilityFactor: CREDIBILITY_FACTOR,
+    defaultRating: DEFAULT_RATING,
+    recentDays: RECENT_DAYS,
+    decayDays: DECAY_DAYS,
+    decayWeight: DECAY_WEIGHT,
+    penaltyWindowMonths: PENALTY_WINDOW_MONTHS
+};
 
-interface WARCalculationResult {
-    starRatingMean: number;
-    onTimeRate: number;
-    baseScore: number;
-    disputePenalty: number;
-    cancellationPenalty: number;
-    totalPenalty: number;
-    scoreAfterPenalties: number;
-    volumeWeightedRating: number;
-    totalJobs: number;
+/**
+ * Raw counts the rating is computed from
+ */
+export interface WARInputs {
+    starWeightedSum: number;
+    starTotalWeight: number;
+    recentReviewCount: number;
+    olderReviewCount: number;
+    expiredReviewCount: number;
     onTimeCount: number;
+    totalJobs: number;
+    ratedJobs: number;
     disputeCount: number;
-    cancellationCount: number;
-    finalRating: number;
+    // Penalty events: how many still count, and their summed recency weight
+    penaltyCounts: Record<WARPenaltyType, number>;
+    penaltyWeights: Record<WARPenaltyType, number>;
 }
 
+/**
+ * Recency weight of something that happened at `date`: 1 for the last 90 days, 0.5 up to 180, then 0
+ */
+export const recencyWeight = (date: Date, now: Date): number => {
+    const ageDays = (now.getTime() - date.getTime()) / (24 * 60 * 60 * 1000);
+    if (ageDays <= RECENT_DAYS) return 1.0;
+    if (ageDays <= DECAY_DAYS) return DECAY_WEIGHT;
+    return 0;
+};
+
 /**
  * Calculate On-Time Rate for a supplier based on bookings
- * A booking is "on-time" if the supplier arrived within 30 minutes of scheduled start
+ * A booking is "on-time" if the supplier arrived within 30 minutes of scheduled start.
+ * Only verified arrivals (geofence or admin-corrected) count as on time; an arrival the
+ * supplier only reported by hand counts as late. Jobs from before arrival tracking
+ * (no arrivedAt) are left out of the rate.
  */
-const calculateOnTimeRate = async (supplierId: string): Promise<{ onTimeCount: number; totalJobs: number }> => {
+const calculateOnTimeRate = async (supplierId: string): Promise<{ onTimeCount: number; totalJobs: number; ratedJobs: number }> => {
     const bookings = await BookingService.getAll();
     const supplierBookings = bookings.filter(b =>
         b.supplierId === supplierId &&
@@ -50,34 +103,29 @@ const calculateOnTimeRate = async (supplierId: string): Promise<{ onTimeCount: n
 
     const totalJobs = supplierBookings.length;
 
-    // Count on-time arrivals (if workStartTime is within 30 min of startTime, considered on-time)
     let onTimeCount = 0;
+    let ratedJobs = 0;
     supplierBookings.forEach(b => {
-        if (b.startTime && b.workStartTime) {
-            const [scheduledH, scheduledM] = b.startTime.split(':').map(Number);
-            const [actualH, actualM] = b.workStartTime.split(':').map(Number);
-            const scheduledMinutes = scheduledH * 60 + scheduledM;
-            const actualMinutes = actualH * 60 + actualM;
-            // On-time if arrived within 30 minutes of scheduled time
-            if (actualMinutes <= scheduledMinutes + 30) {
-                onTimeCount++;
-            }
-        } else {
-            // If no workStartTime recorded, assume on-time for completed bookings
+        if (!b.arrivedAt) return;
+        ratedJobs++;
+        if (b.arrivalSource === 'manual') return;
+
+        const scheduled = getScheduledStart(b);
+        if (!scheduled || new Date(b.arrivedAt).getTime() <= scheduled.getTime() + ON_TIME_GRACE_MINUTES * 60000) {
             onTimeCount++;
         }
     });
 
-    return { onTimeCount, totalJobs };
+    return { onTimeCount, totalJobs, ratedJobs };
 };
 
 /**
- * Calculate Star Rating Mean with recency decay
+ * Weighted star totals with recency decay (the mean is taken in computeWAR)
  * - Last 90 days: 100% weight
  * - 91-180 days: 50% weight
  * - Older than 180 days: excluded
  */
-const calculateStarRatingMean = async (supplierId: string): Promise<number> => {
+const collectStarRatings = async (supplierId: string): Promise<Pick<WARInputs, 'starWeightedSum' | 'starTotalWeight' | 'recentReviewCount' | 'olderReviewCount' | 'expiredReviewCount'>> => {
     const reviews = await ReviewService.getAll();
     const bookings = await BookingService.getAll();
 
@@ -91,36 +139,23 @@ const calculateStarRatingMean = async (supplierId: string): Promise<number> => {
         supplierBookingIds.includes(r.bookingId) || r.ratedUserId === supplierId
     );
 
-    if (supplierReviews.length === 0) {
-        return DEFAULT_RATING;
-    }
-
     const now = new Date();
-    const ninetyDaysAgo = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-    const oneEightyDaysAgo = new Date(now.getTime() - 180 * 24 * 60 * 60 * 1000);
-
-    let weightedSum = 0;
-    let totalWeight = 0;
+    const totals = { starWeightedSum: 0, starTotalWeight: 0, recentReviewCount: 0, olderReviewCount: 0, expiredReviewCount: 0 };
 
     supplierReviews.forEach(review => {
         const booking = bookings.find(b => b.id === review.bookingId);
         const reviewDate = booking ? new Date(booking.date) : new Date();
 
-        let weight = 0;
-        if (reviewDate >= ninetyDaysAgo) {
-            weight = 1.0; // 100% for last 90 days
-        } else if (reviewDate >= oneEightyDaysAgo) {
-            weight = 0.5; // 50% for 91-180 days
-        }
-        // Older than 180 days = 0 weight (excluded)
+        const weight = recencyWeight(reviewDate, now);
+        if (weight === 1.0) totals.recentReviewCount++;
+        else if (weight > 0) totals.olderReviewCount++;
+        else totals.expiredReviewCount++; // Older than 180 days = 0 weight (excluded)
 
-        if (weight > 0) {
-            weightedSum += review.rating * weight;
-            totalWeight += weight;
-        }
+        totals.starWeightedSum += review.rating * weight;
+        totals.starTotalWeight += weight;
     });
 
-    return totalWeight > 0 ? weightedSum / totalWeight : DEFAULT_RATING;
+    return totals;
 };
 
 /**
@@ -129,7 +164,7 @@ const calculateStarRatingMean = async (supplierId: string): Promise<number> => {
 const countDisputes = async (supplierId: string): Promise<number> => {
     const bookings = await BookingService.getAll();
     const sixMonthsAgo = new Date();
-    sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
+    sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - PENALTY_WINDOW_MONTHS);
 
     const disputes = bookings.filter(b =>
         b.supplierId === supplierId &&
@@ -141,21 +176,22 @@ const countDisputes = async (supplierId: string): Promise<number> => {
 };
 
 /**
- * Count supplier-initiated cancellations in the last 6 months
+ * Sum the supplier's penalty events by type, weighted by age
  */
-const countCancellations = async (supplierId: string): Promise<number> => {
-    const bookings = await BookingService.getAll();
-    const sixMonthsAgo = new Date();
-    sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-
-    // Supplier-initiated cancellations: status is 'Cancelled' and supplier was assigned
-    const cancellations = bookings.filter(b =>
-        b.supplierId === supplierId &&
-        b.status === 'Cancelled' &&
-        new Date(b.date) >= sixMonthsAgo
-    );
+const collectPenaltyEvents = async (supplierId: string): Promise<Pick<WARInputs, 'penaltyCounts' | 'penaltyWeights'>> => {
+    const events = await WARPenaltyEventService.getBySupplier(supplierId);
+    const now = new Date();
+    const penaltyCounts: Record<WARPenaltyType, number> = { cancellation: 0, late_arrival: 0, no_show: 0 };
+    const penaltyWeights: Record<WARPenaltyType, number> = { cancellation: 0, late_arrival: 0, no_show: 0 };
+
+    events.forEach(event => {
+        const weight = recencyWeight(new Date(event.occurredAt), now);
+        if (weight === 0) return;
+        penaltyCounts[event.type]++;
+        penaltyWeights[event.type] += weight;
+    });
 
-    return cancellations.length;
+    return { penaltyCounts, penaltyWeights };
 };
 
 /**
@@ -171,54 +207,221 @@ const applyVolumeWeighting = (currentRating: number, totalJobs: number): number
     return ((N * R_current) + (M * R_default)) / (N + M);
 };
 
+const gatherWARInputs = async (supplierId: string): Promise<WARInputs> => {
+    const stars = await collectStarRatings(supplierId);
+    const { onTimeCount, totalJobs, ratedJobs } = await calculateOnTimeRate(supplierId);
+    const disputeCount = await countDisputes(supplierId);
+    const penalties = await collectPenaltyEvents(supplierId);
+    return { ...stars, onTimeCount, totalJobs, ratedJobs, disputeCount, ...penalties };
+};
+
 /**
- * Calculate the full Weighted Average Rating for a supplier
+ * The WAR formula over gathered inputs. Pure.
  */
-export const calculateWAR = async (supplierId: string): Promise<WARCalculationResult> => {
-    // Step 1: Get Star Rating Mean (with recency decay)
-    const starRatingMean = await calculateStarRatingMean(supplierId);
+export const computeWAR = (inputs: WARInputs): WARCalculationResult => {
+    // Step 1: Star Rating Mean (recency decay is already in the weights)
+    const starRatingMean = inputs.starTotalWeight > 0 ? inputs.starWeightedSum / inputs.starTotalWeight : DEFAULT_RATING;
 
-    // Step 2: Get On-Time Rate
-    const { onTimeCount, totalJobs } = await calculateOnTimeRate(supplierId);
-    const onTimeRate = totalJobs > 0 ? onTimeCount / totalJobs : 1.0;
+    // Step 2: On-Time Rate
+    const onTimeRate = inputs.ratedJobs > 0 ? inputs.onTimeCount / inputs.ratedJobs : 1.0;
     const onTimeScore = onTimeRate * 5; // Convert to 5-point scale
 
     // Step 3: Calculate Base Score
     const baseScore = (STAR_RATING_WEIGHT * starRatingMean) + (ON_TIME_WEIGHT * onTimeScore);
 
     // Step 4: Calculate Penalties
-    const disputeCount = await countDisputes(supplierId);
-    const cancellationCount = await countCancellations(supplierId);
-    const disputePenalty = disputeCount * DISPUTE_PENALTY;
-    const cancellationPenalty = cancellationCount * CANCELLATION_PENALTY;
-    const totalPenalty = disputePenalty + cancellationPenalty;
+    const disputePenalty = inputs.disputeCount * DISPUTE_PENALTY;
+    const cancellationPenalty = inputs.penaltyWeights.cancellation * CANCELLATION_PENALTY;
+    const lateArrivalPenalty = inputs.penaltyWeights.late_arrival * LATE_ARRIVAL_PENALTY;
+    const noShowPenalty = inputs.penaltyWeights.no_show * NO_SHOW_PENALTY;
+    const totalPenalty = disputePenalty + cancellationPenalty + lateArrivalPenalty + noShowPenalty;
 
     // Step 5: Apply Penalties (minimum 0)
     const scoreAfterPenalties = Math.max(0, baseScore - totalPenalty);
 
     // Step 6: Apply Volume Weighting (Bayesian Average)
-    const volumeWeightedRating = applyVolumeWeighting(scoreAfterPenalties, totalJobs);
+    const volumeWeightedRating = applyVolumeWeighting(scoreAfterPenalties, inputs.totalJobs);
 
     // Step 7: Clamp final rating between 0 and 5
     const finalRating = Math.min(5, Math.max(0, Math.round(volumeWeightedRating * 10) / 10));
 
     return {
         starRatingMean,
+        recentReviewCount: inputs.recentReviewCount,
+        olderReviewCount: inputs.olderReviewCount,
+        expiredReviewCount: inputs.expiredReviewCount,
         onTimeRate,
         baseScore,
         disputePenalty,
         cancellationPenalty,
+        lateArrivalPenalty,
+        noShowPenalty,
         totalPenalty,
         scoreAfterPenalties,
         volumeWeightedRating,
-        totalJobs,
-        onTimeCount,
-        disputeCount,
-        cancellationCount,
+        ownScoreWeight: inputs.totalJobs / (inputs.totalJobs + CREDIBILITY_FACTOR),
+        totalJobs: inputs.totalJobs,
+        ratedJobs: inputs.ratedJobs,
+        onTimeCount: inputs.onTimeCount,
+        disputeCount: inputs.disputeCount,
+        cancellationCount: inputs.penaltyCounts.cancellation,
+        lateArrivalCount: inputs.penaltyCounts.late_arrival,
+        noShowCount: inputs.penaltyCounts.no_show,
         finalRating,
     };
 };
 
+/**
+ * Calculate the full Weighted Average Rating for a supplier
+ */
+export const calculateWAR = async (supplierId: string): Promise<WARCalculationResult> => {
+    return computeWAR(await gatherWARInputs(supplierId));
+};
+
+/**
+ * Inputs after `jobs` more completed jobs, each reviewed today with `stars` and arriving on time or late
+ */
+const withExtraJobs = (inputs: WARInputs, jobs: number, stars: number, onTime: boolean): WARInputs => ({
+    ...inputs,
+    starWeightedSum: inputs.starWeightedSum + stars * jobs,
+    starTotalWeight: inputs.starTotalWeight + jobs,
+    recentReviewCount: inputs.recentReviewCount + jobs,
+    onTimeCount: inputs.onTimeCount + (onTime ? jobs : 0),
+    totalJobs: inputs.totalJobs + jobs,
+    ratedJobs: inputs.ratedJobs + jobs
+});
+
+/**
+ * What-if simulator: the rating after `jobs` more jobs like the one described, and the fewest
+ * such jobs that reach `target`. Current penalties are assumed to keep their present weight.
+ */
+export const simulateWAR = async (
+    supplierId: string,
+    scenario: { target: number; stars: number; onTime: boolean; jobs: number }
+): Promise<WARSimulation> => {
+    const inputs = await gatherWARInputs(supplierId);
+    const ratingAfter = (jobs: number) => computeWAR(withExtraJobs(inputs, jobs, scenario.stars, scenario.onTime)).finalRating;
+
+    let jobsToTarget: number | null = null;
+    for (let jobs = 0; jobs <= MAX_SIMULATED_JOBS; jobs++) {
+        if (ratingAfter(jobs) >= scenario.target) {
+            jobsToTarget = jobs;
+            break;
+        }
+    }
+
+    return {
+        ...scenario,
+        currentRating: computeWAR(inputs).finalRating,
+        projected: computeWAR(withExtraJobs(inputs, scenario.jobs, scenario.stars, scenario.onTime)),
+        jobsToTarget,
+        ceiling: ratingAfter(MAX_SIMULATED_JOBS),
+        steps: SIMULATION_STEPS.map(jobs => ({ jobs, rating: ratingAfter(jobs) }))
+    };
+};
+
+const penaltyEventId = (type: WARPenaltyType, bookingId: string, supplierId: string) => `WPE-${type}-${bookingId}-${supplierId}`;
+
+/**
+ * Store a penalty event (idempotent per booking, type and supplier). Does not recalculate the WAR.
+ */
+export const recordPenaltyEvent = async (
+    supplierId: string,
+    type: WARPenaltyType,
+    bookingId: string,
+    occurredAt: string,
+    extra: { minutesLate?: number; source?: WARPenaltyEvent['source'] } = {}
+): Promise<WARPenaltyEvent> => {
+    const event: WARPenaltyEvent = {
+        id: penaltyEventId(type, bookingId, supplierId),
+        supplierId,
+        type,
+        bookingId,
+        occurredAt,
+        ...(extra.minutesLate !== undefined ? { minutesLate: extra.minutesLate } : {}),
+        source: extra.source || 'live',
+        createdAt: new Date().toISOString()
+    };
+    await WARPenaltyEventService.save(event);
+    return event;
+};
+
+/**
+ * Minutes after the scheduled start that a booking's supplier arrived, or null if unknown. Pure.
+ */
+export const getMinutesLate = (booking: Pick<Booking, 'date' | 'startTime' | 'arrivedAt'>): number | null => {
+    const scheduled = getScheduledStart(booking);
+    if (!scheduled || !booking.arrivedAt) return null;
+    return Math.round((new Date(booking.arrivedAt).getTime() - scheduled.getTime()) / 60000);
+};
+
+/**
+ * Add or remove the late-arrival event for a booking from its current arrivedAt, e.g. after an
+ * admin corrects the arrival. An arrival also withdraws a no-show recorded while the supplier
+ * was still on the way. Returns true when the stored events changed.
+ */
+export const syncLateArrivalPenalty = async (booking: Booking, source: WARPenaltyEvent['source'] = 'live'): Promise<boolean> => {
+    if (!booking.supplierId || !booking.arrivedAt) return false;
+    let changed = false;
+
+    const noShowId = penaltyEventId('no_show', booking.id, booking.supplierId);
+    if (await WARPenaltyEventService.getById(noShowId)) {
+        await WARPenaltyEventService.delete(noShowId);
+        changed = true;
+    }
+
+    const lateId = penaltyEventId('late_arrival', booking.id, booking.supplierId);
+    const minutesLate = getMinutesLate(booking);
+    if (minutesLate !== null && minutesLate > LATE_ARRIVAL_PENALTY_MINUTES) {
+        await recordPenaltyEvent(booking.supplierId, 'late_arrival', booking.id, booking.arrivedAt, { minutesLate, source });
+        changed = true;
+    } else if (await WARPenaltyEventService.getById(lateId)) {
+        await WARPenaltyEventService.delete(lateId);
+        changed = true;
+    }
+    return changed;
+};
+
+/**
+ * Confirmed bookings whose supplier never arrived, NO_SHOW_AFTER_MINUTES past the start. Pure.
+ */
+export const findNoShows = (bookings: Booking[], now: Date): Booking[] => bookings.filter(b => {
+    if (b.status !== 'Confirmed' || !b.supplierId || b.arrivedAt) return false;
+    const scheduled = getScheduledStart(b);
+    return !!scheduled && now.getTime() - scheduled.getTime() > NO_SHOW_AFTER_MINUTES * 60000;
+});
+
+/**
+ * Record a no-show penalty for every new no-show, tell the supplier and refresh their WAR
+ */
+export const recordNoShows = async (now: Date = new Date()): Promise<number> => {
+    const noShows = findNoShows(await BookingService.getAll(), now);
+    let recorded = 0;
+
+    for (const booking of noShows) {
+        const supplierId = booking.supplierId!;
+        if (await WARPenaltyEventService.getById(penaltyEventId('no_show', booking.id, supplierId))) continue;
+
+        const scheduled = getScheduledStart(booking)!;
+        await recordPenaltyEvent(supplierId, 'no_show', booking.id, new Date(scheduled.getTime() + NO_SHOW_AFTER_MINUTES * 60000).toISOString());
+        await NotificationService.create({
+            id: Date.now() + Math.random(),
+            userId: supplierId,
+            message: `You haven't arrived for booking ${booking.id} (${booking.itemCategory}, ${booking.startTime}). A no-show counts against your rating for ${DECAY_DAYS} days.`,
+            type: 'system',
+            category: 'performance',
+            priority: 'high',
+            read: false,
+            timestamp: new Date().toISOString()
+        });
+        await updateSupplierWAR(supplierId);
+        recorded++;
+    }
+
+    if (recorded > 0) console.log(`[WAR] Recorded ${recorded} no-show(s)`);
+    return recorded;
+};
+
 /**
  * Recalculate and update WAR for a single supplier
  */
@@ -292,5 +495,10 @@ export const initWARScheduler = (): void => {
         recalculateAllSuppliersWAR();
     }, TWENTY_FOUR_HOURS);
 
-    console.log('[WAR] Scheduler initialized - will run daily');
+    // No-shows are checked hourly so the penalty lands soon after the missed start
+    setInterval(() => {
+        recordNoShows().catch(error => console.error('[WAR] No-show check failed:', error));
+    }, NO_SHOW_CHECK_INTERVAL_MS);
+
+    console.log('[WAR] Scheduler initialized - will run daily (no-show check hourly)');
 };
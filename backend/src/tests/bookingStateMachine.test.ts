@@ -0,0 +1,89 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Booking, UserRole } from '../types';
+import { BookingTransitionError, resolveRequestedStatus, transitionBooking } from '../services/bookingStateMachine';
+
+const booking = (overrides: Partial<Booking> = {}): Booking => ({
+    id: 'B1',
+    farmerId: 'F1',
+    supplierId: 'S1',
+    operatorId: 'O1',
+    bookedByAgentId: 'A1',
+    status: 'Confirmed',
+    date: '2026-01-10',
+    startTime: '09:00',
+    ...overrides
+} as Booking);
+
+// A split booking's parent: shares carry the suppliers, the parent only their totals
+const splitParent = (overrides: Partial<Booking> = {}): Booking => booking({
+    supplierId: undefined,
+    operatorId: undefined,
+    allowMultipleSuppliers: true,
+    splitTotal: 10,
+    ...overrides
+});
+
+describe('transitionBooking', () => {
+    test('applies a legal move and appends it to the status history', async () => {
+        const { transition, updates } = await transitionBooking(booking(), 'Arrived', { arrivedAt: '2026-01-10T09:05:00.000Z' }, { id: 'S1', role: UserRole.Supplier });
+
+        assert.equal(transition.from, 'Confirmed');
+        assert.equal(transition.to, 'Arrived');
+        assert.equal(transition.changedBy, 'S1');
+        assert.equal(updates.status, 'Arrived');
+        assert.equal(updates.arrivedAt, '2026-01-10T09:05:00.000Z');
+        assert.deepEqual(updates.statusHistory, [transition]);
+    });
+
+    test('rejects an illegal move', async () => {
+        await assert.rejects(
+            transitionBooking(booking({ status: 'Searching' }), 'Completed', {}, { id: 'S1' }),
+            (err: unknown) => err instanceof BookingTransitionError && err.from === 'Searching' && err.to === 'Completed'
+        );
+        await assert.rejects(
+            transitionBooking(booking({ status: 'Completed' }), 'Cancelled', {}, { id: 'F1' }),
+            BookingTransitionError
+        );
+    });
+
+    test('lets only a split parent go straight from Confirmed to Completed', async () => {
+        const { updates } = await transitionBooking(splitParent(), 'Completed', {}, { id: 'system' });
+        assert.equal(updates.status, 'Completed');
+
+        await assert.rejects(transitionBooking(booking(), 'Completed', {}, { id: 'system' }), BookingTransitionError);
+        await assert.rejects(transitionBooking(splitParent({ status: 'Searching' }), 'Completed', {}, { id: 'system' }), BookingTransitionError);
+    });
+});
+
+describe('resolveRequestedStatus', () => {
+    test('the farmer or their agent cancelling closes the booking', () => {
+        assert.deepEqual(resolveRequestedStatus(booking(), 'Cancelled', { id: 'F1' }), { status: 'Cancelled', reason: 'farmer_cancellation' });
+        assert.deepEqual(resolveRequestedStatus(booking(), 'Cancelled', { id: 'A1' }), { status: 'Cancelled', reason: 'farmer_cancellation' });
+    });
+
+    test('the supplier or operator cancelling re-broadcasts the booking', () => {
+        assert.deepEqual(resolveRequestedStatus(booking(), 'Cancelled', { id: 'S1' }), { status: 'Searching', reason: 'supplier_cancellation' });
+        assert.deepEqual(resolveRequestedStatus(booking(), 'Cancelled', { id: 'O1' }), { status: 'Searching', reason: 'supplier_cancellation' });
+        assert.deepEqual(
+            resolveRequestedStatus(booking({ status: 'Pending Confirmation' }), 'Cancelled', { id: 'S1' }),
+            { status: 'Searching', reason: 'supplier_cancellation' }
+        );
+        // A share is closed instead; its acres go back to the parent
+        assert.deepEqual(
+            resolveRequestedStatus(booking({ parentBookingId: 'P1' }), 'Cancelled', { id: 'S1' }),
+            { status: 'Cancelled', reason: 'supplier_cancellation' }
+        );
+    });
+
+    test('staff cancelling closes the booking without blaming either side', () => {
+        for (const role of [UserRole.Admin, UserRole.Founder]) {
+            assert.deepEqual(resolveRequestedStatus(booking(), 'Cancelled', { id: 'X1', role }), { status: 'Cancelled', reason: 'admin_cancellation' });
+        }
+    });
+
+    test('anyone else gets the status they asked for, with no reason', () => {
+        assert.deepEqual(resolveRequestedStatus(booking(), 'Cancelled', { id: 'U9', role: UserRole.Supplier }), { status: 'Cancelled' });
+        assert.deepEqual(resolveRequestedStatus(booking(), 'Arrived', { id: 'S1' }), { status: 'Arrived' });
+    });
+});
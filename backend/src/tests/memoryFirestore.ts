@@ -0,0 +1,67 @@
+import { Booking, Notification, Review, User, WARPenaltyEvent } from '../types';
+
+/**
+ * In-memory stand-in for services/firestore, for unit tests that run without a database.
+ * Importing this module puts it in the require cache in place of the real one, so it must be
+ * imported before any service that talks to Firestore.
+ */
+
+export const store = {
+    users: new Map<string, User>(),
+    bookings: new Map<string, Booking>(),
+    reviews: [] as Review[],
+    warPenaltyEvents: new Map<string, WARPenaltyEvent>(),
+    notifications: [] as Notification[]
+};
+
+export const resetStore = (): void => {
+    store.users.clear();
+    store.bookings.clear();
+    store.reviews.length = 0;
+    store.warPenaltyEvents.clear();
+    store.notifications.length = 0;
+};
+
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const memoryFirestore = {
+    UserService: {
+        getAll: async () => [...store.users.values()].map(copy),
+        getById: async (id: string) => store.users.has(id) ? copy(store.users.get(id)!) : null,
+        update: async (id: string, data: Partial<User>) => {
+            store.users.set(id, { ...store.users.get(id)!, ...data });
+            return copy(store.users.get(id)!);
+        }
+    },
+    BookingService: {
+        getAll: async () => [...store.bookings.values()].map(copy),
+        getById: async (id: string) => store.bookings.has(id) ? copy(store.bookings.get(id)!) : null,
+        update: async (id: string, data: Partial<Booking>) => {
+            store.bookings.set(id, { ...store.bookings.get(id)!, ...data });
+            return copy(store.bookings.get(id)!);
+        }
+    },
+    ReviewService: {
+        getAll: async () => store.reviews.map(copy)
+    },
+    NotificationService: {
+        create: async (notification: Notification) => {
+            store.notifications.push(notification);
+            return notification;
+        }
+    },
+    WARPenaltyEventService: {
+        getBySupplier: async (supplierId: string) => [...store.warPenaltyEvents.values()].filter(e => e.supplierId === supplierId).map(copy),
+        getById: async (id: string) => store.warPenaltyEvents.has(id) ? copy(store.warPenaltyEvents.get(id)!) : null,
+        save: async (event: WARPenaltyEvent) => {
+            store.warPenaltyEvents.set(event.id, copy(event));
+            return event;
+        },
+        delete: async (id: string) => {
+            store.warPenaltyEvents.delete(id);
+        }
+    }
+};
+
+const firestorePath = require.resolve('../services/firestore');
+require.cache[firestorePath] = { id: firestorePath, filename: firestorePath, loaded: true, exports: memoryFirestore } as NodeModule;
@@ -0,0 +1,93 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resetStore, store } from './memoryFirestore';
+import { Booking, BookingStatusChange, User, UserRole } from '../types';
+import { migrateWARPenalties } from '../migrateWARPenalties';
+import { getScheduledStart } from '../services/arrival';
+import { cancellingSupplierId, transitionBooking } from '../services/bookingStateMachine';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const dateDaysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString().split('T')[0];
+
+const supplierCancellation = (changedBy: string, daysAgo: number) => ({
+    from: 'Confirmed',
+    to: 'Searching',
+    changedBy,
+    changedAt: new Date(Date.now() - daysAgo * DAY_MS).toISOString(),
+    reason: 'supplier_cancellation'
+} as BookingStatusChange);
+
+const seed = () => {
+    for (const id of ['S1', 'S2']) {
+        store.users.set(id, { id, name: id, role: UserRole.Supplier, avgRating: 4.8 } as User);
+    }
+
+    const late: Booking = { id: 'B2', supplierId: 'S2', status: 'Completed', date: dateDaysAgo(10), startTime: '09:00' } as Booking;
+    late.arrivedAt = new Date(getScheduledStart(late)!.getTime() + 2 * 60 * 60000).toISOString();
+
+    for (const booking of [
+        // Re-broadcast after the supplier cancelled: the supplier is only on the status history
+        { id: 'B1', status: 'Searching', date: dateDaysAgo(5), startTime: '09:00', statusHistory: [supplierCancellation('S1', 5)] },
+        late,
+        // Never arrived
+        { id: 'B3', supplierId: 'S1', status: 'Confirmed', date: dateDaysAgo(3), startTime: '09:00' },
+        // Cancelled on the supplier's behalf by staff: not attributed
+        { id: 'B4', status: 'Searching', date: dateDaysAgo(2), startTime: '09:00', statusHistory: [supplierCancellation('A1', 2)] }
+    ] as Booking[]) {
+        store.bookings.set(booking.id, booking);
+    }
+};
+
+const snapshot = () => ({
+    events: [...store.warPenaltyEvents.values()]
+        .map(({ id, supplierId, type, bookingId, occurredAt, minutesLate }) => ({ id, supplierId, type, bookingId, occurredAt, minutesLate }))
+        .sort((a, b) => a.id.localeCompare(b.id)),
+    ratings: [...store.users.values()].map(u => ({ id: u.id, avgRating: u.avgRating }))
+});
+
+describe('migrateWARPenalties', () => {
+    beforeEach(() => {
+        resetStore();
+        seed();
+    });
+
+    test('derives one event per cancellation, late arrival and no-show', async () => {
+        await migrateWARPenalties(false);
+
+        assert.deepEqual(snapshot().events.map(e => e.id), [
+            'WPE-cancellation-B1-S1',
+            'WPE-late_arrival-B2-S2',
+            'WPE-no_show-B3-S1'
+        ]);
+        assert.ok([...store.warPenaltyEvents.values()].every(e => e.source === 'migration'));
+        assert.notEqual(store.users.get('S1')!.avgRating, 4.8);
+    });
+
+    test('running it again changes nothing', async () => {
+        await migrateWARPenalties(false);
+        const first = snapshot();
+
+        await migrateWARPenalties(false);
+        assert.deepEqual(snapshot(), first);
+    });
+
+    test('blames a cancellation on the supplier the live hook blames', async () => {
+        // The machine's operator drops the job, not its owner
+        const booking = { id: 'B5', farmerId: 'F1', supplierId: 'S1', operatorId: 'S2', status: 'Confirmed', date: dateDaysAgo(1), startTime: '09:00' } as Booking;
+        const { transition, updates } = await transitionBooking(booking, 'Cancelled', {}, { id: 'S2', role: UserRole.Supplier });
+        store.bookings.set(booking.id, { ...booking, ...updates } as Booking);
+
+        await migrateWARPenalties(false);
+
+        const events = snapshot().events.filter(e => e.bookingId === 'B5').map(e => e.id);
+        assert.deepEqual(events, [`WPE-cancellation-B5-${cancellingSupplierId(transition)}`]);
+        assert.equal(cancellingSupplierId(transition), 'S2');
+    });
+
+    test('a dry run writes nothing', async () => {
+        await migrateWARPenalties(true);
+
+        assert.equal(store.warPenaltyEvents.size, 0);
+        assert.equal(store.users.get('S1')!.avgRating, 4.8);
+    });
+});
@@ -0,0 +1,160 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resetStore, store } from './memoryFirestore';
+import { Booking, WARPenaltyEvent } from '../types';
+import { calculateWAR, computeWAR, recencyWeight, syncLateArrivalPenalty, WARInputs, WAR_CONSTANTS } from '../services/warRating';
+import { getScheduledStart } from '../services/arrival';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number, now: Date = new Date()) => new Date(now.getTime() - days * DAY_MS);
+
+const noPenalties = () => ({ cancellation: 0, late_arrival: 0, no_show: 0 });
+
+const inputs = (overrides: Partial<WARInputs> = {}): WARInputs => ({
+    starWeightedSum: 0,
+    starTotalWeight: 0,
+    recentReviewCount: 0,
+    olderReviewCount: 0,
+    expiredReviewCount: 0,
+    onTimeCount: 0,
+    totalJobs: 0,
+    ratedJobs: 0,
+    disputeCount: 0,
+    penaltyCounts: noPenalties(),
+    penaltyWeights: noPenalties(),
+    ...overrides
+});
+
+const penaltyEvent = (type: WARPenaltyEvent['type'], bookingId: string, occurredAt: Date): WARPenaltyEvent => ({
+    id: `WPE-${type}-${bookingId}-S1`,
+    supplierId: 'S1',
+    type,
+    bookingId,
+    occurredAt: occurredAt.toISOString(),
+    source: 'live',
+    createdAt: occurredAt.toISOString()
+});
+
+describe('computeWAR', () => {
+    test('a supplier without history gets the default rating', () => {
+        const result = computeWAR(inputs());
+        assert.equal(result.starRatingMean, WAR_CONSTANTS.defaultRating);
+        assert.equal(result.onTimeRate, 1);
+        assert.equal(result.baseScore, 0.6 * 3 + 0.4 * 5);
+        assert.equal(result.totalPenalty, 0);
+        assert.equal(result.finalRating, 3.0);
+    });
+
+    test('pins the formula: base score, weighted penalties and volume weighting', () => {
+        const result = computeWAR(inputs({
+            starWeightedSum: 45,
+            starTotalWeight: 10,
+            onTimeCount: 8,
+            ratedJobs: 10,
+            totalJobs: 10,
+            disputeCount: 1,
+            penaltyCounts: { cancellation: 2, late_arrival: 1, no_show: 1 },
+            penaltyWeights: { cancellation: 1.5, late_arrival: 1, no_show: 0.5 }
+        }));
+
+        assert.equal(result.starRatingMean, 4.5);
+        assert.equal(result.onTimeRate, 0.8);
+        assert.ok(Math.abs(result.baseScore - 4.3) < 1e-9);
+        assert.equal(result.disputePenalty, 0.5);
+        assert.equal(result.cancellationPenalty, 1.125);
+        assert.equal(result.lateArrivalPenalty, 0.25);
+        assert.equal(result.noShowPenalty, 0.5);
+        assert.equal(result.totalPenalty, 2.375);
+        assert.ok(Math.abs(result.scoreAfterPenalties - 1.925) < 1e-9);
+        // ((10 × 1.925) + (5 × 3.0)) / 15
+        assert.ok(Math.abs(result.volumeWeightedRating - 34.25 / 15) < 1e-9);
+        assert.equal(result.finalRating, 2.3);
+        assert.equal(result.ownScoreWeight, 10 / 15);
+        assert.equal(result.cancellationCount, 2);
+    });
+
+    test('penalties are charged by recency weight, not by count', () => {
+        const result = computeWAR(inputs({
+            penaltyCounts: { cancellation: 2, late_arrival: 0, no_show: 0 },
+            penaltyWeights: { cancellation: 1, late_arrival: 0, no_show: 0 }
+        }));
+        assert.equal(result.cancellationCount, 2);
+        assert.equal(result.cancellationPenalty, WAR_CONSTANTS.cancellationPenalty);
+    });
+
+    test('the score after penalties never goes below zero', () => {
+        const result = computeWAR(inputs({
+            totalJobs: 5,
+            penaltyCounts: { cancellation: 0, late_arrival: 0, no_show: 10 },
+            penaltyWeights: { cancellation: 0, late_arrival: 0, no_show: 10 }
+        }));
+        assert.equal(result.scoreAfterPenalties, 0);
+        assert.equal(result.finalRating, 1.5);
+    });
+
+    test('a long perfect record approaches but never exceeds 5', () => {
+        const result = computeWAR(inputs({ starWeightedSum: 5000, starTotalWeight: 1000, onTimeCount: 1000, ratedJobs: 1000, totalJobs: 1000 }));
+        assert.equal(result.finalRating, 5);
+        assert.ok(result.volumeWeightedRating < 5);
+    });
+});
+
+describe('recencyWeight', () => {
+    const now = new Date('2026-06-30T12:00:00Z');
+
+    test('full weight for the last 90 days', () => {
+        assert.equal(recencyWeight(now, now), 1);
+        assert.equal(recencyWeight(daysAgo(90, now), now), 1);
+    });
+
+    test('half weight from 91 to 180 days', () => {
+        assert.equal(recencyWeight(daysAgo(91, now), now), WAR_CONSTANTS.decayWeight);
+        assert.equal(recencyWeight(daysAgo(180, now), now), WAR_CONSTANTS.decayWeight);
+    });
+
+    test('no weight after 180 days', () => {
+        assert.equal(recencyWeight(daysAgo(181, now), now), 0);
+    });
+});
+
+describe('penalty events in the rating', () => {
+    beforeEach(resetStore);
+
+    test('decay with age and drop out after 180 days', async () => {
+        for (const event of [
+            penaltyEvent('cancellation', 'B1', daysAgo(10)),
+            penaltyEvent('cancellation', 'B2', daysAgo(120)),
+            penaltyEvent('cancellation', 'B3', daysAgo(200)),
+            penaltyEvent('no_show', 'B4', daysAgo(150))
+        ]) {
+            store.warPenaltyEvents.set(event.id, event);
+        }
+
+        const result = await calculateWAR('S1');
+        assert.equal(result.cancellationCount, 2);
+        assert.equal(result.cancellationPenalty, WAR_CONSTANTS.cancellationPenalty * 1.5);
+        assert.equal(result.noShowCount, 1);
+        assert.equal(result.noShowPenalty, WAR_CONSTANTS.noShowPenalty * 0.5);
+    });
+
+    test('a late arrival is recorded, and withdrawn when the arrival is corrected', async () => {
+        const booking = { id: 'B1', supplierId: 'S1', date: '2026-03-01', startTime: '09:00', status: 'Completed' } as Booking;
+        const start = getScheduledStart(booking)!.getTime();
+        const minutes = (n: number) => new Date(start + n * 60000).toISOString();
+
+        assert.equal(await syncLateArrivalPenalty({ ...booking, arrivedAt: minutes(WAR_CONSTANTS.lateArrivalPenaltyMinutes + 15) }), true);
+        const late = store.warPenaltyEvents.get('WPE-late_arrival-B1-S1');
+        assert.equal(late?.minutesLate, WAR_CONSTANTS.lateArrivalPenaltyMinutes + 15);
+
+        assert.equal(await syncLateArrivalPenalty({ ...booking, arrivedAt: minutes(10) }), true);
+        assert.equal(store.warPenaltyEvents.size, 0);
+    });
+
+    test('an arrival withdraws a no-show recorded while the supplier was on the way', async () => {
+        const booking = { id: 'B1', supplierId: 'S1', date: '2026-03-01', startTime: '09:00', status: 'Arrived' } as Booking;
+        store.warPenaltyEvents.set('WPE-no_show-B1-S1', penaltyEvent('no_show', 'B1', new Date()));
+
+        await syncLateArrivalPenalty({ ...booking, arrivedAt: getScheduledStart(booking)!.toISOString() });
+        assert.equal(store.warPenaltyEvents.size, 0);
+    });
+});
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { BookingEvent, BookingEventType } from '../types';
+import { authFetch } from '../src/lib/authUtils';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+interface BookingTimelineProps {
+    bookingId: string;
+    compact?: boolean;
+}
+
+const EVENT_LABELS: Record<BookingEventType, string> = {
+    status_changed: 'Status changed',
+    updated: 'Details updated',
+    allotted: 'Allotted by admin',
+    radius_expanded: 'Search radius expanded',
+    search_timeout: 'Search timeout alert',
+    admin_alert: 'Admin alerted',
+    auto_cancelled: 'Auto-cancelled',
+    auto_completed: 'Auto-completed',
+    dispatch_wave: 'Offered to suppliers',
+    dispatch_radius_widened: 'Search radius widened',
+    dispatch_exhausted: 'No suppliers left to offer',
+    offer_declined: 'Offer declined',
+    payment_received: 'Payment received',
+    payment_mismatch: 'Payment mismatch flagged',
+    refund_created: 'Refund calculated',
+    share_accepted: 'Supplier took a share',
+    arrival_overridden: 'Arrival time corrected',
+    acres_measured: 'Acres measured',
+    acres_reviewed: 'Measured acres reviewed',
+};
+
+const EVENT_DOT: Record<BookingEventType, string> = {
+    status_changed: 'bg-primary',
+    updated: 'bg-neutral-400',
+    allotted: 'bg-blue-500',
+    radius_expanded: 'bg-blue-400',
+    search_timeout: 'bg-yellow-500',
+    admin_alert: 'bg-orange-500',
+    auto_cancelled: 'bg-red-500',
+    auto_completed: 'bg-green-500',
+    dispatch_wave: 'bg-blue-500',
+    dispatch_radius_widened: 'bg-blue-400',
+    dispatch_exhausted: 'bg-orange-500',
+    offer_declined: 'bg-neutral-400',
+    payment_received: 'bg-green-500',
+    payment_mismatch: 'bg-red-500',
+    refund_created: 'bg-yellow-500',
+    share_accepted: 'bg-green-500',
+    arrival_overridden: 'bg-orange-500',
+    acres_measured: 'bg-amber-500',
+    acres_reviewed: 'bg-green-500',
+};
+
+/**
+ * Booking Timeline - chronological list of everything that happened to a booking,
+ * read from the append-only booking_events log
+ */
+const BookingTimeline: React.FC<BookingTimelineProps> = ({ bookingId, compact = false }) => {
+    const [events, setEvents] = useState<BookingEvent[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const fetchEvents = async () => {
+            try {
+                setLoading(true);
+                const res = await authFetch(`${API_URL}/bookings/${bookingId}/events`);
+                if (!res.ok) throw new Error('Failed to load timeline');
+                const data: BookingEvent[] = await res.json();
+                if (!cancelled) setEvents(data);
+            } catch (e) {
+                console.error('Error fetching booking events:', e);
+                if (!cancelled) setError('Could not load booking history.');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        fetchEvents();
+        return () => { cancelled = true; };
+    }, [bookingId]);
+
+    if (loading) {
+        return <p className="text-xs text-neutral-500 dark:text-neutral-400">Loading history...</p>;
+    }
+    if (error) {
+        return <p className="text-xs text-red-500">{error}</p>;
+    }
+    if (events.length === 0) {
+        return <p className="text-xs text-neutral-500 dark:text-neutral-400">No recorded history yet.</p>;
+    }
+
+    return (
+        <ol className="relative border-l border-neutral-200 dark:border-neutral-600 ml-2">
+            {events.map(event => (
+                <li key={event.id} className={compact ? 'mb-2 ml-4' : 'mb-4 ml-4'}>
+                    <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${EVENT_DOT[event.type] || 'bg-neutral-400'}`} />
+                    <time className="block text-xs text-neutral-500 dark:text-neutral-400">
+                        {new Date(event.timestamp).toLocaleString()}
+                    </time>
+                    <p className="text-sm font-medium text-neutral-800 dark:text-neutral-100">
+                        {EVENT_LABELS[event.type] || event.type}
+                        {event.fromStatus && event.toStatus && (
+                            <span className="font-normal">: {event.fromStatus} → {event.toStatus}</span>
+                        )}
+                    </p>
+                    {event.note && !compact && (
+                        <p className="text-xs text-neutral-600 dark:text-neutral-300">{event.note}</p>
+                    )}
+                    {!compact && (
+                        <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                            By {event.actorId === 'system' ? 'System' : `${event.actorRole || 'User'} #${event.actorId}`}
+                            {event.changedFields && event.changedFields.length > 0 && ` · ${event.changedFields.join(', ')}`}
+                        </p>
+                    )}
+                </li>
+            ))}
+        </ol>
+    );
+};
+
+export default BookingTimeline;
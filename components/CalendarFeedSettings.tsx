@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { authFetch } from '../src/lib/authUtils';
+import { useToast } from '../context/ToastContext';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+interface CalendarFeedInfo {
+    url: string | null;
+    createdAt?: string;
+}
+
+/**
+ * The user's private .ics link for subscribing to their bookings from a phone or computer calendar.
+ * Resetting the link or turning it off stops the old link from working.
+ */
+const CalendarFeedSettings: React.FC = () => {
+    const { showToast } = useToast();
+    const [feed, setFeed] = useState<CalendarFeedInfo | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    useEffect(() => {
+        authFetch(`${API_URL}/calendar-feed`)
+            .then(res => (res.ok ? res.json() : { url: null }))
+            .then(setFeed)
+            .catch(() => setFeed({ url: null }));
+    }, []);
+
+    const request = async (method: 'POST' | 'DELETE', successMessage: string) => {
+        setIsBusy(true);
+        try {
+            const res = await authFetch(`${API_URL}/calendar-feed`, { method });
+            if (!res.ok) {
+                const data = await res.json().catch(() => ({}));
+                throw new Error(data.message || data.error || 'Could not update the calendar link');
+            }
+            setFeed(method === 'DELETE' ? { url: null } : await res.json());
+            showToast(successMessage, 'success');
+        } catch (e) {
+            showToast((e as Error).message, 'error');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const copyLink = async () => {
+        if (!feed?.url) return;
+        try {
+            await navigator.clipboard.writeText(feed.url);
+            showToast('Calendar link copied', 'success');
+        } catch {
+            showToast('Could not copy the link. Select it and copy it manually.', 'error');
+        }
+    };
+
+    const resetLink = () => {
+        if (!window.confirm('Reset the calendar link? Calendars using the current link will stop updating.')) return;
+        request('POST', 'New calendar link created');
+    };
+
+    const turnOff = () => {
+        if (!window.confirm('Turn off the calendar link? Calendars using it will stop updating.')) return;
+        request('DELETE', 'Calendar link turned off');
+    };
+
+    return (
+        <ul className="bg-white dark:bg-neutral-700 rounded-lg border border-neutral-200 dark:border-neutral-600 divide-y divide-neutral-200 dark:divide-neutral-600">
+            <li className="p-4">
+                <p className="font-semibold text-neutral-800 dark:text-neutral-100">Calendar Link</p>
+                <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                    Subscribe from Google Calendar, Outlook or your phone to see confirmed bookings, rest days and maintenance. Anyone with the link can see your schedule.
+                </p>
+            </li>
+            {feed === null ? (
+                <li className="p-4 text-sm text-neutral-400">Loading...</li>
+            ) : feed.url ? (
+                <>
+                    <li className="p-4 space-y-2">
+                        <input
+                            type="text"
+                            readOnly
+                            value={feed.url}
+                            onFocus={e => e.target.select()}
+                            className="w-full bg-neutral-100 dark:bg-neutral-600 border border-neutral-300 dark:border-neutral-500 rounded-md p-2 text-xs font-mono text-neutral-900 dark:text-neutral-100"
+                        />
+                        {feed.createdAt && (
+                            <p className="text-xs text-neutral-400">Created {new Date(feed.createdAt).toLocaleDateString()}</p>
+                        )}
+                    </li>
+                    <li className="p-4 flex gap-2">
+                        <button onClick={copyLink} className="flex-1 py-2 rounded-md bg-primary text-white text-sm font-semibold">Copy Link</button>
+                        <button onClick={resetLink} disabled={isBusy} className="flex-1 py-2 rounded-md bg-neutral-100 dark:bg-neutral-600 text-neutral-800 dark:text-neutral-100 text-sm font-semibold disabled:opacity-50">Reset Link</button>
+                        <button onClick={turnOff} disabled={isBusy} className="flex-1 py-2 rounded-md bg-red-50 dark:bg-red-900/20 text-red-600 text-sm font-semibold disabled:opacity-50">Turn Off</button>
+                    </li>
+                </>
+            ) : (
+                <li className="p-4">
+                    <button
+                        onClick={() => request('POST', 'Calendar link created')}
+                        disabled={isBusy}
+                        className="w-full py-2 rounded-md bg-primary text-white text-sm font-semibold disabled:opacity-50"
+                    >
+                        {isBusy ? 'Creating...' : 'Create Calendar Link'}
+                    </button>
+                </li>
+            )}
+        </ul>
+    );
+};
+
+export default CalendarFeedSettings;
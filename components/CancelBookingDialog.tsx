@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import ConfirmationDialog from './ConfirmationDialog';
+import { Booking, CancellationQuote } from '../types';
+import { authFetch } from '../src/lib/authUtils';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+interface CancelBookingDialogProps {
+    booking: Booking;
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+const describeQuote = (quote: CancellationQuote): string => {
+    if (quote.amountPaid <= 0) {
+        return 'No advance has been paid, so nothing will be charged or refunded.';
+    }
+    if (quote.cancellationFee > 0) {
+        return `Cancelling now keeps a ${quote.feePercent}% cancellation fee of ₹${quote.cancellationFee.toLocaleString()}. You will get back ₹${quote.refundAmount.toLocaleString()} of your ₹${quote.amountPaid.toLocaleString()} advance.`;
+    }
+    return `Your advance of ₹${quote.refundAmount.toLocaleString()} will be refunded in full.`;
+};
+
+/**
+ * Cancel confirmation that shows the refund the server's cancellation policy would give
+ */
+const CancelBookingDialog: React.FC<CancelBookingDialogProps> = ({ booking, onConfirm, onCancel }) => {
+    const [note, setNote] = useState('Checking refund amount...');
+
+    useEffect(() => {
+        let cancelled = false;
+        const fetchQuote = async () => {
+            try {
+                const res = await authFetch(`${API_URL}/bookings/${booking.id}/cancellation-quote`);
+                const data = await res.json().catch(() => ({}));
+                if (cancelled) return;
+                setNote(res.ok ? describeQuote(data as CancellationQuote) : (data.message || 'Could not calculate the refund.'));
+            } catch {
+                if (!cancelled) setNote('Could not calculate the refund.');
+            }
+        };
+        fetchQuote();
+        return () => { cancelled = true; };
+    }, [booking.id]);
+
+    return (
+        <ConfirmationDialog
+            title="Cancel Booking"
+            message="Are you sure you want to cancel this booking? This action cannot be undone."
+            note={note}
+            confirmText="Confirm"
+            cancelText="Go Back"
+            onConfirm={onConfirm}
+            onCancel={onCancel}
+        />
+    );
+};
+
+export default CancelBookingDialog;
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { Item, ItemAvailability, MaintenanceWindow } from '../types';
+import Button from './Button';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const inputClass = 'w-full border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-700 rounded-lg py-2 px-3 text-sm text-neutral-800 dark:text-white';
+
+// A time input can't show 24:00, so an end of 00:00 means midnight at the end of the day
+const toEndInput = (time: string) => (time === '24:00' ? '00:00' : time);
+const fromEndInput = (time: string) => (time === '00:00' ? '24:00' : time);
+
+const calendarFor = (item: Item): ItemAvailability => item.availability || {
+    workingHours: { start: '00:00', end: '24:00' },
+    weeklyOffDays: [],
+    maintenance: []
+};
+
+interface ItemCalendarEditorProps {
+    item: Item;
+    onSave: (itemId: number, availability: ItemAvailability) => Promise<boolean>;
+}
+
+/**
+ * Supplier edits one item's working hours, weekly off-days and maintenance windows.
+ * Past maintenance windows are dropped when saving.
+ */
+const ItemCalendarEditor: React.FC<ItemCalendarEditorProps> = ({ item, onSave }) => {
+    const [calendar, setCalendar] = useState<ItemAvailability>(calendarFor(item));
+    const [newWindow, setNewWindow] = useState({ date: '', startTime: '', endTime: '', reason: '' });
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        setCalendar(calendarFor(item));
+    }, [item.id, item.availability?.updatedAt]);
+
+    const toggleOffDay = (day: number) => setCalendar(prev => ({
+        ...prev,
+        weeklyOffDays: prev.weeklyOffDays.includes(day) ? prev.weeklyOffDays.filter(d => d !== day) : [...prev.weeklyOffDays, day]
+    }));
+
+    const addWindow = () => {
+        if (!newWindow.date) return;
+        const window: MaintenanceWindow = {
+            id: `MW-${Date.now()}`,
+            date: newWindow.date,
+            ...(newWindow.startTime && newWindow.endTime ? { startTime: newWindow.startTime, endTime: fromEndInput(newWindow.endTime) } : {}),
+            ...(newWindow.reason.trim() ? { reason: newWindow.reason.trim() } : {})
+        };
+        setCalendar(prev => ({ ...prev, maintenance: [...prev.maintenance, window].sort((a, b) => a.date.localeCompare(b.date)) }));
+        setNewWindow({ date: '', startTime: '', endTime: '', reason: '' });
+    };
+
+    const removeWindow = (id: string) => setCalendar(prev => ({ ...prev, maintenance: prev.maintenance.filter(w => w.id !== id) }));
+
+    const handleSave = async () => {
+        const today = new Date().toISOString().split('T')[0];
+        setIsSaving(true);
+        await onSave(item.id, { ...calendar, maintenance: calendar.maintenance.filter(w => w.date >= today) });
+        setIsSaving(false);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wide mb-1.5">Working hours</p>
+                <div className="grid grid-cols-2 gap-3">
+                    <input
+                        type="time"
+                        value={calendar.workingHours.start}
+                        onChange={e => setCalendar(prev => ({ ...prev, workingHours: { ...prev.workingHours, start: e.target.value } }))}
+                        className={inputClass}
+                    />
+                    <input
+                        type="time"
+                        value={toEndInput(calendar.workingHours.end)}
+                        onChange={e => setCalendar(prev => ({ ...prev, workingHours: { ...prev.workingHours, end: fromEndInput(e.target.value) } }))}
+                        className={inputClass}
+                    />
+                </div>
+                <p className="text-xs text-neutral-400 mt-1">An end of 00:00 means midnight.</p>
+            </div>
+
+            <div>
+                <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wide mb-1.5">Weekly off-days</p>
+                <div className="grid grid-cols-7 gap-1">
+                    {DAY_LABELS.map((label, day) => (
+                        <button
+                            key={label}
+                            type="button"
+                            onClick={() => toggleOffDay(day)}
+                            className={`py-2 rounded-lg text-xs font-bold border ${calendar.weeklyOffDays.includes(day)
+                                ? 'bg-red-50 border-red-200 text-red-600 dark:bg-red-900/20 dark:border-red-800'
+                                : 'bg-white border-neutral-200 text-neutral-700 dark:bg-neutral-700 dark:border-neutral-600 dark:text-neutral-200'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div>
+                <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wide mb-1.5">Maintenance</p>
+                {calendar.maintenance.length === 0 ? (
+                    <p className="text-sm text-neutral-400 mb-2">No maintenance planned.</p>
+                ) : (
+                    <ul className="space-y-1 mb-2">
+                        {calendar.maintenance.map(w => (
+                            <li key={w.id} className="flex justify-between items-center text-sm bg-orange-50 dark:bg-orange-900/20 text-orange-800 dark:text-orange-300 rounded-lg px-3 py-2">
+                                <span>
+                                    {w.date} · {w.startTime ? `${w.startTime}–${w.endTime}` : 'All day'}{w.reason ? ` · ${w.reason}` : ''}
+                                </span>
+                                <button type="button" onClick={() => removeWindow(w.id)} className="text-xs font-bold text-red-600 hover:text-red-800">Remove</button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                    <input type="date" value={newWindow.date} onChange={e => setNewWindow({ ...newWindow, date: e.target.value })} className={inputClass} />
+                    <input type="text" placeholder="Reason (optional)" value={newWindow.reason} onChange={e => setNewWindow({ ...newWindow, reason: e.target.value })} className={inputClass} />
+                    <input type="time" value={newWindow.startTime} onChange={e => setNewWindow({ ...newWindow, startTime: e.target.value })} className={inputClass} />
+                    <input type="time" value={newWindow.endTime} onChange={e => setNewWindow({ ...newWindow, endTime: e.target.value })} className={inputClass} />
+                </div>
+                <p className="text-xs text-neutral-400 mt-1">Leave the times empty to block the whole day.</p>
+                <Button variant="secondary" className="w-full mt-2" onClick={addWindow} disabled={!newWindow.date}>Add Maintenance</Button>
+            </div>
+
+            <Button className="w-full" onClick={handleSave} disabled={isSaving}>{isSaving ? 'Saving...' : 'Save Calendar'}</Button>
+        </div>
+    );
+};
+
+export default ItemCalendarEditor;
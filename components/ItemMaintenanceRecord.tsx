@@ -0,0 +1,21 @@
+import React from 'react';
+import { useMaintenanceSummary } from '../hooks/useMaintenanceSummary';
+import MaintenanceHistory from './MaintenanceHistory';
+
+/**
+ * Read-only maintenance record of an item, for admins re-verifying it or settling a damage claim
+ */
+const ItemMaintenanceRecord: React.FC<{ itemId: number; title?: string }> = ({ itemId, title = 'Maintenance Record' }) => {
+    const { summary, isLoading, error } = useMaintenanceSummary(itemId);
+
+    return (
+        <div className="border border-neutral-200 dark:border-neutral-700 rounded-lg p-3">
+            <p className="text-sm font-bold text-neutral-800 dark:text-neutral-100 mb-2">{title}</p>
+            {isLoading && !summary && <p className="text-sm text-neutral-400">Loading...</p>}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {summary && <MaintenanceHistory summary={summary} />}
+        </div>
+    );
+};
+
+export default ItemMaintenanceRecord;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { MaintenanceRecordType, MaintenanceSummary, ServiceReminderStatus } from '../types';
+
+const TYPE_LABELS: Record<MaintenanceRecordType, string> = {
+    service: 'Service',
+    repair: 'Repair',
+    parts: 'Parts'
+};
+
+const TYPE_STYLES: Record<MaintenanceRecordType, string> = {
+    service: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200',
+    repair: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-200',
+    parts: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-200'
+};
+
+const STATUS_STYLES: Record<ServiceReminderStatus, string> = {
+    ok: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200',
+    due_soon: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200',
+    overdue: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200',
+    not_tracked: 'bg-neutral-100 text-neutral-600 dark:bg-neutral-700 dark:text-neutral-300'
+};
+
+export const serviceStatusLabel = (summary: MaintenanceSummary): string => {
+    switch (summary.serviceStatus) {
+        case 'overdue': return `Service overdue by ${Math.abs(summary.hoursUntilService!)}h`;
+        case 'due_soon': return `Service due in ${summary.hoursUntilService}h`;
+        case 'ok': return `Next service in ${summary.hoursUntilService}h`;
+        default: return 'No service interval set';
+    }
+};
+
+interface MaintenanceHistoryProps {
+    summary: MaintenanceSummary;
+    onDelete?: (recordId: string) => void;
+}
+
+/**
+ * Engine hours, service reminder and the logged services, repairs and parts for one item
+ */
+const MaintenanceHistory: React.FC<MaintenanceHistoryProps> = ({ summary, onDelete }) => (
+    <div className="space-y-3">
+        <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-neutral-50 dark:bg-neutral-700/50 rounded-lg p-2">
+                <p className="text-lg font-bold text-neutral-900 dark:text-white">{summary.engineHours}h</p>
+                <p className="text-xs text-neutral-500">Engine hours</p>
+            </div>
+            <div className="bg-neutral-50 dark:bg-neutral-700/50 rounded-lg p-2">
+                <p className="text-lg font-bold text-neutral-900 dark:text-white">{summary.records.length}</p>
+                <p className="text-xs text-neutral-500">Records</p>
+            </div>
+            <div className="bg-neutral-50 dark:bg-neutral-700/50 rounded-lg p-2">
+                <p className="text-lg font-bold text-neutral-900 dark:text-white">₹{summary.totalCost.toLocaleString()}</p>
+                <p className="text-xs text-neutral-500">Total spent</p>
+            </div>
+        </div>
+        <p className={`text-sm font-semibold rounded-lg px-3 py-2 ${STATUS_STYLES[summary.serviceStatus]}`}>
+            {serviceStatusLabel(summary)}
+            {summary.serviceIntervalHours ? <span className="font-normal"> · every {summary.serviceIntervalHours}h, last at {summary.lastServiceHours}h</span> : null}
+        </p>
+
+        {summary.records.length === 0 ? (
+            <p className="text-sm text-neutral-400">No maintenance logged yet.</p>
+        ) : (
+            <ul className="space-y-2">
+                {summary.records.map(record => (
+                    <li key={record.id} className="border border-neutral-200 dark:border-neutral-700 rounded-lg p-3 text-sm">
+                        <div className="flex justify-between items-start gap-2">
+                            <div className="flex items-center gap-2 flex-wrap">
+                                <span className={`px-2 py-0.5 rounded text-xs font-semibold ${TYPE_STYLES[record.type]}`}>{TYPE_LABELS[record.type]}</span>
+                                <span className="text-neutral-500">{record.date} · {record.engineHours}h</span>
+                                {record.downtimeWindowId && <span className="text-xs text-orange-600">Downtime blocked</span>}
+                            </div>
+                            <span className="font-bold text-neutral-900 dark:text-white">₹{record.totalCost.toLocaleString()}</span>
+                        </div>
+                        <p className="text-neutral-700 dark:text-neutral-300 mt-1">{record.description}</p>
+                        {record.parts.length > 0 && (
+                            <p className="text-xs text-neutral-500 mt-1">
+                                Parts: {record.parts.map(p => `${p.name} (₹${p.cost})`).join(', ')}{record.labourCost ? ` · Labour ₹${record.labourCost}` : ''}
+                            </p>
+                        )}
+                        {onDelete && (
+                            <button onClick={() => onDelete(record.id)} className="text-xs font-bold text-red-600 hover:text-red-800 mt-1">Delete</button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+);
+
+export default MaintenanceHistory;
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { Item, MaintenancePart, MaintenanceRecordType } from '../types';
+import { useItem } from '../context/ItemContext';
+import { useMaintenanceSummary } from '../hooks/useMaintenanceSummary';
+import MaintenanceHistory from './MaintenanceHistory';
+import Button from './Button';
+
+const inputClass = 'w-full border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-700 rounded-lg py-2 px-3 text-sm text-neutral-800 dark:text-white';
+const emptyEntry = () => ({
+    type: 'service' as MaintenanceRecordType,
+    date: new Date().toISOString().split('T')[0],
+    description: '',
+    labourCost: '',
+    blockDowntime: false,
+    startTime: '',
+    endTime: ''
+});
+
+/**
+ * Supplier's maintenance log for one item: service plan (hour meter and interval), new
+ * services, repairs and parts with costs, optional downtime on the calendar, and the history.
+ */
+const MaintenanceLogEditor: React.FC<{ item: Item }> = ({ item }) => {
+    const { saveServicePlan, logMaintenance, deleteMaintenanceRecord } = useItem();
+    const { summary, error, reload } = useMaintenanceSummary(item.id);
+    const [plan, setPlan] = useState({ initialEngineHours: '', serviceIntervalHours: '' });
+    const [entry, setEntry] = useState(emptyEntry());
+    const [parts, setParts] = useState<MaintenancePart[]>([]);
+    const [newPart, setNewPart] = useState({ name: '', cost: '' });
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        setPlan({
+            initialEngineHours: item.initialEngineHours != null ? String(item.initialEngineHours) : '',
+            serviceIntervalHours: item.serviceIntervalHours != null ? String(item.serviceIntervalHours) : ''
+        });
+    }, [item.id, item.initialEngineHours, item.serviceIntervalHours]);
+
+    useEffect(() => {
+        setEntry(emptyEntry());
+        setParts([]);
+    }, [item.id]);
+
+    const handleSavePlan = async () => {
+        const saved = await saveServicePlan(item.id, {
+            initialEngineHours: plan.initialEngineHours ? Number(plan.initialEngineHours) : null,
+            serviceIntervalHours: plan.serviceIntervalHours ? Number(plan.serviceIntervalHours) : null
+        });
+        if (saved) reload();
+    };
+
+    const addPart = () => {
+        if (!newPart.name.trim() || newPart.cost === '') return;
+        setParts(prev => [...prev, { name: newPart.name.trim(), cost: Number(newPart.cost) }]);
+        setNewPart({ name: '', cost: '' });
+    };
+
+    const handleLog = async () => {
+        setIsSaving(true);
+        const saved = await logMaintenance(item.id, {
+            type: entry.type,
+            date: entry.date,
+            description: entry.description,
+            parts,
+            labourCost: Number(entry.labourCost || 0),
+            ...(entry.blockDowntime ? {
+                downtime: entry.startTime && entry.endTime ? { startTime: entry.startTime, endTime: entry.endTime } : {}
+            } : {})
+        });
+        setIsSaving(false);
+        if (saved) {
+            setEntry(emptyEntry());
+            setParts([]);
+            reload();
+        }
+    };
+
+    const handleDelete = async (recordId: string) => {
+        if (!window.confirm('Delete this record? Any downtime it blocked is released.')) return;
+        if (await deleteMaintenanceRecord(item.id, recordId)) reload();
+    };
+
+    const partsTotal = parts.reduce((sum, p) => sum + p.cost, 0);
+
+    return (
+        <div className="space-y-5">
+            <div>
+                <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wide mb-1.5">Service plan</p>
+                <div className="grid grid-cols-2 gap-3">
+                    <input type="number" min="0" placeholder="Hour meter at listing" value={plan.initialEngineHours} onChange={e => setPlan({ ...plan, initialEngineHours: e.target.value })} className={inputClass} />
+                    <input type="number" min="1" placeholder="Service every (hours)" value={plan.serviceIntervalHours} onChange={e => setPlan({ ...plan, serviceIntervalHours: e.target.value })} className={inputClass} />
+                </div>
+                <p className="text-xs text-neutral-400 mt-1">Completed jobs add to the hour meter. You get a reminder as the next service comes due.</p>
+                <Button variant="secondary" className="w-full mt-2" onClick={handleSavePlan}>Save Service Plan</Button>
+            </div>
+
+            <div>
+                <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wide mb-1.5">Log maintenance</p>
+                <div className="grid grid-cols-2 gap-2">
+                    <select value={entry.type} onChange={e => setEntry({ ...entry, type: e.target.value as MaintenanceRecordType })} className={inputClass}>
+                        <option value="service">Service</option>
+                        <option value="repair">Repair</option>
+                        <option value="parts">Parts</option>
+                    </select>
+                    <input type="date" value={entry.date} onChange={e => setEntry({ ...entry, date: e.target.value })} className={inputClass} />
+                </div>
+                <input type="text" placeholder="What was done" value={entry.description} onChange={e => setEntry({ ...entry, description: e.target.value })} className={`${inputClass} mt-2`} />
+                <input type="number" min="0" placeholder="Labour cost (₹)" value={entry.labourCost} onChange={e => setEntry({ ...entry, labourCost: e.target.value })} className={`${inputClass} mt-2`} />
+
+                {parts.length > 0 && (
+                    <ul className="space-y-1 mt-2">
+                        {parts.map((part, idx) => (
+                            <li key={idx} className="flex justify-between items-center text-sm bg-neutral-50 dark:bg-neutral-700/50 rounded-lg px-3 py-1.5">
+                                <span>{part.name} · ₹{part.cost}</span>
+                                <button type="button" onClick={() => setParts(prev => prev.filter((_, i) => i !== idx))} className="text-xs font-bold text-red-600 hover:text-red-800">Remove</button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <div className="grid grid-cols-[1fr_6rem_auto] gap-2 mt-2">
+                    <input type="text" placeholder="Part" value={newPart.name} onChange={e => setNewPart({ ...newPart, name: e.target.value })} className={inputClass} />
+                    <input type="number" min="0" placeholder="₹" value={newPart.cost} onChange={e => setNewPart({ ...newPart, cost: e.target.value })} className={inputClass} />
+                    <button type="button" onClick={addPart} className="px-3 rounded-lg bg-neutral-100 dark:bg-neutral-700 text-sm font-bold text-neutral-700 dark:text-neutral-200">Add</button>
+                </div>
+
+                <label className="flex items-center gap-2 mt-3 text-sm text-neutral-700 dark:text-neutral-300">
+                    <input type="checkbox" checked={entry.blockDowntime} onChange={e => setEntry({ ...entry, blockDowntime: e.target.checked })} />
+                    Block this date on the item's calendar
+                </label>
+                {entry.blockDowntime && (
+                    <>
+                        <div className="grid grid-cols-2 gap-2 mt-2">
+                            <input type="time" value={entry.startTime} onChange={e => setEntry({ ...entry, startTime: e.target.value })} className={inputClass} />
+                            <input type="time" value={entry.endTime} onChange={e => setEntry({ ...entry, endTime: e.target.value })} className={inputClass} />
+                        </div>
+                        <p className="text-xs text-neutral-400 mt-1">Leave the times empty to block the whole day.</p>
+                    </>
+                )}
+
+                <Button className="w-full mt-3" onClick={handleLog} disabled={isSaving || !entry.description.trim()}>
+                    {isSaving ? 'Saving...' : `Log ${entry.type === 'service' ? 'Service' : entry.type === 'repair' ? 'Repair' : 'Parts'} · ₹${(Number(entry.labourCost || 0) + partsTotal).toLocaleString()}`}
+                </Button>
+            </div>
+
+            <div>
+                <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wide mb-1.5">History</p>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                {summary && <MaintenanceHistory summary={summary} onDelete={handleDelete} />}
+            </div>
+        </div>
+    );
+};
+
+export default MaintenanceLogEditor;
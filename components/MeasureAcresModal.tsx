@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Booking } from '../types';
+import Button from './Button';
+
+// Fixes vaguer than this would distort the walked boundary
+const MAX_WALK_ACCURACY_METERS = 25;
+
+interface MeasureAcresModalProps {
+    booking: Booking;
+    onSubmit: (measurement: { acres: number } | { boundary: { lat: number; lng: number }[] }) => Promise<boolean>;
+    onClose: () => void;
+}
+
+/**
+ * Supplier reports the acres actually worked on a per-acre job: typed in, or measured by
+ * walking the field's edge with the phone's GPS (the server works out the area).
+ */
+const MeasureAcresModal: React.FC<MeasureAcresModalProps> = ({ booking, onSubmit, onClose }) => {
+    const [mode, setMode] = useState<'manual' | 'gps'>('manual');
+    const [acres, setAcres] = useState(booking.acres?.toString() || '');
+    const [isWalking, setIsWalking] = useState(false);
+    const [walked, setWalked] = useState<{ lat: number; lng: number }[]>([]);
+    const [gpsError, setGpsError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const watchIdRef = useRef<number | null>(null);
+
+    const stopWalking = () => {
+        if (watchIdRef.current !== null) navigator.geolocation.clearWatch(watchIdRef.current);
+        watchIdRef.current = null;
+        setIsWalking(false);
+    };
+
+    useEffect(() => stopWalking, []);
+
+    const startWalking = () => {
+        if (!navigator.geolocation) {
+            setGpsError('Location is not available on this device.');
+            return;
+        }
+        setGpsError(null);
+        setWalked([]);
+        setIsWalking(true);
+        watchIdRef.current = navigator.geolocation.watchPosition((position) => {
+            const { latitude, longitude, accuracy } = position.coords;
+            if (accuracy > MAX_WALK_ACCURACY_METERS) return;
+            setWalked(prev => [...prev, { lat: latitude, lng: longitude }]);
+        }, (error) => {
+            setGpsError(error.message);
+            stopWalking();
+        }, { enableHighAccuracy: true, maximumAge: 0 });
+    };
+
+    const handleSubmit = async () => {
+        setIsSubmitting(true);
+        const ok = await onSubmit(mode === 'manual' ? { acres: parseFloat(acres) } : { boundary: walked });
+        setIsSubmitting(false);
+        if (ok) onClose();
+    };
+
+    const canSubmit = mode === 'manual' ? parseFloat(acres) > 0 : !isWalking && walked.length >= 3;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4" style={{ zIndex: 10000 }}>
+            <div className="bg-white dark:bg-neutral-800 rounded-lg shadow-xl w-full max-w-sm p-5 space-y-4">
+                <div>
+                    <h3 className="text-lg font-bold text-neutral-800 dark:text-neutral-100">Acres Worked</h3>
+                    <p className="text-sm text-neutral-600 dark:text-neutral-300">
+                        Booked for {booking.acres ?? '?'} acres{booking.unitPrice ? ` at ₹${booking.unitPrice.toLocaleString()}/acre` : ''}. The farmer approves the new total before payment.
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    {(['manual', 'gps'] as const).map(m => (
+                        <button
+                            key={m}
+                            type="button"
+                            onClick={() => { stopWalking(); setMode(m); }}
+                            className={`flex-1 py-2 rounded-lg text-sm font-semibold border ${mode === m ? 'bg-primary text-white border-primary' : 'bg-white dark:bg-neutral-700 border-neutral-300 dark:border-neutral-600'}`}
+                        >
+                            {m === 'manual' ? 'Enter acres' : 'Walk the boundary'}
+                        </button>
+                    ))}
+                </div>
+                {mode === 'manual' ? (
+                    <input
+                        type="number"
+                        min="0.1"
+                        step="0.1"
+                        value={acres}
+                        onChange={e => setAcres(e.target.value)}
+                        className="w-full border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-700 rounded-lg py-2.5 px-3 text-neutral-800 dark:text-white"
+                        placeholder="e.g. 4.5"
+                    />
+                ) : (
+                    <div className="space-y-2 text-sm text-neutral-700 dark:text-neutral-300">
+                        <p>Start at a corner, walk all the way round the worked area and stop where you began.</p>
+                        <p className="font-semibold">{walked.length} points recorded{isWalking ? '…' : ''}</p>
+                        {gpsError && <p className="text-red-600">{gpsError}</p>}
+                        <Button variant="secondary" className="w-full" onClick={isWalking ? stopWalking : startWalking}>
+                            {isWalking ? 'Stop' : walked.length > 0 ? 'Walk Again' : 'Start Walking'}
+                        </Button>
+                    </div>
+                )}
+                <div className="flex gap-2">
+                    <Button variant="secondary" className="flex-1" onClick={() => { stopWalking(); onClose(); }}>Cancel</Button>
+                    <Button className="flex-1" onClick={handleSubmit} disabled={!canSubmit || isSubmitting}>{isSubmitting ? 'Saving...' : 'Submit'}</Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MeasureAcresModal;
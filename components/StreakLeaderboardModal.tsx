@@ -1,43 +1,54 @@
 import React, { useState, useMemo } from 'react';
 import { useAuth } from '../context/AuthContext';
 import Button from './Button';
-import { User } from '../types';
+import { StreakEventType, User, UserRole } from '../types';
+import { useToast } from '../context/ToastContext';
 
 interface LeaderboardModalProps {
     isOpen: boolean;
     onClose: () => void;
 }
 
-type FilterType = 'Global' | 'District' | 'Mandal';
+type FilterType = 'Global' | 'District' | 'Mandal' | 'History';
+
+const EVENT_LABELS: Record<StreakEventType, { label: string; className: string }> = {
+    work: { label: 'Job completed', className: 'text-green-600' },
+    bonus: { label: 'Bonus day', className: 'text-orange-500' },
+    penalty: { label: 'Penalty', className: 'text-red-600' },
+    guard_used: { label: 'Guard used', className: 'text-cyan-600' },
+    guard_earned: { label: 'Guard earned', className: 'text-cyan-600' },
+    guard_bought: { label: 'Guard bought', className: 'text-cyan-600' },
+    reset: { label: 'Streak ended', className: 'text-red-600' },
+};
 
 import { useStreakRankings } from '../hooks/useStreakRankings';
+import { useStreakHistory } from '../hooks/useStreakHistory';
 
 export const StreakLeaderboardModal: React.FC<LeaderboardModalProps> = ({ isOpen, onClose }) => {
     const { user, allUsers } = useAuth();
     const { getRankBorderClass } = useStreakRankings(allUsers);
+    const { showToast } = useToast();
     const [filter, setFilter] = useState<FilterType>('Global');
+    const isSupplier = user?.role === UserRole.Supplier;
+    const { history, isLoading: isHistoryLoading, buyGuard } = useStreakHistory(isOpen && isSupplier && filter === 'History');
+    const [isBuying, setIsBuying] = useState(false);
 
-    // Helper to check if streak is active today (calculated on Read, not Write)
-    const isStreakActive = (u: User) => {
-        if (!u.streak || u.streak.currentCount <= 0 || !u.streak.lastLoginDate) return false;
-
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-
-        const lastLogin = new Date(u.streak.lastLoginDate);
-        lastLogin.setHours(0, 0, 0, 0);
-
-        const diffTime = Math.abs(today.getTime() - lastLogin.getTime());
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-        // Active if logged in today (0) or yesterday (1)
-        if (diffDays <= 1) return true;
-
-        // Or if they have enough guards to cover the gap
-        const missed = diffDays - 1;
-        return (u.streak.guards || 0) >= missed;
+    const handleBuyGuard = async () => {
+        setIsBuying(true);
+        try {
+            await buyGuard();
+            showToast('Guard added to your streak.', 'success');
+        } catch (e) {
+            showToast((e as Error).message, 'error');
+        } finally {
+            setIsBuying(false);
+        }
     };
 
+    // Days without work are settled on the server every day (guards first, then the streak
+    // ends), so any streak still above zero is active
+    const isStreakActive = (u: User) => (u.streak?.currentCount || 0) > 0;
+
     const { top50, userRank } = useMemo(() => {
         // 1. Filter by Role & Active Streak
         let candidates = allUsers.filter(u => u.role === 'Supplier' && isStreakActive(u));
@@ -112,7 +123,7 @@ export const StreakLeaderboardModal: React.FC<LeaderboardModalProps> = ({ isOpen
 
                 {/* Filters */}
                 <div className="flex p-2 bg-neutral-100 dark:bg-neutral-900 border-b border-neutral-200 dark:border-neutral-700 shrink-0">
-                    {(['Global', 'District', 'Mandal'] as FilterType[]).map((f) => (
+                    {(['Global', 'District', 'Mandal', ...(isSupplier ? ['History'] : [])] as FilterType[]).map((f) => (
                         <button
                             key={f}
                             onClick={() => setFilter(f)}
@@ -128,7 +139,36 @@ export const StreakLeaderboardModal: React.FC<LeaderboardModalProps> = ({ isOpen
 
                 {/* List */}
                 <div className="flex-1 overflow-y-auto bg-white dark:bg-neutral-800 p-2 space-y-2">
-                    {top50.length === 0 ? (
+                    {filter === 'History' ? (
+                        <>
+                            {history && (
+                                <div className="p-3 rounded-xl bg-cyan-50 dark:bg-cyan-900/20 text-sm text-neutral-700 dark:text-neutral-200">
+                                    <p>A guard covers a day without work. You earn one every {history.rules.milestoneDays} streak days, or trade {history.rules.guardPointCost} points for one (max {history.rules.maxGuards}).</p>
+                                    <button
+                                        onClick={handleBuyGuard}
+                                        disabled={isBuying || (history.streak.points || 0) < history.rules.guardPointCost || history.streak.guards >= (history.streak.maxGuards || history.rules.maxGuards)}
+                                        className="mt-2 px-3 py-1.5 rounded-lg bg-cyan-600 text-white text-xs font-semibold disabled:opacity-50"
+                                    >
+                                        {isBuying ? 'Buying...' : `Buy a guard (${history.rules.guardPointCost} pts, you have ${history.streak.points || 0})`}
+                                    </button>
+                                </div>
+                            )}
+                            {isHistoryLoading && !history && <p className="text-center py-6 text-sm text-neutral-500">Loading...</p>}
+                            {history && history.events.length === 0 && <p className="text-center py-6 text-sm text-neutral-500">No streak activity yet.</p>}
+                            {history?.events.map(event => (
+                                <div key={event.id} className="flex items-center justify-between p-3 rounded-xl border border-neutral-100 dark:border-neutral-700">
+                                    <div className="min-w-0">
+                                        <p className={`text-sm font-semibold ${EVENT_LABELS[event.type].className}`}>{EVENT_LABELS[event.type].label}</p>
+                                        <p className="text-xs text-neutral-500 truncate">{new Date(event.date).toLocaleDateString('en-IN')}{event.note ? ` · ${event.note}` : ''}</p>
+                                    </div>
+                                    <div className="text-right text-xs text-neutral-500 flex-shrink-0 ml-2">
+                                        <p className="font-bold" style={{ color: '#F97316' }}>{event.countAfter} days</p>
+                                        <p>{event.guardsAfter} guard{event.guardsAfter === 1 ? '' : 's'}</p>
+                                    </div>
+                                </div>
+                            ))}
+                        </>
+                    ) : top50.length === 0 ? (
                         <div className="text-center py-10 text-neutral-500">
                             <p>No active streaks in this area yet.</p>
                             <p className="text-sm">Be the first!</p>
@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { SupportTicket, User } from '../types';
+import { authFetch } from '../src/lib/authUtils';
+import { useToast } from '../context/ToastContext';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+/**
+ * Suspended / blocked account banner with the appeal form (one appeal per suspension)
+ */
+const SuspensionBanner: React.FC<{ user: User; note?: string; className?: string }> = ({ user, note, className = '' }) => {
+    const { showToast } = useToast();
+    const [appeal, setAppeal] = useState<SupportTicket | null>(null);
+    const [reason, setReason] = useState<string | undefined>(user.suspensionReason);
+    const [isWriting, setIsWriting] = useState(false);
+    const [message, setMessage] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const res = await authFetch(`${API_URL}/suspension`);
+                if (!res.ok) return;
+                const data = await res.json();
+                setAppeal(data.appeal || null);
+                setReason(data.reason);
+            } catch (e) {
+                console.error('Error loading suspension:', e);
+            }
+        };
+        load();
+    }, [user.id, user.userStatus]);
+
+    const handleSubmit = async () => {
+        setIsSubmitting(true);
+        try {
+            const res = await authFetch(`${API_URL}/suspension/appeal`, {
+                method: 'POST',
+                body: JSON.stringify({ message })
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.message || data.error || 'Could not submit your appeal');
+            setAppeal(data);
+            setIsWriting(false);
+            showToast('Appeal submitted. Our team will review it.', 'success');
+        } catch (e) {
+            showToast((e as Error).message, 'error');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className={`${user.userStatus === 'blocked' ? 'bg-red-700' : 'bg-red-500'} text-white p-4 rounded-lg flex items-start shadow-lg ${className}`}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 mr-3 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+            </svg>
+            <div className="flex-1 min-w-0">
+                <p className="font-bold text-lg uppercase">Account {user.userStatus}</p>
+                <p className="text-sm font-medium mb-1">
+                    Your account is {user.userStatus} until {user.suspendedUntil ? new Date(user.suspendedUntil).toLocaleString() : 'further notice'}.{note ? ` ${note}` : ''}
+                </p>
+                {reason && <p className="text-xs opacity-90 mb-1">Reason: {reason}</p>}
+
+                {appeal ? (
+                    <p className="text-xs font-semibold">
+                        {appeal.appeal?.decision === 'upheld'
+                            ? `Your appeal was reviewed and the ${user.userStatus === 'blocked' ? 'block' : 'suspension'} stays in place.`
+                            : `Appeal submitted (ticket #${appeal.id}). We'll notify you once it has been reviewed.`}
+                    </p>
+                ) : isWriting ? (
+                    <div className="mt-2 space-y-2">
+                        <textarea
+                            value={message}
+                            onChange={e => setMessage(e.target.value)}
+                            rows={3}
+                            placeholder="Tell us why the cancellations happened"
+                            className="w-full p-2 rounded-md text-sm text-neutral-900 bg-white"
+                        />
+                        <div className="flex gap-2">
+                            <button onClick={handleSubmit} disabled={isSubmitting || !message.trim()} className="px-3 py-1 rounded-md bg-white text-red-700 text-xs font-bold disabled:opacity-60">
+                                {isSubmitting ? 'Submitting...' : 'Submit Appeal'}
+                            </button>
+                            <button onClick={() => setIsWriting(false)} className="px-3 py-1 text-xs font-semibold underline">Cancel</button>
+                        </div>
+                    </div>
+                ) : (
+                    <p className="text-xs font-bold underline cursor-pointer" onClick={() => setIsWriting(true)}>
+                        Appeal this {user.userStatus === 'blocked' ? 'block' : 'suspension'}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SuspensionBanner;
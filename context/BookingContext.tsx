@@ -1,11 +1,12 @@
 import React, { createContext, useState, useContext, ReactNode, useMemo, useEffect } from 'react';
-import { Booking, DamageReport, Item, ItemCategory } from '../types';
+import { Booking, DamageReport, Item, RecurrenceRule } from '../types';
 import { useToast } from './ToastContext';
 import { useNotification } from './NotificationContext';
 import { useItem } from './ItemContext';
 import { useAdminAlert } from './AdminAlertContext';
 import { useAuth } from './AuthContext';
 import { auth, db } from '../src/lib/firebase';
+import { authFetch } from '../src/lib/authUtils';
 import { onSnapshot, collection, query, where, orderBy, limit, startAfter, getDocs, QueryDocumentSnapshot } from 'firebase/firestore';
 
 const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
@@ -16,18 +17,26 @@ interface BookingContextType {
     loadMoreBookings: () => Promise<void>;
     hasMoreBookings: boolean;
     isLoadingBookings: boolean;
-    addBooking: (bookingData: Omit<Booking, 'id'> | Omit<Booking, 'id'>[]) => void;
+    addBooking: (bookingData: Omit<Booking, 'id'> | Omit<Booking, 'id'>[], options?: { holdId?: string }) => Promise<boolean>;
     cancelBooking: (bookingId: string) => void;
     rejectBooking: (bookingId: string) => void;
     raiseDispute: (bookingId: string) => void;
     resolveDispute: (bookingId: string) => void;
     reportDamage: (report: Omit<DamageReport, 'id' | 'status' | 'timestamp'>) => void;
     resolveDamageClaim: (reportId: number) => void;
-    acceptBookingRequest: (bookingId: string, supplierId: string, itemId: number, options?: { operateSelf?: boolean, quantityToProvide?: number }) => boolean;
+    acceptBookingRequest: (bookingId: string, supplierId: string, itemId: number, options?: { operateSelf?: boolean, quantityToProvide?: number, shareAmount?: number }) => boolean;
+    respondToDispatchOffer: (bookingId: string, accept: boolean) => Promise<boolean>;
+    addBookingSeries: (bookingData: Omit<Booking, 'id'>, recurrence: RecurrenceRule) => Promise<boolean>;
+    cancelBookingSeries: (recurrenceId: string) => Promise<boolean>;
+    rescheduleBookingSeries: (recurrenceId: string, changes: { startTime?: string; shiftDays?: number }) => Promise<boolean>;
+    acceptBookingSeries: (recurrenceId: string, itemId: number, bookingIds?: string[]) => Promise<boolean>;
+    acceptBookingShare: (parentId: string, itemId: number, amount: number) => Promise<boolean>;
+    cancelSplitBooking: (parentId: string) => Promise<boolean>;
+    submitMeasuredAcres: (bookingId: string, measurement: { acres: number } | { boundary: { lat: number; lng: number }[] }) => Promise<boolean>;
+    reviewMeasuredAcres: (bookingId: string, approve: boolean) => Promise<boolean>;
     markAsArrived: (bookingId: string) => void;
     verifyOtpAndStartWork: (bookingId: string, otp: string) => void;
     completeBooking: (bookingId: string) => void;
-    makeFinalPayment: (bookingId: string, method?: 'Cash' | 'Online') => void;
 }
 
 const BookingContext = createContext<BookingContextType | undefined>(undefined);
@@ -39,57 +48,14 @@ const generateBookingId = () => {
     return `AGB-${part1}-${part2}`;
 };
 
-const getDurationInHours = (startTime: string, endTime?: string, estimatedDuration?: number): number => {
-    // If estimated duration is provided, use it
-    if (estimatedDuration) return estimatedDuration;
-
-    // Fallback to old endTime calculation if needed
-    if (!startTime || !endTime) return 3; // Default fallback
-    const start = new Date(`1970-01-01T${startTime}:00`);
-    const end = new Date(`1970-01-01T${endTime}:00`);
-    const diffMs = end.getTime() - start.getTime();
-    const hours = diffMs / (1000 * 60 * 60);
-    return hours > 0 ? hours : 3; // Fallback if invalid
-}
-
-// Maximum daily working hours per equipment category
-const MAX_DAILY_WORKING_HOURS: Record<string, number> = {
-    'Tractors': 12,
-    'Drones': 12,
-    'Harvesters': 16,
-    'Borewell': 16,
-    'Workers': 13, // 6 AM to 7 PM
-    'default': 12
-};
-
-// Helper to calculate already booked hours for a supplier/item on a specific date
-const getBookedHoursForDate = (
-    bookings: Booking[],
-    supplierId: string,
-    itemId: number,
-    date: string
-): number => {
-    const activeStatuses = ['Confirmed', 'In Process', 'Arrived', 'Pending Payment'];
-    const relevantBookings = bookings.filter(b =>
-        b.supplierId === supplierId &&
-        b.itemId === itemId &&
-        b.date === date &&
-        activeStatuses.includes(b.status)
-    );
-
-    return relevantBookings.reduce((total, b) => {
-        return total + (b.estimatedDuration || 3); // Default 3 hours if not specified
-    }, 0);
-};
-
 export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [bookings, setBookings] = useState<Booking[]>([]);
     const [damageReports, setDamageReports] = useState<DamageReport[]>([]);
     const { showToast } = useToast();
     const { addNotification } = useNotification();
     const { addAlert } = useAdminAlert();
-    const { items, updateItem } = useItem();
-    const { allUsers } = useAuth();
+    const { items } = useItem();
+    const { user } = useAuth();
 
     const [lastVisible, setLastVisible] = useState<QueryDocumentSnapshot | null>(null);
     const [hasMoreBookings, setHasMoreBookings] = useState(true);
@@ -226,9 +192,8 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
                 // Trigger backend cancellation if not already cancelled
                 // Note: This might race if multiple clients run it, but backend should handle idempotency.
                 // Ideally backend handles cron jobs. Frontend doing this is a fallback.
-                await fetch(`${API_URL}/bookings/${booking.id}`, {
+                await authFetch(`${API_URL}/bookings/${booking.id}`, {
                     method: 'PUT',
-                    headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({ status: 'Expired' })
                 });
             }
@@ -270,7 +235,8 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
         loadReports();
     }, []);
 
-    const addBooking = async (newBookingsData: Omit<Booking, 'id'> | Omit<Booking, 'id'>[]) => {
+    // holdId: the slot hold placed from the booking form, released by the server once the booking exists
+    const addBooking = async (newBookingsData: Omit<Booking, 'id'> | Omit<Booking, 'id'>[], options?: { holdId?: string }): Promise<boolean> => {
         const bookingsDataToAdd = Array.isArray(newBookingsData) ? newBookingsData : [newBookingsData];
 
         const bookingsToAdd: Booking[] = bookingsDataToAdd.map(data => ({
@@ -278,17 +244,17 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
             id: generateBookingId(),
         }));
         try {
-            const res = await fetch(`${API_URL}/bookings`, {
+            const res = await authFetch(`${API_URL}/bookings`, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(bookingsToAdd)
+                body: JSON.stringify(options?.holdId ? bookingsToAdd.map((b, i) => i === 0 ? { ...b, holdId: options.holdId } : b) : bookingsToAdd)
             });
-            if (!res.ok) throw new Error('Failed');
-            // Optimistic update or refetch? Let's refetch or just add to state
-            setBookings(prev => [...bookingsToAdd, ...prev]);
-        } catch {
-            showToast('Failed to create booking.', 'error');
-            return;
+            const data = await res.json().catch(() => null);
+            if (!res.ok) throw new Error(data?.message || 'Failed to create booking.');
+            // The server fills in coupon discounts, so keep its copy
+            setBookings(prev => [...(Array.isArray(data) ? data : bookingsToAdd), ...prev]);
+        } catch (e) {
+            showToast((e as Error).message || 'Failed to create booking.', 'error');
+            return false;
         }
 
         const firstBooking = bookingsDataToAdd[0];
@@ -300,6 +266,7 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
         }
 
         showToast(message, 'success');
+        return true;
     };
 
     useEffect(() => {
@@ -314,9 +281,8 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
                 if (diff > 30 * 60 * 1000) {
                     // Mark as late start if not already
                     if (!b.lateStart) {
-                        await fetch(`${API_URL}/bookings/${b.id}`, {
+                        await authFetch(`${API_URL}/bookings/${b.id}`, {
                             method: 'PUT',
-                            headers: { 'Content-Type': 'application/json' },
                             body: JSON.stringify({ lateStart: true })
                         });
                         // Notify Admin
@@ -371,9 +337,8 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
             return;
         }
 
-        fetch(`${API_URL}/bookings/${bookingId}`, {
+        authFetch(`${API_URL}/bookings/${bookingId}`, {
             method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ status: 'Searching', isRebroadcast: true, supplierId: null, itemId: null })
         });
         showToast("Booking rejected. It is now a broadcast to all suppliers.", "info");
@@ -431,215 +396,260 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
             }
         }
 
-        fetch(`${API_URL}/bookings/${bookingId}`, {
+        authFetch(`${API_URL}/bookings/${bookingId}`, {
             method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ status: 'Cancelled' })
         });
         setBookings(prev => prev.map(b => b.id === bookingId ? { ...b, status: 'Cancelled' } : b));
         showToast('Booking has been cancelled.', 'warning');
     };
 
-    const acceptBookingRequest = async (bookingId: string, supplierId: string, itemId: number, options?: { operateSelf?: boolean; quantityToProvide?: number }): Promise<boolean> => {
-        // 1. FRESH FETCH to check current status on server (Race Condition Prevention)
+    const acceptBookingRequest = async (bookingId: string, supplierId: string, itemId: number, options?: { operateSelf?: boolean; quantityToProvide?: number; shareAmount?: number }): Promise<boolean> => {
+        const booking = bookings.find(b => b.id === bookingId);
+        if (!booking) return false;
+
+        // Split bookings are divided on the server, which creates this supplier's share
+        if (booking.status === 'Searching' && booking.splitTotal !== undefined) {
+            return acceptBookingShare(bookingId, itemId, options?.shareAmount || 0);
+        }
+
+        // The server prices the job for the item and takes it only if it is still open
         try {
-            const checkRes = await fetch(`${API_URL}/bookings/${bookingId}`);
-            if (!checkRes.ok) throw new Error('Fetch failed');
-            const freshBooking: Booking = await checkRes.json();
-
-            if (!['Searching', 'Awaiting Operator', 'Pending Confirmation'].includes(freshBooking.status)) {
-                showToast('This job has already been taken by another supplier.', 'error');
-                // Refresh local state to reflect reality
-                setBookings(prev => prev.map(b => b.id === bookingId ? freshBooking : b));
+            const res = await authFetch(`${API_URL}/bookings/${bookingId}/accept`, {
+                method: 'POST',
+                body: JSON.stringify({ itemId, ...(options?.operateSelf !== undefined ? { operateSelf: options.operateSelf } : {}) })
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) {
+                showToast(data.message || 'Could not accept this job.', 'error');
                 return false;
             }
+            const accepted = data as Booking;
+            setBookings(prev => prev.map(b => b.id === bookingId ? accepted : b));
+            showToast(booking.status === 'Awaiting Operator' ? 'Operator job confirmed!'
+                : accepted.status === 'Awaiting Operator' ? 'Machine confirmed. Broadcasting request for operator.'
+                    : 'Job accepted! The farmer has been notified.', 'success');
+            return true;
         } catch (e) {
-            console.error("Failed to verify booking status", e);
-            // Proceed with caution or block? Let's block to be safe.
+            console.error('Failed to accept booking', e);
             showToast('Connection error. Please try again.', 'error');
             return false;
         }
+    };
 
-        const booking = bookings.find(b => b.id === bookingId);
-        if (!booking) return false;
-
-        const item = items.find(i => i.id === itemId);
-        if (!item || !item.available) {
-            showToast('Selected item is not available.', 'error');
-            return false;
-        }
-
-        const duration = Math.max(1, getDurationInHours(booking.startTime, undefined, booking.estimatedDuration));
-
-        // --- DAILY WORKING HOURS LIMIT CHECK ---
-        // Skip for Agent/AgentPro suppliers (managed by founder, no limits)
-        const supplier = items.find(i => i.id === itemId);
-        const supplierUser = supplier ? allUsers.find(u => u.id === supplier.ownerId) : null;
-        const isAgentSupplier = supplierUser?.role === 'Agent' || supplierUser?.role === 'AgentPro';
-
-        if (!isAgentSupplier) {
-            const bookingDate = booking.date || new Date().toISOString().split('T')[0];
-            const alreadyBookedHours = getBookedHoursForDate(bookings, supplierId, itemId, bookingDate);
-            const maxHours = MAX_DAILY_WORKING_HOURS[item.category] || MAX_DAILY_WORKING_HOURS['default'];
-            const remainingHours = maxHours - alreadyBookedHours;
-
-            if (duration > remainingHours) {
-                if (remainingHours <= 0) {
-                    showToast(`You have reached the maximum ${maxHours} working hours for this ${item.category} on ${bookingDate}. Cannot accept more bookings.`, 'error');
-                } else {
-                    showToast(`This booking requires ${duration} hours, but you only have ${remainingHours.toFixed(1)} hours remaining for ${bookingDate}. Max daily limit: ${maxHours} hours.`, 'error');
-                }
+    const respondToDispatchOffer = async (bookingId: string, accept: boolean): Promise<boolean> => {
+        try {
+            const res = await authFetch(`${API_URL}/bookings/${bookingId}/offers/${accept ? 'accept' : 'decline'}`, { method: 'POST' });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) {
+                showToast(data.message || 'Could not respond to this offer.', 'error');
                 return false;
             }
+            if (accept) {
+                setBookings(prev => prev.map(b => b.id === bookingId ? data as Booking : b));
+                showToast('Job accepted! The farmer has been notified.', 'success');
+            } else {
+                setBookings(prev => prev.map(b => b.id === bookingId
+                    ? { ...b, dispatchOffers: b.dispatchOffers?.map(o => o.supplierId === user?.id && o.status === 'pending' ? { ...o, status: 'declined' as const } : o) }
+                    : b));
+                showToast('Offer declined.', 'info');
+            }
+            return true;
+        } catch (e) {
+            console.error('Failed to respond to dispatch offer', e);
+            showToast('Connection error. Please try again.', 'error');
+            return false;
         }
+    };
 
-        const surgeMultiplier = (() => {
-            const month = new Date(booking.date || new Date().toISOString()).getMonth() + 1;
-            let base = 1;
-            if ([9, 10, 11].includes(month)) base = 1.25;
-            if ([3, 4, 5].includes(month)) base = Math.max(base, 1.15);
-            const demand = bookings.filter(b => b.itemCategory === booking.itemCategory && b.status === 'Searching' && b.location === booking.location).length;
-            if (demand > 10) base = Math.max(base, 1.4);
-            else if (demand > 5) base = Math.max(base, 1.25);
-            return base;
-        })();
-        const machineCategories = [ItemCategory.Tractors, ItemCategory.Harvesters, ItemCategory.JCB, ItemCategory.Borewell];
-
-        // --- Case 1: Driver accepts an 'Awaiting Operator' booking ---
-        if (booking.status === 'Awaiting Operator' && item.category === ItemCategory.Drivers) {
-            const driverItem = item;
-            const machineItem = items.find(i => i.id === booking.itemId);
-            const driverPrice = driverItem.purposes[0]?.price || 0;
-
-            fetch(`${API_URL}/bookings/${bookingId}`, {
-                method: 'PUT',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ status: 'Confirmed', operatorId: supplierId, finalPrice: booking.finalPrice! + (driverPrice * duration) })
-            });
-            updateItem({ ...driverItem, available: false });
+    // Replace local copies with the server's version of the occurrences a series action touched
+    const mergeBookings = (updated: Booking[]) => {
+        const byId = new Map(updated.map(b => [b.id, b]));
+        setBookings(prev => prev.map(b => byId.get(b.id) || b));
+    };
 
-            showToast('Operator job confirmed!', 'success');
-            addNotification({ userId: booking.farmerId, message: `An operator has been found for your ${machineItem?.name} booking!`, type: 'booking' });
-            if (booking.supplierId) {
-                addNotification({ userId: booking.supplierId, message: `A driver has accepted the operator job for booking ${booking.id}.`, type: 'booking' });
-            }
+    const addBookingSeries = async (bookingData: Omit<Booking, 'id'>, recurrence: RecurrenceRule): Promise<boolean> => {
+        try {
+            const res = await authFetch(`${API_URL}/booking-series`, {
+                method: 'POST',
+                body: JSON.stringify({ booking: bookingData, recurrence })
+            });
+            const data = await res.json().catch(() => null);
+            if (!res.ok) throw new Error(data?.message || 'Failed to create booking series.');
+            setBookings(prev => [...(data as Booking[]), ...prev]);
+            showToast(`Request sent for ${(data as Booking[]).length} dates!`, 'success');
             return true;
+        } catch (e) {
+            showToast((e as Error).message || 'Failed to create booking series.', 'error');
+            return false;
         }
+    };
 
-        // --- Case 2: Specific supplier confirms a 'Pending Confirmation' booking ---
-        if (booking.status === 'Pending Confirmation') {
-            const purposeDetails = item.purposes.find(p => p.name === booking.workPurpose);
-            if (!purposeDetails) {
-                showToast('This item does not support the requested work purpose.', 'error');
+    const cancelBookingSeries = async (recurrenceId: string): Promise<boolean> => {
+        try {
+            const res = await authFetch(`${API_URL}/booking-series/${recurrenceId}/cancel`, { method: 'POST' });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) {
+                showToast(data.message || 'Could not cancel this series.', 'error');
                 return false;
             }
-            const finalPrice = Math.round(((purposeDetails.price * duration) + ((booking.operatorRequired && item.operatorCharge) ? (item.operatorCharge * duration) : 0)) * surgeMultiplier);
+            mergeBookings(data as Booking[]);
+            showToast(`${(data as Booking[]).length} upcoming bookings cancelled.`, 'info');
+            return true;
+        } catch (e) {
+            console.error('Failed to cancel booking series', e);
+            showToast('Connection error. Please try again.', 'error');
+            return false;
+        }
+    };
 
-            fetch(`${API_URL}/bookings/${bookingId}`, {
-                method: 'PUT',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ status: 'Confirmed', finalPrice })
+    const rescheduleBookingSeries = async (recurrenceId: string, changes: { startTime?: string; shiftDays?: number }): Promise<boolean> => {
+        try {
+            const res = await authFetch(`${API_URL}/booking-series/${recurrenceId}/reschedule`, {
+                method: 'POST',
+                body: JSON.stringify(changes)
             });
-            updateItem({ ...item, available: false });
-            showToast('Direct request confirmed!', 'success');
-            addNotification({ userId: booking.farmerId, message: `Your request for ${item.name} has been confirmed!`, type: 'booking' });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) {
+                showToast(data.message || 'Could not reschedule this series.', 'error');
+                return false;
+            }
+            mergeBookings(data as Booking[]);
+            showToast(`${(data as Booking[]).length} upcoming bookings rescheduled.`, 'success');
             return true;
+        } catch (e) {
+            console.error('Failed to reschedule booking series', e);
+            showToast('Connection error. Please try again.', 'error');
+            return false;
         }
+    };
 
-
-        // --- Case 3: Standard 'Searching' booking acceptance ---
-        if (booking.status === 'Searching') {
-            const purposeDetails = item.purposes.find(p => p.name === booking.workPurpose);
-            if (!purposeDetails) {
-                showToast('The selected item does not support the requested work purpose.', 'error');
+    const acceptBookingSeries = async (recurrenceId: string, itemId: number, bookingIds?: string[]): Promise<boolean> => {
+        try {
+            const res = await authFetch(`${API_URL}/booking-series/${recurrenceId}/accept`, {
+                method: 'POST',
+                body: JSON.stringify({ itemId, ...(bookingIds ? { bookingIds } : {}) })
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) {
+                showToast(data.message || 'Could not accept this series.', 'error');
                 return false;
             }
-            const priceForPurpose = purposeDetails.price;
-
-            const isMachineWithOp = machineCategories.includes(item.category) && booking.operatorRequired;
-
-            if (isMachineWithOp && options?.operateSelf === false) {
-                const updatedBooking: Booking = {
-                    ...booking,
-                    status: 'Awaiting Operator',
-                    supplierId: supplierId,
-                    itemId: itemId,
-                    finalPrice: Math.round(priceForPurpose * duration * surgeMultiplier),
-                };
-                setBookings(prev => prev.map(b => b.id === bookingId ? updatedBooking : b));
-                updateItem({ ...item, available: false });
-                showToast('Machine confirmed. Broadcasting request for operator.', 'success');
-                addNotification({ userId: booking.farmerId, message: `${item.name} is confirmed for your booking. We are now finding a driver.`, type: 'booking' });
-                return true;
+            const { accepted, skipped } = data as { accepted: Booking[]; skipped: { date: string; reason: string }[] };
+            mergeBookings(accepted);
+            if (skipped.length > 0) {
+                showToast(`Accepted ${accepted.length} dates. Skipped ${skipped.map(s => `${s.date} (${s.reason})`).join(', ')}.`, accepted.length > 0 ? 'warning' : 'error');
+            } else {
+                showToast(`All ${accepted.length} dates accepted! The farmer has been notified.`, 'success');
             }
+            return accepted.length > 0;
+        } catch (e) {
+            console.error('Failed to accept booking series', e);
+            showToast('Connection error. Please try again.', 'error');
+            return false;
+        }
+    };
 
-            const quantityToConfirm = options?.quantityToProvide || booking.quantity || 1;
-            if ((item.quantityAvailable || 0) < quantityToConfirm && booking.quantity) {
-                showToast('Selected item does not have enough quantity.', 'error');
+    const acceptBookingShare = async (parentId: string, itemId: number, amount: number): Promise<boolean> => {
+        try {
+            const res = await authFetch(`${API_URL}/bookings/${parentId}/shares`, {
+                method: 'POST',
+                body: JSON.stringify({ itemId, amount })
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) {
+                showToast(data.message || 'Could not take a share of this job.', 'error');
                 return false;
             }
+            const { share, parent } = data as { share: Booking; parent: Booking };
+            setBookings(prev => [share, ...prev.map(b => b.id === parent.id ? parent : b)]);
+            showToast(`You took ${share.shareAmount} ${parent.splitUnit} of this job! The farmer has been notified.`, 'success');
+            return true;
+        } catch (e) {
+            console.error('Failed to accept booking share', e);
+            showToast('Connection error. Please try again.', 'error');
+            return false;
+        }
+    };
 
-            const isPartial = booking.allowMultipleSuppliers && booking.quantity && quantityToConfirm < booking.quantity;
-
-            const newConfirmedBooking: Booking = {
-                ...booking,
-                id: isPartial ? generateBookingId() : booking.id, // Keep ID if not partial
-                supplierId,
-                itemId,
-                status: 'Confirmed',
-                quantity: quantityToConfirm,
-                operatorId: (isMachineWithOp && options?.operateSelf === true) ? supplierId : undefined,
-                finalPrice: Math.round(((priceForPurpose * quantityToConfirm * duration) + ((booking.operatorRequired && item.operatorCharge) ? (item.operatorCharge * duration) : 0)) * surgeMultiplier),
-                allowMultipleSuppliers: false,
-            };
-
-            const updatedItem = { ...item };
-            if (updatedItem.quantityAvailable != null) {
-                updatedItem.quantityAvailable -= quantityToConfirm;
-                if (updatedItem.quantityAvailable <= 0) updatedItem.available = false;
-            } else {
-                updatedItem.available = false;
+    // Per-acre jobs: the supplier reports the acres worked and the farmer approves the new price
+    const submitMeasuredAcres = async (bookingId: string, measurement: { acres: number } | { boundary: { lat: number; lng: number }[] }): Promise<boolean> => {
+        try {
+            const res = await authFetch(`${API_URL}/bookings/${bookingId}/measured-acres`, {
+                method: 'POST',
+                body: JSON.stringify(measurement)
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) {
+                showToast(data.message || 'Could not record the acres.', 'error');
+                return false;
             }
-            updateItem(updatedItem);
+            const updated = data as Booking;
+            mergeBookings([updated]);
+            showToast(updated.acreMeasurementStatus === 'pending'
+                ? `${updated.measuredAcres} acres recorded. Waiting for the farmer to approve ₹${updated.proposedFinalPrice?.toLocaleString()}.`
+                : `${updated.measuredAcres} acres recorded. The price is unchanged.`, 'success');
+            return true;
+        } catch (e) {
+            console.error('Failed to submit measured acres', e);
+            showToast('Connection error. Please try again.', 'error');
+            return false;
+        }
+    };
 
-            fetch(`${API_URL}/bookings`, {
+    const reviewMeasuredAcres = async (bookingId: string, approve: boolean): Promise<boolean> => {
+        try {
+            const res = await authFetch(`${API_URL}/bookings/${bookingId}/measured-acres/review`, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify([newConfirmedBooking])
+                body: JSON.stringify({ approve })
             });
-            if (isPartial) {
-                const remainingBooking: Booking = {
-                    ...booking,
-                    quantity: booking.quantity! - quantityToConfirm,
-                };
-                fetch(`${API_URL}/bookings`, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify([remainingBooking])
-                });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) {
+                showToast(data.message || 'Could not save your answer.', 'error');
+                return false;
             }
-
-            addNotification({ userId: booking.farmerId, message: `Your request for ${item.name} has been confirmed!`, type: 'booking' });
-            showToast('Job accepted! The farmer has been notified.', 'success');
+            mergeBookings([data as Booking]);
+            showToast(approve ? 'Measured acres approved. The final price has been updated.' : 'Measured acres rejected. The booked price stays.', 'info');
             return true;
+        } catch (e) {
+            console.error('Failed to review measured acres', e);
+            showToast('Connection error. Please try again.', 'error');
+            return false;
         }
+    };
 
-        return false;
+    const cancelSplitBooking = async (parentId: string): Promise<boolean> => {
+        try {
+            const res = await authFetch(`${API_URL}/bookings/${parentId}/split/cancel`, { method: 'POST' });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) {
+                showToast(data.message || 'Could not cancel this booking.', 'error');
+                return false;
+            }
+            const { parent, shares } = data as { parent: Booking; shares: Booking[] };
+            mergeBookings([parent, ...shares]);
+            showToast(parent.status === 'Cancelled'
+                ? 'Booking cancelled.'
+                : `Unstarted shares cancelled. Work already under way on ${parent.splitTotal} ${parent.splitUnit} continues.`, 'info');
+            return true;
+        } catch (e) {
+            console.error('Failed to cancel split booking', e);
+            showToast('Connection error. Please try again.', 'error');
+            return false;
+        }
     };
 
     const raiseDispute = (bookingId: string) => {
-        fetch(`${API_URL}/bookings/${bookingId}`, {
+        authFetch(`${API_URL}/bookings/${bookingId}`, {
             method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ disputeRaised: true })
         });
         showToast('Dispute has been raised. Admin will review it shortly.', 'info');
     };
 
     const resolveDispute = (bookingId: string) => {
-        fetch(`${API_URL}/bookings/${bookingId}`, {
+        authFetch(`${API_URL}/bookings/${bookingId}`, {
             method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ disputeResolved: true })
         });
         showToast('Dispute marked as resolved.', 'success');
@@ -659,9 +669,8 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
                 body: JSON.stringify(newReport)
             });
             if (!res.ok) throw new Error('Failed');
-            await fetch(`${API_URL}/bookings/${reportData.bookingId}`, {
+            await authFetch(`${API_URL}/bookings/${reportData.bookingId}`, {
                 method: 'PUT',
-                headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ damageReported: true })
             });
             showToast('Damage report submitted to admin.', 'success');
@@ -693,9 +702,8 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
         if (!booking) return;
 
         const otp = generateOtp();
-        fetch(`${API_URL}/bookings/${bookingId}`, {
+        authFetch(`${API_URL}/bookings/${bookingId}`, {
             method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ status: 'Arrived', otpCode: otp, otpVerified: false })
         });
         setBookings(prev => prev.map(b => b.id === bookingId ? { ...b, status: 'Arrived', otpCode: otp, otpVerified: false } : b));
@@ -714,9 +722,8 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
             showToast('Invalid OTP. Please try again.', 'error');
             return;
         }
-        fetch(`${API_URL}/bookings/${bookingId}`, {
+        authFetch(`${API_URL}/bookings/${bookingId}`, {
             method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ status: 'In Process', otpVerified: true, workStartTime: new Date().toISOString() })
         });
         setBookings(prev => prev.map(b => b.id === bookingId ? { ...b, status: 'In Process', otpVerified: true, workStartTime: new Date().toISOString() } : b));
@@ -745,22 +752,20 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
             paymentDate: new Date().toISOString()
         };
 
-        // If paid in full upfront, mark as completed directly.
+        // If paid in full upfront, mark as completed directly (the server records the payment split).
         if (booking.advanceAmount && booking.estimatedPrice && booking.advanceAmount === booking.estimatedPrice) {
-            fetch(`${API_URL}/bookings/${bookingId}`, {
+            authFetch(`${API_URL}/bookings/${bookingId}`, {
                 method: 'PUT',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ status: 'Completed', finalPrice: booking.estimatedPrice, finalPaymentId: booking.advancePaymentId, farmerPaymentAmount: finalPrice, supplierPaymentAmount: supplierPaymentAmount, adminCommission: adminCommission, paymentDetails: paymentDetails })
+                body: JSON.stringify({ status: 'Completed' })
             });
             showToast('Work completed and already paid in full!', 'success');
             if (booking.supplierId) {
                 addNotification({ userId: booking.supplierId, message: `Work for booking #${bookingId.substring(0, 5)} is complete. Payment of ₹${supplierPaymentAmount} will be processed.`, type: 'booking' });
             }
         } else { // Otherwise, move to pending payment
-            fetch(`${API_URL}/bookings/${bookingId}`, {
+            authFetch(`${API_URL}/bookings/${bookingId}`, {
                 method: 'PUT',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ status: 'Pending Payment', finalPrice: finalPrice, farmerPaymentAmount: finalPrice, supplierPaymentAmount: supplierPaymentAmount, adminCommission: adminCommission, paymentDetails: paymentDetails })
+                body: JSON.stringify({ status: 'Pending Payment' })
             });
             setBookings(prev => prev.map(b => b.id === bookingId ? { ...b, status: 'Pending Payment', finalPrice: finalPrice, paymentDetails: paymentDetails } : b));
             showToast('Work marked as completed! Please proceed to final payment.', 'success');
@@ -770,48 +775,7 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
         }
     };
 
-    const recentPaymentTimestamps: number[] = [];
-
-    const makeFinalPayment = (bookingId: string, method: 'Cash' | 'Online' = 'Cash') => {
-        const booking = bookings.find(b => b.id === bookingId);
-        if (!booking || booking.status !== 'Pending Payment') {
-            showToast("Cannot make final payment for this booking.", "error");
-            return;
-        }
-
-        const finalPrice = booking.finalPrice || booking.estimatedPrice || 0;
-        const adminCommission = 0; // 0% commission
-        const supplierPaymentAmount = finalPrice;
-
-        const paymentDetails = {
-            farmerAmount: finalPrice,
-            supplierAmount: supplierPaymentAmount,
-            commission: adminCommission,
-            totalAmount: finalPrice,
-            paymentDate: new Date().toISOString(),
-            method
-        };
-
-        fetch(`${API_URL}/bookings/${bookingId}`, {
-            method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ status: 'Completed', finalPaymentId: method === 'Cash' ? `cash_${Date.now()}` : `final_pay_${Date.now()}`, paymentMethod: method, farmerPaymentAmount: finalPrice, supplierPaymentAmount: supplierPaymentAmount, adminCommission: adminCommission, paymentDetails: paymentDetails })
-        });
-        setBookings(prev => prev.map(b => b.id === bookingId ? { ...b, status: 'Completed', paymentDetails: paymentDetails } : b));
-        showToast(method === 'Cash' ? 'Cash payment recorded! Booking completed.' : 'Final payment successful! Your booking is complete.', 'success');
-        if (booking.supplierId) {
-            addNotification({ userId: booking.supplierId, message: `${method === 'Cash' ? 'Cash' : 'Online'} payment received for booking #${bookingId.substring(0, 5)}. Supplier payout: ₹${supplierPaymentAmount}.`, type: 'booking' });
-        }
-        const now = Date.now();
-        recentPaymentTimestamps.push(now);
-        const windowStart = now - 10 * 60 * 1000;
-        const recent = recentPaymentTimestamps.filter(ts => ts >= windowStart);
-        if (recent.length >= 10) {
-            addNotification({ userId: '0', message: 'Payment attempts spike detected in the last 10 minutes.', type: 'admin' });
-        }
-    };
-
-    const value = useMemo(() => ({ bookings, damageReports, loadMoreBookings, hasMoreBookings, isLoadingBookings, addBooking, cancelBooking, rejectBooking, raiseDispute, resolveDispute, reportDamage, resolveDamageClaim, acceptBookingRequest, markAsArrived, verifyOtpAndStartWork, completeBooking, makeFinalPayment }), [bookings, damageReports, hasMoreBookings, isLoadingBookings, items, updateItem, showToast, addNotification]);
+    const value = useMemo(() => ({ bookings, damageReports, loadMoreBookings, hasMoreBookings, isLoadingBookings, addBooking, cancelBooking, rejectBooking, raiseDispute, resolveDispute, reportDamage, resolveDamageClaim, acceptBookingRequest, respondToDispatchOffer, addBookingSeries, cancelBookingSeries, rescheduleBookingSeries, acceptBookingSeries, acceptBookingShare, cancelSplitBooking, submitMeasuredAcres, reviewMeasuredAcres, markAsArrived, verifyOtpAndStartWork, completeBooking }), [bookings, damageReports, hasMoreBookings, isLoadingBookings, items, showToast, addNotification]);
 
     return (
         <BookingContext.Provider value={value}>
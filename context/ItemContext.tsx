@@ -4,11 +4,12 @@
 // would in turn query your PostgreSQL database hosted on a service like Render.
 
 import React, { createContext, useState, useContext, ReactNode, useMemo, useEffect } from 'react';
-import { Item, UserRole } from '../types';
+import { Item, ItemAvailability, MaintenanceRecordType, MaintenancePart, UserRole } from '../types';
 import { useToast } from './ToastContext';
 import { useNotification } from './NotificationContext';
 import { auth, db } from '../src/lib/firebase';
 import { onSnapshot, collection, query, where, limit, orderBy, startAfter, getDocs, QueryDocumentSnapshot } from 'firebase/firestore';
+import { authFetch } from '../src/lib/authUtils';
 
 const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -22,6 +23,24 @@ interface ItemContextType {
     deleteItem: (itemId: number) => void;
     approveItem: (itemId: number) => void;
     rejectItem: (itemId: number) => void;
+    saveItemAvailability: (itemId: number, availability: ItemAvailability) => Promise<boolean>;
+    saveServicePlan: (itemId: number, plan: ServicePlan) => Promise<boolean>;
+    logMaintenance: (itemId: number, entry: MaintenanceEntry) => Promise<boolean>;
+    deleteMaintenanceRecord: (itemId: number, recordId: string) => Promise<boolean>;
+}
+
+export interface ServicePlan {
+    initialEngineHours: number | null;
+    serviceIntervalHours: number | null;
+}
+
+export interface MaintenanceEntry {
+    type: MaintenanceRecordType;
+    date: string;
+    description: string;
+    parts: MaintenancePart[];
+    labourCost: number;
+    downtime?: { startTime?: string; endTime?: string };
 }
 
 const ItemContext = createContext<ItemContextType | undefined>(undefined);
@@ -205,8 +224,74 @@ export const ItemProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         }
     };
 
+    // Working hours, off-days and maintenance are validated by their own endpoint
+    const saveItemAvailability = async (itemId: number, availability: ItemAvailability): Promise<boolean> => {
+        try {
+            const res = await authFetch(`${API_URL}/items/${itemId}/availability`, {
+                method: 'PUT',
+                body: JSON.stringify(availability)
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.message || 'Failed to save the calendar.');
+            setItems(prev => prev.map(i => i.id === itemId ? data : i));
+            showToast('Calendar saved.', 'success');
+            return true;
+        } catch (e) {
+            showToast((e as Error).message, 'error');
+            return false;
+        }
+    };
+
+    const saveServicePlan = async (itemId: number, plan: ServicePlan): Promise<boolean> => {
+        try {
+            const res = await authFetch(`${API_URL}/items/${itemId}/maintenance/plan`, {
+                method: 'PUT',
+                body: JSON.stringify(plan)
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.message || 'Failed to save the service plan.');
+            setItems(prev => prev.map(i => i.id === itemId ? data : i));
+            showToast('Service plan saved.', 'success');
+            return true;
+        } catch (e) {
+            showToast((e as Error).message, 'error');
+            return false;
+        }
+    };
+
+    // Logged downtime changes the item's calendar, so the item is replaced with the server's copy
+    const logMaintenance = async (itemId: number, entry: MaintenanceEntry): Promise<boolean> => {
+        try {
+            const res = await authFetch(`${API_URL}/items/${itemId}/maintenance`, {
+                method: 'POST',
+                body: JSON.stringify(entry)
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.message || 'Failed to log maintenance.');
+            setItems(prev => prev.map(i => i.id === itemId ? data.item : i));
+            showToast(entry.downtime ? 'Maintenance logged and downtime blocked.' : 'Maintenance logged.', 'success');
+            return true;
+        } catch (e) {
+            showToast((e as Error).message, 'error');
+            return false;
+        }
+    };
+
+    const deleteMaintenanceRecord = async (itemId: number, recordId: string): Promise<boolean> => {
+        try {
+            const res = await authFetch(`${API_URL}/items/${itemId}/maintenance/${recordId}`, { method: 'DELETE' });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.message || 'Failed to delete the record.');
+            setItems(prev => prev.map(i => i.id === itemId ? data : i));
+            showToast('Maintenance record deleted.', 'success');
+            return true;
+        } catch (e) {
+            showToast((e as Error).message, 'error');
+            return false;
+        }
+    };
 
-    const value = useMemo(() => ({ items, loadMoreItems, hasMoreItems, isLoadingItems, addItem, updateItem, deleteItem, approveItem, rejectItem }), [items, hasMoreItems, isLoadingItems]);
+    const value = useMemo(() => ({ items, loadMoreItems, hasMoreItems, isLoadingItems, addItem, updateItem, deleteItem, approveItem, rejectItem, saveItemAvailability, saveServicePlan, logMaintenance, deleteMaintenanceRecord }), [items, hasMoreItems, isLoadingItems]);
 
     return (
         <ItemContext.Provider value={value}>
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { authFetch } from '../src/lib/authUtils';
+import { BookingQuote, ItemCategory, WorkPurpose } from '../types';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+// Typing in the duration or acres shouldn't fire a request per keystroke
+const QUOTE_DEBOUNCE_MS = 400;
+
+export interface BookingQuoteRequest {
+    itemCategory: ItemCategory;
+    workPurpose: WorkPurpose;
+    itemId?: number;
+    date?: string;
+    estimatedDuration: number;
+    acres?: number;
+    quantity?: number;
+    operatorRequired?: boolean;
+    locationCoords?: { lat: number; lng: number };
+    couponCode?: string;
+}
+
+/**
+ * Server quote for the booking being filled in, refreshed as the request changes.
+ * Pass null while the form is incomplete. The last good quote stays visible while the
+ * next one loads; `error` is set when the request can't be priced at all.
+ */
+export const useBookingQuote = (request: BookingQuoteRequest | null) => {
+    const [quote, setQuote] = useState<BookingQuote | null>(null);
+    const [isQuoting, setIsQuoting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const key = request ? JSON.stringify(request) : '';
+
+    useEffect(() => {
+        if (!key) {
+            setQuote(null);
+            setError(null);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            setIsQuoting(true);
+            try {
+                const res = await authFetch(`${API_URL}/quotes`, { method: 'POST', body: key });
+                const data = await res.json().catch(() => ({}));
+                if (cancelled) return;
+                if (!res.ok) throw new Error(data.message || data.error || 'Could not price this request');
+                setQuote(data);
+                setError(null);
+            } catch (e) {
+                if (cancelled) return;
+                setQuote(null);
+                setError((e as Error).message);
+            } finally {
+                if (!cancelled) setIsQuoting(false);
+            }
+        }, QUOTE_DEBOUNCE_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [key]);
+
+    return { quote, isQuoting, error };
+};
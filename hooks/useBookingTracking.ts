@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../src/lib/firebase';
+import { authFetch } from '../src/lib/authUtils';
+import { BookingTracking, LocationPoint } from '../types';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+/**
+ * Live position of a booking's machine. Loads the breadcrumb trail once, then follows
+ * booking_tracking/{bookingId} in realtime and appends each new fix to the trail.
+ */
+export const useBookingTracking = (bookingId?: string) => {
+    const [tracking, setTracking] = useState<BookingTracking | null>(null);
+    const [trail, setTrail] = useState<LocationPoint[]>([]);
+
+    useEffect(() => {
+        if (!bookingId) return;
+        let cancelled = false;
+
+        authFetch(`${API_URL}/bookings/${bookingId}/tracking`)
+            .then(res => res.ok ? res.json() : null)
+            .then(data => {
+                if (cancelled || !data) return;
+                const loaded = data.points as LocationPoint[];
+                const loadedUntil = loaded.length > 0 ? loaded[loaded.length - 1].recordedAt : '';
+                // Keep any fix the listener delivered while the trail was loading
+                setTrail(prev => [...loaded, ...prev.filter(p => p.recordedAt > loadedUntil)]);
+                if (data.tracking) setTracking(prev => prev || data.tracking);
+            })
+            .catch(error => console.error('Error loading tracking trail:', error));
+
+        const unsubscribe = onSnapshot(doc(db, 'booking_tracking', bookingId), (snapshot) => {
+            if (!snapshot.exists()) return;
+            const latest = snapshot.data() as BookingTracking;
+            setTracking(latest);
+            setTrail(prev => prev.some(p => p.recordedAt === latest.lastLocation.recordedAt) ? prev : [...prev, latest.lastLocation]);
+        }, (error) => console.error('Tracking listener error:', error));
+
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [bookingId]);
+
+    return { tracking, trail };
+};
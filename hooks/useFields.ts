@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+import { authFetch } from '../src/lib/authUtils';
+import { Field } from '../types';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+export type FieldInput = Partial<Pick<Field, 'name' | 'boundary' | 'center' | 'location' | 'acres' | 'soilType' | 'currentCrop'>>;
+
+/**
+ * Saved fields of a farmer (the signed-in user when farmerId is omitted; agents pass the
+ * farmer they are working for). Mutations throw with the server's message on failure.
+ */
+export const useFields = (farmerId?: string, enabled = true) => {
+    const [fields, setFields] = useState<Field[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const refresh = useCallback(async () => {
+        if (!enabled) return;
+        setIsLoading(true);
+        try {
+            const res = await authFetch(`${API_URL}/fields${farmerId ? `?farmerId=${encodeURIComponent(farmerId)}` : ''}`);
+            if (res.ok) setFields(await res.json());
+        } catch (error) {
+            console.error('Error loading fields:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [farmerId, enabled]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const send = async (url: string, method: string, body?: object): Promise<any> => {
+        const res = await authFetch(url, { method, ...(body ? { body: JSON.stringify(body) } : {}) });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.message || data.error || 'Request failed');
+        return data;
+    };
+
+    const addField = async (input: FieldInput): Promise<Field> => {
+        const field: Field = await send(`${API_URL}/fields`, 'POST', { ...input, ...(farmerId ? { farmerId } : {}) });
+        setFields(prev => [...prev, field].sort((a, b) => a.name.localeCompare(b.name)));
+        return field;
+    };
+
+    const updateField = async (id: string, input: FieldInput): Promise<Field> => {
+        const field: Field = await send(`${API_URL}/fields/${id}`, 'PUT', input);
+        setFields(prev => prev.map(f => f.id === id ? field : f));
+        return field;
+    };
+
+    const removeField = async (id: string): Promise<void> => {
+        await send(`${API_URL}/fields/${id}`, 'DELETE');
+        setFields(prev => prev.filter(f => f.id !== id));
+    };
+
+    return { fields, isLoading, refresh, addField, updateField, removeField };
+};
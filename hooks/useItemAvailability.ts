@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { authFetch } from '../src/lib/authUtils';
+import { AvailabilityHold, ItemDayAvailability } from '../types';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+// Editing the start time or hours shouldn't fire a request (or move a hold) per keystroke
+const AVAILABILITY_DEBOUNCE_MS = 400;
+
+export interface SlotCheck {
+    startTime: string;
+    durationHours: number;
+    excludeBookingId?: string;
+}
+
+/**
+ * An item's day from the server, with the verdict for a start time and duration when given
+ */
+export const fetchItemDayAvailability = async (itemId: number, date: string, check?: SlotCheck): Promise<ItemDayAvailability> => {
+    const params = new URLSearchParams({ date });
+    if (check?.startTime) {
+        params.set('startTime', check.startTime);
+        params.set('duration', String(check.durationHours));
+        if (check.excludeBookingId) params.set('excludeBookingId', check.excludeBookingId);
+    }
+    const res = await authFetch(`${API_URL}/items/${itemId}/availability?${params.toString()}`);
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message || data.error || 'Could not load availability');
+    return data;
+};
+
+/**
+ * Hourly availability for one item on a date. Pass no itemId or date to skip loading.
+ */
+export const useItemAvailability = (itemId: number | undefined, date: string, check?: SlotCheck | null) => {
+    const [day, setDay] = useState<ItemDayAvailability | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const key = itemId && date ? JSON.stringify([itemId, date, check || null]) : '';
+
+    useEffect(() => {
+        if (!key) {
+            setDay(null);
+            setError(null);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            setIsLoading(true);
+            try {
+                const result = await fetchItemDayAvailability(itemId!, date, check || undefined);
+                if (cancelled) return;
+                setDay(result);
+                setError(null);
+            } catch (e) {
+                if (cancelled) return;
+                setDay(null);
+                setError((e as Error).message);
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        }, AVAILABILITY_DEBOUNCE_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [key]);
+
+    return { day, isLoading, error };
+};
+
+/**
+ * Keep a hold on a slot while the farmer finishes a direct request. The hold moves when the
+ * slot changes and is released when it's cleared (null) or the form closes; the booking that
+ * uses it releases it on the server.
+ */
+export const useSlotHold = (slot: { itemId: number; date: string; startTime: string; durationHours: number } | null) => {
+    const [hold, setHold] = useState<AvailabilityHold | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const key = slot ? JSON.stringify(slot) : '';
+
+    useEffect(() => {
+        if (!key) {
+            setHold(null);
+            setError(null);
+            return;
+        }
+        let cancelled = false;
+        let placed: AvailabilityHold | null = null;
+        const timer = setTimeout(async () => {
+            try {
+                const res = await authFetch(`${API_URL}/availability/holds`, { method: 'POST', body: key });
+                const data = await res.json().catch(() => ({}));
+                if (!res.ok) throw new Error(data.message || data.error || 'Could not hold this slot');
+                placed = data;
+                if (cancelled) {
+                    authFetch(`${API_URL}/availability/holds/${data.id}`, { method: 'DELETE' }).catch(() => undefined);
+                    return;
+                }
+                setHold(data);
+                setError(null);
+            } catch (e) {
+                if (cancelled) return;
+                setHold(null);
+                setError((e as Error).message);
+            }
+        }, AVAILABILITY_DEBOUNCE_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+            if (placed) authFetch(`${API_URL}/availability/holds/${placed.id}`, { method: 'DELETE' }).catch(() => undefined);
+        };
+    }, [key]);
+
+    return { hold, error };
+};
@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from 'react';
+import { authFetch } from '../src/lib/authUtils';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+// The server drops fixes closer together than 5s; posting every 10s keeps the trail smooth enough
+const POST_INTERVAL_MS = 10000;
+
+/**
+ * Supplier side of live tracking: while a booking id is given, watch the device's GPS
+ * and post its position for that booking. Pass undefined to stop sharing.
+ */
+export const useLocationSharing = (bookingId?: string) => {
+    const [error, setError] = useState<string | null>(null);
+    const [lastSentAt, setLastSentAt] = useState<string | null>(null);
+    const lastPostRef = useRef(0);
+
+    useEffect(() => {
+        setError(null);
+        if (!bookingId) return;
+        if (!navigator.geolocation) {
+            setError('Location is not available on this device.');
+            return;
+        }
+
+        lastPostRef.current = 0;
+        const watchId = navigator.geolocation.watchPosition(async (position) => {
+            if (Date.now() - lastPostRef.current < POST_INTERVAL_MS) return;
+            lastPostRef.current = Date.now();
+
+            const { latitude, longitude, accuracy, speed, heading } = position.coords;
+            try {
+                const res = await authFetch(`${API_URL}/bookings/${bookingId}/location`, {
+                    method: 'POST',
+                    body: JSON.stringify({
+                        lat: latitude,
+                        lng: longitude,
+                        accuracy,
+                        // Device speed is m/s; the server works in km/h
+                        ...(speed != null ? { speed: Math.round(speed * 3.6 * 10) / 10 } : {}),
+                        ...(heading != null && !isNaN(heading) ? { heading } : {})
+                    })
+                });
+                if (!res.ok) {
+                    const data = await res.json().catch(() => ({}));
+                    setError(data.message || 'Could not share location.');
+                    return;
+                }
+                setError(null);
+                setLastSentAt(new Date().toISOString());
+            } catch (e) {
+                console.error('Failed to post location', e);
+                setError('Connection error while sharing location.');
+            }
+        }, (geoError) => setError(geoError.message), { enableHighAccuracy: true, maximumAge: 5000 });
+
+        return () => navigator.geolocation.clearWatch(watchId);
+    }, [bookingId]);
+
+    return { error, lastSentAt };
+};
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from 'react';
+import { authFetch } from '../src/lib/authUtils';
+import { MaintenanceSummary } from '../types';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+/**
+ * An item's engine hours, service reminder and maintenance history (owner or staff only).
+ * Pass no itemId to skip loading.
+ */
+export const useMaintenanceSummary = (itemId: number | undefined) => {
+    const [summary, setSummary] = useState<MaintenanceSummary | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const reload = useCallback(async () => {
+        if (!itemId) {
+            setSummary(null);
+            return;
+        }
+        setIsLoading(true);
+        try {
+            const res = await authFetch(`${API_URL}/items/${itemId}/maintenance`);
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.message || data.error || 'Could not load the maintenance log');
+            setSummary(data);
+            setError(null);
+        } catch (e) {
+            setSummary(null);
+            setError((e as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [itemId]);
+
+    useEffect(() => {
+        reload();
+    }, [reload]);
+
+    return { summary, isLoading, error, reload };
+};
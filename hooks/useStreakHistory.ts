@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+import { authFetch } from '../src/lib/authUtils';
+import { StreakEvent, User } from '../types';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+export interface StreakHistory {
+    streak: NonNullable<User['streak']>;
+    events: StreakEvent[];
+    rules: { maxGuards: number; milestoneDays: number; guardPointCost: number };
+}
+
+/**
+ * The signed-in supplier's streak history and guard rules, plus buying a guard with points.
+ * Pass enabled = false to skip loading (non-suppliers, closed modal).
+ */
+export const useStreakHistory = (enabled: boolean = true) => {
+    const [history, setHistory] = useState<StreakHistory | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const reload = useCallback(async () => {
+        if (!enabled) return;
+        setIsLoading(true);
+        try {
+            const res = await authFetch(`${API_URL}/streak/history`);
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.message || data.error || 'Could not load your streak history');
+            setHistory(data);
+            setError(null);
+        } catch (e) {
+            setError((e as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [enabled]);
+
+    useEffect(() => {
+        reload();
+    }, [reload]);
+
+    const buyGuard = useCallback(async (): Promise<void> => {
+        const res = await authFetch(`${API_URL}/streak/guards`, { method: 'POST' });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.message || data.error || 'Could not buy a guard');
+        await reload();
+    }, [reload]);
+
+    return { history, isLoading, error, reload, buyGuard };
+};
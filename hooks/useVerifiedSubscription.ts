@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+import { authFetch } from '../src/lib/authUtils';
+import { VerifiedSubscriptionStatus } from '../types';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+/**
+ * The signed-in supplier's verified-account plan, history and the plans on offer,
+ * plus the auto-renewal switch. Pass enabled = false to skip loading (non-suppliers).
+ */
+export const useVerifiedSubscription = (enabled: boolean = true) => {
+    const [status, setStatus] = useState<VerifiedSubscriptionStatus | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const reload = useCallback(async () => {
+        if (!enabled) return;
+        setIsLoading(true);
+        try {
+            const res = await authFetch(`${API_URL}/verified-subscription`);
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.message || data.error || 'Could not load your verified account');
+            setStatus(data);
+            setError(null);
+        } catch (e) {
+            setError((e as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [enabled]);
+
+    useEffect(() => {
+        reload();
+    }, [reload]);
+
+    const setAutoRenew = useCallback(async (on: boolean, planId?: string): Promise<void> => {
+        const res = await authFetch(`${API_URL}/verified-subscription/auto-renew`, {
+            method: 'PUT',
+            body: JSON.stringify({ enabled: on, ...(planId ? { planId } : {}) })
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.message || data.error || 'Could not update auto-renewal');
+        setStatus(data);
+    }, []);
+
+    return { status, isLoading, error, reload, setAutoRenew };
+};
@@ -3,6 +3,7 @@ import { useAuth } from '../context/AuthContext';
 import { Item } from '../types';
 import Button from '../components/Button';
 import { useToast } from '../context/ToastContext';
+import ItemMaintenanceRecord from '../components/ItemMaintenanceRecord';
 
 const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -447,6 +448,21 @@ const AdminItemApprovalScreen: React.FC = () => {
                                     )}
                                 </div>
                             )}
+
+                            {/* Machine details and upkeep, for re-verification */}
+                            {!editMode && (
+                                <>
+                                    {(previewItem.model || previewItem.year || previewItem.horsepower || previewItem.condition) && (
+                                        <div className="flex gap-4 text-sm text-neutral-600 dark:text-neutral-400 flex-wrap justify-center">
+                                            {previewItem.model && <span><strong>Model:</strong> {previewItem.model}</span>}
+                                            {previewItem.year && <span><strong>Year:</strong> {previewItem.year}</span>}
+                                            {previewItem.horsepower && <span><strong>HP:</strong> {previewItem.horsepower}</span>}
+                                            {previewItem.condition && <span><strong>Condition:</strong> {previewItem.condition}</span>}
+                                        </div>
+                                    )}
+                                    <ItemMaintenanceRecord itemId={previewItem.id} />
+                                </>
+                            )}
                         </div>
 
                         {/* Footer with action buttons */}
@@ -16,6 +16,8 @@ import NotificationManagerScreen from './NotificationManagerScreen';
 import DemandControlScreen from './admin/DemandControlScreen';
 import CommunityManagementScreen from './admin/CommunityManagementScreen';
 import DemandGapsScreen from './admin/DemandGapsScreen';
+import FinanceManagement from './admin/FinanceManagement';
+import CouponManagement from './admin/CouponManagement';
 
 import SettingsScreen from './SettingsScreen';
 import MyAccountScreen from './MyAccountScreen';
@@ -168,6 +170,14 @@ const AdminView: React.FC<AdminViewProps> = ({ navigate, children, currentView }
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-orange-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
                 <span className="text-sm font-semibold text-neutral-700 dark:text-neutral-300 text-center">Demand Gaps</span>
             </button>
+            <button onClick={() => setActiveTab('finance')} className="p-4 bg-white dark:bg-neutral-800 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-700 flex flex-col items-center justify-center gap-2 hover:bg-neutral-50 dark:hover:bg-neutral-700 transition-colors">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-green-600 dark:text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" /></svg>
+                <span className="text-sm font-semibold text-neutral-700 dark:text-neutral-300 text-center">Finance & Payouts</span>
+            </button>
+            <button onClick={() => setActiveTab('coupons')} className="p-4 bg-white dark:bg-neutral-800 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-700 flex flex-col items-center justify-center gap-2 hover:bg-neutral-50 dark:hover:bg-neutral-700 transition-colors">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-green-600 dark:text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" /></svg>
+                <span className="text-sm font-semibold text-neutral-700 dark:text-neutral-300 text-center">Coupons</span>
+            </button>
         </div>
     );
 
@@ -206,6 +216,10 @@ const AdminView: React.FC<AdminViewProps> = ({ navigate, children, currentView }
                 return <MyAccountScreen goBack={handleBack} navigate={navigate} />;
             case 'demand-gaps':
                 return <DemandGapsScreen />;
+            case 'finance':
+                return <FinanceManagement />;
+            case 'coupons':
+                return <CouponManagement />;
         }
     };
 
@@ -225,6 +239,10 @@ const AdminView: React.FC<AdminViewProps> = ({ navigate, children, currentView }
                 return 'Community Moderation';
             case 'profile':
                 return 'My Account';
+            case 'finance':
+                return 'Finance & Payouts';
+            case 'coupons':
+                return 'Coupons & Promotions';
 
             default:
                 return `${t('admin')} ${t(activeTab as TranslationKey)}`;
@@ -17,7 +17,7 @@ import Header from '../components/Header';
 import BottomNav, { NavItemConfig } from '../components/BottomNav';
 import ItemCard from '../components/ItemCard';
 import Button from '../components/Button';
-import ConfirmationDialog from '../components/ConfirmationDialog';
+import CancelBookingDialog from '../components/CancelBookingDialog';
 import NotificationBell from '../components/NotificationBell';
 import BulkBookingProcessor from '../components/BulkBookingProcessor';
 import { useChat } from '../context/ChatContext';
@@ -32,6 +32,7 @@ import { useWeather } from '../context/WeatherContext';
 import { FarmerHomeScreen } from './FarmerView';
 
 import AppSidebar from '../components/AppSidebar';
+import { getItemDayOffReason } from '../utils/availability';
 
 const apiKey = typeof process !== 'undefined' && process.env && process.env.API_KEY
     ? process.env.API_KEY
@@ -235,7 +236,7 @@ const AgentHomeScreen: React.FC<AgentViewProps> = ({ navigate, roleBadge }) => {
                 if (hasBookingConflict) return false;
 
                 const owner = allUsers.find(u => u.id === item.ownerId);
-                if (owner?.blockedDates?.includes(filterDate)) {
+                if (getItemDayOffReason(item, owner, filterDate)) {
                     return false;
                 }
 
@@ -581,7 +582,7 @@ const AgentMapScreen: React.FC<AgentViewProps> = ({ navigate }) => {
                 if (!filterDate) return true;
                 if (bookings.some(b => b.itemId === item.id && b.date === filterDate && !['Cancelled', 'Completed', 'Expired'].includes(b.status))) return false;
                 const owner = allUsers.find(u => u.id === item.ownerId);
-                return !owner?.blockedDates?.includes(filterDate);
+                return !getItemDayOffReason(item, owner, filterDate);
             };
             return matchesSearch && matchesCategory && matchesPrice && matchesRating && matchesAvailability && isAvailableOnDate();
         });
@@ -679,7 +680,7 @@ const AgentMapScreen: React.FC<AgentViewProps> = ({ navigate }) => {
 
 const AgentBookingsScreen: React.FC<AgentViewProps> = ({ navigate }) => {
     const { user, allUsers } = useAuth();
-    const { bookings, cancelBooking, raiseDispute, completeBooking, makeFinalPayment } = useBooking();
+    const { bookings, cancelBooking, raiseDispute, completeBooking, reviewMeasuredAcres } = useBooking();
     const { items } = useItem();
     const { reviews } = useReview();
     const { getUnreadMessageCount } = useChat();
@@ -851,6 +852,16 @@ const AgentBookingsScreen: React.FC<AgentViewProps> = ({ navigate }) => {
                                         <span className="truncate">Location: {booking.location}</span>
                                     </div>
 
+                                    {booking.acreMeasurementStatus === 'pending' && (
+                                        <div className="mt-2 p-2 rounded-md bg-amber-50 dark:bg-amber-900/20 text-xs text-amber-800 dark:text-amber-200">
+                                            <p>Supplier measured {booking.measuredAcres} acres (booked {booking.acres ?? '?'}). New total ₹{booking.proposedFinalPrice?.toLocaleString()}.</p>
+                                            <div className="mt-1 flex gap-3 font-semibold">
+                                                <button onClick={() => reviewMeasuredAcres(booking.id, true)} className="text-green-700">Approve</button>
+                                                <button onClick={() => reviewMeasuredAcres(booking.id, false)} className="text-red-600">Reject</button>
+                                            </div>
+                                        </div>
+                                    )}
+
                                     {/* Actions */}
                                     <div className="mt-3 flex flex-wrap gap-2">
                                         {(booking.status === 'Confirmed' || booking.status === 'Arrived' || booking.status === 'In Process') && supplier && (
@@ -910,12 +921,8 @@ const AgentBookingsScreen: React.FC<AgentViewProps> = ({ navigate }) => {
             </div>
 
             {bookingToCancel && (
-                <ConfirmationDialog
-                    title="Cancel Booking"
-                    message="Are you sure you want to cancel this booking?"
-                    note="This action cannot be undone."
-                    confirmText="Confirm"
-                    cancelText="Go Back"
+                <CancelBookingDialog
+                    booking={bookingToCancel}
                     onConfirm={handleConfirmCancel}
                     onCancel={() => setBookingToCancel(null)}
                 />
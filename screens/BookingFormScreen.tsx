@@ -1,10 +1,7 @@
 
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { Item, AppView, Booking, ItemCategory, WORK_PURPOSES, CATEGORY_WORK_PURPOSES, WORKER_PURPOSE_IMAGES, HARVESTER_PURPOSE_IMAGES, TRACTOR_PURPOSE_IMAGES, WorkPurpose, User, UserRole } from '../types';
-import { calculateDynamicPrice, PricingRule } from '../utils/pricing';
-import { collection, getDocs, query, where } from 'firebase/firestore';
-import { db } from '../src/lib/firebase';
+import { Item, AppView, Booking, ItemCategory, WORK_PURPOSES, CATEGORY_WORK_PURPOSES, WORKER_PURPOSE_IMAGES, HARVESTER_PURPOSE_IMAGES, TRACTOR_PURPOSE_IMAGES, WorkPurpose, User, UserRole, RecurrenceFrequency, RecurrenceRule } from '../types';
 import Header from '../components/Header';
 import Input from '../components/Input';
 import Button from '../components/Button';
@@ -12,7 +9,11 @@ import { useBooking } from '../context/BookingContext';
 import { useAuth } from '../context/AuthContext';
 import { useItem } from '../context/ItemContext';
 import { useLanguage } from '../context/LanguageContext';
-import { MapContainer, TileLayer, Marker, useMapEvents } from 'react-leaflet';
+import { useFields } from '../hooks/useFields';
+import { useBookingQuote, BookingQuoteRequest } from '../hooks/useBookingQuote';
+import { useItemAvailability, useSlotHold } from '../hooks/useItemAvailability';
+import { getItemDayOffReason } from '../utils/availability';
+import { MapContainer, TileLayer, Marker, Polygon, useMapEvents } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
 
@@ -33,35 +34,21 @@ interface BookingFormScreenProps {
     workPurpose?: WorkPurpose;
 }
 
-const haversineDistance = (coords1: { lat: number, lng: number }, coords2: { lat: number, lng: number }) => {
-    const toRad = (x: number) => x * Math.PI / 180;
-    const R = 6371; // Earth radius in km
-
-    const dLat = toRad(coords2.lat - coords1.lat);
-    const dLon = toRad(coords2.lng - coords1.lng);
-    const lat1 = toRad(coords1.lat);
-    const lat2 = toRad(coords2.lat);
-
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-        Math.sin(dLon / 2) * Math.sin(dLon / 2) * Math.cos(lat1) * Math.cos(lat2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
-};
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 
 const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack, category, quantity: initialQuantity, item, workPurpose: initialWorkPurpose }) => {
     const { user, allUsers } = useAuth();
-    const { addBooking, bookings } = useBooking();
+    const { addBooking, addBookingSeries, bookings } = useBooking();
     const { items } = useItem();
     const { t } = useLanguage();
+    const { fields } = useFields(undefined, !!user);
     const [date, setDate] = useState('');
     const [startTime, setStartTime] = useState('');
     const [estimatedDurationInput, setEstimatedDurationInput] = useState('1');
     const [location, setLocation] = useState('');
-    const [locationDetails, setLocationDetails] = useState<{ district?: string, mandal?: string, city?: string }>({});
-    const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
     const [locationCoords, setLocationCoords] = useState<{ lat: number; lng: number } | undefined>(undefined);
+    const [fieldId, setFieldId] = useState('');
     const [searchSuggestions, setSearchSuggestions] = useState<Array<{ display_name: string; lat: string; lon: string }>>([]);
     const [showSuggestions, setShowSuggestions] = useState(false);
     const [showLocationModal, setShowLocationModal] = useState(false);
@@ -72,6 +59,7 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
     const [quantity, setQuantity] = useState(initialQuantity?.toString() || '1');
     const [acres, setAcres] = useState('1');
     const [allowMultipleSuppliers, setAllowMultipleSuppliers] = useState(true);
+    const [splitAcres, setSplitAcres] = useState(false);
     const [preferredModel, setPreferredModel] = useState('any');
     const [workPurpose, setWorkPurpose] = useState<WorkPurpose>(item?.purposes[0]?.name || initialWorkPurpose || WORK_PURPOSES[0]);
     const [crop, setCrop] = useState(''); // New state for Crop
@@ -81,6 +69,14 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
     const [showTractorPurposeModal, setShowTractorPurposeModal] = useState(false); // Modal for tractor purpose selection
 
     const [operatorRequired, setOperatorRequired] = useState(false);
+    const [couponCode, setCouponCode] = useState('');
+    const [appliedCouponCode, setAppliedCouponCode] = useState<string | null>(null);
+    const [couponError, setCouponError] = useState('');
+    const [repeatMode, setRepeatMode] = useState<'none' | RecurrenceFrequency>('none');
+    const [repeatCount, setRepeatCount] = useState('4');
+    const [repeatDays, setRepeatDays] = useState<number[]>([]);
+    const [customDates, setCustomDates] = useState<string[]>([]);
+    const [customDateInput, setCustomDateInput] = useState('');
     // Payment selection removed; handled after work completion
 
     const isDirectRequest = !!item;
@@ -111,11 +107,6 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
         return allUsers.find(u => u.id === item.ownerId);
     }, [isDirectRequest, item, allUsers]);
 
-    const isDateBlocked = useMemo(() => {
-        if (!supplier || !date) return false;
-        return supplier.blockedDates?.includes(date) ?? false;
-    }, [supplier, date]);
-
     const handleWorkPurposeChange = (newPurpose: WorkPurpose) => {
         setWorkPurpose(newPurpose);
         if (isDirectRequest && item) {
@@ -125,6 +116,8 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
     }
 
     const isQuantityApplicable = useMemo(() => itemCategory === ItemCategory.Workers, [itemCategory]);
+    // Large non-labour jobs can be shared out by acres (one booking, several suppliers)
+    const canSplitAcres = itemCategory !== ItemCategory.Workers && repeatMode === 'none' && (parseFloat(acres) || 0) > 1;
     const isOperatorApplicable = useMemo(() => ![ItemCategory.Workers, ItemCategory.Drivers, ItemCategory.Borewell, ItemCategory.Harvesters, ItemCategory.Drones, ItemCategory.JCB].includes(itemCategory), [itemCategory]);
     const isModelApplicable = useMemo(() => [ItemCategory.Tractors, ItemCategory.Harvesters, ItemCategory.JCB, ItemCategory.Borewell, ItemCategory.Drones].includes(itemCategory) && !isDirectRequest, [isDirectRequest, itemCategory]);
 
@@ -150,21 +143,16 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
     }, [estimatedDurationInput]);
     const billableHours = useMemo(() => Math.max(1, durationInHours), [durationInHours]);
 
-    const distanceCharge = useMemo(() => {
-        // Use field location (locationCoords) from booking form, not user profile location
-        if (!isDirectRequest || !item || !item.locationCoords || !locationCoords) return 0;
-
-        const distance = haversineDistance(locationCoords, item.locationCoords);
-        let serviceRadius = 3; // default 3km
-        if (item.category === ItemCategory.Borewell) serviceRadius = 15;
-        if (item.category === ItemCategory.Harvesters) serviceRadius = 10;
-
-        if (distance > serviceRadius) {
-            const extraDistance = distance - serviceRadius;
-            return Math.round(extraDistance * 10); // ₹10 per km
-        }
-        return 0;
-    }, [isDirectRequest, item, locationCoords]);
+    // Direct requests must fit the item's calendar; a fitting slot is held while the form is open
+    const isDirectSlot = isDirectRequest && !!item && !isBroadcastOverride;
+    const slotCheck = useMemo(() => startTime && durationInHours > 0 ? { startTime, durationHours: durationInHours } : null, [startTime, durationInHours]);
+    const { day: itemDay } = useItemAvailability(isDirectSlot ? item!.id : undefined, date, slotCheck);
+    const dayOffReason = isDirectSlot && date ? (getItemDayOffReason(item!, supplier, date) || itemDay?.offReason || null) : null;
+    const isDateBlocked = !!dayOffReason;
+    const slotUnavailableReason = !dayOffReason && itemDay?.check?.available === false ? (itemDay.check.reason || 'This time is not available') : null;
+    const { hold: slotHold } = useSlotHold(isDirectSlot && repeatMode === 'none' && itemDay?.check?.available
+        ? { itemId: item!.id, date, startTime, durationHours: durationInHours }
+        : null);
 
     const applicableItems = useMemo(() => {
         return isDirectRequest && !isBroadcastOverride
@@ -177,81 +165,75 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
             );
     }, [items, itemCategory, isDirectRequest, item, workPurpose, isBroadcastOverride]);
 
-    const priceEstimates = useMemo(() => {
-        if (applicableItems.length === 0 || durationInHours <= 0) {
-            return {
-                machine: { min: 0, max: 0 },
-                operator: { min: 0, max: 0 },
-                platformFee: { min: 0, max: 0 },
-                travelCharges: { min: 0, max: 0 },
-                additionalCharges: { min: 0, max: 0 },
-                total: { min: 0, max: 0 }
-            };
-        }
-
-        const numQuantity = isQuantityApplicable ? parseInt(quantity) : 1;
-
-        // Apply Dynamic Pricing Logic
-        const calculateWithSurge = (basePrice: number, purposeItem: Item) => {
-            const { finalPrice } = calculateDynamicPrice(basePrice, purposeItem, locationDetails, pricingRules);
-            return finalPrice * numQuantity * billableHours;
+    // Priced on the server (seasonal and area modifiers, operator, travel, coupon); re-run when the booking is created
+    const quoteRequest = useMemo<BookingQuoteRequest | null>(() => {
+        if (!user || applicableItems.length === 0 || durationInHours <= 0) return null;
+        return {
+            itemCategory,
+            workPurpose,
+            ...(isDirectRequest && !isBroadcastOverride && item ? { itemId: item.id } : {}),
+            ...(date ? { date } : {}),
+            estimatedDuration: durationInHours,
+            acres: parseFloat(acres) || 0,
+            ...(isQuantityApplicable ? { quantity: parseInt(quantity) || 1 } : {}),
+            operatorRequired,
+            ...(locationCoords ? { locationCoords } : {}),
+            ...(appliedCouponCode && repeatMode === 'none' ? { couponCode: appliedCouponCode } : {})
         };
+    }, [user, applicableItems.length, durationInHours, itemCategory, workPurpose, isDirectRequest, isBroadcastOverride, item, date, acres, isQuantityApplicable, quantity, operatorRequired, locationCoords, appliedCouponCode, repeatMode]);
+    const { quote, isQuoting, error: quoteError } = useBookingQuote(quoteRequest);
+    const appliedCoupon = quote?.coupon || null;
 
-        const machinePrices = applicableItems.map(i => {
-            const purpose = i.purposes.find(p => p.name === workPurpose);
-            return purpose ? calculateWithSurge(purpose.price, i) : 0;
-        });
-
-        const operatorPrices = operatorRequired ? applicableItems.map(i => (i.operatorCharge || 0) * billableHours) : [0];
-
-        const machineMin = Math.min(...machinePrices);
-        const machineMax = Math.max(...machinePrices);
-        const operatorMin = Math.min(...operatorPrices);
-        const operatorMax = Math.max(...operatorPrices);
-
-        // Platform fee: 0% of (machine + operator) cost
-        const platformFeeMin = 0;
-        const platformFeeMax = 0;
-
-        // Travel charges (already calculated as distanceCharge)
-        const travelMin = distanceCharge;
-        const travelMax = distanceCharge;
-
-        // Additional charges (default 0, can be extended for special services)
-        const additionalMin = 0;
-        const additionalMax = 0;
-
+    const priceEstimates = useMemo(() => {
+        const none = { min: 0, max: 0 };
         return {
-            machine: { min: machineMin, max: machineMax },
-            operator: { min: operatorMin, max: operatorMax },
-            platformFee: { min: platformFeeMin, max: platformFeeMax },
-            travelCharges: { min: travelMin, max: travelMax },
-            additionalCharges: { min: additionalMin, max: additionalMax },
-            total: {
-                min: machineMin + operatorMin + platformFeeMin + travelMin + additionalMin,
-                max: machineMax + operatorMax + platformFeeMax + travelMax + additionalMax
-            }
+            machine: quote?.machine || none,
+            operator: quote?.operator || none,
+            platformFee: none,
+            travelCharges: quote?.distance || none,
+            additionalCharges: none,
+            total: quote?.subtotal || none
         };
-    }, [applicableItems, durationInHours, operatorRequired, isQuantityApplicable, quantity, workPurpose, distanceCharge]);
+    }, [quote]);
+
+    // Seasonal and area pricing behind the quote, listed once each
+    const priceAdjustments = useMemo(() => {
+        const adjustments = new Map<string, number>();
+        (quote?.items || []).forEach(q => {
+            if (q.seasonalModifier !== 1) adjustments.set(q.seasonName || 'Seasonal', q.seasonalModifier);
+            if (q.regionalMultiplier !== 1) adjustments.set(q.regionalRuleName || 'High Demand', q.regionalMultiplier);
+        });
+        return Array.from(adjustments, ([name, multiplier]) => ({ name, multiplier }));
+    }, [quote]);
+
+    // What the estimate is based on, in the units the matching suppliers bill
+    const billingBasis = useMemo(() => {
+        const units = new Set(applicableItems.map(i => i.purposes.find(p => p.name === workPurpose)?.unit || 'hour'));
+        const parts: string[] = [];
+        if (units.has('acre')) parts.push(`${parseFloat(acres) || 0} acres`);
+        if (units.has('hour')) parts.push(`${billableHours} hours`);
+        if (units.has('trip')) parts.push('one trip per machine');
+        return `For approx. ${parts.join(' / ')}`;
+    }, [applicableItems, workPurpose, acres, billableHours]);
+
+    // The quote re-checks the code whenever the price or place changes; drop it once it stops applying
+    useEffect(() => {
+        if (appliedCouponCode && quote?.couponError) {
+            setCouponError(quote.couponError);
+            setAppliedCouponCode(null);
+        }
+    }, [quote, appliedCouponCode]);
+    const isApplyingCoupon = !!appliedCouponCode && !appliedCoupon && isQuoting;
+
+    const handleApplyCoupon = () => {
+        if (!couponCode.trim()) return;
+        setCouponError('');
+        setAppliedCouponCode(couponCode.trim());
+    };
 
     const getTodayString = () => new Date().toISOString().split('T')[0];
     const minDate = getTodayString();
 
-    // Fetch Pricing Rules
-    useEffect(() => {
-        const fetchPricingRules = async () => {
-            try {
-                const q = query(collection(db, 'pricing_rules'), where('isActive', '==', true));
-                const snapshot = await getDocs(q);
-                const rules = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PricingRule));
-                setPricingRules(rules);
-            } catch (error) {
-                console.error("Error fetching pricing rules:", error);
-            }
-        };
-        fetchPricingRules();
-    }, []);
-
     // Reverse geocoding function using Nominatim
     const reverseGeocode = async (lat: number, lng: number): Promise<string> => {
         try {
@@ -267,13 +249,6 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
                 const data = await response.json();
                 const address = data.address;
 
-                // Store location details for pricing
-                setLocationDetails({
-                    district: address.state_district || address.district,
-                    mandal: address.county || address.town || address.city, // Mandal often maps to county/town in Nominatim
-                    city: address.city || address.town || address.village
-                });
-
                 // Build a readable address from village/suburb/city
                 const parts = [
                     address.village || address.suburb || address.neighbourhood,
@@ -329,6 +304,7 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
         const lat = parseFloat(suggestion.lat);
         const lng = parseFloat(suggestion.lon);
         setLocationCoords({ lat, lng });
+        setFieldId('');
         // Extract shorter name from display_name
         const parts = suggestion.display_name.split(', ');
         const shortName = parts.slice(0, 3).join(', ');
@@ -357,6 +333,7 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
             async (position) => {
                 const { latitude, longitude } = position.coords;
                 setLocationCoords({ lat: latitude, lng: longitude });
+                setFieldId('');
                 const address = await reverseGeocode(latitude, longitude);
                 setLocation(address);
                 setIsLocating(false);
@@ -382,10 +359,26 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
         );
     };
 
+    // Picking a saved field fills the location, acres and crop from it
+    const selectField = async (id: string) => {
+        setFieldId(id);
+        const field = fields.find(f => f.id === id);
+        if (!field) return;
+        setLocationCoords(field.center);
+        setAcres(String(field.acres));
+        if (field.currentCrop) setCrop(field.currentCrop);
+        setLocation(field.location || field.name);
+        // Still reverse-geocode so district / mandal pricing applies
+        const address = await reverseGeocode(field.center.lat, field.center.lng);
+        if (!field.location) setLocation(address);
+    };
+    const selectedField = fields.find(f => f.id === fieldId);
+
     const LocationMarker = () => {
         const map = useMapEvents({
             async click(e) {
                 setLocationCoords(e.latlng);
+                setFieldId('');
                 const address = await reverseGeocode(e.latlng.lat, e.latlng.lng);
                 setLocation(address);
             },
@@ -402,7 +395,7 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if (!date || !startTime || !location || !itemCategory || !workPurpose || durationInHours <= 0 || isDateBlocked) {
+        if (!date || !startTime || !location || !itemCategory || !workPurpose || durationInHours <= 0 || isDateBlocked || slotUnavailableReason) {
             alert('Please fill all required fields, select an available date, and enter a valid duration.');
             return;
         }
@@ -444,6 +437,7 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
                 return;
             }
 
+            // The server prices the booking again from the same quote
             const estimatedPrice = priceEstimates.total.max;
 
             const bookingDetails: Omit<Booking, 'id' | 'advanceAmount' | 'advancePaymentId'> = {
@@ -455,6 +449,7 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
                 startTime,
                 location,
                 locationCoords,
+                fieldId: fieldId || undefined,
                 status: isFinalBroadcast ? 'Searching' : 'Pending Confirmation',
                 additionalInstructions,
                 workPurpose,
@@ -462,12 +457,16 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
                 operatorRequired,
                 quantity: isQuantityApplicable ? parseInt(quantity) : undefined,
                 acres: parseFloat(acres) || undefined,
-                allowMultipleSuppliers: itemCategory === ItemCategory.Workers && !isDirectRequest ? allowMultipleSuppliers : undefined,
-                crop: itemCategory === ItemCategory.Workers ? crop : undefined, // Include crop
+                allowMultipleSuppliers: isDirectRequest ? undefined
+                    : itemCategory === ItemCategory.Workers ? allowMultipleSuppliers
+                        : canSplitAcres && splitAcres ? true : undefined,
+                crop: itemCategory === ItemCategory.Workers ? crop : selectedField?.currentCrop, // Include crop
                 workPurposeDetails: itemCategory === ItemCategory.Workers && workPurpose === 'Others' ? workPurposeDetails : undefined, // Include details
                 estimatedPrice,
+                // The server re-checks the code and takes the discount off estimatedPrice
+                couponCode: appliedCoupon?.code,
                 estimatedDuration: durationInHours,
-                distanceCharge: distanceCharge > 0 ? distanceCharge : undefined,
+                distanceCharge: priceEstimates.travelCharges.max > 0 ? priceEstimates.travelCharges.max : undefined,
                 // Store detailed price breakdown
                 paymentDetails: {
                     farmerAmount: priceEstimates.total.max,
@@ -477,10 +476,24 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
                     paymentDate: new Date().toISOString(),
                 }
             };
+            // Repeating requests become one booking per date on the server
+            const recurrence: RecurrenceRule | null = repeatMode === 'none' ? null
+                : repeatMode === 'custom'
+                    ? { frequency: 'custom', startDate: date, dates: [date, ...customDates] }
+                    : {
+                        frequency: repeatMode,
+                        startDate: date,
+                        occurrences: parseInt(repeatCount) || 0,
+                        ...(repeatMode === 'weekly' && repeatDays.length > 0 ? { daysOfWeek: repeatDays } : {})
+                    };
+
             setIsLoading(true);
-            setTimeout(() => {
-                addBooking(bookingDetails);
+            setTimeout(async () => {
+                const created = recurrence
+                    ? await addBookingSeries({ ...bookingDetails, couponCode: undefined }, recurrence)
+                    : await addBooking(bookingDetails, slotHold ? { holdId: slotHold.id } : undefined);
                 setIsLoading(false);
+                if (!created) return;
                 navigate({
                     view: 'BOOKING_SUCCESS',
                     isDirectRequest: !isFinalBroadcast,
@@ -490,6 +503,11 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
     };
 
 
+    // Number of bookings the repeat settings will create
+    const seriesDateCount = repeatMode === 'none' ? 1
+        : repeatMode === 'custom' ? 1 + customDates.length
+            : parseInt(repeatCount) || 0;
+
     const formatRange = (min: number, max: number) => min === max ? `₹${min.toLocaleString()}` : `₹${min.toLocaleString()} - ₹${max.toLocaleString()}`;
 
     return (
@@ -619,10 +637,26 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
                         <Input id="acres" type="number" value={acres} onChange={e => setAcres(e.target.value)} min="0.1" step="0.1" placeholder="e.g. 2.5" />
                     </div>
 
+                    {canSplitAcres && !isDirectRequest && (
+                        <div className="flex items-center space-x-3">
+                            <input
+                                type="checkbox"
+                                id="split-acres-checkbox"
+                                checked={splitAcres}
+                                onChange={(e) => setSplitAcres(e.target.checked)}
+                                className="h-5 w-5 rounded border-gray-300 text-primary focus:ring-primary"
+                            />
+                            <label htmlFor="split-acres-checkbox" className="text-neutral-700 dark:text-neutral-200">
+                                Split the {acres} acres between several suppliers?
+                            </label>
+                        </div>
+                    )}
+
                     <Input label={t('selectDate')} type="date" value={date} onChange={e => setDate(e.target.value)} required min={minDate} />
                     {isDateBlocked && (
                         <div className="p-3 bg-red-100 text-red-800 text-sm rounded-lg -mt-2 text-center">
                             {t('supplierUnavailableDate')}
+                            <p className="text-xs mt-1">{dayOffReason}</p>
                         </div>
                     )}
                     <div className="grid grid-cols-2 gap-4">
@@ -632,11 +666,127 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
                             <p className="text-xs text-neutral-500 mt-1">{t('minimumBookingHint') || 'Minimum booking: 1 hour'}</p>
                         </div>
                     </div>
+                    {isDirectSlot && itemDay && !isDateBlocked && (
+                        <div className="-mt-2">
+                            <p className="text-xs text-neutral-500 mb-1">
+                                {item!.name} works {itemDay.workingHours.start}–{itemDay.workingHours.end}. Tap a free hour to start then.
+                            </p>
+                            <div className="flex flex-wrap gap-1">
+                                {itemDay.slots.map(slot => (
+                                    <button
+                                        key={slot.start}
+                                        type="button"
+                                        disabled={slot.status !== 'free'}
+                                        onClick={() => setStartTime(slot.start)}
+                                        title={slot.status}
+                                        className={`px-2 py-1 rounded text-xs font-semibold border ${slot.start === startTime ? 'bg-primary text-white border-primary'
+                                            : slot.status === 'free' ? 'bg-white dark:bg-neutral-700 border-neutral-300 dark:border-neutral-600 text-neutral-700 dark:text-neutral-200'
+                                                : slot.status === 'maintenance' ? 'bg-orange-100 border-orange-200 text-orange-700 line-through'
+                                                    : 'bg-neutral-100 dark:bg-neutral-800 border-neutral-200 dark:border-neutral-700 text-neutral-400 line-through'}`}
+                                    >
+                                        {slot.start}
+                                    </button>
+                                ))}
+                            </div>
+                            {slotUnavailableReason && <p className="text-xs text-red-600 mt-1">{slotUnavailableReason}</p>}
+                            {slotHold && (
+                                <p className="text-xs text-green-700 dark:text-green-400 mt-1">
+                                    Held for you until {new Date(slotHold.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                </p>
+                            )}
+                        </div>
+                    )}
                     {itemCategory === ItemCategory.Workers && (
                         <div className="mt-1 p-2 bg-orange-100 text-orange-800 text-xs rounded-md border border-orange-200">
                             Note: Labour working hours are strictly <strong>6:00 AM to 7:00 PM</strong>.
                         </div>
                     )}
+                    <div className="space-y-2">
+                        <label className="block text-gray-700 dark:text-neutral-300 text-sm font-bold">Repeat</label>
+                        <div className="grid grid-cols-4 gap-2">
+                            {(['none', 'daily', 'weekly', 'custom'] as const).map(mode => (
+                                <button
+                                    key={mode}
+                                    type="button"
+                                    onClick={() => {
+                                        setRepeatMode(mode);
+                                        // Coupons apply to single bookings only
+                                        if (mode !== 'none') { setAppliedCouponCode(null); setCouponCode(''); }
+                                    }}
+                                    className={`py-2 rounded-lg border text-sm font-semibold capitalize ${repeatMode === mode ? 'border-primary bg-primary/10 text-primary' : 'border-neutral-300 dark:border-gray-600 text-neutral-600 dark:text-neutral-300'}`}
+                                >
+                                    {mode === 'none' ? 'Once' : mode}
+                                </button>
+                            ))}
+                        </div>
+                        {(repeatMode === 'daily' || repeatMode === 'weekly') && (
+                            <div className="flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+                                <span>Number of bookings</span>
+                                <input
+                                    type="number"
+                                    min={2}
+                                    max={30}
+                                    value={repeatCount}
+                                    onChange={e => setRepeatCount(e.target.value)}
+                                    className="w-20 px-2 py-1 rounded-lg border border-neutral-300 dark:border-gray-600 bg-white dark:bg-gray-700"
+                                />
+                            </div>
+                        )}
+                        {repeatMode === 'weekly' && (
+                            <div className="flex gap-1 flex-wrap">
+                                {WEEKDAY_LABELS.map((label, day) => (
+                                    <button
+                                        key={label}
+                                        type="button"
+                                        onClick={() => setRepeatDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort())}
+                                        className={`px-2.5 py-1 rounded-full border text-xs font-semibold ${repeatDays.includes(day) ? 'border-primary bg-primary text-white' : 'border-neutral-300 dark:border-gray-600'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                                <p className="w-full text-xs text-neutral-500">No days picked repeats on the weekday of the first date.</p>
+                            </div>
+                        )}
+                        {repeatMode === 'custom' && (
+                            <div className="space-y-2">
+                                <div className="flex gap-2">
+                                    <input
+                                        type="date"
+                                        min={date || minDate}
+                                        value={customDateInput}
+                                        onChange={e => setCustomDateInput(e.target.value)}
+                                        className="flex-grow px-3 py-2 rounded-lg border border-neutral-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm"
+                                    />
+                                    <button
+                                        type="button"
+                                        disabled={!customDateInput}
+                                        onClick={() => {
+                                            if (customDateInput !== date && !customDates.includes(customDateInput)) {
+                                                setCustomDates(prev => [...prev, customDateInput].sort());
+                                            }
+                                            setCustomDateInput('');
+                                        }}
+                                        className="px-3 text-sm font-semibold text-primary disabled:opacity-50"
+                                    >
+                                        Add date
+                                    </button>
+                                </div>
+                                <div className="flex gap-1 flex-wrap">
+                                    {customDates.map(d => (
+                                        <span key={d} className="px-2 py-1 rounded-full bg-primary/10 text-primary text-xs font-semibold">
+                                            {d}
+                                            <button type="button" onClick={() => setCustomDates(prev => prev.filter(x => x !== d))} className="ml-1">×</button>
+                                        </span>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-neutral-500">The date selected above is the first booking; add the other dates here.</p>
+                            </div>
+                        )}
+                        {repeatMode !== 'none' && (
+                            <p className="text-xs text-neutral-500">Each date is booked separately with the same details. Suppliers can accept the whole series or single dates.</p>
+                        )}
+                    </div>
+
                     {durationInHours > 0 && durationInHours < 1 && (
                         <div className="mt-2 p-2 bg-yellow-100 text-yellow-800 text-xs rounded-md">
                             {t('minimumBillingNote') || 'Note: Minimum billing is 1 hour. Pricing will be calculated for 1 hour.'}
@@ -645,6 +795,15 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
 
 
                     <div className="space-y-2">
+                        {fields.length > 0 && (
+                            <div>
+                                <label htmlFor="saved-field" className="block text-gray-700 dark:text-neutral-300 text-sm font-bold mb-2">Saved field</label>
+                                <select id="saved-field" value={fieldId} onChange={e => selectField(e.target.value)} className="shadow appearance-none border border-neutral-300 dark:border-gray-600 bg-white dark:bg-gray-700 rounded-lg w-full py-3 px-4 text-neutral-800 dark:text-white leading-tight focus:outline-none focus:ring-2 focus:ring-primary/50">
+                                    <option value="">Enter a location instead</option>
+                                    {fields.map(f => <option key={f.id} value={f.id}>{f.name} ({f.acres} acres{f.currentCrop ? `, ${f.currentCrop}` : ''})</option>)}
+                                </select>
+                            </div>
+                        )}
                         <div className="relative">
                             <label className="block text-gray-700 dark:text-neutral-300 text-sm font-bold mb-2">{t('fieldLocation')} *</label>
                             <div className="relative">
@@ -653,6 +812,7 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
                                     value={location}
                                     onChange={(e) => {
                                         setLocation(e.target.value);
+                                        setFieldId('');
                                         searchLocation(e.target.value);
                                     }}
                                     onFocus={() => searchSuggestions.length > 0 && setShowSuggestions(true)}
@@ -700,6 +860,9 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
                                     url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
                                     attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
                                 />
+                                {selectedField?.boundary && (
+                                    <Polygon positions={selectedField.boundary.map(p => [p.lat, p.lng] as [number, number])} pathOptions={{ color: '#16a34a', fillOpacity: 0.25 }} />
+                                )}
                                 <LocationMarker />
                             </MapContainer>
                         </div>
@@ -727,40 +890,22 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
                     <div className="border-t pt-4 space-y-2 dark:border-neutral-700">
                         {durationInHours > 0 && priceEstimates.total.max > 0 ? (
                             <>
-                                {/* Detailed Price Breakdown */}
-                                {priceEstimates.total.max > 0 && (() => {
-                                    // Check for active surge - simplified check for UI feedback
-                                    // ideally we'd get this from the calculation, but this works for display
-                                    const district = locationDetails.district?.trim().toLowerCase() || '';
-                                    const mandal = locationDetails.mandal?.trim().toLowerCase() || locationDetails.city?.trim().toLowerCase() || '';
-                                    const activeRule = pricingRules.find(r =>
-                                        r.isActive &&
-                                        ((r.district.toLowerCase() === district && r.mandal.toLowerCase() === mandal) ||
-                                            (r.district.toLowerCase() === district && r.mandal === 'ALL') ||
-                                            (r.district === 'ALL' && r.mandal === 'ALL')) &&
-                                        (!r.category || r.category === itemCategory) &&
-                                        r.multiplier > 1
-                                    );
-
-                                    if (activeRule) {
-                                        return (
-                                            <div className="mb-2 bg-orange-100 dark:bg-orange-900/30 border border-orange-200 dark:border-orange-800 rounded-lg p-2 flex items-center justify-between">
-                                                <div className="flex items-center space-x-2">
-                                                    <svg className="w-4 h-4 text-orange-600 dark:text-orange-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
-                                                    </svg>
-                                                    <span className="text-sm font-medium text-orange-800 dark:text-orange-300">
-                                                        {activeRule.seasonName || 'High Demand'} Pricing
-                                                    </span>
-                                                </div>
-                                                <span className="text-xs font-bold text-orange-700 dark:text-orange-400 bg-orange-200 dark:bg-orange-800 px-1.5 py-0.5 rounded">
-                                                    {activeRule.multiplier}x
-                                                </span>
-                                            </div>
-                                        );
-                                    }
-                                    return null;
-                                })()}
+                                {/* Seasonal and area pricing in the quote */}
+                                {priceAdjustments.map(adjustment => (
+                                    <div key={adjustment.name} className={`mb-2 rounded-lg p-2 flex items-center justify-between border ${adjustment.multiplier > 1 ? 'bg-orange-100 dark:bg-orange-900/30 border-orange-200 dark:border-orange-800' : 'bg-green-100 dark:bg-green-900/30 border-green-200 dark:border-green-800'}`}>
+                                        <div className="flex items-center space-x-2">
+                                            <svg className={`w-4 h-4 ${adjustment.multiplier > 1 ? 'text-orange-600 dark:text-orange-400' : 'text-green-600 dark:text-green-400 rotate-90'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+                                            </svg>
+                                            <span className={`text-sm font-medium ${adjustment.multiplier > 1 ? 'text-orange-800 dark:text-orange-300' : 'text-green-800 dark:text-green-300'}`}>
+                                                {adjustment.name} Pricing
+                                            </span>
+                                        </div>
+                                        <span className={`text-xs font-bold px-1.5 py-0.5 rounded ${adjustment.multiplier > 1 ? 'text-orange-700 dark:text-orange-400 bg-orange-200 dark:bg-orange-800' : 'text-green-700 dark:text-green-400 bg-green-200 dark:bg-green-800'}`}>
+                                            {adjustment.multiplier > 1 ? `${adjustment.multiplier}x` : `${Math.round((1 - adjustment.multiplier) * 100)}% off`}
+                                        </span>
+                                    </div>
+                                ))}
                                 <div className="space-y-1 text-sm">
                                     <div className="flex justify-between text-neutral-700 dark:text-neutral-300">
                                         <span>Equipment Cost</span>
@@ -776,10 +921,10 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
                                         <span>Platform Fee (0%)</span>
                                         <span>{formatRange(priceEstimates.platformFee.min, priceEstimates.platformFee.max)}</span>
                                     </div>
-                                    {priceEstimates.travelCharges.min > 0 && (
+                                    {priceEstimates.travelCharges.max > 0 && (
                                         <div className="flex justify-between text-yellow-600 dark:text-yellow-400">
                                             <span>Travel Charges (Far from supplier)</span>
-                                            <span>+ ₹{priceEstimates.travelCharges.min.toLocaleString()}</span>
+                                            <span>+ {formatRange(priceEstimates.travelCharges.min, priceEstimates.travelCharges.max)}</span>
                                         </div>
                                     )}
                                     {priceEstimates.additionalCharges.min > 0 && (
@@ -795,13 +940,52 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
                                     <span>{t('estTotalPrice')}</span>
                                     <span>{formatRange(priceEstimates.total.min, priceEstimates.total.max)}</span>
                                 </div>
+                                {seriesDateCount > 1 && (
+                                    <div className="flex justify-between text-sm text-neutral-700 dark:text-neutral-300">
+                                        <span>Series of {seriesDateCount} bookings (est.)</span>
+                                        <span>₹{(priceEstimates.total.max * seriesDateCount).toLocaleString()}</span>
+                                    </div>
+                                )}
+                                {appliedCoupon && (
+                                    <>
+                                        <div className="flex justify-between text-sm text-green-600 dark:text-green-400">
+                                            <span>Coupon {appliedCoupon.code}</span>
+                                            <span>- ₹{appliedCoupon.discountAmount.toLocaleString()}</span>
+                                        </div>
+                                        <div className="flex justify-between font-bold text-neutral-800 dark:text-neutral-100">
+                                            <span>You Pay (est.)</span>
+                                            <span>₹{quote!.total.toLocaleString()}</span>
+                                        </div>
+                                    </>
+                                )}
+                                {repeatMode === 'none' && <div className="pt-2">
+                                    <div className="flex gap-2">
+                                        <input
+                                            value={couponCode}
+                                            onChange={e => { setCouponCode(e.target.value.toUpperCase()); setCouponError(''); }}
+                                            placeholder="Coupon code"
+                                            className="flex-grow px-3 py-2 rounded-lg border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-sm uppercase"
+                                        />
+                                        {appliedCoupon ? (
+                                            <button type="button" onClick={() => { setAppliedCouponCode(null); setCouponCode(''); }} className="px-3 text-sm font-semibold text-red-600">Remove</button>
+                                        ) : (
+                                            <button type="button" onClick={handleApplyCoupon} disabled={isApplyingCoupon || !couponCode.trim()} className="px-3 text-sm font-semibold text-primary disabled:opacity-50">
+                                                {isApplyingCoupon ? 'Checking…' : 'Apply'}
+                                            </button>
+                                        )}
+                                    </div>
+                                    {couponError && <p className="text-xs text-red-600 mt-1">{couponError}</p>}
+                                    {appliedCoupon?.description && <p className="text-xs text-green-600 mt-1">{appliedCoupon.description}</p>}
+                                </div>}
                                 <div className="text-right text-xs text-neutral-600 dark:text-neutral-400">
-                                    {`For approx. ${billableHours} hours`}
+                                    {billingBasis}
                                 </div>
                             </>
                         ) : (
                             <div className="text-center text-sm text-neutral-600 dark:text-neutral-400 py-4">
-                                {applicableItems.length === 0 ? "No services available for this purpose." : "Please enter a valid duration."}
+                                {applicableItems.length === 0 ? "No services available for this purpose."
+                                    : durationInHours <= 0 ? "Please enter a valid duration."
+                                        : quoteError || 'Calculating price…'}
                             </div>
                         )}
                     </div>
@@ -812,7 +996,7 @@ const BookingFormScreen: React.FC<BookingFormScreenProps> = ({ navigate, goBack,
                                 ? "Your request will be sent directly to this item's supplier for confirmation."
                                 : "Your request will be sent to all available suppliers. The first to accept will confirm the booking."}
                         </p>
-                        <Button type="submit" disabled={isLoading || durationInHours <= 0 || applicableItems.length === 0 || isDateBlocked}>
+                        <Button type="submit" disabled={isLoading || durationInHours <= 0 || applicableItems.length === 0 || !quote || isDateBlocked || !!slotUnavailableReason}>
                             {isLoading ? 'Processing...' : (isDirectRequest ? t('confirmBooking') || 'Confirm Booking' : t('createBookingRequest') || 'Create Booking Request')}
                         </Button>
                     </div>
@@ -1,10 +1,13 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { useBooking } from '../context/BookingContext';
 import { useItem } from '../context/ItemContext';
 import Header from '../components/Header';
+import BookingTimeline from '../components/BookingTimeline';
 import { AppView, Booking } from '../types';
 import { useLanguage } from '../context/LanguageContext';
+import { useToast } from '../context/ToastContext';
+import { downloadInvoice } from '../src/lib/invoices';
 
 interface BookingHistoryScreenProps {
   navigate: (view: AppView) => void;
@@ -16,6 +19,8 @@ const BookingHistoryScreen: React.FC<BookingHistoryScreenProps> = ({ navigate, g
   const { bookings, cancelBooking } = useBooking();
   const { items } = useItem();
   const { t } = useLanguage();
+  const { showToast } = useToast();
+  const [timelineFor, setTimelineFor] = useState<string | null>(null);
 
   const isSupplier = user?.role === 'Supplier';
   const history = bookings.filter(b => (
@@ -72,9 +77,28 @@ const BookingHistoryScreen: React.FC<BookingHistoryScreenProps> = ({ navigate, g
                     <div className="p-2 bg-neutral-50 dark:bg-neutral-600 rounded-md">Supplier Payout: ₹{(b.paymentDetails.supplierAmount || 0).toLocaleString()}</div>
                   </div>
                 )}
-                <div className="mt-3 text-right text-sm font-bold">
-                  <span>Total: ₹{(b.finalPrice ?? b.estimatedPrice ?? 0).toLocaleString()}</span>
+                <div className="mt-3 flex justify-between items-center text-sm">
+                  <button
+                    onClick={() => setTimelineFor(timelineFor === b.id ? null : b.id)}
+                    className="text-xs text-primary font-semibold hover:underline"
+                  >
+                    {timelineFor === b.id ? 'Hide timeline' : 'View timeline'}
+                  </button>
+                  {b.status === 'Completed' && (
+                    <button
+                      onClick={() => downloadInvoice(b.id).catch(err => showToast(err.message, 'error'))}
+                      className="text-xs text-primary font-semibold hover:underline"
+                    >
+                      Download invoice
+                    </button>
+                  )}
+                  <span className="font-bold">Total: ₹{(b.finalPrice ?? b.estimatedPrice ?? 0).toLocaleString()}</span>
                 </div>
+                {timelineFor === b.id && (
+                  <div className="mt-3 border-t border-neutral-100 dark:border-neutral-600 pt-3">
+                    <BookingTimeline bookingId={b.id} compact />
+                  </div>
+                )}
 
                 {
                   (b.status === 'Confirmed' || b.status === 'Arrived') && (
@@ -1,8 +1,9 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { useBooking } from '../context/BookingContext';
 import { useItem } from '../context/ItemContext';
-import { AppView, Item } from '../types';
+import { AppView, LedgerLineKind, SupplierLedger } from '../types';
+import { authFetch } from '../src/lib/authUtils';
 import Header from '../components/Header';
 import {
     BarChart,
@@ -19,6 +20,26 @@ import {
     Cell
 } from 'recharts';
 
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+const LINE_LABELS: Record<LedgerLineKind, string> = {
+    farmer_payment: 'Farmer payment',
+    advance: 'Advance',
+    cash_collected: 'Cash collected',
+    commission: 'Commission',
+    distance_charge: 'Distance charge',
+    discount: 'Discount',
+    supplier_earning: 'Job earning',
+    cancellation_fee: 'Cancellation fee',
+    refund: 'Refund',
+    supplier_penalty: 'Cancellation penalty',
+    payout: 'Payout',
+    wallet_top_up: 'Wallet top-up',
+    wallet_credit: 'Wallet credit',
+    wallet_payment: 'Wallet payment',
+    subscription: 'Verified plan',
+};
+
 interface EarningsDetailsScreenProps {
     navigate: (view: AppView) => void;
     goBack: () => void;
@@ -29,18 +50,32 @@ const EarningsDetailsScreen: React.FC<EarningsDetailsScreenProps> = ({ navigate,
     const { bookings } = useBooking();
     const { items } = useItem();
     const [timeframe, setTimeframe] = useState<'weekly' | 'monthly'>('weekly');
+    const [ledger, setLedger] = useState<SupplierLedger | null>(null);
+    const [ledgerError, setLedgerError] = useState<string | null>(null);
+
+    // Earnings come from the backend ledger (after commission, cash and penalties)
+    useEffect(() => {
+        if (!user) return;
+        const fetchLedger = async () => {
+            try {
+                const res = await authFetch(`${API_URL}/suppliers/${user.id}/ledger`);
+                if (!res.ok) throw new Error('Failed to load earnings');
+                setLedger(await res.json());
+                setLedgerError(null);
+            } catch (e) {
+                setLedgerError((e as Error).message);
+            }
+        };
+        fetchLedger();
+    }, [user]);
+
+    // Ledger lines that are income for the supplier (job share + distance charges)
+    const earningLines = useMemo(
+        () => (ledger?.lines || []).filter(l => l.kind === 'supplier_earning' || l.kind === 'distance_charge'),
+        [ledger]
+    );
 
-    const supplierItems = useMemo(() => items.filter(i => i.ownerId === user?.id), [items, user]);
-    const supplierItemIds = useMemo(() => supplierItems.map(i => i.id), [supplierItems]);
-
-    // Filter completed bookings for this supplier
-    const completedBookings = useMemo(() => {
-        return bookings.filter(b =>
-            b.itemId &&
-            supplierItemIds.includes(b.itemId) &&
-            b.status === 'Completed'
-        ).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    }, [bookings, supplierItemIds]);
+    const bookingById = useMemo(() => new Map(bookings.map(b => [b.id, b])), [bookings]);
 
     // Financial Metrics
     const metrics = useMemo(() => {
@@ -56,28 +91,25 @@ const EarningsDetailsScreen: React.FC<EarningsDetailsScreenProps> = ({ navigate,
         const oneWeekAgo = new Date();
         oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
 
-        completedBookings.forEach(b => {
-            const amount = b.supplierPaymentAmount || b.finalPrice || 0;
-            const date = new Date(b.date);
-            const dateStr = b.date;
-
-            total += amount;
+        earningLines.forEach(l => {
+            const date = new Date(l.createdAt);
+            total += l.amount;
 
             if (date.getMonth() === currentMonth && date.getFullYear() === currentYear) {
-                monthly += amount;
+                monthly += l.amount;
             }
 
             if (date >= oneWeekAgo) {
-                weekly += amount;
+                weekly += l.amount;
             }
 
-            if (dateStr === todayStr) {
-                daily += amount;
+            if (l.createdAt.startsWith(todayStr)) {
+                daily += l.amount;
             }
         });
 
         return { total, monthly, weekly, daily };
-    }, [completedBookings]);
+    }, [earningLines]);
 
     // Chart Data - Revenue Trend
     const trendData = useMemo(() => {
@@ -92,10 +124,10 @@ const EarningsDetailsScreen: React.FC<EarningsDetailsScreenProps> = ({ navigate,
             data[d.toISOString().split('T')[0]] = 0;
         }
 
-        completedBookings.forEach(b => {
-            const dateStr = b.date; // Assuming YYYY-MM-DD
+        earningLines.forEach(l => {
+            const dateStr = l.createdAt.split('T')[0];
             if (data[dateStr] !== undefined) {
-                data[dateStr] += b.supplierPaymentAmount || b.finalPrice || 0;
+                data[dateStr] += l.amount;
             }
         });
 
@@ -105,50 +137,46 @@ const EarningsDetailsScreen: React.FC<EarningsDetailsScreenProps> = ({ navigate,
                 date: new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
                 amount
             }));
-    }, [completedBookings, timeframe]);
+    }, [earningLines, timeframe]);
 
     // Chart Data - Equipment Performance
     const equipmentData = useMemo(() => {
         const data: Record<string, number> = {};
 
-        completedBookings.forEach(b => {
-            if (b.itemId) {
-                const item = items.find(i => i.id === b.itemId);
-                const name = item ? item.name : `Item #${b.itemId}`;
-                data[name] = (data[name] || 0) + (b.supplierPaymentAmount || b.finalPrice || 0);
+        earningLines.forEach(l => {
+            const booking = l.bookingId ? bookingById.get(l.bookingId) : undefined;
+            if (booking?.itemId) {
+                const item = items.find(i => i.id === booking.itemId);
+                const name = item ? item.name : `Item #${booking.itemId}`;
+                data[name] = (data[name] || 0) + l.amount;
             }
         });
 
         return Object.entries(data)
             .map(([name, value]) => ({ name, value }))
             .sort((a, b) => b.value - a.value);
-    }, [completedBookings, items]);
+    }, [earningLines, bookingById, items]);
 
     // Additional Metrics
     const extraMetrics = useMemo(() => {
-        let pending = 0;
         let cancelledLost = 0;
         const categoryMap: Record<string, number> = {};
 
         bookings.forEach(b => {
-            if (b.itemId && supplierItemIds.includes(b.itemId)) {
-                if (b.status === 'Pending Payment') {
-                    pending += b.supplierPaymentAmount || b.estimatedPrice || 0;
-                }
-                if (b.status === 'Cancelled') {
-                    cancelledLost += b.estimatedPrice || 0;
-                }
-
-                // For Best Category
-                if (b.status === 'Completed') {
-                    const amount = b.supplierPaymentAmount || b.finalPrice || 0;
-                    categoryMap[b.itemCategory] = (categoryMap[b.itemCategory] || 0) + amount;
-                }
+            if (b.supplierId === user?.id && b.status === 'Cancelled') {
+                cancelledLost += b.estimatedPrice || 0;
             }
         });
 
-        const totalBookingsCount = completedBookings.length;
-        const aov = totalBookingsCount > 0 ? metrics.total / totalBookingsCount : 0;
+        earningLines.forEach(l => {
+            const booking = l.bookingId ? bookingById.get(l.bookingId) : undefined;
+            if (booking) {
+                categoryMap[booking.itemCategory] = (categoryMap[booking.itemCategory] || 0) + l.amount;
+            }
+        });
+
+        const jobCount = new Set(earningLines.map(l => l.bookingId)).size;
+        const aov = jobCount > 0 ? metrics.total / jobCount : 0;
 
         let bestCategory = 'N/A';
         let maxRev = 0;
@@ -159,8 +187,8 @@ const EarningsDetailsScreen: React.FC<EarningsDetailsScreenProps> = ({ navigate,
             }
         });
 
-        return { pending, cancelledLost, aov, bestCategory };
-    }, [bookings, supplierItemIds, metrics.total, completedBookings.length]);
+        return { cancelledLost, aov, bestCategory };
+    }, [bookings, user, earningLines, bookingById, metrics.total]);
 
     const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8'];
 
@@ -189,6 +217,32 @@ const EarningsDetailsScreen: React.FC<EarningsDetailsScreenProps> = ({ navigate,
                     </div>
                 </div>
 
+                {ledgerError && (
+                    <p className="text-sm text-red-600 dark:text-red-400">{ledgerError}</p>
+                )}
+
+                {/* Ledger Summary */}
+                {ledger && (
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                        <div className="bg-white dark:bg-neutral-800 p-4 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-700">
+                            <p className="text-xs text-neutral-500 dark:text-neutral-400">Platform Commission</p>
+                            <p className="text-lg font-bold text-neutral-800 dark:text-neutral-100">₹{ledger.summary.commission.toLocaleString()}</p>
+                        </div>
+                        <div className="bg-white dark:bg-neutral-800 p-4 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-700">
+                            <p className="text-xs text-neutral-500 dark:text-neutral-400">Cash Collected</p>
+                            <p className="text-lg font-bold text-neutral-800 dark:text-neutral-100">₹{ledger.summary.cashCollected.toLocaleString()}</p>
+                        </div>
+                        <div className="bg-white dark:bg-neutral-800 p-4 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-700">
+                            <p className="text-xs text-neutral-500 dark:text-neutral-400">Penalties</p>
+                            <p className="text-lg font-bold text-red-500 dark:text-red-400">₹{ledger.summary.penalties.toLocaleString()}</p>
+                        </div>
+                        <div className="bg-white dark:bg-neutral-800 p-4 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-700">
+                            <p className="text-xs text-neutral-500 dark:text-neutral-400">Paid Out</p>
+                            <p className="text-lg font-bold text-green-600 dark:text-green-400">₹{ledger.summary.paidOut.toLocaleString()}</p>
+                        </div>
+                    </div>
+                )}
+
                 {/* Extra Insights Grid */}
                 <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
                     <div className="bg-white dark:bg-neutral-800 p-4 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-700">
@@ -196,8 +250,8 @@ const EarningsDetailsScreen: React.FC<EarningsDetailsScreenProps> = ({ navigate,
                         <p className="text-lg font-bold text-purple-600 dark:text-purple-400">₹{Math.round(extraMetrics.aov).toLocaleString()}</p>
                     </div>
                     <div className="bg-white dark:bg-neutral-800 p-4 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-700">
-                        <p className="text-xs text-neutral-500 dark:text-neutral-400">Pending Payments</p>
-                        <p className="text-lg font-bold text-yellow-600 dark:text-yellow-400">₹{extraMetrics.pending.toLocaleString()}</p>
+                        <p className="text-xs text-neutral-500 dark:text-neutral-400">Payout Due</p>
+                        <p className="text-lg font-bold text-yellow-600 dark:text-yellow-400">₹{(ledger?.balance || 0).toLocaleString()}</p>
                     </div>
                     <div className="bg-white dark:bg-neutral-800 p-4 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-700">
                         <p className="text-xs text-neutral-500 dark:text-neutral-400">Best Performing</p>
@@ -276,45 +330,72 @@ const EarningsDetailsScreen: React.FC<EarningsDetailsScreenProps> = ({ navigate,
                     </div>
                 </div>
 
+                {/* Weekly Settlements */}
+                {ledger && ledger.settlements.length > 0 && (
+                    <div className="bg-white dark:bg-neutral-800 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-700 overflow-hidden">
+                        <div className="p-6 border-b border-neutral-200 dark:border-neutral-700">
+                            <h3 className="font-bold text-lg text-neutral-800 dark:text-white">Payouts</h3>
+                        </div>
+                        <div className="divide-y divide-neutral-200 dark:divide-neutral-700">
+                            {ledger.settlements.map(s => (
+                                <div key={s.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                                    <div>
+                                        <p className="font-medium text-neutral-900 dark:text-white">Week {s.periodStart} – {s.periodEnd}</p>
+                                        <p className="text-xs text-neutral-500">
+                                            Earned ₹{s.earnings.toLocaleString()} • Cash ₹{s.cashCollected.toLocaleString()} • Penalties ₹{s.penalties.toLocaleString()}
+                                            {s.payoutReference && ` • Ref ${s.payoutReference}`}
+                                        </p>
+                                    </div>
+                                    <div className="text-right">
+                                        <p className="font-bold text-neutral-900 dark:text-white">₹{s.netPayable.toLocaleString()}</p>
+                                        <span className={`text-xs font-semibold ${s.status === 'paid' ? 'text-green-600' : s.status === 'failed' ? 'text-red-600' : 'text-yellow-600'}`}>
+                                            {s.status}
+                                        </span>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 {/* Detailed Transactions Table */}
                 <div className="bg-white dark:bg-neutral-800 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-700 overflow-hidden">
                     <div className="p-6 border-b border-neutral-200 dark:border-neutral-700">
                         <h3 className="font-bold text-lg text-neutral-800 dark:text-white">Transaction History</h3>
                     </div>
-                    {completedBookings.length > 0 ? (
+                    {ledger && ledger.lines.length > 0 ? (
                         <div className="overflow-x-auto">
                             <table className="w-full text-left text-sm text-neutral-600 dark:text-neutral-300">
                                 <thead className="bg-neutral-50 dark:bg-neutral-700/50 text-neutral-900 dark:text-neutral-100 font-semibold uppercase tracking-wider text-xs">
                                     <tr>
                                         <th className="px-6 py-4">Date</th>
                                         <th className="px-6 py-4">Item</th>
-                                        <th className="px-6 py-4">Customer</th>
+                                        <th className="px-6 py-4">Type</th>
                                         <th className="px-6 py-4">Status</th>
                                         <th className="px-6 py-4 text-right">Amount</th>
                                     </tr>
                                 </thead>
                                 <tbody className="divide-y divide-neutral-200 dark:divide-neutral-700">
-                                    {completedBookings.map((booking) => {
-                                        const item = items.find(i => i.id === booking.itemId);
+                                    {ledger.lines.map((line, index) => {
+                                        const booking = line.bookingId ? bookingById.get(line.bookingId) : undefined;
+                                        const item = booking ? items.find(i => i.id === booking.itemId) : undefined;
                                         return (
-                                            <tr key={booking.id} className="hover:bg-neutral-50 dark:hover:bg-neutral-700/50 transition-colors">
+                                            <tr key={`${line.entryId}-${index}`} className="hover:bg-neutral-50 dark:hover:bg-neutral-700/50 transition-colors">
                                                 <td className="px-6 py-4 whitespace-nowrap">
-                                                    {new Date(booking.date).toLocaleDateString()}
-                                                    <div className="text-xs text-neutral-400">{booking.startTime}</div>
+                                                    {new Date(line.createdAt).toLocaleDateString()}
+                                                    {line.bookingId && <div className="text-xs text-neutral-400">#{line.bookingId.substring(0, 8)}</div>}
                                                 </td>
                                                 <td className="px-6 py-4 font-medium text-neutral-900 dark:text-white">
-                                                    {item?.name || booking.itemCategory}
-                                                </td>
-                                                <td className="px-6 py-4">
-                                                    Customer #{booking.farmerId.substring(0, 6)}
+                                                    {item?.name || booking?.itemCategory || '-'}
                                                 </td>
+                                                <td className="px-6 py-4">{LINE_LABELS[line.kind]}</td>
                                                 <td className="px-6 py-4">
-                                                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
-                                                        {booking.status}
+                                                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${line.settlementId ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'}`}>
+                                                        {line.settlementId ? 'Settled' : 'Unsettled'}
                                                     </span>
                                                 </td>
-                                                <td className="px-6 py-4 text-right font-bold text-neutral-900 dark:text-white">
-                                                    ₹{(booking.supplierPaymentAmount || booking.finalPrice || 0).toLocaleString()}
+                                                <td className={`px-6 py-4 text-right font-bold ${line.amount < 0 ? 'text-red-600 dark:text-red-400' : 'text-neutral-900 dark:text-white'}`}>
+                                                    {line.amount < 0 ? '-' : ''}₹{Math.abs(line.amount).toLocaleString()}
                                                 </td>
                                             </tr>
                                         );
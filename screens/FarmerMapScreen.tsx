@@ -1,10 +1,11 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { AppView, Item, ItemCategory } from '../types';
-import { MapContainer, TileLayer, Marker, useMap, Circle } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, useMap, Circle, Polygon, CircleMarker, Tooltip } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css'; // CRITICAL: This must be imported for the map to render
 import ItemCard from '../components/ItemCard';
+import { useFields } from '../hooks/useFields';
 
 interface FarmerMapScreenProps {
     items: Item[];
@@ -78,6 +79,7 @@ const MapInvalidator = () => {
 
 const FarmerMapScreen: React.FC<FarmerMapScreenProps> = ({ items, navigate, userLocation }) => {
     const [selectedItem, setSelectedItem] = useState<Item | null>(null);
+    const { fields } = useFields();
     const heatData = useMemo(() => {
         const bins: Record<string, { lat: number; lng: number; count: number }> = {};
         items.forEach(i => {
@@ -129,6 +131,17 @@ const FarmerMapScreen: React.FC<FarmerMapScreenProps> = ({ items, navigate, user
                         pathOptions={{ color: 'red', fillColor: 'red', fillOpacity: Math.min(0.1 + h.count * 0.05, 0.4) }} />
                 ))}
 
+                {/* The farmer's own plots; pinned-only fields show as a dot */}
+                {fields.map(field => field.boundary ? (
+                    <Polygon key={field.id} positions={field.boundary.map(p => [p.lat, p.lng] as [number, number])} pathOptions={{ color: '#16a34a', fillColor: '#22c55e', fillOpacity: 0.3, weight: 2 }}>
+                        <Tooltip>{field.name} · {field.acres} acres{field.currentCrop ? ` · ${field.currentCrop}` : ''}</Tooltip>
+                    </Polygon>
+                ) : (
+                    <CircleMarker key={field.id} center={[field.center.lat, field.center.lng]} radius={8} pathOptions={{ color: '#16a34a', fillColor: '#22c55e', fillOpacity: 0.6 }}>
+                        <Tooltip>{field.name} · {field.acres} acres{field.currentCrop ? ` · ${field.currentCrop}` : ''}</Tooltip>
+                    </CircleMarker>
+                ))}
+
                 {items.map(item => {
                     if (!item.locationCoords) return null;
                     return (
@@ -19,7 +19,7 @@ import Header from '../components/Header';
 import BottomNav, { NavItemConfig } from '../components/BottomNav';
 import ItemCard from '../components/ItemCard';
 import Button from '../components/Button';
-import ConfirmationDialog from '../components/ConfirmationDialog';
+import CancelBookingDialog from '../components/CancelBookingDialog';
 import NotificationBell from '../components/NotificationBell';
 import { useChat } from '../context/ChatContext';
 import { useNotification } from '../context/NotificationContext';
@@ -31,6 +31,8 @@ import { useLanguage } from '../context/LanguageContext';
 import AiSuggestionsModal from './AiSuggestionsModal';
 import { useWeather } from '../context/WeatherContext';
 import AppSidebar from '../components/AppSidebar';
+import SuspensionBanner from '../components/SuspensionBanner';
+import { getItemDayOffReason } from '../utils/availability';
 
 const apiKey = typeof process !== 'undefined' && process.env && process.env.API_KEY
     ? process.env.API_KEY
@@ -255,7 +257,7 @@ export const FarmerHomeScreen: React.FC<FarmerViewProps> = ({ navigate, roleBadg
                 if (hasBookingConflict) return false;
 
                 const owner = allUsers.find(u => u.id === item.ownerId);
-                if (owner?.blockedDates?.includes(filterDate)) {
+                if (getItemDayOffReason(item, owner, filterDate)) {
                     return false;
                 }
 
@@ -441,22 +443,7 @@ export const FarmerHomeScreen: React.FC<FarmerViewProps> = ({ navigate, roleBadg
 
                 {/* Suspension / Blocked Banner */}
                 {(user?.userStatus === 'suspended' || user?.userStatus === 'blocked') && (
-                    <div className={`${user.userStatus === 'blocked' ? 'bg-red-700' : 'bg-red-500'} text-white p-4 mb-3 rounded-lg flex items-center shadow-lg animate-pulse`}>
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 mr-3 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-                        </svg>
-                        <div>
-                            <p className="font-bold text-lg uppercase">Account {user.userStatus}</p>
-                            <p className="text-sm font-medium mb-1">
-                                Your account is {user.userStatus} until {user.suspendedUntil ? new Date(user.suspendedUntil).toLocaleString() : 'further notice'}.
-                            </p>
-                            {user.userStatus === 'blocked' && (
-                                <p className="text-xs font-bold underline cursor-pointer" onClick={() => {/* Simple alert or nav to complaint */ alert('Please email admin@agrirent.com to raise a complaint.'); }}>
-                                    Contact Admin to Raise a Complaint
-                                </p>
-                            )}
-                        </div>
-                    </div>
+                    <SuspensionBanner user={user} className="mb-3" />
                 )}
 
                 {/* Search bar with icons */}
@@ -833,7 +820,7 @@ const FarmerMapView: React.FC<FarmerViewProps> = ({ navigate }) => {
                 if (!filterDate) return true;
                 if (bookings.some(b => b.itemId === item.id && b.date === filterDate && !['Cancelled', 'Completed', 'Expired'].includes(b.status))) return false;
                 const owner = allUsers.find(u => u.id === item.ownerId);
-                return !owner?.blockedDates?.includes(filterDate);
+                return !getItemDayOffReason(item, owner, filterDate);
             };
             return matchesSearch && matchesCategory && matchesPrice && matchesRating && matchesAvailability && isAvailableOnDate();
         });
@@ -967,7 +954,7 @@ const FarmerMapView: React.FC<FarmerViewProps> = ({ navigate }) => {
 
 const FarmerBookingsScreen: React.FC<FarmerViewProps> = ({ navigate }) => {
     const { user, allUsers } = useAuth();
-    const { bookings, cancelBooking, raiseDispute, completeBooking, makeFinalPayment, loadMoreBookings, hasMoreBookings, isLoadingBookings } = useBooking();
+    const { bookings, cancelBooking, cancelBookingSeries, rescheduleBookingSeries, cancelSplitBooking, raiseDispute, completeBooking, reviewMeasuredAcres, loadMoreBookings, hasMoreBookings, isLoadingBookings } = useBooking();
     const { items } = useItem();
     const { reviews } = useReview();
     const { getUnreadMessageCount } = useChat();
@@ -993,11 +980,30 @@ const FarmerBookingsScreen: React.FC<FarmerViewProps> = ({ navigate }) => {
 
     const handleConfirmCancel = () => {
         if (bookingToCancel) {
-            cancelBooking(bookingToCancel.id);
+            // Split bookings with suppliers already on them cancel through their shares
+            if (bookingToCancel.splitTotal !== undefined && bookingToCancel.splitAllocated) cancelSplitBooking(bookingToCancel.id);
+            else cancelBooking(bookingToCancel.id);
         }
         setBookingToCancel(null);
     };
 
+    const handleCancelSeries = (recurrenceId: string) => {
+        if (window.confirm('Cancel all upcoming bookings in this series? Bookings already in progress are not affected.')) {
+            cancelBookingSeries(recurrenceId);
+        }
+    };
+
+    const handleRescheduleSeries = (booking: Booking) => {
+        const startTime = window.prompt('New start time for the remaining bookings (HH:MM), or leave blank to keep it', booking.startTime);
+        if (startTime === null) return;
+        const shift = window.prompt('Move the remaining dates by how many days? (e.g. 2 or -1, 0 to keep them)', '0');
+        if (shift === null) return;
+        const shiftDays = parseInt(shift) || 0;
+        const newStartTime = startTime.trim() && startTime.trim() !== booking.startTime ? startTime.trim() : undefined;
+        if (!newStartTime && !shiftDays) return;
+        rescheduleBookingSeries(booking.recurrenceId!, { ...(newStartTime ? { startTime: newStartTime } : {}), ...(shiftDays ? { shiftDays } : {}) });
+    };
+
     const hasReview = (bookingId: string) => {
         return reviews.some(review => review.bookingId === bookingId && review.reviewerId === user?.id);
     }
@@ -1108,6 +1114,7 @@ const FarmerBookingsScreen: React.FC<FarmerViewProps> = ({ navigate }) => {
                         const distance = userLocation && supplier?.locationCoords
                             ? calculateDistance(userLocation.lat, userLocation.lng, supplier.locationCoords.lat, supplier.locationCoords.lng)
                             : null;
+                        const series = booking.recurrenceId ? userBookings.filter(b => b.recurrenceId === booking.recurrenceId).sort((a, b) => a.date.localeCompare(b.date)) : [];
 
                         return (
                             <div key={booking.id} className="bg-white dark:bg-neutral-700 rounded-lg overflow-hidden shadow-sm border border-neutral-200 dark:border-neutral-600">
@@ -1170,9 +1177,47 @@ const FarmerBookingsScreen: React.FC<FarmerViewProps> = ({ navigate }) => {
                                         {booking.operatorRequired && (
                                             <p className="text-xs text-neutral-600 dark:text-neutral-400 mt-1">Operator Requested</p>
                                         )}
+
+                                        {/* Recurring series badge */}
+                                        {series.length > 1 && (
+                                            <span className="inline-block mt-1 text-xs font-medium px-2 py-0.5 rounded bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300">
+                                                Repeating • {series.findIndex(b => b.id === booking.id) + 1} of {series.length}
+                                            </span>
+                                        )}
+
+                                        {/* Split fulfilment: the parent shows coverage, each share its part */}
+                                        {booking.splitTotal !== undefined && (
+                                            <span className="inline-block mt-1 text-xs font-medium px-2 py-0.5 rounded bg-teal-100 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300">
+                                                Shared: {booking.splitAllocated || 0} of {booking.splitTotal} {booking.splitUnit} assigned
+                                            </span>
+                                        )}
+                                        {booking.parentBookingId && (
+                                            <span className="inline-block mt-1 text-xs font-medium px-2 py-0.5 rounded bg-teal-100 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300">
+                                                Share: {booking.shareAmount} of #{booking.parentBookingId.substring(0, 8)}
+                                            </span>
+                                        )}
                                     </div>
                                 </div>
 
+                                {/* Series actions apply to every upcoming date */}
+                                {booking.recurrenceId && ['Searching', 'Pending Confirmation', 'Confirmed'].includes(booking.status) && (
+                                    <div className="px-3 pb-2 flex justify-end space-x-3 text-xs font-semibold">
+                                        <button onClick={() => handleRescheduleSeries(booking)} className="text-primary hover:underline">Reschedule Series</button>
+                                        <button onClick={() => handleCancelSeries(booking.recurrenceId!)} className="text-red-600 hover:underline">Cancel Series</button>
+                                    </div>
+                                )}
+
+                                {/* Supplier reported different acres on a per-acre job */}
+                                {booking.acreMeasurementStatus === 'pending' && (
+                                    <div className="mx-3 mb-2 p-2 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-xs text-amber-800 dark:text-amber-200 flex items-center justify-between gap-2">
+                                        <span>Supplier measured {booking.measuredAcres} acres (booked {booking.acres ?? '?'}). New total ₹{booking.proposedFinalPrice?.toLocaleString()}.</span>
+                                        <div className="flex space-x-3 font-semibold whitespace-nowrap">
+                                            <button onClick={() => reviewMeasuredAcres(booking.id, true)} className="text-green-700 hover:underline">Approve</button>
+                                            <button onClick={() => reviewMeasuredAcres(booking.id, false)} className="text-red-600 hover:underline">Reject</button>
+                                        </div>
+                                    </div>
+                                )}
+
                                 {/* Action buttons */}
                                 <div className="px-3 pb-3 flex justify-end space-x-2">
                                     {booking.status === 'Cancelled' && (
@@ -1183,6 +1228,14 @@ const FarmerBookingsScreen: React.FC<FarmerViewProps> = ({ navigate }) => {
                                             View Details
                                         </button>
                                     )}
+                                    {item && ['Confirmed', 'Arrived', 'In Process'].includes(booking.status) && (
+                                        <button
+                                            onClick={() => navigate({ view: 'TRACKING', item, booking })}
+                                            className="px-4 py-2 text-sm font-medium text-primary border border-primary rounded-lg hover:bg-primary/10"
+                                        >
+                                            Track Live
+                                        </button>
+                                    )}
                                     {['Searching', 'Pending Confirmation', 'Awaiting Operator', 'Confirmed', 'Arrived'].includes(booking.status) && (
                                         <button
                                             onClick={() => setBookingToCancel(booking)}
@@ -1191,6 +1244,22 @@ const FarmerBookingsScreen: React.FC<FarmerViewProps> = ({ navigate }) => {
                                             Cancel Booking
                                         </button>
                                     )}
+                                    {['Searching', 'Pending Confirmation', 'Awaiting Operator', 'Confirmed'].includes(booking.status) && (booking.advanceAmount || 0) > 0 && !booking.advancePaymentId && (
+                                        <button
+                                            onClick={() => navigate({ view: 'PAYMENT', booking })}
+                                            className="px-4 py-2 text-sm font-medium text-primary border border-primary rounded-lg hover:bg-primary/10"
+                                        >
+                                            Pay Advance
+                                        </button>
+                                    )}
+                                    {booking.status === 'Pending Payment' && (
+                                        <button
+                                            onClick={() => navigate({ view: 'PAYMENT', booking })}
+                                            className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700"
+                                        >
+                                            Pay Now
+                                        </button>
+                                    )}
                                     {booking.status === 'Completed' && !hasReview(booking.id) && (
                                         <button
                                             onClick={() => navigate({ view: 'RATE_ITEM', booking })}
@@ -1231,12 +1300,8 @@ const FarmerBookingsScreen: React.FC<FarmerViewProps> = ({ navigate }) => {
 
             {
                 bookingToCancel && (
-                    <ConfirmationDialog
-                        title="Cancel Booking"
-                        message="Are you sure you want to cancel this booking?"
-                        note="This action cannot be undone."
-                        confirmText="Confirm"
-                        cancelText="Go Back"
+                    <CancelBookingDialog
+                        booking={bookingToCancel}
                         onConfirm={handleConfirmCancel}
                         onCancel={() => setBookingToCancel(null)}
                     />
@@ -1343,6 +1408,7 @@ const ProfileScreen: React.FC<FarmerViewProps> = ({ navigate, onSwitchMode, role
                         <h3 className="px-4 py-3 text-xs font-semibold text-neutral-500 dark:text-neutral-400 uppercase tracking-wider bg-neutral-50 dark:bg-neutral-800/50">{t('profile')}</h3>
                         <div className="divide-y divide-neutral-100 dark:divide-neutral-700">
                             <ProfileLink label={t('myAccount')} onClick={() => navigate({ view: 'MY_ACCOUNT' })} icon={icons.myAccount} />
+                            <ProfileLink label="Wallet" onClick={() => navigate({ view: 'WALLET' })} icon={icons.payment} />
                             <ProfileLink label={t('paymentHistory')} onClick={() => navigate({ view: 'PAYMENT_HISTORY' })} icon={icons.payment} />
                             <ProfileLink label={t('bookingHistory')} onClick={() => navigate({ view: 'BOOKING_HISTORY' })} icon={icons.booking} />
                             <ProfileLink label={t('settings')} onClick={() => navigate({ view: 'SETTINGS' })} icon={icons.settings} />
@@ -1410,6 +1476,9 @@ const FarmerView: React.FC<FarmerViewProps> = ({ navigate, onSwitchMode, roleBad
             case 'PAYMENT_HISTORY':
                 setActiveTab('paymentHistory');
                 break;
+            case 'WALLET':
+                setActiveTab('wallet');
+                break;
             case 'SETTINGS':
                 setActiveTab('settings');
                 break;
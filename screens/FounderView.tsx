@@ -19,6 +19,7 @@ import DemandGapsScreen from './admin/DemandGapsScreen';
 import SettingsScreen from './SettingsScreen';
 import MyAccountScreen from './MyAccountScreen';
 import ChatMonitoringScreen from './founder/ChatMonitoringScreen';
+import SuspensionPolicyScreen from './founder/SuspensionPolicyScreen';
 import NotificationBell from '../components/NotificationBell';
 import { useAuth } from '../context/AuthContext';
 import { useLanguage } from '../context/LanguageContext';
@@ -96,6 +97,8 @@ const FounderView: React.FC<FounderViewProps> = ({ navigate, children, currentVi
                 return 'My Account';
             case 'chat-monitor':
                 return 'Chat Monitor';
+            case 'suspension-policy':
+                return 'Suspension Policy';
             default:
                 return `Founder ${t(activeTab as TranslationKey)}`;
         }
@@ -163,6 +166,10 @@ const FounderView: React.FC<FounderViewProps> = ({ navigate, children, currentVi
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-orange-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
                 <span className="text-sm font-semibold text-neutral-700 dark:text-neutral-300 text-center">Demand Gaps</span>
             </button>
+            <button onClick={() => setActiveTab('suspension-policy')} className="p-4 bg-white dark:bg-neutral-800 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-700 flex flex-col items-center justify-center gap-2 hover:bg-neutral-50 dark:hover:bg-neutral-700 transition-colors">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" /></svg>
+                <span className="text-sm font-semibold text-neutral-700 dark:text-neutral-300 text-center">Suspension Policy</span>
+            </button>
         </div>
     );
 
@@ -204,6 +211,8 @@ const FounderView: React.FC<FounderViewProps> = ({ navigate, children, currentVi
                 return <ChatMonitoringScreen />;
             case 'demand-gaps':
                 return <DemandGapsScreen />;
+            case 'suspension-policy':
+                return <SuspensionPolicyScreen />;
         }
     };
 
@@ -9,6 +9,7 @@ import Header from '../components/Header';
 import Button from '../components/Button';
 import StarRating from '../components/StarRating';
 import { useAuth } from '../context/AuthContext';
+import { PRICING_UNIT_LABELS } from '../utils/pricing';
 
 interface ItemDetailScreenProps {
     item: Item;
@@ -42,6 +43,7 @@ const ItemDetailScreen: React.FC<ItemDetailScreenProps> = ({ item, navigate, goB
 
     const supplier = useMemo(() => allUsers.find(u => u.id === item.ownerId), [item.ownerId, allUsers]);
     const minPrice = useMemo(() => item.purposes.length > 0 ? Math.min(...item.purposes.map(p => p.price)) : 0, [item.purposes]);
+    const minPriceUnit = item.purposes.find(p => p.price === minPrice)?.unit || 'hour';
 
     // Check if item is currently booked based on actual booking data
     const isCurrentlyBooked = useMemo(() => {
@@ -172,7 +174,7 @@ const ItemDetailScreen: React.FC<ItemDetailScreenProps> = ({ item, navigate, goB
                     </div>
 
                     <div className="mt-4 border-t pt-4 dark:border-neutral-700">
-                        <p className="text-2xl font-bold text-primary">Starting from ₹{minPrice} <span className="text-lg font-normal text-neutral-900 dark:text-neutral-300">per hour</span></p>
+                        <p className="text-2xl font-bold text-primary">Starting from ₹{minPrice} <span className="text-lg font-normal text-neutral-900 dark:text-neutral-300">per {minPriceUnit}</span></p>
                     </div>
 
                     <div className="mt-6">
@@ -181,7 +183,10 @@ const ItemDetailScreen: React.FC<ItemDetailScreenProps> = ({ item, navigate, goB
                             {item.purposes.map(purpose => (
                                 <div key={purpose.name} className="flex justify-between text-sm">
                                     <span className="text-neutral-700 dark:text-neutral-300">{purpose.name}</span>
-                                    <span className="font-semibold text-neutral-900 dark:text-neutral-100">₹{purpose.price}/hr</span>
+                                    <span className="font-semibold text-neutral-900 dark:text-neutral-100">
+                                        ₹{purpose.price}/{PRICING_UNIT_LABELS[purpose.unit || 'hour']}
+                                        {purpose.minimumCharge ? <span className="block text-xs font-normal text-neutral-500 dark:text-neutral-400 text-right">min ₹{purpose.minimumCharge}</span> : null}
+                                    </span>
                                 </div>
                             ))}
                         </div>
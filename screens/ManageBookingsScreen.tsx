@@ -1,10 +1,37 @@
 import React, { useState, useMemo } from 'react';
-import { AppView, Booking, DamageReport } from '../types';
+import { AppView, ArrivalSource, Booking, DamageReport } from '../types';
 import { useBooking } from '../context/BookingContext';
 import { useAuth } from '../context/AuthContext';
 import { useItem } from '../context/ItemContext';
 import { formatDateTime, formatDate, formatTime } from '../utils/dateFormat';
 import Header from '../components/Header';
+import BookingTimeline from '../components/BookingTimeline';
+import ItemMaintenanceRecord from '../components/ItemMaintenanceRecord';
+import { regenerateInvoice } from '../src/lib/invoices';
+import { authFetch } from '../src/lib/authUtils';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+const ARRIVAL_SOURCE_LABELS: Record<ArrivalSource, string> = {
+    geofence: 'GPS verified',
+    manual: 'Reported by supplier',
+    admin: 'Corrected by admin',
+};
+
+// GPS missed the arrival (phone off, poor signal): record the real time so on-time scoring is fair
+const correctArrival = async (booking: Booking) => {
+    const time = window.prompt(`Actual arrival time on ${booking.date} (HH:MM)`, booking.arrivedAt ? new Date(booking.arrivedAt).toTimeString().slice(0, 5) : booking.startTime);
+    if (!time) return;
+    const reason = window.prompt('Reason for the correction (e.g. supplier phone had no GPS)');
+    if (!reason) return;
+
+    const res = await authFetch(`${API_URL}/admin/bookings/${booking.id}/arrival`, {
+        method: 'POST',
+        body: JSON.stringify({ arrivedAt: new Date(`${booking.date}T${time}`).toISOString(), reason })
+    });
+    const data = await res.json().catch(() => ({}));
+    window.alert(res.ok ? "Arrival time updated and the supplier's WAR recalculated." : (data.message || 'Could not update the arrival time.'));
+};
 
 const BookingAdminCard: React.FC<{
     booking: Booking,
@@ -150,6 +177,22 @@ const BookingDetailsModal: React.FC<{
                         )}
                     </div>
 
+                    {/* Arrival */}
+                    {['Arrived', 'In Process', 'Pending Payment', 'Completed'].includes(booking.status) && (
+                        <div className="flex items-center justify-between bg-white dark:bg-neutral-700/30 p-3 rounded-lg border border-neutral-100 dark:border-neutral-700">
+                            <div>
+                                <p className="text-xs font-semibold text-neutral-700 dark:text-neutral-300">Arrival</p>
+                                <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                                    {booking.arrivedAt ? `${formatTime(booking.arrivedAt)} • ${ARRIVAL_SOURCE_LABELS[booking.arrivalSource || 'manual']}` : 'Not recorded'}
+                                </p>
+                                {booking.arrivalOverrideReason && <p className="text-xs text-neutral-500 italic">{booking.arrivalOverrideReason}</p>}
+                            </div>
+                            <button onClick={() => correctArrival(booking)} className="text-xs font-semibold text-primary hover:underline">
+                                Correct Arrival Time
+                            </button>
+                        </div>
+                    )}
+
                     {/* Additional Instructions */}
                     {booking.additionalInstructions && (
                         <div className="bg-white dark:bg-neutral-700/30 p-3 rounded-lg border border-neutral-100 dark:border-neutral-700">
@@ -168,6 +211,11 @@ const BookingDetailsModal: React.FC<{
                                 <p className="text-sm font-bold text-red-700">Damage Reported</p>
                             </div>
                             <p className="text-sm text-neutral-700 dark:text-neutral-300 italic mb-3">"{damageReport.description}"</p>
+                            {damageReport.itemId && (
+                                <div className="mb-3 bg-white dark:bg-neutral-800 rounded-lg">
+                                    <ItemMaintenanceRecord itemId={damageReport.itemId} title="Machine Maintenance Record" />
+                                </div>
+                            )}
                             {damageReport.status === 'pending' ? (
                                 <button onClick={() => { onResolveDamage(damageReport.id); onClose(); }} className="w-full py-2 text-sm bg-white border border-red-200 text-red-700 font-semibold rounded-lg hover:bg-red-50 transition-colors shadow-sm">
                                     Resolve Claim
@@ -197,9 +245,29 @@ const BookingDetailsModal: React.FC<{
                             </button>
                         </div>
                     )}
+
+                    {/* Timeline */}
+                    <div>
+                        <p className="text-xs font-medium text-neutral-500 uppercase tracking-wider mb-2">Timeline</p>
+                        <BookingTimeline bookingId={booking.id} />
+                    </div>
                 </div>
 
                 {/* Footer Actions */}
+                {booking.status === 'Completed' && (
+                    <div className="bg-neutral-50 dark:bg-neutral-700/30 p-4 border-t border-neutral-100 dark:border-neutral-700 flex justify-end">
+                        <button
+                            onClick={() => {
+                                if (window.confirm('Rebuild this invoice from the current booking and supplier details? The invoice number stays the same.')) {
+                                    regenerateInvoice(booking.id).catch(err => window.alert(err.message));
+                                }
+                            }}
+                            className="px-4 py-2 text-sm font-medium text-primary bg-white border border-neutral-200 rounded-lg hover:bg-neutral-50 transition-colors shadow-sm"
+                        >
+                            Regenerate Invoice
+                        </button>
+                    </div>
+                )}
                 {booking.status !== 'Cancelled' && booking.status !== 'Completed' && (
                     <div className="bg-neutral-50 dark:bg-neutral-700/30 p-4 border-t border-neutral-100 dark:border-neutral-700 flex justify-end">
                         <button
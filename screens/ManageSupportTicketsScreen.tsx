@@ -5,6 +5,10 @@ import { useAuth } from '../context/AuthContext';
 import Header from '../components/Header';
 import Button from '../components/Button';
 import { useNotification } from '../context/NotificationContext';
+import { useToast } from '../context/ToastContext';
+import { authFetch } from '../src/lib/authUtils';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
 
 interface ManageSupportTicketsScreenProps {
     onBack: () => void;
@@ -14,6 +18,44 @@ const TicketCard: React.FC<{ ticket: SupportTicket, onResolve: (id: number) => v
     const [isChatOpen, setIsChatOpen] = useState(false);
     const [replyText, setReplyText] = useState('');
     const { user } = useAuth();
+    const { showToast } = useToast();
+
+    // Goodwill credits land in the user's promo wallet balance and are linked to this ticket
+    const handleGoodwillCredit = async () => {
+        const amount = Number(window.prompt(`Goodwill credit for ${ticket.name} (₹)`));
+        if (!amount || amount <= 0) return;
+        const note = window.prompt('Note shown to the user (optional)') || '';
+        try {
+            const res = await authFetch(`${API_URL}/admin/wallets/${ticket.userId}/credits`, {
+                method: 'POST',
+                body: JSON.stringify({ amount, type: 'goodwill_credit', note, ticketId: ticket.id })
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.message || data.error || 'Could not issue credit');
+            showToast(`₹${amount.toLocaleString()} credited to ${ticket.name}'s wallet`, 'success');
+        } catch (e) {
+            showToast((e as Error).message, 'error');
+        }
+    };
+
+    // Appeals against a suspension / block: lifting reactivates the account, both answer and close the ticket
+    const [appealDecision, setAppealDecision] = useState(ticket.appeal?.decision);
+    const handleAppealDecision = async (decision: 'lifted' | 'upheld') => {
+        const note = window.prompt(decision === 'lifted' ? 'Note to the user (optional)' : 'Why does it stay in place? (optional)');
+        if (note === null) return;
+        try {
+            const res = await authFetch(`${API_URL}/admin/suspension-appeals/${ticket.id}/decision`, {
+                method: 'POST',
+                body: JSON.stringify({ decision, note })
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.message || data.error || 'Could not record the decision');
+            setAppealDecision(decision);
+            showToast(decision === 'lifted' ? `${ticket.name}'s account reactivated` : 'Appeal upheld', 'success');
+        } catch (e) {
+            showToast((e as Error).message, 'error');
+        }
+    };
 
     const getStatusClasses = (status: SupportTicket['status']) => {
         switch (status) {
@@ -56,6 +98,23 @@ const TicketCard: React.FC<{ ticket: SupportTicket, onResolve: (id: number) => v
                     {ticket.status}
                 </span>
             </div>
+            {ticket.appeal && (
+                <div className="mt-2 p-2 rounded-md bg-red-50 dark:bg-red-900/30 text-xs text-red-800 dark:text-red-200 flex flex-wrap items-center justify-between gap-2">
+                    <span>
+                        Appeal against a {ticket.appeal.userStatus === 'blocked' ? 'block' : 'suspension'}
+                        {ticket.appeal.reason ? ` (${ticket.appeal.reason})` : ''}
+                        {ticket.appeal.suspendedUntil ? ` until ${new Date(ticket.appeal.suspendedUntil).toLocaleString()}` : ''}
+                    </span>
+                    {appealDecision ? (
+                        <span className="font-semibold capitalize">{appealDecision}</span>
+                    ) : (
+                        <span className="flex gap-2">
+                            <button onClick={() => handleAppealDecision('lifted')} className="px-2 py-1 rounded bg-green-600 text-white font-semibold">Lift</button>
+                            <button onClick={() => handleAppealDecision('upheld')} className="px-2 py-1 rounded bg-neutral-600 text-white font-semibold">Uphold</button>
+                        </span>
+                    )}
+                </div>
+            )}
             <p className="mt-2 text-neutral-700 dark:text-neutral-300 bg-neutral-50 dark:bg-neutral-700 p-3 rounded-md">{ticket.message}</p>
             {ticket.evidenceUrls && ticket.evidenceUrls.length > 0 && (
                 <div className="mt-2 flex gap-2 flex-wrap">
@@ -64,6 +123,11 @@ const TicketCard: React.FC<{ ticket: SupportTicket, onResolve: (id: number) => v
                     ))}
                 </div>
             )}
+            {ticket.userId && (
+                <div className="mt-2 text-right">
+                    <button onClick={handleGoodwillCredit} className="text-xs font-semibold text-primary hover:underline">Issue goodwill credit</button>
+                </div>
+            )}
 
             {isChatOpen && (
                 <div className="mt-3 border-t dark:border-neutral-600 pt-3 space-y-3">
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { AppView, User } from '../types';
+import { AppView, User, UserRole } from '../types';
 import Header from '../components/Header';
 import { useAuth } from '../context/AuthContext';
 import Input from '../components/Input';
@@ -120,7 +120,15 @@ const MyAccountScreen: React.FC<MyAccountScreenProps> = ({ goBack, navigate }) =
                     </div>
                 </div>
 
-
+                {user?.role === UserRole.Farmer && (
+                    <div
+                        className="bg-white dark:bg-neutral-800 p-4 rounded-lg cursor-pointer hover:bg-neutral-50 dark:hover:bg-neutral-700 transition-colors shadow-sm border border-neutral-200 dark:border-neutral-700"
+                        onClick={() => navigate({ view: 'MY_FIELDS' })}
+                    >
+                        <span className="text-neutral-900 dark:text-neutral-100 font-semibold text-lg">My Fields</span>
+                        <p className="text-sm text-neutral-500 dark:text-neutral-400">Save your plots to book faster</p>
+                    </div>
+                )}
 
                 <div className="pt-2">
                     <div
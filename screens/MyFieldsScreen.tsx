@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { AppView, Field, SoilType } from '../types';
+import Header from '../components/Header';
+import Input from '../components/Input';
+import Button from '../components/Button';
+import { useToast } from '../context/ToastContext';
+import { useFields } from '../hooks/useFields';
+import { MapContainer, TileLayer, Marker, Polygon, Polyline, CircleMarker, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+
+interface MyFieldsScreenProps {
+    navigate: (view: AppView) => void;
+    goBack: () => void;
+}
+
+const SOIL_TYPES: SoilType[] = ['Black', 'Red', 'Alluvial', 'Sandy', 'Loamy', 'Clay', 'Laterite', 'Other'];
+
+type LatLng = { lat: number; lng: number };
+
+// Taps add boundary corners in 'boundary' mode, or move the pin in 'pin' mode
+const MapTapHandler: React.FC<{ onTap: (point: LatLng) => void }> = ({ onTap }) => {
+    useMapEvents({
+        click(e) {
+            onTap({ lat: e.latlng.lat, lng: e.latlng.lng });
+        }
+    });
+    return null;
+};
+
+const MyFieldsScreen: React.FC<MyFieldsScreenProps> = ({ goBack }) => {
+    const { showToast } = useToast();
+    const { fields, isLoading, addField, updateField, removeField } = useFields();
+    const [editing, setEditing] = useState<Field | 'new' | null>(null);
+    const [name, setName] = useState('');
+    const [location, setLocation] = useState('');
+    const [acres, setAcres] = useState('');
+    const [soilType, setSoilType] = useState<SoilType | ''>('');
+    const [currentCrop, setCurrentCrop] = useState('');
+    const [mode, setMode] = useState<'boundary' | 'pin'>('boundary');
+    const [boundary, setBoundary] = useState<LatLng[]>([]);
+    const [pin, setPin] = useState<LatLng | undefined>(undefined);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const openForm = (field?: Field) => {
+        setEditing(field || 'new');
+        setName(field?.name || '');
+        setLocation(field?.location || '');
+        setAcres(field ? String(field.acres) : '');
+        setSoilType(field?.soilType || '');
+        setCurrentCrop(field?.currentCrop || '');
+        setMode(field && !field.boundary ? 'pin' : 'boundary');
+        setBoundary(field?.boundary || []);
+        setPin(field && !field.boundary ? field.center : undefined);
+    };
+
+    const handleTap = (point: LatLng) => {
+        if (mode === 'boundary') setBoundary(prev => [...prev, point]);
+        else setPin(point);
+    };
+
+    const handleSave = async () => {
+        if (!name.trim()) {
+            showToast('Give the field a name.', 'error');
+            return;
+        }
+        if (mode === 'boundary' && boundary.length < 3) {
+            showToast('Tap at least 3 corners of the field on the map.', 'error');
+            return;
+        }
+        if (mode === 'pin' && (!pin || !acres)) {
+            showToast('Drop a pin on the field and enter its acres.', 'error');
+            return;
+        }
+
+        // With a drawn boundary an empty acres box means "use the mapped area"
+        const input = {
+            name: name.trim(),
+            location: location.trim(),
+            currentCrop: currentCrop.trim(),
+            ...(soilType ? { soilType } : {}),
+            ...(acres ? { acres: parseFloat(acres) } : {}),
+            ...(mode === 'boundary' ? { boundary } : { center: pin })
+        };
+        setIsSaving(true);
+        try {
+            if (editing && editing !== 'new') await updateField(editing.id, input);
+            else await addField(input);
+            showToast('Field saved.', 'success');
+            setEditing(null);
+        } catch (error) {
+            showToast((error as Error).message, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (field: Field) => {
+        if (!window.confirm(`Delete ${field.name}?`)) return;
+        try {
+            await removeField(field.id);
+            showToast('Field deleted.', 'success');
+        } catch (error) {
+            showToast((error as Error).message, 'error');
+        }
+    };
+
+    if (editing) {
+        const start = (editing !== 'new' && editing.center) || boundary[0] || pin || { lat: 17.3850, lng: 78.4867 };
+        return (
+            <div className="dark:text-neutral-200">
+                <Header title={editing === 'new' ? 'Add Field' : `Edit ${editing.name}`} onBack={() => setEditing(null)} />
+                <div className="p-4 space-y-4">
+                    <div className="flex gap-2">
+                        {(['boundary', 'pin'] as const).map(m => (
+                            <button
+                                key={m}
+                                type="button"
+                                onClick={() => setMode(m)}
+                                className={`flex-1 py-2 rounded-lg text-sm font-semibold border ${mode === m ? 'bg-primary text-white border-primary' : 'bg-white dark:bg-neutral-800 border-neutral-300 dark:border-neutral-600'}`}
+                            >
+                                {m === 'boundary' ? 'Draw boundary' : 'Drop a pin'}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="h-72 w-full rounded-lg overflow-hidden border border-neutral-300 dark:border-gray-600 relative z-0">
+                        <MapContainer center={start} zoom={16} style={{ height: '100%', width: '100%' }}>
+                            <TileLayer
+                                url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                            />
+                            <MapTapHandler onTap={handleTap} />
+                            {mode === 'boundary' && boundary.length >= 3 && (
+                                <Polygon positions={boundary.map(p => [p.lat, p.lng] as [number, number])} pathOptions={{ color: '#16a34a', fillOpacity: 0.3 }} />
+                            )}
+                            {mode === 'boundary' && boundary.length === 2 && (
+                                <Polyline positions={boundary.map(p => [p.lat, p.lng] as [number, number])} pathOptions={{ color: '#16a34a' }} />
+                            )}
+                            {mode === 'boundary' && boundary.map((p, idx) => (
+                                <CircleMarker key={idx} center={[p.lat, p.lng]} radius={4} pathOptions={{ color: '#15803d', fillOpacity: 1 }} />
+                            ))}
+                            {mode === 'pin' && pin && <Marker position={pin} />}
+                        </MapContainer>
+                    </div>
+                    {mode === 'boundary' ? (
+                        <div className="flex items-center justify-between text-xs text-neutral-500">
+                            <span>Tap each corner of the field in order ({boundary.length} marked).</span>
+                            <div className="space-x-3">
+                                <button type="button" className="text-primary font-semibold" onClick={() => setBoundary(prev => prev.slice(0, -1))} disabled={boundary.length === 0}>Undo</button>
+                                <button type="button" className="text-red-600 font-semibold" onClick={() => setBoundary([])} disabled={boundary.length === 0}>Clear</button>
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="text-xs text-neutral-500">Tap the middle of the field to pin it.</p>
+                    )}
+
+                    <Input label="Field name *" id="field-name" value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Canal-side plot" maxLength={60} />
+                    <Input label="Village / address" id="field-location" value={location} onChange={e => setLocation(e.target.value)} placeholder="Shown to suppliers on bookings" />
+                    <Input
+                        label={mode === 'boundary' ? 'Acres (leave empty to use the mapped area)' : 'Acres *'}
+                        id="field-acres"
+                        type="number"
+                        min="0.1"
+                        step="0.1"
+                        value={acres}
+                        onChange={e => setAcres(e.target.value)}
+                    />
+                    <div>
+                        <label htmlFor="field-soil" className="block text-gray-700 dark:text-neutral-300 text-sm font-bold mb-2">Soil type</label>
+                        <select id="field-soil" value={soilType} onChange={e => setSoilType(e.target.value as SoilType | '')} className="shadow appearance-none border border-neutral-300 dark:border-gray-600 bg-white dark:bg-gray-700 rounded-lg w-full py-3 px-4 text-neutral-800 dark:text-white leading-tight focus:outline-none focus:ring-2 focus:ring-primary/50">
+                            <option value="">Not sure</option>
+                            {SOIL_TYPES.map(s => <option key={s} value={s}>{s}</option>)}
+                        </select>
+                    </div>
+                    <Input label="Current crop" id="field-crop" value={currentCrop} onChange={e => setCurrentCrop(e.target.value)} placeholder="e.g. Cotton, Paddy..." />
+                    <Button className="w-full" onClick={handleSave} disabled={isSaving}>{isSaving ? 'Saving...' : 'Save Field'}</Button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="dark:text-neutral-200">
+            <Header title="My Fields" onBack={goBack} />
+            <div className="p-4 space-y-3">
+                <p className="text-sm text-neutral-600 dark:text-neutral-400">Save your fields once and pick them when booking - the location, acres and crop fill in for you.</p>
+                {isLoading && fields.length === 0 && <p className="text-sm text-neutral-500">Loading fields...</p>}
+                {!isLoading && fields.length === 0 && <p className="text-sm text-neutral-500">No fields saved yet.</p>}
+                {fields.map(field => (
+                    <div key={field.id} className="bg-white dark:bg-neutral-800 p-4 rounded-lg shadow-sm border border-neutral-200 dark:border-neutral-700 flex items-start justify-between">
+                        <div>
+                            <p className="font-semibold text-neutral-900 dark:text-neutral-100">{field.name}</p>
+                            <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                                {field.acres} acres{field.soilType ? ` · ${field.soilType} soil` : ''}{field.currentCrop ? ` · ${field.currentCrop}` : ''}
+                            </p>
+                            {field.location && <p className="text-xs text-neutral-500">{field.location}</p>}
+                            {!field.boundary && <p className="text-xs text-amber-600">Pinned only - draw the boundary to show the plot on the map</p>}
+                        </div>
+                        <div className="flex flex-col items-end space-y-1 text-sm">
+                            <button type="button" className="text-primary font-semibold" onClick={() => openForm(field)}>Edit</button>
+                            <button type="button" className="text-red-600 font-semibold" onClick={() => handleDelete(field)}>Delete</button>
+                        </div>
+                    </div>
+                ))}
+                <Button className="w-full" onClick={() => openForm()}>+ Add Field</Button>
+            </div>
+        </div>
+    );
+};
+
+export default MyFieldsScreen;
@@ -6,6 +6,8 @@ import Header from '../components/Header';
 import { useAuth } from '../context/AuthContext';
 import { useBooking } from '../context/BookingContext';
 import { useItem } from '../context/ItemContext';
+import { useToast } from '../context/ToastContext';
+import { downloadInvoice } from '../src/lib/invoices';
 
 interface PaymentHistoryScreenProps {
     navigate: (view: AppView) => void;
@@ -16,6 +18,7 @@ const PaymentHistoryScreen: React.FC<PaymentHistoryScreenProps> = ({ navigate, g
     const { user } = useAuth();
     const { bookings } = useBooking();
     const { items } = useItem();
+    const { showToast } = useToast();
     const [expandedBookingId, setExpandedBookingId] = useState<string | null>(null);
 
     const paymentHistory = bookings
@@ -120,6 +123,15 @@ const PaymentHistoryScreen: React.FC<PaymentHistoryScreenProps> = ({ navigate, g
                                                 </>
                                             )}
                                         </div>
+
+                                        {isCompleted && (
+                                            <button
+                                                onClick={() => downloadInvoice(booking.id).catch(err => showToast(err.message, 'error'))}
+                                                className="w-full mt-2 py-2 text-sm font-semibold text-primary border border-primary/40 rounded-lg hover:bg-primary/5"
+                                            >
+                                                Download Invoice & Receipt
+                                            </button>
+                                        )}
                                     </div>
                                 )}
                             </div>
@@ -1,11 +1,14 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import Header from '../components/Header';
 import Button from '../components/Button';
 import { AppView, Booking } from '../types';
 import { useAuth } from '../context/AuthContext';
 import { useItem } from '../context/ItemContext';
-import { useBooking } from '../context/BookingContext';
 import { useToast } from '../context/ToastContext';
+import { payBookingOnline, payBookingFromWallet, recordCashPayment } from '../src/lib/payments';
+import { authFetch } from '../src/lib/authUtils';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
 
 interface PaymentScreenProps {
     booking: Booking;
@@ -16,39 +19,82 @@ interface PaymentScreenProps {
 const PaymentScreen: React.FC<PaymentScreenProps> = ({ booking, goBack, navigate }) => {
     const { user, allUsers } = useAuth();
     const { items } = useItem();
-    const { makeFinalPayment } = useBooking();
     const { showToast } = useToast();
-    const [selectedMethod, setSelectedMethod] = useState<'Cash' | 'Online'>('Cash');
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const [walletBalance, setWalletBalance] = useState<number | null>(null);
 
     const item = useMemo(() => items.find(i => i.id === booking.itemId), [items, booking.itemId]);
     const farmer = useMemo(() => allUsers.find(u => u.id === booking.farmerId), [allUsers, booking.farmerId]);
     const supplier = useMemo(() => booking.supplierId ? allUsers.find(u => u.id === booking.supplierId) : undefined, [allUsers, booking.supplierId]);
 
     const isFarmer = user?.id === booking.farmerId;
+    // Before the work is finished the only thing a farmer can pay is the advance, and that is never cash
+    const purpose = booking.status === 'Pending Payment' ? 'final' : 'advance';
+    const [selectedMethod, setSelectedMethod] = useState<'Cash' | 'Online' | 'Wallet'>(purpose === 'advance' ? 'Online' : 'Cash');
+
+    useEffect(() => {
+        if (!isFarmer) return;
+        authFetch(`${API_URL}/wallet`)
+            .then(res => res.ok ? res.json() : null)
+            .then(data => data && setWalletBalance(data.wallet.balance + data.wallet.promoBalance))
+            .catch(error => console.error('Error fetching wallet:', error));
+    }, [isFarmer]);
 
     const breakdown = useMemo(() => {
         const total = booking.paymentDetails?.totalAmount ?? booking.finalPrice ?? booking.estimatedPrice ?? 0;
         const commission = booking.paymentDetails?.commission ?? 0; // 0% platform fee
         const supplierAmount = booking.paymentDetails?.supplierAmount ?? total;
         const farmerAmount = booking.paymentDetails?.farmerAmount ?? total;
-        return { total, commission, supplierAmount, farmerAmount };
-    }, [booking]);
+        const advancePaid = booking.advancePaymentId ? (booking.advanceAmount || 0) : 0;
+        const amountDue = purpose === 'advance' ? (booking.advanceAmount || 0) : Math.max(0, total - advancePaid);
+        return { total, commission, supplierAmount, farmerAmount, amountDue };
+    }, [booking, purpose]);
 
-    const handleConfirmCash = async () => {
+    const canPayFromWallet = walletBalance !== null && walletBalance >= breakdown.amountDue;
+
+    const handlePayOnline = async () => {
         setIsSubmitting(true);
-        // Simulate processing and then record cash payment
-        setTimeout(() => {
-            makeFinalPayment(booking.id, 'Cash');
+        try {
+            await payBookingOnline(booking.id, purpose, { name: user?.name, email: user?.email, contact: user?.phone });
+            // The booking moves on once the gateway confirms the payment to our server
+            showToast(purpose === 'advance' ? 'Advance received!' : 'Payment received! Your booking will be marked complete shortly.', 'success');
+            navigate({ view: 'HOME' });
+        } catch (e) {
+            showToast((e as Error).message || 'Payment failed. Please try again.', 'error');
+        } finally {
             setIsSubmitting(false);
-            showToast('Cash payment recorded successfully.', 'success');
+        }
+    };
+
+    const handlePayFromWallet = async () => {
+        setIsSubmitting(true);
+        try {
+            await payBookingFromWallet(booking.id, purpose);
+            showToast(purpose === 'advance' ? 'Advance paid from your wallet.' : 'Paid from your wallet. Your booking is complete.', 'success');
             navigate({ view: 'HOME' });
-        }, 800);
+        } catch (e) {
+            showToast((e as Error).message || 'Payment failed. Please try again.', 'error');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleConfirmCash = async () => {
+        setIsSubmitting(true);
+        try {
+            await recordCashPayment(booking.id);
+            showToast('Cash payment recorded. The booking is complete.', 'success');
+            navigate({ view: 'HOME' });
+        } catch (e) {
+            showToast((e as Error).message || 'Could not record the cash payment.', 'error');
+        } finally {
+            setIsSubmitting(false);
+        }
     };
 
     return (
         <div className="flex flex-col h-screen bg-green-50 dark:bg-neutral-900">
-            <Header title={isFarmer ? 'Complete Payment' : 'Payment Details'} onBack={goBack} />
+            <Header title={isFarmer ? (purpose === 'advance' ? 'Pay Advance' : 'Complete Payment') : 'Payment Details'} onBack={goBack} />
 
             <div className="flex-grow overflow-y-auto p-4 space-y-6">
                 <div className="bg-white dark:bg-neutral-800 p-4 rounded-lg border border-neutral-200 dark:border-neutral-700">
@@ -67,38 +113,70 @@ const PaymentScreen: React.FC<PaymentScreenProps> = ({ booking, goBack, navigate
                         <p><strong>Total Amount:</strong> ₹{breakdown.total.toLocaleString()}</p>
                         <p><strong>Supplier Payment:</strong> ₹{breakdown.supplierAmount.toLocaleString()}</p>
                         <p><strong>Admin Commission:</strong> ₹{breakdown.commission.toLocaleString()}</p>
+                        {isFarmer && <p><strong>{purpose === 'advance' ? 'Advance Due:' : 'Amount Due:'}</strong> ₹{breakdown.amountDue.toLocaleString()}</p>}
                     </div>
                 </div>
 
                 <div className="bg-white dark:bg-neutral-800 p-4 rounded-lg border border-neutral-200 dark:border-neutral-700">
                     <h2 className="font-bold text-lg mb-3 text-neutral-900 dark:text-neutral-50">Select Payment Method</h2>
-                    <div className="grid grid-cols-2 gap-2">
+                    <div className={`grid gap-2 ${isFarmer ? 'grid-cols-3' : 'grid-cols-2'}`}>
+                        {purpose === 'final' && (
                         <button
                             className={`py-3 rounded-lg border-2 font-semibold ${selectedMethod === 'Cash' ? 'border-primary bg-primary/10 text-primary' : 'border-neutral-200 dark:border-neutral-600 text-neutral-700 dark:text-neutral-200'}`}
                             onClick={() => setSelectedMethod('Cash')}
                         >
                             Cash
                         </button>
+                        )}
                         <button
-                            className={`py-3 rounded-lg border-2 font-semibold cursor-not-allowed opacity-60 ${selectedMethod === 'Online' ? 'border-primary bg-primary/10 text-primary' : 'border-neutral-200 dark:border-neutral-600 text-neutral-700 dark:text-neutral-200'}`}
-                            disabled
+                            className={`py-3 rounded-lg border-2 font-semibold ${!isFarmer ? 'cursor-not-allowed opacity-60' : ''} ${selectedMethod === 'Online' ? 'border-primary bg-primary/10 text-primary' : 'border-neutral-200 dark:border-neutral-600 text-neutral-700 dark:text-neutral-200'}`}
+                            disabled={!isFarmer}
                             onClick={() => setSelectedMethod('Online')}
                         >
-                            Online (Disabled)
+                            Online (UPI / Card)
                         </button>
+                        {isFarmer && (
+                            <button
+                                className={`py-3 rounded-lg border-2 font-semibold ${selectedMethod === 'Wallet' ? 'border-primary bg-primary/10 text-primary' : 'border-neutral-200 dark:border-neutral-600 text-neutral-700 dark:text-neutral-200'}`}
+                                onClick={() => setSelectedMethod('Wallet')}
+                            >
+                                Wallet
+                                {walletBalance !== null && <span className="block text-xs font-normal">₹{walletBalance.toLocaleString()}</span>}
+                            </button>
+                        )}
                     </div>
 
                     {isFarmer ? (
                         <div className="mt-4">
-                            <Button onClick={handleConfirmCash} disabled={isSubmitting}>
-                                {isSubmitting ? 'Processing…' : `Confirm Cash Payment ₹${breakdown.total.toLocaleString()}`}
-                            </Button>
-                            <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-2">Online payments are coming soon.</p>
+                            {selectedMethod === 'Online' ? (
+                                <>
+                                    <Button onClick={handlePayOnline} disabled={isSubmitting}>
+                                        {isSubmitting ? 'Processing…' : `Pay Online ₹${breakdown.amountDue.toLocaleString()}`}
+                                    </Button>
+                                    <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-2">You will be charged the amount due on this booking after any advance already paid.</p>
+                                </>
+                            ) : selectedMethod === 'Wallet' ? (
+                                <>
+                                    <Button onClick={handlePayFromWallet} disabled={isSubmitting || !canPayFromWallet}>
+                                        {isSubmitting ? 'Processing…' : `Pay from Wallet ₹${breakdown.amountDue.toLocaleString()}`}
+                                    </Button>
+                                    {!canPayFromWallet && (
+                                        <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-2">
+                                            Not enough balance.{' '}
+                                            <button onClick={() => navigate({ view: 'WALLET' })} className="text-primary font-semibold hover:underline">Add money</button>
+                                        </p>
+                                    )}
+                                </>
+                            ) : (
+                                <p className="text-sm text-neutral-600 dark:text-neutral-300">
+                                    Hand ₹{breakdown.amountDue.toLocaleString()} in cash to the supplier. The booking completes once they mark it received.
+                                </p>
+                            )}
                         </div>
                     ) : (
                         <div className="mt-4">
                             <Button onClick={handleConfirmCash} disabled={isSubmitting}>
-                                {isSubmitting ? 'Recording…' : `Mark Cash Received ₹${breakdown.total.toLocaleString()}`}
+                                {isSubmitting ? 'Recording…' : `Mark Cash Received ₹${breakdown.amountDue.toLocaleString()}`}
                             </Button>
                             <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-2">Suppliers can record cash once received.</p>
                         </div>
@@ -4,6 +4,8 @@ import { AppView } from '../types';
 import Header from '../components/Header';
 import { useSettings } from '../context/SettingsContext';
 import { useLanguage } from '../context/LanguageContext';
+import { useAuth } from '../context/AuthContext';
+import CalendarFeedSettings from '../components/CalendarFeedSettings';
 
 interface SettingsScreenProps {
     navigate: (view: AppView) => void;
@@ -13,6 +15,7 @@ interface SettingsScreenProps {
 const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigate, goBack }) => {
     const { theme, toggleTheme, ruralMode, toggleRuralMode } = useSettings();
     const { language, changeLanguage, t } = useLanguage();
+    const { user } = useAuth();
 
     // In a real app, these values would come from user preferences storage.
     const [notificationPrefs, setNotificationPrefs] = React.useState({
@@ -96,6 +99,14 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigate, goBack }) =>
                         </li>
                     </ul>
                 </div>
+
+                {/* Calendar Feed */}
+                {user && (
+                    <div>
+                        <h3 className="text-lg font-bold text-neutral-800 dark:text-neutral-100 mb-2">Calendar</h3>
+                        <CalendarFeedSettings />
+                    </div>
+                )}
             </div>
         </div>
     );
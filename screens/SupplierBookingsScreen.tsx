@@ -13,6 +13,8 @@ import { calculateDistance } from '../utils/location';
 
 import Header from '../components/Header';
 import { MedalName } from '../components/MedalName';
+import { useLocationSharing } from '../hooks/useLocationSharing';
+import MeasureAcresModal from '../components/MeasureAcresModal';
 
 interface SupplierViewProps {
     navigate: (view: AppView) => void;
@@ -20,11 +22,15 @@ interface SupplierViewProps {
 
 const SupplierBookingsScreen: React.FC<SupplierViewProps> = ({ navigate }) => {
     const { user, allUsers } = useAuth();
-    const { bookings, markAsArrived, verifyOtpAndStartWork, cancelBooking, loadMoreBookings, hasMoreBookings, isLoadingBookings } = useBooking();
+    const { bookings, markAsArrived, verifyOtpAndStartWork, cancelBooking, submitMeasuredAcres, loadMoreBookings, hasMoreBookings, isLoadingBookings } = useBooking();
     const { items } = useItem();
     const { reviews } = useReview();
     const { t } = useLanguage();
     const [userLocation, setUserLocation] = useState<{ lat: number; lng: number; } | undefined>();
+    // One booking at a time gets this device's live position
+    const [sharingBookingId, setSharingBookingId] = useState<string | undefined>();
+    const { error: sharingError, lastSentAt } = useLocationSharing(sharingBookingId);
+    const [measuringBooking, setMeasuringBooking] = useState<Booking | null>(null);
 
     useEffect(() => {
         if (navigator.geolocation) {
@@ -41,8 +47,24 @@ const SupplierBookingsScreen: React.FC<SupplierViewProps> = ({ navigate }) => {
         return bookings.filter(b => b.supplierId === user?.id || b.operatorId === user?.id);
     }, [bookings, user]);
 
+    const isTrackable = (booking: Booking) => ['Confirmed', 'Arrived', 'In Process'].includes(booking.status);
+
+    // Stop sharing once the job is finished or cancelled
+    useEffect(() => {
+        const shared = myBookings.find(b => b.id === sharingBookingId);
+        if (sharingBookingId && shared && !isTrackable(shared)) setSharingBookingId(undefined);
+    }, [myBookings, sharingBookingId]);
+
+    const toggleSharing = (bookingId: string) => setSharingBookingId(prev => prev === bookingId ? undefined : bookingId);
+
     const getFarmerName = (farmerId: string) => allUsers.find(u => u.id === farmerId)?.name || 'Unknown Farmer';
     const getItem = (itemId?: number) => items.find(i => i.id === itemId);
+    // Per-acre jobs get their worked acres reported before the farmer pays
+    const canReportAcres = (booking: Booking) => booking.status === 'In Process' && booking.acreMeasurementStatus !== 'pending'
+        && (booking.pricingUnit || getItem(booking.itemId)?.purposes.find(p => p.name === booking.workPurpose)?.unit) === 'acre';
+    const measurementNote = (booking: Booking) => booking.acreMeasurementStatus === 'pending'
+        ? `${booking.measuredAcres} acres reported, waiting for the farmer (₹${booking.proposedFinalPrice?.toLocaleString()})`
+        : booking.acreMeasurementStatus === 'rejected' ? `Farmer rejected ${booking.measuredAcres} acres` : null;
 
     const getStatusClasses = (status: Booking['status']) => {
         switch (status) {
@@ -92,6 +114,7 @@ const SupplierBookingsScreen: React.FC<SupplierViewProps> = ({ navigate }) => {
                                         {/* Simplified mobile content */}
                                         <p><strong>Date:</strong> {booking.date} {booking.startTime}</p>
                                         <p><strong>Loc:</strong> {booking.location}</p>
+                                        {measurementNote(booking) && <p className="text-xs text-amber-700 dark:text-amber-300">{measurementNote(booking)}</p>}
                                     </div>
                                     {/* ... mobile actions (simplified for brevity in this replacement block, but ideally kept full) ... */}
                                     {/* Re-inserting mobile actions block to ensure functionality is kept */}
@@ -105,6 +128,22 @@ const SupplierBookingsScreen: React.FC<SupplierViewProps> = ({ navigate }) => {
                                                 <span>Chat</span>
                                             </button>
                                         )}
+                                        {isTrackable(booking) && (
+                                            <button
+                                                onClick={() => toggleSharing(booking.id)}
+                                                className={`px-3 py-1 rounded-full font-semibold text-sm ${sharingBookingId === booking.id ? 'bg-blue-600 text-white' : 'bg-blue-50 text-blue-700 hover:bg-blue-100'}`}
+                                            >
+                                                {sharingBookingId === booking.id ? 'Sharing Location' : 'Share Location'}
+                                            </button>
+                                        )}
+                                        {canReportAcres(booking) && (
+                                            <button
+                                                onClick={() => setMeasuringBooking(booking)}
+                                                className="bg-amber-50 text-amber-700 hover:bg-amber-100 px-3 py-1 rounded-full font-semibold text-sm"
+                                            >
+                                                Report Acres
+                                            </button>
+                                        )}
                                         {/* ... (Other actions would be here, limiting redundancy for the diff) ... */}
                                         <Button onClick={() => navigate({ view: bookings.includes(booking) ? 'HOME' : 'HOME' })} className="!w-auto !px-4 !py-1 !text-xs" variant="secondary">View Details</Button>
                                     </div>
@@ -160,6 +199,7 @@ const SupplierBookingsScreen: React.FC<SupplierViewProps> = ({ navigate }) => {
                                                 ) : booking.finalPrice ? (
                                                     <span>₹{booking.finalPrice.toLocaleString()} (Est)</span>
                                                 ) : '-'}
+                                                {measurementNote(booking) && <span className="block text-xs text-amber-700 dark:text-amber-300">{measurementNote(booking)}</span>}
                                             </td>
                                             <td className="px-6 py-4 text-right space-x-2">
                                                 {farmer && (booking.status === 'Confirmed' || booking.status === 'Arrived' || booking.status === 'In Process') && (
@@ -167,6 +207,24 @@ const SupplierBookingsScreen: React.FC<SupplierViewProps> = ({ navigate }) => {
                                                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" /></svg>
                                                     </button>
                                                 )}
+                                                {isTrackable(booking) && (
+                                                    <button
+                                                        onClick={() => toggleSharing(booking.id)}
+                                                        className={`text-xs font-semibold px-2 py-1 rounded ${sharingBookingId === booking.id ? 'bg-blue-600 text-white' : 'text-blue-700 hover:bg-blue-50'}`}
+                                                        title="Share live location with the farmer"
+                                                    >
+                                                        {sharingBookingId === booking.id ? 'Sharing' : 'Share Location'}
+                                                    </button>
+                                                )}
+                                                {canReportAcres(booking) && (
+                                                    <button
+                                                        onClick={() => setMeasuringBooking(booking)}
+                                                        className="text-xs font-semibold px-2 py-1 rounded text-amber-700 hover:bg-amber-50"
+                                                        title="Report the acres actually worked"
+                                                    >
+                                                        Report Acres
+                                                    </button>
+                                                )}
                                                 {/* More desktop actions can be added here or strictly kept to a 'Manage' dropdown */}
                                                 <button className="text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-200">
                                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 5v.01M12 12v.01M12 19v.01M12 6a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2z" /></svg>
@@ -187,6 +245,20 @@ const SupplierBookingsScreen: React.FC<SupplierViewProps> = ({ navigate }) => {
         <div className="dark:text-neutral-200">
             <Header title={t('myBookings')} />
             <div className="p-4 space-y-4">
+                {sharingBookingId && (
+                    <div className={`p-3 rounded-lg text-sm ${sharingError ? 'bg-red-50 text-red-700' : 'bg-blue-50 text-blue-800'}`}>
+                        {sharingError
+                            ? `Location sharing problem: ${sharingError}`
+                            : `Sharing your live location with the farmer${lastSentAt ? ` • last sent ${new Date(lastSentAt).toLocaleTimeString()}` : ''}. Keep this screen open while travelling.`}
+                    </div>
+                )}
+                {measuringBooking && (
+                    <MeasureAcresModal
+                        booking={measuringBooking}
+                        onSubmit={(measurement) => submitMeasuredAcres(measuringBooking.id, measurement)}
+                        onClose={() => setMeasuringBooking(null)}
+                    />
+                )}
                 {renderBookingList(activeBookings, "Upcoming & Active Bookings")}
                 {renderBookingList(pastBookings, "Completed & Past Bookings")}
 
@@ -13,13 +13,21 @@ import { useReview } from '../context/ReviewContext';
 import StarRating from '../components/StarRating';
 import { useNotification } from '../context/NotificationContext';
 import { calculateDistance, openMap } from '../utils/location';
+import { useToast } from '../context/ToastContext';
+import { fetchItemDayAvailability } from '../hooks/useItemAvailability';
+import { getItemDayOffReason } from '../utils/availability';
+import SuspensionBanner from '../components/SuspensionBanner';
+
+// Acres / units of a split booking no supplier has taken yet
+const getOpenShare = (booking: Booking) => Math.max(0, Math.round(((booking.splitTotal || 0) - (booking.splitAllocated || 0)) * 10) / 10);
 
 const AcceptJobModal: React.FC<{
     booking: Booking;
     availableItems: Item[];
     onClose: () => void;
-    onConfirm: (itemId: number, options?: { operateSelf?: boolean; quantityToProvide?: number }) => void;
-}> = ({ booking, availableItems, onClose, onConfirm }) => {
+    onConfirm: (itemId: number, options?: { operateSelf?: boolean; quantityToProvide?: number; shareAmount?: number }) => void;
+    seriesDates?: string[]; // Set when accepting every open date of a recurring series
+}> = ({ booking, availableItems, onClose, onConfirm, seriesDates }) => {
     const [selectedItemId, setSelectedItemId] = useState<number | null>(() => {
         if (booking.itemId && availableItems.some(i => i.id === booking.itemId)) {
             return booking.itemId;
@@ -27,17 +35,21 @@ const AcceptJobModal: React.FC<{
         return availableItems.length > 0 ? availableItems[0].id : null;
     });
     const [quantityToProvide, setQuantityToProvide] = useState(booking.quantity?.toString() || '1');
+    const [shareAmount, setShareAmount] = useState(getOpenShare(booking).toString());
     const selectedItem = useMemo(() => availableItems.find(i => i.id === selectedItemId), [selectedItemId, availableItems]);
 
+    // Split bookings: the supplier takes part of the acres / units and runs that share themselves
+    const isSplit = booking.splitTotal !== undefined && !seriesDates;
     const machineCategories = [ItemCategory.Tractors, ItemCategory.Harvesters, ItemCategory.JCB, ItemCategory.Borewell];
-    const isMachineWithOperator = machineCategories.includes(booking.itemCategory) && booking.operatorRequired;
+    const isMachineWithOperator = !isSplit && machineCategories.includes(booking.itemCategory) && booking.operatorRequired;
     const isPendingConfirmation = booking.status === 'Pending Confirmation';
 
     const handleConfirm = (operateSelf?: boolean) => {
         if (selectedItemId) {
-            const options: { operateSelf?: boolean; quantityToProvide?: number } = {};
+            const options: { operateSelf?: boolean; quantityToProvide?: number; shareAmount?: number } = {};
             if (isMachineWithOperator) options.operateSelf = operateSelf;
-            if (booking.quantity) options.quantityToProvide = parseInt(quantityToProvide);
+            if (isSplit) options.shareAmount = parseFloat(shareAmount);
+            else if (booking.quantity) options.quantityToProvide = parseInt(quantityToProvide);
             onConfirm(selectedItemId, options);
         }
     };
@@ -47,11 +59,21 @@ const AcceptJobModal: React.FC<{
         return Math.min(booking.quantity, selectedItem.quantityAvailable || 0);
     }, [booking, selectedItem]);
 
+    const maxShare = useMemo(() => {
+        const open = getOpenShare(booking);
+        if (booking.splitUnit === 'units' && selectedItem?.quantityAvailable != null) return Math.min(open, selectedItem.quantityAvailable);
+        return open;
+    }, [booking, selectedItem]);
+
     const isQuantityInvalid = useMemo(() => {
+        if (isSplit) {
+            const numShare = parseFloat(shareAmount);
+            return isNaN(numShare) || numShare <= 0 || numShare > maxShare;
+        }
         if (!booking.quantity) return false;
         const numQuantity = parseInt(quantityToProvide);
         return isNaN(numQuantity) || numQuantity <= 0 || numQuantity > maxQuantity;
-    }, [quantityToProvide, maxQuantity, booking]);
+    }, [quantityToProvide, maxQuantity, booking, isSplit, shareAmount, maxShare]);
 
     const getPriceForPurpose = (item: Item, purpose?: string) => {
         return item.purposes.find(p => p.name === purpose)?.price || 0;
@@ -60,14 +82,23 @@ const AcceptJobModal: React.FC<{
     return (
         <div className="fixed inset-0 bg-black bg-opacity-60 z-[10001] flex items-center justify-center p-4">
             <div className="bg-white dark:bg-neutral-800 rounded-lg shadow-xl w-full max-w-md p-6">
-                <h2 className="text-xl font-bold mb-2 text-neutral-800 dark:text-neutral-100">Accept Request</h2>
-                <p className="text-sm text-neutral-600 dark:text-neutral-300 mb-4">Select an item to fulfill this booking request.</p>
+                <h2 className="text-xl font-bold mb-2 text-neutral-800 dark:text-neutral-100">{seriesDates ? 'Accept Series' : 'Accept Request'}</h2>
+                <p className="text-sm text-neutral-600 dark:text-neutral-300 mb-4">
+                    {seriesDates
+                        ? `Select an item to fulfill all ${seriesDates.length} dates. Dates you don't have hours for are skipped.`
+                        : 'Select an item to fulfill this booking request.'}
+                </p>
 
                 <div className="bg-white dark:bg-neutral-700 p-3 rounded-lg mb-4 text-sm">
                     <div className="space-y-1 text-neutral-700 dark:text-neutral-300">
                         <p><strong className="font-semibold text-neutral-800 dark:text-neutral-100">Category:</strong> {booking.itemCategory}</p>
                         {booking.quantity && <p><strong className="font-semibold text-neutral-800 dark:text-neutral-100">Quantity Needed:</strong> {booking.quantity}</p>}
-                        <p><strong className="font-semibold text-neutral-800 dark:text-neutral-100">Date:</strong> {booking.date} from {booking.startTime} - {booking.estimatedDuration ? `${booking.estimatedDuration} hours` : booking.endTime}</p>
+                        {isSplit && <p><strong className="font-semibold text-neutral-800 dark:text-neutral-100">Still Open:</strong> {getOpenShare(booking)} of {booking.splitTotal} {booking.splitUnit}</p>}
+                        {seriesDates ? (
+                            <p><strong className="font-semibold text-neutral-800 dark:text-neutral-100">Dates:</strong> {seriesDates.join(', ')} from {booking.startTime} - {booking.estimatedDuration ? `${booking.estimatedDuration} hours` : booking.endTime}</p>
+                        ) : (
+                            <p><strong className="font-semibold text-neutral-800 dark:text-neutral-100">Date:</strong> {booking.date} from {booking.startTime} - {booking.estimatedDuration ? `${booking.estimatedDuration} hours` : booking.endTime}</p>
+                        )}
                         <p><strong className="font-semibold text-neutral-800 dark:text-neutral-100">Location:</strong> {booking.location}</p>
                         {booking.workPurpose && <p><strong className="font-semibold text-neutral-800 dark:text-neutral-100">Work Purpose:</strong> {booking.workPurpose}</p>}
                         {booking.preferredModel && <p><strong className="font-semibold text-neutral-800 dark:text-neutral-100">Preferred Model:</strong> {booking.preferredModel}</p>}
@@ -107,7 +138,22 @@ const AcceptJobModal: React.FC<{
                     )}
                 </div>
 
-                {booking.allowMultipleSuppliers && booking.quantity && selectedItem && (
+                {isSplit && selectedItem && (
+                    <div className="mt-4 border-t dark:border-neutral-600 pt-4">
+                        <Input
+                            label={`${booking.splitUnit === 'units' ? 'Units' : 'Acres'} you will cover (Max: ${maxShare})`}
+                            type="number"
+                            value={shareAmount}
+                            onChange={e => setShareAmount(e.target.value)}
+                            max={maxShare}
+                            min={booking.splitUnit === 'units' ? '1' : '0.1'}
+                            step={booking.splitUnit === 'units' ? '1' : '0.1'}
+                            required
+                        />
+                    </div>
+                )}
+
+                {!isSplit && booking.allowMultipleSuppliers && booking.quantity && selectedItem && (
                     <div className="mt-4 border-t dark:border-neutral-600 pt-4">
                         <Input
                             label={`Quantity to Provide (Max: ${maxQuantity})`}
@@ -140,10 +186,12 @@ const AcceptJobModal: React.FC<{
 
 export const SupplierRequestsScreen: React.FC = () => {
     const { user, allUsers } = useAuth();
-    const { bookings, acceptBookingRequest, rejectBooking } = useBooking();
+    const { bookings, acceptBookingRequest, acceptBookingSeries, rejectBooking, respondToDispatchOffer } = useBooking();
     const { items } = useItem();
     const { addNotification } = useNotification();
+    const { showToast } = useToast();
     const [bookingToAccept, setBookingToAccept] = useState<Booking | null>(null);
+    const [acceptWholeSeries, setAcceptWholeSeries] = useState(false);
     const [conflictWarning, setConflictWarning] = useState<{ show: boolean; conflictingBookings: Booking[]; itemId: number; options?: any } | null>(null);
     const [userLocation, setUserLocation] = useState<{ lat: number; lng: number; } | undefined>();
     const [selectedCategory, setSelectedCategory] = useState<string>('All');
@@ -171,6 +219,9 @@ export const SupplierRequestsScreen: React.FC = () => {
 
             // Broadcast requests for everyone else.
             if (b.status === 'Searching' && !b.supplierId) {
+                // One share per supplier on a split booking
+                if (b.splitTotal !== undefined && bookings.some(s => s.parentBookingId === b.id && s.supplierId === user.id && !['Cancelled', 'Expired'].includes(s.status))) return false;
+
                 // If specific item was requested (even if converted to broadcast), show to owner
                 if (b.itemId) {
                     const requestedItem = items.find(i => i.id === b.itemId);
@@ -216,14 +267,52 @@ export const SupplierRequestsScreen: React.FC = () => {
     const getFarmerRole = (farmerId: string) => allUsers.find(u => u.id === farmerId)?.role || 'Farmer';
     const getMachineNameForOpRequest = (itemId?: number) => items.find(i => i.id === itemId)?.name || 'a machine';
 
-    const handleAcceptClick = (booking: Booking) => setBookingToAccept(booking);
+    const handleAcceptClick = (booking: Booking, wholeSeries: boolean = false) => {
+        setBookingToAccept(booking);
+        setAcceptWholeSeries(wholeSeries);
+    };
+
+    // Open dates of the same recurring series this supplier can still take, earliest first
+    const getOpenSeries = (booking: Booking) => booking.recurrenceId
+        ? availableRequests.filter(b => b.recurrenceId === booking.recurrenceId && b.status !== 'Awaiting Operator').sort((a, b) => a.date.localeCompare(b.date))
+        : [];
+
+    // Pending offer made to this supplier by the automatic dispatcher
+    const getMyOffer = (booking: Booking) => booking.dispatchOffers?.find(o =>
+        o.supplierId === user?.id && o.status === 'pending' && new Date(o.expiresAt).getTime() > Date.now()
+    );
 
-    const handleConfirmAccept = async (itemId: number, options?: { operateSelf?: boolean, quantityToProvide?: number }) => {
+    const handleConfirmAccept = async (itemId: number, options?: { operateSelf?: boolean, quantityToProvide?: number, shareAmount?: number }) => {
+        // The server checks each date's hours and skips the ones that don't fit
+        if (bookingToAccept && user && acceptWholeSeries && bookingToAccept.recurrenceId) {
+            const success = await acceptBookingSeries(bookingToAccept.recurrenceId, itemId, getOpenSeries(bookingToAccept).map(b => b.id));
+            if (success) {
+                setBookingToAccept(null);
+                setAcceptWholeSeries(false);
+            }
+            return;
+        }
         if (bookingToAccept && user) {
-            // Check for time conflicts with existing bookings
+            // The item's own calendar (working hours, off-days, maintenance, its other jobs) has the final say
+            try {
+                const day = await fetchItemDayAvailability(itemId, bookingToAccept.date, {
+                    startTime: bookingToAccept.startTime,
+                    durationHours: bookingToAccept.estimatedDuration || 3,
+                    excludeBookingId: bookingToAccept.id
+                });
+                if (day.check && !day.check.available) {
+                    showToast(day.check.reason || 'This item is not free at that time.', 'error');
+                    return;
+                }
+            } catch (e) {
+                showToast((e as Error).message, 'error');
+                return;
+            }
+
+            // Jobs on the supplier's other items at the same time still need a warning
             const conflicts = bookings.filter(b => {
                 // Only check confirmed/active bookings for this supplier
-                if (b.supplierId !== user.id || ['Cancelled', 'Expired', 'Completed'].includes(b.status)) return false;
+                if (b.supplierId !== user.id || b.itemId === itemId || ['Cancelled', 'Expired', 'Completed'].includes(b.status)) return false;
 
                 // Check if dates match
                 if (b.date !== bookingToAccept.date) return false;
@@ -281,7 +370,7 @@ export const SupplierRequestsScreen: React.FC = () => {
 
         if (bookingToAccept.status === 'Pending Confirmation' || bookingToAccept.itemId) {
             const specificItem = supplierItems.find(item => item.id === bookingToAccept.itemId);
-            return specificItem && specificItem.available ? [specificItem] : [];
+            return specificItem && specificItem.available && !getItemDayOffReason(specificItem, user, bookingToAccept.date) ? [specificItem] : [];
         }
 
         const categoryForRequest = bookingToAccept.status === 'Awaiting Operator' ? ItemCategory.Drivers : bookingToAccept.itemCategory;
@@ -289,9 +378,10 @@ export const SupplierRequestsScreen: React.FC = () => {
         return supplierItems.filter(item =>
             item.category === categoryForRequest &&
             item.available &&
+            !getItemDayOffReason(item, user, bookingToAccept.date) &&
             (!bookingToAccept.workPurpose || item.purposes.some(p => p.name === bookingToAccept.workPurpose))
         );
-    }, [bookingToAccept, supplierItems]);
+    }, [bookingToAccept, supplierItems, user]);
 
     const categories = ['All', ...Object.values(ItemCategory)];
 
@@ -342,8 +432,10 @@ export const SupplierRequestsScreen: React.FC = () => {
                                         ? `Driver for ${getMachineNameForOpRequest(booking.itemId)}`
                                         : `Request for ${booking.itemCategory}`;
 
-                                const tagText = isPendingConfirmation ? 'Direct Request' : isOperatorRequest ? 'Operator Request' : 'Broadcast';
-                                const tagColor = isPendingConfirmation ? 'bg-green-100 text-green-800' : isOperatorRequest ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800';
+                                const myOffer = getMyOffer(booking);
+                                const openSeries = getOpenSeries(booking);
+                                const tagText = myOffer ? 'Offered to You' : isPendingConfirmation ? 'Direct Request' : isOperatorRequest ? 'Operator Request' : 'Broadcast';
+                                const tagColor = myOffer ? 'bg-amber-100 text-amber-800' : isPendingConfirmation ? 'bg-green-100 text-green-800' : isOperatorRequest ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800';
 
                                 const farmer = allUsers.find(u => u.id === booking.farmerId);
                                 const distance = userLocation && booking.locationCoords
@@ -391,9 +483,21 @@ export const SupplierRequestsScreen: React.FC = () => {
                                                         </span>
                                                     </div>
                                                 </div>
-                                                <span className={`text-xs font-semibold px-2 py-1 rounded ${tagColor}`}>
-                                                    {tagText}
-                                                </span>
+                                                <div className="flex flex-col items-end gap-1">
+                                                    <span className={`text-xs font-semibold px-2 py-1 rounded ${tagColor}`}>
+                                                        {tagText}
+                                                    </span>
+                                                    {openSeries.length > 1 && (
+                                                        <span className="text-xs font-semibold px-2 py-1 rounded bg-purple-100 text-purple-800">
+                                                            Series • {openSeries.length} dates
+                                                        </span>
+                                                    )}
+                                                    {booking.splitTotal !== undefined && (
+                                                        <span className="text-xs font-semibold px-2 py-1 rounded bg-teal-100 text-teal-800">
+                                                            Open: {getOpenShare(booking)} of {booking.splitTotal} {booking.splitUnit}
+                                                        </span>
+                                                    )}
+                                                </div>
                                             </div>
 
                                             <div className="space-y-3 mt-4">
@@ -440,8 +544,29 @@ export const SupplierRequestsScreen: React.FC = () => {
                                                 </div>
                                             </div>
 
+                                            {myOffer && (
+                                                <p className="mt-4 text-xs font-semibold text-amber-700 dark:text-amber-400">
+                                                    You were picked for this job. Offer expires at {new Date(myOffer.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+                                                </p>
+                                            )}
+
                                             <div className="mt-5">
-                                                {isPendingConfirmation ? (
+                                                {myOffer ? (
+                                                    <div className="flex space-x-3">
+                                                        <button
+                                                            onClick={() => respondToDispatchOffer(booking.id, false)}
+                                                            className="flex-1 bg-red-50 text-red-700 font-bold py-3 px-4 rounded-lg hover:bg-red-100 transition-colors"
+                                                        >
+                                                            Decline
+                                                        </button>
+                                                        <button
+                                                            onClick={() => respondToDispatchOffer(booking.id, true)}
+                                                            className="flex-1 bg-primary text-white font-bold py-3 px-4 rounded-lg hover:bg-primary-dark transition-colors shadow-md"
+                                                        >
+                                                            Accept Offer
+                                                        </button>
+                                                    </div>
+                                                ) : isPendingConfirmation ? (
                                                     <div className="flex space-x-3">
                                                         <button
                                                             onClick={() => rejectBooking(booking.id)}
@@ -464,6 +589,14 @@ export const SupplierRequestsScreen: React.FC = () => {
                                                         View & Accept
                                                     </button>
                                                 )}
+                                                {openSeries.length > 1 && (
+                                                    <button
+                                                        onClick={() => handleAcceptClick(booking, true)}
+                                                        className="mt-3 w-full border border-primary text-primary font-bold py-2.5 px-4 rounded-lg hover:bg-primary/10 transition-colors"
+                                                    >
+                                                        Accept Whole Series ({openSeries.length} dates)
+                                                    </button>
+                                                )}
                                             </div>
                                         </div>
                                     </div>
@@ -494,8 +627,10 @@ export const SupplierRequestsScreen: React.FC = () => {
                                             : isOperatorRequest
                                                 ? `Driver for ${getMachineNameForOpRequest(booking.itemId)}`
                                                 : `Request for ${booking.itemCategory}`;
-                                        const tagText = isPendingConfirmation ? 'Direct Request' : isOperatorRequest ? 'Operator Request' : 'Broadcast';
-                                        const tagColor = isPendingConfirmation ? 'bg-green-100 text-green-800' : isOperatorRequest ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800';
+                                        const myOffer = getMyOffer(booking);
+                                        const openSeries = getOpenSeries(booking);
+                                        const tagText = myOffer ? 'Offered to You' : isPendingConfirmation ? 'Direct Request' : isOperatorRequest ? 'Operator Request' : 'Broadcast';
+                                        const tagColor = myOffer ? 'bg-amber-100 text-amber-800' : isPendingConfirmation ? 'bg-green-100 text-green-800' : isOperatorRequest ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800';
 
                                         const distance = userLocation && booking.locationCoords
                                             ? calculateDistance(userLocation.lat, userLocation.lng, booking.locationCoords.lat, booking.locationCoords.lng)
@@ -507,6 +642,16 @@ export const SupplierRequestsScreen: React.FC = () => {
                                                     <span className={`inline-block px-2.5 py-0.5 rounded-full text-xs font-semibold ${tagColor}`}>
                                                         {tagText}
                                                     </span>
+                                                    {openSeries.length > 1 && (
+                                                        <span className="ml-1 inline-block px-2.5 py-0.5 rounded-full text-xs font-semibold bg-purple-100 text-purple-800">
+                                                            Series • {openSeries.length}
+                                                        </span>
+                                                    )}
+                                                    {booking.splitTotal !== undefined && (
+                                                        <span className="ml-1 inline-block px-2.5 py-0.5 rounded-full text-xs font-semibold bg-teal-100 text-teal-800">
+                                                            Open: {getOpenShare(booking)} of {booking.splitTotal} {booking.splitUnit}
+                                                        </span>
+                                                    )}
                                                 </td>
                                                 <td className="px-6 py-4 font-medium text-neutral-900 dark:text-white">
                                                     <div>{title}</div>
@@ -532,6 +677,23 @@ export const SupplierRequestsScreen: React.FC = () => {
                                                     {booking.workPurpose}
                                                 </td>
                                                 <td className="px-6 py-4 text-right">
+                                                    {myOffer ? (
+                                                        <div className="flex justify-end gap-2">
+                                                            <button
+                                                                onClick={() => respondToDispatchOffer(booking.id, false)}
+                                                                className="px-3 py-1.5 text-xs font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50"
+                                                            >
+                                                                Decline
+                                                            </button>
+                                                            <button
+                                                                onClick={() => respondToDispatchOffer(booking.id, true)}
+                                                                className="px-4 py-1.5 text-xs font-bold text-white bg-primary rounded-lg hover:bg-primary-dark shadow-sm"
+                                                                title={`Offer expires at ${new Date(myOffer.expiresAt).toLocaleTimeString()}`}
+                                                            >
+                                                                Accept Offer
+                                                            </button>
+                                                        </div>
+                                                    ) : (
                                                     <div className="flex justify-end gap-2">
                                                         {isPendingConfirmation && (
                                                             <button
@@ -548,6 +710,15 @@ export const SupplierRequestsScreen: React.FC = () => {
                                                             {isPendingConfirmation ? 'Accept' : 'View & Accept'}
                                                         </button>
                                                     </div>
+                                                    )}
+                                                    {openSeries.length > 1 && (
+                                                        <button
+                                                            onClick={() => handleAcceptClick(booking, true)}
+                                                            className="mt-2 text-xs font-semibold text-primary hover:underline"
+                                                        >
+                                                            Accept all {openSeries.length} dates
+                                                        </button>
+                                                    )}
                                                 </td>
                                             </tr>
                                         );
@@ -571,29 +742,15 @@ export const SupplierRequestsScreen: React.FC = () => {
 
             {/* Suspension / Blocked Banner */}
             {(user?.userStatus === 'suspended' || user?.userStatus === 'blocked') && (
-                <div className={`mx-4 mt-4 ${user.userStatus === 'blocked' ? 'bg-red-700' : 'bg-red-500'} text-white p-4 rounded-lg flex items-center shadow-lg animate-pulse`}>
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 mr-3 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-                    </svg>
-                    <div>
-                        <p className="font-bold text-lg uppercase">Account {user.userStatus}</p>
-                        <p className="text-sm font-medium mb-1">
-                            Your account is {user.userStatus} until {user.suspendedUntil ? new Date(user.suspendedUntil).toLocaleString() : 'further notice'}. You cannot accept new requests.
-                        </p>
-                        {user.userStatus === 'blocked' && (
-                            <p className="text-xs font-bold underline cursor-pointer" onClick={() => {/* Simple alert or nav to complaint */ alert('Please email admin@agrirent.com to raise a complaint.'); }}>
-                                Contact Admin to Raise a Complaint
-                            </p>
-                        )}
-                    </div>
-                </div>
+                <SuspensionBanner user={user} note="You cannot accept new requests." className="mx-4 mt-4" />
             )}
             {bookingToAccept && (
                 <AcceptJobModal
                     booking={bookingToAccept}
                     availableItems={itemsForBooking}
-                    onClose={() => setBookingToAccept(null)}
+                    onClose={() => { setBookingToAccept(null); setAcceptWholeSeries(false); }}
                     onConfirm={handleConfirmAccept}
+                    seriesDates={acceptWholeSeries ? getOpenSeries(bookingToAccept).map(b => b.date) : undefined}
                 />
             )}
 
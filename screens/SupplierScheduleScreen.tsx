@@ -3,13 +3,31 @@ import { useAuth } from '../context/AuthContext';
 import { useBooking } from '../context/BookingContext';
 import { useItem } from '../context/ItemContext';
 import Button from '../components/Button';
+import ItemCalendarEditor from '../components/ItemCalendarEditor';
+import MaintenanceLogEditor from '../components/MaintenanceLogEditor';
+import { useItemAvailability } from '../hooks/useItemAvailability';
+import { getItemDayOffReason } from '../utils/availability';
+import { AvailabilitySlotStatus } from '../types';
+
+const SLOT_STYLES: Record<AvailabilitySlotStatus, string> = {
+    free: 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400',
+    booked: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+    held: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+    maintenance: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300',
+    off: 'bg-neutral-100 text-neutral-400 dark:bg-neutral-700 dark:text-neutral-500'
+};
 
 const SupplierScheduleScreen: React.FC = () => {
     const { user, updateUser } = useAuth();
     const { bookings } = useBooking();
-    const { items } = useItem();
+    const { items, saveItemAvailability } = useItem();
     const [currentDate, setCurrentDate] = useState(new Date());
     const [selectedDate, setSelectedDate] = useState(new Date());
+    const [calendarItemId, setCalendarItemId] = useState<number | null>(null);
+
+    // Each item has its own calendar; the rest-day button still closes all of them
+    const myItems = useMemo(() => items.filter(i => i.ownerId === user?.id), [items, user]);
+    const calendarItem = myItems.find(i => i.id === calendarItemId) || myItems[0];
 
     const myBookings = useMemo(() => {
         return bookings.filter(b => b.supplierId === user?.id && b.status !== 'Cancelled');
@@ -64,6 +82,7 @@ const SupplierScheduleScreen: React.FC = () => {
     const selectedDateStr = `${selectedDate.getFullYear()}-${String(selectedDate.getMonth() + 1).padStart(2, '0')}-${String(selectedDate.getDate()).padStart(2, '0')}`;
     const selectedDateBookings = getBookingsForDate(selectedDateStr);
     const isSelectedDateBlocked = user?.blockedDates?.includes(selectedDateStr);
+    const { day: itemDay } = useItemAvailability(calendarItem?.id, selectedDateStr);
 
     return (
         <div className="p-4 space-y-6">
@@ -103,6 +122,7 @@ const SupplierScheduleScreen: React.FC = () => {
                             const dateString = `${dateObj.getFullYear()}-${String(dateObj.getMonth() + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
                             const dayBookings = getBookingsForDate(dateString);
                             const isBlocked = user?.blockedDates?.includes(dateString);
+                            const isItemOff = !isBlocked && !!calendarItem && !!getItemDayOffReason(calendarItem, null, dateString);
                             const isToday = dateString === todayString;
                             const isSelected = dateObj.toDateString() === selectedDate.toDateString();
 
@@ -123,6 +143,8 @@ const SupplierScheduleScreen: React.FC = () => {
                                 containerClass += "bg-primary text-white font-bold shadow-md transform scale-105";
                             } else if (isToday) {
                                 containerClass += "bg-primary/10 text-primary font-bold";
+                            } else if (isItemOff) {
+                                containerClass += "bg-neutral-100 dark:bg-neutral-700/50 text-neutral-400 line-through";
                             } else {
                                 containerClass += "text-neutral-700 dark:text-neutral-200 hover:bg-neutral-100 dark:hover:bg-neutral-700";
                             }
@@ -270,6 +292,51 @@ const SupplierScheduleScreen: React.FC = () => {
                     )}
                 </div>
             </div>
+
+            {/* Item Calendar */}
+            {calendarItem && (
+                <div className="bg-white dark:bg-neutral-800 rounded-2xl shadow-sm border border-neutral-100 dark:border-neutral-700 p-5 space-y-5">
+                    <div className="flex justify-between items-center gap-3">
+                        <h3 className="font-bold text-lg text-neutral-900 dark:text-white">Item Calendar</h3>
+                        <select
+                            value={calendarItem.id}
+                            onChange={e => setCalendarItemId(Number(e.target.value))}
+                            className="border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-700 rounded-lg py-1.5 px-2 text-sm text-neutral-800 dark:text-white"
+                        >
+                            {myItems.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+                        </select>
+                    </div>
+
+                    {itemDay && (
+                        <div>
+                            <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wide mb-1.5">
+                                {selectedDate.toLocaleDateString('default', { month: 'short', day: 'numeric' })} · {itemDay.bookedHours}h of {itemDay.maxDailyHours}h booked
+                            </p>
+                            {itemDay.offReason ? (
+                                <p className="text-sm text-neutral-500">{itemDay.offReason}</p>
+                            ) : (
+                                <div className="grid grid-cols-6 gap-1">
+                                    {itemDay.slots.map(slot => (
+                                        <div key={slot.start} title={slot.status} className={`text-center text-xs font-semibold rounded py-1 ${SLOT_STYLES[slot.status]}`}>
+                                            {slot.start}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    <ItemCalendarEditor item={calendarItem} onSave={saveItemAvailability} />
+                </div>
+            )}
+
+            {/* Maintenance Log */}
+            {calendarItem && (
+                <div className="bg-white dark:bg-neutral-800 rounded-2xl shadow-sm border border-neutral-100 dark:border-neutral-700 p-5 space-y-5">
+                    <h3 className="font-bold text-lg text-neutral-900 dark:text-white">Maintenance Log · {calendarItem.name}</h3>
+                    <MaintenanceLogEditor item={calendarItem} />
+                </div>
+            )}
         </div>
     );
 };
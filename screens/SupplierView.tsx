@@ -7,7 +7,7 @@ import { useAuth } from '../context/AuthContext';
 import { useItem } from '../context/ItemContext';
 import { useBooking } from '../context/BookingContext';
 import { useReview } from '../context/ReviewContext';
-import { Item, ItemCategory, Booking, AppView, WorkPurpose, WORK_PURPOSES, CATEGORY_WORK_PURPOSES, WORKER_PURPOSE_IMAGES, HARVESTER_PURPOSE_IMAGES, TRACTOR_PURPOSE_IMAGES } from '../types';
+import { Item, ItemCategory, Booking, AppView, WorkPurpose, PricingUnit, WORK_PURPOSES, CATEGORY_WORK_PURPOSES, WORKER_PURPOSE_IMAGES, HARVESTER_PURPOSE_IMAGES, TRACTOR_PURPOSE_IMAGES } from '../types';
 import Header from '../components/Header';
 import Button from '../components/Button';
 import Input from '../components/Input';
@@ -21,6 +21,7 @@ import { useToast } from '../context/ToastContext';
 import SupplierBookingsScreen from './SupplierBookingsScreen';
 import SupplierScheduleScreen from './SupplierScheduleScreen';
 import { uploadImage } from '../src/lib/upload';
+import { PRICING_UNIT_LABELS } from '../utils/pricing';
 import { GoogleGenAI, HarmCategory, HarmBlockThreshold } from "@google/genai";
 import { useLanguage } from '../context/LanguageContext';
 
@@ -89,7 +90,7 @@ const AddItemScreen: React.FC<{ itemToEdit: Item | null, onBack: () => void }> =
     const languageName = languageNames[language] || 'English';
 
     const [name, setName] = useState('');
-    const [purposes, setPurposes] = useState<{ name: WorkPurpose, price: string }[]>([{ name: WORK_PURPOSES[0], price: '' }]);
+    const [purposes, setPurposes] = useState<{ name: WorkPurpose, price: string, unit: PricingUnit, minimumCharge: string }[]>([{ name: WORK_PURPOSES[0], price: '', unit: 'hour', minimumCharge: '' }]);
     const [category, setCategory] = useState<ItemCategory>(itemToEdit?.category || ItemCategory.Tractors);
     const [location, setLocation] = useState('');
     const [itemGeo, setItemGeo] = useState<{ lat: number; lng: number } | null>(null);
@@ -109,6 +110,8 @@ const AddItemScreen: React.FC<{ itemToEdit: Item | null, onBack: () => void }> =
     const [priceSuggestion, setPriceSuggestion] = useState('');
     const [isSuggestingPrice, setIsSuggestingPrice] = useState(false);
     const [autoPriceOptimization, setAutoPriceOptimization] = useState(false);
+    // Seasonal rates as a % change on every purpose between two MM-DD dates
+    const [seasonalPrices, setSeasonalPrices] = useState<{ name: string, percent: string, startDate: string, endDate: string }[]>([]);
     const [showKyc, setShowKyc] = useState(false);
     const [aadharImageUrl, setAadharImageUrl] = useState('');
     const [personalPhotoUrl, setPersonalPhotoUrl] = useState('');
@@ -132,7 +135,7 @@ const AddItemScreen: React.FC<{ itemToEdit: Item | null, onBack: () => void }> =
     useEffect(() => {
         const resetForm = () => {
             setName('');
-            setPurposes([{ name: WORK_PURPOSES[0], price: '' }]);
+            setPurposes([{ name: WORK_PURPOSES[0], price: '', unit: 'hour', minimumCharge: '' }]);
             setCategory(ItemCategory.Tractors);
             setLocation('');
             setDescription('');
@@ -149,7 +152,7 @@ const AddItemScreen: React.FC<{ itemToEdit: Item | null, onBack: () => void }> =
 
         if (itemToEdit) {
             setName(itemToEdit.name);
-            setPurposes(itemToEdit.purposes.map(p => ({ name: p.name, price: p.price.toString() })));
+            setPurposes(itemToEdit.purposes.map(p => ({ name: p.name, price: p.price.toString(), unit: p.unit || 'hour', minimumCharge: p.minimumCharge?.toString() || '' })));
             setCategory(itemToEdit.category);
             setLocation(itemToEdit.location);
             if (itemToEdit.locationCoords) {
@@ -167,6 +170,12 @@ const AddItemScreen: React.FC<{ itemToEdit: Item | null, onBack: () => void }> =
             setHorsepower(itemToEdit.horsepower?.toString() || '');
             setCondition(itemToEdit.condition || 'Good');
             setAutoPriceOptimization(!!itemToEdit.autoPriceOptimization);
+            setSeasonalPrices((itemToEdit.seasonalPrices || []).map(sp => ({
+                name: sp.name,
+                percent: String(Math.round((sp.priceModifier - 1) * 100)),
+                startDate: sp.startDate,
+                endDate: sp.endDate
+            })));
         } else {
             resetForm();
         }
@@ -323,7 +332,7 @@ const AddItemScreen: React.FC<{ itemToEdit: Item | null, onBack: () => void }> =
         const usedPurposes = new Set(purposes.map(p => p.name));
         const nextPurpose = availablePurposes.find(p => !usedPurposes.has(p));
         if (nextPurpose) {
-            setPurposes([...purposes, { name: nextPurpose, price: '' }]);
+            setPurposes([...purposes, { name: nextPurpose, price: '', unit: 'hour', minimumCharge: '' }]);
         } else {
             showToast("All available work purposes have been added.", "info");
         }
@@ -374,6 +383,13 @@ const AddItemScreen: React.FC<{ itemToEdit: Item | null, onBack: () => void }> =
             showToast('Please select a location on the map.', 'error');
             return;
         }
+        const monthDay = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+        const badSeason = seasonalPrices.find(sp => !sp.name.trim() || !monthDay.test(sp.startDate) || !monthDay.test(sp.endDate)
+            || isNaN(parseFloat(sp.percent)) || parseFloat(sp.percent) <= -100);
+        if (badSeason) {
+            showToast('Each seasonal price needs a name, a % change above -100 and dates as MM-DD.', 'error');
+            return;
+        }
 
         // Upload images if they are base64
         const uploadedImages: string[] = [];
@@ -414,7 +430,12 @@ const AddItemScreen: React.FC<{ itemToEdit: Item | null, onBack: () => void }> =
         const itemData: Omit<Item, 'id'> = {
             name,
             category,
-            purposes: validPurposes.map(p => ({ name: p.name, price: parseFloat(p.price) })),
+            purposes: validPurposes.map(p => ({
+                name: p.name,
+                price: parseFloat(p.price),
+                unit: p.unit,
+                ...(parseFloat(p.minimumCharge) > 0 ? { minimumCharge: parseFloat(p.minimumCharge) } : {})
+            })),
             images: itemImages,
             ownerId: user.id,
             location,
@@ -430,7 +451,13 @@ const AddItemScreen: React.FC<{ itemToEdit: Item | null, onBack: () => void }> =
             horsepower: isHeavyMachinery && horsepower ? parseInt(horsepower) : undefined,
             condition: isHeavyMachinery || isEquipment ? condition : undefined,
             gender: isWorker ? gender : undefined,
-            autoPriceOptimization
+            autoPriceOptimization,
+            seasonalPrices: seasonalPrices.map(sp => ({
+                name: sp.name.trim(),
+                priceModifier: Math.round((1 + parseFloat(sp.percent) / 100) * 100) / 100,
+                startDate: sp.startDate,
+                endDate: sp.endDate
+            }))
         };
 
         if (itemToEdit) {
@@ -833,13 +860,13 @@ const AddItemScreen: React.FC<{ itemToEdit: Item | null, onBack: () => void }> =
                                 </div>
 
                                 <div className="flex-grow space-y-3">
-                                    {/* Price Range Hint - shown above the row */}
-                                    <div className="px-2 py-1.5 bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 rounded-md">
+                                    {/* Price Range Hint - shown above the row (the standard ranges are hourly) */}
+                                    {p.unit === 'hour' && <div className="px-2 py-1.5 bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 rounded-md">
                                         <p className="text-xs text-green-700 dark:text-green-300 font-medium flex items-center gap-1">
                                             <svg className="w-3 h-3 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
                                             <span>Standard Price Range: <strong>₹{PRICE_RANGES[category]?.min || 100} - ₹{PRICE_RANGES[category]?.max || 1000}/hr</strong></span>
                                         </p>
-                                    </div>
+                                    </div>}
                                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-start">
                                         <div>
                                             <label className="text-xs font-semibold text-gray-500 mb-1.5 block">Work Purpose</label>
@@ -858,21 +885,40 @@ const AddItemScreen: React.FC<{ itemToEdit: Item | null, onBack: () => void }> =
                                             </div>
                                         </div>
                                         <div>
-                                            <label className="text-xs font-semibold text-gray-500 mb-1.5 block">Price per Hour (₹)</label>
+                                            <div className="flex items-center justify-between mb-1.5">
+                                                <label className="text-xs font-semibold text-gray-500">Price (₹)</label>
+                                                <select
+                                                    value={p.unit}
+                                                    onChange={(e) => handlePurposeChange(index, 'unit', e.target.value)}
+                                                    className="text-xs border border-neutral-300 dark:border-gray-600 bg-white dark:bg-gray-700 rounded px-1.5 py-0.5 text-neutral-700 dark:text-neutral-200"
+                                                >
+                                                    <option value="hour">per hour</option>
+                                                    <option value="acre">per acre</option>
+                                                    <option value="trip">per trip</option>
+                                                </select>
+                                            </div>
                                             <div className="relative">
                                                 <input
                                                     type="number"
-                                                    placeholder={`${PRICE_RANGES[category]?.min || 100} - ${PRICE_RANGES[category]?.max || 1000}`}
+                                                    placeholder={p.unit === 'hour' ? `${PRICE_RANGES[category]?.min || 100} - ${PRICE_RANGES[category]?.max || 1000}` : 'e.g. 1500'}
                                                     value={p.price}
                                                     onChange={(e) => handlePurposeChange(index, 'price', e.target.value)}
-                                                    min={PRICE_RANGES[category]?.min || 100}
-                                                    max={PRICE_RANGES[category]?.max || 1000}
+                                                    min={p.unit === 'hour' ? PRICE_RANGES[category]?.min || 100 : 1}
+                                                    max={p.unit === 'hour' ? PRICE_RANGES[category]?.max || 1000 : undefined}
                                                     className="w-full shadow-sm appearance-none border border-neutral-300 dark:border-gray-600 bg-white dark:bg-gray-700 rounded-lg py-2.5 px-3 text-neutral-800 dark:text-white text-sm focus:outline-none focus:ring-1 focus:ring-green-500 font-semibold"
                                                     required
                                                 />
-                                                <span className="absolute right-3 top-2.5 text-gray-400 text-sm">₹/hr</span>
+                                                <span className="absolute right-3 top-2.5 text-gray-400 text-sm">₹/{PRICING_UNIT_LABELS[p.unit]}</span>
                                             </div>
-                                            {p.price && (Number(p.price) < (PRICE_RANGES[category]?.min || 0) || Number(p.price) > (PRICE_RANGES[category]?.max || Infinity)) && (
+                                            <input
+                                                type="number"
+                                                placeholder="Minimum charge (optional)"
+                                                value={p.minimumCharge}
+                                                onChange={(e) => handlePurposeChange(index, 'minimumCharge', e.target.value)}
+                                                min={0}
+                                                className="mt-2 w-full shadow-sm appearance-none border border-neutral-300 dark:border-gray-600 bg-white dark:bg-gray-700 rounded-lg py-2 px-3 text-neutral-800 dark:text-white text-sm focus:outline-none focus:ring-1 focus:ring-green-500"
+                                            />
+                                            {p.unit === 'hour' && p.price && (Number(p.price) < (PRICE_RANGES[category]?.min || 0) || Number(p.price) > (PRICE_RANGES[category]?.max || Infinity)) && (
                                                 <p className="text-xs text-red-500 mt-1 flex items-center gap-1">
                                                     <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
                                                     Price must be between ₹{PRICE_RANGES[category]?.min} - ₹{PRICE_RANGES[category]?.max}/hr
@@ -998,6 +1044,31 @@ const AddItemScreen: React.FC<{ itemToEdit: Item | null, onBack: () => void }> =
                     </button>
                 </div>
 
+                <div className="space-y-3">
+                    <div>
+                        <p className="text-base font-bold text-neutral-800 dark:text-neutral-100">Seasonal Prices</p>
+                        <p className="text-sm text-neutral-500 dark:text-neutral-400">Raise or lower all your rates between two dates each year, e.g. +20% at harvest or -10% in the off season.</p>
+                    </div>
+                    {seasonalPrices.map((sp, index) => (
+                        <div key={index} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+                            <Input label="Season" value={sp.name} onChange={e => setSeasonalPrices(prev => prev.map((x, i) => i === index ? { ...x, name: e.target.value } : x))} placeholder="e.g. Harvest" />
+                            <Input label="Change (%)" type="number" value={sp.percent} onChange={e => setSeasonalPrices(prev => prev.map((x, i) => i === index ? { ...x, percent: e.target.value } : x))} placeholder="e.g. 20 or -10" />
+                            <Input label="From (MM-DD)" value={sp.startDate} onChange={e => setSeasonalPrices(prev => prev.map((x, i) => i === index ? { ...x, startDate: e.target.value } : x))} placeholder="10-01" maxLength={5} />
+                            <Input label="To (MM-DD)" value={sp.endDate} onChange={e => setSeasonalPrices(prev => prev.map((x, i) => i === index ? { ...x, endDate: e.target.value } : x))} placeholder="11-30" maxLength={5} />
+                            <button type="button" onClick={() => setSeasonalPrices(prev => prev.filter((_, i) => i !== index))} className="text-xs text-red-500 hover:text-red-700 px-2 py-3 rounded hover:bg-red-50">
+                                Remove
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        type="button"
+                        onClick={() => setSeasonalPrices(prev => [...prev, { name: '', percent: '', startDate: '', endDate: '' }])}
+                        className="w-full py-2 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-xl text-sm text-gray-500 dark:text-gray-400 hover:border-green-500 hover:text-green-600 font-semibold"
+                    >
+                        + Add Seasonal Price
+                    </button>
+                </div>
+
                 {isWorker && (
                     <Input label="Available Quantity" type="number" value={quantityAvailable} onChange={e => setQuantityAvailable(e.target.value)} placeholder="e.g., 10" required min="0" />
                 )}
@@ -1298,6 +1369,7 @@ export const SupplierKycInlineForm: React.FC<{ onSubmitted: () => void }> = ({ o
     const [address, setAddress] = useState('');
     const [aadhaarNumber, setAadhaarNumber] = useState('');
     const [panNumber, setPanNumber] = useState('');
+    const [gstNumber, setGstNumber] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [aadhaarPreview, setAadhaarPreview] = useState<string>('');
     const [photoPreview, setPhotoPreview] = useState<string>('');
@@ -1405,6 +1477,11 @@ export const SupplierKycInlineForm: React.FC<{ onSubmitted: () => void }> = ({ o
                         setPanPreview(pan.url);
                         setPanNumber(pan.number || '');
                     }
+
+                    const gst = data.docs?.find((d: any) => d.type === 'GST');
+                    if (gst) {
+                        setGstNumber(gst.number || '');
+                    }
                 }
             } catch (error) {
                 console.error('Error fetching KYC:', error);
@@ -1461,7 +1538,8 @@ export const SupplierKycInlineForm: React.FC<{ onSubmitted: () => void }> = ({ o
                 aadhaarUrl,
                 photoUrl,
                 panNumber: panNumber || undefined,
-                panUrl: panUrl || undefined
+                panUrl: panUrl || undefined,
+                gstNumber: gstNumber.trim() || undefined
             };
 
             console.log('Submitting KYC data:', kycPayload);
@@ -1586,6 +1664,13 @@ export const SupplierKycInlineForm: React.FC<{ onSubmitted: () => void }> = ({ o
                 <input type="file" accept="image/*,application/pdf" onChange={onPanSelect} className="shadow appearance-none border border-neutral-300 dark:border-gray-600 bg-white dark:bg-gray-700 rounded-lg w-full py-2 px-3 text-neutral-800 dark:text-white" />
                 <Input label="PAN Number (Optional)" value={panNumber} onChange={e => setPanNumber(e.target.value)} />
             </div>
+            <div>
+                <label className="block text-neutral-700 dark:text-neutral-300 text-sm font-bold mb-2">
+                    GST Registration (Optional)
+                    {renderStatusBadge('GST')}
+                </label>
+                <Input label="GSTIN (shown on your invoices)" value={gstNumber} onChange={e => setGstNumber(e.target.value.toUpperCase())} maxLength={15} />
+            </div>
 
             <Button
                 type="submit"
@@ -1798,11 +1883,13 @@ const SupplierDashboardScreen: React.FC<SupplierViewProps & { goToTab?: (name: s
                         icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-green-600 dark:text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>}
                     />
                 </div>
-                <StatCard
-                    title={t('avgRating')}
-                    value={avgRating > 0 ? `${avgRating.toFixed(1)}/5` : 'N/A'}
-                    icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-yellow-500 dark:text-yellow-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.783-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" /></svg>}
-                />
+                <div onClick={() => navigate({ view: 'WAR_BREAKDOWN' })} className="cursor-pointer">
+                    <StatCard
+                        title={t('avgRating')}
+                        value={avgRating > 0 ? `${avgRating.toFixed(1)}/5` : 'N/A'}
+                        icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-yellow-500 dark:text-yellow-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.783-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" /></svg>}
+                    />
+                </div>
                 <StatCard
                     title="Performance Score"
                     value={`${performance.score}/100`}
@@ -1877,7 +1964,7 @@ const SupplierDashboardScreen: React.FC<SupplierViewProps & { goToTab?: (name: s
                 <div className="bg-white dark:bg-neutral-700 rounded-lg border border-neutral-200 dark:border-neutral-600 overflow-hidden divide-y divide-neutral-200 dark:divide-neutral-600">
                     <h3 className="p-4 text-lg font-bold text-neutral-800 dark:text-neutral-100">{t('profile')}</h3>
                     <ProfileLink label={t('myAccount')} onClick={() => navigate({ view: 'MY_ACCOUNT' })} />
-
+                    <ProfileLink label="Verified Account" onClick={() => navigate({ view: 'VERIFIED_ACCOUNT_MANAGER' })} />
                     <ProfileLink label={t('paymentHistory')} onClick={() => navigate({ view: 'PAYMENT_HISTORY' })} />
                     <ProfileLink label={t('bookingHistory')} onClick={() => navigate({ view: 'BOOKING_HISTORY' })} />
                     <ProfileLink label={t('settings')} onClick={() => navigate({ view: 'SETTINGS' })} />
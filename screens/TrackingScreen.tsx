@@ -1,32 +1,30 @@
-import React, { useEffect, useMemo, useState } from 'react';
-import { AppView, Item } from '../types';
+import React, { useMemo } from 'react';
+import { AppView, Booking, Item } from '../types';
 import Header from '../components/Header';
-import { MapContainer, TileLayer, Marker, Popup } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, Polyline } from 'react-leaflet';
 import L from 'leaflet';
 import { useItem } from '../context/ItemContext';
+import { useBookingTracking } from '../hooks/useBookingTracking';
 
 interface TrackingScreenProps {
     item: Item;
+    booking?: Booking;
     navigate: (view: AppView) => void;
     goBack: () => void;
 }
 
-const TrackingScreen: React.FC<TrackingScreenProps> = ({ item, navigate, goBack }) => {
+const formatEta = (minutes: number) => minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+
+const TrackingScreen: React.FC<TrackingScreenProps> = ({ item, booking, navigate, goBack }) => {
     const { items } = useItem();
-    const [liveLocation, setLiveLocation] = useState<{ lat: number; lng: number } | undefined>(
-        item.currentLocation || item.locationCoords
-    );
+    // Booking tracking is pushed over a Firestore listener; without a booking fall back to the item's last position
+    const { tracking, trail } = useBookingTracking(booking?.id);
 
-    // Poll for item location updates every 3 seconds
-    useEffect(() => {
-        const interval = setInterval(() => {
-            const updated = items.find(i => i.id === item.id);
-            if (updated?.currentLocation) {
-                setLiveLocation(updated.currentLocation);
-            }
-        }, 3000);
-        return () => clearInterval(interval);
-    }, [items, item.id]);
+    const liveLocation = useMemo(() => {
+        if (tracking) return { lat: tracking.lastLocation.lat, lng: tracking.lastLocation.lng };
+        const updated = items.find(i => i.id === item.id);
+        return updated?.currentLocation || item.currentLocation || item.locationCoords;
+    }, [tracking, items, item]);
 
     const center: [number, number] = useMemo(() => {
         if (liveLocation) return [liveLocation.lat, liveLocation.lng];
@@ -42,6 +40,13 @@ const TrackingScreen: React.FC<TrackingScreenProps> = ({ item, navigate, goBack
         shadowSize: [41, 41]
     });
 
+    const fieldIcon = L.divIcon({
+        className: '',
+        html: '<div style="width:16px;height:16px;border-radius:9999px;background:#16a34a;border:3px solid white;box-shadow:0 0 4px rgba(0,0,0,0.4)"></div>',
+        iconSize: [16, 16],
+        iconAnchor: [8, 8]
+    });
+
     return (
         <div className="flex flex-col h-screen">
             <Header title={`Tracking: ${item.name}`} onBack={goBack} />
@@ -52,6 +57,14 @@ const TrackingScreen: React.FC<TrackingScreenProps> = ({ item, navigate, goBack
                             attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
                             url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
                         />
+                        {trail.length > 1 && (
+                            <Polyline positions={trail.map(p => [p.lat, p.lng] as [number, number])} pathOptions={{ color: '#2563eb', weight: 4, opacity: 0.7 }} />
+                        )}
+                        {booking?.locationCoords && (
+                            <Marker position={[booking.locationCoords.lat, booking.locationCoords.lng]} icon={fieldIcon}>
+                                <Popup>{booking.location}</Popup>
+                            </Marker>
+                        )}
                         {liveLocation && (
                             <Marker position={[liveLocation.lat, liveLocation.lng]} icon={itemIcon}>
                                 <Popup>
@@ -66,14 +79,30 @@ const TrackingScreen: React.FC<TrackingScreenProps> = ({ item, navigate, goBack
                 </div>
                 <div className="p-6 bg-white border-t">
                     <h2 className="text-lg font-bold text-neutral-800">Live Location</h2>
-                    <p className="text-neutral-700">{item.name} current position:</p>
-                    <p className="font-mono text-primary mt-1">
-                        Lat: {liveLocation?.lat ?? '—'}, Lng: {liveLocation?.lng ?? '—'}
-                    </p>
+                    {booking && tracking ? (
+                        <div className="space-y-1 text-neutral-700">
+                            {tracking.etaMinutes !== undefined ? (
+                                <p className="text-2xl font-bold text-primary">Arriving in ~{formatEta(tracking.etaMinutes)}</p>
+                            ) : (
+                                <p className="font-semibold text-primary">{booking.status === 'Confirmed' ? 'On the way' : 'At your field'}</p>
+                            )}
+                            {tracking.distanceKm !== undefined && <p>{tracking.distanceKm} km from your field</p>}
+                            <p className="text-xs text-neutral-500">Last update {new Date(tracking.updatedAt).toLocaleTimeString()}</p>
+                        </div>
+                    ) : booking ? (
+                        <p className="text-neutral-700">Waiting for the supplier to share their location...</p>
+                    ) : (
+                        <>
+                            <p className="text-neutral-700">{item.name} current position:</p>
+                            <p className="font-mono text-primary mt-1">
+                                Lat: {liveLocation?.lat ?? '—'}, Lng: {liveLocation?.lng ?? '—'}
+                            </p>
+                        </>
+                    )}
                 </div>
             </div>
         </div>
     );
 };
 
-export default TrackingScreen;
\ No newline at end of file
+export default TrackingScreen;
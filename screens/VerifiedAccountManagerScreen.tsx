@@ -1,8 +1,17 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import { useVerifiedSubscription } from '../hooks/useVerifiedSubscription';
+import { buyVerifiedPlan } from '../src/lib/payments';
 import Header from '../components/Header';
 import Button from '../components/Button';
-import { AppView } from '../types';
+import { AppView, VerificationHistoryEntry } from '../types';
+
+const SOURCE_LABELS: Record<NonNullable<VerificationHistoryEntry['source']>, string> = {
+    purchase: 'Purchase',
+    auto_renewal: 'Auto-renewal',
+    admin: 'Admin grant'
+};
 
 interface VerifiedAccountManagerScreenProps {
     goBack: () => void;
@@ -11,10 +20,22 @@ interface VerifiedAccountManagerScreenProps {
 
 const VerifiedAccountManagerScreen: React.FC<VerifiedAccountManagerScreenProps> = ({ goBack, navigate }) => {
     const { user } = useAuth();
+    const { showToast } = useToast();
+    const { status, error, reload, setAutoRenew } = useVerifiedSubscription();
+    const [selectedPlan, setSelectedPlan] = useState('monthly');
+    const [isPaying, setIsPaying] = useState(false);
+    // One key per purchase attempt, so a retry of the same attempt can't pay twice
+    const [requestKey, setRequestKey] = useState(() => `${Date.now()}`);
+
+    useEffect(() => {
+        if (status?.planId) setSelectedPlan(status.planId);
+    }, [status?.planId]);
 
-    const isVerified = user?.isVerifiedAccount;
-    const purchaseDate = user?.verifiedAccountPurchaseDate ? new Date(user.verifiedAccountPurchaseDate) : null;
-    const expiryDate = user?.verifiedAccountExpiryDate ? new Date(user.verifiedAccountExpiryDate) : null;
+    const isVerified = status ? status.status === 'active' || status.status === 'grace' : user?.isVerifiedAccount;
+    const purchaseDateStr = status ? status.purchaseDate : user?.verifiedAccountPurchaseDate;
+    const expiryDateStr = status ? status.expiryDate : user?.verifiedAccountExpiryDate;
+    const purchaseDate = purchaseDateStr ? new Date(purchaseDateStr) : null;
+    const expiryDate = expiryDateStr ? new Date(expiryDateStr) : null;
     const now = new Date();
 
     // Calculate days remaining
@@ -23,7 +44,34 @@ const VerifiedAccountManagerScreen: React.FC<VerifiedAccountManagerScreenProps>
     const totalDays = purchaseDate && expiryDate ? Math.ceil((expiryDate.getTime() - purchaseDate.getTime()) / (1000 * 60 * 60 * 24)) : 30;
     const progressPercent = totalDays > 0 ? Math.min(100, Math.max(0, ((totalDays - daysRemaining) / totalDays) * 100)) : 0;
 
-    const history = user?.verificationHistory || [];
+    const history = [...(status?.history || user?.verificationHistory || [])].reverse();
+    const plans = status?.plans || [];
+    const plan = plans.find(p => p.id === selectedPlan);
+
+    const handleBuy = async (method: 'online' | 'wallet') => {
+        if (!plan) return;
+        setIsPaying(true);
+        try {
+            await buyVerifiedPlan(plan.id, method, `${plan.id}:${method}:${requestKey}`, { name: user?.name, email: user?.email, contact: user?.phone });
+            showToast(method === 'wallet' ? `${plan.name} activated!` : 'Payment received! Your plan will be active shortly.', 'success');
+            setRequestKey(`${Date.now()}`);
+            // Online plans are activated by the payment webhook, so give it a moment
+            setTimeout(reload, method === 'wallet' ? 0 : 2000);
+        } catch (e) {
+            showToast((e as Error).message || 'Payment failed. Please try again.', 'error');
+        } finally {
+            setIsPaying(false);
+        }
+    };
+
+    const handleAutoRenew = async (on: boolean) => {
+        try {
+            await setAutoRenew(on, selectedPlan);
+            showToast(on ? 'Auto-renewal turned on' : 'Auto-renewal turned off', 'success');
+        } catch (e) {
+            showToast((e as Error).message, 'error');
+        }
+    };
 
     const formatDate = (dateStr: string) => {
         const date = new Date(dateStr);
@@ -35,7 +83,7 @@ const VerifiedAccountManagerScreen: React.FC<VerifiedAccountManagerScreenProps>
             return <span className="px-3 py-1 bg-gray-100 text-gray-600 rounded-full text-sm font-medium">Not Verified</span>;
         }
         if (isExpired) {
-            return <span className="px-3 py-1 bg-red-100 text-red-600 rounded-full text-sm font-medium">Expired</span>;
+            return <span className="px-3 py-1 bg-yellow-100 text-yellow-700 rounded-full text-sm font-medium">Grace Period</span>;
         }
         return <span className="px-3 py-1 bg-green-100 text-green-600 rounded-full text-sm font-medium">Active</span>;
     };
@@ -103,7 +151,8 @@ const VerifiedAccountManagerScreen: React.FC<VerifiedAccountManagerScreenProps>
                             </div>
                             <h3 className="text-lg font-semibold text-neutral-800 dark:text-white mb-2">Verification Expired</h3>
                             <p className="text-neutral-500 dark:text-neutral-400 text-sm mb-4">
-                                Your verified account has expired. Renew to regain priority listing and higher visibility.
+                                Your plan ended on {expiryDate ? formatDate(expiryDate.toISOString()) : '-'}. Your badge stays
+                                {status?.graceUntil ? ` until ${formatDate(status.graceUntil)}` : ' for a few days'} — renew before then to keep priority listing.
                             </p>
                         </div>
                     ) : (
@@ -120,11 +169,51 @@ const VerifiedAccountManagerScreen: React.FC<VerifiedAccountManagerScreenProps>
                         </div>
                     )}
 
-                    <Button className="w-full mt-4" onClick={() => alert('Payment integration coming soon!')}>
-                        {isVerified && !isExpired ? 'Renew Verification' : 'Get Verified - ₹999/month'}
-                    </Button>
+                    {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
                 </div>
 
+                {/* Plans Card */}
+                {plans.length > 0 && (
+                    <div className="bg-white dark:bg-neutral-800 rounded-xl p-6 shadow-sm">
+                        <h2 className="text-lg font-semibold text-neutral-800 dark:text-white mb-4">{isVerified ? 'Renew or Extend' : 'Choose a Plan'}</h2>
+                        <div className="grid grid-cols-3 gap-2">
+                            {plans.map(p => (
+                                <button
+                                    key={p.id}
+                                    onClick={() => setSelectedPlan(p.id)}
+                                    className={`rounded-lg border-2 p-3 text-center transition-colors ${selectedPlan === p.id ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/20' : 'border-neutral-200 dark:border-neutral-700'}`}
+                                >
+                                    <p className="text-sm font-semibold text-neutral-800 dark:text-white">{p.months === 1 ? '1 month' : `${p.months} months`}</p>
+                                    <p className="text-lg font-bold text-neutral-900 dark:text-white">₹{p.price.toLocaleString()}</p>
+                                    <p className="text-xs text-neutral-500">₹{Math.round(p.price / p.months)}/month</p>
+                                </button>
+                            ))}
+                        </div>
+                        {isVerified && !isExpired && (
+                            <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-2">Buying now adds the plan after your current expiry date.</p>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-3 mt-4">
+                            <Button onClick={() => handleBuy('online')} disabled={isPaying || !plan}>
+                                {isPaying ? 'Processing...' : `Pay ₹${plan?.price.toLocaleString() || ''} Online`}
+                            </Button>
+                            <Button variant="secondary" onClick={() => handleBuy('wallet')} disabled={isPaying || !plan}>
+                                Pay from Wallet
+                            </Button>
+                        </div>
+
+                        <label className="flex items-start gap-3 mt-4 text-sm text-neutral-700 dark:text-neutral-300">
+                            <input type="checkbox" className="mt-1" checked={!!status?.autoRenew} onChange={e => handleAutoRenew(e.target.checked)} />
+                            <span>
+                                Auto-renew from my wallet
+                                <span className="block text-xs text-neutral-500 dark:text-neutral-400">
+                                    Charges the {plan?.name || 'selected plan'} when your plan ends. If the balance is short you get a few days' grace before the badge is removed.
+                                </span>
+                            </span>
+                        </label>
+                    </div>
+                )}
+
                 {/* Benefits Card */}
                 <div className="bg-white dark:bg-neutral-800 rounded-xl p-6 shadow-sm">
                     <h2 className="text-lg font-semibold text-neutral-800 dark:text-white mb-4">Benefits</h2>
@@ -166,6 +255,7 @@ const VerifiedAccountManagerScreen: React.FC<VerifiedAccountManagerScreenProps>
                                     <tr className="border-b border-neutral-200 dark:border-neutral-700">
                                         <th className="text-left py-2 text-neutral-500 dark:text-neutral-400 font-medium">Plan</th>
                                         <th className="text-left py-2 text-neutral-500 dark:text-neutral-400 font-medium">Period</th>
+                                        <th className="text-left py-2 text-neutral-500 dark:text-neutral-400 font-medium">Payment</th>
                                         <th className="text-right py-2 text-neutral-500 dark:text-neutral-400 font-medium">Amount</th>
                                     </tr>
                                 </thead>
@@ -176,6 +266,14 @@ const VerifiedAccountManagerScreen: React.FC<VerifiedAccountManagerScreenProps>
                                             <td className="py-3 text-neutral-600 dark:text-neutral-300">
                                                 {formatDate(entry.purchaseDate)} - {formatDate(entry.expiryDate)}
                                             </td>
+                                            <td className="py-3 text-neutral-600 dark:text-neutral-300">
+                                                {entry.source ? SOURCE_LABELS[entry.source] : '-'}
+                                                {entry.paymentReference && (
+                                                    <span className="block text-xs text-neutral-400 font-mono break-all">
+                                                        {entry.paymentMethod ? `${entry.paymentMethod} · ` : ''}{entry.paymentReference}
+                                                    </span>
+                                                )}
+                                            </td>
                                             <td className="py-3 text-right text-neutral-800 dark:text-white font-medium">₹{entry.amount}</td>
                                         </tr>
                                     ))}
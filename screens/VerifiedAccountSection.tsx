@@ -2,8 +2,7 @@ import React, { useState } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
 import VerifiedBadge from '../components/VerifiedBadge';
-
-const API_URL = (import.meta as any).env?.VITE_API_URL || '/api';
+import { buyVerifiedPlan } from '../src/lib/payments';
 
 interface VerifiedAccountSectionProps {
     onClose?: () => void;
@@ -13,7 +12,7 @@ interface VerifiedAccountSectionProps {
  * Verified Account Section - Shows purchase option and benefits for suppliers
  */
 const VerifiedAccountSection: React.FC<VerifiedAccountSectionProps> = ({ onClose }) => {
-    const { user, updateUser } = useAuth();
+    const { user } = useAuth();
     const { showToast } = useToast();
     const [loading, setLoading] = useState(false);
     const [showPurchaseModal, setShowPurchaseModal] = useState(false);
@@ -25,25 +24,12 @@ const VerifiedAccountSection: React.FC<VerifiedAccountSectionProps> = ({ onClose
 
         setLoading(true);
         try {
-            const res = await fetch(`${API_URL}/suppliers/${user.id}/request-verified`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' }
-            });
-
-            if (res.ok) {
-                const data = await res.json();
-                showToast('Verified Account activated successfully! 🎉', 'success');
-                // Update local user state
-                if (data.user) {
-                    updateUser(data.user);
-                }
-                setShowPurchaseModal(false);
-            } else {
-                const error = await res.json();
-                showToast(error.message || 'Failed to activate verified account', 'error');
-            }
+            // Monthly plan; other plans and wallet payment are on the Verified Account screen
+            await buyVerifiedPlan('monthly', 'online', `monthly:online:${Date.now()}`, { name: user.name, email: user.email, contact: user.phone });
+            showToast('Payment received! Your Verified Account will be active shortly. 🎉', 'success');
+            setShowPurchaseModal(false);
         } catch (error) {
-            showToast('Error processing request. Please try again.', 'error');
+            showToast((error as Error).message || 'Error processing request. Please try again.', 'error');
         } finally {
             setLoading(false);
         }
@@ -125,7 +111,7 @@ const VerifiedAccountSection: React.FC<VerifiedAccountSectionProps> = ({ onClose
                         <span>Get Verified Account</span>
                     </button>
                     <p className="text-center text-xs text-neutral-500 mt-2">
-                        ₹999/month • Cancel anytime
+                        ₹999/month • Turn off auto-renewal anytime
                     </p>
                 </div>
             )}
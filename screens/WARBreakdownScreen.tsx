@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import Header from '../components/Header';
+import { authFetch } from '../src/lib/authUtils';
+import { AppView, WARBreakdown, WARSimulation } from '../types';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+const TARGETS = [4.0, 4.2, 4.5, 4.8, 5.0];
+
+const fmt = (value: number, digits = 2) => value.toFixed(digits);
+
+interface WARBreakdownScreenProps {
+    navigate: (view: AppView) => void;
+    goBack: () => void;
+}
+
+const Step: React.FC<{ n: number; title: string; value: string; children: React.ReactNode }> = ({ n, title, value, children }) => (
+    <div className="flex gap-3 p-3 bg-neutral-50 dark:bg-neutral-800 rounded-lg">
+        <span className="w-6 h-6 flex-shrink-0 rounded-full bg-primary/10 text-primary text-xs font-bold flex items-center justify-center">{n}</span>
+        <div className="flex-1 min-w-0">
+            <div className="flex justify-between gap-2">
+                <p className="font-semibold text-neutral-800 dark:text-neutral-100">{title}</p>
+                <p className="font-bold text-neutral-900 dark:text-white">{value}</p>
+            </div>
+            <div className="text-xs text-neutral-500 dark:text-neutral-400 mt-1 space-y-0.5">{children}</div>
+        </div>
+    </div>
+);
+
+/**
+ * Supplier's own Weighted Average Rating, step by step, with a what-if simulator
+ */
+const WARBreakdownScreen: React.FC<WARBreakdownScreenProps> = ({ goBack }) => {
+    const [breakdown, setBreakdown] = useState<WARBreakdown | null>(null);
+    const [simulation, setSimulation] = useState<WARSimulation | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [scenario, setScenario] = useState({ target: 4.5, stars: 5, onTime: true, jobs: 10 });
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const res = await authFetch(`${API_URL}/war/breakdown`);
+                const data = await res.json().catch(() => ({}));
+                if (!res.ok) throw new Error(data.message || data.error || 'Could not load your rating');
+                setBreakdown(data);
+            } catch (e) {
+                setError((e as Error).message);
+            }
+        };
+        load();
+    }, []);
+
+    useEffect(() => {
+        const timer = setTimeout(async () => {
+            try {
+                const params = new URLSearchParams({
+                    target: String(scenario.target),
+                    stars: String(scenario.stars),
+                    onTime: String(scenario.onTime),
+                    jobs: String(scenario.jobs)
+                });
+                const res = await authFetch(`${API_URL}/war/simulate?${params}`);
+                if (res.ok) setSimulation(await res.json());
+            } catch (e) {
+                console.error('Error simulating rating:', e);
+            }
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [scenario]);
+
+    const c = breakdown?.constants;
+    const jobLabel = `on-time ${scenario.stars}★ job`;
+
+    return (
+        <div className="dark:text-neutral-200 bg-green-50 dark:bg-neutral-900 min-h-screen">
+            <Header title="My Rating" onBack={goBack} />
+            <div className="p-4 space-y-4">
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                {breakdown && c && (
+                    <>
+                        <div className="bg-gradient-to-r from-yellow-500 to-amber-500 rounded-xl p-5 text-white shadow-sm">
+                            <p className="text-sm opacity-80">Weighted Average Rating</p>
+                            <p className="text-4xl font-bold">{breakdown.finalRating.toFixed(1)}<span className="text-lg opacity-80">/5</span></p>
+                            <p className="mt-1 text-xs opacity-90">
+                                {breakdown.totalJobs} completed job{breakdown.totalJobs === 1 ? '' : 's'}
+                                {breakdown.lastCalculated ? ` · shown on your profile since ${new Date(breakdown.lastCalculated).toLocaleDateString('en-IN')}` : ''}
+                            </p>
+                        </div>
+
+                        <div className="bg-white dark:bg-neutral-700 p-4 rounded-lg border border-neutral-200 dark:border-neutral-600 space-y-2">
+                            <h3 className="text-lg font-bold text-neutral-800 dark:text-neutral-100 mb-1">How it's calculated</h3>
+                            <Step n={1} title="Star rating" value={`${fmt(breakdown.starRatingMean)}★`}>
+                                <p>{breakdown.recentReviewCount} review(s) from the last {c.recentDays} days count fully, {breakdown.olderReviewCount} from {c.recentDays + 1}-{c.decayDays} days count {c.decayWeight * 100}%.</p>
+                                {breakdown.expiredReviewCount > 0 && <p>{breakdown.expiredReviewCount} older review(s) no longer count.</p>}
+                                {breakdown.recentReviewCount + breakdown.olderReviewCount === 0 && <p>No recent reviews, so you start at {c.defaultRating}★.</p>}
+                            </Step>
+                            <Step n={2} title="On-time arrival" value={`${Math.round(breakdown.onTimeRate * 100)}%`}>
+                                <p>{breakdown.onTimeCount} of {breakdown.ratedJobs} tracked arrival(s) within {c.onTimeGraceMinutes} minutes of the start time.</p>
+                            </Step>
+                            <Step n={3} title="Base score" value={fmt(breakdown.baseScore)}>
+                                <p>{c.starRatingWeight} × {fmt(breakdown.starRatingMean)} + {c.onTimeWeight} × {fmt(breakdown.onTimeRate * 5)} (on-time rate on a 5-point scale)</p>
+                            </Step>
+                            <Step n={4} title="Penalties" value={breakdown.totalPenalty > 0 ? `−${fmt(breakdown.totalPenalty)}` : 'None'}>
+                                <p>Disputes (last {c.penaltyWindowMonths} months): {breakdown.disputeCount} × {c.disputePenalty} = {fmt(breakdown.disputePenalty)}</p>
+                                <p>Cancellations: {breakdown.cancellationCount} × {c.cancellationPenalty} → {fmt(breakdown.cancellationPenalty)}</p>
+                                <p>Arrivals over {c.lateArrivalPenaltyMinutes} min late: {breakdown.lateArrivalCount} × {c.lateArrivalPenalty} → {fmt(breakdown.lateArrivalPenalty)}</p>
+                                <p>No-shows: {breakdown.noShowCount} × {c.noShowPenalty} → {fmt(breakdown.noShowPenalty)}</p>
+                                <p>Cancellations, late arrivals and no-shows count fully for {c.recentDays} days and {c.decayWeight * 100}% up to {c.decayDays} days. Score after penalties: {fmt(breakdown.scoreAfterPenalties)}</p>
+                            </Step>
+                            <Step n={5} title="Experience weighting" value={fmt(breakdown.volumeWeightedRating)}>
+                                <p>({breakdown.totalJobs} × {fmt(breakdown.scoreAfterPenalties)} + {c.credibilityFactor} × {c.defaultRating}) ÷ ({breakdown.totalJobs} + {c.credibilityFactor})</p>
+                                <p>Your own score counts {Math.round(breakdown.ownScoreWeight * 100)}%; the rest is the {c.defaultRating}★ starting rating, which fades as you complete more jobs.</p>
+                            </Step>
+                        </div>
+                    </>
+                )}
+
+                <div className="bg-white dark:bg-neutral-700 p-4 rounded-lg border border-neutral-200 dark:border-neutral-600 space-y-3">
+                    <h3 className="text-lg font-bold text-neutral-800 dark:text-neutral-100">What if…</h3>
+                    <div className="grid grid-cols-2 gap-3 text-sm">
+                        <label className="space-y-1">
+                            <span className="text-neutral-600 dark:text-neutral-300">Target rating</span>
+                            <select value={scenario.target} onChange={e => setScenario({ ...scenario, target: Number(e.target.value) })} className="w-full px-3 py-2 rounded-lg border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-900">
+                                {TARGETS.map(t => <option key={t} value={t}>{t.toFixed(1)}</option>)}
+                            </select>
+                        </label>
+                        <label className="space-y-1">
+                            <span className="text-neutral-600 dark:text-neutral-300">Stars per job</span>
+                            <select value={scenario.stars} onChange={e => setScenario({ ...scenario, stars: Number(e.target.value) })} className="w-full px-3 py-2 rounded-lg border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-900">
+                                {[5, 4, 3, 2, 1].map(s => <option key={s} value={s}>{s}★</option>)}
+                            </select>
+                        </label>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+                        <input type="checkbox" checked={scenario.onTime} onChange={e => setScenario({ ...scenario, onTime: e.target.checked })} />
+                        Arriving on time
+                    </label>
+
+                    {simulation && (
+                        <p className="p-3 rounded-lg bg-primary/10 text-sm font-semibold text-neutral-800 dark:text-neutral-100">
+                            {simulation.jobsToTarget === 0
+                                ? `You're already at ${simulation.target.toFixed(1)} or above.`
+                                : simulation.jobsToTarget !== null
+                                    ? `${simulation.jobsToTarget} more ${scenario.onTime ? jobLabel : `late ${scenario.stars}★ job`}${simulation.jobsToTarget === 1 ? '' : 's'} to reach ${simulation.target.toFixed(1)}.`
+                                    : `Jobs like this top out at ${simulation.ceiling.toFixed(1)} while your current penalties count, so ${simulation.target.toFixed(1)} isn't reachable yet.`}
+                        </p>
+                    )}
+
+                    <div>
+                        <div className="flex justify-between text-sm">
+                            <span className="text-neutral-600 dark:text-neutral-300">After {scenario.jobs} more job{scenario.jobs === 1 ? '' : 's'}</span>
+                            <span className="font-bold text-neutral-900 dark:text-white">{simulation ? `${simulation.projected.finalRating.toFixed(1)}/5` : '—'}</span>
+                        </div>
+                        <input type="range" min={0} max={100} value={scenario.jobs} onChange={e => setScenario({ ...scenario, jobs: Number(e.target.value) })} className="w-full" />
+                    </div>
+
+                    {simulation && (
+                        <div className="grid grid-cols-6 gap-1 text-center text-xs">
+                            {simulation.steps.map(step => (
+                                <div key={step.jobs} className="p-1.5 bg-neutral-50 dark:bg-neutral-800 rounded">
+                                    <p className="text-neutral-500">+{step.jobs}</p>
+                                    <p className="font-bold text-neutral-800 dark:text-neutral-100">{step.rating.toFixed(1)}</p>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    <p className="text-[11px] text-neutral-400">Uses the same formula as your rating. Assumes your current disputes and cancellations still count.</p>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WARBreakdownScreen;
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import Header from '../components/Header';
+import Button from '../components/Button';
+import { AppView, Wallet, WalletTransaction, WalletTransactionType } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import { authFetch } from '../src/lib/authUtils';
+import { topUpWallet } from '../src/lib/payments';
+import { exportToExcel, exportToPdf } from '../lib/export';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+const TYPE_LABELS: Record<WalletTransactionType, string> = {
+    top_up: 'Top-up',
+    refund: 'Refund',
+    goodwill_credit: 'Goodwill credit',
+    promo_credit: 'Promo credit',
+    booking_payment: 'Booking payment',
+    subscription_payment: 'Verified plan',
+};
+
+const QUICK_AMOUNTS = [500, 1000, 2000, 5000];
+
+interface WalletScreenProps {
+    navigate: (view: AppView) => void;
+    goBack: () => void;
+}
+
+const WalletScreen: React.FC<WalletScreenProps> = ({ goBack }) => {
+    const { user } = useAuth();
+    const { showToast } = useToast();
+    const [wallet, setWallet] = useState<Wallet | null>(null);
+    const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+    const [amount, setAmount] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const fetchWallet = async () => {
+        try {
+            const res = await authFetch(`${API_URL}/wallet`);
+            if (!res.ok) return;
+            const data = await res.json();
+            setWallet(data.wallet);
+            setTransactions(data.transactions);
+        } catch (error) {
+            console.error('Error fetching wallet:', error);
+        }
+    };
+
+    useEffect(() => {
+        fetchWallet();
+    }, []);
+
+    const handleTopUp = async () => {
+        const value = Number(amount);
+        if (!value || value <= 0) {
+            showToast('Enter an amount to add', 'error');
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            await topUpWallet(value, { name: user?.name, email: user?.email, contact: user?.phone });
+            showToast('Payment received! Your balance will update shortly.', 'success');
+            setAmount('');
+            // The wallet is credited by the payment webhook, so give it a moment
+            setTimeout(fetchWallet, 2000);
+        } catch (e) {
+            showToast((e as Error).message || 'Top-up failed. Please try again.', 'error');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const exportRows = () => transactions.map(t => ({
+        Date: new Date(t.createdAt).toLocaleString(),
+        Type: TYPE_LABELS[t.type],
+        Amount: t.amount + t.promoAmount,
+        Balance: t.balanceAfter,
+        'Promo Balance': t.promoBalanceAfter,
+        Booking: t.bookingId || '',
+        Note: t.note || ''
+    }));
+
+    return (
+        <div className="dark:text-neutral-200 bg-green-50 dark:bg-neutral-900 min-h-screen">
+            <Header title="My Wallet" onBack={goBack} />
+            <div className="p-4 space-y-4">
+                <div className="bg-gradient-to-r from-green-600 to-emerald-600 rounded-xl p-5 text-white shadow-sm">
+                    <p className="text-sm opacity-80">Available balance</p>
+                    <p className="text-3xl font-bold">₹{((wallet?.balance || 0) + (wallet?.promoBalance || 0)).toLocaleString()}</p>
+                    <div className="mt-3 flex gap-4 text-xs opacity-90">
+                        <span>Cash: ₹{(wallet?.balance || 0).toLocaleString()}</span>
+                        <span>Promo: ₹{(wallet?.promoBalance || 0).toLocaleString()}</span>
+                    </div>
+                    <p className="mt-2 text-[11px] opacity-75">Promo balance is used first and can only be spent on bookings.</p>
+                </div>
+
+                <div className="bg-white dark:bg-neutral-800 p-4 rounded-lg border border-neutral-200 dark:border-neutral-700 space-y-3">
+                    <h2 className="font-bold text-neutral-900 dark:text-neutral-50">Add Money</h2>
+                    <div className="flex gap-2 flex-wrap">
+                        {QUICK_AMOUNTS.map(value => (
+                            <button
+                                key={value}
+                                onClick={() => setAmount(String(value))}
+                                className={`px-3 py-1.5 rounded-full border text-sm font-semibold ${amount === String(value) ? 'border-primary bg-primary/10 text-primary' : 'border-neutral-200 dark:border-neutral-600'}`}
+                            >
+                                ₹{value.toLocaleString()}
+                            </button>
+                        ))}
+                    </div>
+                    <input
+                        type="number"
+                        min={1}
+                        value={amount}
+                        onChange={e => setAmount(e.target.value)}
+                        placeholder="Enter amount"
+                        className="w-full px-3 py-2 rounded-lg border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-900"
+                    />
+                    <Button onClick={handleTopUp} disabled={isSubmitting}>
+                        {isSubmitting ? 'Processing…' : `Add ₹${Number(amount || 0).toLocaleString()}`}
+                    </Button>
+                </div>
+
+                <div className="bg-white dark:bg-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-700 overflow-hidden">
+                    <div className="p-4 flex items-center justify-between border-b border-neutral-200 dark:border-neutral-700">
+                        <h2 className="font-bold text-neutral-900 dark:text-neutral-50">History</h2>
+                        {transactions.length > 0 && (
+                            <div className="flex gap-3 text-xs font-semibold text-primary">
+                                <button onClick={() => exportToExcel(exportRows(), 'wallet-history')} className="hover:underline">Excel</button>
+                                <button onClick={() => exportToPdf('Wallet History', ['Date', 'Type', 'Amount', 'Balance', 'Booking'], exportRows())} className="hover:underline">PDF</button>
+                            </div>
+                        )}
+                    </div>
+                    {transactions.length === 0 ? (
+                        <p className="p-4 text-sm text-neutral-500">No wallet activity yet.</p>
+                    ) : (
+                        <div className="divide-y divide-neutral-100 dark:divide-neutral-700">
+                            {transactions.map(t => {
+                                const total = t.amount + t.promoAmount;
+                                return (
+                                    <div key={t.id} className="p-4 flex justify-between items-center text-sm">
+                                        <div>
+                                            <p className="font-medium text-neutral-900 dark:text-white">{TYPE_LABELS[t.type]}</p>
+                                            <p className="text-xs text-neutral-500">{new Date(t.createdAt).toLocaleString()}{t.note ? ` • ${t.note}` : ''}</p>
+                                        </div>
+                                        <div className="text-right">
+                                            <p className={`font-bold ${total >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                                {total >= 0 ? '+' : '-'}₹{Math.abs(total).toLocaleString()}
+                                            </p>
+                                            <p className="text-xs text-neutral-400">Bal ₹{(t.balanceAfter + t.promoBalanceAfter).toLocaleString()}</p>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WalletScreen;
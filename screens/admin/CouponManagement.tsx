@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { useToast } from '../../context/ToastContext';
+import { authFetch } from '../../src/lib/authUtils';
+import { Coupon, CouponDiscountType, ItemCategory } from '../../types';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+const EMPTY_FORM = {
+    code: '',
+    description: '',
+    discountType: 'percent' as CouponDiscountType,
+    value: '',
+    maxDiscount: '',
+    minOrderValue: '',
+    category: '',
+    district: '',
+    mandal: '',
+    firstBookingOnly: false,
+    usageLimit: '',
+    perUserLimit: '1',
+    validFrom: '',
+    expiresAt: ''
+};
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-900 text-sm';
+
+const describeDiscount = (c: Coupon) => c.discountType === 'percent'
+    ? `${c.value}% off${c.maxDiscount ? ` (max ₹${c.maxDiscount})` : ''}`
+    : `₹${c.value} off`;
+
+const describeTarget = (c: Coupon) => [
+    c.category || 'All categories',
+    c.district === 'ALL' ? 'Everywhere' : c.mandal === 'ALL' ? c.district : `${c.mandal}, ${c.district}`,
+    c.firstBookingOnly ? 'First booking' : null
+].filter(Boolean).join(' • ');
+
+/**
+ * Admin coupons: create promotion codes, see usage and switch them on or off
+ */
+const CouponManagement: React.FC = () => {
+    const { showToast } = useToast();
+    const [coupons, setCoupons] = useState<Coupon[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [isFormVisible, setIsFormVisible] = useState(false);
+    const [form, setForm] = useState(EMPTY_FORM);
+
+    const fetchCoupons = async () => {
+        try {
+            setLoading(true);
+            const res = await authFetch(`${API_URL}/admin/coupons`);
+            if (res.ok) setCoupons(await res.json());
+        } catch (error) {
+            console.error('Error fetching coupons:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchCoupons();
+    }, []);
+
+    const setField = <K extends keyof typeof EMPTY_FORM>(key: K, value: typeof EMPTY_FORM[K]) => setForm(prev => ({ ...prev, [key]: value }));
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        // Blank number fields mean "no limit" and are left out
+        const numbers = (['maxDiscount', 'minOrderValue', 'usageLimit', 'perUserLimit'] as const)
+            .filter(key => form[key].trim() !== '')
+            .reduce((acc, key) => ({ ...acc, [key]: Number(form[key]) }), {} as Partial<Coupon>);
+
+        const res = await authFetch(`${API_URL}/admin/coupons`, {
+            method: 'POST',
+            body: JSON.stringify({
+                code: form.code,
+                discountType: form.discountType,
+                value: Number(form.value),
+                district: form.district.trim() || 'ALL',
+                mandal: form.mandal.trim() || 'ALL',
+                firstBookingOnly: form.firstBookingOnly,
+                ...numbers,
+                ...(form.description.trim() ? { description: form.description.trim() } : {}),
+                ...(form.category ? { category: form.category } : {}),
+                ...(form.validFrom ? { validFrom: new Date(form.validFrom).toISOString() } : {}),
+                ...(form.expiresAt ? { expiresAt: new Date(`${form.expiresAt}T23:59:59`).toISOString() } : {})
+            })
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+            showToast(data.message || 'Failed to create coupon', 'error');
+            return;
+        }
+        showToast(`Coupon ${data.code} created`, 'success');
+        setForm(EMPTY_FORM);
+        setIsFormVisible(false);
+        fetchCoupons();
+    };
+
+    const toggleActive = async (coupon: Coupon) => {
+        const res = await authFetch(`${API_URL}/admin/coupons/${coupon.code}`, {
+            method: 'PUT',
+            body: JSON.stringify({ isActive: !coupon.isActive })
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+            showToast(data.message || 'Failed to update coupon', 'error');
+            return;
+        }
+        setCoupons(prev => prev.map(c => c.code === coupon.code ? data : c));
+    };
+
+    return (
+        <div className="p-4 md:p-6 space-y-6 pb-24">
+            <div className="flex items-center justify-between">
+                <h3 className="font-bold text-neutral-800 dark:text-white">Coupons & Promotions</h3>
+                <button onClick={() => setIsFormVisible(!isFormVisible)} className="px-3 py-1.5 text-sm font-semibold rounded-lg bg-primary text-white hover:bg-primary-dark">
+                    {isFormVisible ? 'Close' : 'New Coupon'}
+                </button>
+            </div>
+
+            {isFormVisible && (
+                <form onSubmit={handleCreate} className="bg-white dark:bg-neutral-800 rounded-xl p-4 border border-neutral-200 dark:border-neutral-700 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                    <label className="space-y-1">
+                        <span className="font-semibold">Code</span>
+                        <input required value={form.code} onChange={e => setField('code', e.target.value.toUpperCase())} placeholder="KHARIF10" className={`${inputClass} uppercase`} />
+                    </label>
+                    <label className="space-y-1 md:col-span-2">
+                        <span className="font-semibold">Description (shown to farmers)</span>
+                        <input value={form.description} onChange={e => setField('description', e.target.value)} placeholder="10% off tractor bookings this Kharif" className={inputClass} />
+                    </label>
+                    <label className="space-y-1">
+                        <span className="font-semibold">Discount</span>
+                        <div className="flex gap-2">
+                            <select value={form.discountType} onChange={e => setField('discountType', e.target.value as CouponDiscountType)} className={inputClass}>
+                                <option value="percent">Percent</option>
+                                <option value="flat">Flat ₹</option>
+                            </select>
+                            <input required type="number" min={1} value={form.value} onChange={e => setField('value', e.target.value)} className={inputClass} />
+                        </div>
+                    </label>
+                    <label className="space-y-1">
+                        <span className="font-semibold">Max discount ₹ (percent only)</span>
+                        <input type="number" min={0} value={form.maxDiscount} onChange={e => setField('maxDiscount', e.target.value)} disabled={form.discountType === 'flat'} className={inputClass} />
+                    </label>
+                    <label className="space-y-1">
+                        <span className="font-semibold">Minimum booking value ₹</span>
+                        <input type="number" min={0} value={form.minOrderValue} onChange={e => setField('minOrderValue', e.target.value)} className={inputClass} />
+                    </label>
+                    <label className="space-y-1">
+                        <span className="font-semibold">Category</span>
+                        <select value={form.category} onChange={e => setField('category', e.target.value)} className={inputClass}>
+                            <option value="">All categories</option>
+                            {Object.values(ItemCategory).map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </label>
+                    <label className="space-y-1">
+                        <span className="font-semibold">District (blank = ALL)</span>
+                        <input value={form.district} onChange={e => setField('district', e.target.value)} placeholder="Siddipet" className={inputClass} />
+                    </label>
+                    <label className="space-y-1">
+                        <span className="font-semibold">Mandal (blank = ALL)</span>
+                        <input value={form.mandal} onChange={e => setField('mandal', e.target.value)} placeholder="Husnabad" disabled={!form.district.trim()} className={inputClass} />
+                    </label>
+                    <label className="space-y-1">
+                        <span className="font-semibold">Total uses (blank = unlimited)</span>
+                        <input type="number" min={0} value={form.usageLimit} onChange={e => setField('usageLimit', e.target.value)} className={inputClass} />
+                    </label>
+                    <label className="space-y-1">
+                        <span className="font-semibold">Uses per farmer</span>
+                        <input type="number" min={0} value={form.perUserLimit} onChange={e => setField('perUserLimit', e.target.value)} className={inputClass} />
+                    </label>
+                    <label className="flex items-center gap-2 pt-6">
+                        <input type="checkbox" checked={form.firstBookingOnly} onChange={e => setField('firstBookingOnly', e.target.checked)} />
+                        <span className="font-semibold">First booking only</span>
+                    </label>
+                    <label className="space-y-1">
+                        <span className="font-semibold">Valid from</span>
+                        <input type="date" value={form.validFrom} onChange={e => setField('validFrom', e.target.value)} className={inputClass} />
+                    </label>
+                    <label className="space-y-1">
+                        <span className="font-semibold">Expires on</span>
+                        <input type="date" value={form.expiresAt} onChange={e => setField('expiresAt', e.target.value)} className={inputClass} />
+                    </label>
+                    <div className="md:col-span-3 flex justify-end">
+                        <button type="submit" className="px-4 py-2 font-semibold rounded-lg bg-primary text-white hover:bg-primary-dark">Create Coupon</button>
+                    </div>
+                </form>
+            )}
+
+            <div className="bg-white dark:bg-neutral-800 rounded-xl border border-neutral-200 dark:border-neutral-700 overflow-hidden">
+                {loading ? (
+                    <p className="p-4 text-sm text-neutral-500">Loading...</p>
+                ) : coupons.length === 0 ? (
+                    <p className="p-4 text-sm text-neutral-500">No coupons yet.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm text-neutral-600 dark:text-neutral-300">
+                            <thead className="bg-neutral-50 dark:bg-neutral-700/50 text-xs uppercase">
+                                <tr>
+                                    <th className="px-4 py-3">Code</th>
+                                    <th className="px-4 py-3">Discount</th>
+                                    <th className="px-4 py-3">Applies to</th>
+                                    <th className="px-4 py-3 text-right">Used</th>
+                                    <th className="px-4 py-3">Expires</th>
+                                    <th className="px-4 py-3"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-neutral-200 dark:divide-neutral-700">
+                                {coupons.map(c => (
+                                    <tr key={c.code} className={c.isActive ? '' : 'opacity-60'}>
+                                        <td className="px-4 py-3">
+                                            <div className="font-bold text-neutral-900 dark:text-white">{c.code}</div>
+                                            {c.description && <div className="text-xs text-neutral-400">{c.description}</div>}
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap">
+                                            {describeDiscount(c)}
+                                            {c.minOrderValue ? <div className="text-xs text-neutral-400">Min ₹{c.minOrderValue}</div> : null}
+                                        </td>
+                                        <td className="px-4 py-3">{describeTarget(c)}</td>
+                                        <td className="px-4 py-3 text-right whitespace-nowrap">{c.usedCount}{c.usageLimit !== undefined ? ` / ${c.usageLimit}` : ''}</td>
+                                        <td className="px-4 py-3 whitespace-nowrap">{c.expiresAt ? new Date(c.expiresAt).toLocaleDateString() : '—'}</td>
+                                        <td className="px-4 py-3">
+                                            <button onClick={() => toggleActive(c)} className={`text-xs font-semibold hover:underline ${c.isActive ? 'text-red-600' : 'text-green-600'}`}>
+                                                {c.isActive ? 'Deactivate' : 'Activate'}
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CouponManagement;
@@ -6,9 +6,15 @@ import Button from '../../components/Button';
 import Input from '../../components/Input';
 import { collection, addDoc, getDocs, updateDoc, doc, deleteDoc, query, where } from 'firebase/firestore';
 import { db } from '../../src/lib/firebase';
+import { authFetch } from '../../src/lib/authUtils';
+import { useToast } from '../../context/ToastContext';
+import SurgeAutomationPanel from './SurgeAutomationPanel';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
 
 const DemandControlScreen: React.FC = () => {
     const { user } = useAuth();
+    const { showToast } = useToast();
     const [rules, setRules] = useState<PricingRule[]>([]);
     const [isLoading, setIsLoading] = useState(true);
 
@@ -81,10 +87,24 @@ const DemandControlScreen: React.FC = () => {
         }
     };
 
+    const reviewProposal = async (rule: PricingRule, approve: boolean) => {
+        try {
+            const res = await authFetch(`${API_URL}/admin/surge/rules/${rule.id}/review`, { method: 'POST', body: JSON.stringify({ approve }) });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.message || 'Could not review proposal');
+            showToast(approve ? `Multiplier set to ${rule.proposedMultiplier}x.` : 'Proposal dismissed.', 'success');
+            fetchRules();
+        } catch (error) {
+            showToast((error as Error).message, 'error');
+        }
+    };
+
     return (
         <div className="flex-1 bg-gray-50 dark:bg-gray-900 min-h-screen p-6">
             <h1 className="text-2xl font-bold text-gray-800 dark:text-white mb-6">Demand & Price Control</h1>
 
+            <SurgeAutomationPanel onRulesChanged={fetchRules} />
+
             <div className="mb-8">
                 <div className="flex justify-between items-center mb-6">
                     <h2 className="text-lg font-bold text-gray-800 dark:text-gray-200">Active Pricing Rules</h2>
@@ -142,7 +162,7 @@ const DemandControlScreen: React.FC = () => {
                                         <Input
                                             type="number"
                                             step="0.1"
-                                            min="1.0"
+                                            min="0.5"
                                             value={multiplier}
                                             onChange={e => setMultiplier(e.target.value)}
                                             required
@@ -150,7 +170,7 @@ const DemandControlScreen: React.FC = () => {
                                         />
                                         <div className="absolute left-3 top-3 text-gray-400 font-bold">x</div>
                                     </div>
-                                    <p className="text-xs text-gray-500 mt-1">1.5 = 50% increase in price</p>
+                                    <p className="text-xs text-gray-500 mt-1">1.5 = 50% increase, 0.9 = 10% discount</p>
                                 </div>
                                 <div>
                                     <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Reason Label</label>
@@ -190,7 +210,10 @@ const DemandControlScreen: React.FC = () => {
                                 rules.map(rule => (
                                     <tr key={rule.id}>
                                         <td className="px-6 py-4">
-                                            <div className="text-sm font-medium text-gray-900 dark:text-white">{rule.seasonName}</div>
+                                            <div className="text-sm font-medium text-gray-900 dark:text-white">
+                                                {rule.seasonName}
+                                                {rule.source === 'auto' && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-700">Auto</span>}
+                                            </div>
                                             <div className="text-sm text-gray-500">{rule.district === 'ALL' ? 'Global' : `${rule.mandal}, ${rule.district}`}</div>
                                         </td>
                                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
@@ -198,8 +221,15 @@ const DemandControlScreen: React.FC = () => {
                                         </td>
                                         <td className="px-6 py-4 whitespace-nowrap">
                                             <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
-                                                {rule.multiplier}x (+{Math.round((rule.multiplier - 1) * 100)}%)
+                                                {rule.multiplier}x ({rule.multiplier >= 1 ? '+' : ''}{Math.round((rule.multiplier - 1) * 100)}%)
                                             </span>
+                                            {rule.proposedMultiplier !== undefined && (
+                                                <div className="mt-2 text-xs text-amber-700 dark:text-amber-400">
+                                                    Proposed {rule.proposedMultiplier}x
+                                                    <button onClick={() => reviewProposal(rule, true)} className="ml-2 font-bold text-green-600 hover:text-green-800">Approve</button>
+                                                    <button onClick={() => reviewProposal(rule, false)} className="ml-2 font-bold text-gray-500 hover:text-gray-700">Dismiss</button>
+                                                </div>
+                                            )}
                                         </td>
                                         <td className="px-6 py-4 whitespace-nowrap">
                                             <button
@@ -224,7 +254,7 @@ const DemandControlScreen: React.FC = () => {
                 <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-100 dark:border-blue-800">
                     <h3 className="font-bold text-blue-800 dark:text-blue-300 mb-2">How it works</h3>
                     <p className="text-sm text-blue-600 dark:text-blue-400">
-                        Set a multiplier for a specific Mandal or District. Suppliers in that area with "Auto Price Optimization" enabled will automatically have their prices increased by this factor during booking estimation.
+                        Set a multiplier for a specific Mandal or District. Suppliers in that area with "Auto Price Optimization" enabled have their prices scaled by this factor when bookings are quoted, on top of any seasonal price the supplier sets. Automatic surge keeps its own rules per mandal and category and never overrides a rule you wrote for the same mandal.
                     </p>
                 </div>
             </div>
@@ -0,0 +1,300 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { useToast } from '../../context/ToastContext';
+import { authFetch } from '../../src/lib/authUtils';
+import { Refund, Settlement, SupplierLedger } from '../../types';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+const STATUS_BADGE: Record<Settlement['status'], string> = {
+    pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
+    paid: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+    failed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+};
+
+/**
+ * Admin finance: weekly supplier settlements, pending refunds, commission and per-supplier ledgers
+ */
+const FinanceManagement: React.FC = () => {
+    const { user, allUsers } = useAuth();
+    const { showToast } = useToast();
+    const [settlements, setSettlements] = useState<Settlement[]>([]);
+    const [refunds, setRefunds] = useState<Refund[]>([]);
+    const [commissionPercent, setCommissionPercent] = useState<number | ''>('');
+    const [selectedSupplierId, setSelectedSupplierId] = useState('');
+    const [supplierLedger, setSupplierLedger] = useState<SupplierLedger | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    const isFounder = user?.role === 'Founder';
+    const suppliers = useMemo(() => allUsers.filter(u => u.role === 'Supplier'), [allUsers]);
+    const userName = (id: string) => allUsers.find(u => String(u.id) === String(id))?.name || `#${id}`;
+
+    const fetchFinance = async () => {
+        try {
+            setLoading(true);
+            const [settlementsRes, refundsRes, settingsRes] = await Promise.all([
+                authFetch(`${API_URL}/admin/settlements`),
+                authFetch(`${API_URL}/admin/refunds?status=pending`),
+                authFetch(`${API_URL}/admin/finance/settings`)
+            ]);
+            if (settlementsRes.ok) setSettlements(await settlementsRes.json());
+            if (refundsRes.ok) setRefunds(await refundsRes.json());
+            if (settingsRes.ok) setCommissionPercent((await settingsRes.json()).commissionPercent);
+        } catch (error) {
+            console.error('Error fetching finance data:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchFinance();
+    }, []);
+
+    useEffect(() => {
+        if (!selectedSupplierId) {
+            setSupplierLedger(null);
+            return;
+        }
+        authFetch(`${API_URL}/suppliers/${selectedSupplierId}/ledger`)
+            .then(res => res.ok ? res.json() : null)
+            .then(setSupplierLedger)
+            .catch(() => setSupplierLedger(null));
+    }, [selectedSupplierId]);
+
+    const runSettlements = async () => {
+        const res = await authFetch(`${API_URL}/admin/settlements/run`, { method: 'POST' });
+        if (!res.ok) {
+            showToast('Failed to create settlements', 'error');
+            return;
+        }
+        const { created } = await res.json();
+        showToast(created.length > 0 ? `Created ${created.length} settlement(s)` : 'Nothing new to settle', 'success');
+        fetchFinance();
+    };
+
+    const updateSettlement = async (settlement: Settlement, status: 'paid' | 'failed') => {
+        const input = window.prompt(status === 'paid' ? 'Payout reference (bank / UPI transaction id)' : 'Reason for the failed payout');
+        if (input === null) return;
+
+        const res = await authFetch(`${API_URL}/admin/settlements/${settlement.id}`, {
+            method: 'PUT',
+            body: JSON.stringify(status === 'paid' ? { status, reference: input } : { status, reason: input })
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+            showToast(data.message || 'Failed to update settlement', 'error');
+            return;
+        }
+        showToast(`Settlement marked ${status}`, 'success');
+        fetchFinance();
+    };
+
+    const processRefund = async (refund: Refund, toWallet = false) => {
+        if (toWallet) {
+            if (!window.confirm(`Credit ₹${refund.refundAmount} to the farmer's wallet?`)) return;
+        }
+        const reference = toWallet ? null : window.prompt(`Refund ₹${refund.refundAmount} to the farmer. Reference (gateway refund id / UPI ref):`);
+        if (!toWallet && reference === null) return;
+
+        const res = await authFetch(`${API_URL}/admin/refunds/${refund.id}/process`, {
+            method: 'POST',
+            body: JSON.stringify(toWallet ? { toWallet: true } : { reference })
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+            showToast(data.message || 'Failed to process refund', 'error');
+            return;
+        }
+        showToast(toWallet ? 'Refund credited to wallet' : 'Refund marked as processed', 'success');
+        fetchFinance();
+    };
+
+    const saveCommission = async () => {
+        const res = await authFetch(`${API_URL}/admin/finance/settings`, {
+            method: 'PUT',
+            body: JSON.stringify({ commissionPercent: Number(commissionPercent) })
+        });
+        const data = await res.json().catch(() => ({}));
+        showToast(res.ok ? 'Commission updated' : (data.message || 'Failed to update commission'), res.ok ? 'success' : 'error');
+    };
+
+    const pendingTotal = settlements.filter(s => s.status === 'pending').reduce((sum, s) => sum + s.netPayable, 0);
+    const refundTotal = refunds.reduce((sum, r) => sum + r.refundAmount, 0);
+
+    return (
+        <div className="p-4 md:p-6 space-y-6 pb-24">
+            {/* Stats Cards */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-white dark:bg-neutral-800 rounded-xl p-4 border border-neutral-200 dark:border-neutral-700">
+                    <p className="text-xs text-neutral-500 uppercase tracking-wider">Payouts Pending</p>
+                    <p className="text-2xl font-bold text-yellow-600">₹{pendingTotal.toLocaleString()}</p>
+                </div>
+                <div className="bg-white dark:bg-neutral-800 rounded-xl p-4 border border-neutral-200 dark:border-neutral-700">
+                    <p className="text-xs text-neutral-500 uppercase tracking-wider">Refunds Pending</p>
+                    <p className="text-2xl font-bold text-red-500">₹{refundTotal.toLocaleString()}</p>
+                </div>
+                <div className="bg-white dark:bg-neutral-800 rounded-xl p-4 border border-neutral-200 dark:border-neutral-700">
+                    <p className="text-xs text-neutral-500 uppercase tracking-wider">Settlements</p>
+                    <p className="text-2xl font-bold text-neutral-900 dark:text-white">{settlements.length}</p>
+                </div>
+                <div className="bg-white dark:bg-neutral-800 rounded-xl p-4 border border-neutral-200 dark:border-neutral-700">
+                    <p className="text-xs text-neutral-500 uppercase tracking-wider">Commission</p>
+                    <div className="flex items-center gap-2 mt-1">
+                        <input
+                            type="number"
+                            min={0}
+                            max={50}
+                            value={commissionPercent}
+                            disabled={!isFounder}
+                            onChange={e => setCommissionPercent(e.target.value === '' ? '' : Number(e.target.value))}
+                            className="w-16 px-2 py-1 rounded border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-900 text-lg font-bold"
+                        />
+                        <span className="font-bold">%</span>
+                        {isFounder && (
+                            <button onClick={saveCommission} className="text-xs text-primary font-semibold hover:underline">Save</button>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {/* Settlements */}
+            <div className="bg-white dark:bg-neutral-800 rounded-xl border border-neutral-200 dark:border-neutral-700 overflow-hidden">
+                <div className="p-4 border-b border-neutral-200 dark:border-neutral-700 flex items-center justify-between">
+                    <h3 className="font-bold text-neutral-800 dark:text-white">Weekly Settlements</h3>
+                    <button onClick={runSettlements} className="px-3 py-1.5 text-sm font-semibold rounded-lg bg-primary text-white hover:bg-primary-dark">
+                        Run Settlement
+                    </button>
+                </div>
+                {loading ? (
+                    <p className="p-4 text-sm text-neutral-500">Loading...</p>
+                ) : settlements.length === 0 ? (
+                    <p className="p-4 text-sm text-neutral-500">No settlements yet.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm text-neutral-600 dark:text-neutral-300">
+                            <thead className="bg-neutral-50 dark:bg-neutral-700/50 text-xs uppercase">
+                                <tr>
+                                    <th className="px-4 py-3">Supplier</th>
+                                    <th className="px-4 py-3">Period</th>
+                                    <th className="px-4 py-3 text-right">Earnings</th>
+                                    <th className="px-4 py-3 text-right">Cash</th>
+                                    <th className="px-4 py-3 text-right">Penalties</th>
+                                    <th className="px-4 py-3 text-right">Net</th>
+                                    <th className="px-4 py-3">Status</th>
+                                    <th className="px-4 py-3"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-neutral-200 dark:divide-neutral-700">
+                                {settlements.map(s => (
+                                    <tr key={s.id}>
+                                        <td className="px-4 py-3 font-medium">{userName(s.supplierId)}</td>
+                                        <td className="px-4 py-3 whitespace-nowrap">{s.periodStart} – {s.periodEnd}</td>
+                                        <td className="px-4 py-3 text-right">₹{s.earnings.toLocaleString()}</td>
+                                        <td className="px-4 py-3 text-right">₹{s.cashCollected.toLocaleString()}</td>
+                                        <td className="px-4 py-3 text-right">₹{s.penalties.toLocaleString()}</td>
+                                        <td className="px-4 py-3 text-right font-bold">₹{s.netPayable.toLocaleString()}</td>
+                                        <td className="px-4 py-3">
+                                            <span className={`px-2 py-1 rounded-full text-xs font-semibold ${STATUS_BADGE[s.status]}`}>{s.status}</span>
+                                            {s.payoutReference && <div className="text-xs text-neutral-400 mt-1">Ref {s.payoutReference}</div>}
+                                            {s.failureReason && <div className="text-xs text-red-500 mt-1">{s.failureReason}</div>}
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap">
+                                            {s.status === 'pending' && (
+                                                <div className="flex gap-2">
+                                                    <button onClick={() => updateSettlement(s, 'paid')} className="text-xs font-semibold text-green-600 hover:underline">Mark Paid</button>
+                                                    <button onClick={() => updateSettlement(s, 'failed')} className="text-xs font-semibold text-red-600 hover:underline">Failed</button>
+                                                </div>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {/* Pending Refunds */}
+            <div className="bg-white dark:bg-neutral-800 rounded-xl border border-neutral-200 dark:border-neutral-700 overflow-hidden">
+                <div className="p-4 border-b border-neutral-200 dark:border-neutral-700">
+                    <h3 className="font-bold text-neutral-800 dark:text-white">Pending Refunds</h3>
+                </div>
+                {refunds.length === 0 ? (
+                    <p className="p-4 text-sm text-neutral-500">No refunds waiting.</p>
+                ) : (
+                    <div className="divide-y divide-neutral-200 dark:divide-neutral-700">
+                        {refunds.map(r => (
+                            <div key={r.id} className="p-4 flex items-center justify-between text-sm">
+                                <div>
+                                    <p className="font-medium text-neutral-900 dark:text-white">{userName(r.farmerId)} • Booking #{r.bookingId.substring(0, 8)}</p>
+                                    <p className="text-xs text-neutral-500">
+                                        Paid ₹{r.amountPaid.toLocaleString()} • Fee ₹{r.cancellationFee.toLocaleString()} • {r.cancelledBy} cancellation • {new Date(r.createdAt).toLocaleString()}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-3">
+                                    <span className="font-bold">₹{r.refundAmount.toLocaleString()}</span>
+                                    <button onClick={() => processRefund(r, true)} className="text-xs font-semibold text-primary hover:underline">To Wallet</button>
+                                    <button onClick={() => processRefund(r)} className="text-xs font-semibold text-primary hover:underline">Mark Refunded</button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Supplier Ledger */}
+            <div className="bg-white dark:bg-neutral-800 rounded-xl border border-neutral-200 dark:border-neutral-700 p-4 space-y-4">
+                <div className="flex items-center justify-between gap-3 flex-wrap">
+                    <h3 className="font-bold text-neutral-800 dark:text-white">Supplier Ledger</h3>
+                    <select
+                        className="px-2 py-1 rounded border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-900 text-sm"
+                        value={selectedSupplierId}
+                        onChange={e => setSelectedSupplierId(e.target.value)}
+                    >
+                        <option value="">Select supplier</option>
+                        {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                </div>
+                {supplierLedger && (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                        <div className="p-3 rounded border border-neutral-200 dark:border-neutral-700">
+                            <p className="text-xs text-neutral-500">Balance owed</p>
+                            <p className="text-lg font-bold">₹{supplierLedger.balance.toLocaleString()}</p>
+                        </div>
+                        <div className="p-3 rounded border border-neutral-200 dark:border-neutral-700">
+                            <p className="text-xs text-neutral-500">Unsettled</p>
+                            <p className="text-lg font-bold">₹{supplierLedger.unsettledBalance.toLocaleString()}</p>
+                        </div>
+                        <div className="p-3 rounded border border-neutral-200 dark:border-neutral-700">
+                            <p className="text-xs text-neutral-500">Earnings + distance</p>
+                            <p className="text-lg font-bold">₹{(supplierLedger.summary.earnings + supplierLedger.summary.distanceCharges).toLocaleString()}</p>
+                        </div>
+                        <div className="p-3 rounded border border-neutral-200 dark:border-neutral-700">
+                            <p className="text-xs text-neutral-500">Commission</p>
+                            <p className="text-lg font-bold">₹{supplierLedger.summary.commission.toLocaleString()}</p>
+                        </div>
+                        <div className="p-3 rounded border border-neutral-200 dark:border-neutral-700">
+                            <p className="text-xs text-neutral-500">Cash collected</p>
+                            <p className="text-lg font-bold">₹{supplierLedger.summary.cashCollected.toLocaleString()}</p>
+                        </div>
+                        <div className="p-3 rounded border border-neutral-200 dark:border-neutral-700">
+                            <p className="text-xs text-neutral-500">Penalties</p>
+                            <p className="text-lg font-bold">₹{supplierLedger.summary.penalties.toLocaleString()}</p>
+                        </div>
+                        <div className="p-3 rounded border border-neutral-200 dark:border-neutral-700">
+                            <p className="text-xs text-neutral-500">Paid out</p>
+                            <p className="text-lg font-bold">₹{supplierLedger.summary.paidOut.toLocaleString()}</p>
+                        </div>
+                        <div className="p-3 rounded border border-neutral-200 dark:border-neutral-700">
+                            <p className="text-xs text-neutral-500">Ledger lines</p>
+                            <p className="text-lg font-bold">{supplierLedger.lines.length}</p>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default FinanceManagement;
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { useToast } from '../../context/ToastContext';
+import { authFetch } from '../../src/lib/authUtils';
+import { SurgeArea, SurgeAuditEntry, SurgeMode, SurgeSettings } from '../../types';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-900 text-sm';
+
+const MODES: { mode: SurgeMode; label: string; hint: string }[] = [
+    { mode: 'off', label: 'Off', hint: 'Only the rules written by hand apply' },
+    { mode: 'propose', label: 'Propose', hint: 'Changes wait for your approval in the rules table' },
+    { mode: 'auto', label: 'Automatic', hint: 'Multipliers follow demand within the limits below' },
+];
+
+const NUMBER_FIELDS: { key: Exclude<keyof SurgeSettings, 'mode' | 'updatedAt' | 'updatedBy'>; label: string; step: string }[] = [
+    { key: 'windowHours', label: 'Window (hours)', step: '1' },
+    { key: 'minDemand', label: 'Min. demand', step: '1' },
+    { key: 'targetRatio', label: 'Target ratio', step: '0.1' },
+    { key: 'sensitivity', label: 'Sensitivity', step: '0.05' },
+    { key: 'minMultiplier', label: 'Floor (x)', step: '0.05' },
+    { key: 'maxMultiplier', label: 'Cap (x)', step: '0.05' },
+    { key: 'maxStepPerRun', label: 'Max step per run', step: '0.05' },
+];
+
+/**
+ * Automatic surge settings for the Demand Control screen, with the live demand per area
+ * and the log of automatic changes. `onRulesChanged` lets the screen reload its rules.
+ */
+const SurgeAutomationPanel: React.FC<{ onRulesChanged: () => void }> = ({ onRulesChanged }) => {
+    const { showToast } = useToast();
+    const [settings, setSettings] = useState<SurgeSettings | null>(null);
+    const [areas, setAreas] = useState<SurgeArea[]>([]);
+    const [audit, setAudit] = useState<SurgeAuditEntry[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isRunning, setIsRunning] = useState(false);
+
+    const load = async () => {
+        try {
+            const [settingsRes, areasRes, auditRes] = await Promise.all([
+                authFetch(`${API_URL}/admin/surge/settings`),
+                authFetch(`${API_URL}/admin/surge/snapshot`),
+                authFetch(`${API_URL}/admin/surge/audit?limit=50`)
+            ]);
+            if (settingsRes.ok) setSettings(await settingsRes.json());
+            if (areasRes.ok) setAreas(await areasRes.json());
+            if (auditRes.ok) setAudit(await auditRes.json());
+        } catch (error) {
+            console.error('Error loading surge settings:', error);
+        }
+    };
+
+    useEffect(() => {
+        load();
+    }, []);
+
+    const handleSave = async () => {
+        if (!settings) return;
+        setIsSaving(true);
+        try {
+            const res = await authFetch(`${API_URL}/admin/surge/settings`, { method: 'PUT', body: JSON.stringify(settings) });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.message || 'Could not save surge settings');
+            setSettings(data);
+            showToast('Surge settings saved.', 'success');
+            await load();
+            onRulesChanged();
+        } catch (error) {
+            showToast((error as Error).message, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRun = async () => {
+        setIsRunning(true);
+        try {
+            const res = await authFetch(`${API_URL}/admin/surge/run`, { method: 'POST' });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.message || data.error || 'Surge run failed');
+            showToast(data.changes ? `${data.changes} rule change(s) made.` : 'No changes needed.', 'info');
+            await load();
+            onRulesChanged();
+        } catch (error) {
+            showToast((error as Error).message, 'error');
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    if (!settings) return null;
+
+    return (
+        <div className="mb-8 space-y-6">
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg border border-gray-100 dark:border-gray-700">
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-800 dark:text-gray-200">Automatic Surge</h2>
+                        <p className="text-sm text-gray-500">Demand (Searching bookings + failed searches) per available item, per mandal and category.</p>
+                    </div>
+                    <button onClick={handleRun} disabled={isRunning || settings.mode === 'off'} className="px-4 py-2 text-sm font-semibold text-primary border border-primary rounded-lg hover:bg-primary/10 disabled:opacity-50">
+                        {isRunning ? 'Running…' : 'Run Now'}
+                    </button>
+                </div>
+                <div className="grid grid-cols-3 gap-2 mb-2">
+                    {MODES.map(m => (
+                        <button
+                            key={m.mode}
+                            type="button"
+                            onClick={() => setSettings({ ...settings, mode: m.mode })}
+                            className={`py-2 rounded-lg text-sm font-semibold border ${settings.mode === m.mode ? 'bg-primary text-white border-primary' : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600'}`}
+                        >
+                            {m.label}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-xs text-gray-500 mb-4">{MODES.find(m => m.mode === settings.mode)?.hint}. Only suppliers with Auto Price Optimization on are affected.</p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+                    {NUMBER_FIELDS.map(field => (
+                        <label key={field.key} className="text-xs font-semibold text-gray-600 dark:text-gray-300">
+                            {field.label}
+                            <input
+                                type="number"
+                                step={field.step}
+                                min="0"
+                                value={settings[field.key]}
+                                onChange={e => setSettings({ ...settings, [field.key]: parseFloat(e.target.value) })}
+                                className={`${inputClass} mt-1`}
+                            />
+                        </label>
+                    ))}
+                </div>
+                <div className="flex justify-between items-center">
+                    <p className="text-xs text-gray-500">
+                        1x at the target ratio, +{settings.sensitivity} per unit above it, kept between {settings.minMultiplier}x and {settings.maxMultiplier}x.
+                    </p>
+                    <button onClick={handleSave} disabled={isSaving} className="px-6 py-2 rounded-lg bg-primary text-white text-sm font-semibold disabled:opacity-50">
+                        {isSaving ? 'Saving…' : 'Save'}
+                    </button>
+                </div>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-100 dark:border-gray-700 overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                    <thead className="bg-gray-100/50 dark:bg-gray-900/50 text-xs uppercase text-gray-700 dark:text-gray-200">
+                        <tr>
+                            <th className="px-4 py-3 text-left">Area</th>
+                            <th className="px-4 py-3 text-left">Category</th>
+                            <th className="px-4 py-3 text-right">Searching</th>
+                            <th className="px-4 py-3 text-right">Failed</th>
+                            <th className="px-4 py-3 text-right">Items (opted in)</th>
+                            <th className="px-4 py-3 text-right">Ratio</th>
+                            <th className="px-4 py-3 text-right">Suggested</th>
+                            <th className="px-4 py-3 text-right">Current</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {areas.length === 0 ? (
+                            <tr><td colSpan={8} className="px-4 py-4 text-center text-gray-500">No demand or supply in the window.</td></tr>
+                        ) : areas.map(area => (
+                            <tr key={`${area.district}-${area.mandal}-${area.category}`}>
+                                <td className="px-4 py-2">{area.mandal}, {area.district}{area.manualRule && <span className="ml-2 text-xs text-blue-600">manual rule</span>}</td>
+                                <td className="px-4 py-2">{area.category}</td>
+                                <td className="px-4 py-2 text-right">{area.searchingBookings}</td>
+                                <td className="px-4 py-2 text-right">{area.failedSearches}</td>
+                                <td className="px-4 py-2 text-right">{area.availableItems} ({area.optedInItems})</td>
+                                <td className="px-4 py-2 text-right">{area.ratio}</td>
+                                <td className="px-4 py-2 text-right font-semibold">{area.suggestedMultiplier}x</td>
+                                <td className="px-4 py-2 text-right">{area.currentMultiplier}x</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 p-4 rounded-xl shadow-lg border border-gray-100 dark:border-gray-700">
+                <h3 className="font-bold text-gray-800 dark:text-gray-200 mb-2">Automatic Changes</h3>
+                {audit.length === 0 ? (
+                    <p className="text-sm text-gray-500">No automatic changes yet.</p>
+                ) : (
+                    <ul className="divide-y divide-gray-100 dark:divide-gray-700 text-sm max-h-72 overflow-y-auto">
+                        {audit.map(entry => (
+                            <li key={entry.id} className="py-2 flex justify-between gap-4">
+                                <span>
+                                    <span className="font-semibold capitalize">{entry.action}</span> {entry.fromMultiplier}x → {entry.toMultiplier}x · {entry.category} in {entry.mandal}, {entry.district}
+                                    <span className="text-gray-500"> ({entry.searchingBookings} searching, {entry.failedSearches} failed, {entry.availableItems} items)</span>
+                                </span>
+                                <span className="text-xs text-gray-500 whitespace-nowrap">
+                                    {new Date(entry.createdAt).toLocaleString()} · {entry.performedBy === 'system' ? 'scheduler' : entry.performedBy}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SurgeAutomationPanel;
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { useToast } from '../../context/ToastContext';
+import { authFetch } from '../../src/lib/authUtils';
+import { SuspensionPolicy, SuspensionRolePolicy } from '../../types';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-900 text-sm';
+
+const ROLES: { role: 'supplier' | 'farmer'; label: string }[] = [
+    { role: 'supplier', label: 'Suppliers' },
+    { role: 'farmer', label: 'Farmers' },
+];
+
+const NUMBER_FIELDS: { key: Exclude<keyof SuspensionRolePolicy, 'enabled'>; label: string }[] = [
+    { key: 'windowDays', label: 'Window (days, 0 = no limit)' },
+    { key: 'suspendAfter', label: 'Suspend after (cancellations)' },
+    { key: 'suspendHours', label: 'Suspension (hours)' },
+    { key: 'blockAfter', label: 'Block after (cancellations)' },
+    { key: 'blockDays', label: 'Block (days)' },
+];
+
+/**
+ * Founder-editable thresholds for automatic suspensions and blocks after repeated cancellations
+ */
+const SuspensionPolicyScreen: React.FC = () => {
+    const { showToast } = useToast();
+    const [policy, setPolicy] = useState<SuspensionPolicy | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const res = await authFetch(`${API_URL}/founder/suspension-policy`);
+                if (res.ok) setPolicy(await res.json());
+            } catch (error) {
+                console.error('Error loading suspension policy:', error);
+                showToast('Failed to load the suspension policy', 'error');
+            }
+        };
+        load();
+    }, []);
+
+    const updateRole = (role: 'supplier' | 'farmer', changes: Partial<SuspensionRolePolicy>) => {
+        if (!policy) return;
+        setPolicy({ ...policy, [role]: { ...policy[role], ...changes } });
+    };
+
+    const handleSave = async () => {
+        if (!policy) return;
+        setIsSaving(true);
+        try {
+            const res = await authFetch(`${API_URL}/founder/suspension-policy`, { method: 'PUT', body: JSON.stringify(policy) });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.message || data.error || 'Could not save the suspension policy');
+            setPolicy(data);
+            showToast('Suspension policy saved.', 'success');
+        } catch (error) {
+            showToast((error as Error).message, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!policy) return <p className="p-4 text-sm text-neutral-500">Loading...</p>;
+
+    return (
+        <div className="p-4 space-y-4">
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                Cancellations in a row (a completed job starts the count again) suspend and then block an account.
+                Accounts reactivate by themselves when the period ends; appeals arrive as support tickets.
+            </p>
+
+            {ROLES.map(({ role, label }) => (
+                <div key={role} className="bg-white dark:bg-neutral-800 p-4 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-700">
+                    <div className="flex justify-between items-center mb-3">
+                        <h3 className="text-lg font-bold text-neutral-800 dark:text-neutral-100">{label}</h3>
+                        <label className="flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+                            <input type="checkbox" checked={policy[role].enabled} onChange={e => updateRole(role, { enabled: e.target.checked })} />
+                            Enforced
+                        </label>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                        {NUMBER_FIELDS.map(field => (
+                            <label key={field.key} className="text-xs font-semibold text-neutral-600 dark:text-neutral-300">
+                                {field.label}
+                                <input
+                                    type="number"
+                                    min={field.key === 'windowDays' ? 0 : 1}
+                                    step={1}
+                                    value={policy[role][field.key]}
+                                    onChange={e => updateRole(role, { [field.key]: Number(e.target.value) })}
+                                    disabled={!policy[role].enabled}
+                                    className={`${inputClass} mt-1`}
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    {role === 'supplier' && (
+                        <label className="mt-3 flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+                            <input type="checkbox" checked={policy.exemptTrustedSuppliers} onChange={e => setPolicy({ ...policy, exemptTrustedSuppliers: e.target.checked })} />
+                            Trusted suppliers are warned instead of suspended
+                        </label>
+                    )}
+                </div>
+            ))}
+
+            <div className="flex justify-between items-center">
+                <p className="text-xs text-neutral-500">
+                    {policy.updatedAt ? `Last changed ${new Date(policy.updatedAt).toLocaleString()}` : 'Using the default policy'}
+                </p>
+                <button onClick={handleSave} disabled={isSaving} className="px-6 py-2 rounded-lg bg-primary text-white text-sm font-semibold disabled:opacity-50">
+                    {isSaving ? 'Saving...' : 'Save Policy'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SuspensionPolicyScreen;
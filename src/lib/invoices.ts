@@ -0,0 +1,34 @@
+import { authFetch } from './authUtils';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+
+const savePdf = async (res: Response, fallbackName: string): Promise<void> => {
+    if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message || data.error || 'Could not get the invoice');
+    }
+    const fileName = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+    const blob = await res.blob();
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Download the invoice PDF for a completed booking. The server issues the invoice number on first download.
+ */
+export const downloadInvoice = async (bookingId: string): Promise<void> => {
+    const res = await authFetch(`${API_URL}/bookings/${bookingId}/invoice`);
+    await savePdf(res, `invoice-${bookingId}.pdf`);
+};
+
+/**
+ * Admin: rebuild a booking's invoice from current data (same number, new revision) and download it
+ */
+export const regenerateInvoice = async (bookingId: string): Promise<void> => {
+    const res = await authFetch(`${API_URL}/admin/invoices/${bookingId}/regenerate`, { method: 'POST' });
+    await savePdf(res, `invoice-${bookingId}.pdf`);
+};
@@ -0,0 +1,137 @@
+import { authFetch } from './authUtils';
+
+const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
+const RAZORPAY_CHECKOUT_URL = 'https://checkout.razorpay.com/v1/checkout.js';
+
+export type PaymentPurpose = 'advance' | 'final';
+
+interface CheckoutInfo {
+    provider: string;
+    keyId?: string;
+    orderId: string;
+    amount: number; // paise
+    currency: string;
+}
+
+const loadRazorpayCheckout = (): Promise<void> => {
+    if ((window as any).Razorpay) return Promise.resolve();
+    return new Promise((resolve, reject) => {
+        const script = document.createElement('script');
+        script.src = RAZORPAY_CHECKOUT_URL;
+        script.onload = () => resolve();
+        script.onerror = () => reject(new Error('Could not load the payment window'));
+        document.body.appendChild(script);
+    });
+};
+
+const openCheckout = async (
+    checkout: CheckoutInfo,
+    description: string,
+    prefill?: { name?: string; email?: string; contact?: string }
+): Promise<void> => {
+    // Local development: the fake gateway captures immediately through the webhook path
+    if (checkout.provider === 'fake') {
+        const captureRes = await authFetch(`${API_URL}/payments/fake/${checkout.orderId}/capture`, { method: 'POST' });
+        if (!captureRes.ok) throw new Error('Payment failed');
+        return;
+    }
+
+    await loadRazorpayCheckout();
+    await new Promise<void>((resolve, reject) => {
+        const razorpay = new (window as any).Razorpay({
+            key: checkout.keyId,
+            order_id: checkout.orderId,
+            amount: checkout.amount,
+            currency: checkout.currency,
+            name: 'AgriRent',
+            description,
+            prefill,
+            handler: () => resolve(),
+            modal: { ondismiss: () => reject(new Error('Payment cancelled')) }
+        });
+        razorpay.on('payment.failed', (response: any) => reject(new Error(response?.error?.description || 'Payment failed')));
+        razorpay.open();
+    });
+};
+
+/**
+ * Pay a booking online. The server creates the order and the amount; the booking itself
+ * is updated only when the provider's webhook reaches the backend.
+ * Resolves once the customer has finished the checkout, rejects if they cancel or it fails.
+ */
+export const payBookingOnline = async (
+    bookingId: string,
+    purpose: PaymentPurpose,
+    prefill?: { name?: string; email?: string; contact?: string }
+): Promise<void> => {
+    const res = await authFetch(`${API_URL}/payments/orders`, {
+        method: 'POST',
+        // Same key on retries so a double tap cannot create two orders
+        headers: { 'Idempotency-Key': `${bookingId}:${purpose}` },
+        body: JSON.stringify({ bookingId, purpose })
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message || data.error || 'Could not start payment');
+
+    await openCheckout(data.checkout, purpose === 'advance' ? 'Booking advance' : 'Booking payment', prefill);
+};
+
+/**
+ * Pay a booking from the farmer's wallet. Takes effect immediately.
+ */
+export const payBookingFromWallet = async (bookingId: string, purpose: PaymentPurpose): Promise<void> => {
+    const res = await authFetch(`${API_URL}/wallet/pay`, {
+        method: 'POST',
+        body: JSON.stringify({ bookingId, purpose })
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message || data.error || 'Wallet payment failed');
+};
+
+/**
+ * Supplier side: confirm the farmer handed over the final amount in cash. Completes the booking.
+ */
+export const recordCashPayment = async (bookingId: string): Promise<void> => {
+    const res = await authFetch(`${API_URL}/bookings/${bookingId}/cash-payment`, { method: 'POST' });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message || data.error || 'Could not record the cash payment');
+};
+
+/**
+ * Add money to the wallet through the payment provider. The balance is credited
+ * when the provider's webhook reaches the backend.
+ */
+export const topUpWallet = async (
+    amount: number,
+    prefill?: { name?: string; email?: string; contact?: string }
+): Promise<void> => {
+    const res = await authFetch(`${API_URL}/wallet/top-ups`, {
+        method: 'POST',
+        body: JSON.stringify({ amount })
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message || data.error || 'Could not start top-up');
+
+    await openCheckout(data.checkout, 'Wallet top-up', prefill);
+};
+
+/**
+ * Buy a verified-account plan. Online purchases are activated by the provider's webhook;
+ * wallet purchases take effect immediately. `requestKey` should stay the same on retries.
+ */
+export const buyVerifiedPlan = async (
+    planId: string,
+    method: 'online' | 'wallet',
+    requestKey: string,
+    prefill?: { name?: string; email?: string; contact?: string }
+): Promise<void> => {
+    const res = await authFetch(`${API_URL}/verified-subscription`, {
+        method: 'POST',
+        headers: { 'Idempotency-Key': requestKey },
+        body: JSON.stringify({ planId, method })
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message || data.error || 'Could not buy the plan');
+
+    if (method === 'online') await openCheckout(data.checkout, 'Verified account plan', prefill);
+};
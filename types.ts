@@ -24,6 +24,8 @@ export interface User {
     location?: string;
     userStatus: 'approved' | 'pending' | 'suspended' | 'blocked';
     suspendedUntil?: string; // Date string for when suspension ends
+    suspensionReason?: string;
+    suspensionAppealTicketId?: number; // Support ticket of the appeal against the current suspension
     kycStatus?: 'pending' | 'approved' | 'rejected' | 'not_submitted';
     lastAlerts?: Record<string, string>; // Map of alertType -> timestamp
     avgRating?: number;
@@ -48,7 +50,10 @@ export interface User {
     isVerifiedAccount?: boolean; // Paid verified account - treated as "Agent" (bypass utilization cap, top priority)
     verifiedAccountPurchaseDate?: string; // When the supplier purchased verified account
     verifiedAccountExpiryDate?: string; // When the verification expires
-    verificationHistory?: { purchaseDate: string; expiryDate: string; plan: string; amount: number; }[]; // History of verification purchases
+    verificationHistory?: VerificationHistoryEntry[]; // History of verification purchases
+    verifiedPlanId?: VerifiedPlanId; // Plan renewed automatically at expiry
+    verifiedAutoRenew?: boolean; // Renew from the wallet when the period ends
+    verifiedGraceUntil?: string; // Set once the period has ended unpaid; benefits stop after this
     // --- Weighted Average Rating (WAR) System Fields ---
     warTotalJobs?: number; // Total completed jobs
     warOnTimeCount?: number; // Number of on-time deliveries
@@ -64,10 +69,112 @@ export interface User {
         maxGuards: number; // Max 5 usually
         points?: number; // Accumulated points (0-99)
         lastWorkDate?: string; // YYYY-MM-DD
+        evaluatedThrough?: string; // YYYY-MM-DD, last day whose missed work has been settled (guard or reset)
     };
     gamificationScore?: number;
 }
 
+export type StreakEventType = 'work' | 'bonus' | 'penalty' | 'guard_used' | 'guard_earned' | 'guard_bought' | 'reset';
+
+/**
+ * One change to a supplier's work streak, shown as their streak history
+ */
+export interface StreakEvent {
+    id: string;                      // SE-<userId>-<type>-<date> for daily outcomes, otherwise timestamped
+    userId: string;
+    type: StreakEventType;
+    date: string;                    // YYYY-MM-DD the event is about
+    countAfter: number;
+    guardsAfter: number;
+    pointsAfter?: number;
+    note?: string;
+    createdAt: string;
+}
+
+/**
+ * Every step of a supplier's Weighted Average Rating, as computed by warRating.ts
+ */
+export interface WARCalculationResult {
+    starRatingMean: number;          // Recency-weighted mean of review stars (DEFAULT_RATING without reviews)
+    recentReviewCount: number;       // Reviews in the last 90 days (full weight)
+    olderReviewCount: number;        // Reviews 91-180 days old (half weight)
+    expiredReviewCount: number;      // Reviews older than 180 days (ignored)
+    onTimeRate: number;              // 0-1, over jobs with a tracked arrival
+    baseScore: number;
+    disputePenalty: number;
+    cancellationPenalty: number;     // Penalty events are weighted by age like reviews
+    lateArrivalPenalty: number;
+    noShowPenalty: number;
+    totalPenalty: number;
+    scoreAfterPenalties: number;
+    volumeWeightedRating: number;
+    ownScoreWeight: number;          // N / (N + M): how much the supplier's own score counts
+    totalJobs: number;
+    ratedJobs: number;               // Completed jobs with a tracked arrival
+    onTimeCount: number;
+    disputeCount: number;
+    cancellationCount: number;       // Penalty events still inside the decay window
+    lateArrivalCount: number;
+    noShowCount: number;
+    finalRating: number;
+}
+
+export type WARPenaltyType = 'cancellation' | 'late_arrival' | 'no_show';
+
+/**
+ * A dated mark against a supplier's WAR (one per booking and type). It counts in full for
+ * the first 90 days, half up to 180 days, then drops out.
+ */
+export interface WARPenaltyEvent {
+    id: string;                      // WPE-<type>-<bookingId>-<supplierId>
+    supplierId: string;
+    type: WARPenaltyType;
+    bookingId: string;
+    occurredAt: string;
+    minutesLate?: number;            // late_arrival only
+    source: 'live' | 'migration';
+    createdAt: string;
+}
+
+export interface WARConstants {
+    starRatingWeight: number;
+    onTimeWeight: number;
+    disputePenalty: number;
+    cancellationPenalty: number;
+    lateArrivalPenalty: number;
+    noShowPenalty: number;
+    onTimeGraceMinutes: number;
+    lateArrivalPenaltyMinutes: number;
+    noShowAfterMinutes: number;
+    credibilityFactor: number;
+    defaultRating: number;
+    recentDays: number;
+    decayDays: number;
+    decayWeight: number;
+    penaltyWindowMonths: number;     // Disputes only; penalty events decay instead
+}
+
+export interface WARBreakdown extends WARCalculationResult {
+    currentDisplayedRating?: number;
+    lastCalculated?: string;
+    constants: WARConstants;
+}
+
+/**
+ * "What if I do `jobs` more jobs at `stars` stars (on time or not)?" and how many such jobs reach `target`
+ */
+export interface WARSimulation {
+    target: number;
+    stars: number;
+    onTime: boolean;
+    jobs: number;
+    currentRating: number;
+    projected: WARCalculationResult;  // After `jobs` more jobs
+    jobsToTarget: number | null;      // null when the target can't be reached with such jobs
+    ceiling: number;                  // Best rating such jobs can reach while current penalties stand
+    steps: { jobs: number; rating: number }[];
+}
+
 export enum ItemCategory {
     Tractors = 'Tractors',
     Harvesters = 'Harvesters',
@@ -151,6 +258,15 @@ export const TRACTOR_PURPOSE_IMAGES: Record<string, string> = {
 
 export type WorkPurpose = typeof WORK_PURPOSES[number];
 
+export type PricingUnit = 'hour' | 'acre' | 'trip';
+
+export interface ItemPurpose {
+    name: WorkPurpose;
+    price: number;                   // Per unit
+    unit?: PricingUnit;              // Defaults to 'hour'
+    minimumCharge?: number;          // Least a job on this purpose is billed, per machine
+}
+
 export interface SeasonalPrice {
     name: string; // e.g., "Harvest Season Rate"
     priceModifier: number; // e.g., 1.25 for 25% increase, 0.9 for 10% discount
@@ -158,11 +274,99 @@ export interface SeasonalPrice {
     endDate: string; // "MM-DD"
 }
 
+// A dated stretch when an item can't work (servicing, repairs). Whole day when no times are set.
+export interface MaintenanceWindow {
+    id: string;
+    date: string;                    // YYYY-MM-DD
+    startTime?: string;              // HH:MM
+    endTime?: string;                // HH:MM
+    reason?: string;
+    recordId?: string;               // Set when the downtime was scheduled from the maintenance log
+}
+
+export type MaintenanceRecordType = 'service' | 'repair' | 'parts';
+
+export interface MaintenancePart {
+    name: string;
+    cost: number;
+}
+
+// A service, repair or parts replacement logged by the item's owner
+export interface MaintenanceRecord {
+    id: string;
+    itemId: number;
+    supplierId: string;
+    type: MaintenanceRecordType;
+    date: string;                    // YYYY-MM-DD the work was done or is planned for
+    description: string;
+    parts: MaintenancePart[];
+    labourCost: number;
+    totalCost: number;               // Labour plus parts
+    engineHours: number;             // Engine-hour reading when it was logged
+    downtimeWindowId?: string;       // Maintenance window it put on the item's calendar
+    createdAt: string;
+}
+
+export type ServiceReminderStatus = 'ok' | 'due_soon' | 'overdue' | 'not_tracked';
+
+// An item's engine hours, service reminder and maintenance history
+export interface MaintenanceSummary {
+    itemId: number;
+    engineHours: number;             // Starting hours plus completed booking hours
+    serviceIntervalHours?: number;
+    lastServiceHours: number;        // Reading at the last service (or the starting hours)
+    hoursUntilService?: number;      // Negative when overdue
+    serviceStatus: ServiceReminderStatus;
+    totalCost: number;
+    records: MaintenanceRecord[];
+}
+
+// Per-item working calendar. Items without one can work any hour, every day.
+export interface ItemAvailability {
+    workingHours: { start: string; end: string }; // HH:MM, end may be "24:00"
+    weeklyOffDays: number[];         // 0 = Sunday ... 6 = Saturday
+    maintenance: MaintenanceWindow[];
+    updatedAt?: string;
+}
+
+// Short reservation of an item's time while a farmer completes a booking
+export interface AvailabilityHold {
+    id: string;
+    itemId: number;
+    farmerId: string;
+    date: string;
+    startTime: string;
+    durationHours: number;
+    expiresAt: string;
+    createdAt: string;
+}
+
+export type AvailabilitySlotStatus = 'free' | 'booked' | 'held' | 'maintenance' | 'off';
+
+export interface AvailabilitySlot {
+    start: string;                   // HH:MM
+    end: string;
+    status: AvailabilitySlotStatus;
+    bookingId?: string;
+}
+
+// An item's day as the calendar, booking form and request screens see it
+export interface ItemDayAvailability {
+    itemId: number;
+    date: string;
+    workingHours: { start: string; end: string };
+    offReason?: string;              // Set when the whole day is unavailable
+    slots: AvailabilitySlot[];
+    bookedHours: number;
+    maxDailyHours: number;
+    check?: { available: boolean; reason?: string };
+}
+
 export interface Item {
     id: number;
     name: string;
     category: ItemCategory;
-    purposes: { name: WorkPurpose, price: number }[];
+    purposes: ItemPurpose[];
     images: string[];
     ownerId: string; // Changed to string for firebaseUid
     location: string;
@@ -183,6 +387,53 @@ export interface Item {
     condition?: 'New' | 'Good' | 'Fair';
     gender?: 'Male' | 'Female';
     autoPriceOptimization?: boolean;
+    availability?: ItemAvailability;
+    // Engine-hour service reminders
+    initialEngineHours?: number;     // Hour meter reading when the item was listed
+    serviceIntervalHours?: number;   // Engine hours between services
+}
+
+export type BookingStatus = 'Searching' | 'Awaiting Operator' | 'Confirmed' | 'Arrived' | 'In Process' | 'Pending Payment' | 'Completed' | 'Cancelled' | 'Expired' | 'Pending Confirmation';
+
+export type BookingTransitionReason = 'supplier_cancellation' | 'farmer_cancellation' | 'admin_cancellation';
+
+// 'geofence' and 'admin' arrivals are verified; 'manual' is the supplier's own button
+export type ArrivalSource = 'geofence' | 'manual' | 'admin';
+
+// One entry per status change, appended by the server-side booking state machine
+export interface BookingStatusChange {
+    from: BookingStatus;
+    to: BookingStatus;
+    changedBy: string;               // firebaseUid of the actor, or 'system' / 'anonymous'
+    changedByRole?: string;
+    changedAt: string;
+    reason?: BookingTransitionReason;
+}
+
+// Offer of a Searching booking to one supplier by the dispatcher
+export interface DispatchOffer {
+    supplierId: string;
+    itemId: number;
+    wave: number;
+    score: number;
+    distanceKm?: number;
+    offeredAt: string;
+    expiresAt: string;
+    status: 'pending' | 'accepted' | 'declined' | 'expired' | 'superseded'; // superseded: another supplier accepted first
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'custom';
+
+/**
+ * How a booking series repeats. Occurrences are separate bookings sharing one recurrenceId.
+ */
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    startDate: string; // YYYY-MM-DD, first occurrence
+    occurrences?: number; // daily/weekly: how many bookings to create
+    endDate?: string; // daily/weekly: alternative to occurrences
+    daysOfWeek?: number[]; // weekly: 0 (Sun) - 6 (Sat)
+    dates?: string[]; // custom: explicit YYYY-MM-DD dates
 }
 
 export interface Booking {
@@ -197,7 +448,7 @@ export interface Booking {
     estimatedDuration: number;
     location: string;
     paymentId?: string;
-    status: 'Searching' | 'Awaiting Operator' | 'Confirmed' | 'Arrived' | 'In Process' | 'Pending Payment' | 'Completed' | 'Cancelled' | 'Expired' | 'Pending Confirmation';
+    status: BookingStatus;
     additionalInstructions?: string;
     workPurpose?: WorkPurpose;
     workPurposeDetails?: string; // For 'Others'
@@ -219,6 +470,12 @@ export interface Booking {
     quantity?: number;
     acres?: number; // Number of acres for the job
     allowMultipleSuppliers?: boolean;
+    // Split fulfilment: one booking shared between several suppliers
+    splitUnit?: 'acres' | 'units';
+    splitTotal?: number; // Acres / units the farmer asked for
+    splitAllocated?: number; // Taken by active shares (kept by the server)
+    parentBookingId?: string; // Set on a share: the split booking it is part of
+    shareAmount?: number; // Acres / units this share covers
     operatorId?: string; // Changed to string for firebaseUid
     isRebroadcast?: boolean;
     // OTP-based start
@@ -226,6 +483,23 @@ export interface Booking {
     otpVerified?: boolean;
     workStartTime?: string;
     workEndTime?: string;
+    // Arrival at the field: stamped by the geofence, the supplier's button or an admin correction
+    arrivedAt?: string;
+    arrivalSource?: ArrivalSource;
+    arrivalDistanceM?: number;       // Distance from the field when the geofence fired
+    arrivalOverrideReason?: string;
+    arrivalOverriddenBy?: string;
+    // Unit pricing, fixed when a supplier takes the job
+    pricingUnit?: PricingUnit;
+    unitPrice?: number;              // Per hour / acre / trip, surge included
+    minimumCharge?: number;
+    // Measured-area billing for per-acre jobs: the supplier reports the acres actually
+    // worked and the farmer approves the recomputed price
+    measuredAcres?: number;
+    acreMeasurementSource?: 'manual' | 'gps';
+    acreMeasurementStatus?: 'pending' | 'approved' | 'rejected';
+    proposedFinalPrice?: number;
+    measuredAt?: string;
     // Payment details after completion
     farmerPaymentAmount?: number;
     supplierPaymentAmount?: number;
@@ -236,7 +510,7 @@ export interface Booking {
         commission: number;
         totalAmount: number;
         paymentDate: string;
-        method?: 'Cash' | 'Online';
+        method?: 'Cash' | 'Online' | 'Wallet';
     };
     // Agent booking tracking
     bookedByAgentId?: string;        // Changed to string for firebaseUid
@@ -252,6 +526,514 @@ export interface Booking {
     adminAlertCount?: number;        // Count of admin alerts sent (max 3 before auto-cancel)
     lastAdminAlertTime?: string;     // Timestamp of last admin alert
     locationCoords?: { lat: number; lng: number; }; // Coordinates for the booking location
+    fieldId?: string;                // Saved field the booking was made for
+    // Automatic dispatch
+    dispatchWave?: number;           // Last wave of offers sent (0 = not dispatched yet)
+    dispatchRadiusKm?: number;       // Radius used for the current wave
+    dispatchOffers?: DispatchOffer[];
+    dispatchExhausted?: boolean;     // No more candidates at the widest radius - left to admin
+    statusHistory?: BookingStatusChange[]; // Audit trail of lifecycle transitions
+    refundId?: string;               // Refund / cancellation fee record for a cancelled booking
+    couponCode?: string;             // Coupon redeemed when the booking was created (see discountAmount)
+}
+
+export type BookingEventType =
+    | 'status_changed'
+    | 'updated'
+    | 'allotted'
+    | 'radius_expanded'
+    | 'search_timeout'
+    | 'admin_alert'
+    | 'auto_cancelled'
+    | 'auto_completed'
+    | 'dispatch_wave'
+    | 'dispatch_radius_widened'
+    | 'dispatch_exhausted'
+    | 'offer_declined'
+    | 'payment_received'
+    | 'payment_mismatch'
+    | 'refund_created'
+    | 'share_accepted'
+    | 'arrival_overridden'
+    | 'acres_measured'
+    | 'acres_reviewed';
+
+// Append-only log entry for a booking (stored in the booking_events collection)
+export interface BookingEvent {
+    id: string;
+    bookingId: string;
+    type: BookingEventType;
+    fromStatus?: BookingStatus;
+    toStatus?: BookingStatus;
+    actorId: string;                 // firebaseUid of the actor, or 'system' for scheduled jobs
+    actorRole?: string;
+    changedFields?: string[];        // Booking fields written by this change
+    note?: string;
+    timestamp: string;
+}
+
+// One GPS fix from a supplier's device while it is heading to / working on a booking
+export interface LocationPoint {
+    lat: number;
+    lng: number;
+    accuracy?: number;               // metres
+    speed?: number;                  // km/h as reported by the device
+    heading?: number;                // degrees clockwise from north
+    recordedAt: string;
+}
+
+// Live position of a booking's machine (stored in booking_tracking, id = booking id).
+// The breadcrumb trail is kept in its `points` subcollection.
+export interface BookingTracking {
+    bookingId: string;
+    farmerId: string;
+    supplierId: string;
+    itemId?: number;
+    lastLocation: LocationPoint;
+    pointCount: number;
+    distanceKm?: number;             // Straight-line distance left to the field
+    etaMinutes?: number;             // Only while the machine is on its way (Confirmed)
+    etaAt?: string;
+    updatedAt: string;
+}
+
+export type SoilType = 'Black' | 'Red' | 'Alluvial' | 'Sandy' | 'Loamy' | 'Clay' | 'Laterite' | 'Other';
+
+// A farmer's plot: drawn as a polygon, or just pinned when the boundary isn't mapped
+export interface Field {
+    id: string;
+    farmerId: string;
+    name: string;
+    boundary?: { lat: number; lng: number }[];
+    center: { lat: number; lng: number };  // Polygon centroid, or the pin
+    location?: string;                     // Village / address shown on bookings
+    acres: number;
+    soilType?: SoilType;
+    currentCrop?: string;
+    createdBy: string;                     // Farmer, or the agent who mapped it for them
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type PaymentPurpose = 'advance' | 'final';
+
+export type VerifiedPlanId = 'monthly' | 'quarterly' | 'yearly';
+
+// A verified-account subscription plan
+export interface VerifiedPlan {
+    id: VerifiedPlanId;
+    name: string;
+    months: number;
+    price: number;                   // Rupees for the whole period
+}
+
+// One paid (or admin-granted) verified period, newest last
+export interface VerificationHistoryEntry {
+    purchaseDate: string;
+    expiryDate: string;
+    plan: string;                    // Plan name at the time
+    amount: number;
+    planId?: VerifiedPlanId;
+    source?: 'purchase' | 'auto_renewal' | 'admin';
+    paymentMethod?: 'Online' | 'Wallet';
+    paymentReference?: string;       // Provider payment id, wallet transaction id or admin id
+}
+
+// A supplier's verified-account state with the plans on offer
+export interface VerifiedSubscriptionStatus {
+    status: 'none' | 'active' | 'grace' | 'lapsed';
+    planId?: VerifiedPlanId;
+    autoRenew: boolean;
+    purchaseDate?: string;
+    expiryDate?: string;
+    graceUntil?: string;
+    history: VerificationHistoryEntry[];
+    plans: VerifiedPlan[];
+}
+
+// A payment order created with the active payment provider (stored in payment_orders)
+export interface PaymentOrder {
+    id: string;                      // Same as providerOrderId
+    bookingId?: string;              // Not set for wallet top-ups
+    walletUserId?: string;           // Wallet credited by a top-up
+    subscriberId?: string;           // Supplier buying a verified-account plan
+    planId?: VerifiedPlanId;
+    purpose: PaymentPurpose | 'wallet_top_up' | 'verified_subscription';
+    amount: number;                  // Rupees
+    currency: 'INR';
+    provider: string;                // 'razorpay' | 'fake'
+    providerOrderId: string;
+    providerPaymentId?: string;
+    status: 'created' | 'paid' | 'failed';
+    idempotencyKey: string;
+    createdBy: string;
+    createdAt: string;
+    paidAt?: string;
+    // Set by the reconciliation job
+    reconciliationStatus?: 'matched' | 'mismatch';
+    reconciliationNote?: string;
+    lastReconciledAt?: string;
+}
+
+// Cancellation policy: the first window whose threshold the booking still meets applies
+export interface CancellationWindow {
+    minHoursBeforeStart: number;     // Window applies when cancelled at least this many hours before start
+    feePercent: number;              // Fee as a percentage of the booking value
+}
+
+export interface CancellationPolicy {
+    windows: CancellationWindow[];
+    categoryWindows?: Partial<Record<ItemCategory, CancellationWindow[]>>; // Per-category overrides
+    minimumFee?: Partial<Record<ItemCategory, number>>; // Flat minimum fee (rupees) once a fee applies
+    supplierPenaltyPercent: number;  // Charged to a supplier who cancels a confirmed booking
+    updatedAt?: string;
+    updatedBy?: string;
+}
+
+// Suspension / block thresholds for one role's cancellation run
+export interface SuspensionRolePolicy {
+    enabled: boolean;
+    windowDays: number;     // Only cancellations within this many days count (0 = no limit)
+    suspendAfter: number;   // Cancellations in the run that suspend the account
+    suspendHours: number;
+    blockAfter: number;     // Cancellations in the run that block the account
+    blockDays: number;
+}
+
+// Account suspension policy (stored in settings/suspension_policy)
+export interface SuspensionPolicy {
+    supplier: SuspensionRolePolicy;
+    farmer: SuspensionRolePolicy;
+    exemptTrustedSuppliers: boolean; // Trusted suppliers are warned instead of suspended
+    updatedAt?: string;
+    updatedBy?: string;
+}
+
+export interface SuspensionAppeal {
+    userStatus: 'suspended' | 'blocked';
+    suspendedUntil?: string;
+    reason?: string;
+    decision?: 'lifted' | 'upheld';
+    decidedBy?: string;
+    decidedAt?: string;
+}
+
+export type SurgeMode = 'off' | 'propose' | 'auto';
+
+// Automatic surge pricing (stored in settings/surge_pricing)
+export interface SurgeSettings {
+    mode: SurgeMode;                 // 'propose' leaves each change for an admin to approve
+    windowHours: number;             // Demand counted over this sliding window
+    minDemand: number;               // Fewer demand signals than this never surge an area
+    targetRatio: number;             // Demand per available item at which prices stay at 1x
+    sensitivity: number;             // Multiplier added per unit of ratio above the target
+    minMultiplier: number;           // Floor; below 1 lets quiet areas get cheaper
+    maxMultiplier: number;           // Cap on any automatic multiplier
+    maxStepPerRun: number;           // Largest move of a multiplier in one run
+    updatedAt?: string;
+    updatedBy?: string;
+}
+
+// Demand against supply for one mandal and category over the window
+export interface SurgeArea {
+    district: string;
+    mandal: string;
+    category: ItemCategory;
+    searchingBookings: number;
+    failedSearches: number;
+    availableItems: number;
+    optedInItems: number;            // Items whose supplier accepts automatic pricing
+    ratio: number;
+    suggestedMultiplier: number;
+    currentMultiplier: number;
+    manualRule: boolean;             // An admin's own rule covers the area, so it's left alone
+}
+
+// One automatic (or admin-approved) change to a surge rule
+export interface SurgeAuditEntry {
+    id: string;
+    ruleId: string;
+    district: string;
+    mandal: string;
+    category: ItemCategory;
+    action: 'applied' | 'proposed' | 'approved' | 'dismissed';
+    fromMultiplier: number;
+    toMultiplier: number;
+    searchingBookings: number;
+    failedSearches: number;
+    availableItems: number;
+    performedBy: string;             // 'system' for the scheduler
+    createdAt: string;
+}
+
+export interface CancellationQuote {
+    cancelledBy: 'farmer' | 'supplier' | 'system';
+    hoursBeforeStart: number;
+    feePercent: number;
+    bookingValue: number;
+    amountPaid: number;              // Advance already paid online
+    cancellationFee: number;         // Kept from the farmer's payment
+    refundAmount: number;            // Returned to the farmer
+    supplierPenalty: number;         // Owed by the supplier
+}
+
+export interface Refund extends CancellationQuote {
+    id: string;
+    bookingId: string;
+    farmerId: string;
+    supplierId?: string;
+    advancePaymentId?: string;
+    status: 'pending' | 'processed' | 'not_required';
+    createdBy: string;
+    createdAt: string;
+    processedAt?: string;
+    processedBy?: string;
+    processingReference?: string;
+}
+
+// Double-entry ledger: every entry's debits equal its credits (rupees)
+export type LedgerAccount =
+    | 'gateway_clearing'             // Online money held by the platform
+    | 'farmer_advances'              // Advances paid, held until the booking completes or is cancelled
+    | 'supplier_payable'             // Owed to a supplier (per supplierId); debited for cash they collected and payouts
+    | 'refunds_payable'              // Owed back to farmers
+    | 'commission_revenue'
+    | 'cancellation_fee_revenue'
+    | 'penalty_revenue'
+    | 'subscription_revenue'         // Verified-account plans
+    | 'discount_expense'
+    | 'wallet_balances';             // Owed to users as wallet balance (cash and promo)
+
+export type LedgerLineKind =
+    | 'farmer_payment'
+    | 'advance'
+    | 'cash_collected'
+    | 'commission'
+    | 'distance_charge'
+    | 'discount'
+    | 'supplier_earning'
+    | 'cancellation_fee'
+    | 'refund'
+    | 'supplier_penalty'
+    | 'payout'
+    | 'wallet_top_up'
+    | 'wallet_credit'
+    | 'wallet_payment'
+    | 'subscription';
+
+export interface LedgerLine {
+    account: LedgerAccount;
+    kind: LedgerLineKind;
+    debit: number;
+    credit: number;
+    supplierId?: string;             // Set on supplier_payable lines
+}
+
+export type LedgerEntryType = 'advance_received' | 'booking_completed' | 'cancellation' | 'refund_paid' | 'supplier_payout' | 'wallet_transaction' | 'subscription_payment';
+
+export interface LedgerEntry {
+    id: string;
+    type: LedgerEntryType;
+    bookingId?: string;
+    supplierIds: string[];           // Suppliers with a supplier_payable line (for array-contains queries)
+    settlementId: string | null;     // Settlement batch that paid out this entry's supplier lines
+    lines: LedgerLine[];
+    memo?: string;
+    createdAt: string;
+}
+
+export interface Settlement {
+    id: string;
+    supplierId: string;
+    periodStart: string;             // YYYY-MM-DD (inclusive)
+    periodEnd: string;               // YYYY-MM-DD (exclusive)
+    entryIds: string[];
+    earnings: number;                // Job earnings + distance charges
+    cashCollected: number;           // Cash the supplier already received from farmers
+    penalties: number;
+    netPayable: number;
+    status: 'pending' | 'paid' | 'failed';
+    payoutReference?: string;
+    failureReason?: string;
+    createdAt: string;
+    paidAt?: string;
+    updatedBy?: string;
+}
+
+export interface SupplierLedgerLine {
+    entryId: string;
+    type: LedgerEntryType;
+    kind: LedgerLineKind;
+    bookingId?: string;
+    amount: number;                  // Positive = owed to the supplier, negative = owed by the supplier
+    settlementId: string | null;
+    createdAt: string;
+}
+
+export interface SupplierLedger {
+    supplierId: string;
+    balance: number;                 // Currently owed to the supplier (unpaid, settled or not)
+    unsettledBalance: number;        // Not yet part of a settlement batch
+    summary: {
+        earnings: number;
+        distanceCharges: number;
+        commission: number;
+        cashCollected: number;
+        penalties: number;
+        paidOut: number;
+    };
+    lines: SupplierLedgerLine[];
+    settlements: Settlement[];
+}
+
+export type WalletTransactionType =
+    | 'top_up'                       // Paid in through the payment provider
+    | 'refund'                       // Cancellation refund credited to the wallet
+    | 'goodwill_credit'              // Admin-issued, e.g. after a dispute
+    | 'promo_credit'                 // Admin-issued promotional balance
+    | 'booking_payment'              // Advance or final amount paid from the wallet
+    | 'subscription_payment';        // Verified-account plan paid from the wallet
+
+// Per-user balance (stored in wallets, id = user id). Promo balance can only be spent on bookings.
+export interface Wallet {
+    userId: string;
+    balance: number;
+    promoBalance: number;
+    updatedAt: string;
+}
+
+// Append-only wallet history (stored in wallet_transactions). Amounts are signed: credits > 0, debits < 0.
+export interface WalletTransaction {
+    id: string;
+    userId: string;
+    type: WalletTransactionType;
+    amount: number;                  // Change to the cash balance
+    promoAmount: number;             // Change to the promo balance
+    balanceAfter: number;
+    promoBalanceAfter: number;
+    bookingId?: string;
+    refundId?: string;
+    ticketId?: string;
+    paymentOrderId?: string;
+    note?: string;
+    createdBy: string;
+    createdAt: string;
+}
+
+export type CouponDiscountType = 'percent' | 'flat';
+
+// Admin-managed promotion code (stored in coupons, keyed by code)
+export interface Coupon {
+    code: string;                    // Upper case, also the document id
+    description?: string;
+    discountType: CouponDiscountType;
+    value: number;                   // Percent (1-100) or flat rupees
+    maxDiscount?: number;            // Cap for percentage coupons
+    minOrderValue?: number;
+    category?: ItemCategory;         // Only bookings in this category
+    district: string;                // Targeting works like pricing rules: a name or 'ALL'
+    mandal: string;
+    firstBookingOnly: boolean;
+    usageLimit?: number;             // Total redemptions across all users
+    perUserLimit?: number;
+    usedCount: number;
+    validFrom?: string;
+    expiresAt?: string;
+    isActive: boolean;
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// One use of a coupon on a booking (stored in coupon_redemptions as `${code}-${bookingId}`)
+export interface CouponRedemption {
+    id: string;
+    code: string;
+    bookingId: string;
+    userId: string;
+    discountAmount: number;
+    createdAt: string;
+}
+
+// Price for one machine that could take a booking request, line by line (see services/quotes.ts on the server)
+export interface ItemQuote {
+    itemId: number;
+    pricingUnit: PricingUnit;
+    basePrice: number;               // Supplier's list price per unit for the purpose
+    seasonalModifier: number;        // Supplier's seasonal price for the booking date, 1 when none applies
+    seasonName?: string;
+    regionalMultiplier: number;      // Admin pricing rule for the area, 1 when none applies
+    regionalRuleName?: string;
+    unitPrice: number;               // basePrice with both modifiers applied
+    minimumCharge?: number;          // Scaled by the same modifiers
+    machineCharge: number;
+    operatorCharge: number;
+    distanceCharge: number;
+    total: number;
+}
+
+// Itemised quote for a booking request: one line set per candidate machine, ranged across them
+export interface BookingQuote {
+    items: ItemQuote[];
+    machine: { min: number; max: number };
+    operator: { min: number; max: number };
+    distance: { min: number; max: number };
+    subtotal: { min: number; max: number };
+    coupon?: { code: string; description?: string; discountAmount: number };
+    couponError?: string;            // Why the requested code does not apply (the quote is still returned)
+    total: number;                   // subtotal.max less the coupon: what the booking is created at
+    quotedAt: string;
+}
+
+export interface InvoiceParty {
+    name: string;
+    phone?: string;
+    address?: string;
+    gstin?: string;
+}
+
+export interface InvoiceLineItem {
+    description: string;
+    quantity: number;
+    unit: string;
+    rate: number;
+    amount: number;
+}
+
+// Invoice for a completed booking (stored in invoices, id = booking id). Amounts are tax-inclusive.
+export interface Invoice {
+    id: string;
+    invoiceNumber: string;           // e.g. AR/2025-26/000042 - sequential per financial year
+    sequence: number;
+    financialYear: string;
+    documentType: 'tax_invoice' | 'bill_of_supply'; // Bill of supply when the supplier has no GSTIN
+    bookingId: string;
+    farmerId: string;
+    supplierId: string;
+    supplier: InvoiceParty;
+    customer: InvoiceParty;
+    serviceDate: string;
+    location: string;
+    workPurpose?: string;
+    hours?: number;
+    acres?: number;
+    sacCode: string;
+    lines: InvoiceLineItem[];
+    distanceCharge: number;
+    discountAmount: number;
+    taxableValue: number;
+    gstPercent: number;
+    cgst: number;
+    sgst: number;
+    total: number;
+    advancePaid: number;
+    balancePaid: number;
+    paymentMethod: string;
+    paymentReferences: string[];
+    issuedAt: string;
+    revision: number;
+    regeneratedAt?: string;
+    regeneratedBy?: string;
 }
 
 export interface Review {
@@ -343,6 +1125,7 @@ export interface SupportTicket {
     status: 'open' | 'closed' | 'escalated' | 'pending';
     timestamp: string;
     replies?: SupportReply[];
+    appeal?: SuspensionAppeal; // Set when the ticket appeals an account suspension or block
     category?: 'Machine' | 'Payment' | 'Booking' | 'Behaviour';
     subcategory?: string;
     againstUserId?: string; // Changed to string for firebaseUid
@@ -376,7 +1159,7 @@ export type AppView =
     | { view: 'MANAGE_ITEMS' }
     | { view: 'MANAGE_BOOKINGS' }
     | { view: 'ADMIN_ANALYTICS' }
-    | { view: 'TRACKING', item: Item }
+    | { view: 'TRACKING', item: Item, booking?: Booking }
     | { view: 'REPORT_DAMAGE', booking: Booking }
     | { view: 'AI_ASSISTANT' }
     | { view: 'VOICE_ASSISTANT' }
@@ -388,12 +1171,15 @@ export type AppView =
     | { view: 'EDIT_DETAILS' }
     | { view: 'SETTINGS' }
     | { view: 'PAYMENT_HISTORY' }
+    | { view: 'WALLET' }
     | { view: 'POLICY' }
     | { view: 'COMMUNITY' }
     | { view: 'CROP_CALENDAR' }
+    | { view: 'MY_FIELDS' }
     | { view: 'SUPPLIER_KYC' }
     | { view: 'BULK_BOOKING' }
     | { view: 'VERIFIED_ACCOUNT_MANAGER' }
+    | { view: 'WAR_BREAKDOWN' }
     | { view: 'ADMIN_VERIFICATION_MANAGER' }
     | { view: 'ADMIN_DEMAND' }
     | { view: 'PROFILE' };
@@ -414,6 +1200,7 @@ export interface FraudFlag {
 export interface KycDocument {
     type: 'Aadhaar' | 'PAN' | 'Photo' | 'GST' | 'MachineProof' | 'BankPassbook';
     url?: string;
+    number?: string; // Aadhaar / PAN number or GSTIN
     status: 'Submitted' | 'Approved' | 'Rejected' | 'ReuploadRequested';
     notes?: string;
 }
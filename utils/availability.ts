@@ -0,0 +1,20 @@
+import { Item, User } from '../types';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const weekdayOf = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+/**
+ * Why an item is closed for the whole of a date (supplier rest day, weekly off-day or
+ * all-day maintenance), or null. Lists use this to filter; the server's availability check
+ * (hours, overlaps, holds, daily limit) is what a booking has to pass.
+ */
+export const getItemDayOffReason = (item: Item, owner: User | null | undefined, date: string): string | null => {
+    if (owner?.blockedDates?.includes(date)) return 'The supplier is taking a rest day';
+    const calendar = item.availability;
+    if (!calendar) return null;
+    if (calendar.weeklyOffDays.includes(weekdayOf(date))) return `${item.name} doesn't work on ${DAY_NAMES[weekdayOf(date)]}s`;
+    const allDay = calendar.maintenance.find(w => w.date === date && !w.startTime);
+    if (allDay) return `${item.name} is in maintenance all day${allDay.reason ? ` (${allDay.reason})` : ''}`;
+    return null;
+};
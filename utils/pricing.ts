@@ -1,5 +1,6 @@
-import { Item } from '../types';
+import { ItemPurpose, PricingUnit } from '../types';
 
+// Admin regional multiplier, edited on the Demand Control screen and applied by the server's quote service
 export interface PricingRule {
     id: string;
     district: string;       // e.g., "Siddipet" (or "ALL")
@@ -8,69 +9,31 @@ export interface PricingRule {
     seasonName?: string;    // e.g., "Kharif Harvest"
     category?: string;      // Optional: Specific to "Tractors"
     isActive: boolean;
+    source?: 'manual' | 'auto';   // 'auto' rules are kept by the server's surge scheduler
+    proposedMultiplier?: number;  // Automatic change waiting for approval
+    updatedAt?: string;
 }
 
-export const calculateDynamicPrice = (
-    basePrice: number,
-    item: Item | undefined | null,
-    locationDetails: { district?: string, mandal?: string, city?: string } | null,
-    rules: PricingRule[]
-): { finalPrice: number, isSurgeApplied: boolean, multiplier: number } => {
-
-    // Default result
-    const result = { finalPrice: basePrice, isSurgeApplied: false, multiplier: 1.0 };
-
-    if (!item || !item.autoPriceOptimization || !locationDetails || !rules || rules.length === 0) {
-        return result;
-    }
-
-    // Normalize location inputs
-    const district = locationDetails.district?.trim().toLowerCase() || '';
-    const mandal = locationDetails.mandal?.trim().toLowerCase() || locationDetails.city?.trim().toLowerCase() || ''; // Fallback for Mandal usually city/town
-
-    // Filter Active Rules
-    const activeRules = rules.filter(r => r.isActive);
-
-    // Find Matching Rules
-    // Priority: 1. Exact Mandal Match -> 2. Exact District Match -> 3. Global (ALL/ALL)
-
-    let matchedRule: PricingRule | null = null;
-
-    // 1. Try Specific Mandal Rule
-    const mandalRule = activeRules.find(r =>
-        r.district.toLowerCase() === district &&
-        r.mandal.toLowerCase() === mandal &&
-        (!r.category || r.category === item.category)
-    );
-
-    if (mandalRule) {
-        matchedRule = mandalRule;
-    } else {
-        // 2. Try District Rule (Mandal = 'ALL')
-        const districtRule = activeRules.find(r =>
-            r.district.toLowerCase() === district &&
-            r.mandal === 'ALL' &&
-            (!r.category || r.category === item.category)
-        );
-
-        if (districtRule) {
-            matchedRule = districtRule;
-        } else {
-            // 3. Try Global Rule
-            const globalRule = activeRules.find(r =>
-                r.district === 'ALL' &&
-                r.mandal === 'ALL' &&
-                (!r.category || r.category === item.category)
-            );
-            if (globalRule) matchedRule = globalRule;
-        }
-    }
-
-    if (matchedRule && matchedRule.multiplier > 1.0) {
-        result.multiplier = matchedRule.multiplier;
-        result.finalPrice = Math.round(basePrice * matchedRule.multiplier);
-        result.isSurgeApplied = true;
-    }
+export const PRICING_UNIT_LABELS: Record<PricingUnit, string> = {
+    hour: 'hr',
+    acre: 'acre',
+    trip: 'trip',
+};
 
-    return result;
+/**
+ * Machine charge for one purpose: the rate times hours, acres or trips, never below the
+ * purpose's minimum charge per machine. Hours and trips are per machine; acres are the
+ * whole job, shared between the machines. Mirrors calculatePurposeCharge on the server.
+ */
+export const calculatePurposeCharge = (
+    purpose: Pick<ItemPurpose, 'price' | 'unit' | 'minimumCharge'>,
+    job: { hours: number; acres?: number; quantity?: number },
+    rate: number = purpose.price
+): number => {
+    const quantity = job.quantity || 1;
+    const unit = purpose.unit || 'hour';
+    const charge = unit === 'acre' ? rate * (job.acres || 0)
+        : unit === 'trip' ? rate * quantity
+            : rate * job.hours * quantity;
+    return Math.round(Math.max(charge, (purpose.minimumCharge || 0) * quantity));
 };